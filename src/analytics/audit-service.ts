@@ -23,13 +23,31 @@ export type AuditAction =
   | 'profile.deleted'
   | 'contest.discovered'
   | 'contest.entered'
+  | 'contest.rules_changed'
+  | 'contest.paused'
+  | 'contest.resumed'
+  | 'contest.flagged_scam'
+  | 'contest.merged'
+  | 'contest.split'
   | 'win.detected'
   | 'win.confirmed'
+  | 'win.dismissed'
+  | 'win.tax_updated'
+  | 'win.status_changed'
+  | 'win.document_updated'
+  | 'win.deadline_changed'
   | 'settings.updated'
   | 'export.generated'
   | 'discovery.run'
+  | 'discovery.source_quarantined'
+  | 'discovery.source_released'
   | 'queue.paused'
-  | 'queue.resumed';
+  | 'queue.resumed'
+  | 'compliance.review_queued'
+  | 'compliance.review_approved'
+  | 'compliance.review_rejected'
+  | 'reputation.updated'
+  | 'reputation.removed';
 
 export interface AuditEntry {
   action: AuditAction;
@@ -3,7 +3,7 @@
  * Records individual costs and provides aggregated breakdowns and trends.
  */
 
-import { and, gte, lte, sql, count } from 'drizzle-orm';
+import { and, gte, lte, sql, count, countDistinct, isNotNull } from 'drizzle-orm';
 import { getDb } from '../db/index.js';
 import { costLog, entries, wins } from '../db/schema.js';
 import { getLogger } from '../shared/logger.js';
@@ -12,6 +12,7 @@ import type {
   DateRange,
   CostLogEntry,
   CostBreakdown,
+  PerEntryCosts,
   TimeSeriesPoint,
 } from './types.js';
 
@@ -193,6 +194,57 @@ export class CostTracker {
     }
   }
 
+  /**
+   * Returns the average cost per entry in each category for a given
+   * period, counting only costs logged against an entry. Used to project
+   * what planned entries will cost.
+   */
+  async getPerEntryCosts(period: DateRange): Promise<PerEntryCosts> {
+    const db = getDb();
+    const inPeriod = and(
+      isNotNull(costLog.entryId),
+      gte(costLog.createdAt, period.from),
+      lte(costLog.createdAt, period.to),
+    );
+
+    try {
+      const rows = db
+        .select({
+          category: costLog.category,
+          total: sql<number>`coalesce(sum(${costLog.amount}), 0)`,
+          entryCount: countDistinct(costLog.entryId),
+        })
+        .from(costLog)
+        .where(inPeriod)
+        .groupBy(costLog.category)
+        .all();
+
+      const sample = db
+        .select({ entryCount: countDistinct(costLog.entryId) })
+        .from(costLog)
+        .where(inPeriod)
+        .get();
+
+      const averages: PerEntryCosts = {
+        captcha: null,
+        proxy: null,
+        sms: null,
+        social: null,
+        sampleEntries: sample?.entryCount ?? 0,
+      };
+      for (const row of rows) {
+        if (row.entryCount > 0) {
+          averages[row.category] = row.total / row.entryCount;
+        }
+      }
+
+      return averages;
+    } catch (error) {
+      log.error({ err: error, period }, 'Failed to get per-entry costs');
+      return { captcha: null, proxy: null, sms: null, social: null, sampleEntries: 0 };
+    }
+  }
+
   /**
    * Returns cost trend data as a time series.
    */
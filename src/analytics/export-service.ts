@@ -1,6 +1,7 @@
 /**
  * CSV and JSON data export service.
  * Generates export files from database queries and saves them to data/exports/.
+ * Tax summaries can also be written as a printable HTML document.
  */
 
 import { mkdirSync, existsSync, writeFileSync } from 'node:fs';
@@ -11,6 +12,8 @@ import { getDb } from '../db/index.js';
 import { entries, contests, wins, costLog, profiles } from '../db/schema.js';
 import { getLogger } from '../shared/logger.js';
 import { generateId } from '../shared/crypto.js';
+import { formatCurrency } from '../shared/utils.js';
+import { TaxTracker, type TaxYearSummary } from '../compliance/tax-tracker.js';
 import type {
   DateRange,
   EntryFilter,
@@ -86,7 +89,7 @@ function toCsv(rows: Record<string, unknown>[], columns?: string[]): string {
 function writeExport(
   name: string,
   content: string,
-  format: 'csv' | 'json',
+  format: 'csv' | 'json' | 'html',
 ): string {
   ensureExportDir();
 
@@ -103,6 +106,139 @@ function writeExport(
   return filePath;
 }
 
+// ---------------------------------------------------------------------------
+// Tax summary helpers
+// ---------------------------------------------------------------------------
+
+const TAX_COLUMNS = [
+  'year',
+  'profileName',
+  'state',
+  'detectedAt',
+  'sponsor',
+  'contestTitle',
+  'prizeDescription',
+  'statedValue',
+  'fairMarketValue',
+  'fmvNote',
+  'taxableValue',
+  'reportable',
+  'sponsorTotal',
+  'expects1099',
+  'taxReported',
+];
+
+/**
+ * Flattens a tax-year summary to one row per win, with the sponsor's
+ * yearly total so the accountant can match each 1099-MISC.
+ */
+function taxSummaryRows(summary: TaxYearSummary): Record<string, unknown>[] {
+  return summary.profiles.flatMap((profile) =>
+    profile.wins.map((win) => {
+      const payer = profile.payers.find(
+        (p) => p.sponsor === (win.sponsor?.trim() || 'Unknown sponsor'),
+      );
+      return {
+        year: summary.year,
+        profileName: profile.profileName,
+        state: profile.state ?? '',
+        detectedAt: win.detectedAt.slice(0, 10),
+        sponsor: win.sponsor ?? '',
+        contestTitle: win.contestTitle ?? '',
+        prizeDescription: win.prizeDescription ?? '',
+        statedValue: win.statedValue.toFixed(2),
+        fairMarketValue: win.fairMarketValue?.toFixed(2) ?? '',
+        fmvNote: win.fmvNote ?? '',
+        taxableValue: win.taxableValue.toFixed(2),
+        reportable: win.reportable ? 'yes' : 'no',
+        sponsorTotal: payer?.total.toFixed(2) ?? '',
+        expects1099: payer?.expects1099 ? 'yes' : 'no',
+        taxReported: win.taxReported ? 'yes' : 'no',
+      };
+    }),
+  );
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders a tax-year summary as a self-contained HTML page laid out for
+ * printing to PDF.
+ */
+function taxSummaryHtml(summary: TaxYearSummary): string {
+  const pct = (rate: number) => `${(rate * 100).toFixed(2)}%`;
+
+  const profileSections = summary.profiles
+    .map((profile) => {
+      const winRows = profile.wins
+        .map(
+          (win) => `<tr>
+<td>${escapeHtml(win.detectedAt.slice(0, 10))}</td>
+<td>${escapeHtml(win.sponsor)}</td>
+<td>${escapeHtml(win.prizeDescription ?? win.contestTitle)}</td>
+<td class="num">${formatCurrency(win.statedValue)}</td>
+<td class="num">${win.fairMarketValue !== null ? formatCurrency(win.fairMarketValue) : ''}</td>
+<td class="num">${formatCurrency(win.taxableValue)}</td>
+<td>${win.reportable ? 'Yes' : ''}</td>
+<td>${win.taxReported ? 'Yes' : 'No'}</td>
+</tr>`,
+        )
+        .join('\n');
+
+      return `<section>
+<h2>${escapeHtml(profile.profileName)} (${escapeHtml(profile.state ?? 'Unknown state')})</h2>
+<p>Taxable winnings ${formatCurrency(profile.taxableValue)} &middot; FMV adjustment ${formatCurrency(profile.fmvAdjustment)} &middot; estimated federal ${formatCurrency(profile.estimatedFederal)} &middot; estimated state ${formatCurrency(profile.estimatedState)}</p>
+<table>
+<thead><tr><th>Date</th><th>Sponsor</th><th>Prize</th><th>Stated</th><th>FMV</th><th>Taxable</th><th>&ge; $600</th><th>Reported</th></tr></thead>
+<tbody>
+${winRows}
+</tbody>
+</table>
+</section>`;
+    })
+    .join('\n');
+
+  const stateRows = summary.byState
+    .map(
+      (s) => `<tr><td>${escapeHtml(s.state)}</td><td class="num">${s.profileCount}</td><td class="num">${formatCurrency(s.taxableValue)}</td><td class="num">${pct(s.stateRate)}</td><td class="num">${formatCurrency(s.estimatedState)}</td></tr>`,
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Prize winnings summary ${summary.year}</title>
+<style>
+body { font-family: sans-serif; font-size: 11pt; margin: 2em; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1em; }
+th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; }
+td.num { text-align: right; }
+section { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>Prize winnings summary ${summary.year}</h1>
+<p>Total taxable winnings ${formatCurrency(summary.totals.taxableValue)}; estimated federal ${formatCurrency(summary.totals.estimatedFederal)} at ${pct(summary.rates.federalRate)}; estimated state ${formatCurrency(summary.totals.estimatedState)}. Estimates use flat rates and are not tax advice.</p>
+<h2>By state</h2>
+<table>
+<thead><tr><th>State</th><th>Profiles</th><th>Taxable</th><th>Rate</th><th>Estimated</th></tr></thead>
+<tbody>
+${stateRows}
+</tbody>
+</table>
+${profileSections}
+</body>
+</html>
+`;
+}
+
 // ---------------------------------------------------------------------------
 // Export service
 // ---------------------------------------------------------------------------
@@ -219,6 +355,8 @@ export class ExportService {
           endDate: contests.endDate,
           prizeDescription: contests.prizeDescription,
           prizeValue: contests.prizeValue,
+          prizeCount: contests.prizeCount,
+          prizePoolValue: contests.prizePoolValue,
           prizeCategory: contests.prizeCategory,
           entryFrequency: contests.entryFrequency,
           requiresCaptcha: contests.requiresCaptcha,
@@ -350,4 +488,33 @@ export class ExportService {
       throw error;
     }
   }
+
+  /**
+   * Exports the tax-year summary as CSV (one row per win), JSON (the full
+   * summary), or print-ready HTML for PDF conversion.
+   * Returns the path to the generated file.
+   */
+  async exportTaxSummary(
+    year: number,
+    format: 'csv' | 'json' | 'html',
+    profileId?: string,
+  ): Promise<string> {
+    try {
+      const summary = new TaxTracker(getDb()).getYearSummary(year, profileId);
+
+      let content: string;
+      if (format === 'csv') {
+        content = toCsv(taxSummaryRows(summary), TAX_COLUMNS);
+      } else if (format === 'html') {
+        content = taxSummaryHtml(summary);
+      } else {
+        content = JSON.stringify(summary, null, 2);
+      }
+
+      return writeExport(`tax_${year}`, content, format);
+    } catch (error) {
+      log.error({ err: error, year, profileId, format }, 'Failed to export tax summary');
+      throw error;
+    }
+  }
 }
@@ -31,6 +31,7 @@ export type {
   TimeSeriesPoint,
   CostLogEntry,
   CostBreakdown,
+  PerEntryCosts,
   ROIData,
   ContestROI,
   EntryFilter,
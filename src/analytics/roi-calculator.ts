@@ -1,18 +1,27 @@
 /**
  * ROI (Return on Investment) calculator for sweepstakes operations.
  * Computes expected value, net profit, and per-contest performance.
+ *
+ * Expected value is taken over each contest's whole prize table (every
+ * tier's ARV x quantity) with the estimated odds, not the grand prize
+ * alone, so a contest with one car and a thousand $5 gift cards is
+ * valued by both.
  */
 
-import { and, gte, lte, eq, sql, count } from 'drizzle-orm';
+import { and, gte, lte, eq, sql, count, inArray, type SQL } from 'drizzle-orm';
 import { getDb } from '../db/index.js';
 import { entries, wins, costLog, contests } from '../db/schema.js';
 import { getLogger } from '../shared/logger.js';
+import { estimateOdds, type OddsEstimate } from '../intelligence/odds-estimator.js';
 import type { DateRange, ROIData, ContestROI } from './types.js';
 
 const log = getLogger('analytics', { service: 'roi-calculator' });
 
 const MS_PER_DAY = 86_400_000;
 
+/** Entry statuses that reached the sponsor and so had a chance to win. */
+const SUBMITTED_STATUSES: Array<typeof entries.status._.data> = ['submitted', 'confirmed', 'won', 'lost'];
+
 export class ROICalculator {
   /**
    * Calculates overall ROI for a given period.
@@ -85,6 +94,11 @@ export class ROICalculator {
       const dailyProfit = netProfit / periodDays;
       const projectedMonthlyROI = dailyProfit * 30;
 
+      const expectedWinValue = this.expectedWinValue(
+        and(gte(entries.createdAt, period.from), lte(entries.createdAt, period.to)),
+      );
+      const expectedROI = totalCost > 0 ? (expectedWinValue - totalCost) / totalCost : 0;
+
       return {
         totalCost,
         totalWinValue,
@@ -95,6 +109,8 @@ export class ROICalculator {
         avgWinValue,
         winRate,
         projectedMonthlyROI,
+        expectedWinValue,
+        expectedROI,
       };
     } catch (error) {
       log.error({ err: error, period }, 'Failed to calculate ROI');
@@ -108,6 +124,8 @@ export class ROICalculator {
         avgWinValue: 0,
         winRate: 0,
         projectedMonthlyROI: 0,
+        expectedWinValue: 0,
+        expectedROI: 0,
       };
     }
   }
@@ -119,14 +137,14 @@ export class ROICalculator {
     const db = getDb();
 
     try {
-      // Contest title
       const contest = db
-        .select({ title: contests.title })
+        .select()
         .from(contests)
         .where(eq(contests.id, contestId))
         .get();
 
       const contestTitle = contest?.title ?? 'Unknown';
+      const odds = contest ? estimateOddsOverRun(contest) : null;
 
       // Total entries for this contest
       const entryResult = db
@@ -137,6 +155,14 @@ export class ROICalculator {
 
       const totalEntries = entryResult?.cnt ?? 0;
 
+      const submittedResult = db
+        .select({ cnt: count() })
+        .from(entries)
+        .where(and(eq(entries.contestId, contestId), inArray(entries.status, SUBMITTED_STATUSES)))
+        .get();
+
+      const submittedEntries = submittedResult?.cnt ?? 0;
+
       // Total wins and value for this contest
       const winResult = db
         .select({
@@ -174,6 +200,10 @@ export class ROICalculator {
         roi,
         entries: totalEntries,
         wins: totalWins,
+        prizeCount: odds?.prizeCount ?? 1,
+        prizePoolValue: odds?.prizePoolValue ?? 0,
+        expectedValuePerEntry: odds?.expectedValue ?? 0,
+        expectedWinValue: (odds?.expectedValue ?? 0) * submittedEntries,
       };
     } catch (error) {
       log.error({ err: error, contestId }, 'Failed to calculate contest ROI');
@@ -186,6 +216,10 @@ export class ROICalculator {
         roi: 0,
         entries: 0,
         wins: 0,
+        prizeCount: 0,
+        prizePoolValue: 0,
+        expectedValuePerEntry: 0,
+        expectedWinValue: 0,
       };
     }
   }
@@ -226,4 +260,38 @@ export class ROICalculator {
       return [];
     }
   }
+
+  /**
+   * Expected prize value of the submitted entries matching `where`:
+   * per-entry expected value of each contest times its entry count.
+   */
+  private expectedWinValue(where: SQL | undefined): number {
+    const db = getDb();
+
+    const rows = db
+      .select({ contest: contests, submitted: count() })
+      .from(entries)
+      .innerJoin(contests, eq(entries.contestId, contests.id))
+      .where(and(inArray(entries.status, SUBMITTED_STATUSES), where))
+      .groupBy(contests.id)
+      .all();
+
+    return rows.reduce(
+      (sum, row) => sum + estimateOddsOverRun(row.contest).expectedValue * row.submitted,
+      0,
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Odds for an entry made at any point in the contest: estimated from the
+ * contest's start, so the entrant pool covers the whole run rather than
+ * the time left today.
+ */
+function estimateOddsOverRun(contest: typeof contests.$inferSelect): OddsEstimate {
+  return estimateOdds(contest, null, new Date(contest.startDate ?? contest.createdAt));
 }
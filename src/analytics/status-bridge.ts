@@ -68,5 +68,13 @@ export function initStatusBridge(): void {
     });
   });
 
+  eventBus.on('circuit:state_changed', (data) => {
+    collector.recordEvent({
+      type: 'circuit_changed',
+      message: `Circuit for ${data.domain} ${data.from} -> ${data.to} (${data.reason})`,
+      data: data as unknown as Record<string, unknown>,
+    });
+  });
+
   logger.info('Status bridge initialized - forwarding eventBus events to StatusCollector');
 }
@@ -70,7 +70,8 @@ export interface StatusEvent {
     | 'error'
     | 'discovery_complete'
     | 'queue_paused'
-    | 'queue_resumed';
+    | 'queue_resumed'
+    | 'circuit_changed';
   message: string;
   timestamp: string;
   data?: Record<string, unknown>;
@@ -100,6 +100,19 @@ export interface CostLogEntry {
   description?: string;
 }
 
+/**
+ * Average spend per entry in each cost category, over the entries that
+ * incurred that category. Null when no entry in the period did.
+ */
+export interface PerEntryCosts {
+  captcha: number | null;
+  proxy: number | null;
+  sms: number | null;
+  social: number | null;
+  /** Distinct entries with at least one logged cost. */
+  sampleEntries: number;
+}
+
 export interface CostBreakdown {
   total: number;
   captcha: { total: number; perSolve: number };
@@ -124,6 +137,10 @@ export interface ROIData {
   avgWinValue: number;
   winRate: number;
   projectedMonthlyROI: number;
+  /** Expected prize value of the period's submitted entries, from each contest's prize table and odds. */
+  expectedWinValue: number;
+  /** ROI had wins matched expected value: (expectedWinValue - totalCost) / totalCost. */
+  expectedROI: number;
 }
 
 export interface ContestROI {
@@ -135,6 +152,14 @@ export interface ContestROI {
   roi: number;
   entries: number;
   wins: number;
+  /** Total prizes in the contest's prize table (1 when it has none). */
+  prizeCount: number;
+  /** Sum of ARV x quantity over the prize table (headline value when it has none). */
+  prizePoolValue: number;
+  /** Expected prize value of one submitted entry. */
+  expectedValuePerEntry: number;
+  /** Expected prize value over all submitted entries. */
+  expectedWinValue: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -11,6 +11,12 @@ import { proxyRoutes } from './routes/proxy.routes.js';
 import { emailRoutes } from './routes/email.routes.js';
 import { dashboardRoutes } from './routes/dashboard.routes.js';
 import { statusRoutes } from './routes/status.routes.js';
+import { reviewRoutes } from './routes/reviews.routes.js';
+import { taxRoutes } from './routes/tax.routes.js';
+import { winRoutes } from './routes/wins.routes.js';
+import { reputationRoutes } from './routes/reputation.routes.js';
+import { planRoutes } from './routes/plan.routes.js';
+import { circuitRoutes } from './routes/circuits.routes.js';
 
 /**
  * Registers all API route modules under the /api/v1 prefix.
@@ -28,4 +34,10 @@ export async function registerRoutes(app: FastifyInstance): Promise<void> {
   await app.register(proxyRoutes, { prefix: '/api/v1/proxy' });
   await app.register(emailRoutes, { prefix: '/api/v1/email' });
   await app.register(statusRoutes, { prefix: '/api/v1/status' });
+  await app.register(reviewRoutes, { prefix: '/api/v1/reviews' });
+  await app.register(taxRoutes, { prefix: '/api/v1/tax' });
+  await app.register(winRoutes, { prefix: '/api/v1/wins' });
+  await app.register(reputationRoutes, { prefix: '/api/v1/reputation' });
+  await app.register(planRoutes, { prefix: '/api/v1/plan' });
+  await app.register(circuitRoutes, { prefix: '/api/v1/circuits' });
 }
@@ -2,6 +2,7 @@ import type { FastifyInstance, FastifyReply } from 'fastify';
 import { sql, desc, gte, lte, and, count as countFn } from 'drizzle-orm';
 import { getDb } from '../../db/index.js';
 import { schema } from '../../db/index.js';
+import { ROICalculator } from '../../analytics/roi-calculator.js';
 import { validateQuery } from '../middleware/validator.js';
 import { paginationSchema, dateRangeSchema, paginatedResponse } from '../schemas/common.schema.js';
 
@@ -277,6 +278,12 @@ export async function analyticsRoutes(app: FastifyInstance): Promise<void> {
     const netReturn = totalWinsValue - totalCosts;
     const roiPercent = totalCosts > 0 ? Math.round((netReturn / totalCosts) * 10000) / 100 : 0;
 
+    // Expected prize value of every submitted entry, over each contest's full prize table
+    const { expectedWinValue, expectedROI } = await new ROICalculator().calculateROI({
+      from: new Date(0).toISOString(),
+      to: new Date().toISOString(),
+    });
+
     return reply.send({
       data: {
         totalCosts,
@@ -286,6 +293,8 @@ export async function analyticsRoutes(app: FastifyInstance): Promise<void> {
         roiPercent,
         avgCostPerWin: totalWins > 0 ? Math.round((totalCosts / totalWins) * 100) / 100 : null,
         avgPrizeValue: totalWins > 0 ? Math.round((totalWinsValue / totalWins) * 100) / 100 : null,
+        expectedWinsValue: Math.round(expectedWinValue * 100) / 100,
+        expectedRoiPercent: Math.round(expectedROI * 10000) / 100,
       },
     });
   });
@@ -0,0 +1,127 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { AppError } from '../../shared/errors.js';
+import { getLogger } from '../../shared/logger.js';
+import { CircuitState, getCircuitBreaker, type CircuitRecord } from '../../queue/circuit-breaker.js';
+import { validateParams, validateBody } from '../middleware/validator.js';
+import {
+  domainParamSchema,
+  openCircuitSchema,
+  type DomainParam,
+  type OpenCircuitInput,
+} from '../schemas/circuit.schema.js';
+
+const logger = getLogger('server', { component: 'circuits' });
+
+/** Open circuits first, then half-open, then closed. */
+const STATE_ORDER: Record<CircuitState, number> = {
+  [CircuitState.OPEN]: 0,
+  [CircuitState.HALF_OPEN]: 1,
+  [CircuitState.CLOSED]: 2,
+};
+
+function toIso(ms: number | null): string | null {
+  return ms === null ? null : new Date(ms).toISOString();
+}
+
+/** A circuit as the dashboard shows it, with times as ISO strings. */
+function serializeCircuit(circuit: CircuitRecord, now: number) {
+  return {
+    domain: circuit.domain,
+    state: circuit.state,
+    failureCount: circuit.failureCount,
+    successCount: circuit.successCount,
+    reason: circuit.reason,
+    lastFailureAt: toIso(circuit.lastFailureAt),
+    lastStateChangeAt: toIso(circuit.lastStateChangeAt),
+    probeAt: toIso(circuit.probeAt),
+    /** Milliseconds until the next recovery probe; 0 when one may go now. */
+    probeInMs:
+      circuit.state === CircuitState.CLOSED
+        ? null
+        : Math.max(0, (circuit.probeAt ?? now) - now),
+  };
+}
+
+/**
+ * Circuit breaker routes for the contest domains the entry worker
+ * guards. Breaker state is shared by every worker, so opening, closing
+ * or resetting a circuit here takes effect for all of them.
+ */
+export async function circuitRoutes(app: FastifyInstance): Promise<void> {
+  // GET / - Every tracked domain, open circuits first
+  app.get('/', async (_request, reply: FastifyReply) => {
+    const now = Date.now();
+    const circuits = await getCircuitBreaker().getAllCircuits();
+
+    circuits.sort(
+      (a, b) =>
+        STATE_ORDER[a.state] - STATE_ORDER[b.state] ||
+        b.failureCount - a.failureCount ||
+        a.domain.localeCompare(b.domain),
+    );
+
+    const counts = { open: 0, halfOpen: 0, closed: 0 };
+    for (const circuit of circuits) {
+      if (circuit.state === CircuitState.OPEN) counts.open++;
+      else if (circuit.state === CircuitState.HALF_OPEN) counts.halfOpen++;
+      else counts.closed++;
+    }
+
+    return reply.send({
+      data: circuits.map((c) => serializeCircuit(c, now)),
+      counts,
+    });
+  });
+
+  // POST /:domain/open - Stop entries to a domain until the probe time
+  app.post(
+    '/:domain/open',
+    { preHandler: [validateParams(domainParamSchema), validateBody(openCircuitSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { domain } = request.params as DomainParam;
+      const { durationMinutes } = request.body as OpenCircuitInput;
+
+      const circuit = await getCircuitBreaker().open(
+        domain,
+        durationMinutes ? durationMinutes * 60_000 : undefined,
+      );
+
+      logger.info({ domain, durationMinutes }, 'Circuit opened via API');
+      return reply.send({ data: serializeCircuit(circuit, Date.now()) });
+    },
+  );
+
+  // POST /:domain/close - Let entries to a domain through again
+  app.post(
+    '/:domain/close',
+    { preHandler: [validateParams(domainParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { domain } = request.params as DomainParam;
+
+      const circuit = await getCircuitBreaker().close(domain);
+      if (!circuit) {
+        throw new AppError(`No circuit tracked for ${domain}`, 'CIRCUIT_NOT_FOUND', 404);
+      }
+
+      logger.info({ domain }, 'Circuit closed via API');
+      return reply.send({ data: serializeCircuit(circuit, Date.now()) });
+    },
+  );
+
+  // POST /:domain/reset - Forget a domain's circuit and its counters
+  app.post(
+    '/:domain/reset',
+    { preHandler: [validateParams(domainParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { domain } = request.params as DomainParam;
+
+      const removed = await getCircuitBreaker().reset(domain);
+      if (!removed) {
+        throw new AppError(`No circuit tracked for ${domain}`, 'CIRCUIT_NOT_FOUND', 404);
+      }
+
+      logger.info({ domain }, 'Circuit reset via API');
+      return reply.status(204).send();
+    },
+  );
+}
@@ -1,12 +1,24 @@
 import type { FastifyInstance, FastifyReply } from 'fastify';
 import { eq, desc, asc, like, sql, and, inArray, gte, count as countFn } from 'drizzle-orm';
+import { readFileSync } from 'node:fs';
 import { getDb } from '../../db/index.js';
 import { schema } from '../../db/index.js';
 import { generateId } from '../../shared/crypto.js';
-import { normalizeUrl } from '../../shared/utils.js';
+import { normalizeUrl, extractDomain } from '../../shared/utils.js';
 import { hashForDedup } from '../../shared/crypto.js';
 import { AppError } from '../../shared/errors.js';
 import { getLogger } from '../../shared/logger.js';
+import { TermsParser } from '../../compliance/terms-parser.js';
+import { RulesStore } from '../../compliance/rules-store.js';
+import { RulesChangeMonitor } from '../../compliance/rules-monitor.js';
+import { resetColumnsFromRules } from '../../compliance/entry-window.js';
+import { ContestSnapshotArchive } from '../../compliance/snapshot-archive.js';
+import { ContestScorer, toOddsHistory, type HistoricalData } from '../../intelligence/contest-scorer.js';
+import { estimateOdds, type OddsEstimate } from '../../intelligence/odds-estimator.js';
+import { PrizeTableStore } from '../../intelligence/prize-table.js';
+import { classifyPrizeCategory } from '../../shared/prizes.js';
+import { ReputationStore, parseLegitimacyReport } from '../../discovery/reputation-store.js';
+import { ContestMerger } from '../../discovery/contest-merger.js';
 import { validateBody, validateQuery, validateParams } from '../middleware/validator.js';
 import { idParamSchema, paginatedResponse } from '../schemas/common.schema.js';
 import {
@@ -16,12 +28,27 @@ import {
   bulkEnterSchema,
   discoverUrlSchema,
   enterContestSchema,
+  rulesQuerySchema,
+  parseRulesSchema,
+  replacePrizesSchema,
+  mergeContestsSchema,
+  splitContestSchema,
+  snapshotFileParamsSchema,
+  snapshotDiffQuerySchema,
   type ContestFilterInput,
   type CreateContestInput,
   type UpdateContestInput,
   type BulkEnterInput,
   type EnterContestInput,
+  type RulesQueryInput,
+  type ParseRulesInput,
+  type ReplacePrizesInput,
+  type MergeContestsInput,
+  type SplitContestInput,
+  type SnapshotFileParamsInput,
+  type SnapshotDiffQueryInput,
 } from '../schemas/contest.schema.js';
+import { flagScamSchema, type FlagScamInput } from '../schemas/reputation.schema.js';
 
 const logger = getLogger('server', { component: 'contests' });
 
@@ -104,7 +131,13 @@ export async function contestRoutes(app: FastifyInstance): Promise<void> {
 
       const total = totalResult[0]?.count ?? 0;
 
-      return reply.send(paginatedResponse(contestRows, total, page, limit));
+      const withOdds = await attachOdds(contestRows);
+      const data = withOdds.map((row) => ({
+        ...row,
+        legitimacyReport: parseLegitimacyReport(row.legitimacyReport),
+      }));
+
+      return reply.send(paginatedResponse(data, total, page, limit));
     },
   );
 
@@ -140,10 +173,16 @@ export async function contestRoutes(app: FastifyInstance): Promise<void> {
       const totalEntries = stats?.total ?? 0;
       const successfulEntries = Number(stats?.successful ?? 0);
       const successRate = totalEntries > 0 ? successfulEntries / totalEntries : 0;
+      const [withOdds] = await attachOdds(contest);
+      const prizeTable = new PrizeTableStore(db).get(id);
 
       return reply.send({
         data: {
-          ...contest[0],
+          ...withOdds,
+          legitimacyReport: parseLegitimacyReport(contest[0]!.legitimacyReport),
+          prizes: prizeTable.prizes,
+          prizeSummary: prizeTable.summary,
+          sources: new ContestMerger(db).listSources(id),
           entryStats: {
             totalEntries,
             successfulEntries,
@@ -262,6 +301,18 @@ export async function contestRoutes(app: FastifyInstance): Promise<void> {
       if (body.endDate !== undefined) updateValues['endDate'] = body.endDate;
       if (body.entryFrequency !== undefined) updateValues['entryFrequency'] = body.entryFrequency;
       if (body.maxEntries !== undefined) updateValues['maxEntries'] = body.maxEntries;
+      if (body.resetTime) {
+        updateValues['resetTime'] = body.resetTime;
+        updateValues['resetTimezone'] = body.resetTimezone;
+        updateValues['resetSource'] = 'manual';
+      } else if (body.resetTime === null) {
+        // Clearing the manual reset time falls back to what the latest rules state.
+        const latest = new RulesStore(db).getLatest(id);
+        const fromRules = latest ? resetColumnsFromRules(latest.rules) : null;
+        updateValues['resetTime'] = fromRules?.resetTime ?? null;
+        updateValues['resetTimezone'] = fromRules?.resetTimezone ?? null;
+        updateValues['resetSource'] = fromRules ? 'rules' : null;
+      }
       if (body.prizeDescription !== undefined) updateValues['prizeDescription'] = body.prizeDescription;
       if (body.prizeValue !== undefined) updateValues['prizeValue'] = body.prizeValue;
       if (body.prizeCategory !== undefined) updateValues['prizeCategory'] = body.prizeCategory;
@@ -464,6 +515,334 @@ export async function contestRoutes(app: FastifyInstance): Promise<void> {
     },
   );
 
+  // GET /:id/prizes - Prize table (tiers, ARV, quantities) and its totals
+  app.get(
+    '/:id/prizes',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const db = getDb();
+
+      const contest = await db
+        .select({ id: schema.contests.id })
+        .from(schema.contests)
+        .where(eq(schema.contests.id, id))
+        .limit(1);
+
+      if (contest.length === 0) {
+        throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+      }
+
+      return reply.send({ data: new PrizeTableStore(db).get(id) });
+    },
+  );
+
+  // PUT /:id/prizes - Replace the prize table by hand; takes precedence over extracted tables
+  app.put(
+    '/:id/prizes',
+    { preHandler: [validateParams(idParamSchema), validateBody(replacePrizesSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const body = request.body as ReplacePrizesInput;
+      const db = getDb();
+
+      const contest = await db
+        .select({ id: schema.contests.id })
+        .from(schema.contests)
+        .where(eq(schema.contests.id, id))
+        .limit(1);
+
+      if (contest.length === 0) {
+        throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+      }
+
+      const tiers = body.prizes.map((prize, index) => ({
+        rank: index + 1,
+        tier: prize.tier,
+        description: prize.description,
+        arv: prize.arv,
+        quantity: prize.quantity,
+        category: prize.category ?? classifyPrizeCategory(`${prize.tier} ${prize.description}`),
+      }));
+
+      const { table } = new PrizeTableStore(db).replace(id, tiers, 'manual');
+      logger.info({ contestId: id, tiers: tiers.length }, 'Prize table updated manually');
+
+      return reply.send({ data: table });
+    },
+  );
+
+  // GET /:id/rules - Latest (or a specific) parsed official-rules revision
+  app.get(
+    '/:id/rules',
+    { preHandler: [validateParams(idParamSchema), validateQuery(rulesQuerySchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { version } = request.query as RulesQueryInput;
+      const db = getDb();
+
+      const contest = await db
+        .select({ id: schema.contests.id })
+        .from(schema.contests)
+        .where(eq(schema.contests.id, id))
+        .limit(1);
+
+      if (contest.length === 0) {
+        throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+      }
+
+      const store = new RulesStore(db);
+      const stored = version !== undefined
+        ? store.getVersion(id, version)
+        : store.getLatest(id);
+
+      if (!stored) {
+        throw new AppError(
+          version !== undefined
+            ? `Rules version ${version} not found for contest`
+            : 'No parsed rules stored for this contest',
+          'RULES_NOT_FOUND',
+          404,
+        );
+      }
+
+      return reply.send({
+        data: {
+          ...stored,
+          versions: store.listVersions(id),
+        },
+      });
+    },
+  );
+
+  // POST /:id/rules/parse - Fetch and parse the official rules, storing a new revision if changed
+  app.post(
+    '/:id/rules/parse',
+    { preHandler: [validateParams(idParamSchema), validateBody(parseRulesSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const body = request.body as ParseRulesInput;
+      const db = getDb();
+
+      const contest = await db
+        .select({
+          id: schema.contests.id,
+          termsUrl: schema.contests.termsUrl,
+          resetSource: schema.contests.resetSource,
+        })
+        .from(schema.contests)
+        .where(eq(schema.contests.id, id))
+        .limit(1);
+
+      if (contest.length === 0) {
+        throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+      }
+
+      const termsUrl = body.termsUrl ?? contest[0]!.termsUrl;
+      if (!termsUrl) {
+        throw new AppError(
+          'Contest has no terms URL; supply termsUrl in the request body',
+          'TERMS_URL_MISSING',
+          400,
+        );
+      }
+
+      const rules = await new TermsParser().parseRules(termsUrl);
+      const { stored, created } = new RulesStore(db).save(id, rules);
+
+      if (created) {
+        new PrizeTableStore(db).replace(id, rules.fields.prizes.value, 'rules');
+
+        const reset = resetColumnsFromRules(rules);
+        if (reset && contest[0]!.resetSource !== 'manual') {
+          await db
+            .update(schema.contests)
+            .set({ ...reset, resetSource: 'rules', updatedAt: new Date().toISOString() })
+            .where(eq(schema.contests.id, id));
+        }
+      }
+
+      if (body.termsUrl && body.termsUrl !== contest[0]!.termsUrl) {
+        await db
+          .update(schema.contests)
+          .set({ termsUrl: body.termsUrl, updatedAt: new Date().toISOString() })
+          .where(eq(schema.contests.id, id));
+      }
+
+      logger.info(
+        { contestId: id, version: stored.version, created },
+        'Contest rules parsed',
+      );
+
+      return reply.status(created ? 201 : 200).send({ data: { ...stored, created } });
+    },
+  );
+
+  // POST /:id/rules/check - Re-fetch already-parsed rules and apply any amendments now
+  app.post(
+    '/:id/rules/check',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      const result = await new RulesChangeMonitor(getDb()).checkContest(id);
+
+      if (result.status === 'skipped') {
+        throw new AppError(
+          'Contest has no parsed rules to re-check; parse them first',
+          'RULES_NOT_FOUND',
+          404,
+        );
+      }
+
+      return reply.send({ data: result });
+    },
+  );
+
+  // POST /:id/resume - Resume a contest paused after a rules change
+  app.post(
+    '/:id/resume',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      await new RulesChangeMonitor(getDb()).resume(id);
+
+      logger.info({ contestId: id }, 'Contest resumed after rules change');
+
+      return reply.send({ data: { id, paused: false } });
+    },
+  );
+
+  // POST /:id/flag-scam - Block a contest as a scam and count it against its domain and sponsor
+  app.post(
+    '/:id/flag-scam',
+    { preHandler: [validateParams(idParamSchema), validateBody(flagScamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const body = request.body as FlagScamInput;
+
+      const result = await new ReputationStore(getDb()).flagScam(id, body);
+
+      return reply.status(201).send({ data: result });
+    },
+  );
+
+  // GET /:id/sources - Every source listing of a contest, most trusted first
+  app.get(
+    '/:id/sources',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const db = getDb();
+
+      const [contest] = await db
+        .select({ id: schema.contests.id })
+        .from(schema.contests)
+        .where(eq(schema.contests.id, id))
+        .limit(1);
+
+      if (!contest) {
+        throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+      }
+
+      return reply.send({ data: new ContestMerger(db).listSources(id) });
+    },
+  );
+
+  // POST /:id/merge - Fold other contests (and their listings) into this one
+  app.post(
+    '/:id/merge',
+    { preHandler: [validateParams(idParamSchema), validateBody(mergeContestsSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { contestIds } = request.body as MergeContestsInput;
+
+      const result = await new ContestMerger(getDb()).merge(id, contestIds);
+
+      return reply.send({ data: result });
+    },
+  );
+
+  // POST /:id/split - Move some listings of a contest to a new contest
+  app.post(
+    '/:id/split',
+    { preHandler: [validateParams(idParamSchema), validateBody(splitContestSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { sourceIds } = request.body as SplitContestInput;
+
+      const result = await new ContestMerger(getDb()).split(id, sourceIds);
+
+      return reply.status(201).send({ data: result });
+    },
+  );
+
+  // GET /:id/snapshots - Archived page snapshots of a contest, newest first
+  app.get(
+    '/:id/snapshots',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const db = getDb();
+
+      const [contest] = await db
+        .select({ id: schema.contests.id })
+        .from(schema.contests)
+        .where(eq(schema.contests.id, id))
+        .limit(1);
+
+      if (!contest) {
+        throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+      }
+
+      return reply.send({ data: new ContestSnapshotArchive(db).list(id) });
+    },
+  );
+
+  // GET /:id/snapshots/diff - Text diff between two snapshots of a contest
+  app.get(
+    '/:id/snapshots/diff',
+    { preHandler: [validateParams(idParamSchema), validateQuery(snapshotDiffQuerySchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { from, to } = request.query as SnapshotDiffQueryInput;
+
+      const diff = new ContestSnapshotArchive(getDb()).diff(from, to);
+      if (diff.from.contestId !== id) {
+        throw new AppError('Snapshot not found', 'SNAPSHOT_NOT_FOUND', 404);
+      }
+
+      return reply.send({ data: diff });
+    },
+  );
+
+  // GET /:id/snapshots/:snapshotId/:kind - Archived HTML, text or screenshot
+  app.get(
+    '/:id/snapshots/:snapshotId/:kind',
+    { preHandler: [validateParams(snapshotFileParamsSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id, snapshotId, kind } = request.params as SnapshotFileParamsInput;
+      const archive = new ContestSnapshotArchive(getDb());
+
+      const snapshot = archive.get(snapshotId);
+      const file = snapshot?.contestId === id ? archive.getFile(snapshotId, kind) : null;
+      if (!file) {
+        throw new AppError('Snapshot file not found', 'SNAPSHOT_NOT_FOUND', 404);
+      }
+
+      // Archived pages are third-party HTML; keep their scripts from running on our origin
+      if (kind === 'html') {
+        reply.header('Content-Security-Policy', 'sandbox');
+      }
+
+      return reply
+        .header('Content-Type', file.mimeType)
+        .header('Cache-Control', 'private, max-age=86400, immutable')
+        .send(readFileSync(file.filePath));
+    },
+  );
+
   // POST /bulk-enter - Queue multiple contests for entry
   app.post(
     '/bulk-enter',
@@ -595,3 +974,36 @@ export async function contestRoutes(app: FastifyInstance): Promise<void> {
     },
   );
 }
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type ContestRow = typeof schema.contests.$inferSelect;
+
+/**
+ * Adds the odds / expected-value estimate to each contest. Domain
+ * history is fetched once per domain; when it cannot be loaded the
+ * estimate is made from the contest fields alone.
+ */
+async function attachOdds(rows: ContestRow[]): Promise<Array<ContestRow & { odds: OddsEstimate }>> {
+  const scorer = new ContestScorer();
+  const historyByDomain = new Map<string, HistoricalData | null>();
+
+  const result: Array<ContestRow & { odds: OddsEstimate }> = [];
+  for (const row of rows) {
+    const domain = extractDomain(row.url);
+    if (!historyByDomain.has(domain)) {
+      try {
+        historyByDomain.set(domain, await scorer.fetchHistoricalData(row));
+      } catch (err) {
+        logger.warn({ err, domain }, 'Failed to fetch historical data for odds');
+        historyByDomain.set(domain, null);
+      }
+    }
+
+    const history = historyByDomain.get(domain) ?? null;
+    result.push({ ...row, odds: estimateOdds(row, history ? toOddsHistory(history) : null) });
+  }
+  return result;
+}
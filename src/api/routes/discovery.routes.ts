@@ -1,6 +1,5 @@
 import type { FastifyInstance, FastifyReply } from 'fastify';
 import { eq, desc, count as countFn } from 'drizzle-orm';
-import { Queue } from 'bullmq';
 import { z } from 'zod';
 import { getDb } from '../../db/index.js';
 import { schema } from '../../db/index.js';
@@ -8,8 +7,11 @@ import { generateId } from '../../shared/crypto.js';
 import { AppError } from '../../shared/errors.js';
 import { getLogger } from '../../shared/logger.js';
 import { QUEUE_NAMES } from '../../shared/constants.js';
-import { getRedis } from '../../queue/redis.js';
-import { validateBody, validateParams } from '../middleware/validator.js';
+import { getQueueManager } from '../../queue/queue-manager.js';
+import { SourceHealthMonitor, parseSourceHealthReport } from '../../discovery/source-health.js';
+import { getCrawlBudgetUsage } from '../../discovery/crawl-session.js';
+import type { CrawlBudget } from '../../discovery/types.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validator.js';
 import { idParamSchema } from '../schemas/common.schema.js';
 
 const logger = getLogger('server', { component: 'discovery' });
@@ -20,7 +22,7 @@ const runDiscoverySchema = z.object({
 
 const createSourceSchema = z.object({
   name: z.string().min(1).max(200),
-  type: z.enum(['crawler', 'rss', 'api', 'social']),
+  type: z.enum(['crawler', 'rss', 'api', 'social', 'sitemap', 'structured-data', 'newsletter']),
   url: z.string().url().optional(),
   config: z.record(z.string(), z.unknown()).optional(),
   schedule: z.string().max(100).optional(),
@@ -29,6 +31,10 @@ const createSourceSchema = z.object({
 
 const updateSourceSchema = createSourceSchema.partial();
 
+const sourceHealthQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).optional().default(14),
+});
+
 /**
  * Discovery management routes.
  */
@@ -41,93 +47,85 @@ export async function discoveryRoutes(app: FastifyInstance): Promise<void> {
       const parsed = runDiscoverySchema.safeParse(request.body ?? {});
       const { sourceId } = parsed.success ? parsed.data : {} as { sourceId?: string };
       const db = getDb();
-      const redis = getRedis();
+      const queueManager = getQueueManager();
 
-      if (!redis) {
-        throw new AppError('Redis not available — cannot queue discovery jobs', 'REDIS_UNAVAILABLE', 503);
+      if (!queueManager) {
+        throw new AppError('Job queue not available — cannot queue discovery jobs', 'QUEUE_UNAVAILABLE', 503);
       }
 
-      const discoveryQueue = new Queue(QUEUE_NAMES.DISCOVERY, {
-        connection: redis,
-      });
-
-      try {
-        if (sourceId) {
-          // Validate the source exists and queue a single job
-          const sources = await db
-            .select()
-            .from(schema.discoverySources)
-            .where(eq(schema.discoverySources.id, sourceId))
-            .limit(1);
-
-          if (sources.length === 0) {
-            throw new AppError('Discovery source not found', 'SOURCE_NOT_FOUND', 404);
-          }
-
-          const source = sources[0]!;
-          let sourceConfig: Record<string, unknown> = {};
-          try {
-            sourceConfig = source.config ? (JSON.parse(source.config) as Record<string, unknown>) : {};
-          } catch { /* use empty config */ }
-
-          const job = await discoveryQueue.add('discovery-job', {
-            sourceId: source.id,
-            sourceName: source.name,
-            sourceUrl: source.url ?? '',
-            sourceType: source.type,
-            sourceConfig,
-          });
-
-          logger.info({ sourceId, jobId: job.id }, 'Manual discovery job queued for specific source');
-
-          return reply.status(202).send({
-            data: {
-              status: 'queued',
-              jobId: job.id,
-              sourceId,
-              sourceName: source.name,
-              message: `Discovery job queued for source "${source.name}"`,
-            },
-          });
-        }
-
-        // Trigger discovery for all active sources
-        const activeSources = await db
+      if (sourceId) {
+        // Validate the source exists and queue a single job
+        const sources = await db
           .select()
           .from(schema.discoverySources)
-          .where(eq(schema.discoverySources.isActive, 1));
+          .where(eq(schema.discoverySources.id, sourceId))
+          .limit(1);
 
-        const jobIds: string[] = [];
-        for (const source of activeSources) {
-          let sourceConfig: Record<string, unknown> = {};
-          try {
-            sourceConfig = source.config ? (JSON.parse(source.config) as Record<string, unknown>) : {};
-          } catch { /* use empty config */ }
-
-          const job = await discoveryQueue.add('discovery-job', {
-            sourceId: source.id,
-            sourceName: source.name,
-            sourceUrl: source.url ?? '',
-            sourceType: source.type,
-            sourceConfig,
-          });
-          if (job.id) jobIds.push(job.id);
+        if (sources.length === 0) {
+          throw new AppError('Discovery source not found', 'SOURCE_NOT_FOUND', 404);
         }
 
-        logger.info({ sourceCount: activeSources.length, jobIds }, 'Manual discovery jobs queued for all active sources');
+        const source = sources[0]!;
+        let sourceConfig: Record<string, unknown> = {};
+        try {
+          sourceConfig = source.config ? (JSON.parse(source.config) as Record<string, unknown>) : {};
+        } catch { /* use empty config */ }
+
+        const job = await queueManager.addJob(QUEUE_NAMES.DISCOVERY, {
+          sourceId: source.id,
+          sourceName: source.name,
+          sourceUrl: source.url ?? '',
+          sourceType: source.type,
+          sourceConfig,
+        });
+
+        logger.info({ sourceId, jobId: job.id }, 'Manual discovery job queued for specific source');
 
         return reply.status(202).send({
           data: {
             status: 'queued',
-            jobsQueued: jobIds.length,
-            jobIds,
-            sources: activeSources.map((s) => ({ id: s.id, name: s.name })),
-            message: `${jobIds.length} discovery job(s) queued for active sources`,
+            jobId: job.id,
+            sourceId,
+            sourceName: source.name,
+            message: `Discovery job queued for source "${source.name}"`,
           },
         });
-      } finally {
-        await discoveryQueue.close();
       }
+
+      // Trigger discovery for all active sources
+      const activeSources = await db
+        .select()
+        .from(schema.discoverySources)
+        .where(eq(schema.discoverySources.isActive, 1));
+
+      const jobIds: string[] = [];
+      for (const source of activeSources) {
+        let sourceConfig: Record<string, unknown> = {};
+        try {
+          sourceConfig = source.config ? (JSON.parse(source.config) as Record<string, unknown>) : {};
+        } catch { /* use empty config */ }
+
+        const job = await queueManager.addJob(QUEUE_NAMES.DISCOVERY, {
+          sourceId: source.id,
+          sourceName: source.name,
+          sourceUrl: source.url ?? '',
+          sourceType: source.type,
+          sourceConfig,
+        });
+        if (job.id) jobIds.push(job.id);
+      }
+
+      logger.info({ sourceCount: activeSources.length, jobIds }, 'Manual discovery jobs queued for all active sources');
+
+      return reply.status(202).send({
+        data: {
+          status: 'queued',
+          jobsQueued: jobIds.length,
+          jobIds,
+          sources: activeSources.map((s) => ({ id: s.id, name: s.name })),
+          message: `${jobIds.length} discovery job(s) queued for active sources`,
+        },
+      });
     },
   );
 
@@ -140,9 +138,71 @@ export async function discoveryRoutes(app: FastifyInstance): Promise<void> {
       .from(schema.discoverySources)
       .orderBy(desc(schema.discoverySources.createdAt));
 
-    return reply.send({ data: sources });
+    return reply.send({
+      data: sources.map((source) => ({
+        ...source,
+        healthReport: parseSourceHealthReport(source.healthReport),
+      })),
+    });
   });
 
+  // GET /sources/:id/health - Latest health report and metric trends of a source
+  app.get(
+    '/sources/:id/health',
+    { preHandler: [validateParams(idParamSchema), validateQuery(sourceHealthQuerySchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { days } = request.query as z.infer<typeof sourceHealthQuerySchema>;
+      const db = getDb();
+
+      const [source] = await db
+        .select()
+        .from(schema.discoverySources)
+        .where(eq(schema.discoverySources.id, id))
+        .limit(1);
+
+      if (!source) {
+        throw new AppError('Discovery source not found', 'SOURCE_NOT_FOUND', 404);
+      }
+
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 86_400_000);
+      const trends = await new SourceHealthMonitor(db).trends(
+        id,
+        { from: from.toISOString(), to: to.toISOString() },
+        days <= 2 ? 'hour' : 'day',
+      );
+
+      return reply.send({
+        data: {
+          sourceId: id,
+          healthStatus: source.healthStatus,
+          healthScore: source.healthScore,
+          degradedRuns: source.degradedRuns,
+          quarantinedAt: source.quarantinedAt,
+          quarantineReason: source.quarantineReason,
+          report: parseSourceHealthReport(source.healthReport),
+          trends,
+        },
+      });
+    },
+  );
+
+  // POST /sources/:id/release - Lift a quarantine and reactivate the source
+  app.post(
+    '/sources/:id/release',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      await new SourceHealthMonitor(getDb()).release(id);
+
+      logger.info({ sourceId: id }, 'Discovery source released');
+
+      return reply.send({ data: { id, healthStatus: 'healthy', isActive: true } });
+    },
+  );
+
   // POST /sources - Add a new discovery source
   app.post(
     '/sources',
@@ -264,6 +324,9 @@ export async function discoveryRoutes(app: FastifyInstance): Promise<void> {
           lastRunAt: schema.discoverySources.lastRunAt,
           contestsFound: schema.discoverySources.contestsFound,
           errorCount: schema.discoverySources.errorCount,
+          healthStatus: schema.discoverySources.healthStatus,
+          healthScore: schema.discoverySources.healthScore,
+          config: schema.discoverySources.config,
         })
         .from(schema.discoverySources)
         .orderBy(desc(schema.discoverySources.lastRunAt)),
@@ -287,8 +350,21 @@ export async function discoveryRoutes(app: FastifyInstance): Promise<void> {
           lastRunAt: s.lastRunAt,
           contestsFound: s.contestsFound,
           errorCount: s.errorCount,
+          healthStatus: s.healthStatus,
+          healthScore: s.healthScore,
+          budget: getCrawlBudgetUsage(db, s.id, parseBudget(s.config)),
         })),
       },
     });
   });
 }
+
+/** The crawl budget from a source's stored config, if it has one. */
+function parseBudget(config: string | null): CrawlBudget | undefined {
+  if (!config) return undefined;
+  try {
+    return (JSON.parse(config) as { budget?: CrawlBudget }).budget;
+  } catch {
+    return undefined;
+  }
+}
@@ -5,15 +5,22 @@ import { schema } from '../../db/index.js';
 import { generateId } from '../../shared/crypto.js';
 import { AppError } from '../../shared/errors.js';
 import { getLogger } from '../../shared/logger.js';
+import { QUEUE_NAMES } from '../../shared/constants.js';
+import { env } from '../../env.js';
+import { EntryCalendar } from '../../queue/entry-calendar.js';
+import { getQueueManager } from '../../queue/queue-manager.js';
+import { JobFlowStore } from '../../queue/job-flow.js';
 import { validateQuery, validateParams, validateBody } from '../middleware/validator.js';
 import { idParamSchema, paginatedResponse } from '../schemas/common.schema.js';
 import {
   entryFilterSchema,
   retryEntrySchema,
   exportFormatSchema,
+  entryCalendarQuerySchema,
   type EntryFilterInput,
   type RetryEntryInput,
   type ExportFormatInput,
+  type EntryCalendarQueryInput,
 } from '../schemas/entry.schema.js';
 
 const logger = getLogger('server', { component: 'entries' });
@@ -176,6 +183,48 @@ export async function entryRoutes(app: FastifyInstance): Promise<void> {
     },
   );
 
+  // GET /calendar - Planned recurring entries in a time range (default: the next 7 days)
+  app.get(
+    '/calendar',
+    { preHandler: [validateQuery(entryCalendarQuerySchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const query = request.query as EntryCalendarQueryInput;
+      const from = query.from ? new Date(query.from) : new Date();
+      const to = query.to ? new Date(query.to) : new Date(from.getTime() + 7 * 86_400_000);
+
+      const plan = new EntryCalendar(getDb(), { maxEntriesPerHour: env.MAX_ENTRIES_PER_HOUR })
+        .plan({ from, to, profileId: query.profileId });
+
+      // Entries the scheduler already queued show as queued.
+      const queuedIds = new Set<string>();
+      const qm = getQueueManager();
+      if (qm) {
+        try {
+          for (const status of ['delayed', 'waiting', 'active'] as const) {
+            for (const job of await qm.listJobs(QUEUE_NAMES.ENTRY, status, 1000)) {
+              if (job.id) queuedIds.add(job.id);
+            }
+          }
+        } catch (error) {
+          logger.warn({ err: error }, 'Failed to read queued entry jobs for calendar');
+        }
+      }
+
+      const data = plan
+        .filter((entry) => Date.parse(entry.runAt) < to.getTime())
+        .map((entry) => ({
+          ...entry,
+          status: queuedIds.has(entry.jobId) ? 'queued' : entry.status,
+        }));
+
+      return reply.send({
+        data,
+        range: { from: from.toISOString(), to: to.toISOString() },
+        maxEntriesPerHour: env.MAX_ENTRIES_PER_HOUR,
+      });
+    },
+  );
+
   // GET /:id - Entry detail with contest info and screenshots
   app.get(
     '/:id',
@@ -219,6 +268,29 @@ export async function entryRoutes(app: FastifyInstance): Promise<void> {
     },
   );
 
+  // GET /:id/timeline - Stages of the job flow that made the entry
+  app.get(
+    '/:id/timeline',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const db = getDb();
+
+      const existing = await db
+        .select({ id: schema.entries.id })
+        .from(schema.entries)
+        .where(eq(schema.entries.id, id))
+        .limit(1);
+
+      if (existing.length === 0) {
+        throw new AppError('Entry not found', 'ENTRY_NOT_FOUND', 404);
+      }
+
+      // Entries created outside a flow (manual entries, older rows) have no timeline
+      return reply.send({ data: new JobFlowStore(db).getByEntry(id) });
+    },
+  );
+
   // POST /:id/retry - Retry a failed entry
   app.post(
     '/:id/retry',
@@ -248,6 +320,30 @@ export async function entryRoutes(app: FastifyInstance): Promise<void> {
       }
 
       const retryBody = request.body as RetryEntryInput;
+
+      // A flow that failed after the entry was submitted resumes from the
+      // failed verification stage instead of entering the contest again
+      const queueManager = getQueueManager();
+      const flows = new JobFlowStore(db);
+      const flow = flows.getByEntry(id);
+      if (flow && queueManager && (!retryBody.profileId || retryBody.profileId === entry.profileId)) {
+        const stages = await flows.retry(queueManager, flow.id);
+        if (stages) {
+          return reply.status(202).send({
+            data: {
+              entryId: id,
+              contestId: entry.contestId,
+              profileId: entry.profileId,
+              attemptNumber: entry.attemptNumber,
+              status: 'submitted',
+              correlationId: flow.id,
+              stages,
+              message: 'Failed verification stages have been re-queued',
+            },
+          });
+        }
+      }
+
       const profileId = retryBody.profileId ?? entry.profileId;
       const entryId = generateId();
       const now = new Date().toISOString();
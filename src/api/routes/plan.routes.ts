@@ -0,0 +1,95 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { getDb } from '../../db/index.js';
+import { env } from '../../env.js';
+import { getQueueManager } from '../../queue/queue-manager.js';
+import {
+  EntryPlanOptimizer,
+  optimizeEntryPlan,
+  type DailyEntryPlan,
+  type PlanConstraints,
+} from '../../intelligence/entry-plan-optimizer.js';
+import { validateQuery, validateBody } from '../middleware/validator.js';
+import {
+  planQuerySchema,
+  simulatePlanSchema,
+  type PlanQueryInput,
+  type SimulatePlanInput,
+} from '../schemas/plan.schema.js';
+
+/** The limits the recurring entry scheduler plans with. */
+function configuredConstraints(): PlanConstraints {
+  return {
+    maxEntriesPerDay: env.MAX_ENTRIES_PER_DAY,
+    maxEntriesPerHour: env.MAX_ENTRIES_PER_HOUR,
+    dailyBudget: env.DAILY_BUDGET,
+    browserInstances: env.MAX_BROWSER_INSTANCES,
+  };
+}
+
+/**
+ * Daily entry plan routes. The plan is what the recurring entry scheduler
+ * will queue today; simulations re-run it under other limits without
+ * queueing anything.
+ */
+export async function planRoutes(app: FastifyInstance): Promise<void> {
+  // GET / - The day's entry plan under the configured limits
+  app.get(
+    '/',
+    { preHandler: [validateQuery(planQuerySchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const { date, profileId } = request.query as PlanQueryInput;
+
+      const plan = await new EntryPlanOptimizer(getDb()).plan(configuredConstraints(), {
+        date,
+        profileId,
+        queueManager: getQueueManager(),
+      });
+
+      return reply.send({ data: plan });
+    },
+  );
+
+  // POST /simulate - What-if plan with changed limits, compared to the configured plan
+  app.post(
+    '/simulate',
+    { preHandler: [validateBody(simulatePlanSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { date, profileId, ...overrides } = request.body as SimulatePlanInput;
+
+      const inputs = await new EntryPlanOptimizer(getDb()).loadInputs({
+        date,
+        profileId,
+        queueManager: getQueueManager(),
+      });
+      const baselineConstraints = configuredConstraints();
+      const baseline = optimizeEntryPlan(inputs, baselineConstraints);
+      const simulated = optimizeEntryPlan(inputs, {
+        maxEntriesPerDay: overrides.maxEntriesPerDay ?? baselineConstraints.maxEntriesPerDay,
+        maxEntriesPerHour: overrides.maxEntriesPerHour ?? baselineConstraints.maxEntriesPerHour,
+        dailyBudget: overrides.dailyBudget ?? baselineConstraints.dailyBudget,
+        browserInstances: overrides.browserInstances ?? baselineConstraints.browserInstances,
+      });
+
+      return reply.send({
+        data: simulated,
+        baseline: baseline.totals,
+        delta: compareTotals(baseline, simulated),
+      });
+    },
+  );
+}
+
+/** Change in totals and selected entries from one plan to another. */
+function compareTotals(baseline: DailyEntryPlan, simulated: DailyEntryPlan) {
+  const before = new Set(baseline.selected.map((s) => s.jobId));
+  const after = new Set(simulated.selected.map((s) => s.jobId));
+
+  return {
+    entries: simulated.totals.entries - baseline.totals.entries,
+    expectedValue: simulated.totals.expectedValue - baseline.totals.expectedValue,
+    cost: simulated.totals.cost - baseline.totals.cost,
+    netValue: simulated.totals.netValue - baseline.totals.netValue,
+    added: [...after].filter((jobId) => !before.has(jobId)),
+    removed: [...before].filter((jobId) => !after.has(jobId)),
+  };
+}
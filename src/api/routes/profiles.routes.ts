@@ -3,6 +3,7 @@ import { eq, desc, sql, count as countFn } from 'drizzle-orm';
 import { getDb } from '../../db/index.js';
 import { schema } from '../../db/index.js';
 import { encrypt, generateId } from '../../shared/crypto.js';
+import { ADDRESS_FIELDS, refreshHouseholdKey } from '../../compliance/household.js';
 import { AppError } from '../../shared/errors.js';
 import { getLogger } from '../../shared/logger.js';
 import { validateBody, validateParams } from '../middleware/validator.js';
@@ -93,11 +94,15 @@ export async function profileRoutes(app: FastifyInstance): Promise<void> {
         dateOfBirth: body.dateOfBirth ?? null,
         gender: body.gender ?? null,
         socialAccounts: JSON.stringify(body.socialAccounts ?? {}),
+        employer: body.employer ?? null,
+        affiliations: JSON.stringify(body.affiliations ?? []),
         isActive: 1,
         createdAt: now,
         updatedAt: now,
       });
 
+      refreshHouseholdKey(db, id);
+
       const created = await db
         .select()
         .from(schema.profiles)
@@ -149,12 +154,17 @@ export async function profileRoutes(app: FastifyInstance): Promise<void> {
       if (body.dateOfBirth !== undefined) updateValues['dateOfBirth'] = body.dateOfBirth;
       if (body.gender !== undefined) updateValues['gender'] = body.gender;
       if (body.socialAccounts !== undefined) updateValues['socialAccounts'] = JSON.stringify(body.socialAccounts);
+      if (body.employer !== undefined) updateValues['employer'] = body.employer || null;
+      if (body.affiliations !== undefined) updateValues['affiliations'] = JSON.stringify(body.affiliations);
       if (body.isActive !== undefined) updateValues['isActive'] = body.isActive ? 1 : 0;
 
       await db
         .update(schema.profiles)
         .set(updateValues)
         .where(eq(schema.profiles.id, id));
+      if (ADDRESS_FIELDS.some((field) => body[field] !== undefined)) {
+        refreshHouseholdKey(db, id);
+      }
 
       const updated = await db
         .select()
@@ -207,12 +217,17 @@ export async function profileRoutes(app: FastifyInstance): Promise<void> {
       if (body.dateOfBirth !== undefined) updateValues['dateOfBirth'] = body.dateOfBirth;
       if (body.gender !== undefined) updateValues['gender'] = body.gender;
       if (body.socialAccounts !== undefined) updateValues['socialAccounts'] = JSON.stringify(body.socialAccounts);
+      if (body.employer !== undefined) updateValues['employer'] = body.employer || null;
+      if (body.affiliations !== undefined) updateValues['affiliations'] = JSON.stringify(body.affiliations);
       if (body.isActive !== undefined) updateValues['isActive'] = body.isActive ? 1 : 0;
 
       await db
         .update(schema.profiles)
         .set(updateValues)
         .where(eq(schema.profiles.id, id));
+      if (ADDRESS_FIELDS.some((field) => body[field] !== undefined)) {
+        refreshHouseholdKey(db, id);
+      }
 
       const updated = await db
         .select()
@@ -0,0 +1,70 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { getDb } from '../../db/index.js';
+import { AppError } from '../../shared/errors.js';
+import { ReputationStore } from '../../discovery/reputation-store.js';
+import { validateQuery, validateParams, validateBody } from '../middleware/validator.js';
+import { idParamSchema } from '../schemas/common.schema.js';
+import {
+  reputationFilterSchema,
+  addReputationSchema,
+  scamReportFilterSchema,
+  type ReputationFilterInput,
+  type AddReputationInput,
+  type ScamReportFilterInput,
+} from '../schemas/reputation.schema.js';
+
+/**
+ * Sponsor and domain reputation routes. Allow / deny list entries layer
+ * over the legitimacy scorer's built-in lists; scam reports are created
+ * from POST /contests/:id/flag-scam and listed here.
+ */
+export async function reputationRoutes(app: FastifyInstance): Promise<void> {
+  // GET / - List allow / deny entries, built-in ones included
+  app.get(
+    '/',
+    { preHandler: [validateQuery(reputationFilterSchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const filter = request.query as ReputationFilterInput;
+      return reply.send({ data: new ReputationStore(getDb()).list(filter) });
+    },
+  );
+
+  // POST / - Add a domain or sponsor to a list (or move it to the other list)
+  app.post(
+    '/',
+    { preHandler: [validateBody(addReputationSchema)] },
+    async (request, reply: FastifyReply) => {
+      const body = request.body as AddReputationInput;
+
+      const { entry, created } = await new ReputationStore(getDb()).add(body);
+
+      return reply.status(created ? 201 : 200).send({ data: entry });
+    },
+  );
+
+  // DELETE /:id - Remove a user entry
+  app.delete(
+    '/:id',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+
+      const removed = await new ReputationStore(getDb()).remove(id);
+      if (!removed) {
+        throw new AppError('Reputation entry not found', 'REPUTATION_ENTRY_NOT_FOUND', 404);
+      }
+
+      return reply.status(204).send();
+    },
+  );
+
+  // GET /scam-reports - Contests flagged as scams, newest first
+  app.get(
+    '/scam-reports',
+    { preHandler: [validateQuery(scamReportFilterSchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const filter = request.query as ScamReportFilterInput;
+      return reply.send({ data: new ReputationStore(getDb()).listScamReports(filter) });
+    },
+  );
+}
@@ -0,0 +1,71 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { getDb } from '../../db/index.js';
+import { AppError } from '../../shared/errors.js';
+import { getLogger } from '../../shared/logger.js';
+import { ReviewQueue } from '../../compliance/review-queue.js';
+import { validateQuery, validateParams, validateBody } from '../middleware/validator.js';
+import { idParamSchema, paginatedResponse } from '../schemas/common.schema.js';
+import {
+  reviewFilterSchema,
+  reviewDecisionSchema,
+  type ReviewFilterInput,
+  type ReviewDecisionInput,
+} from '../schemas/review.schema.js';
+
+const logger = getLogger('server', { component: 'reviews' });
+
+/**
+ * Compliance review queue routes. Contest/profile pairs whose compliance
+ * check needs a human decision are listed here and approved or rejected.
+ */
+export async function reviewRoutes(app: FastifyInstance): Promise<void> {
+  // GET / - List reviews with pagination and filtering
+  app.get(
+    '/',
+    { preHandler: [validateQuery(reviewFilterSchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const { page, limit, status, contestId, profileId } = request.query as ReviewFilterInput;
+      const queue = new ReviewQueue(getDb());
+
+      const { items, total } = queue.list({ page, limit, status, contestId, profileId });
+
+      return reply.send(paginatedResponse(items, total, page, limit));
+    },
+  );
+
+  // GET /:id - Review detail
+  app.get(
+    '/:id',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const review = new ReviewQueue(getDb()).get(id);
+
+      if (!review) {
+        throw new AppError('Review not found', 'REVIEW_NOT_FOUND', 404);
+      }
+
+      return reply.send({ data: review });
+    },
+  );
+
+  // POST /:id/decision - Approve or reject a contest/profile pair
+  app.post(
+    '/:id/decision',
+    { preHandler: [validateParams(idParamSchema), validateBody(reviewDecisionSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { decision, reason } = request.body as ReviewDecisionInput;
+
+      const review = await new ReviewQueue(getDb()).decide(id, decision, reason);
+
+      if (!review) {
+        throw new AppError('Review not found', 'REVIEW_NOT_FOUND', 404);
+      }
+
+      logger.info({ reviewId: id, decision }, 'Compliance review decision recorded');
+
+      return reply.send({ data: review });
+    },
+  );
+}
@@ -0,0 +1,128 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { getDb } from '../../db/index.js';
+import { AppError } from '../../shared/errors.js';
+import { getLogger } from '../../shared/logger.js';
+import { TaxTracker } from '../../compliance/tax-tracker.js';
+import { ExportService } from '../../analytics/export-service.js';
+import { getAuditService } from '../../analytics/audit-service.js';
+import { validateQuery, validateParams, validateBody } from '../middleware/validator.js';
+import { idParamSchema } from '../schemas/common.schema.js';
+import {
+  taxSummaryQuerySchema,
+  taxExportQuerySchema,
+  updateTaxRatesSchema,
+  updateWinTaxSchema,
+  type TaxSummaryQueryInput,
+  type TaxExportQueryInput,
+  type UpdateTaxRatesInput,
+  type UpdateWinTaxInput,
+} from '../schemas/tax.schema.js';
+
+const logger = getLogger('server', { component: 'tax' });
+
+const EXPORT_CONTENT_TYPES: Record<TaxExportQueryInput['format'], string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+/**
+ * Tax reporting routes. Summarizes winnings per profile and tax year,
+ * records fair-market-value adjustments, and exports accountant-ready
+ * summaries.
+ */
+export async function taxRoutes(app: FastifyInstance): Promise<void> {
+  // GET /years - Tax years that have wins
+  app.get('/years', async (_request, reply: FastifyReply) => {
+    const years = new TaxTracker(getDb()).listYears();
+    return reply.send({ data: years });
+  });
+
+  // GET /summary - Per-profile and per-state summary for a tax year
+  app.get(
+    '/summary',
+    { preHandler: [validateQuery(taxSummaryQuerySchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const { year, profileId } = request.query as TaxSummaryQueryInput;
+      const summary = new TaxTracker(getDb()).getYearSummary(year, profileId);
+      return reply.send({ data: summary });
+    },
+  );
+
+  // GET /rates - Rates used for liability estimates
+  app.get('/rates', async (_request, reply: FastifyReply) => {
+    return reply.send({ data: new TaxTracker(getDb()).getRates() });
+  });
+
+  // PUT /rates - Update estimation rates
+  app.put(
+    '/rates',
+    { preHandler: [validateBody(updateTaxRatesSchema)] },
+    async (request, reply: FastifyReply) => {
+      const body = request.body as UpdateTaxRatesInput;
+      const rates = new TaxTracker(getDb()).setRates(body);
+
+      await getAuditService().record({
+        action: 'settings.updated',
+        entityType: 'settings',
+        entityId: 'tax_rates',
+        details: { ...rates },
+      });
+
+      return reply.send({ data: rates });
+    },
+  );
+
+  // PATCH /wins/:id - Record FMV adjustment or reported state for a win
+  app.patch(
+    '/wins/:id',
+    { preHandler: [validateParams(idParamSchema), validateBody(updateWinTaxSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const body = request.body as UpdateWinTaxInput;
+
+      const updated = new TaxTracker(getDb()).updateWin(id, body);
+      if (!updated) {
+        throw new AppError('Win not found', 'WIN_NOT_FOUND', 404);
+      }
+
+      await getAuditService().record({
+        action: 'win.tax_updated',
+        entityType: 'win',
+        entityId: id,
+        details: { ...body },
+      });
+
+      return reply.send({ data: { id, ...body } });
+    },
+  );
+
+  // GET /export - Download the tax-year summary as CSV, JSON, or printable HTML
+  app.get(
+    '/export',
+    { preHandler: [validateQuery(taxExportQuerySchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const { year, profileId, format } = request.query as TaxExportQueryInput;
+
+      const filePath = await new ExportService().exportTaxSummary(year, format, profileId);
+
+      await getAuditService().record({
+        action: 'export.generated',
+        entityType: 'tax_summary',
+        entityId: String(year),
+        profileId,
+        details: { format, filePath },
+      });
+
+      logger.info({ year, profileId, format }, 'Tax summary exported');
+
+      const disposition = format === 'html' ? 'inline' : 'attachment';
+      return reply
+        .header('Content-Type', EXPORT_CONTENT_TYPES[format])
+        .header('Content-Disposition', `${disposition}; filename="${basename(filePath)}"`)
+        .send(readFileSync(filePath, 'utf-8'));
+    },
+  );
+}
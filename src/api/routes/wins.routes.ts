@@ -0,0 +1,198 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { readFileSync } from 'node:fs';
+import { getDb } from '../../db/index.js';
+import { AppError } from '../../shared/errors.js';
+import { getLogger } from '../../shared/logger.js';
+import { ClaimWorkflow, MAX_DOCUMENT_BYTES } from '../../notification/claim-workflow.js';
+import { WinTriage } from '../../email/win-triage.js';
+import { validateQuery, validateParams, validateBody } from '../middleware/validator.js';
+import { idParamSchema, paginatedResponse } from '../schemas/common.schema.js';
+import {
+  winFilterSchema,
+  winTransitionSchema,
+  winDeadlineSchema,
+  winDocumentParamsSchema,
+  uploadWinDocumentSchema,
+  updateWinDocumentSchema,
+  possibleWinFilterSchema,
+  confirmPossibleWinSchema,
+  dismissPossibleWinSchema,
+  type WinFilterInput,
+  type WinTransitionInput,
+  type WinDeadlineInput,
+  type WinDocumentParamsInput,
+  type UploadWinDocumentInput,
+  type UpdateWinDocumentInput,
+  type PossibleWinFilterInput,
+  type ConfirmPossibleWinInput,
+  type DismissPossibleWinInput,
+} from '../schemas/win.schema.js';
+
+const logger = getLogger('server', { component: 'wins' });
+
+/** Base64 inflates content by 4/3; leave room for the JSON envelope. */
+const UPLOAD_BODY_LIMIT = Math.ceil((MAX_DOCUMENT_BYTES * 4) / 3) + 64 * 1024;
+
+/**
+ * Win claim workflow routes: listing wins, moving them through claim
+ * statuses, managing the claim document checklist, and triaging
+ * low-confidence win emails.
+ */
+export async function winRoutes(app: FastifyInstance): Promise<void> {
+  // GET / - List wins with pagination and filtering
+  app.get(
+    '/',
+    { preHandler: [validateQuery(winFilterSchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const { page, limit, status, profileId } = request.query as WinFilterInput;
+
+      const { items, total } = new ClaimWorkflow(getDb()).list({ page, limit, status, profileId });
+
+      return reply.send(paginatedResponse(items, total, page, limit));
+    },
+  );
+
+  // GET /possible - Possible-win inbox
+  app.get(
+    '/possible',
+    { preHandler: [validateQuery(possibleWinFilterSchema as any)] },
+    async (request, reply: FastifyReply) => {
+      const { page, limit, status } = request.query as PossibleWinFilterInput;
+
+      const { items, total } = new WinTriage(getDb()).list({ page, limit, status });
+
+      return reply.send(paginatedResponse(items, total, page, limit));
+    },
+  );
+
+  // POST /possible/:id/confirm - Confirm a possible win against an entry
+  app.post(
+    '/possible/:id/confirm',
+    { preHandler: [validateParams(idParamSchema), validateBody(confirmPossibleWinSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { entryId } = request.body as ConfirmPossibleWinInput;
+
+      const possibleWin = await new WinTriage(getDb()).confirm(id, entryId);
+
+      logger.info({ possibleWinId: id, winId: possibleWin.winId }, 'Possible win confirmed');
+
+      return reply.send({ data: possibleWin });
+    },
+  );
+
+  // POST /possible/:id/dismiss - Dismiss a possible win as a false positive
+  app.post(
+    '/possible/:id/dismiss',
+    { preHandler: [validateParams(idParamSchema), validateBody(dismissPossibleWinSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { reason } = request.body as DismissPossibleWinInput;
+
+      const possibleWin = await new WinTriage(getDb()).dismiss(id, reason);
+
+      return reply.send({ data: possibleWin });
+    },
+  );
+
+  // GET /:id - Win detail with document checklist
+  app.get(
+    '/:id',
+    { preHandler: [validateParams(idParamSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const win = new ClaimWorkflow(getDb()).get(id);
+
+      if (!win) {
+        throw new AppError('Win not found', 'WIN_NOT_FOUND', 404);
+      }
+
+      return reply.send({ data: win });
+    },
+  );
+
+  // POST /:id/transition - Move a win to a new claim status
+  app.post(
+    '/:id/transition',
+    { preHandler: [validateParams(idParamSchema), validateBody(winTransitionSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { status, notes } = request.body as WinTransitionInput;
+
+      const win = await new ClaimWorkflow(getDb()).transition(id, status, notes);
+
+      logger.info({ winId: id, status }, 'Win claim status updated');
+
+      return reply.send({ data: win });
+    },
+  );
+
+  // PUT /:id/deadline - Correct or clear a win's claim deadline
+  app.put(
+    '/:id/deadline',
+    { preHandler: [validateParams(idParamSchema), validateBody(winDeadlineSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id } = request.params as { id: string };
+      const { claimDeadline } = request.body as WinDeadlineInput;
+
+      const win = await new ClaimWorkflow(getDb()).setClaimDeadline(id, claimDeadline);
+
+      return reply.send({ data: win });
+    },
+  );
+
+  // PUT /:id/documents/:docType - Upload a claim document (base64 JSON body)
+  app.put(
+    '/:id/documents/:docType',
+    {
+      bodyLimit: UPLOAD_BODY_LIMIT,
+      preHandler: [validateParams(winDocumentParamsSchema), validateBody(uploadWinDocumentSchema)],
+    },
+    async (request, reply: FastifyReply) => {
+      const { id, docType } = request.params as WinDocumentParamsInput;
+      const { fileName, mimeType, content } = request.body as UploadWinDocumentInput;
+
+      const document = await new ClaimWorkflow(getDb()).uploadDocument(id, {
+        docType,
+        fileName,
+        mimeType,
+        content: Buffer.from(content, 'base64'),
+      });
+
+      return reply.status(201).send({ data: document });
+    },
+  );
+
+  // PATCH /:id/documents/:docType - Mark a document submitted, waived or required
+  app.patch(
+    '/:id/documents/:docType',
+    { preHandler: [validateParams(winDocumentParamsSchema), validateBody(updateWinDocumentSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id, docType } = request.params as WinDocumentParamsInput;
+      const body = request.body as UpdateWinDocumentInput;
+
+      const document = await new ClaimWorkflow(getDb()).updateDocument(id, docType, body);
+
+      return reply.send({ data: document });
+    },
+  );
+
+  // GET /:id/documents/:docType/file - Download an uploaded claim document
+  app.get(
+    '/:id/documents/:docType/file',
+    { preHandler: [validateParams(winDocumentParamsSchema)] },
+    async (request, reply: FastifyReply) => {
+      const { id, docType } = request.params as WinDocumentParamsInput;
+      const file = new ClaimWorkflow(getDb()).getDocumentFile(id, docType);
+
+      if (!file) {
+        throw new AppError('Document not uploaded', 'DOCUMENT_NOT_FOUND', 404);
+      }
+
+      return reply
+        .header('Content-Type', file.mimeType)
+        .header('Content-Disposition', `inline; filename="${file.originalName.replace(/"/g, '')}"`)
+        .send(readFileSync(file.filePath));
+    },
+  );
+}
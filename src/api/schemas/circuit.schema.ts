@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Circuit breaker Zod schemas for API boundary validation
+// ---------------------------------------------------------------------------
+
+export const domainParamSchema = z.object({
+  domain: z.string().min(1).max(253),
+});
+
+export type DomainParam = z.infer<typeof domainParamSchema>;
+
+export const openCircuitSchema = z.object({
+  /** Minutes until the recovery probe; the breaker's recovery timeout when omitted. */
+  durationMinutes: z.number().int().positive().max(7 * 24 * 60).optional(),
+});
+
+export type OpenCircuitInput = z.infer<typeof openCircuitSchema>;
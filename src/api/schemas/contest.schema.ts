@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { paginationSchema, sortSchema } from './common.schema.js';
+import { isValidTimeZone } from '../../shared/timezone.js';
 
 // ---------------------------------------------------------------------------
 // Contest Zod schemas for API boundary validation
@@ -9,6 +10,13 @@ const isoDateString = z.string()
   .regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d{3})?Z)?$/, 'Expected ISO-8601 date format')
   .refine((s) => !isNaN(new Date(s).getTime()), 'Invalid date value');
 
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM (24-hour)');
+
+const timeZoneName = z.string()
+  .min(1)
+  .max(64)
+  .refine(isValidTimeZone, 'Unknown IANA time zone');
+
 export const createContestSchema = z.object({
   url: z.string().url(),
   title: z.string().min(1).max(500).optional(),
@@ -60,6 +68,9 @@ export const updateContestSchema = z.object({
   endDate: isoDateString.optional(),
   entryFrequency: z.enum(['once', 'daily', 'weekly', 'unlimited']).optional(),
   maxEntries: z.number().int().positive().optional(),
+  /** Manual entry reset time; null hands it back to the official rules. */
+  resetTime: clockTime.nullable().optional(),
+  resetTimezone: timeZoneName.nullable().optional(),
   prizeDescription: z.string().max(2000).optional(),
   prizeValue: z.number().nonnegative().optional(),
   prizeCategory: z.string().max(100).optional(),
@@ -68,7 +79,11 @@ export const updateContestSchema = z.object({
   priorityScore: z.number().min(0).max(1).optional(),
   formMapping: z.record(z.string(), z.string()).optional(),
   metadata: z.record(z.string(), z.unknown()).optional(),
-});
+}).refine(
+  (data) => (data.resetTime === undefined) === (data.resetTimezone === undefined)
+    && (data.resetTime === null) === (data.resetTimezone === null),
+  'resetTime and resetTimezone must be set or cleared together',
+);
 
 export type UpdateContestInput = z.infer<typeof updateContestSchema>;
 
@@ -111,3 +126,63 @@ export const enterContestSchema = z.object({
 });
 
 export type EnterContestInput = z.infer<typeof enterContestSchema>;
+
+export const rulesQuerySchema = z.object({
+  version: z.coerce.number().int().positive().optional(),
+});
+
+export type RulesQueryInput = z.infer<typeof rulesQuerySchema>;
+
+export const parseRulesSchema = z.object({
+  termsUrl: z.string().url().optional(),
+});
+
+export type ParseRulesInput = z.infer<typeof parseRulesSchema>;
+
+export const prizeTierSchema = z.object({
+  tier: z.string().min(1).max(100),
+  description: z.string().max(500).optional().default(''),
+  arv: z.number().nonnegative().nullable().optional().default(null),
+  quantity: z.number().int().positive().max(1_000_000).optional().default(1),
+  category: z
+    .enum(['cash', 'electronics', 'travel', 'automotive', 'gift_card', 'home', 'fashion', 'food', 'experience', 'subscription', 'other'])
+    .optional(),
+});
+
+export const replacePrizesSchema = z.object({
+  /** Tiers in rank order, grand prize first. An empty list clears the table. */
+  prizes: z.array(prizeTierSchema).max(50),
+});
+
+export type ReplacePrizesInput = z.infer<typeof replacePrizesSchema>;
+
+export const mergeContestsSchema = z.object({
+  /** Contests to fold into the one in the path. */
+  contestIds: z.array(z.string().min(1)).min(1).max(50),
+});
+
+export type MergeContestsInput = z.infer<typeof mergeContestsSchema>;
+
+export const splitContestSchema = z.object({
+  /** Listings (contest_sources ids) to move to a new contest. */
+  sourceIds: z.array(z.string().min(1)).min(1).max(50),
+});
+
+export type SplitContestInput = z.infer<typeof splitContestSchema>;
+
+export const snapshotFileParamsSchema = z.object({
+  id: z.string().min(1),
+  snapshotId: z.string().min(1),
+  kind: z.enum(['html', 'text', 'screenshot']),
+});
+
+export type SnapshotFileParamsInput = z.infer<typeof snapshotFileParamsSchema>;
+
+export const snapshotDiffQuerySchema = z.object({
+  /** Older snapshot. */
+  from: z.string().min(1),
+  /** Newer snapshot. */
+  to: z.string().min(1),
+});
+
+export type SnapshotDiffQueryInput = z.infer<typeof snapshotDiffQuerySchema>;
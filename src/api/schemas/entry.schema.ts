@@ -38,3 +38,21 @@ export const exportFormatSchema = z.object({
 });
 
 export type ExportFormatInput = z.infer<typeof exportFormatSchema>;
+
+/** Longest range the entry calendar projects, in days. */
+const MAX_CALENDAR_DAYS = 31;
+
+export const entryCalendarQuerySchema = dateRangeSchema
+  .extend({
+    profileId: z.string().min(1).optional(),
+  })
+  .refine(
+    ({ from, to }) => {
+      const start = from ? Date.parse(from) : Date.now();
+      const end = to ? Date.parse(to) : start + 7 * 86_400_000;
+      return end > start && end - start <= MAX_CALENDAR_DAYS * 86_400_000;
+    },
+    `Calendar range must be positive and at most ${MAX_CALENDAR_DAYS} days`,
+  );
+
+export type EntryCalendarQueryInput = z.infer<typeof entryCalendarQuerySchema>;
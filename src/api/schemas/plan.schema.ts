@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Daily entry plan Zod schemas for API boundary validation
+// ---------------------------------------------------------------------------
+
+/** Furthest day ahead a plan can be built for. */
+const MAX_PLAN_DAYS_AHEAD = 7;
+
+const planDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date')
+  .refine((date) => !Number.isNaN(Date.parse(`${date}T00:00:00Z`)), 'Invalid date')
+  .refine((date) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const days = (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86_400_000;
+    return days >= 0 && days <= MAX_PLAN_DAYS_AHEAD;
+  }, `Plan date must be today or up to ${MAX_PLAN_DAYS_AHEAD} days ahead (UTC)`);
+
+export const planQuerySchema = z.object({
+  date: planDateSchema.optional(),
+  profileId: z.string().min(1).optional(),
+});
+
+export type PlanQueryInput = z.infer<typeof planQuerySchema>;
+
+export const simulatePlanSchema = z.object({
+  date: planDateSchema.optional(),
+  profileId: z.string().min(1).optional(),
+  dailyBudget: z.number().nonnegative().max(100_000).optional(),
+  maxEntriesPerDay: z.number().int().nonnegative().max(100_000).optional(),
+  maxEntriesPerHour: z.number().int().positive().max(10_000).optional(),
+  browserInstances: z.number().int().positive().max(100).optional(),
+});
+
+export type SimulatePlanInput = z.infer<typeof simulatePlanSchema>;
@@ -4,6 +4,14 @@ import { z } from 'zod';
 // Profile Zod schemas for API boundary validation
 // ---------------------------------------------------------------------------
 
+/** An organization someone in the profile's household is connected to. */
+export const profileAffiliationSchema = z.object({
+  organization: z.string().trim().min(1).max(200),
+  relationship: z.enum(['spouse', 'parent', 'child', 'sibling', 'household']),
+});
+
+export type ProfileAffiliationInput = z.infer<typeof profileAffiliationSchema>;
+
 export const createProfileSchema = z.object({
   firstName: z.string().min(1).max(100),
   lastName: z.string().min(1).max(100),
@@ -30,6 +38,8 @@ export const createProfileSchema = z.object({
     .optional(),
   gender: z.string().max(20).optional(),
   socialAccounts: z.record(z.string(), z.string().optional()).optional(),
+  employer: z.string().max(200).optional(),
+  affiliations: z.array(profileAffiliationSchema).max(20).optional(),
 });
 
 export type CreateProfileInput = z.infer<typeof createProfileSchema>;
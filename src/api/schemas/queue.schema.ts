@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { QUEUE_NAMES } from '../../shared/constants.js';
+
+// ---------------------------------------------------------------------------
+// Queue Zod schemas for API boundary validation
+// ---------------------------------------------------------------------------
+
+const queueNames = Object.values(QUEUE_NAMES) as [string, ...string[]];
+
+export const queueJobsQuerySchema = z.object({
+  queue: z.enum(queueNames).default(QUEUE_NAMES.ENTRY),
+  status: z.enum(['waiting', 'delayed', 'active', 'completed', 'failed']).default('active'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type QueueJobsQueryInput = z.infer<typeof queueJobsQuerySchema>;
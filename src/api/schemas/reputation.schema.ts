@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Sponsor / domain reputation Zod schemas for API boundary validation
+// ---------------------------------------------------------------------------
+
+const reputationKindSchema = z.enum(['domain', 'sponsor']);
+
+export const reputationFilterSchema = z.object({
+  kind: reputationKindSchema.optional(),
+  list: z.enum(['allow', 'deny']).optional(),
+});
+
+export type ReputationFilterInput = z.infer<typeof reputationFilterSchema>;
+
+export const addReputationSchema = z.object({
+  kind: reputationKindSchema,
+  /** Domain, URL or sponsor name. */
+  value: z.string().trim().min(1).max(253),
+  list: z.enum(['allow', 'deny']),
+  reason: z.string().trim().max(1000).optional(),
+  addedBy: z.string().trim().min(1).max(100).optional().default('user'),
+});
+
+export type AddReputationInput = z.infer<typeof addReputationSchema>;
+
+export const scamReportFilterSchema = z.object({
+  domain: z.string().max(253).optional(),
+  sponsor: z.string().max(200).optional(),
+});
+
+export type ScamReportFilterInput = z.infer<typeof scamReportFilterSchema>;
+
+export const flagScamSchema = z.object({
+  reason: z.string().trim().max(1000).optional(),
+  reportedBy: z.string().trim().min(1).max(100).optional().default('user'),
+  denyDomain: z.boolean().optional().default(false),
+  denySponsor: z.boolean().optional().default(false),
+});
+
+export type FlagScamInput = z.infer<typeof flagScamSchema>;
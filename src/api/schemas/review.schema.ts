@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { paginationSchema } from './common.schema.js';
+
+// ---------------------------------------------------------------------------
+// Compliance review Zod schemas for API boundary validation
+// ---------------------------------------------------------------------------
+
+export const reviewFilterSchema = paginationSchema.extend({
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+  contestId: z.string().optional(),
+  profileId: z.string().optional(),
+});
+
+export type ReviewFilterInput = z.infer<typeof reviewFilterSchema>;
+
+export const reviewDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  reason: z.string().trim().min(1, 'A reason is required').max(1000),
+});
+
+export type ReviewDecisionInput = z.infer<typeof reviewDecisionSchema>;
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Tax reporting Zod schemas for API boundary validation
+// ---------------------------------------------------------------------------
+
+const taxYear = z.coerce.number().int().min(2000).max(2100);
+
+const rate = z.number().min(0).max(1);
+
+export const taxSummaryQuerySchema = z.object({
+  year: taxYear.default(() => new Date().getFullYear()),
+  profileId: z.string().optional(),
+});
+
+export type TaxSummaryQueryInput = z.infer<typeof taxSummaryQuerySchema>;
+
+export const taxExportQuerySchema = taxSummaryQuerySchema.extend({
+  format: z.enum(['csv', 'json', 'html']).default('csv'),
+});
+
+export type TaxExportQueryInput = z.infer<typeof taxExportQuerySchema>;
+
+export const updateTaxRatesSchema = z.object({
+  federalRate: rate.optional(),
+  defaultStateRate: rate.optional(),
+  stateRates: z
+    .record(z.string().regex(/^[A-Za-z]{2}$/, 'Expected a two-letter state code'), rate)
+    .optional(),
+});
+
+export type UpdateTaxRatesInput = z.infer<typeof updateTaxRatesSchema>;
+
+export const updateWinTaxSchema = z
+  .object({
+    fairMarketValue: z.number().min(0).nullable().optional(),
+    fmvNote: z.string().trim().max(1000).nullable().optional(),
+    taxReported: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+export type UpdateWinTaxInput = z.infer<typeof updateWinTaxSchema>;
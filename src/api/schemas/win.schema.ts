@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { paginationSchema } from './common.schema.js';
+
+// ---------------------------------------------------------------------------
+// Win claim Zod schemas for API boundary validation
+// ---------------------------------------------------------------------------
+
+const claimStatus = z.enum(['detected', 'notified', 'claiming', 'claimed', 'expired', 'forfeited']);
+
+const documentType = z.enum(['affidavit', 'w9', 'release']);
+
+export const winFilterSchema = paginationSchema.extend({
+  status: claimStatus.optional(),
+  profileId: z.string().optional(),
+});
+
+export type WinFilterInput = z.infer<typeof winFilterSchema>;
+
+export const winTransitionSchema = z.object({
+  status: claimStatus.exclude(['detected', 'expired']),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export type WinTransitionInput = z.infer<typeof winTransitionSchema>;
+
+export const winDeadlineSchema = z.object({
+  /** ISO date or date-time; null clears the deadline. */
+  claimDeadline: z.string().trim().min(1).nullable(),
+});
+
+export type WinDeadlineInput = z.infer<typeof winDeadlineSchema>;
+
+export const winDocumentParamsSchema = z.object({
+  id: z.string().min(1),
+  docType: documentType,
+});
+
+export type WinDocumentParamsInput = z.infer<typeof winDocumentParamsSchema>;
+
+export const uploadWinDocumentSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  mimeType: z.enum(['application/pdf', 'image/png', 'image/jpeg']),
+  /** Base64-encoded file contents. */
+  content: z.string().min(1).regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Expected base64 content'),
+});
+
+export type UploadWinDocumentInput = z.infer<typeof uploadWinDocumentSchema>;
+
+export const updateWinDocumentSchema = z
+  .object({
+    status: z.enum(['required', 'submitted', 'waived']).optional(),
+    notes: z.string().trim().max(1000).nullable().optional(),
+  })
+  .refine((data) => data.status !== undefined || data.notes !== undefined, 'No fields to update');
+
+export type UpdateWinDocumentInput = z.infer<typeof updateWinDocumentSchema>;
+
+export const possibleWinFilterSchema = paginationSchema.extend({
+  status: z.enum(['pending', 'confirmed', 'dismissed']).optional(),
+});
+
+export type PossibleWinFilterInput = z.infer<typeof possibleWinFilterSchema>;
+
+export const confirmPossibleWinSchema = z.object({
+  entryId: z.string().trim().min(1).optional(),
+});
+
+export type ConfirmPossibleWinInput = z.infer<typeof confirmPossibleWinSchema>;
+
+export const dismissPossibleWinSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export type DismissPossibleWinInput = z.infer<typeof dismissPossibleWinSchema>;
@@ -2,9 +2,14 @@ import { Routes, Route } from 'react-router-dom';
 import { MainLayout } from './components/layout/MainLayout';
 import { DashboardPage } from './pages/DashboardPage';
 import { ContestsPage } from './pages/ContestsPage';
+import { DiscoverySourcesPage } from './pages/DiscoverySourcesPage';
 import { EntriesPage } from './pages/EntriesPage';
+import { SchedulePage } from './pages/SchedulePage';
 import { ProfilesPage } from './pages/ProfilesPage';
 import { QueuePage } from './pages/QueuePage';
+import { WinsPage } from './pages/WinsPage';
+import { ReviewsPage } from './pages/ReviewsPage';
+import { TaxPage } from './pages/TaxPage';
 import { AnalyticsPage } from './pages/AnalyticsPage';
 import { StatusPage } from './pages/StatusPage';
 import { SettingsPage } from './pages/SettingsPage';
@@ -15,9 +20,14 @@ export function App() {
       <Routes>
         <Route path="/" element={<DashboardPage />} />
         <Route path="/contests" element={<ContestsPage />} />
+        <Route path="/sources" element={<DiscoverySourcesPage />} />
         <Route path="/entries" element={<EntriesPage />} />
+        <Route path="/schedule" element={<SchedulePage />} />
         <Route path="/profiles" element={<ProfilesPage />} />
         <Route path="/queue" element={<QueuePage />} />
+        <Route path="/wins" element={<WinsPage />} />
+        <Route path="/reviews" element={<ReviewsPage />} />
+        <Route path="/tax" element={<TaxPage />} />
         <Route path="/analytics" element={<AnalyticsPage />} />
         <Route path="/status" element={<StatusPage />} />
         <Route path="/settings" element={<SettingsPage />} />
@@ -144,17 +144,242 @@ interface SettingsData {
   };
 }
 
+export type SourceHealthMetric =
+  | 'fetched'
+  | 'new_contests'
+  | 'duplicate_ratio'
+  | 'completeness'
+  | 'error_rate'
+  | 'selector_hit_rate';
+
+export interface SourceHealthAnomaly {
+  metric: SourceHealthMetric | 'crawl';
+  severity: 'warning' | 'critical';
+  value: number;
+  baseline: number | null;
+  reason: string;
+}
+
+export interface SourceHealthReport {
+  sample: {
+    crawledAt: string;
+    failed: boolean;
+    pagesCrawled: number;
+    fetched: number;
+    newContests: number;
+    duplicateRatio: number | null;
+    completeness: number | null;
+    httpErrors: number;
+    errorRate: number;
+    selectorHitRate: number | null;
+    partial?: boolean;
+  };
+  anomalies: SourceHealthAnomaly[];
+  score: number;
+  status: 'healthy' | 'degraded' | 'quarantined';
+  degradedRuns: number;
+  historySize: number;
+}
+
 interface DiscoverySource {
   id: string;
   name: string;
   type: string;
-  url: string;
-  enabled: boolean;
-  lastRun: string | null;
+  url: string | null;
+  isActive: number;
+  lastRunAt: string | null;
   contestsFound: number;
+  errorCount: number;
+  schedule: string | null;
+  healthStatus: 'healthy' | 'degraded' | 'quarantined';
+  healthScore: number | null;
+  healthReport: SourceHealthReport | null;
+  degradedRuns: number;
+  quarantinedAt: string | null;
+  quarantineReason: string | null;
+}
+
+export interface SourceHealthDetail {
+  sourceId: string;
+  healthStatus: DiscoverySource['healthStatus'];
+  healthScore: number | null;
+  degradedRuns: number;
+  quarantinedAt: string | null;
+  quarantineReason: string | null;
+  report: SourceHealthReport | null;
+  trends: Record<SourceHealthMetric, Array<{ timestamp: string; value: number; label?: string }>>;
+}
+
+export interface ContestSnapshot {
+  id: string;
+  contestId: string;
+  reason: 'discovery' | 'first_entry' | 'change';
+  url: string;
+  entryId: string | null;
+  hasScreenshot: boolean;
+  textHash: string;
+  htmlBytes: number;
+  details: Record<string, unknown>;
+  capturedAt: string;
+}
+
+export interface SnapshotDiff {
+  from: ContestSnapshot;
+  to: ContestSnapshot;
+  identical: boolean;
+  added: number;
+  removed: number;
+  lines: Array<{ type: 'same' | 'added' | 'removed'; text: string }>;
+}
+
+export interface PlannedEntry {
+  contestId: string;
+  contestTitle: string;
+  profileId: string;
+  profileName: string;
+  frequency: 'daily' | 'weekly';
+  opensAt: string;
+  closesAt: string;
+  runAt: string;
+  jobId: string;
+  /** `queued` once the scheduler has added the delayed job. */
+  status: 'planned' | 'queued' | 'over_capacity';
+}
+
+export type JobFlowStageName = 'entry' | 'email-verify' | 'sms-verify';
+
+export interface JobFlowStage {
+  stage: JobFlowStageName;
+  parentStage: JobFlowStageName | null;
+  jobId: string | null;
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  error: string | null;
+  result: unknown;
+  queuedAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/** The chain of jobs that submitted and verified an entry. */
+export interface JobFlow {
+  /** Correlation ID carried by every job of the flow. */
+  id: string;
+  rootJobId: string;
+  contestId: string;
+  profileId: string;
+  entryId: string | null;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  failedStage: JobFlowStageName | null;
+  error: string | null;
+  compensations: string[];
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  stages: JobFlowStage[];
+}
+
+export interface EntryCalendarParams {
+  from?: string;
+  to?: string;
+  profileId?: string;
+}
+
+export interface PlanConstraints {
+  maxEntriesPerDay: number;
+  maxEntriesPerHour: number;
+  dailyBudget: number;
+  browserInstances: number;
+}
+
+export type PlanSkipReason =
+  | 'no_value'
+  | 'daily_cap'
+  | 'budget'
+  | 'deadline'
+  | 'hourly_cap'
+  | 'browser_capacity';
+
+export interface PlanCandidate {
+  jobId: string;
+  contestId: string;
+  contestTitle: string;
+  profileId: string;
+  profileName: string;
+  opensAt: string;
+  deadline: string;
+  preferredAt: string;
+  expectedValue: number;
+  cost: number;
+  minutes: number;
+  priority: number;
+  valued: boolean;
+}
+
+export interface PlanTotals {
+  entries: number;
+  expectedValue: number;
+  cost: number;
+  netValue: number;
+  browserMinutes: number;
+}
+
+export interface DailyEntryPlan {
+  date: string;
+  from: string;
+  to: string;
+  constraints: PlanConstraints;
+  usage: { entries: number; spent: number; queued: number };
+  costModel: { captcha: number; proxy: number; sms: number; social: number; sampleEntries: number };
+  selected: Array<PlanCandidate & { startAt: string; browser: number }>;
+  skipped: Array<PlanCandidate & { reason: PlanSkipReason }>;
+  totals: PlanTotals;
+  binding: Partial<Record<PlanSkipReason, number>>;
+}
+
+export interface PlanSimulation {
+  plan: DailyEntryPlan;
+  baseline: PlanTotals;
+  delta: {
+    entries: number;
+    expectedValue: number;
+    cost: number;
+    netValue: number;
+    added: string[];
+    removed: string[];
+  };
+}
+
+export interface SimulatePlanInput extends Partial<PlanConstraints> {
+  date?: string;
+  profileId?: string;
+}
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/** A contest domain's circuit breaker, shared by every entry worker. */
+export interface DomainCircuit {
+  domain: string;
+  state: CircuitState;
+  failureCount: number;
+  successCount: number;
+  /** Why the circuit last changed state, e.g. `failure_threshold` or `manual_open`. */
+  reason: string | null;
+  lastFailureAt: string | null;
+  lastStateChangeAt: string;
+  probeAt: string | null;
+  /** Milliseconds until the next recovery probe; null while closed. */
+  probeInMs: number | null;
+}
+
+export interface CircuitList {
+  circuits: DomainCircuit[];
+  counts: { open: number; halfOpen: number; closed: number };
 }
 
 interface QueueMetrics {
+  /** Where the server keeps its jobs; null when queues are not configured. */
+  backend: 'redis' | 'sqlite' | null;
   queues: QueueStatus[];
   totalJobs: number;
   totalCompleted: number;
@@ -174,12 +399,23 @@ export const queryKeys = {
     all: ['contests'] as const,
     list: (filters?: ContestFilter) => ['contests', 'list', filters] as const,
     detail: (id: string) => ['contests', 'detail', id] as const,
+    snapshots: (id: string) => ['contests', 'snapshots', id] as const,
+    snapshotDiff: (id: string, from: string, to: string) => ['contests', 'snapshotDiff', id, from, to] as const,
   },
   entries: {
     all: ['entries'] as const,
     list: (filters?: EntryFilter) => ['entries', 'list', filters] as const,
     detail: (id: string) => ['entries', 'detail', id] as const,
+    timeline: (id: string) => ['entries', 'timeline', id] as const,
     stats: (filters?: Partial<EntryFilter>) => ['entries', 'stats', filters] as const,
+    calendar: (params?: EntryCalendarParams) => ['entries', 'calendar', params] as const,
+  },
+  plan: {
+    all: ['plan'] as const,
+    daily: (date?: string, profileId?: string) => ['plan', 'daily', date, profileId] as const,
+  },
+  circuits: {
+    all: ['circuits'] as const,
   },
   profiles: {
     all: ['profiles'] as const,
@@ -205,6 +441,27 @@ export const queryKeys = {
   },
   discovery: {
     sources: () => ['discovery', 'sources'] as const,
+    health: (id: string, days: number) => ['discovery', 'health', id, days] as const,
+  },
+  reputation: {
+    all: ['reputation'] as const,
+    list: () => ['reputation', 'list'] as const,
+  },
+  reviews: {
+    all: ['reviews'] as const,
+    list: (status?: string, offset?: number) => ['reviews', 'list', status, offset] as const,
+  },
+  wins: {
+    all: ['wins'] as const,
+    list: (status?: string, offset?: number) => ['wins', 'list', status, offset] as const,
+    detail: (id: string) => ['wins', 'detail', id] as const,
+    possible: (status?: string, offset?: number) => ['wins', 'possible', status, offset] as const,
+  },
+  tax: {
+    all: ['tax'] as const,
+    years: () => ['tax', 'years'] as const,
+    summary: (year: number, profileId?: string) => ['tax', 'summary', year, profileId] as const,
+    rates: () => ['tax', 'rates'] as const,
   },
 };
 
@@ -289,6 +546,93 @@ export function useEnterContest() {
   });
 }
 
+export function useResumeContest() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (contestId: string) =>
+      apiClient.post<DataEnvelope<{ id: string; paused: boolean }>>(`/contests/${contestId}/resume`, {}),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.contests.all });
+    },
+  });
+}
+
+export function useFlagContestScam() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ contestId, ...input }: {
+      contestId: string;
+      reason?: string;
+      denyDomain?: boolean;
+      denySponsor?: boolean;
+    }) =>
+      apiClient.post<DataEnvelope<{ rescored: number }>>(`/contests/${contestId}/flag-scam`, input),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.contests.all });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.reputation.all });
+    },
+  });
+}
+
+export function useMergeContests() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ contestId, contestIds }: { contestId: string; contestIds: string[] }) =>
+      apiClient.post<DataEnvelope<{ contestId: string; mergedIds: string[] }>>(
+        `/contests/${contestId}/merge`,
+        { contestIds },
+      ),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.contests.all });
+    },
+  });
+}
+
+export function useSplitContest() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ contestId, sourceIds }: { contestId: string; sourceIds: string[] }) =>
+      apiClient.post<DataEnvelope<{ contestId: string; newContestId: string }>>(
+        `/contests/${contestId}/split`,
+        { sourceIds },
+      ),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.contests.all });
+    },
+  });
+}
+
+export function useContestSnapshots(contestId: string) {
+  return useQuery({
+    queryKey: queryKeys.contests.snapshots(contestId),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<ContestSnapshot[]>>(
+        `/contests/${contestId}/snapshots`,
+        undefined,
+        signal,
+      );
+      return resp.data;
+    },
+    enabled: !!contestId,
+  });
+}
+
+export function useSnapshotDiff(contestId: string, from: string | null, to: string | null) {
+  return useQuery({
+    queryKey: queryKeys.contests.snapshotDiff(contestId, from ?? '', to ?? ''),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<SnapshotDiff>>(
+        `/contests/${contestId}/snapshots/diff`,
+        { from: from!, to: to! },
+        signal,
+      );
+      return resp.data;
+    },
+    enabled: !!contestId && !!from && !!to && from !== to,
+    staleTime: Infinity,
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Entry hooks
 // ---------------------------------------------------------------------------
@@ -331,6 +675,18 @@ export function useEntry(id: string) {
   });
 }
 
+export function useEntryTimeline(id: string) {
+  return useQuery({
+    queryKey: queryKeys.entries.timeline(id),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<JobFlow | null>>(`/entries/${id}/timeline`, undefined, signal);
+      return resp.data;
+    },
+    enabled: !!id,
+    refetchInterval: (query) => (query.state.data?.status === 'running' ? 5_000 : false),
+  });
+}
+
 export function useRetryEntry() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -376,6 +732,108 @@ export function useEntryStats(filters?: Partial<EntryFilter>) {
   });
 }
 
+export function useEntryCalendar(params?: EntryCalendarParams) {
+  return useQuery({
+    queryKey: queryKeys.entries.calendar(params),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<PlannedEntry[]> & {
+        range: { from: string; to: string };
+        maxEntriesPerHour: number;
+      }>('/entries/calendar', params as Record<string, string | undefined>, signal);
+      return {
+        entries: resp.data ?? [],
+        range: resp.range,
+        maxEntriesPerHour: resp.maxEntriesPerHour,
+      };
+    },
+    staleTime: 60_000,
+    refetchInterval: 5 * 60_000,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Entry plan hooks
+// ---------------------------------------------------------------------------
+
+export function useEntryPlan(date?: string, profileId?: string) {
+  return useQuery({
+    queryKey: queryKeys.plan.daily(date, profileId),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<DailyEntryPlan>>('/plan', { date, profileId }, signal);
+      return resp.data;
+    },
+    staleTime: 60_000,
+    refetchInterval: 5 * 60_000,
+  });
+}
+
+export function useSimulatePlan() {
+  return useMutation({
+    mutationFn: async (input: SimulatePlanInput): Promise<PlanSimulation> => {
+      const resp = await apiClient.post<DataEnvelope<DailyEntryPlan> & Omit<PlanSimulation, 'plan'>>(
+        '/plan/simulate',
+        input,
+      );
+      return { plan: resp.data, baseline: resp.baseline, delta: resp.delta };
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Circuit breaker hooks
+// ---------------------------------------------------------------------------
+
+export function useCircuits() {
+  return useQuery({
+    queryKey: queryKeys.circuits.all,
+    queryFn: async ({ signal }): Promise<CircuitList> => {
+      const resp = await apiClient.get<DataEnvelope<DomainCircuit[]> & { counts: CircuitList['counts'] }>(
+        '/circuits',
+        undefined,
+        signal,
+      );
+      return { circuits: resp.data ?? [], counts: resp.counts };
+    },
+    refetchInterval: 10_000,
+  });
+}
+
+export function useOpenCircuit() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ domain, durationMinutes }: { domain: string; durationMinutes?: number }) =>
+      apiClient.post<DataEnvelope<DomainCircuit>>(
+        `/circuits/${encodeURIComponent(domain)}/open`,
+        durationMinutes ? { durationMinutes } : {},
+      ),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.circuits.all });
+    },
+  });
+}
+
+export function useCloseCircuit() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (domain: string) =>
+      apiClient.post<DataEnvelope<DomainCircuit>>(`/circuits/${encodeURIComponent(domain)}/close`, {}),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.circuits.all });
+    },
+  });
+}
+
+export function useResetCircuit() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (domain: string) =>
+      apiClient.post<void>(`/circuits/${encodeURIComponent(domain)}/reset`, {}),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.circuits.all });
+    },
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Profile hooks
 // ---------------------------------------------------------------------------
@@ -442,7 +900,7 @@ export function useQueueStatus() {
         completed?: number;
         failed?: number;
         delayed?: number;
-      }>>>('/queue/status', undefined, signal);
+      }>> & { backend?: 'redis' | 'sqlite' | null }>('/queue/status', undefined, signal);
       const raw = resp.data ?? {};
       // Transform the dict into an array matching QueueMetrics shape
       const queues: QueueStatus[] = Object.entries(raw).map(([name, q]) => ({
@@ -458,6 +916,7 @@ export function useQueueStatus() {
       const totalCompleted = queues.reduce((sum, q) => sum + q.completed, 0);
       const totalFailed = queues.reduce((sum, q) => sum + q.failed, 0);
       return {
+        backend: resp.backend ?? null,
         queues,
         totalJobs,
         totalCompleted,
@@ -658,6 +1117,32 @@ export function useDiscoverySources() {
   });
 }
 
+export function useSourceHealth(id: string | null, days: number) {
+  return useQuery({
+    queryKey: queryKeys.discovery.health(id ?? '', days),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<SourceHealthDetail>>(
+        `/discovery/sources/${id}/health`,
+        { days },
+        signal,
+      );
+      return resp.data;
+    },
+    enabled: !!id,
+    staleTime: 60_000,
+  });
+}
+
+export function useReleaseSource() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => apiClient.post(`/discovery/sources/${id}/release`),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['discovery'] });
+    },
+  });
+}
+
 export function useTriggerDiscovery() {
   const queryClient = useQueryClient();
   return useMutation({
@@ -670,6 +1155,429 @@ export function useTriggerDiscovery() {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Sponsor / domain reputation hooks
+// ---------------------------------------------------------------------------
+
+export interface ReputationEntry {
+  id: string;
+  kind: 'domain' | 'sponsor';
+  value: string;
+  list: 'allow' | 'deny';
+  reason: string | null;
+  addedBy: string;
+  builtin: boolean;
+  createdAt: string | null;
+}
+
+export function useReputationEntries() {
+  return useQuery({
+    queryKey: queryKeys.reputation.list(),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<ReputationEntry[]>>('/reputation', undefined, signal);
+      return resp.data ?? [];
+    },
+    staleTime: 60_000,
+  });
+}
+
+export function useAddReputationEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: Pick<ReputationEntry, 'kind' | 'value' | 'list'> & { reason?: string; addedBy?: string }) =>
+      apiClient.post<DataEnvelope<ReputationEntry>>('/reputation', input),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.reputation.all });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.contests.all });
+    },
+  });
+}
+
+export function useRemoveReputationEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) =>
+      apiClient.delete(`/reputation/${id}`),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.reputation.all });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.contests.all });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Compliance review hooks
+// ---------------------------------------------------------------------------
+
+interface ComplianceReviewItem {
+  id: string;
+  contestId: string;
+  profileId: string;
+  status: 'pending' | 'approved' | 'rejected';
+  ruleKey: string;
+  violations: Array<{
+    rule: string;
+    message: string;
+    severity: 'block' | 'review' | 'warn';
+    evidence?: { field: string; sourceText: string | null; confidence: number };
+  }>;
+  reason: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  contestTitle: string;
+  contestUrl: string;
+  profileName: string;
+}
+
+export function useReviews(status?: string, offset = 0, limit = 25) {
+  return useQuery({
+    queryKey: queryKeys.reviews.list(status, offset),
+    queryFn: async ({ signal }) => {
+      const params: Record<string, string | number | boolean | undefined> = {
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        status: status || undefined,
+      };
+      const resp = await apiClient.get<ServerPaginatedResponse<ComplianceReviewItem>>('/reviews', params, signal);
+      return {
+        data: resp.data ?? [],
+        total: resp.pagination?.total ?? 0,
+        limit,
+        offset,
+      } as PaginatedResponse<ComplianceReviewItem>;
+    },
+    staleTime: 30_000,
+  });
+}
+
+export function useDecideReview() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, decision, reason }: { id: string; decision: 'approve' | 'reject'; reason: string }) =>
+      apiClient.post<DataEnvelope<ComplianceReviewItem>>(`/reviews/${id}/decision`, { decision, reason }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.reviews.all });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Win claim hooks
+// ---------------------------------------------------------------------------
+
+type ClaimStatus = 'detected' | 'notified' | 'claiming' | 'claimed' | 'expired' | 'forfeited';
+
+type ClaimDocumentType = 'affidavit' | 'w9' | 'release';
+
+interface ClaimDocument {
+  id: string;
+  winId: string;
+  docType: ClaimDocumentType;
+  status: 'required' | 'uploaded' | 'submitted' | 'waived';
+  hasFile: boolean;
+  originalName: string | null;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  notes: string | null;
+  uploadedAt: string | null;
+  updatedAt: string;
+}
+
+interface ClaimWin {
+  id: string;
+  entryId: string;
+  contestId: string;
+  contestTitle: string | null;
+  profileId: string;
+  profileName: string;
+  prizeDescription: string | null;
+  prizeValue: number | null;
+  claimStatus: ClaimStatus;
+  claimDeadline: string | null;
+  claimUrl: string | null;
+  notes: string | null;
+  remindersSent: number[];
+  allowedTransitions: ClaimStatus[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ClaimWinDetail extends ClaimWin {
+  documents: ClaimDocument[];
+}
+
+export function useWins(status?: string, offset = 0, limit = 25) {
+  return useQuery({
+    queryKey: queryKeys.wins.list(status, offset),
+    queryFn: async ({ signal }) => {
+      const params: Record<string, string | number | boolean | undefined> = {
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        status: status || undefined,
+      };
+      const resp = await apiClient.get<ServerPaginatedResponse<ClaimWin>>('/wins', params, signal);
+      return {
+        data: resp.data ?? [],
+        total: resp.pagination?.total ?? 0,
+        limit,
+        offset,
+      } as PaginatedResponse<ClaimWin>;
+    },
+    staleTime: 30_000,
+  });
+}
+
+export function useWin(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.wins.detail(id ?? ''),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<ClaimWinDetail>>(`/wins/${id}`, undefined, signal);
+      return resp.data;
+    },
+    enabled: !!id,
+  });
+}
+
+export function useTransitionWin() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, status, notes }: { id: string; status: ClaimStatus; notes?: string }) =>
+      apiClient.post<DataEnvelope<ClaimWinDetail>>(`/wins/${id}/transition`, { status, notes }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.wins.all });
+    },
+  });
+}
+
+export function useSetWinDeadline() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, claimDeadline }: { id: string; claimDeadline: string | null }) =>
+      apiClient.put<DataEnvelope<ClaimWinDetail>>(`/wins/${id}/deadline`, { claimDeadline }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.wins.all });
+    },
+  });
+}
+
+export function useUploadWinDocument() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, docType, ...body }: {
+      id: string;
+      docType: ClaimDocumentType;
+      fileName: string;
+      mimeType: string;
+      content: string;
+    }) =>
+      apiClient.put<DataEnvelope<ClaimDocument>>(`/wins/${id}/documents/${docType}`, body),
+    onSuccess: (_data, variables) => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.wins.detail(variables.id) });
+    },
+  });
+}
+
+export function useUpdateWinDocument() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, docType, ...body }: {
+      id: string;
+      docType: ClaimDocumentType;
+      status?: 'required' | 'submitted' | 'waived';
+      notes?: string | null;
+    }) =>
+      apiClient.patch<DataEnvelope<ClaimDocument>>(`/wins/${id}/documents/${docType}`, body),
+    onSuccess: (_data, variables) => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.wins.detail(variables.id) });
+    },
+  });
+}
+
+interface WinSignal {
+  feature: string;
+  weight: number;
+  detail: string;
+}
+
+interface PossibleWin {
+  id: string;
+  emailId: string;
+  subject: string;
+  fromAddress: string;
+  snippet: string | null;
+  prizeDescription: string | null;
+  prizeValue: number | null;
+  claimUrl: string | null;
+  claimDeadline: string | null;
+  confidence: number;
+  signals: WinSignal[];
+  entryId: string | null;
+  contestId: string | null;
+  contestTitle: string | null;
+  profileId: string | null;
+  status: 'pending' | 'confirmed' | 'dismissed';
+  winId: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+export function usePossibleWins(status?: string, offset = 0, limit = 25) {
+  return useQuery({
+    queryKey: queryKeys.wins.possible(status, offset),
+    queryFn: async ({ signal }) => {
+      const params: Record<string, string | number | boolean | undefined> = {
+        page: Math.floor(offset / limit) + 1,
+        limit,
+        status: status || undefined,
+      };
+      const resp = await apiClient.get<ServerPaginatedResponse<PossibleWin>>('/wins/possible', params, signal);
+      return {
+        data: resp.data ?? [],
+        total: resp.pagination?.total ?? 0,
+        limit,
+        offset,
+      } as PaginatedResponse<PossibleWin>;
+    },
+    staleTime: 30_000,
+  });
+}
+
+export function useConfirmPossibleWin() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, entryId }: { id: string; entryId?: string }) =>
+      apiClient.post<DataEnvelope<PossibleWin>>(`/wins/possible/${id}/confirm`, { entryId }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.wins.all });
+    },
+  });
+}
+
+export function useDismissPossibleWin() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) =>
+      apiClient.post<DataEnvelope<PossibleWin>>(`/wins/possible/${id}/dismiss`, { reason }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.wins.all });
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tax hooks
+// ---------------------------------------------------------------------------
+
+interface TaxRates {
+  federalRate: number;
+  defaultStateRate: number;
+  stateRates: Record<string, number>;
+}
+
+interface TaxableWin {
+  id: string;
+  contestId: string;
+  contestTitle: string | null;
+  sponsor: string | null;
+  prizeDescription: string | null;
+  statedValue: number;
+  fairMarketValue: number | null;
+  fmvNote: string | null;
+  taxableValue: number;
+  claimStatus: string;
+  taxReported: boolean;
+  reportable: boolean;
+  detectedAt: string;
+}
+
+interface ProfileTaxYear {
+  profileId: string;
+  profileName: string;
+  state: string | null;
+  year: number;
+  winCount: number;
+  statedValue: number;
+  taxableValue: number;
+  fmvAdjustment: number;
+  reportableCount: number;
+  unreportedCount: number;
+  needsReporting: boolean;
+  payers: Array<{ sponsor: string; total: number; expects1099: boolean }>;
+  estimatedFederal: number;
+  estimatedState: number;
+  wins: TaxableWin[];
+}
+
+interface TaxYearSummary {
+  year: number;
+  rates: TaxRates;
+  profiles: ProfileTaxYear[];
+  byState: Array<{
+    state: string;
+    profileCount: number;
+    taxableValue: number;
+    stateRate: number;
+    estimatedState: number;
+  }>;
+  totals: {
+    taxableValue: number;
+    fmvAdjustment: number;
+    reportableCount: number;
+    unreportedCount: number;
+    estimatedFederal: number;
+    estimatedState: number;
+  };
+}
+
+export function useTaxYears() {
+  return useQuery({
+    queryKey: queryKeys.tax.years(),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<number[]>>('/tax/years', undefined, signal);
+      return resp.data;
+    },
+    staleTime: 60_000,
+  });
+}
+
+export function useTaxSummary(year: number, profileId?: string) {
+  return useQuery({
+    queryKey: queryKeys.tax.summary(year, profileId),
+    queryFn: async ({ signal }) => {
+      const resp = await apiClient.get<DataEnvelope<TaxYearSummary>>(
+        '/tax/summary',
+        { year, profileId: profileId || undefined },
+        signal,
+      );
+      return resp.data;
+    },
+    staleTime: 30_000,
+  });
+}
+
+export function useUpdateTaxRates() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (rates: Partial<TaxRates>) =>
+      apiClient.put<DataEnvelope<TaxRates>>('/tax/rates', rates),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.tax.all });
+    },
+  });
+}
+
+export function useUpdateWinTax() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...data }: { id: string; fairMarketValue?: number | null; fmvNote?: string | null; taxReported?: boolean }) =>
+      apiClient.patch<DataEnvelope<{ id: string }>>(`/tax/wins/${id}`, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.tax.all });
+    },
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Proxy hooks
 // ---------------------------------------------------------------------------
@@ -819,4 +1727,16 @@ export type {
   QueueMetrics,
   ProxyEntry,
   EmailAccount,
+  ComplianceReviewItem,
+  ClaimStatus,
+  ClaimDocumentType,
+  ClaimDocument,
+  ClaimWin,
+  ClaimWinDetail,
+  WinSignal,
+  PossibleWin,
+  TaxRates,
+  TaxableWin,
+  ProfileTaxYear,
+  TaxYearSummary,
 };
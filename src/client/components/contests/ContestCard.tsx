@@ -1,7 +1,9 @@
 import { clsx } from 'clsx';
-import { Clock, Shield, Lock, Mail, Phone, Zap } from 'lucide-react';
+import { Clock, Shield, Lock, Mail, Phone, Zap, PauseCircle, TrendingUp } from 'lucide-react';
 import { StatusBadge } from '../shared/StatusBadge';
-import type { ContestWithStats } from '@/types/contest.types';
+import { useResumeContest } from '../../api/hooks';
+import { toast } from '../../stores/notification.store';
+import type { ContestOdds, ContestWithStats } from '@/types/contest.types';
 
 interface ContestCardProps {
   contest: ContestWithStats;
@@ -56,10 +58,58 @@ function LegitimacyIndicator({ score }: { score: number | null }) {
   );
 }
 
+function formatUsd(value: number): string {
+  if (value >= 1) return `$${value.toFixed(2)}`;
+  if (value >= 0.01) return `${(value * 100).toFixed(1)}¢`;
+  return `${(value * 100).toFixed(3)}¢`;
+}
+
+function formatOdds(probability: number): string {
+  if (probability <= 0) return 'n/a';
+  const oneIn = Math.round(1 / probability);
+  return oneIn <= 1 ? '1 in 1' : `1 in ${oneIn.toLocaleString()}`;
+}
+
+function OddsSummary({ odds }: { odds: ContestOdds }) {
+  const inputsTitle = odds.inputs
+    .map((input) => `${input.label}: ${input.value} (${input.effect})`)
+    .join('\n');
+
+  return (
+    <details className="mt-3 rounded-lg bg-zinc-800/50 px-3 py-2">
+      <summary className="flex cursor-pointer list-none items-center gap-3 text-xs" title={inputsTitle}>
+        <TrendingUp className="h-3 w-3 text-emerald-400" />
+        <span className="font-medium text-zinc-300">EV {formatUsd(odds.expectedValue)}</span>
+        <span className="text-zinc-500">{formatOdds(odds.winProbability)}</span>
+        <span className="text-zinc-500">{formatUsd(odds.evPerMinute)}/min</span>
+        <span className="text-zinc-500">{formatUsd(odds.evPerDollar)}/$</span>
+        <span className="ml-auto text-[10px] text-zinc-600">{odds.confidence} confidence</span>
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {odds.inputs.map((input) => (
+          <li key={input.key} className="flex items-center justify-between gap-2 text-[11px]">
+            <span className="text-zinc-500">{input.label}</span>
+            <span className="truncate text-zinc-400">{input.value}</span>
+            <span className="shrink-0 text-zinc-600">{input.effect}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
 export function ContestCard({ contest, onEnter, onViewDetails }: ContestCardProps) {
   const daysLeft = getDaysLeft(contest.endDate);
   const isExpired = daysLeft === 'Expired';
-  const canEnter = !isExpired && contest.status !== 'completed' && contest.status !== 'blocked' && contest.status !== 'invalid';
+  const canEnter = !isExpired && !contest.pausedAt && contest.status !== 'completed' && contest.status !== 'blocked' && contest.status !== 'invalid';
+  const resumeContest = useResumeContest();
+
+  const handleResume = () => {
+    resumeContest.mutate(contest.id, {
+      onSuccess: () => toast.success('Contest resumed', contest.title),
+      onError: (err) => toast.error('Resume failed', err.message),
+    });
+  };
 
   return (
     <div className="card-hover flex flex-col p-5">
@@ -71,6 +121,17 @@ export function ContestCard({ contest, onEnter, onViewDetails }: ContestCardProp
         <StatusBadge status={contest.status} />
       </div>
 
+      {/* Rules-change pause */}
+      {contest.pausedAt && (
+        <div className="mt-3 flex items-start gap-2 rounded-lg bg-yellow-500/10 px-3 py-2">
+          <PauseCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-yellow-400" />
+          <p className="flex-1 text-xs text-yellow-300">{contest.pauseReason ?? 'Paused after a rules change'}</p>
+          <button onClick={handleResume} disabled={resumeContest.isPending} className="btn-ghost text-xs">
+            Resume
+          </button>
+        </div>
+      )}
+
       {/* Type + Prize */}
       <div className="mt-3 flex items-center gap-2">
         <span className={clsx('badge', typeColors[contest.type] ?? 'bg-zinc-500/10 text-zinc-400')}>
@@ -81,6 +142,14 @@ export function ContestCard({ contest, onEnter, onViewDetails }: ContestCardProp
             ${contest.prizeValue.toLocaleString()}
           </span>
         )}
+        {contest.prizeCount != null && contest.prizeCount > 1 && (
+          <span
+            className="text-xs text-zinc-500"
+            title={contest.prizePoolValue != null ? `Prize pool: $${contest.prizePoolValue.toLocaleString()}` : undefined}
+          >
+            +{(contest.prizeCount - 1).toLocaleString()} more prizes
+          </span>
+        )}
       </div>
 
       {/* Prize description */}
@@ -88,6 +157,9 @@ export function ContestCard({ contest, onEnter, onViewDetails }: ContestCardProp
         <p className="mt-2 line-clamp-1 text-xs text-zinc-500">{contest.prizeDescription}</p>
       )}
 
+      {/* Estimated odds and expected value */}
+      {contest.odds && <OddsSummary odds={contest.odds} />}
+
       {/* Metadata row */}
       <div className="mt-3 flex items-center gap-4">
         {daysLeft && (
@@ -0,0 +1,451 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { X, ExternalLink, ShieldCheck, ShieldAlert, Flag, GitMerge, Scissors, Clock } from 'lucide-react';
+import { StatusBadge } from '../shared/StatusBadge';
+import { LoadingSpinner } from '../shared/LoadingSpinner';
+import { SnapshotArchive } from './SnapshotArchive';
+import {
+  useContest,
+  useContests,
+  useFlagContestScam,
+  useMergeContests,
+  useSplitContest,
+  useUpdateContest,
+} from '../../api/hooks';
+import { toast } from '../../stores/notification.store';
+import type { Contest, ContestLegitimacyReport, ContestSource } from '@/types/contest.types';
+
+interface ContestDetailProps {
+  contestId: string;
+  onClose: () => void;
+}
+
+function DetailRow({ label, value }: { label: string; value: string | null | undefined }) {
+  return (
+    <div className="flex items-baseline justify-between gap-4 py-2">
+      <span className="shrink-0 text-xs text-zinc-500">{label}</span>
+      <span className="truncate text-sm text-zinc-200">{value ?? '-'}</span>
+    </div>
+  );
+}
+
+function LegitimacyReportView({ report }: { report: ContestLegitimacyReport }) {
+  const pct = Math.round(report.score * 100);
+  const Icon = report.passed ? ShieldCheck : ShieldAlert;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Icon className={clsx('h-4 w-4', report.passed ? 'text-emerald-400' : 'text-rose-400')} />
+        <span className="text-sm font-medium text-zinc-200">{pct}%</span>
+        <span className="text-xs text-zinc-500">{report.passed ? 'passed' : 'failed'}</span>
+      </div>
+      <p className="text-xs text-zinc-400">{report.summary}</p>
+      <ul className="space-y-1.5">
+        {report.factors.map((factor, i) => (
+          <li key={`${factor.name}-${i}`} className="flex items-start gap-3 text-xs">
+            <span
+              className={clsx(
+                'w-12 shrink-0 text-right font-mono',
+                factor.score >= 0 ? 'text-emerald-400' : 'text-rose-400',
+              )}
+            >
+              {factor.score >= 0 ? '+' : ''}
+              {factor.score.toFixed(2)}
+            </span>
+            <span className="text-zinc-400">{factor.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function FlagScamForm({ contestId, onDone }: { contestId: string; onDone: () => void }) {
+  const flagScam = useFlagContestScam();
+  const [reason, setReason] = useState('');
+  const [denyDomain, setDenyDomain] = useState(false);
+  const [denySponsor, setDenySponsor] = useState(false);
+
+  const handleSubmit = () => {
+    flagScam.mutate(
+      { contestId, reason: reason.trim() || undefined, denyDomain, denySponsor },
+      {
+        onSuccess: (resp) => {
+          toast.success('Contest flagged as scam', `${resp.data.rescored} contest(s) re-scored`);
+          onDone();
+        },
+        onError: (err) => toast.error('Flag failed', err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-rose-500/20 bg-rose-500/5 p-4">
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className="input-field h-20 resize-none text-xs"
+        placeholder="What makes this a scam? (optional)"
+      />
+      <label className="flex items-center gap-2 text-xs text-zinc-400">
+        <input type="checkbox" checked={denyDomain} onChange={(e) => setDenyDomain(e.target.checked)} />
+        Also deny-list this domain
+      </label>
+      <label className="flex items-center gap-2 text-xs text-zinc-400">
+        <input type="checkbox" checked={denySponsor} onChange={(e) => setDenySponsor(e.target.checked)} />
+        Also deny-list this sponsor
+      </label>
+      <button onClick={handleSubmit} disabled={flagScam.isPending} className="btn-danger w-full text-xs">
+        {flagScam.isPending ? 'Flagging...' : 'Flag as Scam'}
+      </button>
+    </div>
+  );
+}
+
+function SourcesView({ contestId, sources }: { contestId: string; sources: ContestSource[] }) {
+  const splitContest = useSplitContest();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggle = (id: string) =>
+    setSelected((ids) => (ids.includes(id) ? ids.filter((s) => s !== id) : [...ids, id]));
+
+  const handleSplit = () => {
+    splitContest.mutate(
+      { contestId, sourceIds: selected },
+      {
+        onSuccess: () => {
+          toast.success('Contest split', `${selected.length} listing(s) moved to a new contest`);
+          setSelected([]);
+        },
+        onError: (err) => toast.error('Split failed', err.message),
+      },
+    );
+  };
+
+  if (sources.length === 0) {
+    return <p className="text-xs text-zinc-500">No source listings recorded.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {sources.map((source) => (
+          <li key={source.id} className="flex items-start gap-3 text-xs">
+            {sources.length > 1 && (
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={selected.includes(source.id)}
+                onChange={() => toggle(source.id)}
+              />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-zinc-200">{source.source}</span>
+                <span className="font-mono text-zinc-500">trust {source.trust.toFixed(2)}</span>
+              </div>
+              <a
+                href={source.listingUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block truncate text-zinc-400 hover:underline"
+              >
+                {source.listingUrl}
+              </a>
+              <p className="text-zinc-500">
+                Last seen {new Date(source.lastSeenAt).toLocaleDateString()}
+                {source.canonicalMethod && source.canonicalMethod !== 'unchanged' && ` · resolved by ${source.canonicalMethod}`}
+                {source.messageId && ` · from email ${source.messageId}`}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {sources.length > 1 && (
+        <button
+          onClick={handleSplit}
+          disabled={selected.length === 0 || selected.length === sources.length || splitContest.isPending}
+          className="btn-secondary w-full text-xs"
+        >
+          <Scissors className="h-4 w-4" />
+          Split selected into new contest
+        </button>
+      )}
+    </div>
+  );
+}
+
+const COMMON_TIME_ZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'UTC',
+];
+
+function ResetWindowForm({ contest }: { contest: Contest }) {
+  const updateContest = useUpdateContest();
+  const [editing, setEditing] = useState(false);
+  const [time, setTime] = useState(contest.resetTime ?? '00:00');
+  const [timeZone, setTimeZone] = useState(contest.resetTimezone ?? 'America/New_York');
+
+  const save = (resetTime: string | null, resetTimezone: string | null) => {
+    updateContest.mutate(
+      { id: contest.id, resetTime, resetTimezone },
+      {
+        onSuccess: () => {
+          toast.success('Reset time updated', resetTime ? `${resetTime} ${resetTimezone}` : 'Using the official rules');
+          setEditing(false);
+        },
+        onError: (err) => toast.error('Update failed', err.message),
+      },
+    );
+  };
+
+  const summary = contest.resetTime && contest.resetTimezone
+    ? `${contest.resetTime} ${contest.resetTimezone}`
+    : '00:00 UTC (default)';
+  const source = contest.resetSource === 'manual'
+    ? 'set manually'
+    : contest.resetSource === 'rules'
+      ? 'from official rules'
+      : 'not stated in rules';
+
+  if (!editing) {
+    return (
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-zinc-200">
+          <Clock className="h-4 w-4 text-zinc-500" />
+          <span>{summary}</span>
+          <span className="text-xs text-zinc-500">{source}</span>
+        </div>
+        <button onClick={() => setEditing(true)} className="btn-secondary shrink-0 text-xs">
+          Edit
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="time"
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+          className="input-field w-28 text-xs"
+        />
+        <input
+          type="text"
+          list="reset-time-zones"
+          value={timeZone}
+          onChange={(e) => setTimeZone(e.target.value)}
+          className="input-field flex-1 text-xs"
+          placeholder="IANA time zone, e.g. America/New_York"
+        />
+        <datalist id="reset-time-zones">
+          {COMMON_TIME_ZONES.map((zone) => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => save(time, timeZone.trim())}
+          disabled={!time || !timeZone.trim() || updateContest.isPending}
+          className="btn-primary flex-1 text-xs"
+        >
+          Save
+        </button>
+        {contest.resetSource === 'manual' && (
+          <button
+            onClick={() => save(null, null)}
+            disabled={updateContest.isPending}
+            className="btn-secondary flex-1 text-xs"
+          >
+            Use official rules
+          </button>
+        )}
+        <button onClick={() => setEditing(false)} className="btn-secondary text-xs">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function MergeForm({ contestId }: { contestId: string }) {
+  const mergeContests = useMergeContests();
+  const [search, setSearch] = useState('');
+  const { data: results } = useContests({ search: search.trim() || undefined, limit: 5 });
+
+  const candidates = search.trim()
+    ? (results?.data ?? []).filter((c) => c.id !== contestId && !c.mergedIntoId)
+    : [];
+
+  const handleMerge = (otherId: string, title: string) => {
+    mergeContests.mutate(
+      { contestId, contestIds: [otherId] },
+      {
+        onSuccess: () => {
+          toast.success('Contests merged', `"${title}" merged into this contest`);
+          setSearch('');
+        },
+        onError: (err) => toast.error('Merge failed', err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        className="input-field text-xs"
+        placeholder="Find a duplicate contest to merge in..."
+      />
+      {candidates.map((candidate) => (
+        <div key={candidate.id} className="flex items-center gap-3 text-xs">
+          <div className="min-w-0 flex-1">
+            <p className="truncate text-zinc-200">{candidate.title}</p>
+            <p className="truncate text-zinc-500">{candidate.source ?? candidate.url}</p>
+          </div>
+          <button
+            onClick={() => handleMerge(candidate.id, candidate.title)}
+            disabled={mergeContests.isPending}
+            className="btn-secondary shrink-0 text-xs"
+          >
+            <GitMerge className="h-4 w-4" />
+            Merge
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ContestDetail({ contestId, onClose }: ContestDetailProps) {
+  const { data: contest, isLoading } = useContest(contestId);
+  const [showFlagForm, setShowFlagForm] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-end">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Panel */}
+      <div className="relative z-10 h-full w-full max-w-md overflow-y-auto border-l border-zinc-800 bg-zinc-900 shadow-2xl">
+        {/* Header */}
+        <div className="sticky top-0 z-10 flex items-center justify-between border-b border-zinc-800 bg-zinc-900/95 px-5 py-4 backdrop-blur-sm">
+          <div className="flex items-center gap-3">
+            <h3 className="text-base font-semibold text-zinc-100">Contest Detail</h3>
+            {contest && <StatusBadge status={contest.status} size="md" />}
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-zinc-500 transition-colors hover:bg-zinc-800 hover:text-zinc-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {isLoading || !contest ? (
+          <div className="flex items-center justify-center py-20">
+            <LoadingSpinner message="Loading contest..." />
+          </div>
+        ) : (
+          <div className="space-y-6 p-5">
+            {/* Summary */}
+            <div>
+              <h4 className="text-sm font-medium text-zinc-200">{contest.title}</h4>
+              <a
+                href={contest.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1 flex items-center gap-1 text-xs text-emerald-400 hover:underline"
+              >
+                <span className="truncate">{contest.url}</span>
+                <ExternalLink className="h-3 w-3 shrink-0" />
+              </a>
+            </div>
+
+            <div className="divide-y divide-zinc-800/50">
+              <DetailRow label="Sponsor" value={contest.sponsor} />
+              <DetailRow label="Source" value={contest.source} />
+              <DetailRow label="Prize" value={contest.prizeDescription} />
+              <DetailRow
+                label="Prize value"
+                value={contest.prizeValue != null ? `$${contest.prizeValue.toLocaleString()}` : null}
+              />
+              <DetailRow
+                label="Ends"
+                value={contest.endDate ? new Date(contest.endDate).toLocaleDateString() : null}
+              />
+            </div>
+
+            {/* Entry window */}
+            {(contest.entryFrequency === 'daily' || contest.entryFrequency === 'weekly') && (
+              <div>
+                <h4 className="mb-3 text-xs font-medium uppercase tracking-wider text-zinc-500">Entry Reset</h4>
+                <ResetWindowForm contest={contest} />
+              </div>
+            )}
+
+            {/* Sources */}
+            <div>
+              <h4 className="mb-3 text-xs font-medium uppercase tracking-wider text-zinc-500">Sources</h4>
+              {contest.mergedIntoId ? (
+                <p className="text-xs text-zinc-500">
+                  Merged into another contest, which now holds this contest&apos;s listings.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <SourcesView contestId={contest.id} sources={contest.sources ?? []} />
+                  <MergeForm contestId={contest.id} />
+                </div>
+              )}
+            </div>
+
+            {/* Legitimacy */}
+            <div>
+              <h4 className="mb-3 text-xs font-medium uppercase tracking-wider text-zinc-500">Legitimacy</h4>
+              {contest.legitimacyReport ? (
+                <LegitimacyReportView report={contest.legitimacyReport} />
+              ) : (
+                <p className="text-xs text-zinc-500">
+                  {contest.legitimacyScore != null
+                    ? `Score ${Math.round(contest.legitimacyScore * 100)}%; no factor report was recorded.`
+                    : 'Not scored.'}
+                </p>
+              )}
+            </div>
+
+            {/* Snapshots */}
+            <div>
+              <h4 className="mb-3 text-xs font-medium uppercase tracking-wider text-zinc-500">Page Snapshots</h4>
+              <SnapshotArchive contestId={contest.id} />
+            </div>
+
+            {/* Scam report */}
+            {contest.status !== 'blocked' && (
+              <div>
+                {showFlagForm ? (
+                  <FlagScamForm contestId={contest.id} onDone={() => setShowFlagForm(false)} />
+                ) : (
+                  <button onClick={() => setShowFlagForm(true)} className="btn-secondary w-full text-xs">
+                    <Flag className="h-4 w-4" />
+                    Report as Scam
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
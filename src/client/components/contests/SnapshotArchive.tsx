@@ -0,0 +1,276 @@
+import { useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { ArrowRight, FileCode, FileText, Image as ImageIcon } from 'lucide-react';
+import { LoadingSpinner } from '../shared/LoadingSpinner';
+import { useContestSnapshots, useSnapshotDiff, type ContestSnapshot, type SnapshotDiff } from '../../api/hooks';
+
+const REASON_LABELS: Record<ContestSnapshot['reason'], string> = {
+  discovery: 'Discovered',
+  first_entry: 'First entry',
+  change: 'Page changed',
+};
+
+/** Unchanged lines shown around each change before the rest is folded. */
+const CONTEXT_LINES = 2;
+
+type ImageMode = 'side' | 'overlay' | 'difference';
+
+function snapshotFileUrl(snapshot: ContestSnapshot, kind: 'html' | 'text' | 'screenshot') {
+  return `/api/v1/contests/${snapshot.contestId}/snapshots/${snapshot.id}/${kind}`;
+}
+
+function snapshotLabel(snapshot: ContestSnapshot) {
+  return `${new Date(snapshot.capturedAt).toLocaleString()} · ${REASON_LABELS[snapshot.reason]}`;
+}
+
+function SnapshotRow({ snapshot }: { snapshot: ContestSnapshot }) {
+  const brokenSelectors = Array.isArray(snapshot.details['brokenSelectors'])
+    ? (snapshot.details['brokenSelectors'] as string[])
+    : [];
+
+  return (
+    <li className="flex items-start gap-3 text-xs">
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-zinc-200">{REASON_LABELS[snapshot.reason]}</span>
+          <span className="text-zinc-500">{new Date(snapshot.capturedAt).toLocaleString()}</span>
+        </div>
+        <p className="truncate text-zinc-500">
+          {snapshot.url}
+          {brokenSelectors.length > 0 && ` · ${brokenSelectors.length} broken selector(s)`}
+        </p>
+      </div>
+      <div className="flex shrink-0 items-center gap-2 text-zinc-500">
+        <a href={snapshotFileUrl(snapshot, 'html')} target="_blank" rel="noopener noreferrer" title="Archived HTML" className="hover:text-zinc-300">
+          <FileCode className="h-4 w-4" />
+        </a>
+        <a href={snapshotFileUrl(snapshot, 'text')} target="_blank" rel="noopener noreferrer" title="Extracted text" className="hover:text-zinc-300">
+          <FileText className="h-4 w-4" />
+        </a>
+        {snapshot.hasScreenshot && (
+          <a href={snapshotFileUrl(snapshot, 'screenshot')} target="_blank" rel="noopener noreferrer" title="Screenshot" className="hover:text-zinc-300">
+            <ImageIcon className="h-4 w-4" />
+          </a>
+        )}
+      </div>
+    </li>
+  );
+}
+
+type DiffBlock =
+  | { kind: 'line'; type: SnapshotDiff['lines'][number]['type']; text: string }
+  | { kind: 'fold'; count: number };
+
+/** Keeps changed lines and their context, folding long unchanged runs. */
+function foldUnchanged(lines: SnapshotDiff['lines']): DiffBlock[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.type === 'same') return;
+    for (let j = Math.max(0, i - CONTEXT_LINES); j <= Math.min(lines.length - 1, i + CONTEXT_LINES); j++) {
+      keep[j] = true;
+    }
+  });
+
+  const blocks: DiffBlock[] = [];
+  let folded = 0;
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      if (folded > 0) blocks.push({ kind: 'fold', count: folded });
+      folded = 0;
+      blocks.push({ kind: 'line', type: line.type, text: line.text });
+    } else {
+      folded++;
+    }
+  });
+  if (folded > 0) blocks.push({ kind: 'fold', count: folded });
+  return blocks;
+}
+
+function TextDiffView({ diff }: { diff: SnapshotDiff }) {
+  const blocks = useMemo(() => foldUnchanged(diff.lines), [diff.lines]);
+
+  if (diff.identical) {
+    return <p className="text-xs text-zinc-500">The page text is identical in both snapshots.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-zinc-500">
+        <span className="text-emerald-400">+{diff.added}</span>{' '}
+        <span className="text-rose-400">-{diff.removed}</span> lines
+      </p>
+      <div className="max-h-96 overflow-auto rounded-lg border border-zinc-800 bg-zinc-950 font-mono text-[11px] leading-5">
+        {blocks.map((block, i) =>
+          block.kind === 'fold' ? (
+            <div key={i} className="bg-zinc-900 px-3 text-zinc-600">
+              ⋯ {block.count} unchanged line{block.count === 1 ? '' : 's'}
+            </div>
+          ) : (
+            <div
+              key={i}
+              className={clsx(
+                'whitespace-pre-wrap break-words px-3',
+                block.type === 'added' && 'bg-emerald-500/10 text-emerald-300',
+                block.type === 'removed' && 'bg-rose-500/10 text-rose-300',
+                block.type === 'same' && 'text-zinc-400',
+              )}
+            >
+              {block.type === 'added' ? '+ ' : block.type === 'removed' ? '- ' : '  '}
+              {block.text}
+            </div>
+          ),
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ImageDiffView({ from, to }: { from: ContestSnapshot; to: ContestSnapshot }) {
+  const [mode, setMode] = useState<ImageMode>('side');
+  const [opacity, setOpacity] = useState(50);
+
+  if (!from.hasScreenshot || !to.hasScreenshot) {
+    return (
+      <p className="text-xs text-zinc-500">
+        Both snapshots need a screenshot to compare; snapshots taken at discovery are saved without one.
+      </p>
+    );
+  }
+
+  const fromUrl = snapshotFileUrl(from, 'screenshot');
+  const toUrl = snapshotFileUrl(to, 'screenshot');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1">
+        {(['side', 'overlay', 'difference'] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={clsx(
+              'rounded-md px-2 py-1 text-xs capitalize',
+              mode === m ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300',
+            )}
+          >
+            {m === 'side' ? 'Side by side' : m}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'side' && (
+        <div className="grid grid-cols-2 gap-2">
+          <img src={fromUrl} alt="Earlier snapshot" className="w-full rounded border border-zinc-800" />
+          <img src={toUrl} alt="Later snapshot" className="w-full rounded border border-zinc-800" />
+        </div>
+      )}
+
+      {mode === 'overlay' && (
+        <div className="space-y-2">
+          <div className="relative overflow-hidden rounded border border-zinc-800">
+            <img src={fromUrl} alt="Earlier snapshot" className="w-full" />
+            <img src={toUrl} alt="Later snapshot" className="absolute left-0 top-0 w-full" style={{ opacity: opacity / 100 }} />
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={opacity}
+            onChange={(e) => setOpacity(Number(e.target.value))}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {mode === 'difference' && (
+        <div className="space-y-2">
+          <div className="relative overflow-hidden rounded border border-zinc-800 bg-black">
+            <img src={fromUrl} alt="Earlier snapshot" className="w-full" />
+            <img src={toUrl} alt="Later snapshot" className="absolute left-0 top-0 w-full mix-blend-difference" />
+          </div>
+          <p className="text-xs text-zinc-500">Unchanged areas are black; anything that moved or changed shows up bright.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function SnapshotArchive({ contestId }: { contestId: string }) {
+  const { data: snapshots, isLoading } = useContestSnapshots(contestId);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [view, setView] = useState<'text' | 'image'>('text');
+
+  // Default to comparing the two most recent snapshots
+  const list = snapshots ?? [];
+  const from = list.find((s) => s.id === fromId) ?? list[1] ?? null;
+  const to = list.find((s) => s.id === toId) ?? list[0] ?? null;
+
+  const { data: diff, isLoading: diffLoading, error: diffError } = useSnapshotDiff(
+    contestId,
+    from?.id ?? null,
+    to?.id ?? null,
+  );
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading snapshots..." />;
+  }
+
+  if (list.length === 0) {
+    return <p className="text-xs text-zinc-500">No page snapshots archived yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        {list.map((snapshot) => (
+          <SnapshotRow key={snapshot.id} snapshot={snapshot} />
+        ))}
+      </ul>
+
+      {list.length > 1 && from && to && (
+        <div className="space-y-3 rounded-lg border border-zinc-800 p-3">
+          <div className="flex items-center gap-2">
+            <select value={from.id} onChange={(e) => setFromId(e.target.value)} className="input-field min-w-0 flex-1 text-xs">
+              {list.map((s) => (
+                <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>
+              ))}
+            </select>
+            <ArrowRight className="h-4 w-4 shrink-0 text-zinc-500" />
+            <select value={to.id} onChange={(e) => setToId(e.target.value)} className="input-field min-w-0 flex-1 text-xs">
+              {list.map((s) => (
+                <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-1 border-b border-zinc-800">
+            {(['text', 'image'] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={clsx(
+                  '-mb-px border-b-2 px-3 py-1.5 text-xs',
+                  view === v ? 'border-emerald-400 text-zinc-100' : 'border-transparent text-zinc-500 hover:text-zinc-300',
+                )}
+              >
+                {v === 'text' ? 'Text diff' : 'Screenshot diff'}
+              </button>
+            ))}
+          </div>
+
+          {from.id === to.id ? (
+            <p className="text-xs text-zinc-500">Pick two different snapshots to compare.</p>
+          ) : view === 'image' ? (
+            <ImageDiffView from={from} to={to} />
+          ) : diffLoading ? (
+            <LoadingSpinner message="Comparing..." />
+          ) : diffError ? (
+            <p className="text-xs text-rose-400">{diffError.message}</p>
+          ) : diff ? (
+            <TextDiffView diff={diff} />
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+} from 'recharts';
+import { useSourceHealth, type SourceHealthMetric } from '../../api/hooks';
+import { LoadingSpinner } from '../shared/LoadingSpinner';
+
+interface SourceHealthChartsProps {
+  sourceId: string;
+  days: number;
+}
+
+const CHARTS: Array<{ metric: SourceHealthMetric; title: string; color: string; ratio: boolean }> = [
+  { metric: 'fetched', title: 'Contests per crawl', color: '#10b981', ratio: false },
+  { metric: 'completeness', title: 'Extraction completeness', color: '#38bdf8', ratio: true },
+  { metric: 'selector_hit_rate', title: 'Selector hit rate', color: '#a78bfa', ratio: true },
+  { metric: 'error_rate', title: 'HTTP error rate', color: '#f43f5e', ratio: true },
+  { metric: 'duplicate_ratio', title: 'Duplicate ratio', color: '#f59e0b', ratio: true },
+  { metric: 'new_contests', title: 'New contests per crawl', color: '#34d399', ratio: false },
+];
+
+function formatBucket(bucket: string, days: number): string {
+  const d = new Date(bucket);
+  if (Number.isNaN(d.getTime())) return bucket;
+  return days <= 2
+    ? d.toLocaleTimeString('en-US', { hour: 'numeric' })
+    : d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export function SourceHealthCharts({ sourceId, days }: SourceHealthChartsProps) {
+  const { data, isLoading } = useSourceHealth(sourceId, days);
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex h-48 items-center justify-center">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+      {CHARTS.map(({ metric, title, color, ratio }) => {
+        const points = data.trends[metric] ?? [];
+        const format = (val: number) => (ratio ? `${(val * 100).toFixed(0)}%` : val.toFixed(0));
+
+        return (
+          <div key={metric} className="rounded-lg bg-zinc-800/40 p-4">
+            <h4 className="text-xs font-medium text-zinc-400">{title}</h4>
+            {points.length === 0 ? (
+              <div className="flex h-32 items-center justify-center text-xs text-zinc-600">No crawls recorded</div>
+            ) : (
+              <div className="mt-2 h-32">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={points} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+                    <CartesianGrid stroke="#27272a" strokeDasharray="3 3" vertical={false} />
+                    <XAxis
+                      dataKey="timestamp"
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fill: '#71717a', fontSize: 10 }}
+                      tickFormatter={(val: string) => formatBucket(val, days)}
+                    />
+                    <YAxis
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fill: '#71717a', fontSize: 10 }}
+                      tickFormatter={format}
+                      domain={ratio ? [0, 1] : [0, 'auto']}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#18181b',
+                        border: '1px solid #3f3f46',
+                        borderRadius: '8px',
+                        fontSize: '12px',
+                        color: '#fafafa',
+                      }}
+                      formatter={(value: number) => [format(value), title]}
+                      labelFormatter={(label: string) => new Date(label).toLocaleString()}
+                    />
+                    <Line type="monotone" dataKey="value" stroke={color} strokeWidth={2} dot={{ fill: color, r: 2 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
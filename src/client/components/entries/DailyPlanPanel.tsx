@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { FlaskConical, Target } from 'lucide-react';
+import { LoadingSpinner } from '../shared/LoadingSpinner';
+import { EmptyState } from '../shared/EmptyState';
+import { toast } from '../../stores/notification.store';
+import {
+  useEntryPlan,
+  useSimulatePlan,
+  type DailyEntryPlan,
+  type PlanConstraints,
+  type PlanSimulation,
+  type PlanSkipReason,
+} from '../../api/hooks';
+
+interface DailyPlanPanelProps {
+  profileId?: string;
+}
+
+const SKIP_LABELS: Record<PlanSkipReason, string> = {
+  no_value: 'Costs more than expected value',
+  daily_cap: 'Daily entry cap',
+  budget: 'Daily budget',
+  deadline: 'Window too short',
+  hourly_cap: 'Hourly entry cap',
+  browser_capacity: 'Browser pool full',
+};
+
+const CONSTRAINT_FIELDS: Array<{ key: keyof PlanConstraints; label: string; step: number }> = [
+  { key: 'dailyBudget', label: 'Daily Budget ($)', step: 1 },
+  { key: 'maxEntriesPerDay', label: 'Entries / Day', step: 10 },
+  { key: 'maxEntriesPerHour', label: 'Entries / Hour', step: 1 },
+  { key: 'browserInstances', label: 'Browsers', step: 1 },
+];
+
+function usd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function signed(value: number, format: (v: number) => string = String): string {
+  return `${value >= 0 ? '+' : '-'}${format(Math.abs(value))}`;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+function PlanTotalsRow({ plan }: { plan: DailyEntryPlan }) {
+  const budgetLeft = plan.constraints.dailyBudget - plan.usage.spent;
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+      <div>
+        <p className="text-xs text-zinc-500">Entries</p>
+        <p className="text-lg font-semibold text-zinc-100">
+          {plan.totals.entries}
+          <span className="ml-1 text-xs font-normal text-zinc-500">
+            of {Math.max(0, plan.constraints.maxEntriesPerDay - plan.usage.entries)} left today
+          </span>
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-zinc-500">Expected Value</p>
+        <p className="text-lg font-semibold text-emerald-400">{usd(plan.totals.expectedValue)}</p>
+      </div>
+      <div>
+        <p className="text-xs text-zinc-500">Projected Cost</p>
+        <p className="text-lg font-semibold text-zinc-100">
+          {usd(plan.totals.cost)}
+          <span className="ml-1 text-xs font-normal text-zinc-500">of {usd(Math.max(0, budgetLeft))}</span>
+        </p>
+      </div>
+      <div>
+        <p className="text-xs text-zinc-500">Browser Time</p>
+        <p className="text-lg font-semibold text-zinc-100">{plan.totals.browserMinutes} min</p>
+      </div>
+    </div>
+  );
+}
+
+function BindingConstraints({ plan }: { plan: DailyEntryPlan }) {
+  const reasons = Object.entries(plan.binding) as Array<[PlanSkipReason, number]>;
+  if (reasons.length === 0) {
+    return <p className="text-xs text-zinc-500">Every eligible entry fits today&apos;s limits.</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {reasons.map(([reason, count]) => (
+        <span
+          key={reason}
+          className="rounded-md border border-amber-500/30 bg-amber-500/10 px-2 py-0.5 text-xs text-amber-300"
+        >
+          {SKIP_LABELS[reason]}: {count} left out
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function SimulationResult({ result }: { result: PlanSimulation }) {
+  const { delta } = result;
+  return (
+    <div className="rounded-lg border border-zinc-800 bg-zinc-900/60 p-3 text-xs">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <div>
+          <p className="text-zinc-500">Entries</p>
+          <p className="font-semibold text-zinc-100">
+            {result.plan.totals.entries} ({signed(delta.entries)})
+          </p>
+        </div>
+        <div>
+          <p className="text-zinc-500">Expected Value</p>
+          <p className={clsx('font-semibold', delta.expectedValue >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
+            {usd(result.plan.totals.expectedValue)} ({signed(delta.expectedValue, usd)})
+          </p>
+        </div>
+        <div>
+          <p className="text-zinc-500">Cost</p>
+          <p className="font-semibold text-zinc-100">
+            {usd(result.plan.totals.cost)} ({signed(delta.cost, usd)})
+          </p>
+        </div>
+        <div>
+          <p className="text-zinc-500">Net Value</p>
+          <p className={clsx('font-semibold', delta.netValue >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
+            {usd(result.plan.totals.netValue)} ({signed(delta.netValue, usd)})
+          </p>
+        </div>
+      </div>
+      <p className="mt-2 text-zinc-500">
+        {delta.added.length} entries added, {delta.removed.length} removed compared to the current limits.
+      </p>
+      <div className="mt-2">
+        <BindingConstraints plan={result.plan} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Today's optimized entry plan: which recurring entries will run, what
+ * they are expected to return and cost, which limits leave entries out,
+ * and a what-if simulation with changed limits.
+ */
+export function DailyPlanPanel({ profileId }: DailyPlanPanelProps) {
+  const { data: plan, isLoading } = useEntryPlan(undefined, profileId);
+  const simulate = useSimulatePlan();
+  const [whatIf, setWhatIf] = useState<PlanConstraints | null>(null);
+
+  useEffect(() => {
+    if (plan && !whatIf) setWhatIf(plan.constraints);
+  }, [plan, whatIf]);
+
+  const runSimulation = () => {
+    if (!whatIf) return;
+    simulate.mutate(
+      { ...whatIf, profileId },
+      { onError: (err) => toast.error('Simulation failed', err.message) },
+    );
+  };
+
+  return (
+    <div className="card space-y-4 p-4">
+      <div className="flex items-center gap-2">
+        <Target className="h-4 w-4 text-emerald-400" />
+        <h2 className="text-sm font-semibold text-zinc-100">Today&apos;s Plan</h2>
+        {plan && plan.costModel.sampleEntries === 0 && (
+          <span className="text-xs text-zinc-500">(costs estimated from default rates)</span>
+        )}
+      </div>
+
+      {isLoading || !plan ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner message="Optimizing today's entries..." />
+        </div>
+      ) : (
+        <>
+          <PlanTotalsRow plan={plan} />
+          <BindingConstraints plan={plan} />
+
+          {plan.selected.length === 0 ? (
+            <EmptyState
+              icon={<Target className="h-8 w-8" />}
+              title="No entries planned"
+              message="No recurring entries are eligible for the rest of today."
+            />
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-zinc-500">
+                  <tr>
+                    <th className="py-1 font-medium">Start</th>
+                    <th className="py-1 font-medium">Contest</th>
+                    <th className="py-1 font-medium">Profile</th>
+                    <th className="py-1 text-right font-medium">EV</th>
+                    <th className="py-1 text-right font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="text-zinc-300">
+                  {plan.selected.map((entry) => (
+                    <tr key={entry.jobId} className="border-t border-zinc-800">
+                      <td className="py-1 font-mono">{formatTime(entry.startAt)}</td>
+                      <td className="max-w-[16rem] truncate py-1">{entry.contestTitle}</td>
+                      <td className="py-1 text-zinc-500">{entry.profileName}</td>
+                      <td className="py-1 text-right">{entry.valued ? usd(entry.expectedValue) : '-'}</td>
+                      <td className="py-1 text-right">{usd(entry.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* What-if */}
+      {whatIf && (
+        <div className="space-y-3 border-t border-zinc-800 pt-4">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="h-4 w-4 text-zinc-400" />
+            <h3 className="text-xs font-semibold text-zinc-300">What If</h3>
+          </div>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+            {CONSTRAINT_FIELDS.map(({ key, label, step }) => (
+              <div key={key}>
+                <label className="mb-1 block text-xs font-medium text-zinc-400">{label}</label>
+                <input
+                  type="number"
+                  value={whatIf[key]}
+                  onChange={(e) => setWhatIf({ ...whatIf, [key]: Number(e.target.value) })}
+                  className="input-field"
+                  min={key === 'maxEntriesPerHour' || key === 'browserInstances' ? 1 : 0}
+                  step={step}
+                />
+              </div>
+            ))}
+            <div className="flex items-end">
+              <button
+                onClick={runSimulation}
+                disabled={simulate.isPending}
+                className="btn-secondary w-full text-xs"
+              >
+                {simulate.isPending ? 'Simulating...' : 'Simulate'}
+              </button>
+            </div>
+          </div>
+          {simulate.data && <SimulationResult result={simulate.data} />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { clsx } from 'clsx';
+import { CalendarClock } from 'lucide-react';
+import { LoadingSpinner } from '../shared/LoadingSpinner';
+import { EmptyState } from '../shared/EmptyState';
+import type { PlannedEntry } from '../../api/hooks';
+
+interface EntryCalendarProps {
+  entries: PlannedEntry[];
+  /** First day shown, as an ISO timestamp. */
+  from: string;
+  days: number;
+  loading?: boolean;
+}
+
+const STATUS_STYLES: Record<PlannedEntry['status'], string> = {
+  queued: 'border-emerald-500/30 bg-emerald-500/10 text-emerald-300',
+  planned: 'border-zinc-700 bg-zinc-800/60 text-zinc-300',
+  over_capacity: 'border-rose-500/30 bg-rose-500/10 text-rose-300',
+};
+
+const STATUS_LABELS: Record<PlannedEntry['status'], string> = {
+  queued: 'Queued',
+  planned: 'Planned',
+  over_capacity: 'Over hourly cap',
+};
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+function formatWindowEnd(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function CalendarItem({ entry }: { entry: PlannedEntry }) {
+  return (
+    <li
+      className={clsx('rounded-md border px-2 py-1.5 text-xs', STATUS_STYLES[entry.status])}
+      title={`${STATUS_LABELS[entry.status]} - window ${formatWindowEnd(entry.opensAt)} to ${formatWindowEnd(entry.closesAt)}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono">{formatTime(entry.runAt)}</span>
+        <span className="text-[10px] uppercase tracking-wide text-zinc-500">{entry.frequency}</span>
+      </div>
+      <p className="truncate font-medium">{entry.contestTitle}</p>
+      <p className="truncate text-zinc-500">
+        {entry.profileName} &middot; closes {formatWindowEnd(entry.closesAt)}
+      </p>
+    </li>
+  );
+}
+
+/**
+ * Day-by-day view of when recurring entries will run, one column per day.
+ */
+export function EntryCalendar({ entries, from, days, loading }: EntryCalendarProps) {
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <LoadingSpinner message="Planning entries..." />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <EmptyState
+        icon={<CalendarClock className="h-8 w-8" />}
+        title="Nothing scheduled"
+        message="No daily or weekly contests have entries due in this range."
+      />
+    );
+  }
+
+  const start = new Date(from);
+  start.setHours(0, 0, 0, 0);
+  const columns = Array.from({ length: days }, (_, i) => {
+    const date = new Date(start);
+    date.setDate(start.getDate() + i);
+    return date;
+  });
+
+  const byDay = new Map<string, PlannedEntry[]>();
+  for (const entry of entries) {
+    const key = dayKey(new Date(entry.runAt));
+    byDay.set(key, [...(byDay.get(key) ?? []), entry]);
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-3 md:grid-cols-4 xl:grid-cols-7">
+      {columns.map((date) => {
+        const items = byDay.get(dayKey(date)) ?? [];
+        return (
+          <div key={dayKey(date)} className="card flex min-h-[8rem] flex-col p-3">
+            <div className="mb-2 flex items-baseline justify-between">
+              <span className="text-xs font-medium text-zinc-300">
+                {date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+              </span>
+              <span className="text-[10px] text-zinc-500">{items.length}</span>
+            </div>
+            {items.length === 0 ? (
+              <p className="text-xs text-zinc-600">-</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {items.map((entry) => (
+                  <CalendarItem key={entry.jobId} entry={entry} />
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,9 +5,12 @@ import {
   RotateCcw,
   CheckCircle2,
   XCircle,
+  Loader2,
+  MinusCircle,
   Image as ImageIcon,
 } from 'lucide-react';
 import { StatusBadge } from '../shared/StatusBadge';
+import { useEntryTimeline, type JobFlow, type JobFlowStage, type JobFlowStageName } from '../../api/hooks';
 import type { EntryWithContest } from '@/types/entry.types';
 
 interface EntryDetailProps {
@@ -55,8 +58,84 @@ function TimelineStep({
   );
 }
 
+const STAGE_LABELS: Record<JobFlowStageName, string> = {
+  entry: 'Entry submission',
+  'email-verify': 'Email confirmation',
+  'sms-verify': 'SMS verification',
+};
+
+function formatTime(iso: string | null): string | null {
+  return iso ? new Date(iso).toLocaleTimeString() : null;
+}
+
+function StageIcon({ status }: { status: JobFlowStage['status'] }) {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-400" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 shrink-0 text-rose-400" />;
+    case 'running':
+      return <Loader2 className="h-4 w-4 shrink-0 animate-spin text-sky-400" />;
+    case 'cancelled':
+      return <MinusCircle className="h-4 w-4 shrink-0 text-zinc-600" />;
+    default:
+      return <div className="h-4 w-4 shrink-0 rounded-full border-2 border-zinc-600" />;
+  }
+}
+
+function FlowStageRow({ stage }: { stage: JobFlowStage }) {
+  const times = [
+    stage.queuedAt && `queued ${formatTime(stage.queuedAt)}`,
+    stage.startedAt && `started ${formatTime(stage.startedAt)}`,
+    stage.finishedAt && `${stage.status} ${formatTime(stage.finishedAt)}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex gap-3">
+      <StageIcon status={stage.status} />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center justify-between">
+          <span className={clsx('text-sm', stage.status === 'completed' ? 'text-zinc-200' : 'text-zinc-400')}>
+            {STAGE_LABELS[stage.stage]}
+          </span>
+          <span className="text-xs text-zinc-600">
+            {stage.attempts > 1 ? `${stage.attempts} attempts` : stage.status}
+          </span>
+        </div>
+        {times.length > 0 && <p className="text-xs text-zinc-600">{times.join(' · ')}</p>}
+        {stage.error && <p className="mt-0.5 text-xs text-rose-400">{stage.error}</p>}
+      </div>
+    </div>
+  );
+}
+
+function FlowTimeline({ flow }: { flow: JobFlow }) {
+  return (
+    <div className="mt-3 space-y-3">
+      {flow.stages.map((stage) => (
+        <FlowStageRow key={stage.stage} stage={stage} />
+      ))}
+      {flow.compensations.length > 0 && (
+        <div className="rounded-md border border-amber-500/20 bg-amber-500/5 p-2">
+          <p className="text-xs font-medium text-amber-300">Undone after failure</p>
+          <ul className="mt-1 list-inside list-disc text-xs text-zinc-400">
+            {flow.compensations.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <p className="truncate font-mono text-[10px] text-zinc-600" title={flow.id}>
+        Correlation ID {flow.id}
+      </p>
+    </div>
+  );
+}
+
 export function EntryDetail({ entry, onClose, onRetry }: EntryDetailProps) {
   const isFailed = entry.status === 'failed';
+  const { data: flow } = useEntryTimeline(entry.id);
+  const resumesVerification = isFailed && flow?.status === 'failed' && flow.failedStage !== 'entry';
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-end">
@@ -119,36 +198,40 @@ export function EntryDetail({ entry, onClose, onRetry }: EntryDetailProps) {
           {/* Timeline */}
           <div className="card p-4">
             <h4 className="text-xs font-medium uppercase tracking-wider text-zinc-500">Timeline</h4>
-            <div className="mt-3 space-y-3">
-              <TimelineStep
-                label="Created"
-                completed={true}
-                time={entry.createdAt}
-              />
-              <TimelineStep
-                label="CAPTCHA solved"
-                completed={entry.captchaSolved}
-              />
-              <TimelineStep
-                label="Form submitted"
-                completed={entry.status !== 'pending'}
-                failed={isFailed}
-                time={entry.submittedAt}
-              />
-              <TimelineStep
-                label="Email confirmed"
-                completed={entry.emailConfirmed}
-              />
-              <TimelineStep
-                label="SMS verified"
-                completed={entry.smsVerified}
-              />
-              <TimelineStep
-                label="Confirmed"
-                completed={entry.status === 'confirmed' || entry.status === 'won'}
-                time={entry.confirmedAt}
-              />
-            </div>
+            {flow ? (
+              <FlowTimeline flow={flow} />
+            ) : (
+              <div className="mt-3 space-y-3">
+                <TimelineStep
+                  label="Created"
+                  completed={true}
+                  time={entry.createdAt}
+                />
+                <TimelineStep
+                  label="CAPTCHA solved"
+                  completed={entry.captchaSolved}
+                />
+                <TimelineStep
+                  label="Form submitted"
+                  completed={entry.status !== 'pending'}
+                  failed={isFailed}
+                  time={entry.submittedAt}
+                />
+                <TimelineStep
+                  label="Email confirmed"
+                  completed={entry.emailConfirmed}
+                />
+                <TimelineStep
+                  label="SMS verified"
+                  completed={entry.smsVerified}
+                />
+                <TimelineStep
+                  label="Confirmed"
+                  completed={entry.status === 'confirmed' || entry.status === 'won'}
+                  time={entry.confirmedAt}
+                />
+              </div>
+            )}
           </div>
 
           {/* Error */}
@@ -186,7 +269,7 @@ export function EntryDetail({ entry, onClose, onRetry }: EntryDetailProps) {
                 className="btn-primary flex-1"
               >
                 <RotateCcw className="h-4 w-4" />
-                Retry Entry
+                {resumesVerification ? 'Retry Verification' : 'Retry Entry'}
               </button>
             )}
             <button onClick={onClose} className="btn-secondary flex-1">
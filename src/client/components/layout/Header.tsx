@@ -8,9 +8,14 @@ import { toast } from '../../stores/notification.store';
 const pageTitles: Record<string, string> = {
   '/': 'Dashboard',
   '/contests': 'Contests',
+  '/sources': 'Discovery Sources',
   '/entries': 'Entries',
+  '/schedule': 'Entry Schedule',
   '/profiles': 'Profiles',
   '/queue': 'Queue',
+  '/wins': 'Win Claims',
+  '/reviews': 'Compliance Reviews',
+  '/tax': 'Tax Reporting',
   '/analytics': 'Analytics',
   '/status': 'Status',
   '/settings': 'Settings',
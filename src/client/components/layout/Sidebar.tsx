@@ -3,11 +3,16 @@ import { clsx } from 'clsx';
 import {
   LayoutDashboard,
   Trophy,
+  Radar,
   Send,
+  CalendarClock,
   Users,
   ListOrdered,
   BarChart3,
   Activity,
+  ShieldAlert,
+  Gift,
+  Receipt,
   Settings,
   PanelLeftClose,
   PanelLeftOpen,
@@ -18,10 +23,15 @@ import { useDashboardStats } from '../../api/hooks';
 const navItems = [
   { to: '/', label: 'Dashboard', icon: LayoutDashboard },
   { to: '/contests', label: 'Contests', icon: Trophy },
+  { to: '/sources', label: 'Sources', icon: Radar },
   { to: '/entries', label: 'Entries', icon: Send },
+  { to: '/schedule', label: 'Schedule', icon: CalendarClock },
   { to: '/profiles', label: 'Profiles', icon: Users },
   { to: '/queue', label: 'Queue', icon: ListOrdered },
+  { to: '/wins', label: 'Wins', icon: Gift },
+  { to: '/reviews', label: 'Reviews', icon: ShieldAlert },
   { to: '/analytics', label: 'Analytics', icon: BarChart3 },
+  { to: '/tax', label: 'Tax', icon: Receipt },
   { to: '/status', label: 'Status', icon: Activity },
   { to: '/settings', label: 'Settings', icon: Settings },
 ] as const;
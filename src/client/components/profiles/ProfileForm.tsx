@@ -1,6 +1,11 @@
 import { useState, type FormEvent } from 'react';
-import { X } from 'lucide-react';
-import type { Profile, ProfileCreateInput } from '@/types/profile.types';
+import { X, Plus, Trash2 } from 'lucide-react';
+import type {
+  Profile,
+  ProfileCreateInput,
+  ProfileAffiliation,
+  AffiliationRelationship,
+} from '@/types/profile.types';
 
 interface ProfileFormProps {
   profile?: Profile | null;
@@ -18,6 +23,22 @@ const US_STATES = [
   'DC',
 ];
 
+const RELATIONSHIPS: AffiliationRelationship[] = ['spouse', 'parent', 'child', 'sibling', 'household'];
+
+/** The profiles API returns JSON columns as stored, so accept either form. */
+function toAffiliations(value: unknown): ProfileAffiliation[] {
+  if (Array.isArray(value)) return value as ProfileAffiliation[];
+  if (typeof value === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      return Array.isArray(parsed) ? (parsed as ProfileAffiliation[]) : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
 export function ProfileForm({ profile, onSave, onClose, loading }: ProfileFormProps) {
   const [formData, setFormData] = useState({
     firstName: profile?.firstName ?? '',
@@ -32,7 +53,10 @@ export function ProfileForm({ profile, onSave, onClose, loading }: ProfileFormPr
     country: profile?.address?.country ?? 'US',
     dateOfBirth: profile?.dateOfBirth ?? '',
     gender: profile?.gender ?? '',
+    employer: profile?.employer ?? '',
   });
+  const initialAffiliations = toAffiliations(profile?.affiliations);
+  const [affiliations, setAffiliations] = useState<ProfileAffiliation[]>(initialAffiliations);
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -76,6 +100,14 @@ export function ProfileForm({ profile, onSave, onClose, loading }: ProfileFormPr
     if (formData.country) input.country = formData.country;
     if (formData.dateOfBirth) input.dateOfBirth = formData.dateOfBirth;
     if (formData.gender) input.gender = formData.gender;
+    if (formData.employer || profile?.employer) input.employer = formData.employer.trim();
+
+    const namedAffiliations = affiliations
+      .map((a) => ({ ...a, organization: a.organization.trim() }))
+      .filter((a) => a.organization.length > 0);
+    if (namedAffiliations.length > 0 || initialAffiliations.length > 0) {
+      input.affiliations = namedAffiliations;
+    }
 
     onSave(input);
   };
@@ -253,6 +285,75 @@ export function ProfileForm({ profile, onSave, onClose, loading }: ProfileFormPr
                 <option value="non-binary">Non-binary</option>
               </select>
             </div>
+
+            {/* Employer */}
+            <div className="col-span-2">
+              <label className="mb-1 block text-xs font-medium text-zinc-400">Employer</label>
+              <input
+                type="text"
+                value={formData.employer}
+                onChange={(e) => update('employer', e.target.value)}
+                className="input-field"
+                placeholder="Acme Corp"
+              />
+            </div>
+
+            {/* Household affiliations */}
+            <div className="col-span-2">
+              <div className="mb-1 flex items-center justify-between">
+                <label className="block text-xs font-medium text-zinc-400">Household Affiliations</label>
+                <button
+                  type="button"
+                  onClick={() => setAffiliations((prev) => [...prev, { organization: '', relationship: 'spouse' }])}
+                  className="btn-ghost text-xs"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  Add
+                </button>
+              </div>
+              <p className="mb-2 text-xs text-zinc-600">
+                Employers of family or household members. Used to catch sponsor-employee exclusions.
+              </p>
+              <div className="space-y-2">
+                {affiliations.map((affiliation, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={affiliation.organization}
+                      onChange={(e) =>
+                        setAffiliations((prev) =>
+                          prev.map((a, j) => (j === i ? { ...a, organization: e.target.value } : a)),
+                        )
+                      }
+                      className="input-field flex-1"
+                      placeholder="Organization"
+                    />
+                    <select
+                      value={affiliation.relationship}
+                      onChange={(e) =>
+                        setAffiliations((prev) =>
+                          prev.map((a, j) =>
+                            j === i ? { ...a, relationship: e.target.value as AffiliationRelationship } : a,
+                          ),
+                        )
+                      }
+                      className="select-field w-32"
+                    >
+                      {RELATIONSHIPS.map((r) => (
+                        <option key={r} value={r}>{r}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setAffiliations((prev) => prev.filter((_, j) => j !== i))}
+                      className="rounded-lg p-1.5 text-zinc-500 hover:bg-zinc-800 hover:text-rose-400"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
 
           {/* Actions */}
@@ -0,0 +1,165 @@
+import { useState, type FormEvent } from 'react';
+import { clsx } from 'clsx';
+import { Plus, Trash2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { LoadingSpinner } from '../shared/LoadingSpinner';
+import { useReputationEntries, useAddReputationEntry, useRemoveReputationEntry } from '../../api/hooks';
+import { toast } from '../../stores/notification.store';
+import type { ReputationEntry } from '../../api/hooks';
+
+const emptyEntry = { kind: 'domain' as ReputationEntry['kind'], value: '', list: 'deny' as ReputationEntry['list'], reason: '' };
+
+export function ReputationSettings() {
+  const { data: entries, isLoading } = useReputationEntries();
+  const addEntry = useAddReputationEntry();
+  const removeEntry = useRemoveReputationEntry();
+
+  const [newEntry, setNewEntry] = useState(emptyEntry);
+  const [showBuiltin, setShowBuiltin] = useState(false);
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    if (!newEntry.value.trim()) return;
+
+    addEntry.mutate(
+      { ...newEntry, reason: newEntry.reason.trim() || undefined },
+      {
+        onSuccess: () => {
+          toast.success('List updated', `${newEntry.value} added to the ${newEntry.list} list`);
+          setNewEntry(emptyEntry);
+        },
+        onError: (err) => toast.error('Failed to update list', err.message),
+      },
+    );
+  };
+
+  const handleRemove = (entry: ReputationEntry) => {
+    removeEntry.mutate(entry.id, {
+      onSuccess: () => toast.success('Entry removed', entry.value),
+      onError: (err) => toast.error('Failed to remove entry', err.message),
+    });
+  };
+
+  const visible = (entries ?? []).filter((entry) => showBuiltin || !entry.builtin);
+  const builtinCount = (entries ?? []).filter((entry) => entry.builtin).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Add entry form */}
+      <div className="card p-6">
+        <h3 className="text-base font-medium text-zinc-200">Sponsor &amp; Domain Reputation</h3>
+        <p className="text-xs text-zinc-500">
+          Deny-listed domains and sponsors are rejected during discovery; allow-listed ones get a legitimacy boost.
+          A domain entry also covers its subdomains.
+        </p>
+
+        <form onSubmit={handleAdd} className="mt-4 space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="w-28">
+              <label className="mb-1 block text-xs font-medium text-zinc-400">Type</label>
+              <select
+                value={newEntry.kind}
+                onChange={(e) => setNewEntry((d) => ({ ...d, kind: e.target.value as ReputationEntry['kind'] }))}
+                className="select-field"
+              >
+                <option value="domain">Domain</option>
+                <option value="sponsor">Sponsor</option>
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className="mb-1 block text-xs font-medium text-zinc-400">
+                {newEntry.kind === 'domain' ? 'Domain or URL' : 'Sponsor name'}
+              </label>
+              <input
+                type="text"
+                value={newEntry.value}
+                onChange={(e) => setNewEntry((d) => ({ ...d, value: e.target.value }))}
+                className="input-field"
+                placeholder={newEntry.kind === 'domain' ? 'example.com' : 'Acme Foods'}
+              />
+            </div>
+            <div className="w-28">
+              <label className="mb-1 block text-xs font-medium text-zinc-400">List</label>
+              <select
+                value={newEntry.list}
+                onChange={(e) => setNewEntry((d) => ({ ...d, list: e.target.value as ReputationEntry['list'] }))}
+                className="select-field"
+              >
+                <option value="deny">Deny</option>
+                <option value="allow">Allow</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className="mb-1 block text-xs font-medium text-zinc-400">Reason</label>
+              <input
+                type="text"
+                value={newEntry.reason}
+                onChange={(e) => setNewEntry((d) => ({ ...d, reason: e.target.value }))}
+                className="input-field"
+                placeholder="Why is this trusted or blocked?"
+              />
+            </div>
+            <button type="submit" className="btn-primary" disabled={addEntry.isPending}>
+              <Plus className="h-4 w-4" />
+              Add
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Entry list */}
+      <div className="card overflow-hidden">
+        <div className="flex items-center justify-between border-b border-zinc-700/50 px-5 py-3">
+          <div>
+            <h3 className="text-sm font-medium text-zinc-300">Allow &amp; Deny Lists</h3>
+            <p className="text-xs text-zinc-500">{visible.length} entries shown</p>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-zinc-400">
+            <input type="checkbox" checked={showBuiltin} onChange={(e) => setShowBuiltin(e.target.checked)} />
+            Show {builtinCount} built-in
+          </label>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner message="Loading lists..." />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="py-12 text-center text-sm text-zinc-500">
+            No entries yet. Add one above or report a contest as a scam.
+          </div>
+        ) : (
+          <div className="divide-y divide-zinc-800/30">
+            {visible.map((entry) => {
+              const Icon = entry.list === 'allow' ? ShieldCheck : ShieldOff;
+              return (
+                <div key={entry.id} className="flex items-center gap-4 px-5 py-3">
+                  <Icon className={clsx('h-4 w-4 shrink-0', entry.list === 'allow' ? 'text-emerald-400' : 'text-rose-400')} />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm text-zinc-200">{entry.value}</span>
+                      <span className="badge bg-zinc-500/10 text-zinc-400">{entry.kind}</span>
+                    </div>
+                    <p className="truncate text-xs text-zinc-500">
+                      {entry.reason ?? 'No reason given'} · {entry.builtin ? 'built-in' : `added by ${entry.addedBy}`}
+                    </p>
+                  </div>
+                  {!entry.builtin && (
+                    <button
+                      onClick={() => handleRemove(entry)}
+                      className="rounded p-1.5 text-zinc-600 transition-colors hover:bg-zinc-700/50 hover:text-rose-400"
+                      disabled={removeEntry.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
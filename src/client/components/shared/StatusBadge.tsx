@@ -26,8 +26,20 @@ const statusColors: Record<string, { bg: string; text: string; dot: string }> =
   healthy: { bg: 'bg-emerald-500/10', text: 'text-emerald-400', dot: 'bg-emerald-400' },
   degraded: { bg: 'bg-yellow-500/10', text: 'text-yellow-400', dot: 'bg-yellow-400' },
   dead: { bg: 'bg-red-500/10', text: 'text-red-400', dot: 'bg-red-400' },
+  quarantined: { bg: 'bg-rose-500/10', text: 'text-rose-400', dot: 'bg-rose-400' },
   unknown: { bg: 'bg-zinc-500/10', text: 'text-zinc-500', dot: 'bg-zinc-500' },
   paused: { bg: 'bg-yellow-500/10', text: 'text-yellow-400', dot: 'bg-yellow-400' },
+  approved: { bg: 'bg-emerald-500/10', text: 'text-emerald-400', dot: 'bg-emerald-400' },
+  rejected: { bg: 'bg-rose-500/10', text: 'text-rose-400', dot: 'bg-rose-400' },
+  detected: { bg: 'bg-amber-500/10', text: 'text-amber-400', dot: 'bg-amber-400' },
+  notified: { bg: 'bg-sky-500/10', text: 'text-sky-400', dot: 'bg-sky-400' },
+  claiming: { bg: 'bg-violet-500/10', text: 'text-violet-400', dot: 'bg-violet-400' },
+  claimed: { bg: 'bg-emerald-500/10', text: 'text-emerald-400', dot: 'bg-emerald-400' },
+  forfeited: { bg: 'bg-rose-500/10', text: 'text-rose-400', dot: 'bg-rose-400' },
+  required: { bg: 'bg-yellow-500/10', text: 'text-yellow-400', dot: 'bg-yellow-400' },
+  uploaded: { bg: 'bg-sky-500/10', text: 'text-sky-400', dot: 'bg-sky-400' },
+  waived: { bg: 'bg-zinc-500/10', text: 'text-zinc-400', dot: 'bg-zinc-500' },
+  dismissed: { bg: 'bg-zinc-500/10', text: 'text-zinc-500', dot: 'bg-zinc-600' },
 };
 
 const defaultColors = { bg: 'bg-zinc-500/10', text: 'text-zinc-400', dot: 'bg-zinc-500' };
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { ShieldAlert } from 'lucide-react';
+import { toast } from '../../stores/notification.store';
+import {
+  useCircuits,
+  useCloseCircuit,
+  useOpenCircuit,
+  useResetCircuit,
+  type CircuitState,
+  type DomainCircuit,
+} from '../../api/hooks';
+
+const STATE_STYLES: Record<CircuitState, { label: string; className: string }> = {
+  OPEN: { label: 'Open', className: 'bg-rose-500/10 text-rose-400' },
+  HALF_OPEN: { label: 'Half-open', className: 'bg-amber-500/10 text-amber-400' },
+  CLOSED: { label: 'Closed', className: 'bg-emerald-500/10 text-emerald-400' },
+};
+
+function formatCountdown(ms: number): string {
+  const secs = Math.ceil(ms / 1000);
+  if (secs < 60) return `${secs}s`;
+  const mins = Math.floor(secs / 60);
+  if (mins < 60) return `${mins}m ${secs % 60}s`;
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+/** Time until the circuit lets its next recovery probe through. */
+function probeLabel(circuit: DomainCircuit, now: number): string {
+  if (circuit.state === 'CLOSED' || !circuit.probeAt) {
+    return circuit.state === 'HALF_OPEN' ? 'next request' : '--';
+  }
+  const remaining = new Date(circuit.probeAt).getTime() - now;
+  if (remaining <= 0) return 'next request';
+  return circuit.state === 'OPEN' ? `in ${formatCountdown(remaining)}` : `probing (${formatCountdown(remaining)})`;
+}
+
+function CircuitRow({ circuit, now }: { circuit: DomainCircuit; now: number }) {
+  const openCircuit = useOpenCircuit();
+  const closeCircuit = useCloseCircuit();
+  const resetCircuit = useResetCircuit();
+  const style = STATE_STYLES[circuit.state];
+  const busy = openCircuit.isPending || closeCircuit.isPending || resetCircuit.isPending;
+  const onError = (title: string) => (err: Error) => toast.error(title, err.message);
+
+  return (
+    <tr className="border-t border-zinc-800">
+      <td className="max-w-[14rem] truncate py-2 font-mono text-zinc-300" title={circuit.domain}>
+        {circuit.domain}
+      </td>
+      <td className="py-2">
+        <span className={clsx('rounded-full px-2 py-0.5 font-medium', style.className)}>{style.label}</span>
+      </td>
+      <td className="py-2 text-right text-zinc-300">{circuit.failureCount}</td>
+      <td className="py-2 text-zinc-500">{probeLabel(circuit, now)}</td>
+      <td className="py-2 text-zinc-600">{circuit.reason?.replace(/_/g, ' ') ?? '--'}</td>
+      <td className="py-2">
+        <div className="flex justify-end gap-1">
+          {circuit.state === 'CLOSED' ? (
+            <button
+              onClick={() => openCircuit.mutate({ domain: circuit.domain }, { onError: onError('Could not open circuit') })}
+              disabled={busy}
+              className="rounded-md px-2 py-1 text-rose-400 transition-colors hover:bg-rose-500/10"
+            >
+              Open
+            </button>
+          ) : (
+            <button
+              onClick={() => closeCircuit.mutate(circuit.domain, { onError: onError('Could not close circuit') })}
+              disabled={busy}
+              className="rounded-md px-2 py-1 text-emerald-400 transition-colors hover:bg-emerald-500/10"
+            >
+              Close
+            </button>
+          )}
+          <button
+            onClick={() => resetCircuit.mutate(circuit.domain, { onError: onError('Could not reset circuit') })}
+            disabled={busy}
+            className="rounded-md px-2 py-1 text-zinc-400 transition-colors hover:bg-zinc-800"
+          >
+            Reset
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Per-domain circuit breakers of the entry workers: each domain's state,
+ * failure count and time until its recovery probe, with manual
+ * open / close / reset.
+ */
+export function CircuitBreakerPanel() {
+  const { data, isLoading } = useCircuits();
+  const openCircuit = useOpenCircuit();
+  const [domain, setDomain] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the probe countdowns between refetches
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const openDomain = () => {
+    const value = domain.trim();
+    if (!value) return;
+    openCircuit.mutate(
+      { domain: value },
+      {
+        onSuccess: () => {
+          setDomain('');
+          toast.success('Circuit opened', `Entries to ${value} are paused`);
+        },
+        onError: (err) => toast.error('Could not open circuit', err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-5">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4 text-zinc-500" />
+          <h2 className="text-sm font-semibold text-zinc-300">Domain Circuits</h2>
+        </div>
+        {data && (
+          <div className="flex gap-3 text-xs">
+            <span className="text-rose-400">{data.counts.open} open</span>
+            <span className="text-amber-400">{data.counts.halfOpen} half-open</span>
+            <span className="text-emerald-400">{data.counts.closed} closed</span>
+          </div>
+        )}
+      </div>
+
+      {isLoading || !data ? (
+        <p className="text-sm text-zinc-600">Loading circuits...</p>
+      ) : data.circuits.length === 0 ? (
+        <p className="text-sm text-zinc-600">No domain has failed an entry yet</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-zinc-500">
+              <tr>
+                <th className="py-1 font-medium">Domain</th>
+                <th className="py-1 font-medium">State</th>
+                <th className="py-1 text-right font-medium">Failures</th>
+                <th className="py-1 font-medium">Probe</th>
+                <th className="py-1 font-medium">Reason</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {data.circuits.map((circuit) => (
+                <CircuitRow key={circuit.domain} circuit={circuit} now={now} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-4 flex gap-2 border-t border-zinc-800 pt-4">
+        <input
+          value={domain}
+          onChange={(e) => setDomain(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && openDomain()}
+          placeholder="example.com"
+          className="input-field flex-1 text-xs"
+        />
+        <button
+          onClick={openDomain}
+          disabled={!domain.trim() || openCircuit.isPending}
+          className="btn-secondary text-xs"
+        >
+          Open Circuit
+        </button>
+      </div>
+    </div>
+  );
+}
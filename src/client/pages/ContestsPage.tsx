@@ -3,6 +3,7 @@ import { Plus } from 'lucide-react';
 import { useContests, useEnterContest } from '../api/hooks';
 import { ContestFilters } from '../components/contests/ContestFilters';
 import { ContestList } from '../components/contests/ContestList';
+import { ContestDetail } from '../components/contests/ContestDetail';
 import { Pagination } from '../components/shared/Pagination';
 import { toast } from '../stores/notification.store';
 import type { ContestFilter } from '@/types/contest.types';
@@ -17,6 +18,8 @@ export function ContestsPage() {
     orderDirection: 'desc',
   });
 
+  const [selectedContestId, setSelectedContestId] = useState<string | null>(null);
+
   const { data, isLoading } = useContests(filters);
   const enterContest = useEnterContest();
 
@@ -33,8 +36,8 @@ export function ContestsPage() {
     [enterContest],
   );
 
-  const handleViewDetails = useCallback((_contestId: string) => {
-    // In a full app this would open a detail panel or navigate
+  const handleViewDetails = useCallback((contestId: string) => {
+    setSelectedContestId(contestId);
   }, []);
 
   return (
@@ -77,6 +80,14 @@ export function ContestsPage() {
           onPageChange={(offset) => setFilters((f) => ({ ...f, offset }))}
         />
       )}
+
+      {/* Detail panel */}
+      {selectedContestId && (
+        <ContestDetail
+          contestId={selectedContestId}
+          onClose={() => setSelectedContestId(null)}
+        />
+      )}
     </div>
   );
 }
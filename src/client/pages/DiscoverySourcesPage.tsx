@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { ChevronDown, ChevronRight, Play, ShieldCheck, AlertTriangle, Radar } from 'lucide-react';
+import { useDiscoverySources, useReleaseSource, useTriggerDiscovery, type DiscoverySource } from '../api/hooks';
+import { SourceHealthCharts } from '../components/discovery/SourceHealthCharts';
+import { StatusBadge } from '../components/shared/StatusBadge';
+import { EmptyState } from '../components/shared/EmptyState';
+import { LoadingSpinner } from '../components/shared/LoadingSpinner';
+import { toast } from '../stores/notification.store';
+
+const RANGES = [
+  { days: 2, label: '48 hours' },
+  { days: 14, label: '14 days' },
+  { days: 30, label: '30 days' },
+];
+
+function SourceRow({ source, expanded, onToggle, days }: {
+  source: DiscoverySource;
+  expanded: boolean;
+  onToggle: () => void;
+  days: number;
+}) {
+  const releaseSource = useReleaseSource();
+  const triggerDiscovery = useTriggerDiscovery();
+  const report = source.healthReport;
+  const quarantined = source.healthStatus === 'quarantined';
+
+  const handleRelease = () => {
+    releaseSource.mutate(source.id, {
+      onSuccess: () => toast.success('Source released', `${source.name} is active again`),
+      onError: (err) => toast.error('Release failed', err.message),
+    });
+  };
+
+  const handleRun = () => {
+    triggerDiscovery.mutate(source.id, {
+      onSuccess: () => toast.success('Discovery queued', source.name),
+      onError: (err) => toast.error('Failed to queue discovery', err.message),
+    });
+  };
+
+  return (
+    <div className="border-b border-zinc-800/50 last:border-b-0">
+      <div className="flex items-center gap-4 px-5 py-3">
+        <button onClick={onToggle} className="text-zinc-500 hover:text-zinc-300">
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-zinc-200">{source.name}</span>
+            <span className="badge bg-zinc-500/10 text-zinc-400">{source.type}</span>
+            {!source.isActive && !quarantined && <span className="text-xs text-zinc-500">inactive</span>}
+          </div>
+          <p className="truncate text-xs text-zinc-500">
+            {source.lastRunAt ? `Last crawl ${new Date(source.lastRunAt).toLocaleString()}` : 'Never crawled'}
+            {report && ` · ${report.sample.fetched} found, ${report.sample.newContests} new`}
+            {` · ${source.contestsFound} total · ${source.errorCount} errors`}
+          </p>
+        </div>
+        <div className="w-16 text-right font-mono text-sm text-zinc-300">
+          {source.healthScore != null ? `${Math.round(source.healthScore * 100)}%` : '-'}
+        </div>
+        <StatusBadge status={source.healthStatus} />
+        {quarantined ? (
+          <button onClick={handleRelease} disabled={releaseSource.isPending} className="btn-secondary text-xs">
+            <ShieldCheck className="h-4 w-4" />
+            Release
+          </button>
+        ) : (
+          <button onClick={handleRun} disabled={triggerDiscovery.isPending} className="btn-secondary text-xs">
+            <Play className="h-4 w-4" />
+            Run
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="space-y-4 px-5 pb-5">
+          {quarantined && source.quarantineReason && (
+            <div className="rounded-lg border border-rose-500/20 bg-rose-500/5 px-4 py-3 text-xs text-rose-300">
+              Quarantined {source.quarantinedAt && new Date(source.quarantinedAt).toLocaleString()}:{' '}
+              {source.quarantineReason}
+            </div>
+          )}
+
+          {report && report.anomalies.length > 0 && (
+            <ul className="space-y-1.5">
+              {report.anomalies.map((anomaly, i) => (
+                <li key={`${anomaly.metric}-${i}`} className="flex items-center gap-2 text-xs">
+                  <AlertTriangle
+                    className={clsx(
+                      'h-3.5 w-3.5 shrink-0',
+                      anomaly.severity === 'critical' ? 'text-rose-400' : 'text-amber-400',
+                    )}
+                  />
+                  <span className="text-zinc-300">{anomaly.reason}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <SourceHealthCharts sourceId={source.id} days={days} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DiscoverySourcesPage() {
+  const { data: sources, isLoading } = useDiscoverySources();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [days, setDays] = useState(14);
+
+  const counts = (sources ?? []).reduce(
+    (acc, s) => ({ ...acc, [s.healthStatus]: (acc[s.healthStatus] ?? 0) + 1 }),
+    {} as Record<string, number>,
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="card flex flex-wrap items-center gap-6 p-4">
+        {(['healthy', 'degraded', 'quarantined'] as const).map((status) => (
+          <div key={status} className="flex items-center gap-2">
+            <StatusBadge status={status} />
+            <span className="text-sm font-medium text-zinc-200">{counts[status] ?? 0}</span>
+          </div>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs text-zinc-500">Trends over</span>
+          <select value={days} onChange={(e) => setDays(Number(e.target.value))} className="select-field w-32">
+            {RANGES.map((range) => (
+              <option key={range.days} value={range.days}>
+                {range.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner message="Loading sources..." />
+      ) : !sources || sources.length === 0 ? (
+        <EmptyState
+          icon={<Radar className="h-8 w-8" />}
+          title="No discovery sources"
+          message="Add a discovery source to start finding contests."
+        />
+      ) : (
+        <div className="card overflow-hidden">
+          <div className="border-b border-zinc-700/50 px-5 py-3">
+            <h3 className="text-sm font-medium text-zinc-300">Source Health</h3>
+            <p className="text-xs text-zinc-500">
+              Each crawl is compared with the source&apos;s own history. Sources that degrade on several crawls in a
+              row are quarantined until released.
+            </p>
+          </div>
+          {sources.map((source) => (
+            <SourceRow
+              key={source.id}
+              source={source}
+              days={days}
+              expanded={expandedId === source.id}
+              onToggle={() => setExpandedId((id) => (id === source.id ? null : source.id))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { ExternalLink, ShieldCheck, ShieldX } from 'lucide-react';
+import { useReviews, useDecideReview, type ComplianceReviewItem } from '../api/hooks';
+import { StatusBadge } from '../components/shared/StatusBadge';
+import { EmptyState } from '../components/shared/EmptyState';
+import { LoadingSpinner } from '../components/shared/LoadingSpinner';
+import { Pagination } from '../components/shared/Pagination';
+import { toast } from '../stores/notification.store';
+
+const PAGE_SIZE = 25;
+
+function ReviewCard({ review }: { review: ComplianceReviewItem }) {
+  const [reason, setReason] = useState('');
+  const decideReview = useDecideReview();
+
+  const handleDecision = (decision: 'approve' | 'reject') => {
+    if (!reason.trim()) {
+      toast.warning('Reason required', 'Enter a reason before deciding.');
+      return;
+    }
+    decideReview.mutate(
+      { id: review.id, decision, reason: reason.trim() },
+      {
+        onSuccess: () => {
+          toast.success(
+            decision === 'approve' ? 'Pair approved' : 'Pair rejected',
+            `${review.profileName} / ${review.contestTitle}`,
+          );
+          setReason('');
+        },
+        onError: (err) => toast.error('Decision failed', err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="card space-y-4 p-5">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <a
+            href={review.contestUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1.5 text-sm font-medium text-zinc-100 hover:text-emerald-400"
+          >
+            <span className="truncate">{review.contestTitle}</span>
+            <ExternalLink className="h-3.5 w-3.5 shrink-0" />
+          </a>
+          <p className="mt-0.5 text-xs text-zinc-500">
+            Profile: {review.profileName} &middot; queued {new Date(review.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <StatusBadge status={review.status} />
+      </div>
+
+      {/* Violations */}
+      <ul className="space-y-2">
+        {review.violations.map((v, i) => (
+          <li key={`${v.rule}-${i}`} className="rounded-lg bg-zinc-800/50 px-3 py-2">
+            <div className="flex items-center gap-2">
+              <span
+                className={clsx(
+                  'text-xs font-medium uppercase',
+                  v.severity === 'review' ? 'text-amber-400' : v.severity === 'block' ? 'text-rose-400' : 'text-zinc-500',
+                )}
+              >
+                {v.severity}
+              </span>
+              <span className="text-xs text-zinc-500">{v.rule}</span>
+            </div>
+            <p className="mt-1 text-sm text-zinc-300">{v.message}</p>
+            {v.evidence?.sourceText && (
+              <p className="mt-1 border-l-2 border-zinc-700 pl-2 text-xs italic text-zinc-500">
+                &ldquo;{v.evidence.sourceText}&rdquo;
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {/* Decision */}
+      {review.status === 'pending' ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for decision"
+            className="input-field flex-1"
+          />
+          <button
+            onClick={() => handleDecision('approve')}
+            disabled={decideReview.isPending}
+            className="btn-primary text-xs"
+          >
+            <ShieldCheck className="h-4 w-4" />
+            Approve
+          </button>
+          <button
+            onClick={() => handleDecision('reject')}
+            disabled={decideReview.isPending}
+            className="btn-secondary text-xs"
+          >
+            <ShieldX className="h-4 w-4" />
+            Reject
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-zinc-500">
+          {review.status === 'approved' ? 'Approved' : 'Rejected'}
+          {review.decidedAt && ` ${new Date(review.decidedAt).toLocaleString()}`}
+          {review.reason && <>: <span className="text-zinc-300">{review.reason}</span></>}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ReviewsPage() {
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading } = useReviews(statusFilter, offset, PAGE_SIZE);
+  const reviews = data?.data ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="card flex flex-wrap items-center gap-3 p-4">
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value);
+            setOffset(0);
+          }}
+          className="select-field w-40"
+        >
+          <option value="">All Statuses</option>
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="rejected">Rejected</option>
+        </select>
+        <p className="text-xs text-zinc-500">
+          Pairs held here were not entered because a compliance check was inconclusive.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner message="Loading reviews..." />
+      ) : reviews.length === 0 ? (
+        <EmptyState
+          title="No reviews"
+          message={statusFilter === 'pending' ? 'Nothing is waiting for a decision.' : 'No reviews match this filter.'}
+        />
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <ReviewCard key={review.id} review={review} />
+          ))}
+        </div>
+      )}
+
+      {data && data.total > PAGE_SIZE && (
+        <Pagination
+          total={data.total}
+          limit={PAGE_SIZE}
+          offset={offset}
+          onPageChange={setOffset}
+        />
+      )}
+    </div>
+  );
+}
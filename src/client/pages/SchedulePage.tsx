@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useEntryCalendar, useProfiles } from '../api/hooks';
+import { EntryCalendar } from '../components/entries/EntryCalendar';
+import { DailyPlanPanel } from '../components/entries/DailyPlanPanel';
+
+const DAYS = 7;
+
+export function SchedulePage() {
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [profileId, setProfileId] = useState('');
+  const { data: profiles } = useProfiles();
+
+  // The current week starts now, so windows already under way are shown;
+  // later weeks start at local midnight.
+  const range = useMemo(() => {
+    const start = new Date();
+    if (weekOffset > 0) {
+      start.setHours(0, 0, 0, 0);
+      start.setDate(start.getDate() + weekOffset * DAYS);
+    }
+    const end = new Date(start);
+    end.setHours(0, 0, 0, 0);
+    end.setDate(end.getDate() + DAYS);
+    return { from: start.toISOString(), to: end.toISOString() };
+  }, [weekOffset]);
+
+  const { data, isLoading } = useEntryCalendar({ ...range, profileId: profileId || undefined });
+  const entries = data?.entries ?? [];
+  const counts = {
+    queued: entries.filter((e) => e.status === 'queued').length,
+    overCapacity: entries.filter((e) => e.status === 'over_capacity').length,
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+        <div className="card px-4 py-3">
+          <p className="text-xs text-zinc-500">Planned Entries</p>
+          <p className="mt-1 text-2xl font-bold text-zinc-100">{entries.length}</p>
+        </div>
+        <div className="card px-4 py-3">
+          <p className="text-xs text-zinc-500">Queued</p>
+          <p className="mt-1 text-2xl font-bold text-emerald-400">{counts.queued}</p>
+        </div>
+        <div className="card px-4 py-3">
+          <p className="text-xs text-zinc-500">Over Hourly Cap</p>
+          <p className="mt-1 text-2xl font-bold text-rose-400">{counts.overCapacity}</p>
+        </div>
+        <div className="card px-4 py-3">
+          <p className="text-xs text-zinc-500">Hourly Cap</p>
+          <p className="mt-1 text-2xl font-bold text-zinc-100">{data?.maxEntriesPerHour ?? '-'}</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="card flex flex-wrap items-center gap-3 p-4">
+        <select
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+          className="select-field w-48"
+        >
+          <option value="">All Profiles</option>
+          {(profiles ?? []).map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.firstName} {profile.lastName}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex-1" />
+
+        <button
+          onClick={() => setWeekOffset((w) => Math.max(0, w - 1))}
+          disabled={weekOffset === 0}
+          className="btn-secondary text-xs"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </button>
+        <span className="text-xs text-zinc-400">
+          {weekOffset === 0 ? 'Next 7 days' : `Week of ${new Date(range.from).toLocaleDateString()}`}
+        </span>
+        <button onClick={() => setWeekOffset((w) => w + 1)} className="btn-secondary text-xs">
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      <DailyPlanPanel profileId={profileId || undefined} />
+
+      <EntryCalendar entries={entries} from={range.from} days={DAYS} loading={isLoading} />
+
+      <p className="text-xs text-zinc-500">
+        Each entry runs inside its contest&apos;s entry window, which closes at the contest&apos;s reset time.
+        Entries are queued up to an hour before they run.
+      </p>
+    </div>
+  );
+}
@@ -8,17 +8,19 @@ import {
   Phone,
   Clock,
   Bell,
+  ShieldAlert,
 } from 'lucide-react';
 import { useSettings, useUpdateSettings } from '../api/hooks';
 import { GeneralSettings } from '../components/settings/GeneralSettings';
 import { CaptchaSettings } from '../components/settings/CaptchaSettings';
 import { ProxySettings } from '../components/settings/ProxySettings';
 import { EmailSettings } from '../components/settings/EmailSettings';
+import { ReputationSettings } from '../components/settings/ReputationSettings';
 import { LoadingSpinner } from '../components/shared/LoadingSpinner';
 import { toast } from '../stores/notification.store';
 import type { SettingsData } from '../api/hooks';
 
-type SettingsTab = 'general' | 'captcha' | 'proxy' | 'email' | 'sms' | 'schedule' | 'notifications';
+type SettingsTab = 'general' | 'captcha' | 'proxy' | 'email' | 'sms' | 'schedule' | 'notifications' | 'reputation';
 
 const tabs: Array<{ id: SettingsTab; label: string; icon: typeof SettingsIcon }> = [
   { id: 'general', label: 'General', icon: SettingsIcon },
@@ -28,6 +30,7 @@ const tabs: Array<{ id: SettingsTab; label: string; icon: typeof SettingsIcon }>
   { id: 'sms', label: 'SMS', icon: Phone },
   { id: 'schedule', label: 'Schedule', icon: Clock },
   { id: 'notifications', label: 'Notifications', icon: Bell },
+  { id: 'reputation', label: 'Reputation', icon: ShieldAlert },
 ];
 
 export function SettingsPage() {
@@ -123,6 +126,8 @@ export function SettingsPage() {
           {activeTab === 'notifications' && (
             <NotificationSettingsContent settings={settings} onSave={handleSave} loading={updateSettings.isPending} />
           )}
+
+          {activeTab === 'reputation' && <ReputationSettings />}
         </div>
       </div>
     </div>
@@ -1,7 +1,7 @@
 /**
  * Real-time Status Monitor page.
  * Shows live system health, active entries, queue depths,
- * browser sessions, and a scrolling event feed.
+ * browser sessions, domain circuit breakers, and a scrolling event feed.
  */
 
 import { clsx } from 'clsx';
@@ -25,7 +25,9 @@ import {
   Trophy,
   Pause,
   ArrowUpCircle,
+  ShieldAlert,
 } from 'lucide-react';
+import { CircuitBreakerPanel } from '../components/status/CircuitBreakerPanel';
 import { useStatusStream } from '../hooks/useStatusStream';
 import type { SystemStatus, StatusEvent } from '../hooks/useStatusStream';
 
@@ -202,6 +204,7 @@ const eventConfig: Record<string, { icon: typeof Activity; color: string; bg: st
   error: { icon: XCircle, color: 'text-rose-400', bg: 'bg-rose-500/10' },
   queue_paused: { icon: Pause, color: 'text-yellow-400', bg: 'bg-yellow-500/10' },
   queue_resumed: { icon: ArrowUpCircle, color: 'text-emerald-400', bg: 'bg-emerald-500/10' },
+  circuit_changed: { icon: ShieldAlert, color: 'text-orange-400', bg: 'bg-orange-500/10' },
 };
 
 function EventRow({ event }: { event: StatusEvent }) {
@@ -321,6 +324,9 @@ export function StatusPage() {
                 </div>
               </div>
 
+              {/* Domain circuit breakers */}
+              <CircuitBreakerPanel />
+
               {/* System resources */}
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                 {/* Memory */}
@@ -0,0 +1,311 @@
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { Download, FileText, Save } from 'lucide-react';
+import {
+  useTaxYears,
+  useTaxSummary,
+  useUpdateTaxRates,
+  useUpdateWinTax,
+  type ProfileTaxYear,
+  type TaxableWin,
+  type TaxRates,
+} from '../api/hooks';
+import { EmptyState } from '../components/shared/EmptyState';
+import { LoadingSpinner } from '../components/shared/LoadingSpinner';
+import { toast } from '../stores/notification.store';
+
+function money(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+function RatesForm({ rates }: { rates: TaxRates }) {
+  const [federal, setFederal] = useState(String(rates.federalRate * 100));
+  const [state, setState] = useState(String(rates.defaultStateRate * 100));
+  const updateRates = useUpdateTaxRates();
+
+  useEffect(() => {
+    setFederal(String(rates.federalRate * 100));
+    setState(String(rates.defaultStateRate * 100));
+  }, [rates.federalRate, rates.defaultStateRate]);
+
+  const handleSave = () => {
+    const federalRate = Number(federal) / 100;
+    const defaultStateRate = Number(state) / 100;
+    if (!Number.isFinite(federalRate) || !Number.isFinite(defaultStateRate)) {
+      toast.warning('Invalid rate', 'Rates must be numbers between 0 and 100.');
+      return;
+    }
+    updateRates.mutate(
+      { federalRate, defaultStateRate },
+      {
+        onSuccess: () => toast.success('Rates saved'),
+        onError: (err) => toast.error('Failed to save rates', err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="card flex flex-wrap items-end gap-4 p-4">
+      <label className="space-y-1">
+        <span className="text-xs text-zinc-500">Federal rate (%)</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={0.1}
+          value={federal}
+          onChange={(e) => setFederal(e.target.value)}
+          className="input-field w-28"
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs text-zinc-500">Default state rate (%)</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={0.1}
+          value={state}
+          onChange={(e) => setState(e.target.value)}
+          className="input-field w-28"
+        />
+      </label>
+      <button onClick={handleSave} disabled={updateRates.isPending} className="btn-secondary text-xs">
+        <Save className="h-4 w-4" />
+        Save Rates
+      </button>
+      <p className="text-xs text-zinc-500">
+        Flat-rate estimates for planning only, not tax advice.
+      </p>
+    </div>
+  );
+}
+
+function WinRow({ win }: { win: TaxableWin }) {
+  const [fmv, setFmv] = useState(win.fairMarketValue !== null ? String(win.fairMarketValue) : '');
+  const updateWin = useUpdateWinTax();
+
+  const saveFmv = () => {
+    const trimmed = fmv.trim();
+    const value = trimmed === '' ? null : Number(trimmed);
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      toast.warning('Invalid value', 'Fair market value must be a positive number.');
+      return;
+    }
+    if (value === win.fairMarketValue) return;
+    updateWin.mutate(
+      { id: win.id, fairMarketValue: value },
+      { onError: (err) => toast.error('Failed to update win', err.message) },
+    );
+  };
+
+  const toggleReported = () => {
+    updateWin.mutate(
+      { id: win.id, taxReported: !win.taxReported },
+      { onError: (err) => toast.error('Failed to update win', err.message) },
+    );
+  };
+
+  return (
+    <tr className="border-t border-zinc-800">
+      <td className="px-3 py-2 text-xs text-zinc-500">{win.detectedAt.slice(0, 10)}</td>
+      <td className="px-3 py-2 text-sm text-zinc-300">
+        {win.prizeDescription ?? win.contestTitle ?? 'Unknown prize'}
+        <p className="text-xs text-zinc-500">{win.sponsor ?? 'Unknown sponsor'}</p>
+      </td>
+      <td className="px-3 py-2 text-right text-sm text-zinc-300">{money(win.statedValue)}</td>
+      <td className="px-3 py-2 text-right">
+        <input
+          type="number"
+          min={0}
+          step={0.01}
+          value={fmv}
+          placeholder="—"
+          onChange={(e) => setFmv(e.target.value)}
+          onBlur={saveFmv}
+          className="input-field w-28 text-right text-xs"
+        />
+      </td>
+      <td
+        className={clsx(
+          'px-3 py-2 text-right text-sm font-medium',
+          win.reportable ? 'text-amber-400' : 'text-zinc-300',
+        )}
+      >
+        {money(win.taxableValue)}
+      </td>
+      <td className="px-3 py-2 text-center">
+        <input
+          type="checkbox"
+          checked={win.taxReported}
+          onChange={toggleReported}
+          disabled={updateWin.isPending}
+          className="h-4 w-4 accent-emerald-500"
+        />
+      </td>
+    </tr>
+  );
+}
+
+function ProfileSection({ profile }: { profile: ProfileTaxYear }) {
+  return (
+    <div className="card space-y-4 p-5">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-medium text-zinc-100">{profile.profileName}</h3>
+          <p className="mt-0.5 text-xs text-zinc-500">
+            {profile.state ?? 'Unknown state'} &middot; {profile.winCount} win{profile.winCount === 1 ? '' : 's'}
+            {profile.fmvAdjustment !== 0 && <> &middot; FMV adjustment {money(profile.fmvAdjustment)}</>}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-lg font-semibold text-zinc-100">{money(profile.taxableValue)}</p>
+          <p className="text-xs text-zinc-500">
+            Est. {money(profile.estimatedFederal)} federal / {money(profile.estimatedState)} state
+          </p>
+        </div>
+      </div>
+
+      {profile.payers.some((p) => p.expects1099) && (
+        <div className="flex flex-wrap gap-2">
+          {profile.payers
+            .filter((p) => p.expects1099)
+            .map((p) => (
+              <span key={p.sponsor} className="rounded-full bg-amber-500/10 px-2.5 py-0.5 text-xs text-amber-400">
+                1099-MISC expected: {p.sponsor} ({money(p.total)})
+              </span>
+            ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-xs text-zinc-500">
+              <th className="px-3 py-2 font-medium">Date</th>
+              <th className="px-3 py-2 font-medium">Prize</th>
+              <th className="px-3 py-2 text-right font-medium">Stated</th>
+              <th className="px-3 py-2 text-right font-medium">FMV</th>
+              <th className="px-3 py-2 text-right font-medium">Taxable</th>
+              <th className="px-3 py-2 text-center font-medium">Reported</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profile.wins.map((win) => (
+              <WinRow key={win.id} win={win} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function TaxPage() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+
+  const { data: years } = useTaxYears();
+  const { data: summary, isLoading } = useTaxSummary(year);
+
+  const yearOptions = [...new Set([currentYear, ...(years ?? [])])].sort((a, b) => b - a);
+  const exportUrl = (format: 'csv' | 'html') => `/api/v1/tax/export?year=${year}&format=${format}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-100">Tax Year {year}</h2>
+          <p className="text-sm text-zinc-500">Winnings by profile, 1099-MISC thresholds, and estimated liability</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            className="select-field w-28"
+          >
+            {yearOptions.map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+          <a href={exportUrl('csv')} className="btn-secondary text-xs">
+            <Download className="h-4 w-4" />
+            CSV
+          </a>
+          <a href={exportUrl('html')} target="_blank" rel="noopener noreferrer" className="btn-secondary text-xs">
+            <FileText className="h-4 w-4" />
+            Printable
+          </a>
+        </div>
+      </div>
+
+      {summary && <RatesForm rates={summary.rates} />}
+
+      {isLoading ? (
+        <LoadingSpinner message="Loading tax summary..." />
+      ) : !summary || summary.profiles.length === 0 ? (
+        <EmptyState title="No winnings" message={`No taxable wins were recorded in ${year}.`} />
+      ) : (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-6">
+            {[
+              { label: 'Taxable Winnings', value: money(summary.totals.taxableValue) },
+              { label: 'FMV Adjustments', value: money(summary.totals.fmvAdjustment) },
+              { label: 'Prizes ≥ $600', value: String(summary.totals.reportableCount) },
+              { label: 'Not Yet Reported', value: String(summary.totals.unreportedCount) },
+              { label: `Est. Federal (${percent(summary.rates.federalRate)})`, value: money(summary.totals.estimatedFederal) },
+              { label: 'Est. State', value: money(summary.totals.estimatedState) },
+            ].map((card) => (
+              <div key={card.label} className="card px-4 py-3">
+                <p className="text-xs text-zinc-500">{card.label}</p>
+                <p className="mt-1 text-xl font-bold text-zinc-100">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* By state */}
+          <div className="card overflow-hidden">
+            <div className="border-b border-zinc-700/50 px-5 py-4">
+              <h3 className="text-sm font-medium text-zinc-300">By State of Residence</h3>
+            </div>
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-xs text-zinc-500">
+                  <th className="px-5 py-2 font-medium">State</th>
+                  <th className="px-5 py-2 text-right font-medium">Profiles</th>
+                  <th className="px-5 py-2 text-right font-medium">Taxable</th>
+                  <th className="px-5 py-2 text-right font-medium">Rate</th>
+                  <th className="px-5 py-2 text-right font-medium">Estimated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.byState.map((row) => (
+                  <tr key={row.state} className="border-t border-zinc-800 text-sm text-zinc-300">
+                    <td className="px-5 py-2">{row.state}</td>
+                    <td className="px-5 py-2 text-right">{row.profileCount}</td>
+                    <td className="px-5 py-2 text-right">{money(row.taxableValue)}</td>
+                    <td className="px-5 py-2 text-right">{percent(row.stateRate)}</td>
+                    <td className="px-5 py-2 text-right">{money(row.estimatedState)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Per profile */}
+          <div className="space-y-4">
+            {summary.profiles.map((profile) => (
+              <ProfileSection key={profile.profileId} profile={profile} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,513 @@
+import { useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { Bell, Check, ExternalLink, FileUp, Clock, X } from 'lucide-react';
+import {
+  useWins,
+  useWin,
+  useTransitionWin,
+  useUploadWinDocument,
+  useUpdateWinDocument,
+  usePossibleWins,
+  useConfirmPossibleWin,
+  useDismissPossibleWin,
+  type ClaimDocument,
+  type ClaimStatus,
+  type ClaimWin,
+  type PossibleWin,
+} from '../api/hooks';
+import { StatusBadge } from '../components/shared/StatusBadge';
+import { EmptyState } from '../components/shared/EmptyState';
+import { LoadingSpinner } from '../components/shared/LoadingSpinner';
+import { Pagination } from '../components/shared/Pagination';
+import { toast } from '../stores/notification.store';
+
+const PAGE_SIZE = 25;
+
+const DOCUMENT_LABELS: Record<ClaimDocument['docType'], string> = {
+  affidavit: 'Affidavit of eligibility',
+  w9: 'W-9',
+  release: 'Liability/publicity release',
+};
+
+const TRANSITION_LABELS: Partial<Record<ClaimStatus, string>> = {
+  notified: 'Mark Notified',
+  claiming: 'Start Claim',
+  claimed: 'Mark Claimed',
+  forfeited: 'Forfeit',
+};
+
+function formatDeadline(deadline: string | null): { label: string; urgent: boolean } {
+  if (!deadline) return { label: 'No deadline', urgent: false };
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(deadline) ? `${deadline}T23:59:59Z` : deadline);
+  if (isNaN(date.getTime())) return { label: deadline, urgent: false };
+
+  const hoursLeft = (date.getTime() - Date.now()) / 3_600_000;
+  if (hoursLeft <= 0) return { label: `Passed ${date.toLocaleString()}`, urgent: true };
+  if (hoursLeft < 48) return { label: `${Math.floor(hoursLeft)}h left`, urgent: hoursLeft <= 24 };
+  return { label: `${Math.floor(hoursLeft / 24)}d left`, urgent: false };
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result ?? '');
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+}
+
+function DocumentRow({ winId, document, editable }: { winId: string; document: ClaimDocument; editable: boolean }) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const uploadDocument = useUploadWinDocument();
+  const updateDocument = useUpdateWinDocument();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const content = await readFileAsBase64(file);
+      uploadDocument.mutate(
+        { id: winId, docType: document.docType, fileName: file.name, mimeType: file.type, content },
+        {
+          onSuccess: () => toast.success('Document uploaded', DOCUMENT_LABELS[document.docType]),
+          onError: (err) => toast.error('Upload failed', err.message),
+        },
+      );
+    } catch (err) {
+      toast.error('Upload failed', err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const setStatus = (status: 'required' | 'submitted' | 'waived') => {
+    updateDocument.mutate(
+      { id: winId, docType: document.docType, status },
+      { onError: (err) => toast.error('Update failed', err.message) },
+    );
+  };
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-zinc-800/50 px-3 py-2">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-zinc-200">{DOCUMENT_LABELS[document.docType]}</span>
+          <StatusBadge status={document.status} />
+        </div>
+        {document.hasFile && (
+          <a
+            href={`/api/v1/wins/${winId}/documents/${document.docType}/file`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-zinc-500 hover:text-emerald-400"
+          >
+            {document.originalName}
+          </a>
+        )}
+      </div>
+      {editable && (
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/pdf,image/png,image/jpeg"
+            className="hidden"
+            onChange={(e) => {
+              void handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={uploadDocument.isPending}
+            className="btn-ghost text-xs"
+          >
+            <FileUp className="h-4 w-4" />
+            Upload
+          </button>
+          {document.status === 'uploaded' && (
+            <button onClick={() => setStatus('submitted')} className="btn-ghost text-xs">
+              Mark Submitted
+            </button>
+          )}
+          {document.status === 'required' ? (
+            <button onClick={() => setStatus('waived')} className="btn-ghost text-xs">
+              Waive
+            </button>
+          ) : document.status === 'waived' ? (
+            <button onClick={() => setStatus('required')} className="btn-ghost text-xs">
+              Require
+            </button>
+          ) : null}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function WinDetailPanel({ winId }: { winId: string }) {
+  const { data: win, isLoading } = useWin(winId);
+  const transitionWin = useTransitionWin();
+  const [notes, setNotes] = useState('');
+
+  if (isLoading || !win) {
+    return <LoadingSpinner message="Loading win..." />;
+  }
+
+  const editable = win.allowedTransitions.length > 0;
+
+  const handleTransition = (status: ClaimStatus) => {
+    transitionWin.mutate(
+      { id: win.id, status, notes: notes.trim() || undefined },
+      {
+        onSuccess: () => {
+          toast.success('Claim updated', `${win.prizeDescription ?? 'Win'} is now ${status}`);
+          setNotes('');
+        },
+        onError: (err) => toast.error('Transition failed', err.message),
+      },
+    );
+  };
+
+  return (
+    <div className="card space-y-5 p-5">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h3 className="text-sm font-medium text-zinc-100">{win.prizeDescription ?? 'Unknown prize'}</h3>
+          <p className="mt-0.5 text-xs text-zinc-500">
+            {win.contestTitle ?? win.contestId} &middot; {win.profileName}
+          </p>
+        </div>
+        <StatusBadge status={win.claimStatus} size="md" />
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-zinc-400">
+        <span className="flex items-center gap-1.5">
+          <Clock className="h-3.5 w-3.5" />
+          {win.claimDeadline ? new Date(win.claimDeadline).toLocaleString() : 'No claim deadline'}
+        </span>
+        {win.remindersSent.length > 0 && (
+          <span className="flex items-center gap-1.5">
+            <Bell className="h-3.5 w-3.5" />
+            Reminded at {win.remindersSent.map((h) => `${h}h`).join(', ')}
+          </span>
+        )}
+        {win.claimUrl && (
+          <a
+            href={win.claimUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1.5 hover:text-emerald-400"
+          >
+            <ExternalLink className="h-3.5 w-3.5" />
+            Claim page
+          </a>
+        )}
+      </div>
+
+      {/* Checklist */}
+      <div className="space-y-2">
+        <h4 className="text-xs font-medium uppercase tracking-wide text-zinc-500">Documents</h4>
+        <ul className="space-y-2">
+          {win.documents.map((doc) => (
+            <DocumentRow key={doc.id} winId={win.id} document={doc} editable={editable} />
+          ))}
+        </ul>
+      </div>
+
+      {/* Transitions */}
+      {editable && (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Note (optional)"
+            className="input-field flex-1"
+          />
+          {win.allowedTransitions.map((status) => (
+            <button
+              key={status}
+              onClick={() => handleTransition(status)}
+              disabled={transitionWin.isPending}
+              className={clsx('text-xs', status === 'forfeited' ? 'btn-secondary' : 'btn-primary')}
+            >
+              {TRANSITION_LABELS[status] ?? status}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {win.notes && (
+        <pre className="whitespace-pre-wrap rounded-lg bg-zinc-800/50 p-3 text-xs text-zinc-400">{win.notes}</pre>
+      )}
+    </div>
+  );
+}
+
+function WinRow({ win, selected, onSelect }: { win: ClaimWin; selected: boolean; onSelect: () => void }) {
+  const deadline = formatDeadline(win.claimDeadline);
+  const open = win.allowedTransitions.length > 0;
+
+  return (
+    <button
+      onClick={onSelect}
+      className={clsx(
+        'flex w-full items-center justify-between gap-4 rounded-lg px-4 py-3 text-left transition-colors',
+        selected ? 'bg-zinc-800' : 'hover:bg-zinc-800/50',
+      )}
+    >
+      <div className="min-w-0">
+        <p className="truncate text-sm text-zinc-100">{win.prizeDescription ?? 'Unknown prize'}</p>
+        <p className="truncate text-xs text-zinc-500">
+          {win.profileName}
+          {win.prizeValue != null && <> &middot; ${win.prizeValue.toLocaleString()}</>}
+        </p>
+      </div>
+      <div className="flex shrink-0 flex-col items-end gap-1">
+        <StatusBadge status={win.claimStatus} />
+        {open && (
+          <span className={clsx('text-xs', deadline.urgent ? 'text-rose-400' : 'text-zinc-500')}>
+            {deadline.label}
+          </span>
+        )}
+      </div>
+    </button>
+  );
+}
+
+function PossibleWinCard({ possible }: { possible: PossibleWin }) {
+  const [entryId, setEntryId] = useState(possible.entryId ?? '');
+  const confirmWin = useConfirmPossibleWin();
+  const dismissWin = useDismissPossibleWin();
+  const busy = confirmWin.isPending || dismissWin.isPending;
+
+  const handleConfirm = () => {
+    confirmWin.mutate(
+      { id: possible.id, entryId: entryId.trim() || undefined },
+      {
+        onSuccess: () => toast.success('Win confirmed', possible.prizeDescription ?? possible.subject),
+        onError: (err) => toast.error('Confirm failed', err.message),
+      },
+    );
+  };
+
+  const handleDismiss = () => {
+    dismissWin.mutate(
+      { id: possible.id },
+      { onError: (err) => toast.error('Dismiss failed', err.message) },
+    );
+  };
+
+  return (
+    <div className="card space-y-3 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="truncate text-sm text-zinc-100">{possible.subject}</p>
+          <p className="truncate text-xs text-zinc-500">
+            {possible.fromAddress} &middot; {new Date(possible.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <span
+            className={clsx(
+              'text-sm font-semibold',
+              possible.confidence >= 0.6 ? 'text-emerald-400' : possible.confidence >= 0.2 ? 'text-amber-400' : 'text-zinc-500',
+            )}
+          >
+            {Math.round(possible.confidence * 100)}%
+          </span>
+          <StatusBadge status={possible.status} />
+        </div>
+      </div>
+
+      {possible.snippet && <p className="line-clamp-3 text-xs text-zinc-400">{possible.snippet}</p>}
+
+      <div className="flex flex-wrap gap-1.5">
+        {possible.signals.map((signal, i) => (
+          <span
+            key={`${signal.feature}-${i}`}
+            title={signal.detail}
+            className={clsx(
+              'rounded-full px-2 py-0.5 text-xs',
+              signal.weight < 0 ? 'bg-rose-500/10 text-rose-400' : 'bg-emerald-500/10 text-emerald-400',
+            )}
+          >
+            {signal.feature.replace('_', ' ')} {signal.weight > 0 ? '+' : ''}
+            {signal.weight.toFixed(2)}
+          </span>
+        ))}
+      </div>
+
+      {(possible.contestTitle || possible.prizeDescription) && (
+        <p className="text-xs text-zinc-500">
+          {possible.contestTitle ?? 'No matching contest'}
+          {possible.prizeDescription && <> &middot; {possible.prizeDescription}</>}
+        </p>
+      )}
+
+      {possible.status !== 'confirmed' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={entryId}
+            onChange={(e) => setEntryId(e.target.value)}
+            placeholder="Entry ID"
+            className="input-field flex-1 text-xs"
+          />
+          <button onClick={handleConfirm} disabled={busy || !entryId.trim()} className="btn-primary text-xs">
+            <Check className="h-4 w-4" />
+            Confirm Win
+          </button>
+          {possible.status === 'pending' && (
+            <button onClick={handleDismiss} disabled={busy} className="btn-secondary text-xs">
+              <X className="h-4 w-4" />
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PossibleWinsInbox() {
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading } = usePossibleWins(statusFilter, offset, PAGE_SIZE);
+  const possibleWins = data?.data ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="card flex flex-wrap items-center gap-3 p-4">
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value);
+            setOffset(0);
+          }}
+          className="select-field w-40"
+        >
+          <option value="pending">Pending</option>
+          <option value="dismissed">Dismissed</option>
+          <option value="confirmed">Confirmed</option>
+          <option value="">All</option>
+        </select>
+        <p className="text-xs text-zinc-500">
+          Win emails that could not be tied to an entry with confidence. Confirm real wins or dismiss false positives.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner message="Loading possible wins..." />
+      ) : possibleWins.length === 0 ? (
+        <EmptyState title="Inbox empty" message="No win emails are waiting for review." />
+      ) : (
+        <div className="space-y-3">
+          {possibleWins.map((possible) => (
+            <PossibleWinCard key={possible.id} possible={possible} />
+          ))}
+        </div>
+      )}
+
+      {data && data.total > PAGE_SIZE && (
+        <Pagination total={data.total} limit={PAGE_SIZE} offset={offset} onPageChange={setOffset} />
+      )}
+    </div>
+  );
+}
+
+export function WinsPage() {
+  const [tab, setTab] = useState<'claims' | 'possible'>('claims');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {([
+          ['claims', 'Claims'],
+          ['possible', 'Possible Wins'],
+        ] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={clsx('text-xs', tab === key ? 'btn-primary' : 'btn-ghost')}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'claims' ? <ClaimsList /> : <PossibleWinsInbox />}
+    </div>
+  );
+}
+
+function ClaimsList() {
+  const [statusFilter, setStatusFilter] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useWins(statusFilter, offset, PAGE_SIZE);
+  const wins = data?.data ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="card flex flex-wrap items-center gap-3 p-4">
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value);
+            setOffset(0);
+          }}
+          className="select-field w-40"
+        >
+          <option value="">All Statuses</option>
+          <option value="detected">Detected</option>
+          <option value="notified">Notified</option>
+          <option value="claiming">Claiming</option>
+          <option value="claimed">Claimed</option>
+          <option value="expired">Expired</option>
+          <option value="forfeited">Forfeited</option>
+        </select>
+        <p className="text-xs text-zinc-500">
+          Reminders go out 72h, 24h and 4h before each claim deadline.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <LoadingSpinner message="Loading wins..." />
+      ) : wins.length === 0 ? (
+        <EmptyState title="No wins" message="No wins match this filter." />
+      ) : (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <div className="card space-y-1 p-2">
+            {wins.map((win) => (
+              <WinRow
+                key={win.id}
+                win={win}
+                selected={win.id === selectedId}
+                onSelect={() => setSelectedId(win.id)}
+              />
+            ))}
+          </div>
+          {selectedId ? (
+            <WinDetailPanel winId={selectedId} />
+          ) : (
+            <EmptyState title="Select a win" message="Choose a win to manage its claim." />
+          )}
+        </div>
+      )}
+
+      {data && data.total > PAGE_SIZE && (
+        <Pagination
+          total={data.total}
+          limit={PAGE_SIZE}
+          offset={offset}
+          onPageChange={setOffset}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { findAffiliationMatches, organizationSimilarity } from './affiliation-matcher.js';
+
+const employer = (organization: string) => [{ organization, relationship: 'self' }];
+
+describe('organizationSimilarity', () => {
+  it('ignores punctuation and corporate suffixes', () => {
+    expect(organizationSimilarity('Acme Foods, Inc.', 'ACME Foods LLC')).toBe(1);
+  });
+
+  it('scores a name contained in the other at or above the match threshold', () => {
+    expect(organizationSimilarity('Acme', 'Acme Foods Inc')).toBeGreaterThanOrEqual(0.85);
+    expect(organizationSimilarity('Acme Foods', 'Acme Foods Midwest Division')).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it('falls back to spelling distance for names that share no words', () => {
+    expect(organizationSimilarity('Acme Foods', 'Acmee Foods')).toBeGreaterThan(0.85);
+    expect(organizationSimilarity('Acme Foods', 'Zenith Media')).toBeLessThan(0.5);
+  });
+});
+
+describe('findAffiliationMatches', () => {
+  it('blocks a one-word employer contained in the sponsor name', () => {
+    expect(findAffiliationMatches(employer('Acme'), 'Acme Foods Inc', [])).toEqual([
+      expect.objectContaining({ organization: 'Acme', source: 'sponsor', ambiguous: false }),
+    ]);
+  });
+
+  it('marks matches that rest on a single common word as ambiguous', () => {
+    expect(findAffiliationMatches(employer('American'), 'American Express', [])).toEqual([
+      expect.objectContaining({ matchedAgainst: 'American Express', ambiguous: true }),
+    ]);
+  });
+
+  it('matches excluded organizations from the rules and skips placeholders', () => {
+    const excluded = ['Sponsor', 'Affiliates and Subsidiaries', 'Zenith Media Partners'];
+
+    expect(findAffiliationMatches(employer('Zenith Media'), 'Acme Foods', excluded)).toEqual([
+      expect.objectContaining({ matchedAgainst: 'Zenith Media Partners', source: 'rules', ambiguous: false }),
+    ]);
+    expect(findAffiliationMatches(employer('Subsidiaries'), 'Acme Foods', excluded)).toEqual([]);
+  });
+});
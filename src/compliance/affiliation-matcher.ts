@@ -0,0 +1,192 @@
+/**
+ * Fuzzy matching of profile employers and household affiliations against
+ * a contest's sponsor and the organizations named in its
+ * excluded-affiliation clause ("employees of X and their immediate
+ * families are not eligible").
+ *
+ * Organization names are compared after removing punctuation and
+ * corporate suffixes, so "Acme Foods, Inc." matches "ACME Foods LLC".
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Affiliation {
+  organization: string;
+  /** `self` for the profile's own employer, otherwise the household relationship. */
+  relationship: string;
+}
+
+export interface AffiliationMatch {
+  organization: string;
+  relationship: string;
+  /** The sponsor name or excluded-affiliation entry that matched. */
+  matchedAgainst: string;
+  source: 'sponsor' | 'rules';
+  similarity: number;
+  /**
+   * True when the names share only a common word ("American" in
+   * "American Express" and "American Airlines"), so a person has to
+   * decide whether they are the same organization.
+   */
+  ambiguous: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Minimum similarity (0-1) for two organization names to be treated as the same. */
+const MATCH_THRESHOLD = 0.85;
+
+/** Score for a name whose significant words are all contained in the other name. */
+const CONTAINMENT_SCORE = 0.9;
+
+/**
+ * Common words that appear in the names of many unrelated organizations.
+ * A match that rests on one of these alone is sent for review rather
+ * than blocked outright.
+ */
+const GENERIC_WORDS = new Set([
+  'american', 'america', 'national', 'united', 'first', 'general', 'global',
+  'international', 'premier', 'best', 'great', 'new', 'north', 'south',
+  'east', 'west', 'pacific', 'atlantic', 'central', 'standard',
+  'royal', 'star', 'home', 'health', 'foods', 'food', 'media', 'marketing',
+  'services', 'solutions', 'systems', 'brands', 'products', 'enterprises',
+  'industries', 'partners', 'bank', 'insurance', 'energy', 'sports',
+]);
+
+const CORPORATE_SUFFIXES = new Set([
+  'the', 'inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'corp',
+  'corporation', 'co', 'company', 'plc', 'group', 'holdings', 'usa', 'us',
+]);
+
+/** Parser placeholder entries that do not name an organization. */
+const GENERIC_EXCLUSIONS = new Set(['affiliates and subsidiaries']);
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns every affiliation that fuzzy-matches the sponsor or one of the
+ * excluded organizations. An excluded entry of just "Sponsor" refers to
+ * the contest sponsor.
+ */
+export function findAffiliationMatches(
+  affiliations: Affiliation[],
+  sponsor: string | null | undefined,
+  excluded: string[],
+): AffiliationMatch[] {
+  const targets: Array<{ name: string; source: 'sponsor' | 'rules' }> = [];
+
+  if (sponsor?.trim()) {
+    targets.push({ name: sponsor.trim(), source: 'sponsor' });
+  }
+  for (const entry of excluded) {
+    const normalized = normalizeOrganization(entry);
+    if (!normalized || GENERIC_EXCLUSIONS.has(entry.toLowerCase())) continue;
+    if (normalized === 'sponsor') continue; // covered by the sponsor target
+    targets.push({ name: entry, source: 'rules' });
+  }
+
+  const matches: AffiliationMatch[] = [];
+  for (const affiliation of affiliations) {
+    for (const target of targets) {
+      const { similarity, sharedWord } = compareOrganizations(
+        affiliation.organization,
+        target.name,
+      );
+      if (similarity >= MATCH_THRESHOLD) {
+        matches.push({
+          organization: affiliation.organization,
+          relationship: affiliation.relationship,
+          matchedAgainst: target.name,
+          source: target.source,
+          similarity,
+          ambiguous: sharedWord !== null && GENERIC_WORDS.has(sharedWord),
+        });
+        break; // one match per affiliation is enough to explain the block
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Similarity (0-1) between two organization names. Names whose
+ * significant words are all contained in the other score 0.9; otherwise
+ * the normalized Levenshtein ratio is used.
+ */
+export function organizationSimilarity(a: string, b: string): number {
+  return compareOrganizations(a, b).similarity;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Scores two organization names. `sharedWord` is set when the score
+ * rests on a single word of one name being contained in the other.
+ */
+function compareOrganizations(
+  a: string,
+  b: string,
+): { similarity: number; sharedWord: string | null } {
+  const na = normalizeOrganization(a);
+  const nb = normalizeOrganization(b);
+  if (!na || !nb) return { similarity: 0, sharedWord: null };
+  if (na === nb) return { similarity: 1, sharedWord: null };
+
+  const ta = new Set(na.split(' '));
+  const tb = new Set(nb.split(' '));
+  const [smaller, larger] = ta.size <= tb.size ? [ta, tb] : [tb, ta];
+  const contained = [...smaller].every((t) => larger.has(t));
+  if (contained && [...smaller].some((t) => t.length >= 3)) {
+    const [only] = smaller;
+    return {
+      similarity: CONTAINMENT_SCORE,
+      sharedWord: smaller.size === 1 ? (only ?? null) : null,
+    };
+  }
+
+  return {
+    similarity: 1 - levenshtein(na, nb) / Math.max(na.length, nb.length),
+    sharedWord: null,
+  };
+}
+
+function normalizeOrganization(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((t) => t.length > 0 && !CORPORATE_SUFFIXES.has(t))
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a.length > b.length) [a, b] = [b, a];
+
+  let prev = Array.from({ length: a.length + 1 }, (_, j) => j);
+  let curr = new Array<number>(a.length + 1).fill(0);
+
+  for (let i = 1; i <= b.length; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= a.length; j++) {
+      const cost = a[j - 1] === b[i - 1] ? 0 : 1;
+      curr[j] = Math.min(
+        (prev[j] ?? 0) + 1,
+        (curr[j - 1] ?? 0) + 1,
+        (prev[j - 1] ?? 0) + cost,
+      );
+    }
+    [prev, curr] = [curr, prev];
+  }
+
+  return prev[a.length] ?? 0;
+}
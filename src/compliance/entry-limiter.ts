@@ -4,13 +4,29 @@
  * Tracks how many times each profile has entered each contest, computes
  * when the next entry is eligible, and enforces maximum entry counts.
  * Uses the entry_limits table for persistence.
+ *
+ * Limits that the official rules share across a household or email
+ * address are checked against every profile in the same group.
  */
 
-import { eq, and, sql } from 'drizzle-orm';
-import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { eq, and, sql, inArray } from 'drizzle-orm';
 import { getLogger } from '../shared/logger.js';
 import { generateId } from '../shared/crypto.js';
-import { entryLimits, contests } from '../db/schema.js';
+import { entryLimits, contests, profiles } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import {
+  identityKeysFromRow,
+  findHouseholdMatches,
+  PROFILE_IDENTITY_COLUMNS,
+  type HouseholdMatch,
+} from './household.js';
+import type { EntryLimitScope } from './terms-parser.js';
+import {
+  computeNextEligible,
+  resetWindowOf,
+  DEFAULT_RESET_WINDOW,
+  type EntryFrequency,
+} from './entry-window.js';
 
 const logger = getLogger('compliance', { component: 'entry-limiter' });
 
@@ -18,23 +34,20 @@ const logger = getLogger('compliance', { component: 'entry-limiter' });
 // Types
 // ---------------------------------------------------------------------------
 
-type EntryFrequency = 'once' | 'daily' | 'weekly' | 'unlimited';
-
-// ---------------------------------------------------------------------------
-// Constants
-// ---------------------------------------------------------------------------
-
-/** Minimum delay between "unlimited" entries to avoid detection (5 minutes). */
-const UNLIMITED_RATE_LIMIT_MS = 5 * 60 * 1000;
+/** Another profile in the same group whose entry uses up the shared limit. */
+export interface HouseholdConflict extends HouseholdMatch {
+  entryCount: number;
+  lastEntryAt: string | null;
+}
 
 // ---------------------------------------------------------------------------
 // EntryLimiter
 // ---------------------------------------------------------------------------
 
 export class EntryLimiter {
-  private readonly db: BetterSQLite3Database;
+  private readonly db: AppDatabase;
 
-  constructor(db: BetterSQLite3Database) {
+  constructor(db: AppDatabase) {
     this.db = db;
   }
 
@@ -132,9 +145,105 @@ export class EntryLimiter {
     return true;
   }
 
+  /**
+   * Finds other profiles that share a household or email with the given
+   * profile (per `scopes`) and whose entries to the contest currently
+   * use up the shared limit.
+   *
+   * A grouped profile conflicts when it is still inside its own
+   * frequency window, or when the group's combined entry count has
+   * reached the contest's maxEntries.
+   */
+  async findHouseholdConflicts(
+    contestId: string,
+    profileId: string,
+    scopes: EntryLimitScope[],
+  ): Promise<HouseholdConflict[]> {
+    if (scopes.length === 0) {
+      return [];
+    }
+
+    // Only the identity columns: addresses are compared by their stored
+    // household key, so nothing is decrypted here
+    const profileRows = this.db.select(PROFILE_IDENTITY_COLUMNS).from(profiles).all();
+    const target = profileRows.find((row) => row.id === profileId);
+    if (!target) {
+      logger.warn({ profileId }, 'Profile not found for household check');
+      return [];
+    }
+
+    const matches = findHouseholdMatches(
+      identityKeysFromRow(target),
+      profileRows.map(identityKeysFromRow),
+      scopes,
+    );
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const contest = this.db
+      .select({ maxEntries: contests.maxEntries })
+      .from(contests)
+      .where(eq(contests.id, contestId))
+      .limit(1)
+      .all()[0];
+
+    const limitRows = this.db
+      .select()
+      .from(entryLimits)
+      .where(
+        and(
+          eq(entryLimits.contestId, contestId),
+          inArray(
+            entryLimits.profileId,
+            [profileId, ...matches.map((m) => m.profileId)],
+          ),
+        ),
+      )
+      .all();
+
+    const limitsByProfile = new Map(limitRows.map((row) => [row.profileId, row]));
+    const groupTotal = limitRows.reduce((sum, row) => sum + row.entryCount, 0);
+    const groupAtMax =
+      !!contest?.maxEntries && groupTotal >= contest.maxEntries;
+    const now = Date.now();
+
+    const conflicts: HouseholdConflict[] = [];
+    for (const match of matches) {
+      const limit = limitsByProfile.get(match.profileId);
+      if (!limit || limit.entryCount === 0) continue;
+
+      const inWindow =
+        !!limit.nextEligibleAt && new Date(limit.nextEligibleAt).getTime() > now;
+
+      if (inWindow || groupAtMax) {
+        conflicts.push({
+          ...match,
+          entryCount: limit.entryCount,
+          lastEntryAt: limit.lastEntryAt,
+        });
+      }
+    }
+
+    if (conflicts.length > 0) {
+      logger.debug(
+        {
+          contestId,
+          profileId,
+          scopes,
+          conflictingProfiles: conflicts.map((c) => c.profileId),
+        },
+        'Shared entry limit already used by grouped profile',
+      );
+    }
+
+    return conflicts;
+  }
+
   /**
    * Records that a profile has submitted an entry to a contest.
-   * Updates the entry count and computes the next eligible entry time.
+   * Updates the entry count and computes the next eligible entry time
+   * from the contest's frequency and reset window.
    *
    * Uses an atomic upsert (INSERT ... ON CONFLICT DO UPDATE) to prevent
    * the TOCTOU race condition where two concurrent workers could both
@@ -153,7 +262,8 @@ export class EntryLimiter {
 
     const contest = contestRows[0];
     const frequency = (contest?.entryFrequency ?? 'once') as EntryFrequency;
-    const nextEligibleAt = this.computeNextEligible(frequency);
+    const window = contest ? resetWindowOf(contest) : DEFAULT_RESET_WINDOW;
+    const nextEligibleAt = computeNextEligible(frequency, window);
 
     // Atomic upsert - prevents race condition between concurrent workers.
     // The unique index idx_entry_limits_contest_profile on (contestId, profileId)
@@ -181,47 +291,21 @@ export class EntryLimiter {
     logger.info({ contestId, profileId, nextEligibleAt }, 'Entry recorded');
   }
 
-  // ---------------------------------------------------------------------------
-  // Private helpers
-  // ---------------------------------------------------------------------------
-
   /**
-   * Computes the next_eligible_at timestamp based on the entry frequency.
+   * Gives back an entry recorded by `recordEntry` that did not count,
+   * e.g. one whose email or SMS verification failed: the entry count
+   * drops by one and the profile may enter again straight away.
    */
-  private computeNextEligible(frequency: EntryFrequency): string | null {
-    const now = new Date();
-
-    switch (frequency) {
-      case 'once':
-        // Never eligible again - return a far-future date
-        return new Date('2099-12-31T23:59:59.999Z').toISOString();
-
-      case 'daily': {
-        // Tomorrow at midnight UTC
-        const tomorrow = new Date(now);
-        tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-        tomorrow.setUTCHours(0, 0, 0, 0);
-        return tomorrow.toISOString();
-      }
-
-      case 'weekly': {
-        // Next week, same day, at midnight UTC
-        const nextWeek = new Date(now);
-        nextWeek.setUTCDate(nextWeek.getUTCDate() + 7);
-        nextWeek.setUTCHours(0, 0, 0, 0);
-        return nextWeek.toISOString();
-      }
-
-      case 'unlimited': {
-        // Rate-limited to prevent detection
-        const nextEligible = new Date(
-          now.getTime() + UNLIMITED_RATE_LIMIT_MS,
-        );
-        return nextEligible.toISOString();
-      }
+  releaseEntry(contestId: string, profileId: string): void {
+    this.db
+      .update(entryLimits)
+      .set({
+        entryCount: sql`max(${entryLimits.entryCount} - 1, 0)`,
+        nextEligibleAt: null,
+      })
+      .where(and(eq(entryLimits.contestId, contestId), eq(entryLimits.profileId, profileId)))
+      .run();
 
-      default:
-        return null;
-    }
+    logger.info({ contestId, profileId }, 'Entry released');
   }
 }
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeNextEligible,
+  DEFAULT_RESET_WINDOW,
+  nextResetAfter,
+  resetAtOrBefore,
+  resetWindowOf,
+  type ResetWindow,
+} from './entry-window.js';
+import { resolveTimeZone, toZonedDateTime, zonedTimeToUtc } from '../shared/timezone.js';
+
+const MIDNIGHT_ET: ResetWindow = { time: '00:00', timeZone: 'America/New_York' };
+const NOON_PT: ResetWindow = { time: '12:00', timeZone: 'America/Los_Angeles' };
+
+const at = (iso: string) => new Date(iso);
+const iso = (date: Date) => date.toISOString();
+
+describe('nextResetAfter', () => {
+  it('returns the reset later the same local day', () => {
+    expect(iso(nextResetAfter(at('2026-06-10T15:00:00Z'), NOON_PT))).toBe('2026-06-10T19:00:00.000Z');
+  });
+
+  it('moves to the next day once the reset has passed, and is strictly after', () => {
+    expect(iso(nextResetAfter(at('2026-06-10T19:00:00Z'), NOON_PT))).toBe('2026-06-11T19:00:00.000Z');
+  });
+
+  it('uses the local date, not the UTC date', () => {
+    // 02:00Z on the 11th is still the evening of the 10th in New York
+    expect(iso(nextResetAfter(at('2026-06-11T02:00:00Z'), MIDNIGHT_ET))).toBe('2026-06-11T04:00:00.000Z');
+  });
+
+  it('keeps the wall-clock reset across the spring-forward change', () => {
+    const beforeChange = nextResetAfter(at('2026-03-07T12:00:00Z'), MIDNIGHT_ET);
+    const afterChange = nextResetAfter(beforeChange, MIDNIGHT_ET);
+
+    expect(iso(beforeChange)).toBe('2026-03-08T05:00:00.000Z');
+    expect(iso(afterChange)).toBe('2026-03-09T04:00:00.000Z');
+    expect(afterChange.getTime() - beforeChange.getTime()).toBe(23 * 3_600_000);
+  });
+
+  it('keeps the wall-clock reset across the fall-back change', () => {
+    const beforeChange = nextResetAfter(at('2026-10-31T12:00:00Z'), MIDNIGHT_ET);
+    const afterChange = nextResetAfter(beforeChange, MIDNIGHT_ET);
+
+    expect(iso(beforeChange)).toBe('2026-11-01T04:00:00.000Z');
+    expect(iso(afterChange)).toBe('2026-11-02T05:00:00.000Z');
+    expect(afterChange.getTime() - beforeChange.getTime()).toBe(25 * 3_600_000);
+  });
+});
+
+describe('resetAtOrBefore', () => {
+  it('returns the reset itself when given the reset instant', () => {
+    expect(iso(resetAtOrBefore(at('2026-06-10T19:00:00Z'), NOON_PT))).toBe('2026-06-10T19:00:00.000Z');
+  });
+
+  it('returns the previous day\'s reset just before today\'s', () => {
+    expect(iso(resetAtOrBefore(at('2026-06-10T18:59:00Z'), NOON_PT))).toBe('2026-06-09T19:00:00.000Z');
+  });
+});
+
+describe('computeNextEligible', () => {
+  const now = at('2026-03-05T15:00:00Z');
+
+  it('makes daily contests eligible at the next reset', () => {
+    expect(computeNextEligible('daily', MIDNIGHT_ET, now)).toBe('2026-03-06T05:00:00.000Z');
+  });
+
+  it('makes weekly contests eligible at the start of the period a week on, across DST', () => {
+    expect(computeNextEligible('weekly', MIDNIGHT_ET, now)).toBe('2026-03-12T04:00:00.000Z');
+  });
+
+  it('rate-limits unlimited contests and never reopens once-only contests', () => {
+    expect(computeNextEligible('unlimited', MIDNIGHT_ET, now)).toBe('2026-03-05T15:05:00.000Z');
+    expect(computeNextEligible('once', MIDNIGHT_ET, now)).toBe('2099-12-31T23:59:59.999Z');
+  });
+});
+
+describe('resetWindowOf', () => {
+  it('falls back to midnight UTC without both reset columns', () => {
+    expect(resetWindowOf({ resetTime: '09:00', resetTimezone: null })).toBe(DEFAULT_RESET_WINDOW);
+    expect(resetWindowOf({ resetTime: '09:00', resetTimezone: 'America/Chicago' })).toEqual({
+      time: '09:00',
+      timeZone: 'America/Chicago',
+    });
+  });
+});
+
+describe('time zone conversion', () => {
+  it('resolves rule abbreviations to IANA zones', () => {
+    expect(resolveTimeZone('ET')).toBe('America/New_York');
+    expect(resolveTimeZone('Pacific Time')).toBe('America/Los_Angeles');
+    expect(resolveTimeZone('Europe/London')).toBe('Europe/London');
+    expect(resolveTimeZone('Mars Standard')).toBeNull();
+  });
+
+  it('resolves a repeated fall-back time to the earlier instant', () => {
+    const local = { year: 2026, month: 11, day: 1, hour: 1, minute: 30 };
+
+    expect(iso(zonedTimeToUtc(local, 'America/New_York'))).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('resolves a time in the spring-forward gap to an instant next to it', () => {
+    const local = { year: 2026, month: 3, day: 8, hour: 2, minute: 30 };
+    const instant = zonedTimeToUtc(local, 'America/New_York');
+
+    expect(iso(instant)).toBe('2026-03-08T06:30:00.000Z');
+    expect(toZonedDateTime(instant, 'America/New_York')).toMatchObject({ day: 8, hour: 1, minute: 30 });
+  });
+});
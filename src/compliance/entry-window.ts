@@ -0,0 +1,137 @@
+/**
+ * Per-contest entry windows.
+ *
+ * Daily and weekly contests start a new entry period at a reset time in
+ * the sponsor's time zone ("entries reset at 12:00 AM ET"). This module
+ * turns a contest's reset settings into concrete UTC instants, so the
+ * entry limiter records the right next-eligible time and the scheduler
+ * can place entries inside the window in which they count.
+ *
+ * Contests without a reset time keep the platform default of midnight UTC.
+ */
+
+import {
+  addLocalDays,
+  toZonedDateTime,
+  zonedTimeToUtc,
+  type ZonedDateTime,
+} from '../shared/timezone.js';
+import type { OfficialRules } from './terms-parser.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EntryFrequency = 'once' | 'daily' | 'weekly' | 'unlimited';
+
+/** When a contest's entry period rolls over. */
+export interface ResetWindow {
+  /** 24-hour "HH:MM" wall-clock time. */
+  time: string;
+  /** IANA time zone `time` is expressed in. */
+  timeZone: string;
+}
+
+/** The contest columns that hold a reset window. */
+export interface ResetColumns {
+  resetTime: string | null;
+  resetTimezone: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Used for contests whose rules state no reset time. */
+export const DEFAULT_RESET_WINDOW: ResetWindow = { time: '00:00', timeZone: 'UTC' };
+
+/** Minimum delay between "unlimited" entries to avoid detection (5 minutes). */
+const UNLIMITED_RATE_LIMIT_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Stored for once-only contests, which never become eligible again. */
+const NEVER = new Date('2099-12-31T23:59:59.999Z');
+
+// ---------------------------------------------------------------------------
+// Reset arithmetic
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the contest's reset window, or the default when none is set.
+ */
+export function resetWindowOf(contest: ResetColumns): ResetWindow {
+  if (!contest.resetTime || !contest.resetTimezone) {
+    return DEFAULT_RESET_WINDOW;
+  }
+  return { time: contest.resetTime, timeZone: contest.resetTimezone };
+}
+
+/**
+ * Returns the first reset strictly after `instant`.
+ */
+export function nextResetAfter(instant: Date, window: ResetWindow): Date {
+  const today = resetOn(toZonedDateTime(instant, window.timeZone), window);
+  if (today.getTime() > instant.getTime()) {
+    return today;
+  }
+  return resetOn(addLocalDays(toZonedDateTime(instant, window.timeZone), 1), window);
+}
+
+/**
+ * Returns the latest reset at or before `instant`, i.e. the start of the
+ * entry period `instant` falls in.
+ */
+export function resetAtOrBefore(instant: Date, window: ResetWindow): Date {
+  const today = resetOn(toZonedDateTime(instant, window.timeZone), window);
+  if (today.getTime() <= instant.getTime()) {
+    return today;
+  }
+  return resetOn(addLocalDays(toZonedDateTime(instant, window.timeZone), -1), window);
+}
+
+/**
+ * Computes when a profile may enter again after entering at `now`:
+ * - daily: the next reset
+ * - weekly: the start of the entry period seven days on
+ * - unlimited: a short rate-limit delay
+ * - once: never
+ */
+export function computeNextEligible(
+  frequency: EntryFrequency,
+  window: ResetWindow,
+  now: Date = new Date(),
+): string | null {
+  switch (frequency) {
+    case 'once':
+      return NEVER.toISOString();
+    case 'daily':
+      return nextResetAfter(now, window).toISOString();
+    case 'weekly':
+      return resetAtOrBefore(new Date(now.getTime() + 7 * DAY_MS), window).toISOString();
+    case 'unlimited':
+      return new Date(now.getTime() + UNLIMITED_RATE_LIMIT_MS).toISOString();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads the reset window the official rules state, in contest-column
+ * form. Returns null when the rules do not state one, including documents
+ * stored before the field existed.
+ */
+export function resetColumnsFromRules(rules: OfficialRules): ResetColumns | null {
+  const reset = rules.fields.entryReset?.value;
+  if (!reset) return null;
+  return { resetTime: reset.time, resetTimezone: reset.timeZone };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function resetOn(date: ZonedDateTime, window: ResetWindow): Date {
+  const [hour = 0, minute = 0] = window.time.split(':').map(Number);
+  return zonedTimeToUtc({ ...date, hour, minute }, window.timeZone);
+}
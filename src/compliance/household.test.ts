@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { closeDb, getDb } from '../db/index.js';
+import { migrate } from '../db/migrate.js';
+import { contests, profiles } from '../db/schema.js';
+import { encrypt } from '../shared/crypto.js';
+import { EntryLimiter } from './entry-limiter.js';
+import { backfillHouseholdKeys, householdKeyOf, refreshHouseholdKey } from './household.js';
+
+const ENCRYPTION_KEY = 'household-test-key';
+
+describe('household keys', () => {
+  function addProfile(id: string, email: string, addressLine1: string | null) {
+    getDb()
+      .insert(profiles)
+      .values({
+        id,
+        firstName: 'Pat',
+        lastName: id,
+        email,
+        addressLine1: addressLine1 === null ? null : encrypt(addressLine1),
+        city: 'Springfield',
+        state: 'IL',
+        zip: addressLine1 === null ? null : '62701',
+      })
+      .run();
+  }
+
+  function householdKey(id: string): string | null {
+    return getDb().select().from(profiles).where(eq(profiles.id, id)).get()?.householdKey ?? null;
+  }
+
+  beforeEach(() => {
+    vi.stubEnv('ENCRYPTION_KEY', ENCRYPTION_KEY);
+    closeDb();
+    migrate(':memory:');
+  });
+
+  afterEach(() => {
+    closeDb();
+    vi.unstubAllEnvs();
+  });
+
+  it('gives differently written copies of one address the same key', () => {
+    const key = householdKeyOf({
+      addressLine1: encrypt('123 Main Street'),
+      addressLine2: null,
+      city: 'Springfield',
+      state: 'IL',
+      zip: '62701',
+    });
+
+    expect(key).not.toBeNull();
+    expect(
+      householdKeyOf({ addressLine1: '123  main st', addressLine2: null, city: 'springfield', state: 'il', zip: '62701-1234' }),
+    ).toBe(key);
+    expect(householdKeyOf({ addressLine1: null, addressLine2: null, city: null, state: null, zip: null })).toBeNull();
+  });
+
+  it('backfills profiles saved without a key and leaves ones with no address alone', () => {
+    addProfile('a', 'a@example.com', '123 Main Street');
+    addProfile('b', 'b@example.com', null);
+
+    expect(backfillHouseholdKeys(getDb())).toBe(1);
+    expect(householdKey('a')).not.toBeNull();
+    expect(householdKey('b')).toBeNull();
+    expect(backfillHouseholdKeys(getDb())).toBe(0);
+  });
+
+  it('finds a profile at the same address once it has entered the contest', async () => {
+    getDb()
+      .insert(contests)
+      .values({ id: 'contest-1', externalId: 'contest-1', url: 'https://sweeps.example/1', title: 'Giveaway', type: 'sweepstakes', entryMethod: 'form' })
+      .run();
+    addProfile('a', 'a@example.com', '123 Main Street');
+    addProfile('b', 'b@example.com', '123 main st');
+    addProfile('c', 'c@example.com', '9 Elm Avenue');
+    for (const id of ['a', 'b', 'c']) refreshHouseholdKey(getDb(), id);
+
+    const limiter = new EntryLimiter(getDb());
+    await limiter.recordEntry('contest-1', 'b');
+    await limiter.recordEntry('contest-1', 'c');
+
+    expect(await limiter.findHouseholdConflicts('contest-1', 'a', ['household'])).toEqual([
+      expect.objectContaining({ profileId: 'b', matchedOn: ['address'], entryCount: 1 }),
+    ]);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Household and identity grouping for shared entry limits.
+ *
+ * Official rules often cap entries per household or per email address
+ * rather than per entrant. This module derives comparable identity keys
+ * from a profile (normalized mailing address, canonical mailbox, phone
+ * number) and finds other profiles that share them.
+ *
+ * Address lines are encrypted at rest, so the normalized address is
+ * stored on the profile as a keyed hash (`household_key`) whenever the
+ * profile is saved. Household checks compare that column and never
+ * decrypt other profiles' addresses.
+ */
+
+import { and, eq, isNotNull, isNull } from 'drizzle-orm';
+import { decrypt, keyedHash } from '../shared/crypto.js';
+import { getLogger } from '../shared/logger.js';
+import { validateAddress } from '../profile/address-validator.js';
+import { profiles } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import type { EntryLimitScope } from './terms-parser.js';
+
+const logger = getLogger('compliance', { component: 'household' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type IdentityMatch = 'address' | 'email' | 'phone';
+
+export interface IdentityKeys {
+  profileId: string;
+  name: string;
+  /** The profile's household key (see householdKeyOf). */
+  address: string | null;
+  emails: string[];
+  phone: string | null;
+}
+
+/** The profile columns identity keys are built from. */
+export type ProfileIdentityRow = Pick<
+  typeof profiles.$inferSelect,
+  'id' | 'firstName' | 'lastName' | 'email' | 'emailAliases' | 'phone' | 'householdKey'
+>;
+
+/** Selection of the columns in ProfileIdentityRow. */
+export const PROFILE_IDENTITY_COLUMNS = {
+  id: profiles.id,
+  firstName: profiles.firstName,
+  lastName: profiles.lastName,
+  email: profiles.email,
+  emailAliases: profiles.emailAliases,
+  phone: profiles.phone,
+  householdKey: profiles.householdKey,
+};
+
+export interface HouseholdMatch {
+  profileId: string;
+  name: string;
+  matchedOn: IdentityMatch[];
+}
+
+/** Profile fields the household key is derived from. */
+export const ADDRESS_FIELDS = ['addressLine1', 'addressLine2', 'city', 'state', 'zip'] as const;
+
+/**
+ * Which identity signals group profiles together for each scope. A shared
+ * mailbox or phone also indicates the same household.
+ */
+const SCOPE_SIGNALS: Record<EntryLimitScope, IdentityMatch[]> = {
+  household: ['address', 'email', 'phone'],
+  email: ['email'],
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds identity keys from a stored profile row. The address is the
+ * stored household key; nothing is decrypted.
+ */
+export function identityKeysFromRow(row: ProfileIdentityRow): IdentityKeys {
+  let aliases: string[] = [];
+  try {
+    aliases = JSON.parse(row.emailAliases ?? '[]') as string[];
+  } catch {
+    aliases = [];
+  }
+
+  const emails = [row.email, ...aliases]
+    .map(canonicalMailbox)
+    .filter((e): e is string => e !== null);
+
+  return {
+    profileId: row.id,
+    name: `${row.firstName} ${row.lastName}`,
+    address: row.householdKey,
+    emails: [...new Set(emails)],
+    phone: normalizePhone(row.phone),
+  };
+}
+
+/**
+ * Returns the profiles in `others` that share an identity signal with
+ * `target` under any of the given scopes.
+ */
+export function findHouseholdMatches(
+  target: IdentityKeys,
+  others: IdentityKeys[],
+  scopes: EntryLimitScope[],
+): HouseholdMatch[] {
+  const signals = new Set(scopes.flatMap((scope) => SCOPE_SIGNALS[scope]));
+  const matches: HouseholdMatch[] = [];
+
+  for (const other of others) {
+    if (other.profileId === target.profileId) continue;
+
+    const matchedOn: IdentityMatch[] = [];
+    if (
+      signals.has('address') &&
+      target.address !== null &&
+      target.address === other.address
+    ) {
+      matchedOn.push('address');
+    }
+    if (
+      signals.has('email') &&
+      target.emails.some((email) => other.emails.includes(email))
+    ) {
+      matchedOn.push('email');
+    }
+    if (
+      signals.has('phone') &&
+      target.phone !== null &&
+      target.phone === other.phone
+    ) {
+      matchedOn.push('phone');
+    }
+
+    if (matchedOn.length > 0) {
+      matches.push({ profileId: other.profileId, name: other.name, matchedOn });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * The household key for a stored profile row: a keyed hash of its
+ * normalized mailing address, or null when there is not enough of an
+ * address to compare.
+ */
+export function householdKeyOf(
+  row: Pick<typeof profiles.$inferSelect, 'addressLine1' | 'addressLine2' | 'city' | 'state' | 'zip'>,
+): string | null {
+  const address = normalizedAddress(
+    decryptOrRaw(row.addressLine1),
+    decryptOrRaw(row.addressLine2),
+    row.city,
+    row.state,
+    row.zip,
+  );
+  return address === null ? null : keyedHash(address);
+}
+
+/**
+ * Recomputes and stores a profile's household key. Call after any
+ * change to its address.
+ */
+export function refreshHouseholdKey(db: AppDatabase, profileId: string): void {
+  const row = db.select().from(profiles).where(eq(profiles.id, profileId)).get();
+  if (!row) return;
+
+  db.update(profiles)
+    .set({ householdKey: householdKeyOf(row) })
+    .where(eq(profiles.id, profileId))
+    .run();
+}
+
+/**
+ * Stores household keys for profiles saved before the column existed.
+ * Returns the number of profiles updated.
+ */
+export function backfillHouseholdKeys(db: AppDatabase): number {
+  const rows = db
+    .select()
+    .from(profiles)
+    .where(and(isNull(profiles.householdKey), isNotNull(profiles.addressLine1), isNotNull(profiles.zip)))
+    .all();
+
+  let updated = 0;
+  for (const row of rows) {
+    const householdKey = householdKeyOf(row);
+    if (householdKey === null) continue;
+
+    db.update(profiles).set({ householdKey }).where(eq(profiles.id, row.id)).run();
+    updated += 1;
+  }
+
+  if (updated > 0) {
+    logger.info({ updated }, 'Household keys backfilled');
+  }
+  return updated;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds a comparable address string from the normalized address, or
+ * null when there is not enough of an address to compare.
+ */
+function normalizedAddress(
+  line1: string | null,
+  line2: string | null,
+  city: string | null,
+  state: string | null,
+  zip: string | null,
+): string | null {
+  if (!line1 || !zip) {
+    return null;
+  }
+
+  const { normalized } = validateAddress({
+    line1,
+    line2: line2 ?? undefined,
+    city: city ?? '',
+    state: state ?? '',
+    zip,
+  });
+
+  return [
+    normalized.line1,
+    normalized.line2 ?? '',
+    normalized.city,
+    normalized.state,
+    normalized.zip.slice(0, 5),
+  ]
+    .join('|')
+    .toLowerCase();
+}
+
+/**
+ * Reduces an email address to the mailbox that receives it: lowercased,
+ * without a +tag, and for Gmail without dots in the local part.
+ */
+function canonicalMailbox(email: string | null | undefined): string | null {
+  const trimmed = email?.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  const atIndex = trimmed.lastIndexOf('@');
+  if (atIndex <= 0) return trimmed;
+
+  let local = trimmed.slice(0, atIndex).split('+')[0] ?? '';
+  let domain = trimmed.slice(atIndex + 1);
+
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+
+  return `${local}@${domain}`;
+}
+
+/** Keeps the last 10 digits so "+1 (555) 010-0000" and "5550100000" match. */
+function normalizePhone(phone: string | null): string | null {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+/** Address lines are encrypted at rest; legacy rows may be plaintext. */
+function decryptOrRaw(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    return decrypt(value);
+  } catch {
+    return value;
+  }
+}
@@ -2,7 +2,9 @@
  * Compliance module public API.
  *
  * Provides eligibility checking, age verification, geographic restriction
- * enforcement, entry limit tracking, terms parsing, and tax reporting.
+ * enforcement, entry limit tracking with per-contest reset windows, terms parsing with versioned rules
+ * storage, a human review queue for inconclusive decisions, and tax
+ * reporting.
  */
 
 export {
@@ -11,21 +13,105 @@ export {
   type Profile as ComplianceProfile,
   type ComplianceViolation,
   type ComplianceResult,
+  type ComplianceOutcome,
+  type ViolationSeverity,
+  type RuleEvidence,
 } from './rules-engine.js';
 
 export { verifyAge } from './age-verifier.js';
 
 export { checkGeoEligibility } from './geo-checker.js';
 
-export { EntryLimiter } from './entry-limiter.js';
+export {
+  findAffiliationMatches,
+  organizationSimilarity,
+  type Affiliation,
+  type AffiliationMatch,
+} from './affiliation-matcher.js';
+
+export { EntryLimiter, type HouseholdConflict } from './entry-limiter.js';
+
+export {
+  DEFAULT_RESET_WINDOW,
+  resetWindowOf,
+  nextResetAfter,
+  resetAtOrBefore,
+  computeNextEligible,
+  resetColumnsFromRules,
+  type ResetWindow,
+  type ResetColumns,
+} from './entry-window.js';
+
+export {
+  identityKeysFromRow,
+  findHouseholdMatches,
+  type IdentityKeys,
+  type IdentityMatch,
+  type HouseholdMatch,
+} from './household.js';
 
 export {
   TermsParser,
+  toParsedTerms,
+  RULES_SCHEMA_VERSION,
   type ParsedTerms,
+  type OfficialRules,
+  type OfficialRulesFields,
+  type RuleClause,
+  type ExtractionMethod,
+  type EntryLimitScope,
+  type EntryReset,
 } from './terms-parser.js';
 
+export {
+  RulesStore,
+  diffRules,
+  type StoredRules,
+  type SaveRulesResult,
+  type RuleFieldChange,
+} from './rules-store.js';
+
+export {
+  RulesChangeMonitor,
+  type RulesCheckStatus,
+  type RulesCheckResult,
+  type RulesCheckSummary,
+  type ProfileEligibilityChange,
+} from './rules-monitor.js';
+
+export {
+  ReviewQueue,
+  type ComplianceReview,
+  type ComplianceReviewListItem,
+  type ReviewStatus,
+  type ReviewDecision,
+  type ReviewListFilter,
+} from './review-queue.js';
+
 export {
   TaxTracker,
+  DEFAULT_TAX_RATES,
   type WinSummary,
   type TaxReport,
+  type TaxRates,
+  type TaxableWin,
+  type PayerTotal,
+  type ProfileTaxYear,
+  type StateTaxBreakdown,
+  type TaxYearSummary,
+  type WinTaxUpdate,
 } from './tax-tracker.js';
+
+export {
+  ContestSnapshotArchive,
+  SNAPSHOT_RETENTION_DAYS,
+  extractSnapshotText,
+  diffLines,
+  type ContestSnapshot,
+  type SnapshotReason,
+  type SnapshotFileKind,
+  type SnapshotCapture,
+  type SnapshotDiff,
+  type SnapshotPruneResult,
+  type TextDiffLine,
+} from './snapshot-archive.js';
@@ -0,0 +1,372 @@
+/**
+ * Human review queue for inconclusive compliance decisions.
+ *
+ * When the ComplianceEngine returns a `needs_review` outcome, the
+ * contest/profile pair is held here instead of being entered. A reviewer
+ * approves or rejects the pair with a reason, and that decision is
+ * remembered for later entries of the same pair as long as the set of
+ * rules that needed review does not change.
+ */
+
+import { eq, and, desc, count as countFn } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { generateId } from '../shared/crypto.js';
+import { eventBus } from '../shared/events.js';
+import { complianceReviews, contests, profiles } from '../db/schema.js';
+import { getAuditService } from '../analytics/audit-service.js';
+import type { AppDatabase } from '../db/index.js';
+import type { ComplianceResult, ComplianceViolation } from './rules-engine.js';
+
+const logger = getLogger('compliance', { component: 'review-queue' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export type ReviewDecision = 'approve' | 'reject';
+
+export interface ComplianceReview {
+  id: string;
+  contestId: string;
+  profileId: string;
+  status: ReviewStatus;
+  ruleKey: string;
+  violations: ComplianceViolation[];
+  reason: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ComplianceReviewListItem extends ComplianceReview {
+  contestTitle: string;
+  contestUrl: string;
+  profileName: string;
+}
+
+export interface ReviewListFilter {
+  status?: ReviewStatus;
+  contestId?: string;
+  profileId?: string;
+  page: number;
+  limit: number;
+}
+
+// ---------------------------------------------------------------------------
+// ReviewQueue
+// ---------------------------------------------------------------------------
+
+export class ReviewQueue {
+  private readonly db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Applies any remembered review decision to a compliance result.
+   *
+   * Results that do not need review are returned unchanged. Otherwise:
+   * - an approved decision for the same rules makes the pair eligible,
+   * - a rejected decision for the same rules blocks the pair,
+   * - anything else (re)queues the pair as pending and keeps the
+   *   `needs_review` outcome.
+   */
+  resolve(
+    contestId: string,
+    profileId: string,
+    result: ComplianceResult,
+  ): ComplianceResult {
+    if (result.outcome !== 'needs_review') {
+      return result;
+    }
+
+    const reviewViolations = result.violations.filter(
+      (v) => v.severity === 'review',
+    );
+    const ruleKey = buildRuleKey(reviewViolations);
+    const existing = this.findByPair(contestId, profileId);
+
+    if (existing && existing.ruleKey === ruleKey) {
+      if (existing.status === 'approved') {
+        logger.debug(
+          { contestId, profileId, reviewId: existing.id },
+          'Pair previously approved on review',
+        );
+        return { ...result, eligible: true, outcome: 'eligible' };
+      }
+
+      if (existing.status === 'rejected') {
+        logger.debug(
+          { contestId, profileId, reviewId: existing.id },
+          'Pair previously rejected on review',
+        );
+        return {
+          eligible: false,
+          outcome: 'blocked',
+          violations: [
+            ...result.violations,
+            {
+              rule: 'compliance_review',
+              message: `Rejected on review: ${existing.reason ?? 'no reason given'}`,
+              severity: 'block',
+            },
+          ],
+        };
+      }
+
+      // Still pending: refresh the stored violations for the reviewer.
+      this.db
+        .update(complianceReviews)
+        .set({
+          violations: JSON.stringify(result.violations),
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(complianceReviews.id, existing.id))
+        .run();
+
+      return result;
+    }
+
+    this.enqueue(contestId, profileId, ruleKey, result.violations, existing);
+    return result;
+  }
+
+  /**
+   * Returns the stored review for a contest/profile pair, if any.
+   */
+  findByPair(contestId: string, profileId: string): ComplianceReview | null {
+    const row = this.db
+      .select()
+      .from(complianceReviews)
+      .where(
+        and(
+          eq(complianceReviews.contestId, contestId),
+          eq(complianceReviews.profileId, profileId),
+        ),
+      )
+      .limit(1)
+      .all()[0];
+
+    return row ? toReview(row) : null;
+  }
+
+  /** Returns a review by ID, if it exists. */
+  get(id: string): ComplianceReview | null {
+    const row = this.db
+      .select()
+      .from(complianceReviews)
+      .where(eq(complianceReviews.id, id))
+      .limit(1)
+      .all()[0];
+
+    return row ? toReview(row) : null;
+  }
+
+  /**
+   * Lists reviews with contest and profile display fields, newest first.
+   */
+  list(filter: ReviewListFilter): {
+    items: ComplianceReviewListItem[];
+    total: number;
+  } {
+    const conditions: ReturnType<typeof eq>[] = [];
+    if (filter.status) {
+      conditions.push(eq(complianceReviews.status, filter.status));
+    }
+    if (filter.contestId) {
+      conditions.push(eq(complianceReviews.contestId, filter.contestId));
+    }
+    if (filter.profileId) {
+      conditions.push(eq(complianceReviews.profileId, filter.profileId));
+    }
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const rows = this.db
+      .select({
+        review: complianceReviews,
+        contestTitle: contests.title,
+        contestUrl: contests.url,
+        firstName: profiles.firstName,
+        lastName: profiles.lastName,
+      })
+      .from(complianceReviews)
+      .innerJoin(contests, eq(complianceReviews.contestId, contests.id))
+      .innerJoin(profiles, eq(complianceReviews.profileId, profiles.id))
+      .where(whereClause)
+      .orderBy(desc(complianceReviews.updatedAt))
+      .limit(filter.limit)
+      .offset((filter.page - 1) * filter.limit)
+      .all();
+
+    const total =
+      this.db
+        .select({ count: countFn() })
+        .from(complianceReviews)
+        .where(whereClause)
+        .all()[0]?.count ?? 0;
+
+    return {
+      items: rows.map((row) => ({
+        ...toReview(row.review),
+        contestTitle: row.contestTitle,
+        contestUrl: row.contestUrl,
+        profileName: `${row.firstName} ${row.lastName}`,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Records a reviewer's decision and writes it to the audit log.
+   * Returns the updated review, or null if it does not exist.
+   */
+  async decide(
+    id: string,
+    decision: ReviewDecision,
+    reason: string,
+  ): Promise<ComplianceReview | null> {
+    const existing = this.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const status: ReviewStatus =
+      decision === 'approve' ? 'approved' : 'rejected';
+    const now = new Date().toISOString();
+
+    this.db
+      .update(complianceReviews)
+      .set({ status, reason, decidedAt: now, updatedAt: now })
+      .where(eq(complianceReviews.id, id))
+      .run();
+
+    await getAuditService().record({
+      action:
+        status === 'approved'
+          ? 'compliance.review_approved'
+          : 'compliance.review_rejected',
+      entityType: 'compliance_review',
+      entityId: id,
+      profileId: existing.profileId,
+      details: {
+        contestId: existing.contestId,
+        profileId: existing.profileId,
+        previousStatus: existing.status,
+        rules: existing.ruleKey.split(','),
+        reason,
+      },
+    });
+
+    logger.info(
+      {
+        reviewId: id,
+        contestId: existing.contestId,
+        profileId: existing.profileId,
+        status,
+      },
+      'Compliance review decided',
+    );
+
+    eventBus.emit('compliance:review_decided', {
+      reviewId: id,
+      contestId: existing.contestId,
+      profileId: existing.profileId,
+      status,
+    });
+
+    return { ...existing, status, reason, decidedAt: now, updatedAt: now };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal
+  // ---------------------------------------------------------------------------
+
+  private enqueue(
+    contestId: string,
+    profileId: string,
+    ruleKey: string,
+    violations: ComplianceViolation[],
+    existing: ComplianceReview | null,
+  ): void {
+    const now = new Date().toISOString();
+    const id = existing?.id ?? generateId();
+
+    if (existing) {
+      // The rules needing review changed, so the old decision no longer applies.
+      this.db
+        .update(complianceReviews)
+        .set({
+          status: 'pending',
+          ruleKey,
+          violations: JSON.stringify(violations),
+          reason: null,
+          decidedAt: null,
+          updatedAt: now,
+        })
+        .where(eq(complianceReviews.id, id))
+        .run();
+    } else {
+      this.db
+        .insert(complianceReviews)
+        .values({
+          id,
+          contestId,
+          profileId,
+          status: 'pending',
+          ruleKey,
+          violations: JSON.stringify(violations),
+          createdAt: now,
+          updatedAt: now,
+        })
+        .run();
+    }
+
+    void getAuditService().record({
+      action: 'compliance.review_queued',
+      entityType: 'compliance_review',
+      entityId: id,
+      profileId,
+      details: { contestId, profileId, rules: ruleKey.split(',') },
+    });
+
+    logger.info(
+      { reviewId: id, contestId, profileId, rules: ruleKey },
+      'Contest/profile pair queued for compliance review',
+    );
+
+    eventBus.emit('compliance:review_required', {
+      reviewId: id,
+      contestId,
+      profileId,
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Stable identity for the set of rules that needed review. */
+function buildRuleKey(violations: ComplianceViolation[]): string {
+  return [...new Set(violations.map((v) => v.rule))].sort().join(',');
+}
+
+function toReview(
+  row: typeof complianceReviews.$inferSelect,
+): ComplianceReview {
+  return {
+    id: row.id,
+    contestId: row.contestId,
+    profileId: row.profileId,
+    status: row.status,
+    ruleKey: row.ruleKey,
+    violations: JSON.parse(row.violations) as ComplianceViolation[],
+    reason: row.reason,
+    decidedAt: row.decidedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -3,13 +3,23 @@
  *
  * Runs all eligibility checks (age, geographic, entry limits, exclusions)
  * against a contest/profile pair and returns a structured result with
- * any violations that would prevent or warn about entry.
+ * any violations that would prevent or warn about entry, or that need a
+ * human decision before the pair may be entered.
  */
 
 import { getLogger } from '../shared/logger.js';
 import { verifyAge } from './age-verifier.js';
 import { checkGeoEligibility } from './geo-checker.js';
+import {
+  findAffiliationMatches,
+  type Affiliation,
+} from './affiliation-matcher.js';
 import type { EntryLimiter } from './entry-limiter.js';
+import type {
+  OfficialRules,
+  OfficialRulesFields,
+  ExtractionMethod,
+} from './terms-parser.js';
 
 const logger = getLogger('compliance', { component: 'rules-engine' });
 
@@ -28,6 +38,12 @@ export interface Contest {
   endDate: string | null;
   requiresPurchase?: boolean;
   termsUrl: string | null;
+  sponsor?: string | null;
+  /**
+   * Optional parsed rules document. When present, violations derived
+   * from a rules field carry the clause that produced it as evidence.
+   */
+  rules?: OfficialRules | null;
 }
 
 export interface Profile {
@@ -35,16 +51,41 @@ export interface Profile {
   dateOfBirth: string | null;
   state: string | null;
   country: string;
+  employer?: string | null;
+  /** Organizations household members are connected to. */
+  affiliations?: Affiliation[];
 }
 
+/** The rules clause a violation was derived from. */
+export interface RuleEvidence {
+  field: keyof OfficialRulesFields;
+  sourceText: string | null;
+  confidence: number;
+  method: ExtractionMethod;
+}
+
+/**
+ * - `block`: the pair must not be entered.
+ * - `review`: the check was inconclusive; a human must approve the pair.
+ * - `warn`: informational, does not prevent entry.
+ */
+export type ViolationSeverity = 'block' | 'review' | 'warn';
+
+export type ComplianceOutcome = 'eligible' | 'needs_review' | 'blocked';
+
 export interface ComplianceViolation {
   rule: string;
   message: string;
-  severity: 'block' | 'warn';
+  severity: ViolationSeverity;
+  evidence?: RuleEvidence;
+  /** For shared-limit violations, the grouped profile that already entered. */
+  conflictingProfile?: { id: string; name: string };
 }
 
 export interface ComplianceResult {
+  /** True only when the outcome is `eligible`. */
   eligible: boolean;
+  outcome: ComplianceOutcome;
   violations: ComplianceViolation[];
 }
 
@@ -71,8 +112,9 @@ export class ComplianceEngine {
    *
    * Use `checkFullEligibility` for a complete check that includes entry limits.
    *
-   * A profile is ineligible if any violation has severity 'block'.
-   * Warnings do not prevent entry but should be logged.
+   * The outcome is `blocked` if any violation has severity 'block', and
+   * `needs_review` if any has severity 'review'. Warnings do not prevent
+   * entry but should be logged.
    */
   checkEligibility(contest: Contest, profile: Profile): ComplianceResult {
     const violations: ComplianceViolation[] = [];
@@ -92,6 +134,9 @@ export class ComplianceEngine {
     // 5. Missing profile data warnings
     this.checkProfileCompleteness(profile, contest, violations);
 
+    // 6. Sponsor / excluded-affiliation check
+    this.checkAffiliations(contest, profile, violations);
+
     return this.buildResult(contest.id, profile.id, violations);
   }
 
@@ -125,9 +170,15 @@ export class ComplianceEngine {
     // 5. Missing profile data warnings
     this.checkProfileCompleteness(profile, contest, violations);
 
-    // 6. Entry limit / frequency check (requires DB)
+    // 6. Sponsor / excluded-affiliation check
+    this.checkAffiliations(contest, profile, violations);
+
+    // 7. Entry limit / frequency check (requires DB)
     await this.checkEntryLimits(contest, profile, violations);
 
+    // 8. Household / per-email limit check (requires DB and parsed rules)
+    await this.checkHouseholdLimits(contest, profile, violations);
+
     return this.buildResult(contest.id, profile.id, violations);
   }
 
@@ -146,7 +197,7 @@ export class ComplianceEngine {
       violations.push({
         rule: 'age_verification',
         message: `Profile is missing date of birth. Minimum age for this contest is ${minAge}.`,
-        severity: 'warn',
+        severity: 'review',
       });
       return;
     }
@@ -156,6 +207,7 @@ export class ComplianceEngine {
         rule: 'age_verification',
         message: `Profile does not meet minimum age requirement of ${minAge}`,
         severity: 'block',
+        ...evidenceFor(contest, 'minAge'),
       });
     }
   }
@@ -199,6 +251,11 @@ export class ComplianceEngine {
         { contestId: contest.id, raw: contest.geoRestrictions },
         'Failed to parse geo restrictions',
       );
+      violations.push({
+        rule: 'geo_eligibility',
+        message: 'Contest geo restrictions could not be parsed',
+        severity: 'review',
+      });
       return;
     }
 
@@ -211,7 +268,7 @@ export class ComplianceEngine {
         rule: 'geo_eligibility',
         message:
           'Profile is missing state and country information for geo check',
-        severity: 'warn',
+        severity: 'review',
       });
       return;
     }
@@ -227,6 +284,7 @@ export class ComplianceEngine {
         rule: 'geo_eligibility',
         message: `Profile location (${profile.state ?? 'unknown'}, ${profile.country}) is not eligible for this contest`,
         severity: 'block',
+        ...evidenceFor(contest, 'geoRestrictions'),
       });
     }
   }
@@ -244,6 +302,7 @@ export class ComplianceEngine {
           rule: 'contest_dates',
           message: `Contest has not started yet. Start date: ${contest.startDate}`,
           severity: 'block',
+          ...evidenceFor(contest, 'startDate'),
         });
       }
     }
@@ -255,6 +314,7 @@ export class ComplianceEngine {
           rule: 'contest_dates',
           message: `Contest has ended. End date: ${contest.endDate}`,
           severity: 'block',
+          ...evidenceFor(contest, 'endDate'),
         });
       }
 
@@ -282,6 +342,54 @@ export class ComplianceEngine {
         rule: 'purchase_required',
         message: 'This contest requires a purchase for entry',
         severity: 'warn',
+        ...evidenceFor(contest, 'requiresPurchase'),
+      });
+    }
+  }
+
+  /**
+   * Blocks the profile when its employer, or an organization a household
+   * member is connected to, fuzzy-matches the contest sponsor or an
+   * organization named in the excluded-affiliation clause. Matches that
+   * rest on a single common word are sent for review instead.
+   */
+  private checkAffiliations(
+    contest: Contest,
+    profile: Profile,
+    violations: ComplianceViolation[],
+  ): void {
+    const affiliations: Affiliation[] = [
+      ...(profile.employer
+        ? [{ organization: profile.employer, relationship: 'self' }]
+        : []),
+      ...(profile.affiliations ?? []),
+    ];
+    if (affiliations.length === 0) {
+      return;
+    }
+
+    const matches = findAffiliationMatches(
+      affiliations,
+      contest.sponsor,
+      contest.rules?.fields.excludedAffiliations.value ?? [],
+    );
+
+    for (const match of matches) {
+      const who =
+        match.relationship === 'self'
+          ? 'Profile employer'
+          : `Profile ${match.relationship} affiliation`;
+      const verb = match.ambiguous ? 'may match' : 'matches';
+      violations.push({
+        rule: 'affiliation_exclusion',
+        message:
+          match.source === 'sponsor'
+            ? `${who} "${match.organization}" ${verb} contest sponsor "${match.matchedAgainst}"`
+            : `${who} "${match.organization}" ${verb} excluded affiliation "${match.matchedAgainst}"`,
+        severity: match.ambiguous ? 'review' : 'block',
+        ...(match.source === 'rules'
+          ? evidenceFor(contest, 'excludedAffiliations')
+          : {}),
       });
     }
   }
@@ -336,7 +444,7 @@ export class ComplianceEngine {
       }
     } catch (error) {
       // Entry limit check failure should not crash the compliance pipeline.
-      // Log and add a warning so the caller knows the check was inconclusive.
+      // Log and flag the pair for review since the check was inconclusive.
       const msg =
         error instanceof Error ? error.message : String(error);
       logger.error(
@@ -346,7 +454,54 @@ export class ComplianceEngine {
       violations.push({
         rule: 'entry_limits',
         message: `Entry limit check failed: ${msg}`,
-        severity: 'warn',
+        severity: 'review',
+      });
+    }
+  }
+
+  /**
+   * When the parsed rules limit entries per household or email address,
+   * blocks the profile if another profile in the same group has already
+   * used the shared limit. Only runs with an EntryLimiter and a rules
+   * document.
+   */
+  private async checkHouseholdLimits(
+    contest: Contest,
+    profile: Profile,
+    violations: ComplianceViolation[],
+  ): Promise<void> {
+    const scopes = contest.rules?.fields.entryLimitScopes?.value ?? [];
+    if (!this.entryLimiter || scopes.length === 0) {
+      return;
+    }
+
+    try {
+      const conflicts = await this.entryLimiter.findHouseholdConflicts(
+        contest.id,
+        profile.id,
+        scopes,
+      );
+
+      for (const conflict of conflicts) {
+        violations.push({
+          rule: 'household_limit',
+          message: `Entry limit is shared per ${scopes.join('/')} and ${conflict.name} (matched on ${conflict.matchedOn.join(', ')}) has already entered`,
+          severity: 'block',
+          conflictingProfile: { id: conflict.profileId, name: conflict.name },
+          ...evidenceFor(contest, 'entryLimitScopes'),
+        });
+      }
+    } catch (error) {
+      const msg =
+        error instanceof Error ? error.message : String(error);
+      logger.error(
+        { contestId: contest.id, profileId: profile.id, error: msg },
+        'Household limit check failed',
+      );
+      violations.push({
+        rule: 'household_limit',
+        message: `Household limit check failed: ${msg}`,
+        severity: 'review',
       });
     }
   }
@@ -360,12 +515,17 @@ export class ComplianceEngine {
     profileId: string,
     violations: ComplianceViolation[],
   ): ComplianceResult {
-    const hasBlockingViolation = violations.some(
+    const outcome: ComplianceOutcome = violations.some(
       (v) => v.severity === 'block',
-    );
+    )
+      ? 'blocked'
+      : violations.some((v) => v.severity === 'review')
+        ? 'needs_review'
+        : 'eligible';
 
     const result: ComplianceResult = {
-      eligible: !hasBlockingViolation,
+      eligible: outcome === 'eligible',
+      outcome,
       violations,
     };
 
@@ -374,10 +534,12 @@ export class ComplianceEngine {
         {
           contestId,
           profileId,
-          eligible: result.eligible,
+          outcome,
           violationCount: violations.length,
           blockCount: violations.filter((v) => v.severity === 'block')
             .length,
+          reviewCount: violations.filter((v) => v.severity === 'review')
+            .length,
           warnCount: violations.filter((v) => v.severity === 'warn')
             .length,
         },
@@ -393,3 +555,31 @@ export class ComplianceEngine {
     return result;
   }
 }
+
+// ---------------------------------------------------------------------------
+// Module helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns `{ evidence }` for the given rules field when the contest
+ * carries a parsed rules document and the field was actually extracted
+ * (not defaulted), or an empty object otherwise.
+ */
+function evidenceFor(
+  contest: Contest,
+  field: keyof OfficialRulesFields,
+): { evidence?: RuleEvidence } {
+  const clause = contest.rules?.fields[field];
+  if (!clause || clause.method === 'default') {
+    return {};
+  }
+
+  return {
+    evidence: {
+      field,
+      sourceText: clause.sourceText,
+      confidence: clause.confidence,
+      method: clause.method,
+    },
+  };
+}
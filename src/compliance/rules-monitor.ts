@@ -0,0 +1,470 @@
+/**
+ * Official-rules change monitoring.
+ *
+ * Sponsors amend end dates, eligible states and prize terms mid-campaign.
+ * For contests whose rules were already parsed, the terms page is fetched
+ * again and stored as a new revision when its text changed. Contest
+ * columns derived from the rules are updated, compliance is re-evaluated
+ * for every profile still entering the contest, and the contest is paused
+ * (with a notification) when any profile's eligibility changed.
+ */
+
+import { eq, and, inArray, isNotNull } from 'drizzle-orm';
+import { contests, contestRules, entries, profiles } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import { getLogger } from '../shared/logger.js';
+import { eventBus } from '../shared/events.js';
+import { AppError } from '../shared/errors.js';
+import { sleep } from '../shared/timing.js';
+import { getAuditService } from '../analytics/audit-service.js';
+import { PrizeTableStore } from '../intelligence/prize-table.js';
+import { NotificationManager } from '../notification/notification-manager.js';
+import { ComplianceEngine, type ComplianceOutcome, type Contest, type Profile } from './rules-engine.js';
+import { RulesStore, type RuleFieldChange } from './rules-store.js';
+import { TermsParser, type OfficialRules } from './terms-parser.js';
+import { resetColumnsFromRules } from './entry-window.js';
+import type { Affiliation } from './affiliation-matcher.js';
+
+const logger = getLogger('compliance', { component: 'rules-monitor' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RulesCheckStatus = 'unchanged' | 'changed' | 'failed' | 'skipped';
+
+export interface ProfileEligibilityChange {
+  profileId: string;
+  profileName: string;
+  before: ComplianceOutcome;
+  after: ComplianceOutcome;
+  /** Rules that block or hold the profile under the new rules. */
+  rules: string[];
+}
+
+export interface RulesCheckResult {
+  contestId: string;
+  status: RulesCheckStatus;
+  version: number | null;
+  changes: RuleFieldChange[];
+  eligibilityChanges: ProfileEligibilityChange[];
+  paused: boolean;
+  error?: string;
+}
+
+export interface RulesCheckSummary {
+  checked: number;
+  changed: number;
+  paused: number;
+  failed: number;
+  results: RulesCheckResult[];
+}
+
+type ContestRow = typeof contests.$inferSelect;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Contest statuses whose rules are still worth watching. */
+const MONITORED_STATUSES: ContestRow['status'][] = ['discovered', 'queued', 'active'];
+
+/** Entry frequencies that keep a profile entering the same contest. */
+const RECURRING_FREQUENCIES = ['daily', 'weekly', 'unlimited'];
+
+const ENTRY_FREQUENCIES = ['once', 'daily', 'weekly', 'unlimited'] as const;
+
+/** Pause between terms-page fetches during a full check. */
+const FETCH_SPACING_MS = 2_000;
+
+// ---------------------------------------------------------------------------
+// RulesChangeMonitor
+// ---------------------------------------------------------------------------
+
+export class RulesChangeMonitor {
+  private readonly db: AppDatabase;
+  private readonly parser: TermsParser;
+  private readonly store: RulesStore;
+  private notificationManager: NotificationManager | null;
+
+  constructor(
+    db: AppDatabase,
+    options?: { parser?: TermsParser; notificationManager?: NotificationManager },
+  ) {
+    this.db = db;
+    this.parser = options?.parser ?? new TermsParser();
+    this.store = new RulesStore(db);
+    this.notificationManager = options?.notificationManager ?? null;
+  }
+
+  /**
+   * Re-checks every monitored contest that has at least one stored rules
+   * revision. Contests are fetched one at a time.
+   */
+  async checkAll(): Promise<RulesCheckSummary> {
+    const parsedContestIds = this.db
+      .selectDistinct({ contestId: contestRules.contestId })
+      .from(contestRules);
+
+    const targets = this.db
+      .select({ id: contests.id })
+      .from(contests)
+      .where(
+        and(
+          isNotNull(contests.termsUrl),
+          inArray(contests.status, MONITORED_STATUSES),
+          inArray(contests.id, parsedContestIds),
+        ),
+      )
+      .all();
+
+    const results: RulesCheckResult[] = [];
+    for (const [index, target] of targets.entries()) {
+      if (index > 0) await sleep(FETCH_SPACING_MS);
+      results.push(await this.checkContest(target.id));
+    }
+
+    const summary: RulesCheckSummary = {
+      checked: results.length,
+      changed: results.filter((r) => r.status === 'changed').length,
+      paused: results.filter((r) => r.paused).length,
+      failed: results.filter((r) => r.status === 'failed').length,
+      results,
+    };
+
+    logger.info(
+      { checked: summary.checked, changed: summary.changed, paused: summary.paused, failed: summary.failed },
+      'Rules change check completed',
+    );
+    return summary;
+  }
+
+  /**
+   * Re-fetches a contest's official rules and applies any changes.
+   */
+  async checkContest(contestId: string): Promise<RulesCheckResult> {
+    const contest = this.db.select().from(contests).where(eq(contests.id, contestId)).get();
+    if (!contest) {
+      throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+    }
+
+    const result: RulesCheckResult = {
+      contestId,
+      status: 'skipped',
+      version: null,
+      changes: [],
+      eligibilityChanges: [],
+      paused: false,
+    };
+
+    const previous = this.store.getLatest(contestId);
+    if (!contest.termsUrl || !previous) {
+      return result;
+    }
+
+    let rules: OfficialRules;
+    try {
+      rules = await this.parser.parseRules(contest.termsUrl);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn({ contestId, termsUrl: contest.termsUrl, err: error }, 'Rules re-check failed');
+      return { ...result, status: 'failed', version: previous.version, error: message };
+    }
+
+    const { stored, created } = this.store.save(contestId, rules);
+    result.version = stored.version;
+
+    if (!created || stored.changes.length === 0) {
+      return { ...result, status: 'unchanged' };
+    }
+
+    result.status = 'changed';
+    result.changes = stored.changes;
+
+    const updated = this.syncContest(contest, stored.changes, rules);
+    result.eligibilityChanges = this.compareEligibility(
+      toComplianceContest(contest, previous.rules),
+      toComplianceContest(updated, rules),
+    );
+
+    await getAuditService().record({
+      action: 'contest.rules_changed',
+      entityType: 'contest',
+      entityId: contestId,
+      details: {
+        version: stored.version,
+        changes: stored.changes,
+        eligibilityChanges: result.eligibilityChanges,
+      },
+    });
+
+    if (result.eligibilityChanges.length > 0 && !contest.pausedAt) {
+      await this.pause(updated, stored.version, stored.changes, result.eligibilityChanges);
+      result.paused = true;
+    }
+
+    eventBus.emit('contest:rules_changed', {
+      contestId,
+      version: stored.version,
+      changedFields: stored.changes.map((c) => c.field),
+      eligibilityChanged: result.eligibilityChanges.length > 0,
+    });
+
+    logger.info(
+      {
+        contestId,
+        version: stored.version,
+        changedFields: stored.changes.map((c) => c.field),
+        eligibilityChanges: result.eligibilityChanges.length,
+        paused: result.paused,
+      },
+      'Official rules changed',
+    );
+
+    return result;
+  }
+
+  /**
+   * Clears a rules-change pause so the contest is scheduled again.
+   */
+  async resume(contestId: string): Promise<void> {
+    const contest = this.db
+      .select({ id: contests.id, pausedAt: contests.pausedAt, pauseReason: contests.pauseReason })
+      .from(contests)
+      .where(eq(contests.id, contestId))
+      .get();
+
+    if (!contest) {
+      throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+    }
+    if (!contest.pausedAt) {
+      throw new AppError('Contest is not paused', 'CONTEST_NOT_PAUSED', 409);
+    }
+
+    this.db
+      .update(contests)
+      .set({ pausedAt: null, pauseReason: null, updatedAt: new Date().toISOString() })
+      .where(eq(contests.id, contestId))
+      .run();
+
+    await getAuditService().record({
+      action: 'contest.resumed',
+      entityType: 'contest',
+      entityId: contestId,
+      details: { pausedAt: contest.pausedAt, pauseReason: contest.pauseReason },
+    });
+
+    logger.info({ contestId }, 'Contest resumed');
+  }
+
+  // -------------------------------------------------------------------------
+  // Private
+  // -------------------------------------------------------------------------
+
+  /**
+   * Copies changed rule values onto the contest's own columns. Values the
+   * parser fell back to a default for are not copied, so a page that
+   * failed to parse cleanly does not erase known dates or restrictions.
+   */
+  private syncContest(contest: ContestRow, changes: RuleFieldChange[], rules: OfficialRules): ContestRow {
+    const { fields } = rules;
+    const update: Partial<ContestRow> = {};
+
+    for (const { field } of changes) {
+      if (fields[field].method === 'default') continue;
+
+      switch (field) {
+        case 'minAge':
+          update.ageRequirement = fields.minAge.value;
+          break;
+        case 'geoRestrictions':
+          update.geoRestrictions = JSON.stringify(fields.geoRestrictions.value);
+          break;
+        case 'entryFrequency': {
+          const frequency = ENTRY_FREQUENCIES.find((f) => f === fields.entryFrequency.value);
+          if (frequency) update.entryFrequency = frequency;
+          break;
+        }
+        case 'maxEntries':
+          update.maxEntries = fields.maxEntries.value;
+          break;
+        case 'startDate':
+          update.startDate = fields.startDate.value;
+          break;
+        case 'endDate':
+          update.endDate = fields.endDate.value;
+          break;
+        case 'prizes':
+          // Written to contest_prizes; the store refreshes the prize columns.
+          new PrizeTableStore(this.db).replace(contest.id, fields.prizes.value, 'rules');
+          break;
+        case 'entryReset': {
+          // A reset time set by hand outranks the rules.
+          const reset = resetColumnsFromRules(rules);
+          if (reset && contest.resetSource !== 'manual') {
+            Object.assign(update, reset, { resetSource: 'rules' });
+          }
+          break;
+        }
+        default:
+          // Remaining fields are only read from the rules document.
+          break;
+      }
+    }
+
+    if (Object.keys(update).length === 0) {
+      return contest;
+    }
+
+    update.updatedAt = new Date().toISOString();
+    this.db.update(contests).set(update).where(eq(contests.id, contest.id)).run();
+    return { ...contest, ...update };
+  }
+
+  /**
+   * Evaluates each profile still entering the contest under the old and
+   * new rules and returns the profiles whose outcome differs.
+   */
+  private compareEligibility(before: Contest, after: Contest): ProfileEligibilityChange[] {
+    const engine = new ComplianceEngine();
+    const changes: ProfileEligibilityChange[] = [];
+
+    for (const { profile, name } of this.loadEnteringProfiles(after)) {
+      const previous = engine.checkEligibility(before, profile);
+      const next = engine.checkEligibility(after, profile);
+
+      if (previous.outcome !== next.outcome) {
+        changes.push({
+          profileId: profile.id,
+          profileName: name,
+          before: previous.outcome,
+          after: next.outcome,
+          rules: next.violations.filter((v) => v.severity !== 'warn').map((v) => v.rule),
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Active profiles with pending entries for the contest, plus every
+   * active profile that has entered it when the contest allows repeat
+   * entries (those are re-queued by the recurring scheduler).
+   */
+  private loadEnteringProfiles(contest: Contest): Array<{ profile: Profile; name: string }> {
+    const recurring = RECURRING_FREQUENCIES.includes(contest.entryFrequency ?? 'once');
+
+    const rows = this.db
+      .selectDistinct({
+        id: profiles.id,
+        firstName: profiles.firstName,
+        lastName: profiles.lastName,
+        dateOfBirth: profiles.dateOfBirth,
+        state: profiles.state,
+        country: profiles.country,
+        employer: profiles.employer,
+        affiliations: profiles.affiliations,
+      })
+      .from(entries)
+      .innerJoin(profiles, eq(entries.profileId, profiles.id))
+      .where(
+        and(
+          eq(entries.contestId, contest.id),
+          eq(profiles.isActive, 1),
+          recurring ? undefined : eq(entries.status, 'pending'),
+        ),
+      )
+      .all();
+
+    return rows.map((row) => ({
+      name: `${row.firstName} ${row.lastName}`,
+      profile: {
+        id: row.id,
+        dateOfBirth: row.dateOfBirth,
+        state: row.state,
+        country: row.country,
+        employer: row.employer,
+        affiliations: JSON.parse(row.affiliations ?? '[]') as Affiliation[],
+      },
+    }));
+  }
+
+  private async pause(
+    contest: ContestRow,
+    version: number,
+    changes: RuleFieldChange[],
+    eligibilityChanges: ProfileEligibilityChange[],
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const reason = `Official rules changed (v${version}: ${changes.map((c) => c.field).join(', ')}); eligibility changed for ${eligibilityChanges.length} profile(s)`;
+
+    this.db
+      .update(contests)
+      .set({ pausedAt: now, pauseReason: reason, updatedAt: now })
+      .where(eq(contests.id, contest.id))
+      .run();
+
+    await getAuditService().record({
+      action: 'contest.paused',
+      entityType: 'contest',
+      entityId: contest.id,
+      details: { reason, version },
+    });
+
+    eventBus.emit('contest:paused', { contestId: contest.id, reason });
+
+    if (!this.notificationManager) {
+      this.notificationManager = new NotificationManager();
+      this.notificationManager.initialize();
+    }
+
+    try {
+      await this.notificationManager.notify({
+        type: 'info',
+        title: `Contest paused: ${contest.title}`,
+        message: [
+          `The official rules for "${contest.title}" changed (revision ${version}).`,
+          ...changes.map((c) => `- ${c.field}: ${formatValue(c.before)} → ${formatValue(c.after)}`),
+          '',
+          'Eligibility changed for:',
+          ...eligibilityChanges.map((e) => `- ${e.profileName}: ${e.before} → ${e.after}`),
+          '',
+          'Entries are paused until the contest is resumed.',
+        ].join('\n'),
+        data: { contestId: contest.id, version, changedFields: changes.map((c) => c.field) },
+        priority: 'high',
+        timestamp: now,
+      });
+    } catch (error) {
+      logger.error({ err: error, contestId: contest.id }, 'Failed to send rules-change notification');
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toComplianceContest(row: ContestRow, rules: OfficialRules): Contest {
+  return {
+    id: row.id,
+    title: row.title,
+    ageRequirement: row.ageRequirement,
+    geoRestrictions: row.geoRestrictions ?? '{}',
+    entryFrequency: row.entryFrequency,
+    maxEntries: row.maxEntries,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    requiresPurchase: rules.fields.requiresPurchase.value,
+    termsUrl: row.termsUrl,
+    sponsor: row.sponsor,
+    rules,
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'none';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  return String(value);
+}
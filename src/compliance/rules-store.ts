@@ -0,0 +1,230 @@
+/**
+ * Versioned storage for parsed official-rules documents.
+ *
+ * Each successful parse of a contest's terms page is stored as a
+ * revision in the contest_rules table. A new revision is only written
+ * when the normalized rules text changes, so the revision history
+ * mirrors actual amendments to the official rules. Each revision records
+ * which extracted fields differ from the one before it.
+ */
+
+import { eq, and, desc } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { generateId } from '../shared/crypto.js';
+import { contestRules } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import type { OfficialRules, OfficialRulesFields } from './terms-parser.js';
+
+const logger = getLogger('compliance', { component: 'rules-store' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** An extracted field whose value differs between two revisions. */
+export interface RuleFieldChange {
+  field: keyof OfficialRulesFields;
+  before: unknown;
+  after: unknown;
+  /** Sentence of the new rules text the new value was read from. */
+  sourceText: string | null;
+}
+
+export interface StoredRules {
+  id: string;
+  contestId: string;
+  version: number;
+  termsUrl: string;
+  contentHash: string;
+  createdAt: string;
+  /** Field changes against the previous revision (empty for version 1). */
+  changes: RuleFieldChange[];
+  rules: OfficialRules;
+}
+
+export interface SaveRulesResult {
+  stored: StoredRules;
+  /** False when the rules text was unchanged and no revision was written. */
+  created: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// RulesStore
+// ---------------------------------------------------------------------------
+
+export class RulesStore {
+  private readonly db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Stores a parsed rules document for a contest. If the latest stored
+   * revision has the same content hash, it is returned unchanged.
+   */
+  save(contestId: string, rules: OfficialRules): SaveRulesResult {
+    const latest = this.getLatest(contestId);
+
+    if (latest && latest.contentHash === rules.contentHash) {
+      logger.debug(
+        { contestId, version: latest.version },
+        'Rules text unchanged, keeping current revision',
+      );
+      return { stored: latest, created: false };
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+    const id = generateId();
+    const createdAt = new Date().toISOString();
+    const changes = latest ? diffRules(latest.rules, rules) : [];
+
+    this.db
+      .insert(contestRules)
+      .values({
+        id,
+        contestId,
+        version,
+        termsUrl: rules.termsUrl,
+        contentHash: rules.contentHash,
+        schemaVersion: rules.schemaVersion,
+        document: JSON.stringify(rules),
+        changes: JSON.stringify(changes),
+        createdAt,
+      })
+      .run();
+
+    logger.info(
+      { contestId, version, changedFields: changes.map((c) => c.field) },
+      'Stored new rules revision',
+    );
+
+    return {
+      stored: {
+        id,
+        contestId,
+        version,
+        termsUrl: rules.termsUrl,
+        contentHash: rules.contentHash,
+        createdAt,
+        changes,
+        rules,
+      },
+      created: true,
+    };
+  }
+
+  /** Returns the most recent rules revision for a contest, if any. */
+  getLatest(contestId: string): StoredRules | null {
+    const row = this.db
+      .select()
+      .from(contestRules)
+      .where(eq(contestRules.contestId, contestId))
+      .orderBy(desc(contestRules.version))
+      .limit(1)
+      .all()[0];
+
+    return row ? toStoredRules(row) : null;
+  }
+
+  /** Returns a specific rules revision for a contest, if it exists. */
+  getVersion(contestId: string, version: number): StoredRules | null {
+    const row = this.db
+      .select()
+      .from(contestRules)
+      .where(
+        and(
+          eq(contestRules.contestId, contestId),
+          eq(contestRules.version, version),
+        ),
+      )
+      .limit(1)
+      .all()[0];
+
+    return row ? toStoredRules(row) : null;
+  }
+
+  /** Lists all revisions for a contest, newest first, without documents. */
+  listVersions(
+    contestId: string,
+  ): Array<Omit<StoredRules, 'rules'>> {
+    return this.db
+      .select({
+        id: contestRules.id,
+        contestId: contestRules.contestId,
+        version: contestRules.version,
+        termsUrl: contestRules.termsUrl,
+        contentHash: contestRules.contentHash,
+        createdAt: contestRules.createdAt,
+        changes: contestRules.changes,
+      })
+      .from(contestRules)
+      .where(eq(contestRules.contestId, contestId))
+      .orderBy(desc(contestRules.version))
+      .all()
+      .map((row) => ({ ...row, changes: parseChanges(row.changes) }));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+/**
+ * Compares the extracted field values of two rules documents. Only values
+ * are compared; a reworded sentence that yields the same value is not a
+ * change.
+ */
+export function diffRules(previous: OfficialRules, next: OfficialRules): RuleFieldChange[] {
+  const changes: RuleFieldChange[] = [];
+  const fields = Object.keys(next.fields) as Array<keyof OfficialRulesFields>;
+
+  for (const field of fields) {
+    const after = next.fields[field];
+    // Fields added in a later schema version are absent from old documents.
+    const before = previous.fields[field] as OfficialRulesFields[typeof field] | undefined;
+
+    if (!before || !sameValue(before.value, after.value)) {
+      changes.push({
+        field,
+        before: before?.value ?? null,
+        after: after.value,
+        sourceText: after.sourceText,
+      });
+    }
+  }
+
+  return changes;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return JSON.stringify([...a].sort()) === JSON.stringify([...b].sort());
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function parseChanges(raw: string): RuleFieldChange[] {
+  try {
+    return JSON.parse(raw) as RuleFieldChange[];
+  } catch {
+    return [];
+  }
+}
+
+function toStoredRules(row: typeof contestRules.$inferSelect): StoredRules {
+  return {
+    id: row.id,
+    contestId: row.contestId,
+    version: row.version,
+    termsUrl: row.termsUrl,
+    contentHash: row.contentHash,
+    createdAt: row.createdAt,
+    changes: parseChanges(row.changes),
+    rules: JSON.parse(row.document) as OfficialRules,
+  };
+}
@@ -0,0 +1,479 @@
+/**
+ * Contest page snapshot archive.
+ *
+ * Keeps timestamped copies of a contest page (raw HTML, extracted text
+ * and, when a browser was involved, a full-page screenshot) so there is
+ * evidence of what the page said if a sponsor later disputes an entry.
+ * Snapshots are taken when a contest is discovered, when it is first
+ * entered, and whenever the ChangeDetector flags a layout change.
+ *
+ * Files live under `data/snapshots/{contestId}/`, away from the
+ * screenshots directory that is emptied after 30 days. Snapshots older
+ * than the retention period are pruned, except for contests with a win.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import * as cheerio from 'cheerio';
+import { and, asc, desc, eq, inArray, lt } from 'drizzle-orm';
+import { contestSnapshots, wins } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import { getLogger } from '../shared/logger.js';
+import { AppError } from '../shared/errors.js';
+import { PATHS, USER_AGENTS } from '../shared/constants.js';
+import { pickRandom } from '../shared/utils.js';
+import { generateId, hashForDedup } from '../shared/crypto.js';
+import { httpClient } from '../discovery/http-client.js';
+import type { Page } from '../entry/types.js';
+
+const logger = getLogger('compliance', { component: 'snapshot-archive' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SnapshotReason = 'discovery' | 'first_entry' | 'change';
+
+export type SnapshotFileKind = 'html' | 'text' | 'screenshot';
+
+export interface ContestSnapshot {
+  id: string;
+  contestId: string;
+  reason: SnapshotReason;
+  url: string;
+  entryId: string | null;
+  hasScreenshot: boolean;
+  textHash: string;
+  htmlBytes: number;
+  details: Record<string, unknown>;
+  capturedAt: string;
+}
+
+/** Page content to archive. */
+export interface SnapshotCapture {
+  url: string;
+  html: string;
+  screenshot?: Buffer | null;
+  entryId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface TextDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface SnapshotDiff {
+  from: ContestSnapshot;
+  to: ContestSnapshot;
+  identical: boolean;
+  added: number;
+  removed: number;
+  lines: TextDiffLine[];
+}
+
+export interface SnapshotPruneResult {
+  deleted: number;
+  /** Snapshots past retention that were kept because the contest was won. */
+  keptForWins: number;
+}
+
+type SnapshotRow = typeof contestSnapshots.$inferSelect;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Days a snapshot of a contest without a win is kept. */
+export const SNAPSHOT_RETENTION_DAYS = 180;
+
+const FETCH_TIMEOUT_MS = 30_000;
+
+/** IDs per IN (...) list when pruning, well under SQLite's bound-parameter limit. */
+const PRUNE_BATCH_SIZE = 500;
+
+/**
+ * Largest line-by-line comparison table for a diff. Pages whose changed
+ * middle section is bigger are reported as fully replaced.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+const BLOCK_ELEMENTS = 'p, div, li, tr, td, th, h1, h2, h3, h4, h5, h6, br, section, article, header, footer, label, option, dt, dd';
+
+// ---------------------------------------------------------------------------
+// ContestSnapshotArchive
+// ---------------------------------------------------------------------------
+
+export class ContestSnapshotArchive {
+  private readonly db: AppDatabase;
+  private readonly rootDir: string;
+
+  constructor(db: AppDatabase, options?: { rootDir?: string }) {
+    this.db = db;
+    this.rootDir = resolve(options?.rootDir ?? PATHS.CONTEST_SNAPSHOTS);
+  }
+
+  /**
+   * Writes a snapshot's files and records it.
+   */
+  capture(contestId: string, reason: SnapshotReason, capture: SnapshotCapture): ContestSnapshot {
+    const id = generateId();
+    const dir = join(this.rootDir, contestId);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const text = extractSnapshotText(capture.html);
+    const baseName = `${id}-${reason}`;
+    const htmlPath = join(dir, `${baseName}.html`);
+    const textPath = join(dir, `${baseName}.txt`);
+    writeFileSync(htmlPath, capture.html, 'utf-8');
+    writeFileSync(textPath, text, 'utf-8');
+
+    let screenshotPath: string | null = null;
+    if (capture.screenshot && capture.screenshot.length > 0) {
+      screenshotPath = join(dir, `${baseName}.png`);
+      writeFileSync(screenshotPath, capture.screenshot);
+    }
+
+    this.db
+      .insert(contestSnapshots)
+      .values({
+        id,
+        contestId,
+        reason,
+        url: capture.url,
+        entryId: capture.entryId ?? null,
+        htmlPath,
+        textPath,
+        screenshotPath,
+        textHash: hashForDedup(text),
+        htmlBytes: Buffer.byteLength(capture.html, 'utf8'),
+        details: JSON.stringify(capture.details ?? {}),
+        capturedAt: new Date().toISOString(),
+      })
+      .run();
+
+    logger.info({ contestId, snapshotId: id, reason, screenshot: screenshotPath !== null }, 'Contest snapshot archived');
+
+    return this.get(id)!;
+  }
+
+  /**
+   * Archives the page a browser currently shows, with a full-page
+   * screenshot. Capture failures are logged and return null so they
+   * never fail the caller's flow.
+   */
+  async capturePage(
+    contestId: string,
+    reason: SnapshotReason,
+    page: Page,
+    extra?: { entryId?: string; details?: Record<string, unknown> },
+  ): Promise<ContestSnapshot | null> {
+    try {
+      const html = await page.content();
+      const screenshot = await page.screenshot({ fullPage: true, type: 'png' });
+      return this.capture(contestId, reason, { url: page.url(), html, screenshot, ...extra });
+    } catch (error) {
+      logger.warn({ err: error, contestId, reason }, 'Failed to capture contest page snapshot');
+      return null;
+    }
+  }
+
+  /**
+   * Fetches a contest page over HTTP and archives it without a
+   * screenshot. Used where no browser is running, such as discovery.
+   * Goes through the discovery HTTP client, so fixture record/replay
+   * applies here too.
+   */
+  async captureUrl(
+    contestId: string,
+    reason: SnapshotReason,
+    url: string,
+    details?: Record<string, unknown>,
+  ): Promise<ContestSnapshot | null> {
+    try {
+      const response = await httpClient.get(url, {
+        headers: {
+          'User-Agent': pickRandom(USER_AGENTS),
+          Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        },
+        responseType: 'text',
+        timeout: { request: FETCH_TIMEOUT_MS },
+      });
+
+      return this.capture(contestId, reason, { url: response.url || url, html: response.body, details });
+    } catch (error) {
+      logger.warn({ err: error, contestId, reason, url }, 'Failed to fetch contest page for snapshot');
+      return null;
+    }
+  }
+
+  /**
+   * Whether a contest already has a snapshot taken for the given reason.
+   */
+  has(contestId: string, reason: SnapshotReason): boolean {
+    const row = this.db
+      .select({ id: contestSnapshots.id })
+      .from(contestSnapshots)
+      .where(and(eq(contestSnapshots.contestId, contestId), eq(contestSnapshots.reason, reason)))
+      .limit(1)
+      .get();
+    return row !== undefined;
+  }
+
+  /**
+   * A contest's snapshots, newest first.
+   */
+  list(contestId: string): ContestSnapshot[] {
+    return this.db
+      .select()
+      .from(contestSnapshots)
+      .where(eq(contestSnapshots.contestId, contestId))
+      .orderBy(desc(contestSnapshots.capturedAt), desc(contestSnapshots.id))
+      .all()
+      .map(toSnapshot);
+  }
+
+  get(id: string): ContestSnapshot | null {
+    const row = this.db.select().from(contestSnapshots).where(eq(contestSnapshots.id, id)).get();
+    return row ? toSnapshot(row) : null;
+  }
+
+  /**
+   * Path and content type of one of a snapshot's files, or null when the
+   * snapshot has no such file (or it was removed from disk).
+   */
+  getFile(id: string, kind: SnapshotFileKind): { filePath: string; mimeType: string } | null {
+    const row = this.db.select().from(contestSnapshots).where(eq(contestSnapshots.id, id)).get();
+    if (!row) return null;
+
+    const file = {
+      html: { filePath: row.htmlPath, mimeType: 'text/html; charset=utf-8' },
+      text: { filePath: row.textPath, mimeType: 'text/plain; charset=utf-8' },
+      screenshot: row.screenshotPath ? { filePath: row.screenshotPath, mimeType: 'image/png' } : null,
+    }[kind];
+
+    return file && existsSync(file.filePath) ? file : null;
+  }
+
+  /**
+   * Line diff between the extracted text of two snapshots of the same
+   * contest, from the older state to the newer one as given.
+   */
+  diff(fromId: string, toId: string): SnapshotDiff {
+    const from = this.get(fromId);
+    const to = this.get(toId);
+    if (!from || !to) {
+      throw new AppError('Snapshot not found', 'SNAPSHOT_NOT_FOUND', 404);
+    }
+    if (from.contestId !== to.contestId) {
+      throw new AppError('Snapshots belong to different contests', 'SNAPSHOT_CONTEST_MISMATCH', 400);
+    }
+
+    if (from.textHash === to.textHash) {
+      const lines = this.readText(fromId).map((text): TextDiffLine => ({ type: 'same', text }));
+      return { from, to, identical: true, added: 0, removed: 0, lines };
+    }
+
+    const lines = diffLines(this.readText(fromId), this.readText(toId));
+    return {
+      from,
+      to,
+      identical: false,
+      added: lines.filter((line) => line.type === 'added').length,
+      removed: lines.filter((line) => line.type === 'removed').length,
+      lines,
+    };
+  }
+
+  /**
+   * Deletes snapshots older than the retention period, keeping every
+   * snapshot of a contest that has a win.
+   */
+  prune(retentionDays = SNAPSHOT_RETENTION_DAYS): SnapshotPruneResult {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const expired = this.db
+      .select()
+      .from(contestSnapshots)
+      .where(lt(contestSnapshots.capturedAt, cutoff))
+      .orderBy(asc(contestSnapshots.capturedAt))
+      .all();
+
+    if (expired.length === 0) {
+      return { deleted: 0, keptForWins: 0 };
+    }
+
+    const contestIds = [...new Set(expired.map((row) => row.contestId))];
+    const wonContestIds = new Set<string>();
+    for (let i = 0; i < contestIds.length; i += PRUNE_BATCH_SIZE) {
+      const batch = contestIds.slice(i, i + PRUNE_BATCH_SIZE);
+      this.db
+        .selectDistinct({ contestId: wins.contestId })
+        .from(wins)
+        .where(inArray(wins.contestId, batch))
+        .all()
+        .forEach((row) => wonContestIds.add(row.contestId));
+    }
+
+    const doomed = expired.filter((row) => !wonContestIds.has(row.contestId));
+    for (const row of doomed) {
+      for (const filePath of [row.htmlPath, row.textPath, row.screenshotPath]) {
+        if (filePath) removeFile(filePath);
+      }
+    }
+
+    for (let i = 0; i < doomed.length; i += PRUNE_BATCH_SIZE) {
+      const ids = doomed.slice(i, i + PRUNE_BATCH_SIZE).map((row) => row.id);
+      this.db.delete(contestSnapshots).where(inArray(contestSnapshots.id, ids)).run();
+    }
+
+    // Drop directories of contests that no longer have any snapshots
+    for (const contestId of new Set(doomed.map((row) => row.contestId))) {
+      const remaining = this.db
+        .select({ id: contestSnapshots.id })
+        .from(contestSnapshots)
+        .where(eq(contestSnapshots.contestId, contestId))
+        .limit(1)
+        .get();
+      if (!remaining) {
+        rmSync(join(this.rootDir, contestId), { recursive: true, force: true });
+      }
+    }
+
+    const result = { deleted: doomed.length, keptForWins: expired.length - doomed.length };
+    logger.info({ ...result, retentionDays }, 'Contest snapshots pruned');
+    return result;
+  }
+
+  private readText(id: string): string[] {
+    const file = this.getFile(id, 'text');
+    if (!file) {
+      throw new AppError('Snapshot text file is missing', 'SNAPSHOT_FILE_MISSING', 404);
+    }
+    const text = readFileSync(file.filePath, 'utf-8');
+    return text ? text.split('\n') : [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Text extraction and diffing
+// ---------------------------------------------------------------------------
+
+/**
+ * Visible text of a page, one block element per line with whitespace
+ * collapsed, so diffs line up with what a reader sees.
+ */
+export function extractSnapshotText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, template, svg, iframe').remove();
+  $(BLOCK_ELEMENTS).after('\n');
+
+  return $('body')
+    .text()
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Longest-common-subsequence line diff. Shared leading and trailing
+ * lines are matched first; the remaining middle is compared line by
+ * line unless it is too large, in which case it is reported as removed
+ * and re-added.
+ */
+export function diffLines(before: string[], after: string[]): TextDiffLine[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const head = before.slice(0, start).map((text): TextDiffLine => ({ type: 'same', text }));
+  const tail = before.slice(endBefore).map((text): TextDiffLine => ({ type: 'same', text }));
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...a.map((text): TextDiffLine => ({ type: 'removed', text })),
+      ...b.map((text): TextDiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1]! + 1
+        : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+    }
+  }
+
+  const middle: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: 'same', text: a[i]! });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      middle.push({ type: 'removed', text: a[i]! });
+      i++;
+    } else {
+      middle.push({ type: 'added', text: b[j]! });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) middle.push({ type: 'removed', text: a[i]! });
+  for (; j < b.length; j++) middle.push({ type: 'added', text: b[j]! });
+
+  return [...head, ...middle, ...tail];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toSnapshot(row: SnapshotRow): ContestSnapshot {
+  let details: Record<string, unknown> = {};
+  try {
+    details = JSON.parse(row.details) as Record<string, unknown>;
+  } catch {
+    // Keep empty details
+  }
+
+  return {
+    id: row.id,
+    contestId: row.contestId,
+    reason: row.reason,
+    url: row.url,
+    entryId: row.entryId,
+    hasScreenshot: row.screenshotPath !== null,
+    textHash: row.textHash,
+    htmlBytes: row.htmlBytes,
+    details,
+    capturedAt: row.capturedAt,
+  };
+}
+
+function removeFile(filePath: string): void {
+  try {
+    if (existsSync(filePath)) unlinkSync(filePath);
+  } catch (error) {
+    logger.warn({ err: error, filePath }, 'Failed to remove snapshot file');
+  }
+}
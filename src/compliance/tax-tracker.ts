@@ -3,14 +3,15 @@
  *
  * Tracks cumulative winnings per profile per tax year and determines
  * whether IRS reporting thresholds have been met. Generates summary
- * reports for tax compliance.
+ * reports for tax compliance, including fair-market-value adjustments
+ * and estimated federal/state liability.
  */
 
-import { eq, and, sql } from 'drizzle-orm';
-import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { eq, and, sql, notInArray } from 'drizzle-orm';
+import type { AppDatabase } from '../db/index.js';
 import { getLogger } from '../shared/logger.js';
 import { formatCurrency } from '../shared/utils.js';
-import { wins } from '../db/schema.js';
+import { wins, contests, profiles, appSettings } from '../db/schema.js';
 
 const logger = getLogger('compliance', { component: 'tax-tracker' });
 
@@ -36,6 +37,88 @@ export interface TaxReport {
   formattedTotal: string;
 }
 
+/** Flat rates used to estimate liability; not a substitute for a tax return. */
+export interface TaxRates {
+  federalRate: number;
+  defaultStateRate: number;
+  /** Overrides keyed by two-letter state code. */
+  stateRates: Record<string, number>;
+}
+
+export interface TaxableWin {
+  id: string;
+  contestId: string;
+  contestTitle: string | null;
+  sponsor: string | null;
+  prizeDescription: string | null;
+  /** Approximate retail value as stated by the sponsor. */
+  statedValue: number;
+  fairMarketValue: number | null;
+  fmvNote: string | null;
+  /** Fair market value when recorded, otherwise the stated value. */
+  taxableValue: number;
+  claimStatus: string;
+  taxReported: boolean;
+  /** True when this prize alone meets the 1099-MISC threshold. */
+  reportable: boolean;
+  detectedAt: string;
+}
+
+/** Prize total from one sponsor, which is what triggers a 1099-MISC. */
+export interface PayerTotal {
+  sponsor: string;
+  total: number;
+  expects1099: boolean;
+}
+
+export interface ProfileTaxYear {
+  profileId: string;
+  profileName: string;
+  state: string | null;
+  year: number;
+  winCount: number;
+  statedValue: number;
+  taxableValue: number;
+  /** Taxable value minus stated value; negative when FMV is lower. */
+  fmvAdjustment: number;
+  reportableCount: number;
+  unreportedCount: number;
+  needsReporting: boolean;
+  payers: PayerTotal[];
+  estimatedFederal: number;
+  estimatedState: number;
+  wins: TaxableWin[];
+}
+
+export interface StateTaxBreakdown {
+  state: string;
+  profileCount: number;
+  taxableValue: number;
+  stateRate: number;
+  estimatedState: number;
+}
+
+export interface TaxYearSummary {
+  year: number;
+  rates: TaxRates;
+  profiles: ProfileTaxYear[];
+  byState: StateTaxBreakdown[];
+  totals: {
+    taxableValue: number;
+    fmvAdjustment: number;
+    reportableCount: number;
+    unreportedCount: number;
+    estimatedFederal: number;
+    estimatedState: number;
+  };
+}
+
+export interface WinTaxUpdate {
+  fairMarketValue?: number | null;
+  fmvNote?: string | null;
+  taxReported?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -43,14 +126,25 @@ export interface TaxReport {
 /** IRS threshold for 1099-MISC reporting on prize winnings. */
 const IRS_REPORTING_THRESHOLD = 600;
 
+/** Prizes that were never received are not income. */
+const NON_TAXABLE_STATUSES = ['expired', 'forfeited'] as const;
+
+const RATES_SETTINGS_KEY = 'tax_rates';
+
+export const DEFAULT_TAX_RATES: TaxRates = {
+  federalRate: 0.22,
+  defaultStateRate: 0.05,
+  stateRates: {},
+};
+
 // ---------------------------------------------------------------------------
 // TaxTracker
 // ---------------------------------------------------------------------------
 
 export class TaxTracker {
-  private readonly db: BetterSQLite3Database;
+  private readonly db: AppDatabase;
 
-  constructor(db: BetterSQLite3Database) {
+  constructor(db: AppDatabase) {
     this.db = db;
   }
 
@@ -168,4 +262,277 @@ export class TaxTracker {
 
     return report;
   }
+
+  /**
+   * Builds the tax-year summary for every profile with taxable wins in
+   * `year` (or just `profileId`), grouped by profile and state of
+   * residence, with liability estimated from the configured rates.
+   */
+  getYearSummary(year: number, profileId?: string): TaxYearSummary {
+    const yearStart = `${year}-01-01T00:00:00.000Z`;
+    const yearEnd = `${year + 1}-01-01T00:00:00.000Z`;
+    const rates = this.getRates();
+
+    const conditions = [
+      sql`${wins.createdAt} >= ${yearStart}`,
+      sql`${wins.createdAt} < ${yearEnd}`,
+      notInArray(wins.claimStatus, [...NON_TAXABLE_STATUSES]),
+    ];
+    if (profileId) {
+      conditions.push(eq(wins.profileId, profileId));
+    }
+
+    const rows = this.db
+      .select({
+        win: wins,
+        contestTitle: contests.title,
+        sponsor: contests.sponsor,
+        firstName: profiles.firstName,
+        lastName: profiles.lastName,
+        state: profiles.state,
+      })
+      .from(wins)
+      .leftJoin(contests, eq(wins.contestId, contests.id))
+      .leftJoin(profiles, eq(wins.profileId, profiles.id))
+      .where(and(...conditions))
+      .orderBy(wins.createdAt)
+      .all();
+
+    const byProfile = new Map<string, ProfileTaxYear>();
+
+    for (const row of rows) {
+      const statedValue = row.win.prizeValue ?? 0;
+      const taxableValue = row.win.fairMarketValue ?? statedValue;
+
+      let summary = byProfile.get(row.win.profileId);
+      if (!summary) {
+        summary = {
+          profileId: row.win.profileId,
+          profileName: `${row.firstName ?? ''} ${row.lastName ?? ''}`.trim(),
+          state: row.state?.toUpperCase() ?? null,
+          year,
+          winCount: 0,
+          statedValue: 0,
+          taxableValue: 0,
+          fmvAdjustment: 0,
+          reportableCount: 0,
+          unreportedCount: 0,
+          needsReporting: false,
+          payers: [],
+          estimatedFederal: 0,
+          estimatedState: 0,
+          wins: [],
+        };
+        byProfile.set(row.win.profileId, summary);
+      }
+
+      const win: TaxableWin = {
+        id: row.win.id,
+        contestId: row.win.contestId,
+        contestTitle: row.contestTitle,
+        sponsor: row.sponsor,
+        prizeDescription: row.win.prizeDescription,
+        statedValue,
+        fairMarketValue: row.win.fairMarketValue,
+        fmvNote: row.win.fmvNote,
+        taxableValue,
+        claimStatus: row.win.claimStatus,
+        taxReported: row.win.taxReported === 1,
+        reportable: taxableValue >= IRS_REPORTING_THRESHOLD,
+        detectedAt: row.win.createdAt,
+      };
+
+      summary.wins.push(win);
+      summary.winCount++;
+      summary.statedValue += statedValue;
+      summary.taxableValue += taxableValue;
+      if (win.reportable) summary.reportableCount++;
+      if (!win.taxReported) summary.unreportedCount++;
+    }
+
+    const profileSummaries = [...byProfile.values()];
+    for (const summary of profileSummaries) {
+      summary.fmvAdjustment = summary.taxableValue - summary.statedValue;
+      summary.needsReporting = summary.taxableValue >= IRS_REPORTING_THRESHOLD;
+      summary.payers = payerTotals(summary.wins);
+      summary.estimatedFederal = roundCents(summary.taxableValue * rates.federalRate);
+      summary.estimatedState = roundCents(
+        summary.taxableValue * stateRateFor(rates, summary.state),
+      );
+    }
+    profileSummaries.sort((a, b) => b.taxableValue - a.taxableValue);
+
+    const stateMap = new Map<string, StateTaxBreakdown>();
+    for (const summary of profileSummaries) {
+      const state = summary.state ?? 'Unknown';
+      const entry = stateMap.get(state) ?? {
+        state,
+        profileCount: 0,
+        taxableValue: 0,
+        stateRate: stateRateFor(rates, summary.state),
+        estimatedState: 0,
+      };
+      entry.profileCount++;
+      entry.taxableValue += summary.taxableValue;
+      entry.estimatedState = roundCents(entry.estimatedState + summary.estimatedState);
+      stateMap.set(state, entry);
+    }
+
+    const totals = profileSummaries.reduce(
+      (acc, p) => ({
+        taxableValue: acc.taxableValue + p.taxableValue,
+        fmvAdjustment: acc.fmvAdjustment + p.fmvAdjustment,
+        reportableCount: acc.reportableCount + p.reportableCount,
+        unreportedCount: acc.unreportedCount + p.unreportedCount,
+        estimatedFederal: roundCents(acc.estimatedFederal + p.estimatedFederal),
+        estimatedState: roundCents(acc.estimatedState + p.estimatedState),
+      }),
+      {
+        taxableValue: 0,
+        fmvAdjustment: 0,
+        reportableCount: 0,
+        unreportedCount: 0,
+        estimatedFederal: 0,
+        estimatedState: 0,
+      },
+    );
+
+    return {
+      year,
+      rates,
+      profiles: profileSummaries,
+      byState: [...stateMap.values()].sort((a, b) => b.taxableValue - a.taxableValue),
+      totals,
+    };
+  }
+
+  /**
+   * Returns the tax years that have at least one win, newest first.
+   */
+  listYears(): number[] {
+    const rows = this.db
+      .select({ year: sql<string>`DISTINCT substr(${wins.createdAt}, 1, 4)` })
+      .from(wins)
+      .all();
+
+    return rows
+      .map((r) => Number(r.year))
+      .filter((y) => Number.isInteger(y))
+      .sort((a, b) => b - a);
+  }
+
+  /**
+   * Records a fair-market-value adjustment and/or the reported flag on a
+   * win. Returns false when the win does not exist.
+   */
+  updateWin(winId: string, update: WinTaxUpdate): boolean {
+    const existing = this.db
+      .select({ id: wins.id })
+      .from(wins)
+      .where(eq(wins.id, winId))
+      .get();
+
+    if (!existing) {
+      return false;
+    }
+
+    const values: Partial<typeof wins.$inferInsert> = {
+      updatedAt: new Date().toISOString(),
+    };
+    if (update.fairMarketValue !== undefined) values.fairMarketValue = update.fairMarketValue;
+    if (update.fmvNote !== undefined) values.fmvNote = update.fmvNote;
+    if (update.taxReported !== undefined) values.taxReported = update.taxReported ? 1 : 0;
+
+    this.db.update(wins).set(values).where(eq(wins.id, winId)).run();
+
+    logger.info({ winId, ...update }, 'Win tax details updated');
+
+    return true;
+  }
+
+  /**
+   * Reads the configured estimation rates, falling back to defaults.
+   */
+  getRates(): TaxRates {
+    const row = this.db
+      .select()
+      .from(appSettings)
+      .where(eq(appSettings.key, RATES_SETTINGS_KEY))
+      .get();
+
+    if (!row) {
+      return { ...DEFAULT_TAX_RATES, stateRates: {} };
+    }
+
+    try {
+      const parsed = JSON.parse(row.value) as Partial<TaxRates>;
+      return {
+        ...DEFAULT_TAX_RATES,
+        ...parsed,
+        stateRates: { ...(parsed.stateRates ?? {}) },
+      };
+    } catch {
+      return { ...DEFAULT_TAX_RATES, stateRates: {} };
+    }
+  }
+
+  /**
+   * Merges `update` into the stored estimation rates and returns the result.
+   */
+  setRates(update: Partial<TaxRates>): TaxRates {
+    const current = this.getRates();
+    const next: TaxRates = {
+      federalRate: update.federalRate ?? current.federalRate,
+      defaultStateRate: update.defaultStateRate ?? current.defaultStateRate,
+      stateRates: update.stateRates
+        ? Object.fromEntries(
+            Object.entries(update.stateRates).map(([k, v]) => [k.toUpperCase(), v]),
+          )
+        : current.stateRates,
+    };
+
+    const value = JSON.stringify(next);
+    const updatedAt = new Date().toISOString();
+    this.db
+      .insert(appSettings)
+      .values({ key: RATES_SETTINGS_KEY, value, updatedAt })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt } })
+      .run();
+
+    logger.info({ rates: next }, 'Tax estimation rates updated');
+
+    return next;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function payerTotals(taxableWins: TaxableWin[]): PayerTotal[] {
+  const totals = new Map<string, number>();
+  for (const win of taxableWins) {
+    const sponsor = win.sponsor?.trim() || 'Unknown sponsor';
+    totals.set(sponsor, (totals.get(sponsor) ?? 0) + win.taxableValue);
+  }
+
+  return [...totals.entries()]
+    .map(([sponsor, total]) => ({
+      sponsor,
+      total,
+      expects1099: total >= IRS_REPORTING_THRESHOLD,
+    }))
+    .sort((a, b) => b.total - a.total);
+}
+
+function stateRateFor(rates: TaxRates, state: string | null): number {
+  if (state) {
+    const override = rates.stateRates[state.toUpperCase()];
+    if (override !== undefined) return override;
+  }
+  return rates.defaultStateRate;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
 }
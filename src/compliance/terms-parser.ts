@@ -4,13 +4,21 @@
  * Fetches a contest's terms page and extracts key restrictions using
  * regex-based pattern matching. Handles common terms page formats to
  * identify age requirements, geographic restrictions, entry limits,
- * dates, and other eligibility criteria.
+ * dates, the entry reset time, the prize table, and other eligibility
+ * criteria.
+ *
+ * Every extracted field is returned as a clause that records the
+ * sentence it came from, a confidence value and the extraction method,
+ * so a stored rules document can later explain a compliance decision.
  */
 
 import { getLogger } from '../shared/logger.js';
 import { ComplianceError } from '../shared/errors.js';
 import { retry } from '../shared/retry.js';
 import { parseDate } from '../shared/utils.js';
+import { hashForDedup } from '../shared/crypto.js';
+import { extractPrizeTiers, PRIZE_TIER_HEADING, type PrizeTier } from '../shared/prizes.js';
+import { resolveTimeZone } from '../shared/timezone.js';
 
 const logger = getLogger('compliance', { component: 'terms-parser' });
 
@@ -26,8 +34,77 @@ export interface ParsedTerms {
   startDate: string | null;
   endDate: string | null;
   excludedAffiliations: string[];
+  entryLimitScopes: EntryLimitScope[];
   requiresPurchase: boolean;
   voidWhereProhibited: boolean;
+  prizes: PrizeTier[];
+  entryReset: EntryReset | null;
+}
+
+/**
+ * Identity groupings an entry limit is shared across, beyond the
+ * individual entrant: "one entry per household" or "per email address".
+ */
+export type EntryLimitScope = 'household' | 'email';
+
+/**
+ * When a new entry period starts: a 24-hour "HH:MM" wall-clock time in
+ * an IANA time zone, e.g. `{ time: '00:00', timeZone: 'America/New_York' }`
+ * for "entries reset daily at 12:00 AM ET".
+ */
+export interface EntryReset {
+  time: string;
+  timeZone: string;
+}
+
+/**
+ * How a clause value was obtained:
+ * - `pattern`: a specific regex matched the rules text
+ * - `keyword`: a looser keyword/phrase heuristic matched
+ * - `default`: nothing matched; the platform default was assumed
+ */
+export type ExtractionMethod = 'pattern' | 'keyword' | 'default';
+
+/** A single extracted field together with its provenance. */
+export interface RuleClause<T> {
+  value: T;
+  /** The sentence of the rules text the value was read from. */
+  sourceText: string | null;
+  /** Character offsets of `sourceText` within the normalized rules text. */
+  span: { start: number; end: number } | null;
+  /** 0-1 confidence that `value` reflects the official rules. */
+  confidence: number;
+  method: ExtractionMethod;
+}
+
+export interface OfficialRulesFields {
+  minAge: RuleClause<number>;
+  geoRestrictions: RuleClause<string[]>;
+  entryFrequency: RuleClause<string>;
+  maxEntries: RuleClause<number | null>;
+  startDate: RuleClause<string | null>;
+  endDate: RuleClause<string | null>;
+  excludedAffiliations: RuleClause<string[]>;
+  entryLimitScopes: RuleClause<EntryLimitScope[]>;
+  requiresPurchase: RuleClause<boolean>;
+  voidWhereProhibited: RuleClause<boolean>;
+  prizes: RuleClause<PrizeTier[]>;
+  entryReset: RuleClause<EntryReset | null>;
+}
+
+/**
+ * Versioned, auditable representation of a contest's official rules.
+ * `schemaVersion` describes the document layout; per-contest revision
+ * numbers are assigned by the rules store when the document is saved.
+ */
+export interface OfficialRules {
+  schemaVersion: number;
+  termsUrl: string;
+  fetchedAt: string;
+  /** SHA-256 of the normalized rules text, used to detect changes. */
+  contentHash: string;
+  textLength: number;
+  fields: OfficialRulesFields;
 }
 
 // ---------------------------------------------------------------------------
@@ -36,6 +113,12 @@ export interface ParsedTerms {
 
 const FETCH_TIMEOUT_MS = 15_000;
 
+/** Current layout version of the OfficialRules document. */
+export const RULES_SCHEMA_VERSION = 4;
+
+/** Upper bound on the length of a stored source sentence. */
+const MAX_SOURCE_TEXT_LENGTH = 400;
+
 const DEFAULT_TERMS: ParsedTerms = {
   minAge: 18,
   geoRestrictions: [],
@@ -44,10 +127,19 @@ const DEFAULT_TERMS: ParsedTerms = {
   startDate: null,
   endDate: null,
   excludedAffiliations: [],
+  entryLimitScopes: [],
   requiresPurchase: false,
   voidWhereProhibited: false,
+  prizes: [],
+  entryReset: null,
 };
 
+/** A clock time such as "12:00 AM", "11:59:59 p.m." or "midnight". */
+const CLOCK_TIME = String.raw`(midnight|noon|\d{1,2}(?::\d{2}){0,2}\s*(?:[ap]\.?\s?m\.?)?)`;
+
+/** A time zone label following a clock time, e.g. "ET", "(PT)", "Eastern Time". */
+const ZONE_LABEL = String.raw`\(?(Eastern|Central|Mountain|Pacific|[A-Z]{2,4})\b(?:\s+(?:Standard\s+|Daylight\s+)?Time)?\)?`;
+
 // ---------------------------------------------------------------------------
 // State names to abbreviation mapping
 // ---------------------------------------------------------------------------
@@ -83,6 +175,17 @@ export class TermsParser {
    * @returns Structured terms data with extracted restrictions
    */
   async parseTerms(termsUrl: string): Promise<ParsedTerms> {
+    const rules = await this.parseRules(termsUrl);
+    return toParsedTerms(rules);
+  }
+
+  /**
+   * Fetches a contest's terms page and builds the full rules document,
+   * keeping the source sentence, confidence and method for every field.
+   *
+   * @param termsUrl - The URL of the terms/rules page
+   */
+  async parseRules(termsUrl: string): Promise<OfficialRules> {
     logger.info({ termsUrl }, 'Fetching and parsing contest terms');
 
     let html: string;
@@ -125,70 +228,100 @@ export class TermsParser {
       );
     }
 
+    return this.parseRulesHtml(html, termsUrl);
+  }
+
+  /**
+   * Parses an already-fetched terms page. Exposed separately from
+   * `parseRules` so callers holding the HTML (or a saved copy of it)
+   * do not need network access.
+   */
+  parseRulesHtml(html: string, termsUrl: string): OfficialRules {
     // Strip HTML tags for text analysis
     const text = stripHtml(html);
 
-    const terms: ParsedTerms = {
-      minAge: this.extractMinAge(text),
-      geoRestrictions: this.extractGeoRestrictions(text),
-      entryFrequency: this.extractEntryFrequency(text),
-      maxEntries: this.extractMaxEntries(text),
-      startDate: this.extractStartDate(text),
-      endDate: this.extractEndDate(text),
-      excludedAffiliations: this.extractExcludedAffiliations(text),
-      requiresPurchase: this.detectPurchaseRequirement(text),
-      voidWhereProhibited: this.detectVoidWhereProhibited(text),
+    const rules: OfficialRules = {
+      schemaVersion: RULES_SCHEMA_VERSION,
+      termsUrl,
+      fetchedAt: new Date().toISOString(),
+      contentHash: hashForDedup(text),
+      textLength: text.length,
+      fields: {
+        minAge: this.extractMinAge(text),
+        geoRestrictions: this.extractGeoRestrictions(text),
+        entryFrequency: this.extractEntryFrequency(text),
+        maxEntries: this.extractMaxEntries(text),
+        startDate: this.extractStartDate(text),
+        endDate: this.extractEndDate(text),
+        excludedAffiliations: this.extractExcludedAffiliations(text),
+        entryLimitScopes: this.extractEntryLimitScopes(text),
+        requiresPurchase: this.detectPurchaseRequirement(text),
+        voidWhereProhibited: this.detectVoidWhereProhibited(text),
+        prizes: this.extractPrizes(text),
+        entryReset: this.extractEntryReset(text),
+      },
     };
 
+    const { fields } = rules;
     logger.info(
       {
         termsUrl,
-        minAge: terms.minAge,
-        geoCount: terms.geoRestrictions.length,
-        frequency: terms.entryFrequency,
-        maxEntries: terms.maxEntries,
-        requiresPurchase: terms.requiresPurchase,
+        minAge: fields.minAge.value,
+        geoCount: fields.geoRestrictions.value.length,
+        frequency: fields.entryFrequency.value,
+        maxEntries: fields.maxEntries.value,
+        requiresPurchase: fields.requiresPurchase.value,
+        prizeTiers: fields.prizes.value.length,
+        defaultedFields: Object.entries(fields)
+          .filter(([, clause]) => clause.method === 'default')
+          .map(([name]) => name),
       },
       'Terms parsed successfully',
     );
 
-    return terms;
+    return rules;
   }
 
   // ---------------------------------------------------------------------------
   // Extraction methods
   // ---------------------------------------------------------------------------
 
-  private extractMinAge(text: string): number {
-    // "must be at least 21 years" or "18 years of age or older"
-    const agePatterns = [
-      /must\s+be\s+(?:at\s+least\s+)?(\d{2})\s+years/i,
-      /(\d{2})\s+years\s+of\s+age\s+or\s+older/i,
-      /(?:minimum|min)\s+age[:\s]+(\d{2})/i,
-      /(?:at\s+least|over)\s+(\d{2})\s+years?\s+(?:of\s+age|old)/i,
-      /open\s+to\s+(?:legal\s+)?residents?\s+.*?(\d{2})\s+years/i,
-      /(?:age\s+)?(\d{2})\s+or\s+older/i,
+  private extractMinAge(text: string): RuleClause<number> {
+    // "must be at least 21 years" or "18 years of age or older".
+    // Patterns are ordered from most to least specific.
+    const agePatterns: Array<[RegExp, number]> = [
+      [/must\s+be\s+(?:at\s+least\s+)?(\d{2})\s+years/i, 0.95],
+      [/(\d{2})\s+years\s+of\s+age\s+or\s+older/i, 0.95],
+      [/(?:minimum|min)\s+age[:\s]+(\d{2})/i, 0.9],
+      [/(?:at\s+least|over)\s+(\d{2})\s+years?\s+(?:of\s+age|old)/i, 0.9],
+      [/open\s+to\s+(?:legal\s+)?residents?\s+.*?(\d{2})\s+years/i, 0.75],
+      [/(?:age\s+)?(\d{2})\s+or\s+older/i, 0.6],
     ];
 
-    for (const pattern of agePatterns) {
+    for (const [pattern, confidence] of agePatterns) {
       const match = text.match(pattern);
       if (match?.[1]) {
         const age = parseInt(match[1], 10);
         if (age >= 13 && age <= 100) {
-          return age;
+          return clauseFromMatch(text, match, age, confidence, 'pattern');
         }
       }
     }
 
-    return DEFAULT_TERMS.minAge;
+    return defaultClause(DEFAULT_TERMS.minAge);
   }
 
-  private extractGeoRestrictions(text: string): string[] {
+  private extractGeoRestrictions(text: string): RuleClause<string[]> {
     const restrictions: string[] = [];
+    let firstMatch: RegExpMatchArray | null = null;
 
     // "open to legal residents of the United States"
-    if (/open\s+to\s+(?:legal\s+)?residents?\s+of\s+(?:the\s+)?(?:United\s+States|U\.?S\.?A?\.?)/i.test(text)) {
+    const usMatch = text.match(
+      /open\s+to\s+(?:legal\s+)?residents?\s+of\s+(?:the\s+)?(?:United\s+States|U\.?S\.?A?\.?)/i,
+    );
+    if (usMatch) {
       restrictions.push('US');
+      firstMatch = usMatch;
     }
 
     // "open to residents of [State1], [State2], and [State3]"
@@ -204,6 +337,7 @@ export class TermsParser {
         const abbr = STATE_ABBREVIATIONS[stateName];
         if (abbr) {
           restrictions.push(`US-${abbr}`);
+          firstMatch ??= stateListMatch;
         }
       }
     }
@@ -221,99 +355,110 @@ export class TermsParser {
         const abbr = STATE_ABBREVIATIONS[stateName];
         if (abbr) {
           restrictions.push(`excludes:US-${abbr}`);
+          firstMatch ??= voidInMatch;
         }
       }
     }
 
-    return restrictions;
+    if (!firstMatch) {
+      return defaultClause<string[]>([]);
+    }
+
+    // A residency clause that names no recognizable state or country is
+    // ambiguous; the state-list regex also matches free text.
+    const confidence = firstMatch === usMatch ? 0.9 : 0.7;
+    return clauseFromMatch(text, firstMatch, restrictions, confidence, 'pattern');
   }
 
-  private extractEntryFrequency(text: string): string {
-    const textLower = text.toLowerCase();
+  private extractEntryFrequency(text: string): RuleClause<string> {
+    const patterns: Array<[RegExp, string, number]> = [
+      [/one\s+(?:\(\d+\)\s+)?entry\s+per\s+person/i, 'once', 0.85],
+      [/daily\s+entry|one\s+entry\s+per\s+(?:day|24\s*hours?)/i, 'daily', 0.9],
+      [/weekly\s+entry|one\s+entry\s+per\s+week/i, 'weekly', 0.9],
+      [/unlimited\s+entr/i, 'unlimited', 0.8],
+      [/no\s+limit\s+on\s+(?:the\s+number\s+of\s+)?entr/i, 'unlimited', 0.8],
+    ];
 
-    if (/one\s+(?:\(\d+\)\s+)?entry\s+per\s+person/i.test(text)) {
-      return 'once';
-    }
-    if (/daily\s+entry|one\s+entry\s+per\s+(?:day|24\s*hours?)/i.test(text)) {
-      return 'daily';
-    }
-    if (/weekly\s+entry|one\s+entry\s+per\s+week/i.test(text)) {
-      return 'weekly';
-    }
-    if (/unlimited\s+entr/i.test(text) || /no\s+limit\s+on\s+(?:the\s+number\s+of\s+)?entr/i.test(text)) {
-      return 'unlimited';
+    for (const [pattern, frequency, confidence] of patterns) {
+      const match = text.match(pattern);
+      if (match) {
+        return clauseFromMatch(text, match, frequency, confidence, 'pattern');
+      }
     }
-    if (textLower.includes('enter daily') || textLower.includes('enter once per day')) {
-      return 'daily';
+
+    const keywordMatch = text.match(/enter\s+daily|enter\s+once\s+per\s+day/i);
+    if (keywordMatch) {
+      return clauseFromMatch(text, keywordMatch, 'daily', 0.6, 'keyword');
     }
 
-    return 'once';
+    return defaultClause('once');
   }
 
-  private extractMaxEntries(text: string): number | null {
+  private extractMaxEntries(text: string): RuleClause<number | null> {
     // "maximum of 5 entries per person"
     const maxMatch = text.match(
       /(?:maximum|max|limit)\s+(?:of\s+)?(\d+)\s+entr/i,
     );
     if (maxMatch?.[1]) {
-      return parseInt(maxMatch[1], 10);
+      return clauseFromMatch(text, maxMatch, parseInt(maxMatch[1], 10), 0.9, 'pattern');
     }
 
     // "up to 10 entries"
     const upToMatch = text.match(/up\s+to\s+(\d+)\s+entr/i);
     if (upToMatch?.[1]) {
-      return parseInt(upToMatch[1], 10);
+      return clauseFromMatch(text, upToMatch, parseInt(upToMatch[1], 10), 0.75, 'pattern');
     }
 
-    return null;
+    return defaultClause<number | null>(null);
   }
 
-  private extractStartDate(text: string): string | null {
+  private extractStartDate(text: string): RuleClause<string | null> {
     // "begins on March 15, 2025" or "starting 03/15/2025"
-    const patterns = [
-      /(?:begins?|starts?|commences?)\s+(?:on\s+)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
-      /(?:begins?|starts?|commences?)\s+(?:on\s+)?(\d{1,2}\/\d{1,2}\/\d{4})/i,
-      /(?:begins?|starts?|commences?)\s+(?:on\s+)?(\d{4}-\d{2}-\d{2})/i,
-      /(?:promotion|sweepstakes|contest)\s+(?:period\s+)?(?:begins?|starts?)\s+(?:on\s+)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
+    const patterns: Array<[RegExp, number]> = [
+      [/(?:begins?|starts?|commences?)\s+(?:on\s+)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i, 0.85],
+      [/(?:begins?|starts?|commences?)\s+(?:on\s+)?(\d{1,2}\/\d{1,2}\/\d{4})/i, 0.85],
+      [/(?:begins?|starts?|commences?)\s+(?:on\s+)?(\d{4}-\d{2}-\d{2})/i, 0.85],
+      [/(?:promotion|sweepstakes|contest)\s+(?:period\s+)?(?:begins?|starts?)\s+(?:on\s+)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i, 0.9],
     ];
 
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match?.[1]) {
-        const parsed = parseDate(match[1]);
-        if (parsed) {
-          return parsed.toISOString();
-        }
-      }
-    }
-
-    return null;
+    return this.extractDate(text, patterns);
   }
 
-  private extractEndDate(text: string): string | null {
+  private extractEndDate(text: string): RuleClause<string | null> {
     // "ends on March 15, 2025" or "ending 03/15/2025"
-    const patterns = [
-      /(?:ends?|closes?|concludes?|expires?)\s+(?:on\s+)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
-      /(?:ends?|closes?|concludes?|expires?)\s+(?:on\s+)?(\d{1,2}\/\d{1,2}\/\d{4})/i,
-      /(?:ends?|closes?|concludes?|expires?)\s+(?:on\s+)?(\d{4}-\d{2}-\d{2})/i,
-      /(?:through|until)\s+([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
-      /(?:no later than|by)\s+(?:\d{1,2}:\d{2}\s*(?:AM|PM|ET|PT|CT|MT)\s+(?:on\s+)?)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
+    const patterns: Array<[RegExp, number]> = [
+      [/(?:ends?|closes?|concludes?|expires?)\s+(?:on\s+)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i, 0.85],
+      [/(?:ends?|closes?|concludes?|expires?)\s+(?:on\s+)?(\d{1,2}\/\d{1,2}\/\d{4})/i, 0.85],
+      [/(?:ends?|closes?|concludes?|expires?)\s+(?:on\s+)?(\d{4}-\d{2}-\d{2})/i, 0.85],
+      [/(?:through|until)\s+([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i, 0.7],
+      [/(?:no later than|by)\s+(?:\d{1,2}:\d{2}\s*(?:AM|PM|ET|PT|CT|MT)\s+(?:on\s+)?)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i, 0.6],
     ];
 
-    for (const pattern of patterns) {
+    return this.extractDate(text, patterns);
+  }
+
+  /**
+   * Tries each date pattern in order and returns the first one whose
+   * captured group parses as a valid date.
+   */
+  private extractDate(
+    text: string,
+    patterns: Array<[RegExp, number]>,
+  ): RuleClause<string | null> {
+    for (const [pattern, confidence] of patterns) {
       const match = text.match(pattern);
       if (match?.[1]) {
         const parsed = parseDate(match[1]);
         if (parsed) {
-          return parsed.toISOString();
+          return clauseFromMatch(text, match, parsed.toISOString(), confidence, 'pattern');
         }
       }
     }
 
-    return null;
+    return defaultClause<string | null>(null);
   }
 
-  private extractExcludedAffiliations(text: string): string[] {
+  private extractExcludedAffiliations(text: string): RuleClause<string[]> {
     const affiliations: string[] = [];
 
     // "employees of [Company] and their immediate family members"
@@ -329,16 +474,53 @@ export class TermsParser {
     }
 
     // "affiliates, subsidiaries"
-    if (/affiliates?|subsidiaries/i.test(text)) {
+    const affiliateMatch = text.match(/affiliates?|subsidiaries/i);
+    if (affiliateMatch) {
       if (!affiliations.includes('affiliates and subsidiaries')) {
         affiliations.push('affiliates and subsidiaries');
       }
     }
 
-    return affiliations;
+    if (employeeMatch) {
+      return clauseFromMatch(text, employeeMatch, affiliations, 0.8, 'pattern');
+    }
+    if (affiliateMatch) {
+      return clauseFromMatch(text, affiliateMatch, affiliations, 0.5, 'keyword');
+    }
+
+    return defaultClause<string[]>([]);
   }
 
-  private detectPurchaseRequirement(text: string): boolean {
+  private extractEntryLimitScopes(text: string): RuleClause<EntryLimitScope[]> {
+    // "limit one entry per person, per household", "one entry per email address"
+    const subject = String.raw`(?:entr(?:y|ies)|entrants?|limit(?:ed)?|winners?)`;
+    const prefix = String.raw`[^.;]{0,80}?\bper\s+(?:[\w-]+(?:\s+address)?\s*(?:,|\/|or|and)\s*(?:per\s+)?)*`;
+    const patterns: Array<[RegExp, EntryLimitScope]> = [
+      [new RegExp(`${subject}${prefix}household`, 'i'), 'household'],
+      [new RegExp(`${subject}${prefix}e-?mail(?:\\s+address)?`, 'i'), 'email'],
+    ];
+
+    const scopes: EntryLimitScope[] = [];
+    let firstMatch: RegExpMatchArray | null = null;
+
+    for (const [pattern, scope] of patterns) {
+      const match = text.match(pattern);
+      if (match) {
+        scopes.push(scope);
+        if (!firstMatch || (match.index ?? 0) < (firstMatch.index ?? 0)) {
+          firstMatch = match;
+        }
+      }
+    }
+
+    if (firstMatch) {
+      return clauseFromMatch(text, firstMatch, scopes, 0.85, 'pattern');
+    }
+
+    return defaultClause<EntryLimitScope[]>([]);
+  }
+
+  private detectPurchaseRequirement(text: string): RuleClause<boolean> {
     const noPurchasePatterns = [
       /no\s+purchase\s+(?:or\s+payment\s+)?(?:is\s+)?(?:necessary|required)/i,
       /free\s+(?:method\s+of\s+)?entry/i,
@@ -346,8 +528,9 @@ export class TermsParser {
     ];
 
     for (const pattern of noPurchasePatterns) {
-      if (pattern.test(text)) {
-        return false;
+      const match = text.match(pattern);
+      if (match) {
+        return clauseFromMatch(text, match, false, 0.95, 'pattern');
       }
     }
 
@@ -358,16 +541,82 @@ export class TermsParser {
     ];
 
     for (const pattern of purchasePatterns) {
-      if (pattern.test(text)) {
-        return true;
+      const match = text.match(pattern);
+      if (match) {
+        return clauseFromMatch(text, match, true, 0.8, 'pattern');
       }
     }
 
-    return false;
+    return defaultClause(false);
+  }
+
+  private extractPrizes(text: string): RuleClause<PrizeTier[]> {
+    // "Grand Prize (1): ... ARV: $28,000. First Prizes (10): ..."
+    const tiers = extractPrizeTiers(text);
+    const match = text.match(new RegExp(PRIZE_TIER_HEADING.source, 'i'));
+    if (tiers.length === 0 || !match) {
+      return defaultClause<PrizeTier[]>([]);
+    }
+
+    // Tiers without a stated ARV leave the expected value incomplete
+    const confidence = tiers.every((t) => t.arv !== null) ? 0.85 : 0.65;
+    return clauseFromMatch(text, match, tiers, confidence, 'pattern');
   }
 
-  private detectVoidWhereProhibited(text: string): boolean {
-    return /void\s+where\s+prohibited/i.test(text);
+  /**
+   * Finds when the entry period rolls over. Rules state it either as the
+   * reset itself ("entries reset daily at 12:00 AM ET"), as the start of
+   * the entry day, or as its end ("each day ends at 11:59:59 PM PT"), in
+   * which case the reset is the following minute.
+   */
+  private extractEntryReset(text: string): RuleClause<EntryReset | null> {
+    const patterns: Array<[RegExp, 'start' | 'end', number]> = [
+      [
+        new RegExp(String.raw`entr(?:y|ies)(?:\s+period)?\s+(?:will\s+)?resets?\s+(?:daily\s+|each\s+day\s+|every\s+day\s+)?at\s+${CLOCK_TIME}\s*${ZONE_LABEL}`, 'i'),
+        'start', 0.9,
+      ],
+      [
+        new RegExp(String.raw`(?:each|every)\s+(?:entry\s+)?(?:day|period)\s+(?:begins|starts)\s+at\s+${CLOCK_TIME}\s*${ZONE_LABEL}`, 'i'),
+        'start', 0.85,
+      ],
+      [
+        new RegExp(String.raw`["“]?day["”]?\s+(?:is\s+defined\s+as|means)\s+(?:the\s+period\s+)?(?:from\s+|beginning\s+at\s+)?${CLOCK_TIME}\s*${ZONE_LABEL}`, 'i'),
+        'start', 0.8,
+      ],
+      [
+        new RegExp(String.raw`(?:each|every)\s+(?:entry\s+)?(?:day|period)\s+ends\s+at\s+${CLOCK_TIME}\s*${ZONE_LABEL}`, 'i'),
+        'end', 0.8,
+      ],
+    ];
+
+    for (const [pattern, boundary, confidence] of patterns) {
+      const match = text.match(pattern);
+      if (!match?.[1] || !match[2]) continue;
+
+      const minutes = parseClockMinutes(match[1]);
+      const timeZone = resolveTimeZone(match[2]);
+      if (minutes === null || !timeZone) continue;
+
+      // An entry day that ends at 11:59 PM resets at midnight.
+      const resetMinutes = boundary === 'end' ? (minutes + 1) % (24 * 60) : minutes;
+      return clauseFromMatch(
+        text,
+        match,
+        { time: formatClockMinutes(resetMinutes), timeZone },
+        confidence,
+        'pattern',
+      );
+    }
+
+    return defaultClause<EntryReset | null>(null);
+  }
+
+  private detectVoidWhereProhibited(text: string): RuleClause<boolean> {
+    const match = text.match(/void\s+where\s+prohibited/i);
+    if (match) {
+      return clauseFromMatch(text, match, true, 0.95, 'pattern');
+    }
+    return defaultClause(false);
   }
 }
 
@@ -392,3 +641,129 @@ function stripHtml(html: string): string {
     .replace(/\s+/g, ' ')
     .trim();
 }
+
+/**
+ * Flattens a rules document into the legacy `ParsedTerms` shape.
+ */
+export function toParsedTerms(rules: OfficialRules): ParsedTerms {
+  const { fields } = rules;
+  return {
+    minAge: fields.minAge.value,
+    geoRestrictions: fields.geoRestrictions.value,
+    entryFrequency: fields.entryFrequency.value,
+    maxEntries: fields.maxEntries.value,
+    startDate: fields.startDate.value,
+    endDate: fields.endDate.value,
+    excludedAffiliations: fields.excludedAffiliations.value,
+    // Absent from documents stored before schema version 2.
+    entryLimitScopes: fields.entryLimitScopes?.value ?? [],
+    requiresPurchase: fields.requiresPurchase.value,
+    voidWhereProhibited: fields.voidWhereProhibited.value,
+    // Absent from documents stored before schema version 3.
+    prizes: fields.prizes?.value ?? [],
+    // Absent from documents stored before schema version 4.
+    entryReset: fields.entryReset?.value ?? null,
+  };
+}
+
+/**
+ * Parses a clock time from the rules text into minutes after midnight.
+ * Seconds are dropped, so "11:59:59 PM" is 23:59.
+ */
+function parseClockMinutes(raw: string): number | null {
+  const value = raw.trim().toLowerCase();
+  if (value === 'midnight') return 0;
+  if (value === 'noon') return 12 * 60;
+
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(?:([ap])\.?\s?m\.?)?$/);
+  if (!match?.[1]) return null;
+
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3];
+
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'p' ? 12 : 0);
+  } else if (hour > 23 || !match[2]) {
+    // A bare number without minutes or am/pm is not a time.
+    return null;
+  }
+
+  return hour * 60 + minute;
+}
+
+function formatClockMinutes(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  return `${String(hour).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Builds a clause for a regex match, recording the surrounding sentence
+ * and its offsets within the normalized text.
+ */
+function clauseFromMatch<T>(
+  text: string,
+  match: RegExpMatchArray,
+  value: T,
+  confidence: number,
+  method: ExtractionMethod,
+): RuleClause<T> {
+  const index = match.index ?? text.indexOf(match[0]);
+  const { start, end } = sentenceBounds(text, index, index + match[0].length);
+
+  return {
+    value,
+    sourceText: text.slice(start, end),
+    span: { start, end },
+    confidence,
+    method,
+  };
+}
+
+/** Builds a clause for a field whose value fell back to the default. */
+function defaultClause<T>(value: T): RuleClause<T> {
+  return {
+    value,
+    sourceText: null,
+    span: null,
+    confidence: 0,
+    method: 'default',
+  };
+}
+
+/**
+ * Expands a match range to the enclosing sentence, capped at
+ * MAX_SOURCE_TEXT_LENGTH characters so that run-on legal text does not
+ * bloat the stored document.
+ */
+function sentenceBounds(
+  text: string,
+  matchStart: number,
+  matchEnd: number,
+): { start: number; end: number } {
+  let start = matchStart;
+  while (start > 0 && !/[.!?;]/.test(text[start - 1]!)) {
+    start--;
+  }
+  while (start < matchStart && /\s/.test(text[start]!)) {
+    start++;
+  }
+
+  let end = matchEnd;
+  while (end < text.length && !/[.!?;]/.test(text[end]!)) {
+    end++;
+  }
+  if (end < text.length) {
+    end++; // include the terminating punctuation
+  }
+
+  if (end - start > MAX_SOURCE_TEXT_LENGTH) {
+    const slack = Math.max(0, MAX_SOURCE_TEXT_LENGTH - (matchEnd - matchStart));
+    start = Math.max(start, matchStart - Math.floor(slack / 2));
+    end = Math.min(end, start + MAX_SOURCE_TEXT_LENGTH);
+  }
+
+  return { start, end };
+}
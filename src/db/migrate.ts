@@ -2,13 +2,15 @@
  * Migration runner for the sweepstakes platform.
  *
  * Creates all tables, indexes, and unique constraints if they do not
- * already exist. Uses raw SQL via better-sqlite3 so the migration is
+ * already exist, adds columns introduced after a table was first
+ * created, and rebuilds tables whose CHECK constraints were widened. Uses raw SQL via better-sqlite3 so the migration is
  * idempotent and can run without drizzle-kit tooling at runtime.
  *
  * Usage:
  *   npx tsx src/db/migrate.ts            # standalone
  *   import { migrate } from './migrate'  # programmatic
  */
+import type Database from "better-sqlite3";
 import { getSqlite, closeDb } from "./index.js";
 
 // ---------------------------------------------------------------------------
@@ -34,6 +36,9 @@ const DDL_STATEMENTS: string[] = [
     date_of_birth    TEXT,
     gender           TEXT,
     social_accounts  TEXT DEFAULT '{}',
+    employer         TEXT,
+    affiliations     TEXT DEFAULT '[]',
+    household_key    TEXT,
     is_active        INTEGER NOT NULL DEFAULT 1,
     created_at       TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
     updated_at       TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
@@ -56,9 +61,14 @@ const DDL_STATEMENTS: string[] = [
     end_date                TEXT,
     entry_frequency         TEXT DEFAULT 'once' CHECK(entry_frequency IN ('once','daily','weekly','unlimited')),
     max_entries             INTEGER,
+    reset_time              TEXT,
+    reset_timezone          TEXT,
+    reset_source            TEXT CHECK(reset_source IN ('rules','manual')),
     prize_description       TEXT,
     prize_value             REAL,
     prize_category          TEXT,
+    prize_pool_value        REAL,
+    prize_count             INTEGER,
     age_requirement         INTEGER DEFAULT 18,
     geo_restrictions        TEXT DEFAULT '{}',
     requires_captcha        INTEGER DEFAULT 0,
@@ -69,15 +79,101 @@ const DDL_STATEMENTS: string[] = [
     terms_url               TEXT,
     difficulty_score        REAL,
     legitimacy_score        REAL,
+    legitimacy_report       TEXT,
     priority_score          REAL,
     form_mapping            TEXT DEFAULT '{}',
     screenshot_path         TEXT,
     last_checked_at         TEXT,
+    paused_at               TEXT,
+    pause_reason            TEXT,
+    merged_into_id          TEXT,
     metadata                TEXT DEFAULT '{}',
     created_at              TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
     updated_at              TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
   )`,
 
+  // ── contest_rules ─────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS contest_rules (
+    id              TEXT PRIMARY KEY,
+    contest_id      TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE,
+    version         INTEGER NOT NULL,
+    terms_url       TEXT NOT NULL,
+    content_hash    TEXT NOT NULL,
+    schema_version  INTEGER NOT NULL,
+    document        TEXT NOT NULL,
+    changes         TEXT NOT NULL DEFAULT '[]',
+    created_at      TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    UNIQUE(contest_id, version)
+  )`,
+
+  // ── contest_prizes ────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS contest_prizes (
+    id           TEXT PRIMARY KEY,
+    contest_id   TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE,
+    rank         INTEGER NOT NULL,
+    tier         TEXT NOT NULL,
+    description  TEXT,
+    arv          REAL,
+    quantity     INTEGER NOT NULL DEFAULT 1,
+    category     TEXT,
+    source       TEXT NOT NULL DEFAULT 'page' CHECK(source IN ('page','rules','manual')),
+    created_at   TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
+  // ── contest_sources ───────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS contest_sources (
+    id                TEXT PRIMARY KEY,
+    contest_id        TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE,
+    source            TEXT NOT NULL,
+    listing_url       TEXT NOT NULL,
+    canonical_method  TEXT,
+    message_id        TEXT,
+    trust             REAL NOT NULL,
+    fields            TEXT NOT NULL DEFAULT '{}',
+    first_seen_at     TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    last_seen_at      TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
+  // ── contest_snapshots ─────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS contest_snapshots (
+    id               TEXT PRIMARY KEY,
+    contest_id       TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE,
+    reason           TEXT NOT NULL CHECK(reason IN ('discovery','first_entry','change')),
+    url              TEXT NOT NULL,
+    entry_id         TEXT,
+    html_path        TEXT NOT NULL,
+    text_path        TEXT NOT NULL,
+    screenshot_path  TEXT,
+    text_hash        TEXT NOT NULL,
+    html_bytes       INTEGER NOT NULL,
+    details          TEXT NOT NULL DEFAULT '{}',
+    captured_at      TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
+  // ── dedup index ───────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS dedup_urls (
+    url               TEXT PRIMARY KEY,
+    contest_id        TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE
+  )`,
+
+  `CREATE TABLE IF NOT EXISTS dedup_hashes (
+    hash              TEXT PRIMARY KEY,
+    contest_id        TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE
+  )`,
+
+  `CREATE TABLE IF NOT EXISTS dedup_titles (
+    contest_id        TEXT PRIMARY KEY REFERENCES contests(id) ON DELETE CASCADE,
+    normalized_title  TEXT NOT NULL,
+    title_length      INTEGER NOT NULL,
+    indexed_at        TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
+  `CREATE TABLE IF NOT EXISTS dedup_title_bands (
+    band              INTEGER NOT NULL,
+    bucket            INTEGER NOT NULL,
+    contest_id        TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE
+  )`,
+
   // ── entries ───────────────────────────────────────────────────────────
   `CREATE TABLE IF NOT EXISTS entries (
     id                TEXT PRIMARY KEY,
@@ -100,6 +196,7 @@ const DDL_STATEMENTS: string[] = [
     duration_ms       INTEGER,
     submitted_at      TEXT,
     confirmed_at      TEXT,
+    correlation_id    TEXT,
     created_at        TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
     updated_at        TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
   )`,
@@ -115,6 +212,21 @@ const DDL_STATEMENTS: string[] = [
     UNIQUE(contest_id, profile_id)
   )`,
 
+  // ── compliance_reviews ────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS compliance_reviews (
+    id          TEXT PRIMARY KEY,
+    contest_id  TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE,
+    profile_id  TEXT NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    status      TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','approved','rejected')),
+    rule_key    TEXT NOT NULL,
+    violations  TEXT NOT NULL DEFAULT '[]',
+    reason      TEXT,
+    decided_at  TEXT,
+    created_at  TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at  TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    UNIQUE(contest_id, profile_id)
+  )`,
+
   // ── wins ──────────────────────────────────────────────────────────────
   `CREATE TABLE IF NOT EXISTS wins (
     id                  TEXT PRIMARY KEY,
@@ -130,10 +242,52 @@ const DDL_STATEMENTS: string[] = [
     claim_url           TEXT,
     notes               TEXT,
     tax_reported        INTEGER DEFAULT 0,
+    fair_market_value   REAL,
+    fmv_note            TEXT,
+    reminders_sent      TEXT DEFAULT '[]',
     created_at          TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
     updated_at          TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
   )`,
 
+  // ── possible_wins ─────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS possible_wins (
+    id                TEXT PRIMARY KEY,
+    email_id          TEXT NOT NULL,
+    subject           TEXT NOT NULL,
+    from_address      TEXT NOT NULL,
+    snippet           TEXT,
+    prize_description TEXT,
+    prize_value       REAL,
+    claim_url         TEXT,
+    claim_deadline    TEXT,
+    confidence        REAL NOT NULL,
+    signals           TEXT NOT NULL DEFAULT '[]',
+    entry_id          TEXT REFERENCES entries(id) ON DELETE SET NULL,
+    contest_id        TEXT REFERENCES contests(id) ON DELETE SET NULL,
+    profile_id        TEXT REFERENCES profiles(id) ON DELETE SET NULL,
+    status            TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','confirmed','dismissed')),
+    win_id            TEXT,
+    decided_at        TEXT,
+    created_at        TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at        TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
+  // ── win_documents ─────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS win_documents (
+    id             TEXT PRIMARY KEY,
+    win_id         TEXT NOT NULL REFERENCES wins(id) ON DELETE CASCADE,
+    doc_type       TEXT NOT NULL CHECK(doc_type IN ('affidavit','w9','release')),
+    status         TEXT NOT NULL DEFAULT 'required' CHECK(status IN ('required','uploaded','submitted','waived')),
+    file_path      TEXT,
+    original_name  TEXT,
+    mime_type      TEXT,
+    size_bytes     INTEGER,
+    notes          TEXT,
+    uploaded_at    TEXT,
+    created_at     TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at     TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
   // ── proxies ───────────────────────────────────────────────────────────
   `CREATE TABLE IF NOT EXISTS proxies (
     id                TEXT PRIMARY KEY,
@@ -225,7 +379,7 @@ const DDL_STATEMENTS: string[] = [
   `CREATE TABLE IF NOT EXISTS discovery_sources (
     id             TEXT PRIMARY KEY,
     name           TEXT NOT NULL UNIQUE,
-    type           TEXT NOT NULL CHECK(type IN ('crawler','rss','api','social')),
+    type           TEXT NOT NULL CHECK(type IN ('crawler','rss','api','social','sitemap','structured-data','newsletter')),
     url            TEXT,
     config         TEXT DEFAULT '{}',
     is_active      INTEGER NOT NULL DEFAULT 1,
@@ -233,9 +387,60 @@ const DDL_STATEMENTS: string[] = [
     contests_found INTEGER NOT NULL DEFAULT 0,
     error_count    INTEGER NOT NULL DEFAULT 0,
     schedule       TEXT,
+    health_status  TEXT NOT NULL DEFAULT 'healthy' CHECK(health_status IN ('healthy','degraded','quarantined')),
+    health_score   REAL,
+    health_report  TEXT,
+    degraded_runs  INTEGER NOT NULL DEFAULT 0,
+    quarantined_at TEXT,
+    quarantine_reason TEXT,
     created_at     TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
   )`,
 
+  // ── crawl_pages ───────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS crawl_pages (
+    url            TEXT PRIMARY KEY,
+    source_id      TEXT NOT NULL,
+    etag           TEXT,
+    last_modified  TEXT,
+    fingerprint    TEXT,
+    bytes          INTEGER NOT NULL DEFAULT 0,
+    fetched_at     TEXT NOT NULL,
+    changed_at     TEXT NOT NULL
+  )`,
+
+  // ── crawl_budget_usage ────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS crawl_budget_usage (
+    source_id      TEXT NOT NULL,
+    day            TEXT NOT NULL,
+    pages          INTEGER NOT NULL DEFAULT 0,
+    bytes          INTEGER NOT NULL DEFAULT 0,
+    not_modified   INTEGER NOT NULL DEFAULT 0,
+    unchanged      INTEGER NOT NULL DEFAULT 0
+  )`,
+
+  // ── reputation_entries ────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS reputation_entries (
+    id          TEXT PRIMARY KEY,
+    kind        TEXT NOT NULL CHECK(kind IN ('domain','sponsor')),
+    value       TEXT NOT NULL,
+    list        TEXT NOT NULL CHECK(list IN ('allow','deny')),
+    reason      TEXT,
+    added_by    TEXT NOT NULL,
+    created_at  TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at  TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
+  // ── scam_reports ──────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS scam_reports (
+    id           TEXT PRIMARY KEY,
+    contest_id   TEXT REFERENCES contests(id) ON DELETE SET NULL,
+    domain       TEXT NOT NULL,
+    sponsor      TEXT,
+    reason       TEXT,
+    reported_by  TEXT NOT NULL,
+    created_at   TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
   // ── cost_log ──────────────────────────────────────────────────────────
   `CREATE TABLE IF NOT EXISTS cost_log (
     id          TEXT PRIMARY KEY,
@@ -277,6 +482,90 @@ const DDL_STATEMENTS: string[] = [
     details     TEXT DEFAULT '{}',
     created_at  TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
   )`,
+
+  // ── queue_jobs ────────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS queue_jobs (
+    id               TEXT PRIMARY KEY,
+    queue            TEXT NOT NULL,
+    name             TEXT NOT NULL,
+    data             TEXT NOT NULL DEFAULT '{}',
+    opts             TEXT NOT NULL DEFAULT '{}',
+    status           TEXT NOT NULL DEFAULT 'waiting' CHECK(status IN ('waiting','active','completed','failed')),
+    priority         INTEGER NOT NULL DEFAULT 0,
+    attempts         INTEGER NOT NULL DEFAULT 1,
+    attempts_made    INTEGER NOT NULL DEFAULT 0,
+    run_at           INTEGER NOT NULL,
+    lease_owner      TEXT,
+    lease_expires_at INTEGER,
+    progress         INTEGER NOT NULL DEFAULT 0,
+    return_value     TEXT,
+    failed_reason    TEXT,
+    timestamp        INTEGER NOT NULL,
+    processed_on     INTEGER,
+    finished_on      INTEGER
+  )`,
+
+  // ── queue_dead_letters ────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS queue_dead_letters (
+    job_id         TEXT PRIMARY KEY,
+    queue          TEXT NOT NULL,
+    name           TEXT NOT NULL,
+    data           TEXT NOT NULL DEFAULT '{}',
+    attempts_made  INTEGER NOT NULL,
+    failed_reason  TEXT NOT NULL,
+    failed_at      TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
+  // ── queue_state ───────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS queue_state (
+    queue       TEXT PRIMARY KEY,
+    paused      INTEGER NOT NULL DEFAULT 0,
+    updated_at  TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  )`,
+
+  // ── job_flows ─────────────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS job_flows (
+    id             TEXT PRIMARY KEY,
+    root_job_id    TEXT NOT NULL UNIQUE,
+    contest_id     TEXT NOT NULL REFERENCES contests(id) ON DELETE CASCADE,
+    profile_id     TEXT NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    entry_id       TEXT,
+    status         TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running','completed','failed','cancelled')),
+    failed_stage   TEXT,
+    error          TEXT,
+    compensations  TEXT NOT NULL DEFAULT '[]',
+    created_at     TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at     TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    finished_at    TEXT
+  )`,
+
+  // ── job_flow_stages ───────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS job_flow_stages (
+    id            TEXT PRIMARY KEY,
+    flow_id       TEXT NOT NULL REFERENCES job_flows(id) ON DELETE CASCADE,
+    stage         TEXT NOT NULL CHECK(stage IN ('entry','email-verify','sms-verify')),
+    parent_stage  TEXT,
+    job_id        TEXT,
+    status        TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','queued','running','completed','failed','cancelled')),
+    attempts      INTEGER NOT NULL DEFAULT 0,
+    error         TEXT,
+    result        TEXT,
+    queued_at     TEXT,
+    started_at    TEXT,
+    finished_at   TEXT
+  )`,
+
+  // ── circuit_breakers ──────────────────────────────────────────────────
+  `CREATE TABLE IF NOT EXISTS circuit_breakers (
+    domain               TEXT PRIMARY KEY,
+    state                TEXT NOT NULL DEFAULT 'CLOSED' CHECK(state IN ('CLOSED','OPEN','HALF_OPEN')),
+    failure_count        INTEGER NOT NULL DEFAULT 0,
+    success_count        INTEGER NOT NULL DEFAULT 0,
+    last_failure_at      INTEGER,
+    last_state_change_at INTEGER NOT NULL,
+    probe_at             INTEGER,
+    reason               TEXT
+  )`,
 ];
 
 // ---------------------------------------------------------------------------
@@ -284,6 +573,9 @@ const DDL_STATEMENTS: string[] = [
 // ---------------------------------------------------------------------------
 
 const INDEX_STATEMENTS: string[] = [
+  // profiles
+  `CREATE INDEX IF NOT EXISTS idx_profiles_household_key ON profiles(household_key)`,
+
   // contests
   `CREATE UNIQUE INDEX IF NOT EXISTS idx_contests_external_id ON contests(external_id)`,
   `CREATE UNIQUE INDEX IF NOT EXISTS idx_contests_url ON contests(url)`,
@@ -292,23 +584,63 @@ const INDEX_STATEMENTS: string[] = [
   `CREATE INDEX IF NOT EXISTS idx_contests_end_date ON contests(end_date)`,
   `CREATE INDEX IF NOT EXISTS idx_contests_priority ON contests(priority_score)`,
 
+  // contest_rules
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_contest_rules_contest_version ON contest_rules(contest_id, version)`,
+
+  // contest_prizes
+  `CREATE INDEX IF NOT EXISTS idx_contest_prizes_contest ON contest_prizes(contest_id, rank)`,
+
+  // contest_sources
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_contest_sources_source_listing ON contest_sources(source, listing_url)`,
+  `CREATE INDEX IF NOT EXISTS idx_contest_sources_contest ON contest_sources(contest_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_contest_snapshots_contest ON contest_snapshots(contest_id, captured_at)`,
+
+  // dedup index
+  `CREATE INDEX IF NOT EXISTS idx_dedup_urls_contest ON dedup_urls(contest_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_dedup_hashes_contest ON dedup_hashes(contest_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_dedup_title_bands_bucket ON dedup_title_bands(band, bucket)`,
+  `CREATE INDEX IF NOT EXISTS idx_dedup_title_bands_contest ON dedup_title_bands(contest_id)`,
+
   // entries
   `CREATE INDEX IF NOT EXISTS idx_entries_contest ON entries(contest_id)`,
   `CREATE INDEX IF NOT EXISTS idx_entries_profile ON entries(profile_id)`,
   `CREATE INDEX IF NOT EXISTS idx_entries_status ON entries(status)`,
   `CREATE INDEX IF NOT EXISTS idx_entries_submitted ON entries(submitted_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_entries_correlation ON entries(correlation_id)`,
 
   // entry_limits
   `CREATE UNIQUE INDEX IF NOT EXISTS idx_entry_limits_contest_profile ON entry_limits(contest_id, profile_id)`,
 
+  // compliance_reviews
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_reviews_contest_profile ON compliance_reviews(contest_id, profile_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_compliance_reviews_status ON compliance_reviews(status)`,
+
   // wins
   `CREATE INDEX IF NOT EXISTS idx_wins_profile ON wins(profile_id)`,
   `CREATE INDEX IF NOT EXISTS idx_wins_claim_status ON wins(claim_status)`,
 
+  // possible_wins
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_possible_wins_email ON possible_wins(email_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_possible_wins_status ON possible_wins(status)`,
+
+  // win_documents
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_win_documents_win_type ON win_documents(win_id, doc_type)`,
+
   // proxies
   `CREATE INDEX IF NOT EXISTS idx_proxies_active ON proxies(is_active, health_status)`,
   `CREATE INDEX IF NOT EXISTS idx_proxies_geo ON proxies(country, state)`,
 
+  // crawl_pages / crawl_budget_usage
+  `CREATE INDEX IF NOT EXISTS idx_crawl_pages_source ON crawl_pages(source_id)`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_crawl_budget_usage_source_day ON crawl_budget_usage(source_id, day)`,
+
+  // reputation_entries
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_reputation_entries_kind_value ON reputation_entries(kind, value)`,
+
+  // scam_reports
+  `CREATE INDEX IF NOT EXISTS idx_scam_reports_domain ON scam_reports(domain)`,
+  `CREATE INDEX IF NOT EXISTS idx_scam_reports_sponsor ON scam_reports(sponsor)`,
+
   // cost_log
   `CREATE INDEX IF NOT EXISTS idx_cost_log_category ON cost_log(category)`,
 
@@ -320,15 +652,109 @@ const INDEX_STATEMENTS: string[] = [
 
   // audit_log
   `CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action)`,
+
+  // queue_jobs / queue_dead_letters
+  `CREATE INDEX IF NOT EXISTS idx_queue_jobs_claim ON queue_jobs(queue, status, priority, run_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_queue_jobs_lease ON queue_jobs(status, lease_expires_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_queue_dead_letters_queue ON queue_dead_letters(queue, failed_at)`,
+
+  // job_flows / job_flow_stages
+  `CREATE INDEX IF NOT EXISTS idx_job_flows_entry ON job_flows(entry_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_job_flows_status ON job_flows(status)`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_job_flow_stages_flow_stage ON job_flow_stages(flow_id, stage)`,
+
+  // circuit_breakers
+  `CREATE INDEX IF NOT EXISTS idx_circuit_breakers_state ON circuit_breakers(state)`,
 ];
 
+// ---------------------------------------------------------------------------
+// Column additions
+// ---------------------------------------------------------------------------
+
+/**
+ * Columns added to existing tables after their initial release. The
+ * CREATE TABLE statements above already include them for new databases;
+ * these are applied only when the column is missing.
+ */
+const COLUMN_ADDITIONS: Array<{ table: string; column: string; definition: string }> = [
+  { table: "profiles", column: "employer", definition: "TEXT" },
+  { table: "profiles", column: "affiliations", definition: "TEXT DEFAULT '[]'" },
+  { table: "wins", column: "fair_market_value", definition: "REAL" },
+  { table: "wins", column: "fmv_note", definition: "TEXT" },
+  { table: "wins", column: "reminders_sent", definition: "TEXT DEFAULT '[]'" },
+  { table: "contests", column: "paused_at", definition: "TEXT" },
+  { table: "contests", column: "pause_reason", definition: "TEXT" },
+  { table: "contest_rules", column: "changes", definition: "TEXT NOT NULL DEFAULT '[]'" },
+  { table: "contests", column: "prize_pool_value", definition: "REAL" },
+  { table: "contests", column: "prize_count", definition: "INTEGER" },
+  { table: "contests", column: "legitimacy_report", definition: "TEXT" },
+  { table: "contests", column: "merged_into_id", definition: "TEXT" },
+  { table: "discovery_sources", column: "health_status", definition: "TEXT NOT NULL DEFAULT 'healthy'" },
+  { table: "discovery_sources", column: "health_score", definition: "REAL" },
+  { table: "discovery_sources", column: "health_report", definition: "TEXT" },
+  { table: "discovery_sources", column: "degraded_runs", definition: "INTEGER NOT NULL DEFAULT 0" },
+  { table: "discovery_sources", column: "quarantined_at", definition: "TEXT" },
+  { table: "discovery_sources", column: "quarantine_reason", definition: "TEXT" },
+  { table: "contest_sources", column: "message_id", definition: "TEXT" },
+  { table: "contests", column: "reset_time", definition: "TEXT" },
+  { table: "contests", column: "reset_timezone", definition: "TEXT" },
+  { table: "contests", column: "reset_source", definition: "TEXT CHECK(reset_source IN ('rules','manual'))" },
+  { table: "entries", column: "correlation_id", definition: "TEXT" },
+  { table: "profiles", column: "household_key", definition: "TEXT" },
+];
+
+// ---------------------------------------------------------------------------
+// Table rebuilds
+// ---------------------------------------------------------------------------
+
+/**
+ * Tables whose CHECK constraints changed after their initial release.
+ * SQLite cannot alter a constraint in place, so a table whose stored
+ * definition lacks `marker` is recreated from its DDL statement above
+ * and its rows copied across.
+ */
+const TABLE_REBUILDS: Array<{ table: string; marker: string }> = [
+  // sitemap, structured-data and newsletter source types
+  { table: "discovery_sources", marker: "'newsletter'" },
+];
+
+function rebuildTable(sqlite: Database.Database, table: string, marker: string): void {
+  const current = sqlite
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .get(table) as { sql: string } | undefined;
+  if (!current || current.sql.includes(marker)) return;
+
+  const ddl = DDL_STATEMENTS.find((statement) =>
+    statement.includes(`CREATE TABLE IF NOT EXISTS ${table} (`),
+  );
+  if (!ddl) {
+    throw new Error(`No DDL statement for rebuilt table ${table}`);
+  }
+
+  const columnsOf = (name: string) =>
+    (sqlite.prepare(`PRAGMA table_info(${name})`).all() as Array<{ name: string }>).map((c) => c.name);
+
+  const staging = `${table}__rebuild`;
+  sqlite.exec(ddl.replace(`IF NOT EXISTS ${table} (`, `${staging} (`));
+  const stagingColumns = columnsOf(staging);
+  const shared = columnsOf(table)
+    .filter((column) => stagingColumns.includes(column))
+    .join(", ");
+
+  sqlite.exec(`INSERT INTO ${staging} (${shared}) SELECT ${shared} FROM ${table}`);
+  sqlite.exec(`DROP TABLE ${table}`);
+  sqlite.exec(`ALTER TABLE ${staging} RENAME TO ${table}`);
+  console.log(`[migrate] Rebuilt ${table} with updated constraints.`);
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
 /**
  * Run all migrations (idempotent). Creates tables and indexes if they
- * do not already exist.
+ * do not already exist, adds any missing columns, and rebuilds tables
+ * with outdated constraints.
  */
 export function migrate(dbPath?: string): void {
   const sqlite = getSqlite(dbPath);
@@ -338,6 +764,17 @@ export function migrate(dbPath?: string): void {
     for (const ddl of DDL_STATEMENTS) {
       sqlite.exec(ddl);
     }
+    for (const { table, column, definition } of COLUMN_ADDITIONS) {
+      const columns = sqlite
+        .prepare(`PRAGMA table_info(${table})`)
+        .all() as Array<{ name: string }>;
+      if (!columns.some((c) => c.name === column)) {
+        sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+    for (const { table, marker } of TABLE_REBUILDS) {
+      rebuildTable(sqlite, table, marker);
+    }
     for (const idx of INDEX_STATEMENTS) {
       sqlite.exec(idx);
     }
@@ -16,27 +16,34 @@ const currentTimestamp = sql`(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
 // ---------------------------------------------------------------------------
 // profiles
 // ---------------------------------------------------------------------------
-export const profiles = sqliteTable("profiles", {
-  id: text("id").primaryKey(), // ULID
-  firstName: text("first_name").notNull(),
-  lastName: text("last_name").notNull(),
-  email: text("email").notNull(),
-  emailAliases: text("email_aliases").default("[]"), // JSON string[]
-  phone: text("phone"),
-  phoneProvider: text("phone_provider"),
-  addressLine1: text("address_line1"),
-  addressLine2: text("address_line2"),
-  city: text("city"),
-  state: text("state"),
-  zip: text("zip"),
-  country: text("country").default("US").notNull(),
-  dateOfBirth: text("date_of_birth"), // ISO-8601 date
-  gender: text("gender"),
-  socialAccounts: text("social_accounts").default("{}"), // JSON Record<string, string>
-  isActive: integer("is_active").default(1).notNull(),
-  createdAt: text("created_at").default(currentTimestamp).notNull(),
-  updatedAt: text("updated_at").default(currentTimestamp).notNull(),
-});
+export const profiles = sqliteTable(
+  "profiles",
+  {
+    id: text("id").primaryKey(), // ULID
+    firstName: text("first_name").notNull(),
+    lastName: text("last_name").notNull(),
+    email: text("email").notNull(),
+    emailAliases: text("email_aliases").default("[]"), // JSON string[]
+    phone: text("phone"),
+    phoneProvider: text("phone_provider"),
+    addressLine1: text("address_line1"),
+    addressLine2: text("address_line2"),
+    city: text("city"),
+    state: text("state"),
+    zip: text("zip"),
+    country: text("country").default("US").notNull(),
+    dateOfBirth: text("date_of_birth"), // ISO-8601 date
+    gender: text("gender"),
+    socialAccounts: text("social_accounts").default("{}"), // JSON Record<string, string>
+    employer: text("employer"),
+    affiliations: text("affiliations").default("[]"), // JSON ProfileAffiliation[]
+    householdKey: text("household_key"), // keyed hash of the normalized mailing address
+    isActive: integer("is_active").default(1).notNull(),
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+    updatedAt: text("updated_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [index("idx_profiles_household_key").on(table.householdKey)],
+);
 
 // ---------------------------------------------------------------------------
 // contests
@@ -84,9 +91,14 @@ export const contests = sqliteTable(
       enum: ["once", "daily", "weekly", "unlimited"],
     }).default("once"),
     maxEntries: integer("max_entries"),
+    resetTime: text("reset_time"), // "HH:MM" when a new entry period starts
+    resetTimezone: text("reset_timezone"), // IANA zone of resetTime
+    resetSource: text("reset_source", { enum: ["rules", "manual"] }),
     prizeDescription: text("prize_description"),
     prizeValue: real("prize_value"),
     prizeCategory: text("prize_category"),
+    prizePoolValue: real("prize_pool_value"), // sum of ARV x quantity over contest_prizes
+    prizeCount: integer("prize_count"), // sum of quantity over contest_prizes
     ageRequirement: integer("age_requirement").default(18),
     geoRestrictions: text("geo_restrictions").default("{}"), // JSON
     requiresCaptcha: integer("requires_captcha").default(0),
@@ -97,10 +109,14 @@ export const contests = sqliteTable(
     termsUrl: text("terms_url"),
     difficultyScore: real("difficulty_score"),
     legitimacyScore: real("legitimacy_score"),
+    legitimacyReport: text("legitimacy_report"), // JSON LegitimacyReport
     priorityScore: real("priority_score"),
     formMapping: text("form_mapping").default("{}"), // JSON
     screenshotPath: text("screenshot_path"),
     lastCheckedAt: text("last_checked_at"),
+    pausedAt: text("paused_at"),
+    pauseReason: text("pause_reason"),
+    mergedIntoId: text("merged_into_id"), // set when merged into another contest
     metadata: text("metadata").default("{}"), // JSON
     createdAt: text("created_at").default(currentTimestamp).notNull(),
     updatedAt: text("updated_at").default(currentTimestamp).notNull(),
@@ -115,6 +131,163 @@ export const contests = sqliteTable(
   ],
 );
 
+// ---------------------------------------------------------------------------
+// contest_rules (versioned official-rules documents, one row per revision)
+// ---------------------------------------------------------------------------
+export const contestRules = sqliteTable(
+  "contest_rules",
+  {
+    id: text("id").primaryKey(), // ULID
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    termsUrl: text("terms_url").notNull(),
+    contentHash: text("content_hash").notNull(),
+    schemaVersion: integer("schema_version").notNull(),
+    document: text("document").notNull(), // JSON OfficialRules
+    changes: text("changes").default("[]").notNull(), // JSON RuleFieldChange[] vs. previous revision
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_contest_rules_contest_version").on(
+      table.contestId,
+      table.version,
+    ),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// contest_prizes (prize table: one row per tier, grand prize first)
+// ---------------------------------------------------------------------------
+export const contestPrizes = sqliteTable(
+  "contest_prizes",
+  {
+    id: text("id").primaryKey(), // ULID
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+    rank: integer("rank").notNull(), // 1 = grand prize
+    tier: text("tier").notNull(), // "Grand Prize", "First Prize", "Instant Win Prize", ...
+    description: text("description"),
+    arv: real("arv"), // approximate retail value of ONE prize in this tier
+    quantity: integer("quantity").default(1).notNull(),
+    category: text("category"),
+    source: text("source", { enum: ["page", "rules", "manual"] })
+      .default("page")
+      .notNull(),
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    index("idx_contest_prizes_contest").on(table.contestId, table.rank),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// contest_sources (every listing of a contest, for cross-source merging)
+// ---------------------------------------------------------------------------
+export const contestSources = sqliteTable(
+  "contest_sources",
+  {
+    id: text("id").primaryKey(), // ULID
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+    source: text("source").notNull(), // discovery source name, or "manual"
+    listingUrl: text("listing_url").notNull(), // URL as listed by the source
+    canonicalMethod: text("canonical_method"), // how listing_url was resolved to contests.url
+    messageId: text("message_id"), // originating email message, for newsletter listings
+    trust: real("trust").notNull(), // 0-1, weight of this listing's field values
+    fields: text("fields").default("{}").notNull(), // JSON SourceFields
+    firstSeenAt: text("first_seen_at").default(currentTimestamp).notNull(),
+    lastSeenAt: text("last_seen_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_contest_sources_source_listing").on(table.source, table.listingUrl),
+    index("idx_contest_sources_contest").on(table.contestId),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// contest_snapshots (archived contest pages, see compliance/snapshot-archive.ts)
+// ---------------------------------------------------------------------------
+export const contestSnapshots = sqliteTable(
+  "contest_snapshots",
+  {
+    id: text("id").primaryKey(), // ULID
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+    reason: text("reason", {
+      enum: ["discovery", "first_entry", "change"],
+    }).notNull(),
+    url: text("url").notNull(), // page URL at capture time
+    entryId: text("entry_id"), // entry being made, for first_entry snapshots
+    htmlPath: text("html_path").notNull(),
+    textPath: text("text_path").notNull(),
+    screenshotPath: text("screenshot_path"), // null when captured without a browser
+    textHash: text("text_hash").notNull(), // SHA-256 of the extracted text
+    htmlBytes: integer("html_bytes").notNull(),
+    details: text("details").default("{}").notNull(), // JSON, e.g. broken selectors for change snapshots
+    capturedAt: text("captured_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    index("idx_contest_snapshots_contest").on(table.contestId, table.capturedAt),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// dedup_* (persistent deduplication index, see discovery/dedup-index.ts)
+// ---------------------------------------------------------------------------
+export const dedupUrls = sqliteTable(
+  "dedup_urls",
+  {
+    url: text("url").primaryKey(), // raw and normalized contest URLs
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+  },
+  (table) => [index("idx_dedup_urls_contest").on(table.contestId)],
+);
+
+export const dedupHashes = sqliteTable(
+  "dedup_hashes",
+  {
+    hash: text("hash").primaryKey(), // SHA-256 of normalized URL, title and sponsor
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+  },
+  (table) => [index("idx_dedup_hashes_contest").on(table.contestId)],
+);
+
+export const dedupTitles = sqliteTable(
+  "dedup_titles",
+  {
+    contestId: text("contest_id")
+      .primaryKey()
+      .references(() => contests.id, { onDelete: "cascade" }),
+    normalizedTitle: text("normalized_title").notNull(),
+    titleLength: integer("title_length").notNull(),
+    indexedAt: text("indexed_at").default(currentTimestamp).notNull(),
+  },
+);
+
+export const dedupTitleBands = sqliteTable(
+  "dedup_title_bands",
+  {
+    band: integer("band").notNull(), // LSH band number
+    bucket: integer("bucket").notNull(), // hash of the band's MinHash values
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    index("idx_dedup_title_bands_bucket").on(table.band, table.bucket),
+    index("idx_dedup_title_bands_contest").on(table.contestId),
+  ],
+);
+
 // ---------------------------------------------------------------------------
 // entries
 // ---------------------------------------------------------------------------
@@ -158,6 +331,7 @@ export const entries = sqliteTable(
     durationMs: integer("duration_ms"),
     submittedAt: text("submitted_at"),
     confirmedAt: text("confirmed_at"),
+    correlationId: text("correlation_id"), // job_flows.id of the flow that made the entry
     createdAt: text("created_at").default(currentTimestamp).notNull(),
     updatedAt: text("updated_at").default(currentTimestamp).notNull(),
   },
@@ -166,6 +340,7 @@ export const entries = sqliteTable(
     index("idx_entries_profile").on(table.profileId),
     index("idx_entries_status").on(table.status),
     index("idx_entries_submitted").on(table.submittedAt),
+    index("idx_entries_correlation").on(table.correlationId),
   ],
 );
 
@@ -194,6 +369,40 @@ export const entryLimits = sqliteTable(
   ],
 );
 
+// ---------------------------------------------------------------------------
+// compliance_reviews (human review queue for contest/profile pairs)
+// ---------------------------------------------------------------------------
+export const complianceReviews = sqliteTable(
+  "compliance_reviews",
+  {
+    id: text("id").primaryKey(), // ULID
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+    profileId: text("profile_id")
+      .notNull()
+      .references(() => profiles.id, { onDelete: "cascade" }),
+    status: text("status", {
+      enum: ["pending", "approved", "rejected"],
+    })
+      .default("pending")
+      .notNull(),
+    ruleKey: text("rule_key").notNull(), // sorted review rule names, comma-joined
+    violations: text("violations").default("[]").notNull(), // JSON ComplianceViolation[]
+    reason: text("reason"),
+    decidedAt: text("decided_at"),
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+    updatedAt: text("updated_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_compliance_reviews_contest_profile").on(
+      table.contestId,
+      table.profileId,
+    ),
+    index("idx_compliance_reviews_status").on(table.status),
+  ],
+);
+
 // ---------------------------------------------------------------------------
 // wins
 // ---------------------------------------------------------------------------
@@ -230,6 +439,9 @@ export const wins = sqliteTable(
     claimUrl: text("claim_url"),
     notes: text("notes"),
     taxReported: integer("tax_reported").default(0),
+    fairMarketValue: real("fair_market_value"),
+    fmvNote: text("fmv_note"),
+    remindersSent: text("reminders_sent").default("[]"), // JSON number[] of hours-before-deadline tiers
     createdAt: text("created_at").default(currentTimestamp).notNull(),
     updatedAt: text("updated_at").default(currentTimestamp).notNull(),
   },
@@ -239,6 +451,74 @@ export const wins = sqliteTable(
   ],
 );
 
+// ---------------------------------------------------------------------------
+// possible_wins (low-confidence win emails awaiting confirmation)
+// ---------------------------------------------------------------------------
+export const possibleWins = sqliteTable(
+  "possible_wins",
+  {
+    id: text("id").primaryKey(), // ULID
+    emailId: text("email_id").notNull(),
+    subject: text("subject").notNull(),
+    fromAddress: text("from_address").notNull(),
+    snippet: text("snippet"),
+    prizeDescription: text("prize_description"),
+    prizeValue: real("prize_value"),
+    claimUrl: text("claim_url"),
+    claimDeadline: text("claim_deadline"),
+    confidence: real("confidence").notNull(),
+    signals: text("signals").default("[]").notNull(), // JSON WinSignal[]
+    entryId: text("entry_id").references(() => entries.id, { onDelete: "set null" }),
+    contestId: text("contest_id").references(() => contests.id, { onDelete: "set null" }),
+    profileId: text("profile_id").references(() => profiles.id, { onDelete: "set null" }),
+    status: text("status", {
+      enum: ["pending", "confirmed", "dismissed"],
+    })
+      .default("pending")
+      .notNull(),
+    winId: text("win_id"),
+    decidedAt: text("decided_at"),
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+    updatedAt: text("updated_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_possible_wins_email").on(table.emailId),
+    index("idx_possible_wins_status").on(table.status),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// win_documents (claim paperwork checklist per win)
+// ---------------------------------------------------------------------------
+export const winDocuments = sqliteTable(
+  "win_documents",
+  {
+    id: text("id").primaryKey(), // ULID
+    winId: text("win_id")
+      .notNull()
+      .references(() => wins.id, { onDelete: "cascade" }),
+    docType: text("doc_type", {
+      enum: ["affidavit", "w9", "release"],
+    }).notNull(),
+    status: text("status", {
+      enum: ["required", "uploaded", "submitted", "waived"],
+    })
+      .default("required")
+      .notNull(),
+    filePath: text("file_path"),
+    originalName: text("original_name"),
+    mimeType: text("mime_type"),
+    sizeBytes: integer("size_bytes"),
+    notes: text("notes"),
+    uploadedAt: text("uploaded_at"),
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+    updatedAt: text("updated_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_win_documents_win_type").on(table.winId, table.docType),
+  ],
+);
+
 // ---------------------------------------------------------------------------
 // proxies
 // ---------------------------------------------------------------------------
@@ -376,7 +656,7 @@ export const discoverySources = sqliteTable("discovery_sources", {
   id: text("id").primaryKey(), // ULID
   name: text("name").notNull().unique(),
   type: text("type", {
-    enum: ["crawler", "rss", "api", "social"],
+    enum: ["crawler", "rss", "api", "social", "sitemap", "structured-data", "newsletter"],
   }).notNull(),
   url: text("url"),
   config: text("config").default("{}"), // JSON
@@ -385,9 +665,95 @@ export const discoverySources = sqliteTable("discovery_sources", {
   contestsFound: integer("contests_found").default(0).notNull(),
   errorCount: integer("error_count").default(0).notNull(),
   schedule: text("schedule"), // cron expression e.g. "0 */6 * * *"
+  healthStatus: text("health_status", {
+    enum: ["healthy", "degraded", "quarantined"],
+  })
+    .default("healthy")
+    .notNull(),
+  healthScore: real("health_score"), // 0-1, from the latest crawl
+  healthReport: text("health_report"), // JSON SourceHealthReport of the latest crawl
+  degradedRuns: integer("degraded_runs").default(0).notNull(), // consecutive degraded crawls
+  quarantinedAt: text("quarantined_at"),
+  quarantineReason: text("quarantine_reason"),
   createdAt: text("created_at").default(currentTimestamp).notNull(),
 });
 
+// ---------------------------------------------------------------------------
+// crawl_pages (conditional-fetch state of listing pages, see discovery/crawl-session.ts)
+// ---------------------------------------------------------------------------
+export const crawlPages = sqliteTable(
+  "crawl_pages",
+  {
+    url: text("url").primaryKey(),
+    sourceId: text("source_id").notNull(), // discovery_sources.id
+    etag: text("etag"),
+    lastModified: text("last_modified"),
+    fingerprint: text("fingerprint"), // SHA-256 of the page's normalized content
+    bytes: integer("bytes").default(0).notNull(), // size of the last full response
+    fetchedAt: text("fetched_at").notNull(),
+    changedAt: text("changed_at").notNull(), // when the fingerprint last changed
+  },
+  (table) => [index("idx_crawl_pages_source").on(table.sourceId)],
+);
+
+// ---------------------------------------------------------------------------
+// crawl_budget_usage (pages and bytes fetched per source per UTC day)
+// ---------------------------------------------------------------------------
+export const crawlBudgetUsage = sqliteTable(
+  "crawl_budget_usage",
+  {
+    sourceId: text("source_id").notNull(), // discovery_sources.id
+    day: text("day").notNull(), // YYYY-MM-DD (UTC)
+    pages: integer("pages").default(0).notNull(), // requests made, 304s included
+    bytes: integer("bytes").default(0).notNull(),
+    notModified: integer("not_modified").default(0).notNull(), // 304 responses
+    unchanged: integer("unchanged").default(0).notNull(), // full responses with a known fingerprint
+  },
+  (table) => [uniqueIndex("idx_crawl_budget_usage_source_day").on(table.sourceId, table.day)],
+);
+
+// ---------------------------------------------------------------------------
+// reputation_entries (user-maintained sponsor / domain allow and deny lists)
+// ---------------------------------------------------------------------------
+export const reputationEntries = sqliteTable(
+  "reputation_entries",
+  {
+    id: text("id").primaryKey(), // ULID
+    kind: text("kind", { enum: ["domain", "sponsor"] }).notNull(),
+    value: text("value").notNull(), // normalized domain or sponsor name
+    list: text("list", { enum: ["allow", "deny"] }).notNull(),
+    reason: text("reason"),
+    addedBy: text("added_by").notNull(),
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+    updatedAt: text("updated_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    uniqueIndex("idx_reputation_entries_kind_value").on(table.kind, table.value),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// scam_reports (contests flagged as scams; feed back into legitimacy scoring)
+// ---------------------------------------------------------------------------
+export const scamReports = sqliteTable(
+  "scam_reports",
+  {
+    id: text("id").primaryKey(), // ULID
+    contestId: text("contest_id").references(() => contests.id, {
+      onDelete: "set null",
+    }),
+    domain: text("domain").notNull(), // normalized, kept if the contest is deleted
+    sponsor: text("sponsor"), // normalized
+    reason: text("reason"),
+    reportedBy: text("reported_by").notNull(),
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [
+    index("idx_scam_reports_domain").on(table.domain),
+    index("idx_scam_reports_sponsor").on(table.sponsor),
+  ],
+);
+
 // ---------------------------------------------------------------------------
 // cost_log
 // ---------------------------------------------------------------------------
@@ -464,3 +830,151 @@ export const auditLog = sqliteTable(
   },
   (table) => [index("idx_audit_log_action").on(table.action)],
 );
+
+// ---------------------------------------------------------------------------
+// queue_jobs (durable job store used when Redis is unavailable, see queue/sqlite-job-store.ts)
+// ---------------------------------------------------------------------------
+export const queueJobs = sqliteTable(
+  "queue_jobs",
+  {
+    id: text("id").primaryKey(), // ULID, or opts.jobId when given
+    queue: text("queue").notNull(),
+    name: text("name").notNull(),
+    data: text("data").default("{}").notNull(), // JSON
+    opts: text("opts").default("{}").notNull(), // JSON JobsOptions
+    status: text("status", {
+      enum: ["waiting", "active", "completed", "failed"],
+    })
+      .default("waiting")
+      .notNull(),
+    priority: integer("priority").default(0).notNull(), // BullMQ semantics: 0 = none, then 1 = highest
+    attempts: integer("attempts").default(1).notNull(), // max attempts
+    attemptsMade: integer("attempts_made").default(0).notNull(),
+    runAt: integer("run_at").notNull(), // epoch ms; waiting jobs due later count as delayed
+    leaseOwner: text("lease_owner"),
+    leaseExpiresAt: integer("lease_expires_at"), // epoch ms
+    progress: integer("progress").default(0).notNull(),
+    returnValue: text("return_value"), // JSON
+    failedReason: text("failed_reason"),
+    timestamp: integer("timestamp").notNull(), // epoch ms the job was added
+    processedOn: integer("processed_on"),
+    finishedOn: integer("finished_on"),
+  },
+  (table) => [
+    index("idx_queue_jobs_claim").on(table.queue, table.status, table.priority, table.runAt),
+    index("idx_queue_jobs_lease").on(table.status, table.leaseExpiresAt),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// queue_dead_letters (jobs of the SQLite store that exhausted their attempts)
+// ---------------------------------------------------------------------------
+export const queueDeadLetters = sqliteTable(
+  "queue_dead_letters",
+  {
+    jobId: text("job_id").primaryKey(), // queue_jobs.id
+    queue: text("queue").notNull(),
+    name: text("name").notNull(),
+    data: text("data").default("{}").notNull(), // JSON
+    attemptsMade: integer("attempts_made").notNull(),
+    failedReason: text("failed_reason").notNull(),
+    failedAt: text("failed_at").default(currentTimestamp).notNull(),
+  },
+  (table) => [index("idx_queue_dead_letters_queue").on(table.queue, table.failedAt)],
+);
+
+// ---------------------------------------------------------------------------
+// queue_state (paused flag per queue for the SQLite store)
+// ---------------------------------------------------------------------------
+export const queueState = sqliteTable("queue_state", {
+  queue: text("queue").primaryKey(),
+  paused: integer("paused").default(0).notNull(),
+  updatedAt: text("updated_at").default(currentTimestamp).notNull(),
+});
+
+// ---------------------------------------------------------------------------
+// job_flows (an entry and the verification jobs that follow it)
+// ---------------------------------------------------------------------------
+export const jobFlows = sqliteTable(
+  "job_flows",
+  {
+    id: text("id").primaryKey(), // ULID; the correlation ID every job of the flow carries
+    rootJobId: text("root_job_id").notNull().unique(), // the entry job
+    contestId: text("contest_id")
+      .notNull()
+      .references(() => contests.id, { onDelete: "cascade" }),
+    profileId: text("profile_id")
+      .notNull()
+      .references(() => profiles.id, { onDelete: "cascade" }),
+    entryId: text("entry_id"), // set once the entry worker creates the entry
+    status: text("status", {
+      enum: ["running", "completed", "failed", "cancelled"],
+    })
+      .default("running")
+      .notNull(),
+    failedStage: text("failed_stage"),
+    error: text("error"),
+    compensations: text("compensations").default("[]").notNull(), // JSON string[] of actions taken on failure
+    createdAt: text("created_at").default(currentTimestamp).notNull(),
+    updatedAt: text("updated_at").default(currentTimestamp).notNull(),
+    finishedAt: text("finished_at"),
+  },
+  (table) => [
+    index("idx_job_flows_entry").on(table.entryId),
+    index("idx_job_flows_status").on(table.status),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// job_flow_stages (one job of a flow per queue)
+// ---------------------------------------------------------------------------
+export const jobFlowStages = sqliteTable(
+  "job_flow_stages",
+  {
+    id: text("id").primaryKey(), // ULID
+    flowId: text("flow_id")
+      .notNull()
+      .references(() => jobFlows.id, { onDelete: "cascade" }),
+    stage: text("stage", {
+      enum: ["entry", "email-verify", "sms-verify"],
+    }).notNull(), // the queue the stage runs on
+    parentStage: text("parent_stage"), // null for the entry stage
+    jobId: text("job_id"),
+    status: text("status", {
+      enum: ["pending", "queued", "running", "completed", "failed", "cancelled"],
+    })
+      .default("pending")
+      .notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    error: text("error"),
+    result: text("result"), // JSON
+    queuedAt: text("queued_at"),
+    startedAt: text("started_at"),
+    finishedAt: text("finished_at"),
+  },
+  (table) => [
+    uniqueIndex("idx_job_flow_stages_flow_stage").on(table.flowId, table.stage),
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// circuit_breakers (per-domain breaker state shared by workers when Redis is unavailable, see queue/circuit-breaker.ts)
+// ---------------------------------------------------------------------------
+export const circuitBreakers = sqliteTable(
+  "circuit_breakers",
+  {
+    domain: text("domain").primaryKey(),
+    state: text("state", {
+      enum: ["CLOSED", "OPEN", "HALF_OPEN"],
+    })
+      .default("CLOSED")
+      .notNull(),
+    failureCount: integer("failure_count").default(0).notNull(),
+    successCount: integer("success_count").default(0).notNull(),
+    lastFailureAt: integer("last_failure_at"), // epoch ms
+    lastStateChangeAt: integer("last_state_change_at").notNull(), // epoch ms
+    probeAt: integer("probe_at"), // epoch ms an OPEN circuit lets a recovery probe through
+    reason: text("reason"), // why the circuit last changed state
+  },
+  (table) => [index("idx_circuit_breakers_state").on(table.state)],
+);
@@ -17,6 +17,7 @@ import {
   appSettings,
   proxies,
 } from "./schema.js";
+import { backfillHouseholdKeys } from "../compliance/household.js";
 
 // ---------------------------------------------------------------------------
 // Run migration first (idempotent)
@@ -386,6 +387,7 @@ function seed(): void {
   for (const p of sampleProfiles) {
     db.insert(profiles).values(p).run();
   }
+  backfillHouseholdKeys(db);
   console.log(`[seed]   ${sampleProfiles.length} profiles`);
 
   for (const s of sampleSources) {
@@ -0,0 +1,248 @@
+/**
+ * Canonical contest URL resolution.
+ *
+ * Aggregators list a promotion under their own URL (a detail page or a
+ * tracking redirect), so the same contest reaches us under a different
+ * URL from every source. The resolver follows those links to the
+ * sponsor's own entry page. Only URLs on an aggregator (a built-in
+ * aggregator domain, the source's own host, or a newsletter's click
+ * tracker) are followed:
+ *
+ * 1. redirect query parameters (`/out?url=https%3A...`)
+ * 2. HTTP redirects
+ * 3. `<link rel="canonical">` or a meta refresh pointing off-aggregator
+ * 4. the detail page's "Enter" / "Visit" link (one more hop when that
+ *    link is itself an aggregator redirect)
+ *
+ * Resolution never throws; when nothing better is found the normalized
+ * input URL is returned with method 'unchanged'.
+ */
+
+import * as cheerio from 'cheerio';
+import { getLogger } from '../shared/logger.js';
+import { USER_AGENTS } from '../shared/constants.js';
+import { extractDomain, normalizeUrl, pickRandom } from '../shared/utils.js';
+import { httpClient } from './http-client.js';
+import { isAggregatorDomain } from './legitimacy-scorer.js';
+
+const log = getLogger('discovery', { component: 'canonical-url' });
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/** Query parameters aggregators use to carry the outbound URL. */
+const REDIRECT_PARAMS = ['url', 'u', 'dest', 'destination', 'redirect', 'redirect_url', 'target', 'to', 'link', 'out'];
+
+/** Aggregator paths that redirect to the sponsor. */
+const REDIRECT_PATH = /\/(?:go|out|visit|redirect|click|enter|link)(?:\/|$|\?)/i;
+
+const ENTRY_LINK_TEXT = /\b(?:enter|entry|visit|official (?:site|page)|go to (?:the )?(?:sweepstakes|giveaway|contest|promotion))\b/i;
+
+const ENTRY_LINK_ATTR = /\b(?:enter|entry|visit|outbound|sweeps-link)\b/i;
+
+/** Click-tracking hosts of email newsletter services; matched by suffix. */
+const EMAIL_TRACKING_HOSTS = [
+  'list-manage.com', 'mailchi.mp', 'ct.sendgrid.net', 'convertkit-mail.com', 'convertkit-mail2.com',
+  'rs6.net', 'aweber.com', 'mailgun.org', 'hubspotlinks.com',
+  'klaviyo.com', 'cmail19.com', 'cmail20.com', 'createsend1.com', 'exct.net',
+];
+
+/** Share and social links that are never the contest itself. */
+const IGNORED_HOSTS = [
+  'facebook.com', 'twitter.com', 'x.com', 'pinterest.com', 'instagram.com',
+  'linkedin.com', 'reddit.com', 'tiktok.com', 'youtube.com', 'google.com',
+];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CanonicalMethod =
+  | 'unchanged'
+  | 'query-param'
+  | 'http-redirect'
+  | 'link-canonical'
+  | 'meta-refresh'
+  | 'entry-link';
+
+export interface CanonicalUrl {
+  /** Normalized canonical URL. */
+  url: string;
+  method: CanonicalMethod;
+}
+
+export interface ResolveOptions {
+  /** URL of the discovery source; its host is treated as an aggregator. */
+  sourceUrl?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Resolver
+// ---------------------------------------------------------------------------
+
+export class CanonicalUrlResolver {
+  /** Resolved URLs by normalized input URL, kept for the resolver's lifetime. */
+  private readonly cache = new Map<string, CanonicalUrl>();
+
+  /**
+   * Resolve a listed contest URL to the sponsor's entry URL.
+   */
+  async resolve(url: string, options: ResolveOptions = {}): Promise<CanonicalUrl> {
+    const normalized = normalizeUrl(url);
+    const cached = this.cache.get(normalized);
+    if (cached) return cached;
+
+    const sourceHost = options.sourceUrl ? extractDomain(options.sourceUrl) : null;
+    const isAggregator = (candidate: string): boolean => {
+      const domain = extractDomain(candidate);
+      return (
+        isAggregatorDomain(domain) ||
+        isEmailTracker(domain) ||
+        (sourceHost !== null && domain === sourceHost)
+      );
+    };
+
+    let result: CanonicalUrl = { url: normalized, method: 'unchanged' };
+    if (!isAggregator(normalized)) {
+      this.cache.set(normalized, result);
+      return result;
+    }
+
+    const unwrapped = unwrapRedirectParam(normalized);
+    if (unwrapped && !isAggregator(unwrapped) && !isIgnored(unwrapped)) {
+      result = { url: normalizeUrl(unwrapped), method: 'query-param' };
+    } else {
+      try {
+        result = (await this.followAggregatorPage(normalized, isAggregator)) ?? result;
+      } catch (error) {
+        log.debug(
+          { url: normalized, err: error instanceof Error ? error.message : String(error) },
+          'Could not resolve canonical URL, keeping listed URL',
+        );
+      }
+    }
+
+    if (result.method !== 'unchanged') {
+      log.debug({ url: normalized, canonical: result.url, method: result.method }, 'Resolved canonical URL');
+    }
+
+    this.cache.set(normalized, result);
+    return result;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private
+  // -------------------------------------------------------------------------
+
+  /**
+   * Fetch an aggregator page and look for the way out to the sponsor.
+   */
+  private async followAggregatorPage(
+    url: string,
+    isAggregator: (candidate: string) => boolean,
+  ): Promise<CanonicalUrl | null> {
+    const { finalUrl, html } = await fetchPage(url);
+
+    if (!isAggregator(finalUrl) && !isIgnored(finalUrl)) {
+      return { url: normalizeUrl(finalUrl), method: 'http-redirect' };
+    }
+
+    const $ = cheerio.load(html);
+    const absolute = (href: string | undefined): string | null => {
+      if (!href) return null;
+      try {
+        const resolved = new URL(href.trim(), finalUrl);
+        return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+      } catch {
+        return null;
+      }
+    };
+    const isSponsorUrl = (candidate: string | null): candidate is string =>
+      candidate !== null && !isAggregator(candidate) && !isIgnored(candidate);
+
+    const canonical = absolute($('link[rel="canonical"]').attr('href'));
+    if (isSponsorUrl(canonical)) {
+      return { url: normalizeUrl(canonical), method: 'link-canonical' };
+    }
+
+    const refresh = $('meta[http-equiv="refresh" i]').attr('content')?.match(/url\s*=\s*['"]?([^'";]+)/i)?.[1];
+    const refreshUrl = absolute(refresh);
+    if (isSponsorUrl(refreshUrl)) {
+      return { url: normalizeUrl(refreshUrl), method: 'meta-refresh' };
+    }
+
+    // "Enter now" links, direct or through the aggregator's redirector
+    const links = $('a[href]')
+      .toArray()
+      .map((el) => ({
+        href: absolute($(el).attr('href')),
+        text: $(el).text(),
+        attrs: `${$(el).attr('class') ?? ''} ${$(el).attr('id') ?? ''} ${$(el).attr('rel') ?? ''}`,
+      }))
+      .filter((link) => link.href !== null && (ENTRY_LINK_TEXT.test(link.text) || ENTRY_LINK_ATTR.test(link.attrs)));
+
+    for (const link of links) {
+      const href = unwrapRedirectParam(link.href!) ?? link.href!;
+      if (isSponsorUrl(href)) {
+        return { url: normalizeUrl(href), method: 'entry-link' };
+      }
+      if (isAggregator(href) && REDIRECT_PATH.test(new URL(href).pathname)) {
+        const { finalUrl: target } = await fetchPage(href);
+        if (isSponsorUrl(target)) {
+          return { url: normalizeUrl(target), method: 'entry-link' };
+        }
+      }
+    }
+
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function fetchPage(url: string): Promise<{ finalUrl: string; html: string }> {
+  const response = await httpClient.get(url, {
+    headers: {
+      'User-Agent': pickRandom(USER_AGENTS),
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    },
+    responseType: 'text',
+    timeout: { request: REQUEST_TIMEOUT_MS },
+    followRedirect: true,
+  });
+  return { finalUrl: response.url, html: response.body };
+}
+
+/**
+ * The outbound URL carried in a redirect query parameter, if any.
+ */
+function unwrapRedirectParam(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  for (const param of REDIRECT_PARAMS) {
+    const value = parsed.searchParams.get(param);
+    if (value && /^https?:\/\//i.test(value)) {
+      try {
+        return new URL(value).toString();
+      } catch {
+        continue;
+      }
+    }
+  }
+  return null;
+}
+
+function isIgnored(url: string): boolean {
+  const domain = extractDomain(url);
+  return IGNORED_HOSTS.some((host) => domain === host || domain.endsWith(`.${host}`));
+}
+
+function isEmailTracker(domain: string): boolean {
+  return EMAIL_TRACKING_HOSTS.some((host) => domain === host || domain.endsWith(`.${host}`));
+}
@@ -2,13 +2,15 @@
  * Extract detailed contest information from an HTML page.
  *
  * Analyzes the full page content to detect contest type, end date,
- * prize info, entry method, CAPTCHA presence, age requirements,
- * geographic restrictions, and rules/terms links.
+ * prize info (including a tiered prize table when the page lists one),
+ * entry method, CAPTCHA presence, age requirements, geographic
+ * restrictions, and rules/terms links.
  */
 
 import * as cheerio from 'cheerio';
 import { getLogger } from '../shared/logger.js';
 import { parseDate } from '../shared/utils.js';
+import { extractPrizeTiers, summarizePrizes } from '../shared/prizes.js';
 import { CONTEST_TYPES, ENTRY_METHODS } from '../shared/constants.js';
 import type { ContestDetails } from './types.js';
 
@@ -108,7 +110,10 @@ export async function extractContestDetails(
   const type = detectContestType(lowerText);
   const endDate = extractEndDate(bodyText);
   const prizeDescription = extractPrizeInfo($, bodyText);
-  const prizeValue = extractPrizeValue(bodyText);
+  const prizes = extractPrizeTiers(bodyText);
+  // With a prize table, the headline value is the top tier rather than
+  // the largest dollar figure (which may be a total ARV of all prizes).
+  const prizeValue = summarizePrizes(prizes).topValue ?? extractPrizeValue(bodyText);
   const entryMethod = detectEntryMethod($, lowerText);
   const entryFrequency = detectEntryFrequency(lowerText);
   const ageRequirement = detectAgeRequirement(lowerText);
@@ -122,6 +127,7 @@ export async function extractContestDetails(
     endDate,
     prizeDescription,
     prizeValue,
+    prizes,
     entryMethod,
     entryFrequency,
     ageRequirement,
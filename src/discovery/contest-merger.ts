@@ -0,0 +1,513 @@
+/**
+ * Cross-source contest merging.
+ *
+ * The same promotion is often listed by several aggregators and feeds.
+ * Rather than keeping the first listing and dropping the rest, every
+ * listing is stored in contest_sources with the field values it
+ * carried and a trust weight. The contest's own columns are then
+ * re-derived field by field from the most trusted listing that has a
+ * value (ties go to the most recently seen):
+ *
+ *   title, sponsor, end date, prize description, official rules URL
+ *
+ * Users can merge contests the deduplicator missed and split listings
+ * it wrongly grouped. A listing keeps its contest on later crawls, so a
+ * manual split is not undone by the next discovery run.
+ */
+
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { generateId, hashForDedup } from '../shared/crypto.js';
+import { AppError } from '../shared/errors.js';
+import { extractDomain, normalizeUrl, parseDate } from '../shared/utils.js';
+import { getAuditService } from '../analytics/audit-service.js';
+import { contests, contestSources } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import { isAggregatorDomain } from './legitimacy-scorer.js';
+import type { DiscoverySource, RawContest } from './types.js';
+
+const logger = getLogger('discovery', { component: 'contest-merger' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Field values one listing carried. */
+export interface SourceFields {
+  title: string | null;
+  sponsor: string | null;
+  /** ISO-8601. */
+  endDate: string | null;
+  prizeDescription: string | null;
+  termsUrl: string | null;
+}
+
+export type MergedField = keyof SourceFields;
+
+export interface ContestSource {
+  id: string;
+  contestId: string;
+  source: string;
+  listingUrl: string;
+  canonicalMethod: string | null;
+  /** Email message the listing came from, for newsletter sources. */
+  messageId: string | null;
+  trust: number;
+  fields: SourceFields;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface AttachSourceInput {
+  source: string;
+  listingUrl: string;
+  canonicalMethod?: string;
+  messageId?: string;
+  trust: number;
+  fields: SourceFields;
+}
+
+export interface AttachSourceResult {
+  /** Contest the listing belongs to; differs from the requested one after a split or merge. */
+  contestId: string;
+  source: ContestSource;
+  created: boolean;
+  /** Contest fields whose value changed. */
+  changed: MergedField[];
+}
+
+export interface MergeResult {
+  contestId: string;
+  mergedIds: string[];
+  sources: ContestSource[];
+  changed: MergedField[];
+}
+
+export interface SplitResult {
+  /** The original contest. */
+  contestId: string;
+  /** The new contest holding the split-off listings. */
+  newContestId: string;
+  sources: ContestSource[];
+}
+
+type ContestRow = typeof contests.$inferSelect;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const MERGED_FIELDS: readonly MergedField[] = [
+  'title',
+  'sponsor',
+  'endDate',
+  'prizeDescription',
+  'termsUrl',
+];
+
+/** Trust of a contest entered by hand, and of its pre-merge values. */
+export const MANUAL_TRUST = 1;
+
+/** Trust of a listing found on the sponsor's own site. */
+const SPONSOR_PAGE_TRUST = 0.9;
+
+const SOURCE_TYPE_TRUST: Record<DiscoverySource['type'], number> = {
+  'structured-data': 0.7,
+  sitemap: 0.7,
+  newsletter: 0.5,
+  html: 0.6,
+  custom: 0.5,
+  rss: 0.4,
+};
+
+/** Contest column holding each merged field. */
+const FIELD_COLUMNS = {
+  title: 'title',
+  sponsor: 'sponsor',
+  endDate: 'endDate',
+  prizeDescription: 'prizeDescription',
+  termsUrl: 'termsUrl',
+} as const satisfies Record<MergedField, keyof ContestRow>;
+
+// ---------------------------------------------------------------------------
+// ContestMerger
+// ---------------------------------------------------------------------------
+
+export class ContestMerger {
+  private readonly db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /** All listings of a contest, most trusted first. */
+  listSources(contestId: string): ContestSource[] {
+    return this.db
+      .select()
+      .from(contestSources)
+      .where(eq(contestSources.contestId, contestId))
+      .orderBy(desc(contestSources.trust), desc(contestSources.lastSeenAt))
+      .all()
+      .map(toContestSource);
+  }
+
+  /**
+   * The listing a source already filed, with `contestId` following any
+   * merge to the contest that now holds it.
+   */
+  findListing(source: string, listingUrl: string): ContestSource | null {
+    const row = this.db
+      .select()
+      .from(contestSources)
+      .where(and(eq(contestSources.source, source), eq(contestSources.listingUrl, listingUrl)))
+      .get();
+    return row ? { ...toContestSource(row), contestId: this.resolveMerged(row.contestId) } : null;
+  }
+
+  /**
+   * Records a listing of a contest and re-derives the contest's fields.
+   * A listing already stored keeps its contest (so user splits stick);
+   * only its field values and last-seen time are refreshed. Pass
+   * `newContest` for the listing a contest was just created from, so
+   * its values are not also recorded as a pre-existing listing.
+   */
+  attach(contestId: string, input: AttachSourceInput, options: { newContest?: boolean } = {}): AttachSourceResult {
+    const now = new Date().toISOString();
+    if (!options.newContest) {
+      this.ensureSourceRecord(this.getContest(this.resolveMerged(contestId)));
+    }
+
+    const existing = this.db
+      .select()
+      .from(contestSources)
+      .where(and(eq(contestSources.source, input.source), eq(contestSources.listingUrl, input.listingUrl)))
+      .get();
+
+    const ownerId = this.resolveMerged(existing?.contestId ?? contestId);
+    this.getContest(ownerId);
+
+    let id: string;
+    if (existing) {
+      id = existing.id;
+      this.db
+        .update(contestSources)
+        .set({
+          contestId: ownerId,
+          canonicalMethod: input.canonicalMethod ?? existing.canonicalMethod,
+          messageId: input.messageId ?? existing.messageId,
+          trust: input.trust,
+          fields: JSON.stringify(input.fields),
+          lastSeenAt: now,
+        })
+        .where(eq(contestSources.id, id))
+        .run();
+    } else {
+      id = generateId();
+      this.db
+        .insert(contestSources)
+        .values({
+          id,
+          contestId: ownerId,
+          source: input.source,
+          listingUrl: input.listingUrl,
+          canonicalMethod: input.canonicalMethod ?? null,
+          messageId: input.messageId ?? null,
+          trust: input.trust,
+          fields: JSON.stringify(input.fields),
+          firstSeenAt: now,
+          lastSeenAt: now,
+        })
+        .run();
+    }
+
+    const changed = this.remerge(ownerId);
+    const source = toContestSource(this.db.select().from(contestSources).where(eq(contestSources.id, id)).get()!);
+
+    if (!existing) {
+      logger.debug({ contestId: ownerId, source: input.source, changed }, 'Contest listing attached');
+    }
+
+    return { contestId: ownerId, source, created: !existing, changed };
+  }
+
+  /**
+   * Merges other contests into a target. Their listings move to the
+   * target, whose fields are re-derived; the merged contests are marked
+   * invalid with `merged_into_id` pointing at the target. Entries and
+   * history stay on the merged contests.
+   */
+  async merge(targetId: string, otherIds: string[]): Promise<MergeResult> {
+    const ids = [...new Set(otherIds)].filter((id) => id !== targetId);
+    if (ids.length === 0) {
+      throw new AppError('Nothing to merge: pass at least one other contest', 'MERGE_EMPTY', 400);
+    }
+
+    const target = this.getContest(targetId);
+    if (target.mergedIntoId) {
+      throw new AppError('Target contest was itself merged into another contest', 'CONTEST_MERGED', 409);
+    }
+
+    const others = ids.map((id) => this.getContest(id));
+    const alreadyMerged = others.find((c) => c.mergedIntoId);
+    if (alreadyMerged) {
+      throw new AppError(`Contest ${alreadyMerged.id} is already merged`, 'CONTEST_MERGED', 409);
+    }
+
+    this.ensureSourceRecord(target);
+    for (const other of others) this.ensureSourceRecord(other);
+
+    const now = new Date().toISOString();
+    this.db.transaction((tx) => {
+      tx.update(contestSources)
+        .set({ contestId: targetId })
+        .where(inArray(contestSources.contestId, ids))
+        .run();
+
+      tx.update(contests)
+        .set({ mergedIntoId: targetId, status: 'invalid', updatedAt: now })
+        .where(inArray(contests.id, ids))
+        .run();
+    });
+
+    const changed = this.remerge(targetId);
+
+    await getAuditService().record({
+      action: 'contest.merged',
+      entityType: 'contest',
+      entityId: targetId,
+      details: { mergedIds: ids, changed },
+    });
+
+    logger.info({ contestId: targetId, mergedIds: ids, changed }, 'Contests merged');
+
+    return { contestId: targetId, mergedIds: ids, sources: this.listSources(targetId), changed };
+  }
+
+  /**
+   * Moves some of a contest's listings to a new contest. The new
+   * contest's URL is the first split listing's URL; it must not be the
+   * URL of an existing contest.
+   */
+  async split(contestId: string, sourceIds: string[]): Promise<SplitResult> {
+    const contest = this.getContest(contestId);
+    const sources = this.listSources(contestId);
+    const moving = sources.filter((s) => sourceIds.includes(s.id));
+
+    if (moving.length !== new Set(sourceIds).size) {
+      throw new AppError('Some listings do not belong to this contest', 'SOURCE_NOT_FOUND', 404);
+    }
+    if (moving.length === sources.length) {
+      throw new AppError('At least one listing must stay on the original contest', 'SPLIT_ALL_SOURCES', 400);
+    }
+
+    const first = moving[0]!;
+    const url = normalizeUrl(first.listingUrl);
+    const clash = this.db.select({ id: contests.id }).from(contests).where(eq(contests.url, url)).get();
+    if (clash) {
+      throw new AppError(
+        `A contest with URL ${url} already exists; split the other listings off instead`,
+        'CONTEST_URL_CONFLICT',
+        409,
+      );
+    }
+
+    const newContestId = generateId();
+    const now = new Date().toISOString();
+
+    this.db.transaction((tx) => {
+      tx.insert(contests)
+        .values({
+          id: newContestId,
+          externalId: hashForDedup(url),
+          url,
+          title: first.fields.title ?? contest.title,
+          source: first.source,
+          type: contest.type,
+          entryMethod: contest.entryMethod,
+          entryFrequency: contest.entryFrequency,
+          status: 'discovered',
+          legitimacyScore: contest.legitimacyScore,
+          legitimacyReport: contest.legitimacyReport,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .run();
+
+      tx.update(contestSources)
+        .set({ contestId: newContestId })
+        .where(inArray(contestSources.id, moving.map((s) => s.id)))
+        .run();
+    });
+
+    this.remerge(contestId);
+    this.remerge(newContestId);
+
+    await getAuditService().record({
+      action: 'contest.split',
+      entityType: 'contest',
+      entityId: contestId,
+      details: { newContestId, sourceIds: moving.map((s) => s.id) },
+    });
+
+    logger.info({ contestId, newContestId, sources: moving.length }, 'Contest split');
+
+    return { contestId, newContestId, sources: this.listSources(newContestId) };
+  }
+
+  // -------------------------------------------------------------------------
+  // Private
+  // -------------------------------------------------------------------------
+
+  private getContest(id: string): ContestRow {
+    const contest = this.db.select().from(contests).where(eq(contests.id, id)).get();
+    if (!contest) {
+      throw new AppError(`Contest ${id} not found`, 'CONTEST_NOT_FOUND', 404);
+    }
+    return contest;
+  }
+
+  /** Follows merged_into_id to the contest that now holds a listing. */
+  private resolveMerged(contestId: string): string {
+    let id = contestId;
+    for (let hops = 0; hops < 10; hops++) {
+      const row = this.db
+        .select({ mergedIntoId: contests.mergedIntoId })
+        .from(contests)
+        .where(eq(contests.id, id))
+        .get();
+      if (!row?.mergedIntoId) return id;
+      id = row.mergedIntoId;
+    }
+    return id;
+  }
+
+  /**
+   * Contests stored before listings were tracked (or added by hand)
+   * have no contest_sources rows. Record their current values as a
+   * listing so a merge does not lose them.
+   */
+  private ensureSourceRecord(contest: ContestRow): void {
+    const existing = this.db
+      .select({ id: contestSources.id })
+      .from(contestSources)
+      .where(eq(contestSources.contestId, contest.id))
+      .get();
+    if (existing) return;
+
+    const manual = !contest.source || contest.source === 'manual';
+    this.db
+      .insert(contestSources)
+      .values({
+        id: generateId(),
+        contestId: contest.id,
+        source: contest.source ?? 'manual',
+        listingUrl: contest.url,
+        canonicalMethod: null,
+        trust: manual ? MANUAL_TRUST : SOURCE_TYPE_TRUST.html,
+        fields: JSON.stringify(fieldsFromContest(contest)),
+        firstSeenAt: contest.createdAt,
+        lastSeenAt: contest.updatedAt,
+      })
+      .onConflictDoNothing()
+      .run();
+  }
+
+  /**
+   * Re-derives a contest's merged fields from its listings. Fields no
+   * listing has a value for are left as they are.
+   */
+  private remerge(contestId: string): MergedField[] {
+    const sources = this.listSources(contestId);
+    if (sources.length === 0) return [];
+
+    const contest = this.getContest(contestId);
+    const update: Partial<typeof contests.$inferInsert> = {};
+    const changed: MergedField[] = [];
+
+    for (const field of MERGED_FIELDS) {
+      // listSources is ordered by trust, then most recently seen
+      const value = sources.find((s) => s.fields[field])?.fields[field];
+      const column = FIELD_COLUMNS[field];
+      if (value && value !== contest[column]) {
+        update[column] = value;
+        changed.push(field);
+      }
+    }
+
+    if (changed.length > 0) {
+      this.db
+        .update(contests)
+        .set({ ...update, updatedAt: new Date().toISOString() })
+        .where(eq(contests.id, contestId))
+        .run();
+    }
+    return changed;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Field values carried by a raw listing.
+ */
+export function sourceFieldsFromRaw(raw: RawContest): SourceFields {
+  const endDate = raw.endDate ? parseDate(raw.endDate) : null;
+  return {
+    title: raw.title.trim().slice(0, 500) || null,
+    sponsor: raw.sponsor.trim() || null,
+    endDate: endDate ? endDate.toISOString() : null,
+    prizeDescription: raw.prizeDescription.trim() || null,
+    termsUrl: raw.termsUrl ?? null,
+  };
+}
+
+/**
+ * Trust for a listing: the source's configured trust, raised for a
+ * listing on the sponsor's own (non-aggregator) site, otherwise a
+ * default by source type.
+ */
+export function sourceTrust(
+  source: Pick<DiscoverySource, 'type' | 'trust'>,
+  listingUrl: string,
+  canonicalUrl: string,
+): number {
+  const listingDomain = extractDomain(listingUrl);
+  if (listingDomain === extractDomain(canonicalUrl) && !isAggregatorDomain(listingDomain)) {
+    return Math.max(source.trust ?? 0, SPONSOR_PAGE_TRUST);
+  }
+  return source.trust ?? SOURCE_TYPE_TRUST[source.type];
+}
+
+function fieldsFromContest(contest: ContestRow): SourceFields {
+  return {
+    title: contest.title,
+    sponsor: contest.sponsor,
+    endDate: contest.endDate,
+    prizeDescription: contest.prizeDescription,
+    termsUrl: contest.termsUrl,
+  };
+}
+
+function toContestSource(row: typeof contestSources.$inferSelect): ContestSource {
+  let fields: SourceFields;
+  try {
+    fields = JSON.parse(row.fields) as SourceFields;
+  } catch {
+    fields = { title: null, sponsor: null, endDate: null, prizeDescription: null, termsUrl: null };
+  }
+
+  return {
+    id: row.id,
+    contestId: row.contestId,
+    source: row.source,
+    listingUrl: row.listingUrl,
+    canonicalMethod: row.canonicalMethod,
+    messageId: row.messageId,
+    trust: row.trust,
+    fields,
+    firstSeenAt: row.firstSeenAt,
+    lastSeenAt: row.lastSeenAt,
+  };
+}
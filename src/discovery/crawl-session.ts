@@ -0,0 +1,261 @@
+/**
+ * Conditional fetching and crawl budgets for listing pages.
+ *
+ * Scheduled discovery revisits the same aggregator list pages every few
+ * hours, and most of the time nothing on them has changed. A crawl
+ * session, created by the discovery worker for one job, lets a source
+ * handler avoid that work:
+ *
+ * - ETag / Last-Modified from the previous fetch are sent back as
+ *   If-None-Match / If-Modified-Since, and a 304 skips the page
+ * - a fingerprint of the page's visible content skips pages that were
+ *   re-sent unchanged (many sites ignore conditional headers)
+ * - pagination stops once a page lists only contests already known
+ *   from this source
+ * - requests and bytes are counted per source and UTC day, and a
+ *   source with a budget stops fetching once it is spent
+ *
+ * Handlers take the session as an optional second argument to `crawl`;
+ * without one they fetch every page as before (fixture validation and
+ * the golden runner rely on that).
+ */
+
+import * as cheerio from 'cheerio';
+import type { Response } from 'got';
+import { and, eq, sql } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { hashForDedup } from '../shared/crypto.js';
+import { normalizeUrl } from '../shared/utils.js';
+import { crawlBudgetUsage, crawlPages } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import type { CrawlBudget, RawContest } from './types.js';
+
+const log = getLogger('discovery', { component: 'crawl-session' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** changed: parse it; not-modified: 304; unchanged: full response with a known fingerprint. */
+export type PageStatus = 'changed' | 'not-modified' | 'unchanged';
+
+export type FetchedPage =
+  | { status: 'changed' | 'unchanged'; body: string }
+  | { status: 'not-modified'; body: null };
+
+export interface CrawlBudgetUsage {
+  /** UTC day the usage is for, YYYY-MM-DD. */
+  day: string;
+  pages: number;
+  bytes: number;
+  notModified: number;
+  unchanged: number;
+  pagesPerDay: number | null;
+  bytesPerDay: number | null;
+  exhausted: boolean;
+}
+
+export interface CrawlSessionOptions {
+  budget?: CrawlBudget;
+  /** Whether a listing URL is already known from this source. */
+  isKnown?: (url: string) => boolean;
+}
+
+/** Sends a request for the page with the given extra headers. */
+export type PageRequest = (headers: Record<string, string>) => Promise<Response<string>>;
+
+// ---------------------------------------------------------------------------
+// Session
+// ---------------------------------------------------------------------------
+
+export class CrawlSession {
+  private unchangedPages = 0;
+
+  constructor(
+    private readonly db: AppDatabase,
+    /** discovery_sources.id the usage is charged to. */
+    readonly sourceId: string,
+    private readonly options: CrawlSessionOptions = {},
+  ) {}
+
+  /** Pages skipped during this session as not modified or unchanged. */
+  get pagesUnchanged(): number {
+    return this.unchangedPages;
+  }
+
+  /**
+   * Whether today's budget allows another request.
+   */
+  hasBudget(): boolean {
+    return !getCrawlBudgetUsage(this.db, this.sourceId, this.options.budget).exhausted;
+  }
+
+  /**
+   * Fetch a page conditionally, record its validators and fingerprint,
+   * and charge the request to the source's budget.
+   */
+  async fetch(url: string, request: PageRequest): Promise<FetchedPage> {
+    const key = normalizeUrl(url);
+    const previous = this.db.select().from(crawlPages).where(eq(crawlPages.url, key)).get();
+
+    const headers: Record<string, string> = {};
+    if (previous?.etag) headers['If-None-Match'] = previous.etag;
+    if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+    const response = await request(headers);
+    const now = new Date().toISOString();
+
+    if (response.statusCode === 304 && previous) {
+      this.db.update(crawlPages).set({ fetchedAt: now }).where(eq(crawlPages.url, key)).run();
+      this.charge(0, 'notModified');
+      this.unchangedPages++;
+      log.debug({ url: key }, 'Page not modified');
+      return { status: 'not-modified', body: null };
+    }
+
+    const body = response.body;
+    const bytes = Buffer.byteLength(body, 'utf8');
+    const fingerprint = pageFingerprint(body);
+    const unchanged = previous?.fingerprint === fingerprint;
+    const validators = {
+      etag: headerValue(response.headers['etag']),
+      lastModified: headerValue(response.headers['last-modified']),
+    };
+
+    this.db
+      .insert(crawlPages)
+      .values({ url: key, sourceId: this.sourceId, ...validators, fingerprint, bytes, fetchedAt: now, changedAt: now })
+      .onConflictDoUpdate({
+        target: crawlPages.url,
+        set: {
+          sourceId: this.sourceId,
+          ...validators,
+          fingerprint,
+          bytes,
+          fetchedAt: now,
+          ...(unchanged ? {} : { changedAt: now }),
+        },
+      })
+      .run();
+
+    if (unchanged) {
+      this.charge(bytes, 'unchanged');
+      this.unchangedPages++;
+      log.debug({ url: key }, 'Page content unchanged');
+      return { status: 'unchanged', body };
+    }
+
+    this.charge(bytes);
+    return { status: 'changed', body };
+  }
+
+  /**
+   * Whether every contest on a page is already known from this source,
+   * meaning later pages (older listings) have nothing new either.
+   */
+  allKnown(contests: RawContest[]): boolean {
+    const isKnown = this.options.isKnown;
+    return isKnown !== undefined && contests.length > 0 && contests.every((contest) => isKnown(contest.url));
+  }
+
+  private charge(bytes: number, outcome?: 'notModified' | 'unchanged'): void {
+    const day = utcDay();
+    this.db
+      .insert(crawlBudgetUsage)
+      .values({
+        sourceId: this.sourceId,
+        day,
+        pages: 1,
+        bytes,
+        notModified: outcome === 'notModified' ? 1 : 0,
+        unchanged: outcome === 'unchanged' ? 1 : 0,
+      })
+      .onConflictDoUpdate({
+        target: [crawlBudgetUsage.sourceId, crawlBudgetUsage.day],
+        set: {
+          pages: sql`${crawlBudgetUsage.pages} + 1`,
+          bytes: sql`${crawlBudgetUsage.bytes} + ${bytes}`,
+          notModified: sql`${crawlBudgetUsage.notModified} + ${outcome === 'notModified' ? 1 : 0}`,
+          unchanged: sql`${crawlBudgetUsage.unchanged} + ${outcome === 'unchanged' ? 1 : 0}`,
+        },
+      })
+      .run();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers for handlers and the API
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch a listing page through the session when there is one, otherwise
+ * unconditionally.
+ */
+export async function fetchListingPage(
+  session: CrawlSession | undefined,
+  url: string,
+  request: PageRequest,
+): Promise<FetchedPage> {
+  if (session) return session.fetch(url, request);
+  const response = await request({});
+  return { status: 'changed', body: response.body };
+}
+
+/**
+ * A source's usage for a UTC day (today by default) against its budget.
+ */
+export function getCrawlBudgetUsage(
+  db: AppDatabase,
+  sourceId: string,
+  budget: CrawlBudget = {},
+  day = utcDay(),
+): CrawlBudgetUsage {
+  const row = db
+    .select()
+    .from(crawlBudgetUsage)
+    .where(and(eq(crawlBudgetUsage.sourceId, sourceId), eq(crawlBudgetUsage.day, day)))
+    .get();
+
+  const pages = row?.pages ?? 0;
+  const bytes = row?.bytes ?? 0;
+  const pagesPerDay = budget.pagesPerDay ?? null;
+  const bytesPerDay = budget.bytesPerDay ?? null;
+
+  return {
+    day,
+    pages,
+    bytes,
+    notModified: row?.notModified ?? 0,
+    unchanged: row?.unchanged ?? 0,
+    pagesPerDay,
+    bytesPerDay,
+    exhausted: (pagesPerDay !== null && pages >= pagesPerDay) || (bytesPerDay !== null && bytes >= bytesPerDay),
+  };
+}
+
+/**
+ * Fingerprint of a page's visible text and links. Scripts, styles and
+ * comments are left out, since nonces and tracking snippets change on
+ * every response.
+ */
+export function pageFingerprint(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, iframe, svg').remove();
+
+  const text = $('body').text().replace(/\s+/g, ' ').trim();
+  const links = $('a[href]')
+    .map((_index, element) => $(element).attr('href'))
+    .get()
+    .join('\n');
+
+  return hashForDedup(`${text}\n${links}`);
+}
+
+function headerValue(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+function utcDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
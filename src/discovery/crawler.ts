@@ -7,7 +7,7 @@
  */
 
 import * as cheerio from 'cheerio';
-import got, { type Got, type Response } from 'got';
+import type { Got, Response } from 'got';
 import { getLogger } from '../shared/logger.js';
 import { DiscoveryError } from '../shared/errors.js';
 import { eventBus } from '../shared/events.js';
@@ -15,6 +15,8 @@ import { retry } from '../shared/retry.js';
 import { sleep } from '../shared/timing.js';
 import { USER_AGENTS } from '../shared/constants.js';
 import { pickRandom, extractDomain, normalizeUrl } from '../shared/utils.js';
+import { httpClient } from './http-client.js';
+import { fetchListingPage, type CrawlSession } from './crawl-session.js';
 import type {
   DiscoverySource,
   RawContest,
@@ -38,7 +40,7 @@ export class SweepstakesCrawler {
   private readonly client: Got;
 
   constructor() {
-    this.client = got.extend({
+    this.client = httpClient.extend({
       timeout: { request: REQUEST_TIMEOUT_MS },
       retry: { limit: 0 },
       followRedirect: true,
@@ -56,12 +58,18 @@ export class SweepstakesCrawler {
   /**
    * Crawl a single discovery source, following pagination up to maxPages.
    * Returns all discovered raw contests along with crawl metadata.
+   *
+   * With a crawl session, pages are fetched conditionally and pagination
+   * stops at the first unchanged page, at a page of already-known
+   * contests, or when the source's daily budget runs out.
    */
-  async crawl(source: DiscoverySource): Promise<CrawlResult> {
+  async crawl(source: DiscoverySource, session?: CrawlSession): Promise<CrawlResult> {
     const startTime = Date.now();
     const contests: RawContest[] = [];
     const errors: CrawlError[] = [];
     let pagesCrawled = 0;
+    let budgetExhausted = false;
+    let stoppedAtKnown = false;
     const maxPages = source.maxPages ?? DEFAULT_MAX_PAGES;
 
     log.info({ sourceId: source.id, url: source.url }, 'Starting crawl for source');
@@ -82,20 +90,42 @@ export class SweepstakesCrawler {
           break;
         }
 
+        if (session && !session.hasBudget()) {
+          log.info({ sourceId: source.id, url: currentUrl }, 'Crawl budget exhausted, stopping');
+          budgetExhausted = true;
+          break;
+        }
+
         await this.enforceRateLimit(currentUrl, source.rateLimitMs ?? DEFAULT_RATE_LIMIT_MS);
 
-        const html = await this.fetchPage(currentUrl, source.id);
+        const pageUrl: string = currentUrl;
+        const page = await fetchListingPage(session, pageUrl, (headers) =>
+          this.fetchPage(pageUrl, source.id, headers),
+        );
         pagesCrawled++;
 
-        const pageContests = this.extractContests(html, currentUrl, source);
+        // Listings are newest first, so nothing past an unchanged page is new
+        if (page.status !== 'changed') {
+          log.info({ url: pageUrl, status: page.status }, 'Page unchanged since last crawl, stopping');
+          break;
+        }
+
+        const html = page.body;
+        const pageContests = this.extractContests(html, pageUrl, source);
         contests.push(...pageContests);
 
         log.info(
-          { url: currentUrl, found: pageContests.length, total: contests.length },
+          { url: pageUrl, found: pageContests.length, total: contests.length },
           'Page crawled successfully',
         );
 
-        currentUrl = this.findNextPage(html, currentUrl, source);
+        if (session?.allKnown(pageContests)) {
+          log.info({ url: pageUrl }, 'Page lists only known contests, stopping');
+          stoppedAtKnown = true;
+          break;
+        }
+
+        currentUrl = this.findNextPage(html, pageUrl, source);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         log.error({ url: currentUrl, error: message }, 'Error crawling page');
@@ -126,19 +156,31 @@ export class SweepstakesCrawler {
       contestsFound: contests.length,
     });
 
-    return { source, contests, pagesCrawled, durationMs, errors };
+    return {
+      source,
+      contests,
+      pagesCrawled,
+      durationMs,
+      errors,
+      ...(session ? { pagesUnchanged: session.pagesUnchanged, budgetExhausted, stoppedAtKnown } : {}),
+    };
   }
 
   /**
-   * Fetch a single HTML page with retry logic.
+   * Fetch a single HTML page with retry logic. Extra headers carry the
+   * conditional request validators; a 304 is returned as is.
    */
-  private async fetchPage(url: string, sourceId: string): Promise<string> {
+  private async fetchPage(
+    url: string,
+    sourceId: string,
+    headers: Record<string, string> = {},
+  ): Promise<Response<string>> {
     const userAgent = pickRandom(USER_AGENTS);
 
     const response = await retry<Response<string>>(
       () =>
         this.client.get(url, {
-          headers: { 'User-Agent': userAgent },
+          headers: { 'User-Agent': userAgent, ...headers },
           responseType: 'text',
         }),
       {
@@ -156,7 +198,7 @@ export class SweepstakesCrawler {
       );
     }
 
-    return response.body;
+    return response;
   }
 
   /**
@@ -0,0 +1,266 @@
+/**
+ * Deduplication benchmark: in-memory deduplicator vs persistent index.
+ *
+ * Seeds a scratch database with synthetic contests and measures what a
+ * discovery worker pays in each mode:
+ *
+ *   startup   in-memory: load every contest and register it
+ *             indexed:   catch the index up (first build, then a restart)
+ *   lookups   isDuplicate for near-duplicate titles and new titles
+ *   heap      heap growth while the deduplicator is built
+ *
+ * It also reports how often the indexed title lookup agrees with the
+ * exhaustive in-memory scan, since MinHash candidates are approximate.
+ *
+ * Usage: npm run bench:dedup -- [--contests 20000] [--queries 500]
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { closeDb, getDb, schema } from '../db/index.js';
+import { migrate } from '../db/migrate.js';
+import { generateId } from '../shared/crypto.js';
+import { chunkArray } from '../shared/utils.js';
+import { ContestDeduplicator } from './deduplicator.js';
+import { DedupIndex } from './dedup-index.js';
+import type { RawContest } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DedupBenchmarkOptions {
+  contests?: number;
+  queries?: number;
+  /** PRNG seed for the synthetic data. */
+  seed?: number;
+}
+
+export interface DedupModeResult {
+  startupMs: number;
+  /** Second start against the same database; only meaningful for the index. */
+  restartMs: number;
+  lookupMsAvg: number;
+  lookupMsP95: number;
+  heapMb: number;
+  duplicatesFound: number;
+}
+
+export interface DedupBenchmarkResult {
+  contests: number;
+  queries: number;
+  inMemory: DedupModeResult;
+  indexed: DedupModeResult;
+  /** Share of queries where both modes reached the same verdict. */
+  agreement: number;
+}
+
+// ---------------------------------------------------------------------------
+// Benchmark
+// ---------------------------------------------------------------------------
+
+export async function runDedupBenchmark(options: DedupBenchmarkOptions = {}): Promise<DedupBenchmarkResult> {
+  const contestCount = options.contests ?? 20_000;
+  const queryCount = options.queries ?? 500;
+  const random = mulberry32(options.seed ?? 42);
+
+  const dir = mkdtempSync(join(tmpdir(), 'dedup-bench-'));
+  const dbPath = join(dir, 'bench.db');
+
+  try {
+    migrate(dbPath);
+    const db = getDb(dbPath);
+
+    // Seed contests
+    const now = new Date().toISOString();
+    const titles: string[] = [];
+    const rows = Array.from({ length: contestCount }, (_, i) => {
+      const title = syntheticTitle(random);
+      titles.push(title);
+      return {
+        id: generateId(),
+        externalId: `bench-${i}`,
+        url: `https://sponsor-${i % 997}.example.com/promo/${i}`,
+        title,
+        sponsor: `Sponsor ${i % 997}`,
+        type: 'sweepstakes' as const,
+        entryMethod: 'form' as const,
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+    for (const chunk of chunkArray(rows, 500)) {
+      db.transaction((tx) => {
+        tx.insert(schema.contests).values(chunk).run();
+      });
+    }
+
+    // Half near-duplicates of stored titles, half new titles
+    const queries: RawContest[] = Array.from({ length: queryCount }, (_, i) => ({
+      url: `https://new-${i}.example.org/enter`,
+      title: i % 2 === 0 ? mutateTitle(titles[Math.floor(random() * titles.length)]!, random) : syntheticTitle(random),
+      sponsor: `New Sponsor ${i}`,
+      endDate: '',
+      prizeDescription: '',
+      source: 'benchmark',
+      entryMethod: 'form',
+      type: 'sweepstakes',
+    }));
+
+    // In-memory: what initializeDeduplicator used to do on every start
+    const inMemory = await measureMode(queries, () => {
+      const dedup = new ContestDeduplicator();
+      const all = db
+        .select({
+          id: schema.contests.id,
+          url: schema.contests.url,
+          title: schema.contests.title,
+          sponsor: schema.contests.sponsor,
+        })
+        .from(schema.contests)
+        .all();
+      for (const c of all) dedup.registerExisting(c.id, c.url, c.title, c.sponsor ?? '');
+      return dedup;
+    });
+
+    // Indexed: the first start builds the index, later starts only catch up
+    const indexed = await measureMode(queries, () => {
+      const dedup = new ContestDeduplicator(new DedupIndex(db));
+      dedup.syncIndex();
+      return dedup;
+    });
+
+    let agreeing = 0;
+    for (let i = 0; i < queryCount; i++) {
+      if (inMemory.verdicts[i] === indexed.verdicts[i]) agreeing++;
+    }
+
+    return {
+      contests: contestCount,
+      queries: queryCount,
+      inMemory: inMemory.result,
+      indexed: indexed.result,
+      agreement: queryCount > 0 ? agreeing / queryCount : 1,
+    };
+  } finally {
+    closeDb();
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function measureMode(
+  queries: RawContest[],
+  start: () => ContestDeduplicator,
+): Promise<{ result: DedupModeResult; verdicts: boolean[] }> {
+  global.gc?.();
+  const heapBefore = process.memoryUsage().heapUsed;
+
+  let t = performance.now();
+  const dedup = start();
+  const startupMs = performance.now() - t;
+  const heapMb = (process.memoryUsage().heapUsed - heapBefore) / 1024 / 1024;
+
+  t = performance.now();
+  start();
+  const restartMs = performance.now() - t;
+
+  const timings: number[] = [];
+  const verdicts: boolean[] = [];
+  for (const query of queries) {
+    t = performance.now();
+    const { isDuplicate } = await dedup.isDuplicate(query);
+    timings.push(performance.now() - t);
+    verdicts.push(isDuplicate);
+  }
+
+  timings.sort((a, b) => a - b);
+  return {
+    result: {
+      startupMs,
+      restartMs,
+      lookupMsAvg: timings.reduce((sum, ms) => sum + ms, 0) / Math.max(timings.length, 1),
+      lookupMsP95: timings[Math.floor(timings.length * 0.95)] ?? 0,
+      heapMb,
+      duplicatesFound: verdicts.filter(Boolean).length,
+    },
+    verdicts,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Synthetic data
+// ---------------------------------------------------------------------------
+
+const BRANDS = ['Acme', 'Sunny', 'Northwind', 'Blue Ridge', 'Maple', 'Harbor', 'Summit', 'Pioneer', 'Golden', 'Crest'];
+const PRIZES = [
+  'Kitchen Makeover', 'Beach Vacation', 'New Truck', 'Gift Card', 'Cash Prize', 'Home Theater',
+  'Grocery Year', 'Road Trip', 'Gaming Setup', 'Spa Weekend', 'Backyard Grill', 'Smart Home Bundle',
+];
+const EXTRAS = ['Summer', 'Holiday', 'Spring', 'Back to School', 'Anniversary', 'Weekly', 'Daily', 'Ultimate', 'Mega'];
+
+function syntheticTitle(random: () => number): string {
+  const pick = <T>(list: T[]): T => list[Math.floor(random() * list.length)]!;
+  const amount = `$${(Math.floor(random() * 200) + 1) * 50}`;
+  return `${pick(BRANDS)} ${pick(EXTRAS)} ${pick(PRIZES)} ${amount} ${pick(['Sweepstakes', 'Giveaway', 'Contest'])} ${Math.floor(random() * 10_000)}`;
+}
+
+/** One or two character edits, the kind of drift seen between aggregators. */
+function mutateTitle(title: string, random: () => number): string {
+  let result = title;
+  const edits = 1 + Math.floor(random() * 2);
+  for (let i = 0; i < edits; i++) {
+    const at = Math.floor(random() * result.length);
+    result = random() < 0.5 ? result.slice(0, at) + result.slice(at + 1) : `${result.slice(0, at)}x${result.slice(at)}`;
+  }
+  return result;
+}
+
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CLI entry point
+// ---------------------------------------------------------------------------
+
+const isDirectRun =
+  process.argv[1]?.endsWith('dedup-benchmark.ts') ||
+  process.argv[1]?.endsWith('dedup-benchmark.js');
+
+if (isDirectRun) {
+  const args = process.argv.slice(2);
+  const numberArg = (name: string): number | undefined => {
+    const value = args[args.indexOf(`--${name}`) + 1];
+    return args.includes(`--${name}`) && value ? Number(value) : undefined;
+  };
+
+  try {
+    const result = await runDedupBenchmark({ contests: numberArg('contests'), queries: numberArg('queries') });
+    const row = (label: string, pick: (r: DedupModeResult) => number, digits = 2) =>
+      console.log(
+        `  ${label.padEnd(22)}${pick(result.inMemory).toFixed(digits).padStart(12)}${pick(result.indexed).toFixed(digits).padStart(12)}`,
+      );
+
+    console.log(`[bench:dedup] ${result.contests} contests, ${result.queries} queries`);
+    console.log(`  ${''.padEnd(22)}${'in-memory'.padStart(12)}${'indexed'.padStart(12)}`);
+    row('startup (ms)', (r) => r.startupMs);
+    row('restart (ms)', (r) => r.restartMs);
+    row('lookup avg (ms)', (r) => r.lookupMsAvg, 3);
+    row('lookup p95 (ms)', (r) => r.lookupMsP95, 3);
+    row('heap growth (MB)', (r) => r.heapMb, 1);
+    row('duplicates found', (r) => r.duplicatesFound, 0);
+    console.log(`  verdict agreement: ${(result.agreement * 100).toFixed(1)}%`);
+    process.exit(0);
+  } catch (error) {
+    console.error('[bench:dedup] Run failed:', error);
+    process.exit(1);
+  }
+}
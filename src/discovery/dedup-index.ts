@@ -0,0 +1,292 @@
+/**
+ * Persistent deduplication index.
+ *
+ * Backs ContestDeduplicator with SQLite tables instead of in-memory
+ * sets, so a worker no longer loads every contest on start and fuzzy
+ * title matching no longer compares against every known title:
+ *
+ *   dedup_urls         raw and normalized contest URLs
+ *   dedup_hashes       content hashes (URL + title + sponsor)
+ *   dedup_titles       normalized title and its length, one row per indexed contest
+ *   dedup_title_bands  MinHash LSH buckets of the title's character trigrams
+ *
+ * A title lookup hashes the query title into the same LSH bands and
+ * reads only the contests sharing a bucket (and of a compatible length)
+ * from the band index. The caller verifies those candidates with the
+ * exact similarity measure, so LSH only decides who gets compared.
+ *
+ * The index is kept up to date incrementally: the deduplicator adds a
+ * contest when it is stored, and `listUnindexed` finds contests created
+ * elsewhere (API, split) so they can be caught up in batches.
+ */
+
+import { and, count, eq, isNull, or, sql, between, desc, inArray } from 'drizzle-orm';
+import { contests, dedupHashes, dedupTitleBands, dedupTitles, dedupUrls } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+
+// ---------------------------------------------------------------------------
+// Tuning
+// ---------------------------------------------------------------------------
+
+/** LSH bands; with BAND_ROWS, two titles with trigram Jaccard 0.5 share a bucket ~96% of the time. */
+const BANDS = 24;
+
+/** MinHash values per band. */
+const BAND_ROWS = 3;
+
+const SIGNATURE_SIZE = BANDS * BAND_ROWS;
+
+/** Most candidates returned for one title, best-sharing first. */
+const MAX_TITLE_CANDIDATES = 200;
+
+/** One seed per MinHash function, fixed so stored buckets stay valid across restarts. */
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => fmix32(0x9e3779b9 ^ (i + 1)));
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The keys one contest is indexed under. */
+export interface DedupKeys {
+  /** Raw and normalized URL (duplicates are ignored). */
+  urls: string[];
+  contentHash: string;
+  /** Title as normalized by the deduplicator; may be empty. */
+  normalizedTitle: string;
+}
+
+export interface TitleCandidate {
+  contestId: string;
+  normalizedTitle: string;
+  /** Number of LSH bands shared with the query title. */
+  sharedBands: number;
+}
+
+export interface UnindexedContest {
+  id: string;
+  url: string;
+  title: string;
+  sponsor: string | null;
+}
+
+export interface DedupIndexStats {
+  urls: number;
+  contentHashes: number;
+  titles: number;
+  titleBands: number;
+}
+
+// ---------------------------------------------------------------------------
+// DedupIndex
+// ---------------------------------------------------------------------------
+
+export class DedupIndex {
+  private readonly db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Index a contest under its URLs, content hash and title. Re-adding a
+   * contest replaces its title bands; a URL or hash already owned by
+   * another contest is reassigned to this one.
+   */
+  add(contestId: string, keys: DedupKeys): void {
+    const buckets = keys.normalizedTitle ? titleBuckets(keys.normalizedTitle) : [];
+
+    this.db.transaction((tx) => {
+      for (const url of new Set(keys.urls)) {
+        tx.insert(dedupUrls)
+          .values({ url, contestId })
+          .onConflictDoUpdate({ target: dedupUrls.url, set: { contestId } })
+          .run();
+      }
+
+      tx.insert(dedupHashes)
+        .values({ hash: keys.contentHash, contestId })
+        .onConflictDoUpdate({ target: dedupHashes.hash, set: { contestId } })
+        .run();
+
+      tx.insert(dedupTitles)
+        .values({
+          contestId,
+          normalizedTitle: keys.normalizedTitle,
+          titleLength: keys.normalizedTitle.length,
+        })
+        .onConflictDoUpdate({
+          target: dedupTitles.contestId,
+          set: {
+            normalizedTitle: keys.normalizedTitle,
+            titleLength: keys.normalizedTitle.length,
+            indexedAt: new Date().toISOString(),
+          },
+        })
+        .run();
+
+      tx.delete(dedupTitleBands).where(eq(dedupTitleBands.contestId, contestId)).run();
+      if (buckets.length > 0) {
+        tx.insert(dedupTitleBands)
+          .values(buckets.map((bucket, band) => ({ band, bucket, contestId })))
+          .run();
+      }
+    });
+  }
+
+  /** Contest owning the first of the URLs found in the index. */
+  findUrl(urls: string[]): string | null {
+    if (urls.length === 0) return null;
+    const rows = this.db
+      .select({ url: dedupUrls.url, contestId: dedupUrls.contestId })
+      .from(dedupUrls)
+      .where(inArray(dedupUrls.url, urls))
+      .all();
+    for (const url of urls) {
+      const row = rows.find((r) => r.url === url);
+      if (row) return row.contestId;
+    }
+    return null;
+  }
+
+  findContentHash(hash: string): string | null {
+    const row = this.db
+      .select({ contestId: dedupHashes.contestId })
+      .from(dedupHashes)
+      .where(eq(dedupHashes.hash, hash))
+      .get();
+    return row?.contestId ?? null;
+  }
+
+  /**
+   * Indexed titles that may be similar to a normalized title: those
+   * sharing at least one LSH bucket, of a length that could still reach
+   * `minSimilarity` (edit distance is at least the length difference).
+   */
+  findTitleCandidates(normalizedTitle: string, minSimilarity: number): TitleCandidate[] {
+    if (!normalizedTitle) return [];
+
+    const buckets = titleBuckets(normalizedTitle);
+    const length = normalizedTitle.length;
+    const sharedBands = count().as('shared_bands');
+
+    return this.db
+      .select({
+        contestId: dedupTitleBands.contestId,
+        normalizedTitle: dedupTitles.normalizedTitle,
+        sharedBands,
+      })
+      .from(dedupTitleBands)
+      .innerJoin(dedupTitles, eq(dedupTitles.contestId, dedupTitleBands.contestId))
+      .where(
+        and(
+          or(...buckets.map((bucket, band) => and(eq(dedupTitleBands.band, band), eq(dedupTitleBands.bucket, bucket)))),
+          between(dedupTitles.titleLength, Math.ceil(length * minSimilarity), Math.floor(length / minSimilarity)),
+        ),
+      )
+      .groupBy(dedupTitleBands.contestId)
+      .orderBy(desc(sharedBands))
+      .limit(MAX_TITLE_CANDIDATES)
+      .all();
+  }
+
+  /**
+   * Contests not yet in the index, oldest first.
+   */
+  listUnindexed(limit: number): UnindexedContest[] {
+    return this.db
+      .select({ id: contests.id, url: contests.url, title: contests.title, sponsor: contests.sponsor })
+      .from(contests)
+      .leftJoin(dedupTitles, eq(dedupTitles.contestId, contests.id))
+      .where(isNull(dedupTitles.contestId))
+      .orderBy(contests.createdAt)
+      .limit(limit)
+      .all();
+  }
+
+  stats(): DedupIndexStats {
+    const countOf = (table: typeof dedupUrls | typeof dedupHashes | typeof dedupTitles | typeof dedupTitleBands) =>
+      this.db.select({ n: count() }).from(table).get()?.n ?? 0;
+
+    return {
+      urls: countOf(dedupUrls),
+      contentHashes: countOf(dedupHashes),
+      titles: countOf(dedupTitles),
+      titleBands: countOf(dedupTitleBands),
+    };
+  }
+
+  /**
+   * Drop the whole index; the next catch-up re-indexes every contest.
+   */
+  clear(): void {
+    this.db.transaction((tx) => {
+      tx.run(sql`DELETE FROM ${dedupTitleBands}`);
+      tx.run(sql`DELETE FROM ${dedupTitles}`);
+      tx.run(sql`DELETE FROM ${dedupHashes}`);
+      tx.run(sql`DELETE FROM ${dedupUrls}`);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MinHash / LSH
+// ---------------------------------------------------------------------------
+
+/**
+ * MinHash signature of a string's character trigrams (padded with a
+ * space on each side so word boundaries count).
+ */
+export function minHashSignature(text: string): Uint32Array {
+  const padded = ` ${text} `;
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+
+  const shingles = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    shingles.add(padded.slice(i, i + 3));
+  }
+
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = fmix32(base ^ SEEDS[i]!);
+      if (value < signature[i]!) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+/**
+ * One LSH bucket per band: a hash of the band's MinHash values.
+ */
+export function titleBuckets(normalizedTitle: string): number[] {
+  const signature = minHashSignature(normalizedTitle);
+  const buckets: number[] = [];
+
+  for (let band = 0; band < BANDS; band++) {
+    let h = 0x811c9dc5 ^ band;
+    for (let row = 0; row < BAND_ROWS; row++) {
+      h = Math.imul(h ^ signature[band * BAND_ROWS + row]!, 0x01000193);
+    }
+    buckets.push(fmix32(h));
+  }
+  return buckets;
+}
+
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** MurmurHash3 finalizer: spreads the bits of a 32-bit value. */
+function fmix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
@@ -4,11 +4,17 @@
  * Prevents the same contest from being stored or processed multiple times
  * by checking exact URL matches, normalized URL matches, title similarity
  * (Levenshtein distance), and content hashes.
+ *
+ * Without a DedupIndex the known contests are held in memory and must
+ * be registered on every start. With one, they live in SQLite, new
+ * contests are added as they are stored, and title similarity is only
+ * computed against the index's MinHash candidates.
  */
 
 import { createHash } from 'node:crypto';
 import { getLogger } from '../shared/logger.js';
 import { normalizeUrl } from '../shared/utils.js';
+import type { DedupIndex } from './dedup-index.js';
 import type { RawContest, DeduplicationResult } from './types.js';
 
 const log = getLogger('discovery', { component: 'deduplicator' });
@@ -16,51 +22,92 @@ const log = getLogger('discovery', { component: 'deduplicator' });
 /** Threshold above which two titles are considered a match (0-1). */
 const TITLE_SIMILARITY_THRESHOLD = 0.85;
 
+/** Contests indexed per batch by syncIndex. */
+const SYNC_BATCH_SIZE = 500;
+
 export class ContestDeduplicator {
-  /** In-memory store of known contest URLs (normalized). */
-  private readonly knownUrls = new Set<string>();
+  /** Persistent index; when set, the in-memory maps below stay empty. */
+  private readonly index: DedupIndex | null;
+  /** In-memory map of known contest URLs (raw and normalized) to contest IDs. */
+  private readonly knownUrls = new Map<string, string>();
   /** In-memory map of content hashes to contest IDs. */
   private readonly contentHashes = new Map<string, string>();
   /** In-memory map of normalized titles to contest IDs. */
   private readonly knownTitles = new Map<string, string>();
 
+  constructor(index?: DedupIndex) {
+    this.index = index ?? null;
+  }
+
   /**
    * Register an existing contest into the deduplication index.
-   * Call this for all contests already in the database at startup.
+   * Without a persistent index, call this for all contests already in
+   * the database at startup; with one, use syncIndex instead.
    */
   registerExisting(id: string, url: string, title: string, sponsor: string): void {
     const normalized = normalizeUrl(url);
-    this.knownUrls.add(normalized);
-
     const hash = this.generateContentHash(url, title, sponsor);
-    this.contentHashes.set(hash, id);
-
     const normalizedTitle = this.normalizeTitle(title);
+
+    if (this.index) {
+      this.index.add(id, { urls: [normalized], contentHash: hash, normalizedTitle });
+      return;
+    }
+
+    this.knownUrls.set(normalized, id);
+    this.contentHashes.set(hash, id);
     if (normalizedTitle.length > 0) {
       this.knownTitles.set(normalizedTitle, id);
     }
   }
 
+  /**
+   * Index contests stored since the last sync (or, on first use, every
+   * contest) in batches. Returns how many were indexed; a no-op without
+   * a persistent index.
+   */
+  syncIndex(): number {
+    if (!this.index) return 0;
+
+    let indexed = 0;
+    for (;;) {
+      const batch = this.index.listUnindexed(SYNC_BATCH_SIZE);
+      for (const contest of batch) {
+        this.registerExisting(contest.id, contest.url, contest.title, contest.sponsor ?? '');
+      }
+      indexed += batch.length;
+      if (batch.length < SYNC_BATCH_SIZE) break;
+    }
+
+    if (indexed > 0) {
+      log.info({ indexed }, 'Dedup index caught up with stored contests');
+    }
+    return indexed;
+  }
+
   /**
    * Check whether a contest is a duplicate of one already known.
    */
   async isDuplicate(contest: RawContest): Promise<DeduplicationResult> {
+    const normalizedUrl = normalizeUrl(contest.url);
+
     // 1. Exact URL match
-    if (this.knownUrls.has(contest.url)) {
+    const existingByUrl = this.findUrl(contest.url);
+    if (existingByUrl) {
       log.debug({ url: contest.url }, 'Duplicate detected: exact URL match');
-      return { isDuplicate: true, method: 'exact-url' };
+      return { isDuplicate: true, existingId: existingByUrl, method: 'exact-url' };
     }
 
     // 2. Normalized URL match
-    const normalizedUrl = normalizeUrl(contest.url);
-    if (this.knownUrls.has(normalizedUrl)) {
+    const existingByNormalizedUrl = this.findUrl(normalizedUrl);
+    if (existingByNormalizedUrl) {
       log.debug({ url: contest.url }, 'Duplicate detected: normalized URL match');
-      return { isDuplicate: true, method: 'normalized-url' };
+      return { isDuplicate: true, existingId: existingByNormalizedUrl, method: 'normalized-url' };
     }
 
     // 3. Content hash match
     const hash = this.generateContentHash(contest.url, contest.title, contest.sponsor);
-    const existingByHash = this.contentHashes.get(hash);
+    const existingByHash = this.index ? this.index.findContentHash(hash) : this.contentHashes.get(hash);
     if (existingByHash) {
       log.debug({ url: contest.url, existingId: existingByHash }, 'Duplicate detected: content hash match');
       return { isDuplicate: true, existingId: existingByHash, method: 'content-hash' };
@@ -69,7 +116,13 @@ export class ContestDeduplicator {
     // 4. Title similarity match
     const normalizedTitle = this.normalizeTitle(contest.title);
     if (normalizedTitle.length > 0) {
-      for (const [knownTitle, knownId] of this.knownTitles) {
+      const knownTitles: Iterable<[string, string]> = this.index
+        ? this.index
+            .findTitleCandidates(normalizedTitle, TITLE_SIMILARITY_THRESHOLD)
+            .map((c): [string, string] => [c.normalizedTitle, c.contestId])
+        : this.knownTitles;
+
+      for (const [knownTitle, knownId] of knownTitles) {
         const similarity = this.computeSimilarity(normalizedTitle, knownTitle);
         if (similarity >= TITLE_SIMILARITY_THRESHOLD) {
           log.debug(
@@ -89,13 +142,17 @@ export class ContestDeduplicator {
    */
   markKnown(id: string, contest: RawContest): void {
     const normalizedUrl = normalizeUrl(contest.url);
-    this.knownUrls.add(contest.url);
-    this.knownUrls.add(normalizedUrl);
-
     const hash = this.generateContentHash(contest.url, contest.title, contest.sponsor);
-    this.contentHashes.set(hash, id);
-
     const normalizedTitle = this.normalizeTitle(contest.title);
+
+    if (this.index) {
+      this.index.add(id, { urls: [contest.url, normalizedUrl], contentHash: hash, normalizedTitle });
+      return;
+    }
+
+    this.knownUrls.set(contest.url, id);
+    this.knownUrls.set(normalizedUrl, id);
+    this.contentHashes.set(hash, id);
     if (normalizedTitle.length > 0) {
       this.knownTitles.set(normalizedTitle, id);
     }
@@ -116,6 +173,10 @@ export class ContestDeduplicator {
    * Get statistics about the deduplication index.
    */
   getStats(): { knownUrls: number; contentHashes: number; knownTitles: number } {
+    if (this.index) {
+      const stats = this.index.stats();
+      return { knownUrls: stats.urls, contentHashes: stats.contentHashes, knownTitles: stats.titles };
+    }
     return {
       knownUrls: this.knownUrls.size,
       contentHashes: this.contentHashes.size,
@@ -127,6 +188,7 @@ export class ContestDeduplicator {
    * Clear the deduplication index.
    */
   clear(): void {
+    this.index?.clear();
     this.knownUrls.clear();
     this.contentHashes.clear();
     this.knownTitles.clear();
@@ -136,6 +198,10 @@ export class ContestDeduplicator {
   // Internal helpers
   // ---------------------------------------------------------------------------
 
+  private findUrl(url: string): string | undefined {
+    return this.index ? (this.index.findUrl([url]) ?? undefined) : this.knownUrls.get(url);
+  }
+
   /**
    * Generate a SHA-256 hash from URL, title, and sponsor for content-based dedup.
    */
@@ -0,0 +1,45 @@
+import { readdirSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { PATHS } from '../shared/constants.js';
+import { diffValues, runGoldenCases } from './golden-runner.js';
+
+const caseNames = readdirSync(resolve(PATHS.GOLDEN_CASES))
+  .filter((f) => f.endsWith('.case.json'))
+  .map((f) => f.slice(0, -'.case.json'.length))
+  .sort();
+
+describe('golden discovery cases', () => {
+  it.each(caseNames)('%s matches its golden output', async (name) => {
+    const [result] = await runGoldenCases({ cases: [name] });
+
+    expect(result?.error).toBeUndefined();
+    expect(result?.diffs).toEqual([]);
+    expect(result?.status).toBe('passed');
+  });
+});
+
+describe('diffValues', () => {
+  it('matches contests by URL rather than position', () => {
+    const expected = [
+      { url: 'https://a.example/1', title: 'One' },
+      { url: 'https://a.example/2', title: 'Two' },
+    ];
+    const actual = [
+      { url: 'https://a.example/0', title: 'Zero' },
+      { url: 'https://a.example/1', title: 'One' },
+      { url: 'https://a.example/2', title: 'Two!' },
+    ];
+
+    expect(diffValues(expected, actual, '')).toEqual([
+      '[https://a.example/2].title: "Two" -> "Two!"',
+      '[https://a.example/0]: added',
+    ]);
+  });
+
+  it('reports nested field changes with their path', () => {
+    expect(diffValues({ prize: { value: 10 } }, { prize: { value: 12 } }, '')).toEqual([
+      'prize.value: 10 -> 12',
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Golden-file runner for discovery parsing.
+ *
+ * Each case in the golden directory (`<name>.case.json`) names a
+ * discovery target; the runner executes it with HTTP replayed from
+ * fixtures and compares the result with `<name>.golden.json`, printing
+ * a field-level diff of every RawContest / ContestDetails change.
+ *
+ * Case kinds:
+ *
+ *   { "kind": "source",  "source": { "id": "sweepstakes-advantage", "url": "...", ... } }
+ *   { "kind": "rss",     "url": "https://example.com/feed.xml" }
+ *   { "kind": "details", "url": "https://example.com/contest" }
+ *
+ * Usage: npm run test:golden -- [case ...] [--record] [--update]
+ *
+ *   --record  fetch live and (re)write HTTP fixtures instead of replaying
+ *   --update  write the current output as the new golden file
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { PATHS } from '../shared/constants.js';
+import { configureHttpFixtures, httpClient } from './http-client.js';
+import { createSourceHandler, ensureSourcePluginsLoaded } from './sources/index.js';
+import { RSSFetcher } from './rss-fetcher.js';
+import { extractContestDetails } from './contest-extractor.js';
+import type { DiscoverySource } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type GoldenCase =
+  | { kind: 'source'; description?: string; source: Partial<DiscoverySource> & { id: string; url: string } }
+  | { kind: 'rss'; description?: string; url: string }
+  | { kind: 'details'; description?: string; url: string };
+
+export interface GoldenResult {
+  name: string;
+  status: 'passed' | 'failed' | 'updated' | 'new' | 'error';
+  diffs: string[];
+  error?: string;
+}
+
+export interface GoldenRunOptions {
+  dir?: string;
+  cases?: string[];
+  record?: boolean;
+  update?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/**
+ * Run golden cases and compare (or update) their expected output.
+ */
+export async function runGoldenCases(options: GoldenRunOptions = {}): Promise<GoldenResult[]> {
+  const dir = resolve(options.dir ?? PATHS.GOLDEN_CASES);
+  configureHttpFixtures({ mode: options.record ? 'record' : 'replay' });
+  await ensureSourcePluginsLoaded();
+
+  const names = (await readdir(dir))
+    .filter((f) => f.endsWith('.case.json'))
+    .map((f) => f.slice(0, -'.case.json'.length))
+    .filter((name) => !options.cases?.length || options.cases.includes(name))
+    .sort();
+
+  const results: GoldenResult[] = [];
+
+  for (const name of names) {
+    const goldenPath = join(dir, `${name}.golden.json`);
+
+    let actual: unknown;
+    try {
+      const testCase = JSON.parse(await readFile(join(dir, `${name}.case.json`), 'utf8')) as GoldenCase;
+      actual = await runCase(testCase);
+    } catch (error) {
+      results.push({
+        name,
+        status: 'error',
+        diffs: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    const expected = await readJson(goldenPath);
+
+    if (options.update || expected === undefined) {
+      await writeFile(goldenPath, `${JSON.stringify(actual, null, 2)}\n`);
+      results.push({ name, status: expected === undefined ? 'new' : 'updated', diffs: [] });
+      continue;
+    }
+
+    const diffs = diffValues(expected, actual, '');
+    results.push({ name, status: diffs.length === 0 ? 'passed' : 'failed', diffs });
+  }
+
+  return results;
+}
+
+/**
+ * Execute one case and return its JSON-comparable output. Timing fields
+ * are dropped so replays are deterministic.
+ */
+async function runCase(testCase: GoldenCase): Promise<unknown> {
+  switch (testCase.kind) {
+    case 'source': {
+      const source: DiscoverySource = {
+        name: testCase.source.id,
+        type: 'html',
+        enabled: true,
+        maxPages: 1,
+        ...testCase.source,
+      };
+      const result = await createSourceHandler(source).crawl(source);
+      return { pagesCrawled: result.pagesCrawled, contests: result.contests, errors: result.errors };
+    }
+
+    case 'rss':
+      return { contests: await new RSSFetcher().fetch(testCase.url) };
+
+    case 'details': {
+      const html = await httpClient.get(testCase.url, { responseType: 'text' }).text();
+      const details = await extractContestDetails(html, testCase.url);
+      return { ...details, endDate: details.endDate?.toISOString() ?? null };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+/**
+ * Field-level diff of two JSON values. Arrays of objects with a `url`
+ * (RawContest lists, crawl errors) are matched by URL so one inserted
+ * contest does not shift every later comparison.
+ */
+export function diffValues(expected: unknown, actual: unknown, path: string): string[] {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    if (isKeyedByUrl(expected) && isKeyedByUrl(actual)) {
+      const diffs: string[] = [];
+      const actualByUrl = new Map(actual.map((item) => [item.url, item]));
+      const expectedUrls = new Set(expected.map((item) => item.url));
+
+      for (const item of expected) {
+        const other = actualByUrl.get(item.url);
+        if (other === undefined) diffs.push(`${path}[${item.url}]: removed`);
+        else diffs.push(...diffValues(item, other, `${path}[${item.url}]`));
+      }
+      for (const item of actual) {
+        if (!expectedUrls.has(item.url)) diffs.push(`${path}[${item.url}]: added`);
+      }
+      return diffs;
+    }
+
+    const diffs: string[] = [];
+    const length = Math.max(expected.length, actual.length);
+    for (let i = 0; i < length; i++) {
+      if (i >= actual.length) diffs.push(`${path}[${i}]: removed`);
+      else if (i >= expected.length) diffs.push(`${path}[${i}]: added`);
+      else diffs.push(...diffValues(expected[i], actual[i], `${path}[${i}]`));
+    }
+    return diffs;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return [...keys].flatMap((key) =>
+      diffValues(expected[key], actual[key], path ? `${path}.${key}` : key),
+    );
+  }
+
+  if (JSON.stringify(expected) === JSON.stringify(actual)) return [];
+  return [`${path || '(root)'}: ${JSON.stringify(expected)} -> ${JSON.stringify(actual)}`];
+}
+
+function isKeyedByUrl(items: unknown[]): items is Array<{ url: string }> {
+  return items.every((item) => isPlainObject(item) && typeof item['url'] === 'string');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function readJson(path: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CLI entry point
+// ---------------------------------------------------------------------------
+
+const isDirectRun =
+  process.argv[1]?.endsWith('golden-runner.ts') ||
+  process.argv[1]?.endsWith('golden-runner.js');
+
+if (isDirectRun) {
+  const args = process.argv.slice(2);
+
+  // Contest dates are parsed in local time; pin it so goldens match on every machine
+  process.env.TZ = 'UTC';
+
+  try {
+    const results = await runGoldenCases({
+      cases: args.filter((a) => !a.startsWith('--')),
+      record: args.includes('--record'),
+      update: args.includes('--update'),
+    });
+
+    for (const result of results) {
+      console.log(`[golden] ${result.status.toUpperCase()} ${result.name}${result.error ? `: ${result.error}` : ''}`);
+      for (const diff of result.diffs) console.log(`  ${diff}`);
+    }
+
+    const failed = results.filter((r) => r.status === 'failed' || r.status === 'error').length;
+    console.log(`[golden] ${results.length - failed}/${results.length} cases ok`);
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('[golden] Run failed:', error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Shared HTTP client for discovery, with fixture record/replay.
+ *
+ * Every discovery fetch (crawler, RSS feeds, source handlers) goes
+ * through `httpClient`. In normal operation it is plain `got`. Two
+ * fixture modes exist for offline work:
+ *
+ * - record: real requests are made and each response is written to the
+ *   fixtures directory as `<host>/<path-slug>-<hash>.json`
+ * - replay: no network access; responses come from the fixtures
+ *   directory and a missing fixture fails the request
+ *
+ * The mode comes from HTTP_FIXTURES_MODE / HTTP_FIXTURES_DIR and can be
+ * changed at runtime with `configureHttpFixtures` (used by the golden
+ * runner).
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import got, { type Got, type Response } from 'got';
+import Responselike from 'responselike';
+import { env } from '../env.js';
+import { getLogger } from '../shared/logger.js';
+import { DiscoveryError } from '../shared/errors.js';
+import { hashForDedup } from '../shared/crypto.js';
+import { slugify } from '../shared/utils.js';
+
+const log = getLogger('discovery', { component: 'http-client' });
+
+/** Response headers kept in fixtures; the rest are noise for parsing. */
+const RECORDED_HEADERS = ['content-type', 'etag', 'last-modified', 'location', 'content-language'];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type HttpFixtureMode = 'off' | 'record' | 'replay';
+
+export interface HttpFixturesConfig {
+  mode: HttpFixtureMode;
+  /** Directory fixtures are written to and read from. */
+  dir: string;
+}
+
+export interface HttpFixture {
+  method: string;
+  url: string;
+  /** Final URL after redirects. */
+  finalUrl: string;
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+  recordedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+let config: HttpFixturesConfig = {
+  mode: env.HTTP_FIXTURES_MODE,
+  dir: env.HTTP_FIXTURES_DIR,
+};
+
+/**
+ * Change the fixture mode and/or directory for subsequent requests.
+ */
+export function configureHttpFixtures(update: Partial<HttpFixturesConfig>): void {
+  config = { ...config, ...update };
+  log.info({ mode: config.mode, dir: resolve(config.dir) }, 'HTTP fixture mode configured');
+}
+
+export function getHttpFixturesConfig(): HttpFixturesConfig {
+  return { ...config };
+}
+
+// ---------------------------------------------------------------------------
+// Fixture storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Path of the fixture file for a request. The path slug keeps the
+ * directory browsable; the hash keeps it unique per method + URL.
+ */
+export function fixturePathFor(method: string, url: string, dir: string = config.dir): string {
+  const parsed = new URL(url);
+  const slug = slugify(parsed.pathname.replace(/\//g, ' ')).slice(0, 60) || 'index';
+  const hash = hashForDedup(`${method.toUpperCase()} ${parsed.toString()}`).slice(0, 12);
+  return join(resolve(dir), parsed.host, `${slug}-${hash}.json`);
+}
+
+export function readFixture(method: string, url: string, dir?: string): HttpFixture | null {
+  try {
+    return JSON.parse(readFileSync(fixturePathFor(method, url, dir), 'utf8')) as HttpFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export function writeFixture(fixture: Omit<HttpFixture, 'recordedAt'>, dir?: string): string {
+  const path = fixturePathFor(fixture.method, fixture.url, dir);
+  const record: HttpFixture = { ...fixture, recordedAt: new Date().toISOString() };
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(record, null, 2)}\n`);
+  return path;
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/**
+ * Got instance used by all discovery fetches. Extend it (rather than
+ * `got`) so fixture hooks stay in place.
+ */
+export const httpClient: Got = got.extend({
+  hooks: {
+    beforeRequest: [
+      (options) => {
+        if (config.mode !== 'replay') return;
+
+        const url = String(options.url);
+        const method = options.method ?? 'GET';
+        const fixture = readFixture(method, url);
+        if (!fixture) {
+          throw new DiscoveryError(
+            `No HTTP fixture for ${method} ${url} (expected ${fixturePathFor(method, url)})`,
+            'FIXTURE_MISSING',
+            url,
+          );
+        }
+
+        log.debug({ url, statusCode: fixture.statusCode }, 'Replaying HTTP fixture');
+        return new Responselike({
+          statusCode: fixture.statusCode,
+          headers: fixture.headers,
+          body: Buffer.from(fixture.body, 'utf8'),
+          url: fixture.finalUrl,
+        });
+      },
+    ],
+    afterResponse: [
+      (response: Response) => {
+        if (config.mode !== 'record' || response.isFromCache) return response;
+
+        const headers: Record<string, string> = {};
+        for (const name of RECORDED_HEADERS) {
+          const value = response.headers[name];
+          if (typeof value === 'string') headers[name] = value;
+        }
+
+        const path = writeFixture({
+          method: response.request.options.method,
+          url: response.requestUrl.toString(),
+          finalUrl: response.url,
+          statusCode: response.statusCode,
+          headers,
+          body: response.rawBody.toString('utf8'),
+        });
+        log.debug({ url: response.requestUrl.toString(), path }, 'Recorded HTTP fixture');
+
+        return response;
+      },
+    ],
+  },
+});
@@ -11,10 +11,17 @@ export type {
   DiscoverySource,
   SourceSelectors,
   PaginationConfig,
+  SitemapConfig,
+  NewsletterConfig,
+  CrawlBudget,
   RawContest,
   ContestDetails,
   LegitimacyReport,
   LegitimacyFactor,
+  ReputationKind,
+  ReputationList,
+  ReputationEntry,
+  ReputationSnapshot,
   DeduplicationResult,
   CrawlResult,
   CrawlError,
@@ -23,9 +30,81 @@ export type {
 // Core classes
 export { SweepstakesCrawler } from './crawler.js';
 export { RSSFetcher } from './rss-fetcher.js';
+export { SitemapFetcher, type SitemapEntry, type SitemapWalkResult } from './sitemap-fetcher.js';
+export { extractStructuredContests, isContestLike } from './structured-data.js';
+export { extractNewsletterContests, type NewsletterMessage } from './newsletter-parser.js';
+export {
+  httpClient,
+  configureHttpFixtures,
+  getHttpFixturesConfig,
+  type HttpFixtureMode,
+  type HttpFixture,
+} from './http-client.js';
 export { extractContestDetails } from './contest-extractor.js';
 export { ContestDeduplicator } from './deduplicator.js';
-export { LegitimacyScorer } from './legitimacy-scorer.js';
+export {
+  DedupIndex,
+  minHashSignature,
+  titleBuckets,
+  type DedupKeys,
+  type DedupIndexStats,
+  type TitleCandidate,
+} from './dedup-index.js';
+export {
+  LegitimacyScorer,
+  BUILTIN_REPUTATION,
+  normalizeSponsorName,
+  normalizeReputationValue,
+} from './legitimacy-scorer.js';
+export {
+  ReputationStore,
+  parseLegitimacyReport,
+  type AddReputationInput,
+  type FlagScamInput,
+  type FlagScamResult,
+  type ScamReport,
+} from './reputation-store.js';
+export {
+  CanonicalUrlResolver,
+  type CanonicalMethod,
+  type CanonicalUrl,
+} from './canonical-url.js';
+export {
+  ContestMerger,
+  MANUAL_TRUST,
+  sourceFieldsFromRaw,
+  sourceTrust,
+  type ContestSource,
+  type SourceFields,
+  type MergeResult,
+  type SplitResult,
+} from './contest-merger.js';
+export {
+  SourceHealthMonitor,
+  measureCrawl,
+  failedCrawlSample,
+  detectAnomalies,
+  parseSourceHealthReport,
+  HEALTH_METRICS,
+  QUARANTINE_AFTER_RUNS,
+  type SourceHealthStatus,
+  type HealthMetric,
+  type CrawlHealthSample,
+  type HealthAnomaly,
+  type SourceHealthReport,
+  type SourceHealthTrends,
+} from './source-health.js';
+export {
+  CrawlSession,
+  fetchListingPage,
+  getCrawlBudgetUsage,
+  pageFingerprint,
+  type PageStatus,
+  type FetchedPage,
+  type PageRequest,
+  type CrawlBudgetUsage,
+  type CrawlSessionOptions,
+} from './crawl-session.js';
 
 // Source handlers
 export {
@@ -34,5 +113,24 @@ export {
   SweepstakesAdvantageSource,
   OnlineSweepstakesSource,
   CustomSourceHandler,
+  ManifestSource,
+  StructuredDataSourceHandler,
+  SitemapSourceHandler,
+  NewsletterSourceHandler,
+  registerSource,
+  registerManifest,
+  getRegisteredSources,
+  defineManifest,
+  parseManifest,
+  loadManifestFile,
+  loadSourcePlugins,
+  ensureSourcePluginsLoaded,
+} from './sources/index.js';
+export type {
+  SourceHandler,
+  SourceHandlerFactory,
+  RegisteredSource,
+  SourceManifest,
+  SourcePlugin,
+  PluginLoadReport,
 } from './sources/index.js';
-export type { SourceHandler } from './sources/index.js';
@@ -4,17 +4,38 @@
  * Evaluates whether a contest is likely legitimate based on a set
  * of weighted heuristic factors. Used to filter out scams, phishing,
  * and low-quality entries before they enter the entry pipeline.
+ *
+ * The built-in scam and aggregator domain lists are defaults. A
+ * `ReputationSnapshot` (see ReputationStore) layers the user's allow and
+ * deny lists over them, plus a penalty for domains and sponsors whose
+ * earlier contests were flagged as scams.
  */
 
 import { getLogger } from '../shared/logger.js';
 import { extractDomain } from '../shared/utils.js';
-import type { RawContest, LegitimacyReport, LegitimacyFactor } from './types.js';
+import type {
+  RawContest,
+  LegitimacyReport,
+  LegitimacyFactor,
+  ReputationEntry,
+  ReputationKind,
+  ReputationSnapshot,
+} from './types.js';
 
 const log = getLogger('discovery', { component: 'legitimacy-scorer' });
 
 /** Minimum score required to pass the legitimacy check. */
 const PASS_THRESHOLD = 0.35;
 
+/** Penalty per earlier scam report against the same domain or sponsor. */
+const SCAM_REPORT_PENALTY = 0.25;
+
+/** Cap on the scam-report penalty per domain or sponsor. */
+const MAX_SCAM_REPORT_PENALTY = 0.75;
+
+/** Trailing words dropped when normalizing sponsor names. */
+const SPONSOR_SUFFIXES = /(?:\s+(?:inc|llc|ltd|co|corp|corporation|company|plc|gmbh))+$/;
+
 // ---------------------------------------------------------------------------
 // Known-good and known-bad domain lists
 // ---------------------------------------------------------------------------
@@ -57,6 +78,23 @@ const SCAM_DOMAINS = new Set([
   'free-iphone-winner.com',
 ]);
 
+/**
+ * Built-in list entries. User entries with the same kind and value
+ * take precedence over these.
+ */
+export const BUILTIN_REPUTATION: ReputationEntry[] = [
+  ...[...KNOWN_LEGITIMATE_SOURCES].map((domain) =>
+    builtinEntry(domain, 'allow', 'Known legitimate sweepstakes aggregator'),
+  ),
+  ...[...SCAM_DOMAINS].map((domain) => builtinEntry(domain, 'deny', 'Known scam domain')),
+];
+
+const BUILTIN_BY_KEY = new Map(
+  BUILTIN_REPUTATION.map((entry) => [reputationKey(entry.kind, entry.value), entry]),
+);
+
+const EMPTY_REPUTATION: ReputationSnapshot = { entries: new Map(), scamReports: new Map() };
+
 const SUSPICIOUS_KEYWORDS = [
   'guaranteed win',
   'claim your prize now',
@@ -100,6 +138,20 @@ const EXCESSIVE_PERSONAL_INFO_KEYWORDS = [
 ];
 
 export class LegitimacyScorer {
+  private reputation: ReputationSnapshot;
+
+  constructor(reputation: ReputationSnapshot = EMPTY_REPUTATION) {
+    this.reputation = reputation;
+  }
+
+  /**
+   * Replace the reputation data used by later evaluations. Long-lived
+   * scorers call this before each batch so list edits take effect.
+   */
+  setReputation(reputation: ReputationSnapshot): void {
+    this.reputation = reputation;
+  }
+
   /**
    * Score a contest's legitimacy on a 0-1 scale.
    * Returns just the numeric score for quick filtering.
@@ -120,23 +172,33 @@ export class LegitimacyScorer {
     const domain = extractDomain(url);
     const combined = `${contest.title} ${contest.prizeDescription} ${contest.sponsor}`.toLowerCase();
 
-    // Factor 1: Known scam domain check (instant disqualification)
-    if (SCAM_DOMAINS.has(domain)) {
+    const sponsorName = normalizeSponsorName(contest.sponsor);
+    const domainEntry = this.lookup('domain', domain);
+    const sponsorEntry = this.lookup('sponsor', sponsorName);
+
+    // Factor 1: Deny-listed domain or sponsor (instant disqualification)
+    const denied = [domainEntry, sponsorEntry].find((entry) => entry?.list === 'deny');
+    if (denied) {
       factors.push({
-        name: 'scam-domain',
+        name: denied.builtin ? 'scam-domain' : 'deny-list',
         score: -1.0,
-        reason: `Domain "${domain}" is on the known scam list`,
+        reason: denied.builtin
+          ? `Domain "${domain}" is on the known scam list`
+          : describeEntry(denied),
       });
       return this.buildReport(factors, -1.0);
     }
 
-    // Factor 2: Known legitimate source (+0.3)
-    const sourceDomain = extractDomain(contest.source);
-    if (KNOWN_LEGITIMATE_SOURCES.has(sourceDomain) || KNOWN_LEGITIMATE_SOURCES.has(domain)) {
+    // Factor 2: Known legitimate source or allow-listed domain/sponsor (+0.3)
+    const sourceEntry = this.lookup('domain', extractDomain(contest.source));
+    const allowed = [domainEntry, sourceEntry, sponsorEntry].find((entry) => entry?.list === 'allow');
+    if (allowed) {
       factors.push({
-        name: 'known-source',
+        name: allowed.builtin ? 'known-source' : 'allow-list',
         score: 0.3,
-        reason: 'Contest found on a known legitimate aggregator',
+        reason: allowed.builtin
+          ? 'Contest found on a known legitimate aggregator'
+          : describeEntry(allowed),
       });
       totalScore += 0.3;
     }
@@ -253,12 +315,51 @@ export class LegitimacyScorer {
       totalScore += 0.1;
     }
 
+    // Factor 11: Earlier scam reports against this domain or sponsor
+    // (-0.25 each, up to -0.75 per kind). An allow-list entry overrides them.
+    for (const [kind, value, entry] of [
+      ['domain', domain, domainEntry],
+      ['sponsor', sponsorName, sponsorEntry],
+    ] as const) {
+      const reports = value ? this.reputation.scamReports.get(reputationKey(kind, value)) ?? 0 : 0;
+      if (reports === 0 || entry?.list === 'allow') continue;
+
+      const penalty = Math.min(MAX_SCAM_REPORT_PENALTY, reports * SCAM_REPORT_PENALTY);
+      factors.push({
+        name: 'scam-reports',
+        score: -penalty,
+        reason: `${reports} earlier contest(s) from ${kind} "${value}" were flagged as scams`,
+      });
+      totalScore -= penalty;
+    }
+
     // Clamp score to [0, 1]
     totalScore = Math.max(0, Math.min(1, totalScore));
 
     return this.buildReport(factors, totalScore);
   }
 
+  /**
+   * The list entry for a domain or sponsor; user entries win over
+   * built-ins. A domain entry also covers its subdomains, the most
+   * specific entry winning.
+   */
+  private lookup(kind: ReputationKind, value: string): ReputationEntry | undefined {
+    if (!value) return undefined;
+
+    const labels = value.split('.');
+    const candidates = kind === 'domain'
+      ? labels.slice(0, -1).map((_, i) => labels.slice(i).join('.'))
+      : [value];
+
+    for (const candidate of candidates) {
+      const key = reputationKey(kind, candidate);
+      const entry = this.reputation.entries.get(key) ?? BUILTIN_BY_KEY.get(key);
+      if (entry) return entry;
+    }
+    return undefined;
+  }
+
   /**
    * Heuristic score for domain quality based on structure.
    */
@@ -319,3 +420,65 @@ export class LegitimacyScorer {
     return { score, factors, passed, summary };
   }
 }
+
+// ---------------------------------------------------------------------------
+// Reputation helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a domain (or a parent of it) is a built-in sweepstakes
+ * aggregator, i.e. a listing site rather than a sponsor.
+ */
+export function isAggregatorDomain(domain: string): boolean {
+  const labels = domain.toLowerCase().split('.');
+  return labels.slice(0, -1).some((_, i) => KNOWN_LEGITIMATE_SOURCES.has(labels.slice(i).join('.')));
+}
+
+/** Map key for a reputation entry or scam-report count. */
+export function reputationKey(kind: ReputationKind, value: string): string {
+  return `${kind}:${value}`;
+}
+
+/**
+ * Lowercases a sponsor name and drops punctuation and corporate
+ * suffixes, so "Acme Foods, Inc." and "ACME Foods" match.
+ */
+export function normalizeSponsorName(sponsor: string | null | undefined): string {
+  return (sponsor ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9&\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(SPONSOR_SUFFIXES, '');
+}
+
+/**
+ * Normalizes a user-supplied list value. Domains may be given as a bare
+ * host or a full URL.
+ */
+export function normalizeReputationValue(kind: ReputationKind, raw: string): string {
+  if (kind === 'sponsor') return normalizeSponsorName(raw);
+
+  const trimmed = raw.trim().toLowerCase();
+  const host = trimmed.includes('://') ? extractDomain(trimmed) : trimmed.split(/[/?#:]/)[0]!;
+  return host.replace(/^www\./, '');
+}
+
+function builtinEntry(domain: string, list: ReputationEntry['list'], reason: string): ReputationEntry {
+  return {
+    id: `builtin:${reputationKey('domain', domain)}`,
+    kind: 'domain',
+    value: domain,
+    list,
+    reason,
+    addedBy: 'system',
+    builtin: true,
+    createdAt: null,
+  };
+}
+
+function describeEntry(entry: ReputationEntry): string {
+  const label = entry.kind === 'domain' ? 'Domain' : 'Sponsor';
+  const reason = entry.reason ? `: ${entry.reason}` : '';
+  return `${label} "${entry.value}" is on the ${entry.list} list${reason} (added by ${entry.addedBy})`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Contest extraction from email newsletters.
+ *
+ * Local giveaway roundups usually list each promotion as a short block:
+ * a headline or linked title, a sentence about the prize and an end
+ * date, and an "Enter" link. This parser walks the links in the HTML
+ * body, keeps those whose text or surrounding block reads like a
+ * contest, and reads the title, prize and end date from that block.
+ * Plain-text newsletters fall back to one contest per URL in each
+ * contest-like paragraph.
+ *
+ * Every contest carries the message ID it came from.
+ */
+
+import * as cheerio from 'cheerio';
+import { normalizeUrl } from '../shared/utils.js';
+import { isContestLike } from './structured-data.js';
+import type { RawContest } from './types.js';
+
+/** The parts of an email message the parser reads. */
+export interface NewsletterMessage {
+  id: string;
+  subject: string;
+  htmlBody: string;
+  body: string;
+}
+
+/** End date phrases, most specific first. */
+const END_DATE_PATTERNS: RegExp[] = [
+  /(?:ends?|expires?|deadline|closes?|enter by|through|until|thru)\s*[:.]?\s*(\d{1,2}\/\d{1,2}(?:\/\d{2,4})?)/i,
+  /(?:ends?|expires?|deadline|closes?|enter by|through|until|thru)\s*[:.]?\s*((?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2}(?:st|nd|rd|th)?,?(?:\s+\d{4})?)/i,
+];
+
+/** Links that are newsletter furniture, never a contest. */
+const IGNORED_LINK = /unsubscribe|manage (?:your )?preferences|view (?:this email )?in (?:your )?browser|privacy|forward to a friend|update your profile/i;
+
+const IGNORED_HOSTS = ['facebook.com', 'twitter.com', 'x.com', 'instagram.com', 'pinterest.com', 'linkedin.com', 'youtube.com', 'tiktok.com'];
+
+/** Link text that only says where to click. */
+const GENERIC_LINK_TEXT = /^(?:enter(?: now| here)?|click here|here|learn more|read more|details|more info|go|visit|sign up)!?$/i;
+
+const SPONSOR_PATTERN = /(?:sponsored by|courtesy of|presented by|from our friends at)\s+([A-Z][\w&'.\- ]{1,60}?)(?=[.,;!\n]|$)/;
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>\])}]+/gi;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the contests a newsletter links to.
+ */
+export function extractNewsletterContests(message: NewsletterMessage, sourceId: string): RawContest[] {
+  const contests = message.htmlBody
+    ? fromHtml(message, sourceId)
+    : fromText(message, sourceId);
+
+  // One contest per URL; a roundup often links the title and an Enter button
+  const byUrl = new Map<string, RawContest>();
+  for (const contest of contests) {
+    const existing = byUrl.get(contest.url);
+    if (!existing || (GENERIC_LINK_TEXT.test(existing.title) && !GENERIC_LINK_TEXT.test(contest.title))) {
+      byUrl.set(contest.url, contest);
+    }
+  }
+  return [...byUrl.values()];
+}
+
+// ---------------------------------------------------------------------------
+// HTML newsletters
+// ---------------------------------------------------------------------------
+
+function fromHtml(message: NewsletterMessage, sourceId: string): RawContest[] {
+  const $ = cheerio.load(message.htmlBody);
+  const contests: RawContest[] = [];
+
+  // Keep words in adjacent elements apart when reading block text
+  $('p, div, td, th, li, tr, br, h1, h2, h3, h4, h5, h6, strong, b, span').after(' ');
+
+  $('a[href]').each((_index, element) => {
+    const link = $(element);
+    const url = contestUrl(link.attr('href') ?? '');
+    const linkText = collapse(link.text());
+    if (!url || IGNORED_LINK.test(linkText)) return;
+
+    // The smallest enclosing block that says more than the link itself
+    let block = link.parent();
+    while (block.length > 0 && !block.is('body') && collapse(block.text()).length <= linkText.length + 20) {
+      block = block.parent();
+    }
+    const blockText = collapse(block.text());
+    if (blockText.length > 1200 || !isContestLike(linkText, blockText)) return;
+
+    const heading = collapse(block.find('h1, h2, h3, h4, strong, b').first().text());
+    const title = [linkText, heading].find((text) => text && !GENERIC_LINK_TEXT.test(text) && text.length > 6) ?? message.subject;
+
+    contests.push(toRawContest(message, sourceId, url, title, blockText));
+  });
+
+  return contests;
+}
+
+// ---------------------------------------------------------------------------
+// Plain-text newsletters
+// ---------------------------------------------------------------------------
+
+function fromText(message: NewsletterMessage, sourceId: string): RawContest[] {
+  const contests: RawContest[] = [];
+  const paragraphs = message.body.split(/\n\s*\n/);
+
+  for (const paragraph of paragraphs) {
+    const text = collapse(paragraph);
+    if (!isContestLike(text)) continue;
+
+    for (const match of text.match(URL_PATTERN) ?? []) {
+      const url = contestUrl(match.replace(/[.,;:!?)>\]]+$/, ''));
+      if (!url) continue;
+
+      const firstLine = collapse(paragraph.trim().split('\n')[0] ?? '').replace(URL_PATTERN, '').trim();
+      contests.push(toRawContest(message, sourceId, url, firstLine.length > 6 ? firstLine : message.subject, text));
+    }
+  }
+
+  return contests;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toRawContest(
+  message: NewsletterMessage,
+  sourceId: string,
+  url: string,
+  title: string,
+  context: string,
+): RawContest {
+  const endDate = END_DATE_PATTERNS.map((pattern) => pattern.exec(context)?.[1]).find(Boolean) ?? '';
+
+  return {
+    url,
+    title: title.slice(0, 300),
+    sponsor: SPONSOR_PATTERN.exec(context)?.[1]?.trim() ?? '',
+    endDate,
+    prizeDescription: context.slice(0, 500),
+    source: sourceId,
+    entryMethod: 'form',
+    type: /instant[- ]win/i.test(context) ? 'instant_win' : /giveaway/i.test(context) ? 'giveaway' : 'sweepstakes',
+    messageId: message.id,
+  };
+}
+
+/** An http(s) link that is not social sharing, normalized. */
+function contestUrl(href: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(href.trim());
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+  const host = parsed.hostname.replace(/^www\./, '');
+  if (IGNORED_HOSTS.some((ignored) => host === ignored || host.endsWith(`.${ignored}`))) return null;
+
+  return normalizeUrl(parsed.toString());
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
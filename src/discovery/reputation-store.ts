@@ -0,0 +1,423 @@
+/**
+ * Sponsor / domain reputation lists and scam reports.
+ *
+ * The legitimacy scorer ships with built-in aggregator and scam domain
+ * lists. This store holds what the user adds on top:
+ *
+ * - allow / deny entries for a domain or sponsor, with a reason and who
+ *   added them (an entry overrides a built-in one for the same value)
+ * - scam reports: each contest flagged as a scam counts against its
+ *   domain and sponsor in later scoring
+ *
+ * `snapshot()` loads both for a LegitimacyScorer. Whenever a list or
+ * report changes, the legitimacy of stored contests from the affected
+ * domain or sponsor is re-evaluated so scores and reports stay current.
+ */
+
+import { and, asc, count as countFn, desc, eq, isNotNull, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { generateId } from '../shared/crypto.js';
+import { AppError } from '../shared/errors.js';
+import { extractDomain } from '../shared/utils.js';
+import { getAuditService } from '../analytics/audit-service.js';
+import { contests, reputationEntries, scamReports } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import {
+  BUILTIN_REPUTATION,
+  LegitimacyScorer,
+  normalizeReputationValue,
+  normalizeSponsorName,
+  reputationKey,
+} from './legitimacy-scorer.js';
+import type {
+  LegitimacyReport,
+  RawContest,
+  ReputationEntry,
+  ReputationKind,
+  ReputationList,
+  ReputationSnapshot,
+} from './types.js';
+
+const logger = getLogger('discovery', { component: 'reputation-store' });
+
+/** Contests in these states are never re-scored. */
+const FINAL_STATUSES = ['completed', 'expired', 'invalid'] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ReputationFilter {
+  kind?: ReputationKind;
+  list?: ReputationList;
+}
+
+export interface AddReputationInput {
+  kind: ReputationKind;
+  /** Domain, URL or sponsor name; normalized before storing. */
+  value: string;
+  list: ReputationList;
+  reason?: string;
+  addedBy: string;
+}
+
+export interface ScamReport {
+  id: string;
+  contestId: string | null;
+  domain: string;
+  sponsor: string | null;
+  reason: string | null;
+  reportedBy: string;
+  createdAt: string;
+}
+
+export interface FlagScamInput {
+  reason?: string;
+  reportedBy: string;
+  /** Also put the contest's domain on the deny list. */
+  denyDomain?: boolean;
+  /** Also put the contest's sponsor on the deny list. */
+  denySponsor?: boolean;
+}
+
+export interface FlagScamResult {
+  report: ScamReport;
+  /** Contests whose legitimacy was re-evaluated, including the flagged one. */
+  rescored: number;
+}
+
+interface RescoreTarget {
+  domain?: string;
+  sponsor?: string;
+}
+
+type ContestRow = typeof contests.$inferSelect;
+
+// ---------------------------------------------------------------------------
+// ReputationStore
+// ---------------------------------------------------------------------------
+
+export class ReputationStore {
+  private readonly db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Lists allow / deny entries. Built-in entries are included unless a
+   * user entry overrides them.
+   */
+  list(filter: ReputationFilter = {}): ReputationEntry[] {
+    const userEntries = this.db
+      .select()
+      .from(reputationEntries)
+      .orderBy(asc(reputationEntries.kind), asc(reputationEntries.value))
+      .all()
+      .map(toReputationEntry);
+
+    const overridden = new Set(userEntries.map((e) => reputationKey(e.kind, e.value)));
+    const builtins = BUILTIN_REPUTATION.filter((e) => !overridden.has(reputationKey(e.kind, e.value)));
+
+    return [...userEntries, ...builtins].filter(
+      (entry) =>
+        (!filter.kind || entry.kind === filter.kind) && (!filter.list || entry.list === filter.list),
+    );
+  }
+
+  /**
+   * Adds an entry, or updates the list / reason of an existing entry for
+   * the same domain or sponsor.
+   */
+  async add(input: AddReputationInput): Promise<{ entry: ReputationEntry; created: boolean }> {
+    const value = normalizeReputationValue(input.kind, input.value);
+    if (!value) {
+      throw new AppError(`"${input.value}" is not a valid ${input.kind}`, 'INVALID_REPUTATION_VALUE', 400);
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.findEntry(input.kind, value);
+
+    if (existing) {
+      this.db
+        .update(reputationEntries)
+        .set({ list: input.list, reason: input.reason ?? null, addedBy: input.addedBy, updatedAt: now })
+        .where(eq(reputationEntries.id, existing.id))
+        .run();
+    } else {
+      this.db
+        .insert(reputationEntries)
+        .values({
+          id: generateId(),
+          kind: input.kind,
+          value,
+          list: input.list,
+          reason: input.reason ?? null,
+          addedBy: input.addedBy,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .run();
+    }
+
+    const entry = toReputationEntry(this.findEntry(input.kind, value)!);
+
+    await getAuditService().record({
+      action: 'reputation.updated',
+      entityType: 'reputation_entry',
+      entityId: entry.id,
+      details: { kind: entry.kind, value, list: entry.list, reason: entry.reason, addedBy: entry.addedBy },
+    });
+
+    logger.info({ kind: entry.kind, value, list: entry.list, addedBy: entry.addedBy }, 'Reputation entry saved');
+    this.rescore({ [entry.kind]: value });
+
+    return { entry, created: !existing };
+  }
+
+  /**
+   * Removes a user entry. Returns false when it does not exist.
+   */
+  async remove(id: string): Promise<boolean> {
+    if (id.startsWith('builtin:')) {
+      throw new AppError(
+        'Built-in entries cannot be removed; add an entry for the same value to override it',
+        'REPUTATION_ENTRY_BUILTIN',
+        409,
+      );
+    }
+
+    const row = this.db.select().from(reputationEntries).where(eq(reputationEntries.id, id)).get();
+    if (!row) return false;
+
+    this.db.delete(reputationEntries).where(eq(reputationEntries.id, id)).run();
+
+    await getAuditService().record({
+      action: 'reputation.removed',
+      entityType: 'reputation_entry',
+      entityId: id,
+      details: { kind: row.kind, value: row.value, list: row.list },
+    });
+
+    logger.info({ kind: row.kind, value: row.value, list: row.list }, 'Reputation entry removed');
+    this.rescore({ [row.kind]: row.value });
+
+    return true;
+  }
+
+  /**
+   * Flags a contest as a scam: records a report against its domain and
+   * sponsor, blocks the contest and re-scores other contests from the
+   * same domain or sponsor.
+   */
+  async flagScam(contestId: string, input: FlagScamInput): Promise<FlagScamResult> {
+    const contest = this.db
+      .select({ id: contests.id, url: contests.url, sponsor: contests.sponsor })
+      .from(contests)
+      .where(eq(contests.id, contestId))
+      .get();
+
+    if (!contest) {
+      throw new AppError('Contest not found', 'CONTEST_NOT_FOUND', 404);
+    }
+
+    const domain = extractDomain(contest.url);
+    const sponsor = normalizeSponsorName(contest.sponsor) || null;
+    const now = new Date().toISOString();
+    const id = generateId();
+
+    this.db.transaction((tx) => {
+      tx.insert(scamReports)
+        .values({
+          id,
+          contestId,
+          domain,
+          sponsor,
+          reason: input.reason ?? null,
+          reportedBy: input.reportedBy,
+          createdAt: now,
+        })
+        .run();
+
+      tx.update(contests)
+        .set({ status: 'blocked', updatedAt: now })
+        .where(eq(contests.id, contestId))
+        .run();
+    });
+
+    const reason = input.reason ? `Flagged as scam: ${input.reason}` : 'Flagged as scam';
+    if (input.denyDomain) {
+      await this.add({ kind: 'domain', value: domain, list: 'deny', reason, addedBy: input.reportedBy });
+    }
+    if (input.denySponsor && sponsor) {
+      await this.add({ kind: 'sponsor', value: sponsor, list: 'deny', reason, addedBy: input.reportedBy });
+    }
+
+    await getAuditService().record({
+      action: 'contest.flagged_scam',
+      entityType: 'contest',
+      entityId: contestId,
+      details: { domain, sponsor, reason: input.reason, reportedBy: input.reportedBy },
+    });
+
+    logger.warn({ contestId, domain, sponsor, reportedBy: input.reportedBy }, 'Contest flagged as scam');
+
+    const rescored = this.rescore({ domain, sponsor: sponsor ?? undefined });
+    const report = this.db.select().from(scamReports).where(eq(scamReports.id, id)).get()!;
+
+    return { report, rescored };
+  }
+
+  /** Scam reports, newest first. */
+  listScamReports(filter: { domain?: string; sponsor?: string } = {}): ScamReport[] {
+    const conditions = [];
+    if (filter.domain) conditions.push(eq(scamReports.domain, normalizeReputationValue('domain', filter.domain)));
+    if (filter.sponsor) conditions.push(eq(scamReports.sponsor, normalizeSponsorName(filter.sponsor)));
+
+    return this.db
+      .select()
+      .from(scamReports)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(scamReports.createdAt))
+      .all();
+  }
+
+  /**
+   * Loads user list entries and scam-report counts for the scorer.
+   */
+  snapshot(): ReputationSnapshot {
+    const entries = new Map<string, ReputationEntry>();
+    for (const row of this.db.select().from(reputationEntries).all()) {
+      entries.set(reputationKey(row.kind, row.value), toReputationEntry(row));
+    }
+
+    const scamReportCounts = new Map<string, number>();
+    const byDomain = this.db
+      .select({ value: scamReports.domain, reports: countFn() })
+      .from(scamReports)
+      .groupBy(scamReports.domain)
+      .all();
+    for (const { value, reports } of byDomain) {
+      scamReportCounts.set(reputationKey('domain', value), reports);
+    }
+
+    const bySponsor = this.db
+      .select({ value: scamReports.sponsor, reports: countFn() })
+      .from(scamReports)
+      .where(isNotNull(scamReports.sponsor))
+      .groupBy(scamReports.sponsor)
+      .all();
+    for (const { value, reports } of bySponsor) {
+      if (value) scamReportCounts.set(reputationKey('sponsor', value), reports);
+    }
+
+    return { entries, scamReports: scamReportCounts };
+  }
+
+  // -------------------------------------------------------------------------
+  // Private
+  // -------------------------------------------------------------------------
+
+  private findEntry(kind: ReputationKind, value: string) {
+    return this.db
+      .select()
+      .from(reputationEntries)
+      .where(and(eq(reputationEntries.kind, kind), eq(reputationEntries.value, value)))
+      .get();
+  }
+
+  /**
+   * Re-evaluates the legitimacy of stored contests from a domain (or
+   * its subdomains) or sponsor and saves the new score and report.
+   * Returns the number of contests updated.
+   */
+  private rescore(target: RescoreTarget): number {
+    // Narrow in SQL to contests whose URL contains the domain or whose
+    // sponsor contains the longest word of the normalized name; the exact
+    // match below then drops the few false positives
+    const narrow: SQL[] = [];
+    if (target.domain) {
+      narrow.push(sql`instr(lower(${contests.url}), ${target.domain}) > 0`);
+    }
+    const sponsorWord = target.sponsor
+      ?.split(' ')
+      .reduce((longest, word) => (word.length > longest.length ? word : longest), '');
+    if (sponsorWord) {
+      narrow.push(sql`instr(lower(${contests.sponsor}), ${sponsorWord}) > 0`);
+    }
+    if (narrow.length === 0) return 0;
+
+    const scorer = new LegitimacyScorer(this.snapshot());
+    const candidates = this.db
+      .select()
+      .from(contests)
+      .where(and(notInArray(contests.status, [...FINAL_STATUSES]), or(...narrow)))
+      .all()
+      .filter((row) => {
+        const domain = extractDomain(row.url);
+        return (
+          (target.domain !== undefined &&
+            (domain === target.domain || domain.endsWith(`.${target.domain}`))) ||
+          (target.sponsor !== undefined && normalizeSponsorName(row.sponsor) === target.sponsor)
+        );
+      });
+
+    if (candidates.length === 0) return 0;
+
+    const now = new Date().toISOString();
+    this.db.transaction((tx) => {
+      for (const row of candidates) {
+        const report = scorer.evaluate(toRawContest(row));
+        tx.update(contests)
+          .set({ legitimacyScore: report.score, legitimacyReport: JSON.stringify(report), updatedAt: now })
+          .where(eq(contests.id, row.id))
+          .run();
+      }
+    });
+
+    logger.info({ ...target, contests: candidates.length }, 'Contest legitimacy re-scored');
+    return candidates.length;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a stored `contests.legitimacy_report` value.
+ */
+export function parseLegitimacyReport(raw: string | null): LegitimacyReport | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as LegitimacyReport;
+  } catch {
+    return null;
+  }
+}
+
+function toReputationEntry(row: typeof reputationEntries.$inferSelect): ReputationEntry {
+  return {
+    id: row.id,
+    kind: row.kind,
+    value: row.value,
+    list: row.list,
+    reason: row.reason,
+    addedBy: row.addedBy,
+    builtin: false,
+    createdAt: row.createdAt,
+  };
+}
+
+function toRawContest(row: ContestRow): RawContest {
+  return {
+    url: row.url,
+    title: row.title,
+    sponsor: row.sponsor ?? '',
+    endDate: row.endDate ?? '',
+    prizeDescription: row.prizeDescription ?? '',
+    source: row.sourceUrl ?? row.source ?? '',
+    entryMethod: row.entryMethod,
+    type: row.type,
+  };
+}
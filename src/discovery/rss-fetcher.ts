@@ -7,12 +7,12 @@
  */
 
 import * as cheerio from 'cheerio';
-import got from 'got';
 import { getLogger } from '../shared/logger.js';
 import { DiscoveryError } from '../shared/errors.js';
 import { retry } from '../shared/retry.js';
 import { USER_AGENTS } from '../shared/constants.js';
 import { pickRandom, normalizeUrl } from '../shared/utils.js';
+import { httpClient } from './http-client.js';
 import type { RawContest } from './types.js';
 
 const log = getLogger('discovery', { component: 'rss-fetcher' });
@@ -59,7 +59,7 @@ export class RSSFetcher {
 
     const response = await retry(
       () =>
-        got.get(feedUrl, {
+        httpClient.get(feedUrl, {
           headers: {
             'User-Agent': userAgent,
             'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { detectAnomalies, measureCrawl, type HealthMetric } from './source-health.js';
+import type { CrawlResult, RawContest } from './types.js';
+
+function contest(i: number): RawContest {
+  return {
+    url: `https://sweeps.example/contest/${i}`,
+    title: `Contest ${i}`,
+    sponsor: 'Acme',
+    endDate: '2026-12-31',
+    prizeDescription: '$500 gift card',
+    source: 'example',
+    entryMethod: 'form',
+    type: 'sweepstakes',
+  };
+}
+
+function crawl(fetched: number, extra: Partial<CrawlResult> = {}): CrawlResult {
+  return {
+    source: { id: 'src-1', name: 'Example', url: 'https://sweeps.example', type: 'html', enabled: true },
+    contests: Array.from({ length: fetched }, (_, i) => contest(i)),
+    pagesCrawled: 3,
+    durationMs: 1000,
+    errors: [],
+    ...extra,
+  };
+}
+
+/** History of full crawls that always returned `fetched` contests. */
+function steadyHistory(fetched: number, runs = 10): Record<HealthMetric, number[]> {
+  return {
+    fetched: Array(runs).fill(fetched),
+    new_contests: Array(runs).fill(2),
+    duplicate_ratio: Array(runs).fill(0.8),
+    completeness: Array(runs).fill(1),
+    error_rate: Array(runs).fill(0),
+    selector_hit_rate: [],
+  };
+}
+
+describe('measureCrawl', () => {
+  it('marks incremental crawls that stopped part way as partial', () => {
+    const outcome = { newContests: 1, duplicates: 4 };
+
+    expect(measureCrawl(crawl(5), outcome).partial).toBe(false);
+    expect(measureCrawl(crawl(5, { pagesUnchanged: 1 }), outcome).partial).toBe(true);
+    expect(measureCrawl(crawl(5, { budgetExhausted: true }), outcome).partial).toBe(true);
+    expect(measureCrawl(crawl(5, { stoppedAtKnown: true }), outcome).partial).toBe(true);
+  });
+});
+
+describe('detectAnomalies', () => {
+  it('flags a yield drop on a full crawl', () => {
+    const sample = measureCrawl(crawl(5), { newContests: 0, duplicates: 4 });
+
+    const anomalies = detectAnomalies(sample, steadyHistory(20));
+
+    expect(anomalies).toContainEqual(
+      expect.objectContaining({ metric: 'fetched', severity: 'critical', value: 5, baseline: 20 }),
+    );
+  });
+
+  it('does not raise a yield alert for a partly unchanged crawl', () => {
+    const sample = measureCrawl(crawl(5, { pagesUnchanged: 2 }), { newContests: 0, duplicates: 4 });
+
+    const anomalies = detectAnomalies(sample, steadyHistory(20));
+
+    expect(anomalies.filter((a) => a.metric === 'fetched')).toEqual([]);
+    expect(anomalies.filter((a) => a.severity === 'critical')).toEqual([]);
+  });
+
+  it('does not raise a yield alert for a crawl cut short by its budget', () => {
+    const sample = measureCrawl(crawl(3, { budgetExhausted: true, pagesCrawled: 1 }), {
+      newContests: 1,
+      duplicates: 2,
+    });
+
+    expect(detectAnomalies(sample, steadyHistory(20)).filter((a) => a.metric === 'fetched')).toEqual([]);
+  });
+});
+
+describe('detectAnomalies against history', () => {
+  const full = (fetched: number) => measureCrawl(crawl(fetched), { newContests: 1, duplicates: 0 });
+
+  it('tolerates drops within the spread of a noisy source', () => {
+    const history = { ...steadyHistory(0), fetched: [12, 20, 28, 16, 24, 14, 26, 20] };
+
+    expect(detectAnomalies(full(10), history).filter((a) => a.metric === 'fetched')).toEqual([]);
+  });
+
+  it('flags drops far outside the robust z-score', () => {
+    const history = { ...steadyHistory(0), fetched: [19, 20, 21, 20, 19, 21, 20, 20] };
+
+    expect(detectAnomalies(full(10), history)).toContainEqual(
+      expect.objectContaining({ metric: 'fetched', severity: 'critical', baseline: 20 }),
+    );
+  });
+
+  it('ignores changes below the minimum delta when the history never varies', () => {
+    expect(detectAnomalies(full(18), steadyHistory(20)).filter((a) => a.metric === 'fetched')).toEqual([]);
+    expect(detectAnomalies(full(17), steadyHistory(20)).filter((a) => a.metric === 'fetched')).toHaveLength(1);
+  });
+
+  it('needs enough history before comparing', () => {
+    expect(detectAnomalies(full(5), steadyHistory(20, 4)).filter((a) => a.metric === 'fetched')).toEqual([]);
+  });
+
+  it('treats an empty crawl as critical only for a source that used to yield', () => {
+    const empty = measureCrawl(crawl(0), { newContests: 0, duplicates: 0 });
+    const noHistory = steadyHistory(0, 0);
+
+    expect(detectAnomalies(empty, steadyHistory(20))[0]).toMatchObject({ metric: 'fetched', severity: 'critical' });
+    expect(detectAnomalies(empty, noHistory)[0]).toMatchObject({ metric: 'fetched', severity: 'warning' });
+  });
+
+  it('reports a failed crawl on its own', () => {
+    const failed = { ...full(0), failed: true };
+
+    expect(detectAnomalies(failed, steadyHistory(20))).toEqual([
+      expect.objectContaining({ metric: 'crawl', severity: 'critical', reason: 'Crawl failed' }),
+    ]);
+  });
+});
@@ -0,0 +1,539 @@
+/**
+ * Discovery source health scoring and quarantine.
+ *
+ * Every crawl of a source is reduced to a health sample:
+ *
+ *   fetched            contests the crawl returned
+ *   new_contests       contests stored as new
+ *   duplicate_ratio    share of fetched contests already known
+ *   completeness       share of title / URL / sponsor / end date / prize present
+ *   error_rate         crawl errors per page requested
+ *   selector_hit_rate  share of configured optional selectors that matched
+ *
+ * Samples are recorded in the TimeSeriesStore (`discovery.source.<id>.<metric>`)
+ * and compared with the source's own history using the median and the
+ * median absolute deviation, so a source that always yields five
+ * contests is not flagged for yielding five. A crawl with a critical
+ * anomaly (a failure, zero yield, or a collapse in completeness, error
+ * rate or selector hits) marks the source degraded; after
+ * QUARANTINE_AFTER_RUNS degraded crawls in a row the source is
+ * deactivated and a notification is sent. Quarantine is lifted by hand.
+ *
+ * An incremental crawl that skipped unchanged pages, stopped at a page of
+ * known contests or ran out of budget covers only part of the listing, so
+ * its yield is neither checked nor added to the yield history.
+ */
+
+import { eq } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { eventBus } from '../shared/events.js';
+import { AppError } from '../shared/errors.js';
+import { getAuditService } from '../analytics/audit-service.js';
+import { TimeSeriesStore } from '../analytics/time-series.js';
+import type { DateRange, TimeSeriesPoint } from '../analytics/types.js';
+import { NotificationManager } from '../notification/notification-manager.js';
+import { discoverySources } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import type { CrawlResult, RawContest, SourceSelectors } from './types.js';
+
+const logger = getLogger('discovery', { component: 'source-health' });
+
+// ---------------------------------------------------------------------------
+// Tuning
+// ---------------------------------------------------------------------------
+
+/** Degraded crawls in a row before a source is quarantined. */
+export const QUARANTINE_AFTER_RUNS = 3;
+
+/** History window compared against. */
+const HISTORY_DAYS = 30;
+
+/** Samples needed before history-based detection kicks in. */
+const MIN_HISTORY = 5;
+
+/** Robust z-score beyond which a value is anomalous. */
+const ANOMALY_Z = 3.5;
+
+const CRITICAL_PENALTY = 0.35;
+const WARNING_PENALTY = 0.1;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SourceHealthStatus = 'healthy' | 'degraded' | 'quarantined';
+
+export type HealthMetric =
+  | 'fetched'
+  | 'new_contests'
+  | 'duplicate_ratio'
+  | 'completeness'
+  | 'error_rate'
+  | 'selector_hit_rate';
+
+/** Health measurements of one crawl. Ratios are 0-1; null when not measurable. */
+export interface CrawlHealthSample {
+  crawledAt: string;
+  failed: boolean;
+  pagesCrawled: number;
+  fetched: number;
+  newContests: number;
+  duplicateRatio: number | null;
+  completeness: number | null;
+  httpErrors: number;
+  errorRate: number;
+  selectorHitRate: number | null;
+  /** The crawl covered only part of the listing; its yield is not comparable. */
+  partial: boolean;
+}
+
+export interface HealthAnomaly {
+  metric: HealthMetric | 'crawl';
+  severity: 'warning' | 'critical';
+  value: number;
+  /** Median of the source's history, null for checks that need none. */
+  baseline: number | null;
+  reason: string;
+}
+
+export interface SourceHealthReport {
+  sample: CrawlHealthSample;
+  anomalies: HealthAnomaly[];
+  score: number;
+  status: SourceHealthStatus;
+  degradedRuns: number;
+  /** Earlier crawls the sample was compared with. */
+  historySize: number;
+}
+
+export type SourceHealthTrends = Record<HealthMetric, TimeSeriesPoint[]>;
+
+type SourceRow = typeof discoverySources.$inferSelect;
+
+export const HEALTH_METRICS: readonly HealthMetric[] = [
+  'fetched',
+  'new_contests',
+  'duplicate_ratio',
+  'completeness',
+  'error_rate',
+  'selector_hit_rate',
+];
+
+interface MetricRule {
+  value: (sample: CrawlHealthSample) => number | null;
+  /** Direction in which a change is bad. */
+  bad: 'low' | 'high';
+  /** Smallest absolute change worth flagging, whatever the spread. */
+  minDelta: number;
+  severity: HealthAnomaly['severity'];
+  label: string;
+}
+
+/** History-based checks; new_contests is recorded but never flagged, it falls naturally. */
+const METRIC_RULES: Partial<Record<HealthMetric, MetricRule>> = {
+  fetched: { value: (s) => s.fetched, bad: 'low', minDelta: 3, severity: 'critical', label: 'Yield' },
+  duplicate_ratio: { value: (s) => s.duplicateRatio, bad: 'high', minDelta: 0.25, severity: 'warning', label: 'Duplicate ratio' },
+  completeness: { value: (s) => s.completeness, bad: 'low', minDelta: 0.2, severity: 'critical', label: 'Extraction completeness' },
+  error_rate: { value: (s) => s.errorRate, bad: 'high', minDelta: 0.25, severity: 'critical', label: 'HTTP error rate' },
+  selector_hit_rate: { value: (s) => s.selectorHitRate, bad: 'low', minDelta: 0.25, severity: 'critical', label: 'Selector hit rate' },
+};
+
+/** Optional selectors and the RawContest field each fills. */
+const SELECTOR_FIELDS: Array<[keyof SourceSelectors, keyof RawContest]> = [
+  ['endDate', 'endDate'],
+  ['prize', 'prizeDescription'],
+  ['sponsor', 'sponsor'],
+  ['entryMethod', 'entryMethod'],
+];
+
+const COMPLETENESS_FIELDS: Array<keyof RawContest> = ['title', 'url', 'sponsor', 'endDate', 'prizeDescription'];
+
+// ---------------------------------------------------------------------------
+// Measuring
+// ---------------------------------------------------------------------------
+
+/**
+ * Health sample of a finished crawl.
+ */
+export function measureCrawl(
+  result: CrawlResult,
+  outcome: { newContests: number; duplicates: number },
+): CrawlHealthSample {
+  const { contests } = result;
+  const fetched = contests.length;
+  const filled = (contest: RawContest, field: keyof RawContest) => String(contest[field] ?? '').trim().length > 0;
+
+  let completeness: number | null = null;
+  if (fetched > 0) {
+    const present = contests.reduce(
+      (sum, contest) => sum + COMPLETENESS_FIELDS.filter((field) => filled(contest, field)).length,
+      0,
+    );
+    completeness = present / (fetched * COMPLETENESS_FIELDS.length);
+  }
+
+  let selectorHitRate: number | null = null;
+  const selectors = result.source.selectors;
+  if (selectors) {
+    const configured = SELECTOR_FIELDS.filter(([selector]) => selectors[selector]);
+    if (fetched === 0) {
+      // The card selector itself matched nothing
+      selectorHitRate = 0;
+    } else if (configured.length > 0) {
+      const hits = configured.reduce(
+        (sum, [, field]) => sum + contests.filter((contest) => filled(contest, field)).length / fetched,
+        0,
+      );
+      selectorHitRate = hits / configured.length;
+    }
+  }
+
+  const requests = result.pagesCrawled + result.errors.length;
+
+  return {
+    crawledAt: new Date().toISOString(),
+    failed: false,
+    pagesCrawled: result.pagesCrawled,
+    fetched,
+    newContests: outcome.newContests,
+    duplicateRatio: fetched > 0 ? outcome.duplicates / fetched : null,
+    completeness,
+    httpErrors: result.errors.length,
+    errorRate: requests > 0 ? result.errors.length / requests : 0,
+    selectorHitRate,
+    partial: (result.pagesUnchanged ?? 0) > 0 || Boolean(result.budgetExhausted || result.stoppedAtKnown),
+  };
+}
+
+/**
+ * Health sample of a crawl that failed outright.
+ */
+export function failedCrawlSample(): CrawlHealthSample {
+  return {
+    crawledAt: new Date().toISOString(),
+    failed: true,
+    pagesCrawled: 0,
+    fetched: 0,
+    newContests: 0,
+    duplicateRatio: null,
+    completeness: null,
+    httpErrors: 1,
+    errorRate: 1,
+    selectorHitRate: null,
+    partial: false,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SourceHealthMonitor
+// ---------------------------------------------------------------------------
+
+export class SourceHealthMonitor {
+  private readonly db: AppDatabase;
+  private readonly timeSeries: TimeSeriesStore;
+  private notificationManager: NotificationManager | null;
+
+  constructor(
+    db: AppDatabase,
+    options?: { timeSeries?: TimeSeriesStore; notificationManager?: NotificationManager },
+  ) {
+    this.db = db;
+    this.timeSeries = options?.timeSeries ?? new TimeSeriesStore();
+    this.notificationManager = options?.notificationManager ?? null;
+  }
+
+  /**
+   * Score a crawl against the source's history, record it, and update
+   * the source's health (quarantining it if it keeps degrading).
+   */
+  async recordCrawl(sourceId: string, sample: CrawlHealthSample): Promise<SourceHealthReport> {
+    const source = this.getSource(sourceId);
+
+    const history = await this.loadHistory(sourceId, sample.crawledAt);
+    const anomalies = detectAnomalies(sample, history);
+    const critical = anomalies.filter((a) => a.severity === 'critical').length;
+    const warnings = anomalies.length - critical;
+    const score = Math.max(0, Math.min(1, 1 - critical * CRITICAL_PENALTY - warnings * WARNING_PENALTY));
+
+    const degradedRuns = critical > 0 ? source.degradedRuns + 1 : 0;
+    let status: SourceHealthStatus = critical > 0 ? 'degraded' : 'healthy';
+    if (source.healthStatus === 'quarantined') {
+      // Stays quarantined (e.g. after a manual run) until released
+      status = 'quarantined';
+    }
+
+    const report: SourceHealthReport = {
+      sample,
+      anomalies,
+      score: Math.round(score * 100) / 100,
+      status,
+      degradedRuns,
+      historySize: history.fetched.length,
+    };
+
+    await this.recordSample(sourceId, sample);
+
+    this.db
+      .update(discoverySources)
+      .set({
+        healthStatus: status,
+        healthScore: report.score,
+        healthReport: JSON.stringify(report),
+        degradedRuns,
+      })
+      .where(eq(discoverySources.id, sourceId))
+      .run();
+
+    if (status === 'degraded' && degradedRuns >= QUARANTINE_AFTER_RUNS) {
+      report.status = 'quarantined';
+      await this.quarantine(source, report);
+    } else if (anomalies.length > 0) {
+      logger.warn(
+        { sourceId, source: source.name, anomalies: anomalies.map((a) => a.reason), degradedRuns },
+        'Discovery source health anomalies',
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Lift a quarantine: reactivate the source and reset its degraded run count.
+   */
+  async release(sourceId: string, releasedBy = 'user'): Promise<void> {
+    const source = this.getSource(sourceId);
+    if (source.healthStatus !== 'quarantined') {
+      throw new AppError('Discovery source is not quarantined', 'SOURCE_NOT_QUARANTINED', 409);
+    }
+
+    this.db
+      .update(discoverySources)
+      .set({
+        isActive: 1,
+        healthStatus: 'healthy',
+        degradedRuns: 0,
+        quarantinedAt: null,
+        quarantineReason: null,
+      })
+      .where(eq(discoverySources.id, sourceId))
+      .run();
+
+    await getAuditService().record({
+      action: 'discovery.source_released',
+      entityType: 'discovery_source',
+      entityId: sourceId,
+      details: { name: source.name, releasedBy, quarantineReason: source.quarantineReason },
+    });
+
+    logger.info({ sourceId, source: source.name }, 'Discovery source released from quarantine');
+  }
+
+  /**
+   * Health metric series for trend charts.
+   */
+  async trends(
+    sourceId: string,
+    period: DateRange,
+    granularity: 'hour' | 'day',
+  ): Promise<SourceHealthTrends> {
+    const series = await Promise.all(
+      HEALTH_METRICS.map((metric) => this.timeSeries.query(metricName(sourceId, metric), period, granularity)),
+    );
+    return Object.fromEntries(HEALTH_METRICS.map((metric, i) => [metric, series[i]!])) as SourceHealthTrends;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private
+  // -------------------------------------------------------------------------
+
+  private getSource(sourceId: string): SourceRow {
+    const source = this.db.select().from(discoverySources).where(eq(discoverySources.id, sourceId)).get();
+    if (!source) {
+      throw new AppError('Discovery source not found', 'SOURCE_NOT_FOUND', 404);
+    }
+    return source;
+  }
+
+  /**
+   * Earlier per-crawl values of each checked metric. Crawls are minutes
+   * apart at the very least, so minute buckets hold one crawl each.
+   */
+  private async loadHistory(sourceId: string, before: string): Promise<Record<HealthMetric, number[]>> {
+    const period: DateRange = {
+      from: new Date(Date.parse(before) - HISTORY_DAYS * 86_400_000).toISOString(),
+      to: before,
+    };
+    const series = await Promise.all(
+      HEALTH_METRICS.map((metric) => this.timeSeries.query(metricName(sourceId, metric), period, 'minute')),
+    );
+    return Object.fromEntries(
+      HEALTH_METRICS.map((metric, i) => [metric, series[i]!.map((point) => point.value)]),
+    ) as Record<HealthMetric, number[]>;
+  }
+
+  private async recordSample(sourceId: string, sample: CrawlHealthSample): Promise<void> {
+    const values: Record<HealthMetric, number | null> = {
+      // Partial yields would drag the full-crawl baseline down
+      fetched: sample.partial ? null : sample.fetched,
+      new_contests: sample.newContests,
+      duplicate_ratio: sample.duplicateRatio,
+      completeness: sample.completeness,
+      error_rate: sample.errorRate,
+      selector_hit_rate: sample.selectorHitRate,
+    };
+
+    for (const metric of HEALTH_METRICS) {
+      const value = values[metric];
+      if (value !== null) {
+        await this.timeSeries.record(metricName(sourceId, metric), value, sample.crawledAt);
+      }
+    }
+  }
+
+  private async quarantine(source: SourceRow, report: SourceHealthReport): Promise<void> {
+    const now = new Date().toISOString();
+    const reason = report.anomalies
+      .filter((a) => a.severity === 'critical')
+      .map((a) => a.reason)
+      .join('; ');
+
+    this.db
+      .update(discoverySources)
+      .set({
+        isActive: 0,
+        healthStatus: 'quarantined',
+        healthReport: JSON.stringify(report),
+        quarantinedAt: now,
+        quarantineReason: reason,
+      })
+      .where(eq(discoverySources.id, source.id))
+      .run();
+
+    await getAuditService().record({
+      action: 'discovery.source_quarantined',
+      entityType: 'discovery_source',
+      entityId: source.id,
+      details: { name: source.name, reason, degradedRuns: report.degradedRuns },
+    });
+
+    eventBus.emit('discovery:source_quarantined', { sourceId: source.id, source: source.name, reason });
+
+    logger.warn(
+      { sourceId: source.id, source: source.name, reason, degradedRuns: report.degradedRuns },
+      'Discovery source quarantined',
+    );
+
+    if (!this.notificationManager) {
+      this.notificationManager = new NotificationManager();
+      this.notificationManager.initialize();
+    }
+
+    try {
+      await this.notificationManager.notify({
+        type: 'error',
+        title: `Discovery source quarantined: ${source.name}`,
+        message: [
+          `"${source.name}" degraded on ${report.degradedRuns} crawls in a row and has been deactivated.`,
+          '',
+          ...report.anomalies.map((a) => `- ${a.reason}`),
+          '',
+          'Fix the source configuration, then release it from the Discovery Sources page.',
+        ].join('\n'),
+        data: { sourceId: source.id, anomalies: report.anomalies.map((a) => a.metric) },
+        priority: 'high',
+        timestamp: now,
+      });
+    } catch (error) {
+      logger.error({ err: error, sourceId: source.id }, 'Failed to send quarantine notification');
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Anomalies of a sample: hard checks first, then each metric against
+ * the source's history (median and median absolute deviation).
+ */
+export function detectAnomalies(
+  sample: CrawlHealthSample,
+  history: Record<HealthMetric, number[]>,
+): HealthAnomaly[] {
+  if (sample.failed) {
+    return [{ metric: 'crawl', severity: 'critical', value: 1, baseline: null, reason: 'Crawl failed' }];
+  }
+
+  const anomalies: HealthAnomaly[] = [];
+  const fetchedBaseline = history.fetched.length > 0 ? median(history.fetched) : null;
+
+  if (sample.fetched === 0 && !sample.partial) {
+    // A source that used to yield contests and now yields none has almost
+    // certainly broken; with no history it is only suspicious
+    anomalies.push({
+      metric: 'fetched',
+      severity: fetchedBaseline !== null && fetchedBaseline > 0 ? 'critical' : 'warning',
+      value: 0,
+      baseline: fetchedBaseline,
+      reason:
+        fetchedBaseline !== null
+          ? `Found no contests (usually ${formatValue('fetched', fetchedBaseline)})`
+          : 'Found no contests',
+    });
+  }
+
+  for (const metric of HEALTH_METRICS) {
+    const rule = METRIC_RULES[metric];
+    if (!rule) continue;
+    if (metric === 'fetched' && (sample.fetched === 0 || sample.partial)) continue;
+
+    const value = rule.value(sample);
+    const past = history[metric];
+    if (value === null || past.length < MIN_HISTORY) continue;
+
+    const baseline = median(past);
+    const delta = rule.bad === 'low' ? baseline - value : value - baseline;
+    if (delta < rule.minDelta) continue;
+
+    // 1.4826 * MAD estimates the standard deviation for normal data
+    const spread = 1.4826 * median(past.map((v) => Math.abs(v - baseline)));
+    if (spread > 0 && delta / spread < ANOMALY_Z) continue;
+
+    anomalies.push({
+      metric,
+      severity: rule.severity,
+      value,
+      baseline,
+      reason: `${rule.label} ${rule.bad === 'low' ? 'dropped' : 'rose'} to ${formatValue(metric, value)} (usually ${formatValue(metric, baseline)})`,
+    });
+  }
+
+  return anomalies;
+}
+
+/**
+ * Parse a stored health report, tolerating rows written before reports existed.
+ */
+export function parseSourceHealthReport(raw: string | null): SourceHealthReport | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as SourceHealthReport;
+  } catch {
+    return null;
+  }
+}
+
+function metricName(sourceId: string, metric: HealthMetric): string {
+  return `discovery.source.${sourceId}.${metric}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+function formatValue(metric: HealthMetric, value: number): string {
+  return metric === 'fetched' || metric === 'new_contests' ? String(Math.round(value)) : `${Math.round(value * 100)}%`;
+}
@@ -6,7 +6,7 @@
  */
 
 import * as cheerio from 'cheerio';
-import got from 'got';
+import type { Response } from 'got';
 import { getLogger } from '../../shared/logger.js';
 import { DiscoveryError } from '../../shared/errors.js';
 import { eventBus } from '../../shared/events.js';
@@ -14,8 +14,10 @@ import { retry } from '../../shared/retry.js';
 import { sleep } from '../../shared/timing.js';
 import { USER_AGENTS } from '../../shared/constants.js';
 import { pickRandom, normalizeUrl } from '../../shared/utils.js';
+import { httpClient } from '../http-client.js';
+import { fetchListingPage, type CrawlSession } from '../crawl-session.js';
 import type { DiscoverySource, RawContest, CrawlResult, CrawlError } from '../types.js';
-import type { SourceHandler } from './index.js';
+import type { SourceHandler } from './registry.js';
 
 const log = getLogger('discovery', { component: 'custom-source' });
 
@@ -29,11 +31,13 @@ export class CustomSourceHandler implements SourceHandler {
   /**
    * Crawl a user-defined source using their configured selectors.
    */
-  async crawl(source: DiscoverySource): Promise<CrawlResult> {
+  async crawl(source: DiscoverySource, session?: CrawlSession): Promise<CrawlResult> {
     const startTime = Date.now();
     const contests: RawContest[] = [];
     const errors: CrawlError[] = [];
     let pagesCrawled = 0;
+    let budgetExhausted = false;
+    let stoppedAtKnown = false;
     const maxPages = source.maxPages ?? DEFAULT_MAX_PAGES;
     const rateLimitMs = source.rateLimitMs ?? DEFAULT_RATE_LIMIT_MS;
 
@@ -63,22 +67,43 @@ export class CustomSourceHandler implements SourceHandler {
 
     while (currentUrl && pagesCrawled < maxPages) {
       try {
+        if (session && !session.hasBudget()) {
+          log.info({ sourceId: source.id, url: currentUrl }, 'Crawl budget exhausted, stopping');
+          budgetExhausted = true;
+          break;
+        }
+
         if (pagesCrawled > 0) {
           await sleep(rateLimitMs);
         }
 
-        const html = await this.fetchPage(currentUrl, source.id);
+        const pageUrl: string = currentUrl;
+        const page = await fetchListingPage(session, pageUrl, (headers) =>
+          this.fetchPage(pageUrl, source.id, headers),
+        );
         pagesCrawled++;
 
-        const pageContests = this.extractContests(html, currentUrl, source);
+        if (page.status !== 'changed') {
+          log.info({ url: pageUrl, status: page.status }, 'Custom source page unchanged, stopping');
+          break;
+        }
+
+        const html = page.body;
+        const pageContests = this.extractContests(html, pageUrl, source);
         contests.push(...pageContests);
 
         log.info(
-          { url: currentUrl, found: pageContests.length, total: contests.length },
+          { url: pageUrl, found: pageContests.length, total: contests.length },
           'Custom source page crawled',
         );
 
-        currentUrl = this.findNextPage(html, currentUrl, source);
+        if (session?.allKnown(pageContests)) {
+          log.info({ url: pageUrl }, 'Custom source page lists only known contests, stopping');
+          stoppedAtKnown = true;
+          break;
+        }
+
+        currentUrl = this.findNextPage(html, pageUrl, source);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         log.error({ url: currentUrl, error: message }, 'Error crawling custom source page');
@@ -103,22 +128,34 @@ export class CustomSourceHandler implements SourceHandler {
       'Custom source crawl completed',
     );
 
-    return { source, contests, pagesCrawled, durationMs, errors };
+    return {
+      source,
+      contests,
+      pagesCrawled,
+      durationMs,
+      errors,
+      ...(session ? { pagesUnchanged: session.pagesUnchanged, budgetExhausted, stoppedAtKnown } : {}),
+    };
   }
 
   /**
-   * Fetch a page with retry logic.
+   * Fetch a page with retry logic, adding any conditional request headers.
    */
-  private async fetchPage(url: string, sourceId: string): Promise<string> {
+  private async fetchPage(
+    url: string,
+    sourceId: string,
+    headers: Record<string, string> = {},
+  ): Promise<Response<string>> {
     const userAgent = pickRandom(USER_AGENTS);
 
     const response = await retry(
       () =>
-        got.get(url, {
+        httpClient.get(url, {
           headers: {
             'User-Agent': userAgent,
             'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
             'Accept-Language': 'en-US,en;q=0.9',
+            ...headers,
           },
           responseType: 'text',
           timeout: { request: REQUEST_TIMEOUT_MS },
@@ -139,7 +176,7 @@ export class CustomSourceHandler implements SourceHandler {
       );
     }
 
-    return response.body;
+    return response;
   }
 
   /**
@@ -4,32 +4,30 @@
  * Maps source type identifiers to the appropriate handler class.
  * All source handlers implement the same interface: given a
  * DiscoverySource configuration, they return RawContest records.
+ *
+ * Aggregator sites are registered by ID (see registry.ts), either from a
+ * declarative manifest (see manifest.ts) or from a plugin module (see
+ * plugin-loader.ts).
  */
 
 import { getLogger } from '../../shared/logger.js';
 import { DiscoveryError } from '../../shared/errors.js';
 import type { DiscoverySource, CrawlResult } from '../types.js';
 import { SweepstakesCrawler } from '../crawler.js';
+import type { CrawlSession } from '../crawl-session.js';
 import { RSSFetcher } from '../rss-fetcher.js';
-import { SweepstakesAdvantageSource } from './sweepstakes-advantage.js';
-import { OnlineSweepstakesSource } from './online-sweepstakes.js';
+import { getRegisteredSource, getRegisteredSources, registerManifest, type SourceHandler } from './registry.js';
+import { sweepstakesAdvantageManifest } from './sweepstakes-advantage.js';
+import { onlineSweepstakesManifest } from './online-sweepstakes.js';
 import { CustomSourceHandler } from './custom-source.js';
+import { StructuredDataSourceHandler } from './structured-data-source.js';
+import { SitemapSourceHandler } from './sitemap-source.js';
+import { NewsletterSourceHandler } from './newsletter-source.js';
 
 const log = getLogger('discovery', { component: 'source-registry' });
 
-/**
- * Interface all source handlers must implement.
- */
-export interface SourceHandler {
-  readonly name: string;
-  crawl(source: DiscoverySource): Promise<CrawlResult>;
-}
-
-/** Map of source IDs to specialized handler classes. */
-const SPECIALIZED_HANDLERS: Record<string, new () => SourceHandler> = {
-  'sweepstakes-advantage': SweepstakesAdvantageSource,
-  'online-sweepstakes': OnlineSweepstakesSource,
-};
+registerManifest(sweepstakesAdvantageManifest);
+registerManifest(onlineSweepstakesManifest);
 
 /**
  * Create the appropriate source handler for a given discovery source.
@@ -37,14 +35,19 @@ const SPECIALIZED_HANDLERS: Record<string, new () => SourceHandler> = {
  * - Known source IDs (e.g. "sweepstakes-advantage") get a specialized handler.
  * - Sources with type "rss" get an RSS handler wrapper.
  * - Sources with type "custom" get the CustomSourceHandler.
+ * - Sources with type "sitemap" walk the site's sitemaps and read each
+ *   promotion page's structured data.
+ * - Sources with type "structured-data" read schema.org markup from the
+ *   configured pages.
+ * - Sources with type "newsletter" read newsletters from a Gmail label.
  * - Everything else uses the generic SweepstakesCrawler.
  */
 export function createSourceHandler(source: DiscoverySource): SourceHandler {
   // Check for specialized handlers first
-  const SpecializedClass = SPECIALIZED_HANDLERS[source.id];
-  if (SpecializedClass) {
-    log.debug({ sourceId: source.id }, 'Using specialized handler');
-    return new SpecializedClass();
+  const specialized = getRegisteredSource(source.id);
+  if (specialized) {
+    log.debug({ sourceId: source.id, origin: specialized.origin }, 'Using specialized handler');
+    return specialized.create();
   }
 
   // RSS/Atom feed
@@ -59,6 +62,24 @@ export function createSourceHandler(source: DiscoverySource): SourceHandler {
     return new CustomSourceHandler();
   }
 
+  // Sponsor site sitemaps
+  if (source.type === 'sitemap') {
+    log.debug({ sourceId: source.id }, 'Using sitemap handler');
+    return new SitemapSourceHandler();
+  }
+
+  // schema.org markup on sponsor pages
+  if (source.type === 'structured-data') {
+    log.debug({ sourceId: source.id }, 'Using structured-data handler');
+    return new StructuredDataSourceHandler();
+  }
+
+  // Email newsletters
+  if (source.type === 'newsletter') {
+    log.debug({ sourceId: source.id }, 'Using newsletter handler');
+    return new NewsletterSourceHandler();
+  }
+
   // Default: generic HTML crawler
   log.debug({ sourceId: source.id }, 'Using generic HTML crawler');
   return new GenericHTMLHandler();
@@ -68,7 +89,7 @@ export function createSourceHandler(source: DiscoverySource): SourceHandler {
  * Get all available source handler IDs.
  */
 export function getAvailableHandlers(): string[] {
-  return [...Object.keys(SPECIALIZED_HANDLERS), 'rss', 'custom', 'html'];
+  return [...getRegisteredSources().map((s) => s.id), 'rss', 'custom', 'sitemap', 'structured-data', 'newsletter', 'html'];
 }
 
 // ---------------------------------------------------------------------------
@@ -112,11 +133,38 @@ class GenericHTMLHandler implements SourceHandler {
   readonly name = 'html';
   private readonly crawler = new SweepstakesCrawler();
 
-  async crawl(source: DiscoverySource): Promise<CrawlResult> {
-    return this.crawler.crawl(source);
+  async crawl(source: DiscoverySource, session?: CrawlSession): Promise<CrawlResult> {
+    return this.crawler.crawl(source, session);
   }
 }
 
-export { SweepstakesAdvantageSource } from './sweepstakes-advantage.js';
-export { OnlineSweepstakesSource } from './online-sweepstakes.js';
+export {
+  registerSource,
+  registerManifest,
+  getRegisteredSources,
+  type SourceHandler,
+  type SourceHandlerFactory,
+  type RegisteredSource,
+} from './registry.js';
+export { SweepstakesAdvantageSource, sweepstakesAdvantageManifest } from './sweepstakes-advantage.js';
+export { OnlineSweepstakesSource, onlineSweepstakesManifest } from './online-sweepstakes.js';
 export { CustomSourceHandler } from './custom-source.js';
+export { ManifestSource } from './manifest-source.js';
+export { StructuredDataSourceHandler } from './structured-data-source.js';
+export { SitemapSourceHandler } from './sitemap-source.js';
+export { NewsletterSourceHandler } from './newsletter-source.js';
+export {
+  sourceManifestSchema,
+  defineManifest,
+  parseManifest,
+  loadManifestFile,
+  type SourceManifest,
+  type SourceManifestInput,
+  type FieldTransform,
+} from './manifest.js';
+export {
+  loadSourcePlugins,
+  ensureSourcePluginsLoaded,
+  type SourcePlugin,
+  type PluginLoadReport,
+} from './plugin-loader.js';
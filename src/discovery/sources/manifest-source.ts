@@ -0,0 +1,392 @@
+/**
+ * Generic crawler driven by a SourceManifest.
+ *
+ * Implements the fetch/extract/paginate loop shared by every list-style
+ * aggregator, so a new site only needs a manifest describing its
+ * selectors and quirks.
+ */
+
+import * as cheerio from 'cheerio';
+import type { Response } from 'got';
+import { getLogger } from '../../shared/logger.js';
+import { DiscoveryError } from '../../shared/errors.js';
+import { eventBus } from '../../shared/events.js';
+import { retry } from '../../shared/retry.js';
+import { sleep } from '../../shared/timing.js';
+import { USER_AGENTS } from '../../shared/constants.js';
+import { pickRandom, normalizeUrl } from '../../shared/utils.js';
+import { httpClient } from '../http-client.js';
+import { fetchListingPage, type CrawlSession } from '../crawl-session.js';
+import type { DiscoverySource, RawContest, CrawlResult, CrawlError } from '../types.js';
+import type { SourceHandler } from './registry.js';
+import type { FieldTransform, SourceManifest } from './manifest.js';
+
+const log = getLogger('discovery', { component: 'manifest-source' });
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+export class ManifestSource implements SourceHandler {
+  readonly name: string;
+  private readonly typeRules: Array<{ pattern: RegExp; type: string }>;
+  private readonly datePatterns: Array<{ regex: RegExp; tokens: string[] }>;
+
+  constructor(readonly manifest: SourceManifest) {
+    this.name = manifest.id;
+    this.typeRules = manifest.typeRules.map((rule) => ({
+      pattern: new RegExp(rule.match, 'i'),
+      type: rule.type,
+    }));
+    this.datePatterns = manifest.dateFormats.map(compileDateFormat);
+  }
+
+  /**
+   * Crawl the manifest's category listings for contests. With a crawl
+   * session, each category stops paginating at an unchanged page or a
+   * page of known contests, and the crawl stops when the budget runs out.
+   */
+  async crawl(source: DiscoverySource, session?: CrawlSession): Promise<CrawlResult> {
+    const startTime = Date.now();
+    const contests: RawContest[] = [];
+    const errors: CrawlError[] = [];
+    let pagesCrawled = 0;
+    let budgetExhausted = false;
+    let stoppedAtKnown = false;
+    const maxPages = source.maxPages ?? this.manifest.maxPages;
+
+    log.info({ sourceId: source.id, manifest: this.manifest.id }, `Starting ${this.manifest.name} crawl`);
+    eventBus.emit('discovery:started', { source: this.name });
+
+    for (const categoryUrl of this.categoryUrls(source.categories)) {
+      let currentUrl: string | null = categoryUrl;
+
+      while (currentUrl && pagesCrawled < maxPages) {
+        try {
+          if (session && !session.hasBudget()) {
+            log.info({ sourceId: source.id, url: currentUrl }, 'Crawl budget exhausted, stopping');
+            budgetExhausted = true;
+            break;
+          }
+
+          await sleep(this.manifest.rateLimit.delayMs);
+
+          const pageUrl: string = currentUrl;
+          const page = await fetchListingPage(session, pageUrl, (headers) => this.fetchPage(pageUrl, headers));
+          pagesCrawled++;
+
+          if (page.status !== 'changed') {
+            log.info({ url: pageUrl, status: page.status }, 'Page unchanged since last crawl, skipping category');
+            currentUrl = null;
+            continue;
+          }
+
+          const html = page.body;
+          const pageContests = this.parseListing(html, pageUrl);
+          contests.push(...pageContests);
+
+          log.info(
+            { url: pageUrl, found: pageContests.length, total: contests.length },
+            'Page crawled',
+          );
+
+          if (session?.allKnown(pageContests)) {
+            stoppedAtKnown = true;
+            currentUrl = null;
+          } else {
+            currentUrl = this.findNextPage(html, pageUrl, pageContests.length);
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          log.error({ url: currentUrl, error: message }, 'Error crawling page');
+          errors.push({
+            url: currentUrl!,
+            message,
+            code: 'CRAWL_ERROR',
+          });
+          currentUrl = null;
+        }
+      }
+
+      if (budgetExhausted) break;
+    }
+
+    const durationMs = Date.now() - startTime;
+
+    eventBus.emit('discovery:completed', {
+      source: this.name,
+      contestsFound: contests.length,
+    });
+
+    log.info(
+      { totalContests: contests.length, pagesCrawled, durationMs },
+      `${this.manifest.name} crawl completed`,
+    );
+
+    return {
+      source,
+      contests,
+      pagesCrawled,
+      durationMs,
+      errors,
+      ...(session ? { pagesUnchanged: session.pagesUnchanged, budgetExhausted, stoppedAtKnown } : {}),
+    };
+  }
+
+  /**
+   * Resolve category names to listing URLs, falling back to the manifest's
+   * default categories when none of the requested ones are known.
+   */
+  categoryUrls(categories?: string[]): string[] {
+    const resolve = (names: string[]) =>
+      names
+        .map((cat) => this.manifest.categories[cat])
+        .filter((path): path is string => Boolean(path))
+        .map((path) => new URL(path, this.manifest.baseUrl).toString());
+
+    const urls = resolve(categories ?? this.manifest.defaultCategories);
+    if (urls.length > 0) return urls;
+
+    const defaults = resolve(this.manifest.defaultCategories);
+    if (defaults.length > 0) return defaults;
+
+    return resolve(Object.keys(this.manifest.categories).slice(0, 1));
+  }
+
+  /**
+   * Extract contests from a listing page.
+   */
+  parseListing(html: string, pageUrl: string): RawContest[] {
+    const $ = cheerio.load(html);
+    const { selectors } = this.manifest;
+    const contests: RawContest[] = [];
+
+    const textOf = (card: ReturnType<typeof $>, selector: string | undefined) =>
+      selector ? card.find(selector).first().text().trim() : '';
+
+    $(selectors.contestCard).each((_index, element) => {
+      try {
+        const card = $(element);
+
+        const linkEl = card.find(selectors.contestLink).first();
+        const href = linkEl.attr('href') ?? '';
+        if (!href) return;
+
+        let url = this.transform('url', href.trim());
+        if (!url) return;
+        url = normalizeUrl(new URL(url, pageUrl).toString());
+
+        const title = this.transform(
+          'title',
+          textOf(card, selectors.contestTitle) || linkEl.text().trim(),
+        );
+        if (!title) return;
+
+        const prizeDescription = this.transform('prizeDescription', textOf(card, selectors.prize));
+        const sponsor = this.transform('sponsor', textOf(card, selectors.sponsor));
+        const endDate = this.parseEndDate(this.transform('endDate', textOf(card, selectors.endDate)));
+        const entryMethod = textOf(card, selectors.entryMethod) || this.manifest.entryMethod;
+
+        contests.push({
+          url,
+          title,
+          sponsor,
+          endDate,
+          prizeDescription,
+          source: this.name,
+          entryMethod,
+          type: this.inferType(title, prizeDescription, pageUrl),
+        });
+      } catch (error) {
+        log.debug(
+          { error: error instanceof Error ? error.message : String(error) },
+          'Failed to extract contest card',
+        );
+      }
+    });
+
+    return contests;
+  }
+
+  /**
+   * Find the URL of the page after `currentUrl`, or null when done.
+   * Numbered and offset pagination stop at the first empty page.
+   */
+  findNextPage(html: string, currentUrl: string, foundOnPage: number): string | null {
+    const { pagination } = this.manifest;
+
+    switch (pagination.type) {
+      case 'none':
+        return null;
+
+      case 'page-number':
+      case 'offset': {
+        if (foundOnPage === 0) return null;
+        const url = new URL(currentUrl);
+        const raw = url.searchParams.get(pagination.paramName);
+        const next =
+          pagination.type === 'page-number'
+            ? (raw ? Number(raw) : pagination.startPage) + 1
+            : (raw ? Number(raw) : 0) + pagination.pageSize;
+        if (!Number.isFinite(next)) return null;
+        url.searchParams.set(pagination.paramName, String(next));
+        return url.toString();
+      }
+
+      case 'link': {
+        const selector = pagination.nextSelector ?? this.manifest.selectors.nextPage;
+        if (!selector) return null;
+
+        const $ = cheerio.load(html);
+        const nextHref = $(selector).attr('href');
+        if (!nextHref) return null;
+
+        const nextUrl = normalizeUrl(new URL(nextHref, currentUrl).toString());
+        return nextUrl === normalizeUrl(currentUrl) ? null : nextUrl;
+      }
+    }
+  }
+
+  /**
+   * Fetch a page with retry logic, adding any conditional request headers.
+   */
+  private async fetchPage(url: string, headers: Record<string, string> = {}): Promise<Response<string>> {
+    const { rateLimit } = this.manifest;
+
+    const response = await retry(
+      () =>
+        httpClient.get(url, {
+          headers: {
+            'User-Agent': pickRandom(USER_AGENTS),
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.9',
+            'Referer': this.manifest.baseUrl,
+            ...this.manifest.headers,
+            ...headers,
+          },
+          responseType: 'text',
+          timeout: { request: rateLimit.timeoutMs },
+          followRedirect: true,
+        }),
+      {
+        maxAttempts: rateLimit.maxAttempts,
+        baseDelayMs: rateLimit.retryDelayMs,
+        retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED'],
+      },
+    );
+
+    if (response.statusCode < 200 || response.statusCode >= 400) {
+      throw new DiscoveryError(
+        `HTTP ${response.statusCode} from ${this.manifest.name}`,
+        'HTTP_ERROR',
+        this.name,
+      );
+    }
+
+    return response;
+  }
+
+  private transform(field: keyof SourceManifest['transforms'], value: string): string {
+    const transforms = this.manifest.transforms[field];
+    if (!transforms) return value;
+    return transforms.reduce((acc, t) => applyTransform(acc, t), value).trim();
+  }
+
+  /**
+   * Normalize the end date to YYYY-MM-DD using the manifest's formats,
+   * keeping the raw text when none match.
+   */
+  private parseEndDate(text: string): string {
+    if (!text) return text;
+    for (const pattern of this.datePatterns) {
+      const parsed = matchDate(text, pattern.regex, pattern.tokens);
+      if (parsed) return parsed;
+    }
+    return text;
+  }
+
+  /**
+   * Infer contest type from title, prize, and category URL.
+   */
+  private inferType(title: string, prize: string, pageUrl: string): string {
+    const combined = `${title} ${prize} ${pageUrl}`;
+    return this.typeRules.find((rule) => rule.pattern.test(combined))?.type ?? this.manifest.defaultType;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function applyTransform(value: string, transform: FieldTransform): string {
+  switch (transform.type) {
+    case 'collapse-whitespace':
+      return value.replace(/\s+/g, ' ');
+    case 'replace':
+      return value.replace(new RegExp(transform.pattern, transform.flags), transform.replacement);
+    case 'extract':
+      return value.match(new RegExp(transform.pattern, transform.flags))?.[transform.group] ?? '';
+  }
+}
+
+/**
+ * Turn a format such as "MMM D, YYYY" into a regex with one capture group
+ * per date token.
+ */
+function compileDateFormat(format: string): { regex: RegExp; tokens: string[] } {
+  const tokens: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(/YYYY|YY|MMMM|MMM|MM|M|DD|D/g)) {
+    source += escapeRegex(format.slice(lastIndex, match.index));
+    const token = match[0];
+    tokens.push(token);
+    source += {
+      YYYY: '(\\d{4})',
+      YY: '(\\d{2})',
+      MMMM: '([A-Za-z]{3,9})',
+      MMM: '([A-Za-z]{3,4})\\.?',
+      MM: '(\\d{2})',
+      M: '(\\d{1,2})',
+      DD: '(\\d{2})',
+      D: '(\\d{1,2})',
+    }[token];
+    lastIndex = match.index + token.length;
+  }
+  source += escapeRegex(format.slice(lastIndex));
+
+  return { regex: new RegExp(`(?<!\\d)${source}(?!\\d)`, 'i'), tokens };
+}
+
+function matchDate(text: string, regex: RegExp, tokens: string[]): string | null {
+  const match = text.match(regex);
+  if (!match) return null;
+
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+
+  tokens.forEach((token, i) => {
+    const value = match[i + 1] ?? '';
+    if (token === 'YYYY') year = Number(value);
+    else if (token === 'YY') year = 2000 + Number(value);
+    else if (token === 'MMMM' || token === 'MMM') {
+      const lower = value.toLowerCase();
+      month = MONTH_NAMES.findIndex((m) => m.startsWith(lower)) + 1;
+    } else if (token === 'MM' || token === 'M') month = Number(value);
+    else day = Number(value);
+  });
+
+  if (!year || month < 1 || month > 12 || !day) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().slice(0, 10);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,197 @@
+/**
+ * Declarative source manifests.
+ *
+ * A manifest describes an aggregator site completely enough for
+ * ManifestSource to crawl it: category paths, CSS selectors, pagination,
+ * request pacing, per-field text transforms, date formats, and keyword
+ * rules for the contest type. Manifests can be written in JSON or YAML
+ * and dropped into the source plugins directory, or exported from a
+ * TypeScript module as a plain object.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { DiscoveryError } from '../../shared/errors.js';
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const fieldTransformSchema = z.discriminatedUnion('type', [
+  /** Collapse runs of whitespace (including newlines) into single spaces. */
+  z.object({ type: z.literal('collapse-whitespace') }),
+  /** Regex replace; `pattern` is a JavaScript regex source. */
+  z.object({
+    type: z.literal('replace'),
+    pattern: z.string().min(1),
+    replacement: z.string().default(''),
+    flags: z.string().default('g'),
+  }),
+  /** Keep only a capture group of the first regex match (empty when no match). */
+  z.object({
+    type: z.literal('extract'),
+    pattern: z.string().min(1),
+    group: z.number().int().nonnegative().default(1),
+    flags: z.string().default('i'),
+  }),
+]);
+
+const transformListSchema = z.array(fieldTransformSchema).optional();
+
+export const sourceManifestSchema = z.object({
+  /** Handler ID; discovery sources with this ID are crawled by the manifest. */
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'id must be lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  baseUrl: z.string().url(),
+
+  /** Category name -> path (relative to baseUrl) or absolute URL. */
+  categories: z.record(z.string()).refine((c) => Object.keys(c).length > 0, {
+    message: 'At least one category is required',
+  }),
+  /** Categories crawled when the discovery source does not specify any. */
+  defaultCategories: z.array(z.string()).default(['all']),
+
+  selectors: z.object({
+    contestCard: z.string().min(1),
+    contestLink: z.string().min(1),
+    contestTitle: z.string().min(1),
+    endDate: z.string().optional(),
+    prize: z.string().optional(),
+    sponsor: z.string().optional(),
+    entryMethod: z.string().optional(),
+    nextPage: z.string().optional(),
+  }),
+
+  pagination: z
+    .object({
+      type: z.enum(['link', 'offset', 'page-number', 'none']),
+      /** Selector for the next page link; falls back to selectors.nextPage. */
+      nextSelector: z.string().optional(),
+      /** Query parameter for page-number and offset pagination. */
+      paramName: z.string().default('page'),
+      /** Items per page for offset pagination. */
+      pageSize: z.number().int().positive().default(20),
+      /** First page number for page-number pagination. */
+      startPage: z.number().int().nonnegative().default(1),
+    })
+    .default({ type: 'link' }),
+  maxPages: z.number().int().positive().default(5),
+
+  rateLimit: z
+    .object({
+      delayMs: z.number().int().nonnegative().default(2000),
+      maxAttempts: z.number().int().positive().default(3),
+      retryDelayMs: z.number().int().nonnegative().default(3000),
+      timeoutMs: z.number().int().positive().default(30_000),
+    })
+    .default({}),
+  /** Extra request headers; Referer defaults to baseUrl. */
+  headers: z.record(z.string()).default({}),
+
+  /** Transforms applied in order to each extracted field, after trimming. */
+  transforms: z
+    .object({
+      title: transformListSchema,
+      sponsor: transformListSchema,
+      endDate: transformListSchema,
+      prizeDescription: transformListSchema,
+      url: transformListSchema,
+    })
+    .default({}),
+  /**
+   * Date formats tried in order against the end date text, using the
+   * tokens YYYY, YY, MMMM, MMM, MM, M, DD, D. Matching dates are
+   * normalized to YYYY-MM-DD; otherwise the raw text is kept.
+   */
+  dateFormats: z.array(z.string().min(1)).default([]),
+
+  /** First matching rule (case-insensitive regex on title, prize and page URL) sets the type. */
+  typeRules: z
+    .array(z.object({ match: z.string().min(1), type: z.string().min(1) }))
+    .default([]),
+  defaultType: z.string().default('sweepstakes'),
+  entryMethod: z.string().default('form'),
+});
+
+export type SourceManifest = z.infer<typeof sourceManifestSchema>;
+export type SourceManifestInput = z.input<typeof sourceManifestSchema>;
+export type FieldTransform = z.infer<typeof fieldTransformSchema>;
+export type TransformableField = keyof SourceManifest['transforms'];
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+export const MANIFEST_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Validates a manifest object, applying defaults. Throws a DiscoveryError
+ * listing every schema issue when invalid.
+ */
+export function defineManifest(input: unknown, origin = 'manifest'): SourceManifest {
+  const result = sourceManifestSchema.safeParse(input);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new DiscoveryError(`Invalid source manifest: ${issues}`, 'INVALID_MANIFEST', origin, 400);
+  }
+
+  for (const rule of result.data.typeRules) {
+    assertRegex(rule.match, origin, 'typeRules');
+  }
+  for (const transforms of Object.values(result.data.transforms)) {
+    for (const t of transforms ?? []) {
+      if (t.type !== 'collapse-whitespace') assertRegex(t.pattern, origin, 'transforms', t.flags);
+    }
+  }
+
+  return result.data;
+}
+
+/**
+ * Parses JSON or YAML manifest text.
+ */
+export function parseManifest(
+  content: string,
+  format: 'json' | 'yaml',
+  origin = 'manifest',
+): SourceManifest {
+  let data: unknown;
+  try {
+    data = format === 'json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new DiscoveryError(
+      `Could not parse ${format.toUpperCase()} manifest: ${message}`,
+      'INVALID_MANIFEST',
+      origin,
+      400,
+    );
+  }
+  return defineManifest(data, origin);
+}
+
+/**
+ * Reads and validates a manifest file; the format follows the extension.
+ */
+export async function loadManifestFile(path: string): Promise<SourceManifest> {
+  const ext = extname(path).toLowerCase();
+  if (!MANIFEST_EXTENSIONS.includes(ext)) {
+    throw new DiscoveryError(`Unsupported manifest extension "${ext}"`, 'INVALID_MANIFEST', path, 400);
+  }
+  const content = await readFile(path, 'utf8');
+  return parseManifest(content, ext === '.json' ? 'json' : 'yaml', path);
+}
+
+function assertRegex(pattern: string, origin: string, section: string, flags?: string): void {
+  try {
+    new RegExp(pattern, flags);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new DiscoveryError(`Invalid regex in ${section}: ${message}`, 'INVALID_MANIFEST', origin, 400);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Newsletter source handler.
+ *
+ * Reads the messages filed under a Gmail label of a connected email
+ * account and extracts the contests each newsletter links to. Every
+ * contest keeps the ID of the message it came from, so a listing can be
+ * traced back to the email.
+ *
+ * The source URL is not fetched; the mailbox is named in the source's
+ * `newsletter` config.
+ */
+
+import { getLogger } from '../../shared/logger.js';
+import { DiscoveryError } from '../../shared/errors.js';
+import { eventBus } from '../../shared/events.js';
+import { connectGmailAccount } from '../../email/gmail-account.js';
+import { extractNewsletterContests } from '../newsletter-parser.js';
+import type { DiscoverySource, RawContest, CrawlResult, CrawlError } from '../types.js';
+import type { SourceHandler } from './registry.js';
+
+const log = getLogger('discovery', { component: 'newsletter-source' });
+
+const DEFAULT_NEWER_THAN_DAYS = 7;
+const DEFAULT_MAX_MESSAGES = 50;
+
+export class NewsletterSourceHandler implements SourceHandler {
+  readonly name = 'newsletter';
+
+  /**
+   * Read the labelled messages and extract their contests.
+   */
+  async crawl(source: DiscoverySource): Promise<CrawlResult> {
+    const startTime = Date.now();
+    const config = source.newsletter;
+
+    if (!config?.account || !config.label) {
+      throw new DiscoveryError(
+        'Newsletter source requires newsletter.account and newsletter.label configuration',
+        'MISSING_NEWSLETTER_CONFIG',
+        source.id,
+      );
+    }
+
+    const gmail = await connectGmailAccount(config.account);
+    if (!gmail) {
+      // IMAP mailboxes have no client yet (see searchViaImap in the email worker)
+      throw new DiscoveryError(
+        `No connected Gmail account for ${config.account}; newsletter sources read Gmail labels only`,
+        'NEWSLETTER_ACCOUNT_UNAVAILABLE',
+        source.id,
+      );
+    }
+
+    log.info({ sourceId: source.id, label: config.label }, 'Starting newsletter crawl');
+    eventBus.emit('discovery:started', { source: source.id });
+
+    // Gmail search writes label names with spaces and slashes as hyphens
+    const label = config.label.trim().replace(/[\s/]+/g, '-');
+    const query = `label:${label} newer_than:${config.newerThanDays ?? DEFAULT_NEWER_THAN_DAYS}d`;
+    const messages = await gmail.listMessages(query, config.maxMessages ?? DEFAULT_MAX_MESSAGES);
+
+    const contests: RawContest[] = [];
+    const errors: CrawlError[] = [];
+
+    for (const message of messages) {
+      try {
+        const found = extractNewsletterContests(message, source.id);
+        contests.push(...found);
+
+        log.debug({ messageId: message.id, subject: message.subject, found: found.length }, 'Newsletter parsed');
+
+        if (config.markAsRead) {
+          await gmail.markAsRead(message.id);
+        }
+      } catch (error) {
+        const messageText = error instanceof Error ? error.message : String(error);
+        log.warn({ messageId: message.id, error: messageText }, 'Failed to process newsletter');
+        errors.push({ url: `gmail:${message.id}`, message: messageText, code: 'NEWSLETTER_PARSE_ERROR' });
+      }
+    }
+
+    const durationMs = Date.now() - startTime;
+
+    eventBus.emit('discovery:completed', {
+      source: source.id,
+      contestsFound: contests.length,
+    });
+
+    log.info(
+      { sourceId: source.id, messages: messages.length, totalContests: contests.length, durationMs },
+      'Newsletter crawl completed',
+    );
+
+    return { source, contests, pagesCrawled: messages.length, durationMs, errors };
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Loads discovery source plugins from the plugins directory.
+ *
+ * Each top-level file in the directory registers one source:
+ *
+ * - `*.json`, `*.yaml`, `*.yml` - a declarative SourceManifest
+ * - `*.js`, `*.mjs` - a module whose default (or `source`) export is
+ *   either a SourceManifest object or a SourcePlugin. Plugins written in
+ *   TypeScript must be compiled first: the server runs from `dist/` under
+ *   plain Node, which cannot import `.ts` files.
+ *
+ * A plugin whose ID matches a built-in source replaces it. Files that
+ * fail to load are reported and skipped; they never stop the others.
+ */
+
+import { readdir } from 'node:fs/promises';
+import { extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { getLogger } from '../../shared/logger.js';
+import { PATHS } from '../../shared/constants.js';
+import { defineManifest, loadManifestFile, MANIFEST_EXTENSIONS } from './manifest.js';
+import { registerManifest, registerSource, type SourceHandler } from './registry.js';
+
+const log = getLogger('discovery', { component: 'plugin-loader' });
+
+const MODULE_EXTENSIONS = ['.js', '.mjs'];
+
+/**
+ * A source implemented in code, for sites a manifest cannot describe.
+ */
+export interface SourcePlugin {
+  /** Source ID; discovery sources with this ID use the plugin. */
+  id: string;
+  /** Creates a handler instance for one crawl. */
+  create(): SourceHandler;
+}
+
+export interface PluginLoadReport {
+  directory: string;
+  loaded: Array<{ id: string; file: string; kind: 'manifest' | 'module' }>;
+  errors: Array<{ file: string; message: string }>;
+}
+
+let loadPromise: Promise<PluginLoadReport> | null = null;
+
+/**
+ * Load every plugin in `directory` and register it. A missing directory
+ * is not an error; it simply yields an empty report.
+ */
+export async function loadSourcePlugins(directory: string = PATHS.SOURCE_PLUGINS): Promise<PluginLoadReport> {
+  const dir = resolve(directory);
+  const report: PluginLoadReport = { directory: dir, loaded: [], errors: [] };
+
+  let files: string[];
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    files = entries
+      .filter((e) => e.isFile() && !e.name.startsWith('.'))
+      .map((e) => e.name)
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      log.debug({ directory: dir }, 'No source plugins directory');
+      return report;
+    }
+    throw error;
+  }
+
+  for (const name of files) {
+    const file = join(dir, name);
+    const ext = extname(name).toLowerCase();
+
+    try {
+      if (MANIFEST_EXTENSIONS.includes(ext)) {
+        const manifest = await loadManifestFile(file);
+        registerManifest(manifest, file);
+        report.loaded.push({ id: manifest.id, file, kind: 'manifest' });
+      } else if (MODULE_EXTENSIONS.includes(ext)) {
+        const id = await loadModulePlugin(file);
+        report.loaded.push({ id, file, kind: 'module' });
+      } else if (ext === '.ts' && !name.endsWith('.d.ts')) {
+        throw new Error('TypeScript plugins must be compiled to .js before they can be loaded');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error({ file, error: message }, 'Failed to load source plugin');
+      report.errors.push({ file, message });
+    }
+  }
+
+  log.info(
+    { directory: dir, loaded: report.loaded.map((p) => p.id), errors: report.errors.length },
+    'Source plugins loaded',
+  );
+
+  return report;
+}
+
+/**
+ * Load the default plugins directory once per process. Safe to call
+ * before every crawl.
+ */
+export function ensureSourcePluginsLoaded(): Promise<PluginLoadReport> {
+  if (!loadPromise) {
+    loadPromise = loadSourcePlugins().catch((error) => {
+      loadPromise = null;
+      throw error;
+    });
+  }
+  return loadPromise;
+}
+
+async function loadModulePlugin(file: string): Promise<string> {
+  const mod = (await import(pathToFileURL(file).href)) as Record<string, unknown>;
+  const exported = mod['default'] ?? mod['source'];
+
+  if (isSourcePlugin(exported)) {
+    registerSource(exported.id, () => exported.create(), { origin: file });
+    return exported.id;
+  }
+
+  if (exported && typeof exported === 'object') {
+    const manifest = defineManifest(exported, file);
+    registerManifest(manifest, file);
+    return manifest.id;
+  }
+
+  throw new Error('Module must export a SourcePlugin or a source manifest as default or `source`');
+}
+
+function isSourcePlugin(value: unknown): value is SourcePlugin {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as SourcePlugin).id === 'string' &&
+    typeof (value as SourcePlugin).create === 'function'
+  );
+}
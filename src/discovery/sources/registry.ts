@@ -0,0 +1,83 @@
+/**
+ * Registry of specialized source handlers keyed by source ID.
+ *
+ * Built-in sources are registered by sources/index.ts; plugins found by
+ * plugin-loader.ts register here as well, so the loader does not depend
+ * on the handler factory.
+ */
+
+import { getLogger } from '../../shared/logger.js';
+import type { DiscoverySource, CrawlResult, RawContest } from '../types.js';
+import type { CrawlSession } from '../crawl-session.js';
+import { ManifestSource } from './manifest-source.js';
+import type { SourceManifest } from './manifest.js';
+
+const log = getLogger('discovery', { component: 'source-registry' });
+
+/**
+ * Interface all source handlers must implement.
+ */
+export interface SourceHandler {
+  readonly name: string;
+  /**
+   * Crawl the source. Handlers that paginate listing pages use the
+   * optional session for conditional fetches and the crawl budget.
+   */
+  crawl(source: DiscoverySource, session?: CrawlSession): Promise<CrawlResult>;
+  /**
+   * Parse a single listing page without fetching it. Handlers that
+   * implement this can be validated against saved HTML fixtures.
+   */
+  parseListing?(html: string, pageUrl: string): RawContest[];
+}
+
+export type SourceHandlerFactory = () => SourceHandler;
+
+export interface RegisteredSource {
+  id: string;
+  /** Where the registration came from: 'builtin' or a plugin file path. */
+  origin: string;
+  create: SourceHandlerFactory;
+  manifest?: SourceManifest;
+}
+
+/** Specialized handlers keyed by source ID. */
+const SPECIALIZED_HANDLERS = new Map<string, RegisteredSource>();
+
+/**
+ * Register a specialized handler for a source ID. A later registration
+ * for the same ID replaces the earlier one, so plugins can override
+ * built-in sources.
+ */
+export function registerSource(
+  id: string,
+  create: SourceHandlerFactory,
+  options: { origin?: string; manifest?: SourceManifest } = {},
+): void {
+  const existing = SPECIALIZED_HANDLERS.get(id);
+  if (existing) {
+    log.warn({ sourceId: id, previous: existing.origin, origin: options.origin }, 'Replacing registered source handler');
+  }
+  SPECIALIZED_HANDLERS.set(id, { id, origin: options.origin ?? 'builtin', create, manifest: options.manifest });
+}
+
+/**
+ * Register a manifest-driven source under the manifest's ID.
+ */
+export function registerManifest(manifest: SourceManifest, origin = 'builtin'): void {
+  registerSource(manifest.id, () => new ManifestSource(manifest), { origin, manifest });
+}
+
+/**
+ * Registered specialized sources, in registration order.
+ */
+export function getRegisteredSources(): RegisteredSource[] {
+  return [...SPECIALIZED_HANDLERS.values()];
+}
+
+/**
+ * The specialized source registered for an ID, if any.
+ */
+export function getRegisteredSource(id: string): RegisteredSource | undefined {
+  return SPECIALIZED_HANDLERS.get(id);
+}
@@ -0,0 +1,85 @@
+/**
+ * Sitemap source handler for sponsor sites.
+ *
+ * Walks the site's sitemaps for recently modified promotion pages, then
+ * reads each page like a structured-data source. Pages without schema.org
+ * markup still yield a contest when their title reads like one, using the
+ * page's Open Graph tags.
+ */
+
+import * as cheerio from 'cheerio';
+import { getLogger } from '../../shared/logger.js';
+import { normalizeUrl } from '../../shared/utils.js';
+import { SitemapFetcher } from '../sitemap-fetcher.js';
+import { isContestLike } from '../structured-data.js';
+import type { DiscoverySource, RawContest, CrawlError } from '../types.js';
+import { StructuredDataSourceHandler } from './structured-data-source.js';
+
+const log = getLogger('discovery', { component: 'sitemap-source' });
+
+export class SitemapSourceHandler extends StructuredDataSourceHandler {
+  override readonly name: string = 'sitemap';
+  private readonly fetcher = new SitemapFetcher();
+
+  /**
+   * Promotion pages from the sitemap walk. Sitemap errors are reported
+   * with the crawl rather than failing it.
+   */
+  protected override async pageUrls(source: DiscoverySource, errors: CrawlError[]): Promise<string[]> {
+    const walk = await this.fetcher.walk(source.url, source.sitemap);
+    errors.push(...walk.errors);
+
+    log.info(
+      { sourceId: source.id, pages: walk.entries.length, sitemapsRead: walk.sitemapsRead },
+      'Sitemap pages selected',
+    );
+
+    return walk.entries.map((entry) => entry.url);
+  }
+
+  protected override parsePage(html: string, pageUrl: string, source: DiscoverySource): RawContest[] {
+    const contests = super.parsePage(html, pageUrl, source);
+    if (contests.length > 0) return contests;
+
+    const fallback = this.pageMetaContest(html, pageUrl, source.id);
+    return fallback ? [fallback] : [];
+  }
+
+  /**
+   * A contest described by the page's own title and meta tags.
+   */
+  private pageMetaContest(html: string, pageUrl: string, sourceId: string): RawContest | null {
+    const $ = cheerio.load(html);
+    const meta = (name: string) =>
+      ($(`meta[property="${name}"]`).attr('content') ?? $(`meta[name="${name}"]`).attr('content') ?? '').trim();
+
+    const title = meta('og:title') || $('title').first().text().trim() || $('h1').first().text().trim();
+    const description = meta('og:description') || meta('description');
+    if (!title || !isContestLike(title)) return null;
+
+    const absolute = (href: string | undefined): string | undefined => {
+      if (!href) return undefined;
+      try {
+        return normalizeUrl(new URL(href, pageUrl).toString());
+      } catch {
+        return undefined;
+      }
+    };
+    const rulesHref = $('a[href]')
+      .filter((_i, el) => /rules|terms/i.test($(el).text()))
+      .first()
+      .attr('href');
+
+    return {
+      url: absolute(meta('og:url')) ?? normalizeUrl(pageUrl),
+      title: title.replace(/\s+/g, ' '),
+      sponsor: meta('og:site_name'),
+      endDate: '',
+      prizeDescription: description,
+      source: sourceId,
+      entryMethod: 'form',
+      type: /instant[- ]win/i.test(title) ? 'instant_win' : /giveaway/i.test(title) ? 'giveaway' : 'sweepstakes',
+      termsUrl: absolute(rulesHref),
+    };
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Structured-data source handler for sponsor promotion pages.
+ *
+ * Reads schema.org Event/Offer markup (JSON-LD or microdata) from the
+ * source URL and any extra pages configured on the source, instead of
+ * relying on CSS selectors that break whenever a brand redesigns.
+ */
+
+import { getLogger } from '../../shared/logger.js';
+import { DiscoveryError } from '../../shared/errors.js';
+import { eventBus } from '../../shared/events.js';
+import { retry } from '../../shared/retry.js';
+import { sleep } from '../../shared/timing.js';
+import { USER_AGENTS } from '../../shared/constants.js';
+import { pickRandom } from '../../shared/utils.js';
+import { httpClient } from '../http-client.js';
+import { extractStructuredContests } from '../structured-data.js';
+import type { DiscoverySource, RawContest, CrawlResult, CrawlError } from '../types.js';
+import type { SourceHandler } from './registry.js';
+
+const log = getLogger('discovery', { component: 'structured-data-source' });
+
+const DEFAULT_RATE_LIMIT_MS = 2000;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export class StructuredDataSourceHandler implements SourceHandler {
+  readonly name: string = 'structured-data';
+
+  /**
+   * Fetch each page of the source and read its structured data.
+   */
+  async crawl(source: DiscoverySource): Promise<CrawlResult> {
+    const startTime = Date.now();
+    const contests: RawContest[] = [];
+    const errors: CrawlError[] = [];
+    let pagesCrawled = 0;
+    const rateLimitMs = source.rateLimitMs ?? DEFAULT_RATE_LIMIT_MS;
+
+    log.info({ sourceId: source.id, url: source.url, handler: this.name }, 'Starting structured-data crawl');
+    eventBus.emit('discovery:started', { source: source.id });
+
+    const pageUrls = await this.pageUrls(source, errors);
+
+    for (const pageUrl of pageUrls) {
+      try {
+        if (pagesCrawled > 0) {
+          await sleep(rateLimitMs);
+        }
+
+        const html = await this.fetchPage(pageUrl, source.id);
+        pagesCrawled++;
+
+        const pageContests = this.parsePage(html, pageUrl, source);
+        contests.push(...pageContests);
+
+        log.debug({ url: pageUrl, found: pageContests.length }, 'Structured-data page read');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.warn({ url: pageUrl, error: message }, 'Error reading structured-data page');
+        errors.push({
+          url: pageUrl,
+          message,
+          code: error instanceof DiscoveryError ? error.code : 'CRAWL_ERROR',
+        });
+      }
+    }
+
+    const durationMs = Date.now() - startTime;
+
+    eventBus.emit('discovery:completed', {
+      source: source.id,
+      contestsFound: contests.length,
+    });
+
+    log.info(
+      { sourceId: source.id, totalContests: contests.length, pagesCrawled, durationMs },
+      'Structured-data crawl completed',
+    );
+
+    return { source, contests, pagesCrawled, durationMs, errors };
+  }
+
+  /**
+   * Parse a single page without fetching it, for fixture validation.
+   */
+  parseListing(html: string, pageUrl: string): RawContest[] {
+    return extractStructuredContests(html, pageUrl, this.name);
+  }
+
+  /**
+   * Pages to read in this crawl: the source URL and its configured extras.
+   */
+  protected async pageUrls(source: DiscoverySource, _errors: CrawlError[]): Promise<string[]> {
+    return [...new Set([source.url, ...(source.pages ?? [])])].slice(0, source.maxPages ?? Infinity);
+  }
+
+  /**
+   * Contests on one fetched page.
+   */
+  protected parsePage(html: string, pageUrl: string, source: DiscoverySource): RawContest[] {
+    return extractStructuredContests(html, pageUrl, source.id);
+  }
+
+  /**
+   * Fetch a page with retry logic.
+   */
+  private async fetchPage(url: string, sourceId: string): Promise<string> {
+    const userAgent = pickRandom(USER_AGENTS);
+
+    const response = await retry(
+      () =>
+        httpClient.get(url, {
+          headers: {
+            'User-Agent': userAgent,
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.9',
+          },
+          responseType: 'text',
+          timeout: { request: REQUEST_TIMEOUT_MS },
+          followRedirect: true,
+        }),
+      {
+        maxAttempts: 3,
+        baseDelayMs: 2000,
+        retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED'],
+      },
+    );
+
+    if (response.statusCode < 200 || response.statusCode >= 400) {
+      throw new DiscoveryError(
+        `HTTP ${response.statusCode} from ${url}`,
+        'HTTP_ERROR',
+        sourceId,
+      );
+    }
+
+    return response.body;
+  }
+}
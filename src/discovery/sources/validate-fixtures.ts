@@ -0,0 +1,239 @@
+/**
+ * Validates registered discovery sources against saved HTML fixtures.
+ *
+ * Fixtures live in `<fixtures dir>/<source id>/<name>.html`, next to an
+ * optional `<name>.expected.json`:
+ *
+ *   {
+ *     "url": "https://www.example.com/sweepstakes",  // page URL for resolving links
+ *     "minContests": 3,                              // default 1
+ *     "count": 10,                                   // exact count, optional
+ *     "contests": [{ "title": "Win a Car", "endDate": "2026-12-31" }]
+ *   }
+ *
+ * Every entry in `contests` must match some extracted contest on all of
+ * the fields it lists. Built-in fixtures are in ./fixtures; plugin
+ * fixtures are in the `fixtures` subdirectory of the plugins directory.
+ *
+ * Usage: npm run sources:validate -- [source-id ...] [--plugins <dir>] [--strict]
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PATHS } from '../../shared/constants.js';
+import type { RawContest } from '../types.js';
+import { getRegisteredSources } from './index.js';
+import { loadSourcePlugins } from './plugin-loader.js';
+
+const BUILTIN_FIXTURES_DIR = fileURLToPath(new URL('./fixtures', import.meta.url));
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FixtureExpectation {
+  url?: string;
+  minContests?: number;
+  count?: number;
+  contests?: Array<Partial<RawContest>>;
+}
+
+export interface FixtureResult {
+  fixture: string;
+  passed: boolean;
+  contestsFound: number;
+  failures: string[];
+}
+
+export interface SourceValidationResult {
+  sourceId: string;
+  origin: string;
+  status: 'passed' | 'failed' | 'no-fixtures' | 'unsupported';
+  fixtures: FixtureResult[];
+}
+
+export interface ValidationOptions {
+  /** Only validate these source IDs (default: all registered). */
+  sourceIds?: string[];
+  /** Plugins directory; its `fixtures` subdirectory is searched too. */
+  pluginsDir?: string;
+  /** Extra fixture roots searched before the defaults. */
+  fixtureDirs?: string[];
+}
+
+export interface ValidationReport {
+  sources: SourceValidationResult[];
+  pluginErrors: Array<{ file: string; message: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Load plugins, then run each selected source's parser over its fixtures.
+ */
+export async function validateSources(options: ValidationOptions = {}): Promise<ValidationReport> {
+  const pluginsDir = options.pluginsDir ?? PATHS.SOURCE_PLUGINS;
+  const pluginReport = await loadSourcePlugins(pluginsDir);
+  const roots = [...(options.fixtureDirs ?? []), join(resolve(pluginsDir), 'fixtures'), BUILTIN_FIXTURES_DIR];
+
+  const registered = getRegisteredSources();
+  const unknown = (options.sourceIds ?? []).filter((id) => !registered.some((s) => s.id === id));
+  const selected = options.sourceIds?.length
+    ? registered.filter((s) => options.sourceIds!.includes(s.id))
+    : registered;
+
+  const sources: SourceValidationResult[] = unknown.map((id) => ({
+    sourceId: id,
+    origin: 'unregistered',
+    status: 'failed',
+    fixtures: [{ fixture: '-', passed: false, contestsFound: 0, failures: ['No source registered with this ID'] }],
+  }));
+
+  for (const source of selected) {
+    const handler = source.create();
+    const result: SourceValidationResult = {
+      sourceId: source.id,
+      origin: source.origin,
+      status: 'passed',
+      fixtures: [],
+    };
+
+    if (!handler.parseListing) {
+      result.status = 'unsupported';
+      sources.push(result);
+      continue;
+    }
+
+    const fixtureFiles = await findFixtures(roots, source.id);
+    if (fixtureFiles.length === 0) {
+      result.status = 'no-fixtures';
+      sources.push(result);
+      continue;
+    }
+
+    for (const htmlPath of fixtureFiles) {
+      const failures: string[] = [];
+      let contests: RawContest[] = [];
+
+      try {
+        const expectation = await readExpectation(htmlPath);
+        const pageUrl = expectation.url ?? source.manifest?.baseUrl ?? 'https://example.com/';
+        contests = handler.parseListing(await readFile(htmlPath, 'utf8'), pageUrl);
+        failures.push(...checkExpectation(contests, expectation));
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : String(error));
+      }
+
+      result.fixtures.push({
+        fixture: htmlPath,
+        passed: failures.length === 0,
+        contestsFound: contests.length,
+        failures,
+      });
+    }
+
+    if (result.fixtures.some((f) => !f.passed)) result.status = 'failed';
+    sources.push(result);
+  }
+
+  return { sources, pluginErrors: pluginReport.errors };
+}
+
+/**
+ * Compare extracted contests against a fixture's expectation; returns
+ * human-readable failures.
+ */
+export function checkExpectation(contests: RawContest[], expectation: FixtureExpectation): string[] {
+  const failures: string[] = [];
+  const minContests = expectation.minContests ?? 1;
+
+  if (contests.length < minContests) {
+    failures.push(`Expected at least ${minContests} contests, found ${contests.length}`);
+  }
+  if (expectation.count !== undefined && contests.length !== expectation.count) {
+    failures.push(`Expected exactly ${expectation.count} contests, found ${contests.length}`);
+  }
+
+  for (const expected of expectation.contests ?? []) {
+    const fields = Object.entries(expected) as Array<[keyof RawContest, string]>;
+    const match = contests.some((c) => fields.every(([field, value]) => c[field] === value));
+    if (!match) {
+      failures.push(`No contest matched ${JSON.stringify(expected)}`);
+    }
+  }
+
+  return failures;
+}
+
+async function findFixtures(roots: string[], sourceId: string): Promise<string[]> {
+  for (const root of roots) {
+    const dir = join(root, sourceId);
+    try {
+      const names = await readdir(dir);
+      const html = names.filter((n) => n.endsWith('.html')).sort();
+      if (html.length > 0) return html.map((n) => join(dir, n));
+    } catch {
+      // No fixtures for this source under this root
+    }
+  }
+  return [];
+}
+
+async function readExpectation(htmlPath: string): Promise<FixtureExpectation> {
+  const path = htmlPath.replace(/\.html$/, '.expected.json');
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as FixtureExpectation;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CLI entry point
+// ---------------------------------------------------------------------------
+
+const isDirectRun =
+  process.argv[1]?.endsWith('validate-fixtures.ts') ||
+  process.argv[1]?.endsWith('validate-fixtures.js');
+
+if (isDirectRun) {
+  const args = process.argv.slice(2);
+  const strict = args.includes('--strict');
+  const pluginsIndex = args.indexOf('--plugins');
+  const pluginsDir = pluginsIndex >= 0 ? args[pluginsIndex + 1] : undefined;
+  const sourceIds = args.filter((a, i) => !a.startsWith('--') && (pluginsIndex < 0 || i !== pluginsIndex + 1));
+
+  try {
+    const report = await validateSources({ sourceIds, pluginsDir });
+    let failed = report.pluginErrors.length > 0;
+
+    for (const err of report.pluginErrors) {
+      console.log(`[sources] FAIL plugin ${err.file}: ${err.message}`);
+    }
+
+    for (const source of report.sources) {
+      const label = `${source.sourceId} (${source.origin})`;
+      if (source.status === 'no-fixtures' || source.status === 'unsupported') {
+        console.log(`[sources] ${strict ? 'FAIL' : 'SKIP'} ${label}: ${source.status}`);
+        if (strict) failed = true;
+        continue;
+      }
+
+      console.log(`[sources] ${source.status === 'passed' ? 'PASS' : 'FAIL'} ${label}`);
+      for (const fixture of source.fixtures) {
+        console.log(`  ${fixture.passed ? 'ok  ' : 'fail'} ${fixture.fixture} (${fixture.contestsFound} contests)`);
+        for (const failure of fixture.failures) console.log(`       - ${failure}`);
+      }
+      if (source.status === 'failed') failed = true;
+    }
+
+    process.exit(failed ? 1 : 0);
+  } catch (error) {
+    console.error('[sources] Validation failed:', error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Structured data extraction for sponsor pages.
+ *
+ * Brands often describe promotions with schema.org markup, either as
+ * JSON-LD blocks or as inline microdata. This module reads `Event` and
+ * `Offer` items (and their subtypes) from a page and converts the ones
+ * that look like contests into RawContest records.
+ */
+
+import * as cheerio from 'cheerio';
+import { getLogger } from '../shared/logger.js';
+import { normalizeUrl } from '../shared/utils.js';
+import type { RawContest } from './types.js';
+
+const log = getLogger('discovery', { component: 'structured-data' });
+
+/** schema.org types read as promotions. Subtypes like SaleEvent are matched by suffix. */
+const EVENT_TYPE = /Event$/;
+const OFFER_TYPES = new Set(['Offer', 'AggregateOffer']);
+
+/** Keywords that separate a contest from an ordinary event or product offer. */
+const CONTEST_PATTERN = /sweepstakes|giveaway|contest|raffle|instant[- ]win|enter to win|chance to win|\bwin\b|\bprize/i;
+
+/** Properties through which a page or organization wraps the entity it is about. */
+const WRAPPED_ENTITY_PROPS = new Set(['mainEntity', 'subjectOf', 'event']);
+
+/** Properties that may name the contest's rules page. */
+const RULES_PATTERN = /rules|terms/i;
+
+type JsonLdNode = Record<string, unknown>;
+
+/** cheerio's DOM node type, without depending on domhandler directly. */
+type DomNode = Parameters<typeof cheerio.contains>[0];
+
+/** A schema.org item with flattened properties, from either markup style. */
+interface StructuredItem {
+  types: string[];
+  props: Map<string, unknown[]>;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract contest-like Event and Offer items from a page.
+ *
+ * Items without a URL point at the page itself. Items that do not
+ * mention a contest keyword in their name or description are skipped.
+ */
+export function extractStructuredContests(html: string, pageUrl: string, sourceId: string): RawContest[] {
+  const $ = cheerio.load(html);
+  const items = [...readJsonLd($), ...readMicrodata($)];
+  const contests: RawContest[] = [];
+  const seen = new Set<string>();
+
+  for (const item of items) {
+    const contest = toRawContest(item, pageUrl, sourceId);
+    if (!contest) continue;
+
+    const key = `${contest.url}|${contest.title.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    contests.push(contest);
+  }
+
+  return contests;
+}
+
+/**
+ * Whether a title or description reads like a sweepstakes, giveaway or contest.
+ */
+export function isContestLike(...texts: string[]): boolean {
+  return texts.some((text) => CONTEST_PATTERN.test(text));
+}
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+// ---------------------------------------------------------------------------
+
+function readJsonLd($: cheerio.CheerioAPI): StructuredItem[] {
+  const items: StructuredItem[] = [];
+
+  $('script[type="application/ld+json"]').each((_index, element) => {
+    const text = $(element).text().trim();
+    if (!text) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      log.debug(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Skipping malformed JSON-LD block',
+      );
+      return;
+    }
+
+    collectJsonLd(parsed, items, 0);
+  });
+
+  return items;
+}
+
+/**
+ * Walk a JSON-LD document, including @graph arrays and nested entities
+ * such as a WebPage whose mainEntity is the Event. An Event's own
+ * `offers` are read as part of the Event, not as separate items.
+ */
+function collectJsonLd(value: unknown, items: StructuredItem[], depth: number): void {
+  if (depth > 6 || value === null || typeof value !== 'object') return;
+
+  if (Array.isArray(value)) {
+    for (const entry of value) collectJsonLd(entry, items, depth + 1);
+    return;
+  }
+
+  const node = value as JsonLdNode;
+  const types = asArray(node['@type']).filter((t): t is string => typeof t === 'string');
+
+  if (types.length > 0) {
+    const props = new Map<string, unknown[]>();
+    for (const [key, raw] of Object.entries(node)) {
+      if (!key.startsWith('@')) props.set(key, asArray(raw));
+    }
+    items.push({ types, props });
+  }
+
+  for (const [key, raw] of Object.entries(node)) {
+    if (key === '@graph' || WRAPPED_ENTITY_PROPS.has(key)) {
+      collectJsonLd(raw, items, depth + 1);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Microdata
+// ---------------------------------------------------------------------------
+
+function readMicrodata($: cheerio.CheerioAPI): StructuredItem[] {
+  const items: StructuredItem[] = [];
+
+  // Items that are a property of another item are read with their parent,
+  // except entities a page wraps, as with JSON-LD
+  $('[itemscope][itemtype]').each((_index, element) => {
+    const itemprop = $(element).attr('itemprop');
+    if (itemprop && !itemprop.split(/\s+/).some((name) => WRAPPED_ENTITY_PROPS.has(name))) return;
+    items.push(readMicrodataItem($, element));
+  });
+
+  return items;
+}
+
+function readMicrodataItem($: cheerio.CheerioAPI, element: DomNode): StructuredItem {
+  const scope = $(element);
+  const types = (scope.attr('itemtype') ?? '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((type) => type.replace(/^https?:\/\/schema\.org\//, ''));
+  const props = new Map<string, unknown[]>();
+
+  // Only properties owned by this scope, not by a nested item
+  scope.find('[itemprop]').each((_i, propElement) => {
+    const prop = $(propElement);
+    if (prop.parents('[itemscope]').first()[0] !== element) return;
+
+    const value = prop.is('[itemscope]') ? microdataNode(readMicrodataItem($, propElement)) : microdataValue(prop);
+    for (const name of (prop.attr('itemprop') ?? '').split(/\s+/).filter(Boolean)) {
+      props.set(name, [...(props.get(name) ?? []), value]);
+    }
+  });
+
+  return { types, props };
+}
+
+/** Read a microdata property value the way the HTML spec defines it. */
+function microdataValue(prop: cheerio.Cheerio<DomNode>): string {
+  const content = prop.attr('content');
+  if (content !== undefined) return content.trim();
+  if (prop.is('a, link, area')) return prop.attr('href') ?? '';
+  if (prop.is('img, source, video, audio, iframe, embed')) return prop.attr('src') ?? '';
+  if (prop.is('time')) return (prop.attr('datetime') ?? prop.text()).trim();
+  if (prop.is('meta')) return prop.attr('content') ?? '';
+  return prop.text().replace(/\s+/g, ' ').trim();
+}
+
+/** Present a nested microdata item the way JSON-LD would, so both share one mapping. */
+function microdataNode(item: StructuredItem): JsonLdNode {
+  const node: JsonLdNode = { '@type': item.types };
+  for (const [key, values] of item.props) {
+    node[key] = values.length === 1 ? values[0] : values;
+  }
+  return node;
+}
+
+// ---------------------------------------------------------------------------
+// Mapping to RawContest
+// ---------------------------------------------------------------------------
+
+function toRawContest(item: StructuredItem, pageUrl: string, sourceId: string): RawContest | null {
+  const isEvent = item.types.some((type) => EVENT_TYPE.test(type));
+  const isOffer = item.types.some((type) => OFFER_TYPES.has(type));
+  if (!isEvent && !isOffer) return null;
+
+  const title = text(item, 'name') || text(item, 'headline');
+  const description = text(item, 'description');
+  if (!title || !isContestLike(title, description)) return null;
+
+  const offer = firstNode(item, 'offers');
+  const url = resolveUrl(text(item, 'url') || (offer ? nodeText(offer, 'url') : ''), pageUrl) ?? normalizeUrl(pageUrl);
+
+  const endDate = isEvent
+    ? text(item, 'endDate') || (offer ? nodeText(offer, 'validThrough') : '')
+    : text(item, 'validThrough') || text(item, 'availabilityEnds');
+
+  const sponsorNode = isEvent
+    ? firstNode(item, 'organizer') ?? firstNode(item, 'sponsor')
+    : firstNode(item, 'offeredBy') ?? firstNode(item, 'seller');
+  const sponsor = sponsorNode
+    ? nodeText(sponsorNode, 'name') || nodeText(sponsorNode, 'legalName')
+    : text(item, 'organizer') || text(item, 'sponsor') || text(item, 'seller');
+
+  const prizeDescription = (offer ? nodeText(offer, 'name') || nodeText(offer, 'description') : '') || description;
+
+  return {
+    url,
+    title,
+    sponsor,
+    endDate,
+    prizeDescription,
+    source: sourceId,
+    entryMethod: 'form',
+    type: inferType(title, description),
+    termsUrl: findRulesUrl(item, pageUrl),
+  };
+}
+
+/**
+ * A rules link given as a property of the item, e.g. `termsOfService`,
+ * or as a `sameAs`/`url` whose path mentions rules or terms.
+ */
+function findRulesUrl(item: StructuredItem, pageUrl: string): string | undefined {
+  for (const [key, values] of item.props) {
+    const candidates = RULES_PATTERN.test(key)
+      ? values
+      : key === 'sameAs' || key === 'potentialAction'
+        ? values.filter((value) => typeof value === 'string' && RULES_PATTERN.test(value))
+        : [];
+    for (const value of candidates) {
+      const url = typeof value === 'string' ? resolveUrl(value, pageUrl) : null;
+      if (url) return url;
+    }
+  }
+  return undefined;
+}
+
+function inferType(title: string, description: string): string {
+  const combined = `${title} ${description}`.toLowerCase();
+
+  if (combined.includes('instant win') || combined.includes('instant-win')) return 'instant_win';
+  if (combined.includes('daily')) return 'daily_entry';
+  if (combined.includes('giveaway')) return 'giveaway';
+  if (combined.includes('raffle')) return 'raffle';
+  if (combined.includes('contest')) return 'contest';
+  return 'sweepstakes';
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function text(item: StructuredItem, prop: string): string {
+  for (const value of item.props.get(prop) ?? []) {
+    const str = stringValue(value);
+    if (str) return str;
+  }
+  return '';
+}
+
+function nodeText(node: JsonLdNode, prop: string): string {
+  for (const value of asArray(node[prop])) {
+    const str = stringValue(value);
+    if (str) return str;
+  }
+  return '';
+}
+
+function firstNode(item: StructuredItem, prop: string): JsonLdNode | null {
+  const value = (item.props.get(prop) ?? []).find((v) => v !== null && typeof v === 'object' && !Array.isArray(v));
+  return (value as JsonLdNode | undefined) ?? null;
+}
+
+/** Strings as-is; objects by their name or @id, which is how JSON-LD references look. */
+function stringValue(value: unknown): string {
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim();
+  if (typeof value === 'number') return String(value);
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const node = value as JsonLdNode;
+    return stringValue(node['name'] ?? node['@id'] ?? node['@value']);
+  }
+  return '';
+}
+
+function resolveUrl(href: string, pageUrl: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href, pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? normalizeUrl(url.toString()) : null;
+  } catch {
+    return null;
+  }
+}
@@ -5,6 +5,7 @@
  */
 
 import type { ContestType, EntryMethod } from '../shared/constants.js';
+import type { PrizeTier } from '../shared/prizes.js';
 
 // ---------------------------------------------------------------------------
 // Discovery source configuration
@@ -18,19 +19,32 @@ export interface DiscoverySource {
   /** Base URL to begin crawling. */
   url: string;
   /** Source type determines which handler processes the source. */
-  type: 'html' | 'rss' | 'custom';
+  type: 'html' | 'rss' | 'custom' | 'sitemap' | 'structured-data' | 'newsletter';
   /** Whether this source is currently enabled. */
   enabled: boolean;
   /** CSS selector configuration for HTML sources. */
   selectors?: SourceSelectors;
   /** Pagination configuration. */
   pagination?: PaginationConfig;
+  /** Sitemap walking configuration for sitemap sources. */
+  sitemap?: SitemapConfig;
+  /** Extra pages read by structured-data sources besides the base URL. */
+  pages?: string[];
+  /** Mailbox to read for newsletter sources. */
+  newsletter?: NewsletterConfig;
   /** Category filters to apply when crawling. */
   categories?: string[];
   /** Maximum pages to crawl in one session. */
   maxPages?: number;
   /** Minimum delay between requests to this source in ms. */
   rateLimitMs?: number;
+  /** Daily fetch limits; unlimited when unset. */
+  budget?: CrawlBudget;
+  /**
+   * Trust in this source's field values (0-1) when listings from several
+   * sources are merged into one contest. Defaults by source type.
+   */
+  trust?: number;
 }
 
 export interface SourceSelectors {
@@ -63,6 +77,39 @@ export interface PaginationConfig {
   pageSize?: number;
 }
 
+export interface CrawlBudget {
+  /** Requests per UTC day, 304 responses included. */
+  pagesPerDay?: number;
+  /** Response bytes per UTC day. */
+  bytesPerDay?: number;
+}
+
+export interface SitemapConfig {
+  /** Only follow URLs (and child sitemaps) modified within this many days. */
+  lastmodDays?: number;
+  /** Regex patterns a page URL must match; defaults to promotion keywords. */
+  include?: string[];
+  /** Regex patterns that exclude a page URL. */
+  exclude?: string[];
+  /** Maximum contest pages fetched per crawl. */
+  maxUrls?: number;
+  /** Maximum sitemap documents read per crawl, indexes included. */
+  maxSitemaps?: number;
+}
+
+export interface NewsletterConfig {
+  /** Address of the email account (in email_accounts) holding the newsletters. */
+  account: string;
+  /** Gmail label the newsletters are filed under. */
+  label: string;
+  /** Only read messages received within this many days. */
+  newerThanDays?: number;
+  /** Maximum messages read per crawl. */
+  maxMessages?: number;
+  /** Mark messages as read once their contests are extracted. */
+  markAsRead?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Raw contest data (before enrichment)
 // ---------------------------------------------------------------------------
@@ -84,6 +131,10 @@ export interface RawContest {
   entryMethod: string;
   /** Contest type keyword (sweepstakes, giveaway, etc.). */
   type: string;
+  /** Official rules URL, when the listing links to it. */
+  termsUrl?: string;
+  /** Email message the contest was found in, for newsletter sources. */
+  messageId?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -99,6 +150,8 @@ export interface ContestDetails {
   prizeDescription: string;
   /** Estimated prize monetary value, or null if unknown. */
   prizeValue: number | null;
+  /** Prize tiers listed on the page, grand prize first (empty if none). */
+  prizes: PrizeTier[];
   /** Detected entry method. */
   entryMethod: EntryMethod | string;
   /** How often one can enter (daily, once, weekly, etc.). */
@@ -136,6 +189,34 @@ export interface LegitimacyFactor {
   reason: string;
 }
 
+export type ReputationKind = 'domain' | 'sponsor';
+
+export type ReputationList = 'allow' | 'deny';
+
+/** A domain or sponsor on the allow or deny list. */
+export interface ReputationEntry {
+  id: string;
+  kind: ReputationKind;
+  /** Normalized domain ("example.com") or sponsor name ("acme foods"). */
+  value: string;
+  list: ReputationList;
+  reason: string | null;
+  addedBy: string;
+  /** Built-in entries ship with the scorer; they can be overridden but not removed. */
+  builtin: boolean;
+  createdAt: string | null;
+}
+
+/**
+ * User reputation data the legitimacy scorer reads, loaded once per
+ * discovery run. Both maps are keyed by `reputationKey(kind, value)`.
+ */
+export interface ReputationSnapshot {
+  entries: Map<string, ReputationEntry>;
+  /** Number of contests flagged as scams per domain / sponsor. */
+  scamReports: Map<string, number>;
+}
+
 // ---------------------------------------------------------------------------
 // Deduplication
 // ---------------------------------------------------------------------------
@@ -164,6 +245,12 @@ export interface CrawlResult {
   durationMs: number;
   /** Errors encountered during crawling. */
   errors: CrawlError[];
+  /** Pages that were not modified (304) or whose content was unchanged, and so not parsed. */
+  pagesUnchanged?: number;
+  /** Whether the crawl stopped because the source's daily budget ran out. */
+  budgetExhausted?: boolean;
+  /** Whether pagination stopped at a page that listed only known contests. */
+  stoppedAtKnown?: boolean;
 }
 
 export interface CrawlError {
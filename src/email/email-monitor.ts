@@ -8,7 +8,9 @@
 
 import { getLogger } from '../shared/logger.js';
 import { eventBus } from '../shared/events.js';
+import { getDb } from '../db/index.js';
 import type { GmailClient, GmailMessage } from './gmail-client.js';
+import { WinTriage } from './win-triage.js';
 
 const logger = getLogger('email', { component: 'email-monitor' });
 
@@ -28,9 +30,12 @@ export interface WinEmail {
   emailId: string;
   subject: string;
   from: string;
+  to: string;
+  body: string;
   prizeDetails: string;
   claimUrl: string;
   claimDeadline?: string;
+  entryId?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -79,9 +84,11 @@ export class EmailMonitor {
   private pollingTimer: ReturnType<typeof setInterval> | null = null;
   private isRunning = false;
   private processedEmailIds = new Set<string>();
+  private winTriage: WinTriage | null;
 
-  constructor(gmailClient: GmailClient) {
+  constructor(gmailClient: GmailClient, winTriage?: WinTriage) {
     this.gmailClient = gmailClient;
+    this.winTriage = winTriage ?? null;
   }
 
   /**
@@ -210,9 +217,12 @@ export class EmailMonitor {
           emailId: message.id,
           subject: message.subject,
           from: message.from,
+          to: message.to,
+          body: message.body || message.htmlBody,
           prizeDetails: prizeDetails || message.snippet,
           claimUrl: claimUrl || '',
           claimDeadline: this.extractDeadline(message),
+          entryId: this.extractEntryIdFromEmail(message),
         };
 
         wins.push(winEmail);
@@ -254,12 +264,14 @@ export class EmailMonitor {
         });
       }
 
+      // Subject matches are only candidates; triage scores each one and
+      // either records the win or parks it in the possible-win inbox.
       for (const win of wins) {
-        eventBus.emit('win:detected', {
-          entryId: '',
-          prizeValue: 0,
-          prizeDescription: win.prizeDetails,
-        });
+        try {
+          await this.getWinTriage().process(win);
+        } catch (error) {
+          logger.error({ err: error, emailId: win.emailId }, 'Win triage failed');
+        }
       }
 
       if (confirmations.length > 0 || wins.length > 0) {
@@ -274,6 +286,13 @@ export class EmailMonitor {
     }
   }
 
+  private getWinTriage(): WinTriage {
+    if (!this.winTriage) {
+      this.winTriage = new WinTriage(getDb());
+    }
+    return this.winTriage;
+  }
+
   private matchesConfirmationPattern(subject: string): boolean {
     return CONFIRMATION_SUBJECT_PATTERNS.some((pattern) =>
       pattern.test(subject),
@@ -0,0 +1,62 @@
+/**
+ * Connects a GmailClient for an account stored in email_accounts.
+ *
+ * OAuth client credentials and the refresh token are read from the
+ * account's stored JSON, falling back to GMAIL_CLIENT_ID /
+ * GMAIL_CLIENT_SECRET for the client credentials.
+ */
+
+import { eq } from 'drizzle-orm';
+import { getDb, schema } from '../db/index.js';
+import { getLogger } from '../shared/logger.js';
+import { GmailClient } from './gmail-client.js';
+
+const logger = getLogger('email', { component: 'gmail-account' });
+
+const DEFAULT_REDIRECT_URI = 'http://localhost:3000/api/v1/email/oauth/callback';
+
+/**
+ * Returns a GmailClient with refreshed tokens for the given address, or
+ * null when the account is missing, not a Gmail account, or has
+ * incomplete credentials. Token refresh errors are thrown.
+ */
+export async function connectGmailAccount(emailAddress: string): Promise<GmailClient | null> {
+  const db = getDb();
+  const accounts = await db
+    .select()
+    .from(schema.emailAccounts)
+    .where(eq(schema.emailAccounts.emailAddress, emailAddress))
+    .limit(1);
+
+  const account = accounts[0];
+  if (!account || account.provider !== 'gmail') {
+    return null;
+  }
+
+  // Parse stored credentials and tokens from the oauthTokens column (encrypted JSON)
+  let credentials: { clientId: string; clientSecret: string; redirectUri: string };
+  let refreshToken: string;
+
+  try {
+    const oauthData = account.oauthTokens ? JSON.parse(account.oauthTokens) : {};
+    const imapData = account.imapConfig ? JSON.parse(account.imapConfig) : {};
+    credentials = {
+      clientId: oauthData.clientId ?? imapData.clientId ?? process.env['GMAIL_CLIENT_ID'] ?? '',
+      clientSecret: oauthData.clientSecret ?? imapData.clientSecret ?? process.env['GMAIL_CLIENT_SECRET'] ?? '',
+      redirectUri: oauthData.redirectUri ?? DEFAULT_REDIRECT_URI,
+    };
+    refreshToken = oauthData.refreshToken ?? '';
+  } catch {
+    logger.warn({ accountId: account.id }, 'Failed to parse Gmail account OAuth tokens');
+    return null;
+  }
+
+  if (!credentials.clientId || !credentials.clientSecret || !refreshToken) {
+    logger.warn({ accountId: account.id }, 'Gmail credentials incomplete');
+    return null;
+  }
+
+  const client = new GmailClient(credentials);
+  await client.refreshTokens(refreshToken);
+  return client;
+}
@@ -3,7 +3,7 @@
  *
  * Provides Gmail OAuth2 integration, email monitoring for confirmations
  * and win notifications, confirmation link clicking, unsubscribe management,
- * and win detection.
+ * win detection, and win confidence triage.
  */
 
 export {
@@ -14,6 +14,8 @@ export {
   type Label,
 } from './gmail-client.js';
 
+export { connectGmailAccount } from './gmail-account.js';
+
 export {
   EmailMonitor,
   type ConfirmationEmail,
@@ -31,4 +33,25 @@ export {
   type Win,
 } from './win-detector.js';
 
+export {
+  scoreWinEmail,
+  domainOf,
+  LIKELY_WIN_THRESHOLD,
+  POSSIBLE_WIN_THRESHOLD,
+  type WinConfidenceBand,
+  type WinSignal,
+  type WinScore,
+  type WinScoringInput,
+  type WinScoringContext,
+} from './win-scorer.js';
+
+export {
+  WinTriage,
+  type PossibleWin,
+  type PossibleWinStatus,
+  type PossibleWinFilter,
+  type TriageOutcome,
+  type TriageResult,
+} from './win-triage.js';
+
 export { UnsubscribeManager } from './unsubscribe-manager.js';
@@ -1,12 +1,12 @@
 /**
  * Detects and processes win notification emails, extracting prize details,
- * claim URLs, and deadlines. Creates win records in the database.
+ * claim URLs, and deadlines, and scoring how likely the email is a real win.
  */
 
 import { getLogger } from '../shared/logger.js';
-import { eventBus } from '../shared/events.js';
 import { generateId } from '../shared/crypto.js';
 import type { WinEmail } from './email-monitor.js';
+import { scoreWinEmail, type WinScore, type WinScoringContext } from './win-scorer.js';
 
 const logger = getLogger('email', { component: 'win-detector' });
 
@@ -32,6 +32,7 @@ export interface Win {
   prizeCategory: string;
   claimUrl: string;
   claimDeadline: string | null;
+  confidence: WinScore;
   detectedAt: string;
 }
 
@@ -80,10 +81,11 @@ const CATEGORY_KEYWORDS: Record<string, string[]> = {
 
 export class WinDetector {
   /**
-   * Processes a win notification email: extracts prize details, creates a
-   * win record, and emits a 'win:detected' event.
+   * Processes a win notification email: extracts prize details and scores
+   * the email against the given contest context. Does not emit
+   * 'win:detected'; the caller decides whether the score is high enough.
    */
-  processWinEmail(email: WinEmail): Win {
+  processWinEmail(email: WinEmail, context: WinScoringContext = { entryLinked: false }): Win {
     logger.info(
       { emailId: email.emailId, subject: email.subject },
       'Processing win email',
@@ -93,6 +95,12 @@ export class WinDetector {
       email.prizeDetails || email.subject,
     );
 
+    const claimDeadline = email.claimDeadline || prizeDetails.claimDeadline;
+    const confidence = scoreWinEmail(
+      { subject: email.subject, from: email.from, body: email.body, claimDeadline },
+      context,
+    );
+
     const win: Win = {
       id: generateId(),
       emailId: email.emailId,
@@ -102,24 +110,21 @@ export class WinDetector {
       prizeValue: prizeDetails.estimatedValue,
       prizeCategory: prizeDetails.category,
       claimUrl: email.claimUrl || prizeDetails.claimUrl,
-      claimDeadline: email.claimDeadline || prizeDetails.claimDeadline,
+      claimDeadline,
+      confidence,
       detectedAt: new Date().toISOString(),
     };
 
-    eventBus.emit('win:detected', {
-      entryId: '',
-      prizeValue: win.prizeValue,
-      prizeDescription: win.prizeDescription,
-    });
-
     logger.info(
       {
         winId: win.id,
         prizeValue: win.prizeValue,
         category: win.prizeCategory,
         claimDeadline: win.claimDeadline,
+        confidence: confidence.score,
+        band: confidence.band,
       },
-      'Win record created',
+      'Win email scored',
     );
 
     return win;
@@ -0,0 +1,216 @@
+/**
+ * Confidence scoring for win notification emails.
+ *
+ * Subject lines alone cannot tell a real winner notification from a
+ * marketing email that says "You could be a WINNER!". The score combines
+ * independent signals (sender vs. contest sponsor, a link to a known
+ * entry, claim paperwork language) and subtracts for promotional phrasing.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type WinConfidenceBand = 'likely' | 'possible' | 'unlikely';
+
+export interface WinSignal {
+  feature: string;
+  weight: number;
+  detail: string;
+}
+
+export interface WinScoringInput {
+  subject: string;
+  from: string;
+  body: string;
+  claimDeadline?: string | null;
+}
+
+export interface WinScoringContext {
+  /** Sponsor of the contest the email appears to relate to. */
+  sponsor?: string | null;
+  /** URL of that contest, used for its domain. */
+  contestUrl?: string | null;
+  /** True when the email references an entry we submitted. */
+  entryLinked: boolean;
+}
+
+export interface WinScore {
+  score: number;
+  band: WinConfidenceBand;
+  signals: WinSignal[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Scores at or above this are treated as real wins. */
+export const LIKELY_WIN_THRESHOLD = 0.6;
+
+/** Scores below this are treated as marketing and dismissed. */
+export const POSSIBLE_WIN_THRESHOLD = 0.2;
+
+const WEIGHTS = {
+  subject: 0.15,
+  sender: 0.25,
+  entry: 0.35,
+  claimPhrase: 0.1,
+  claimPhraseMax: 0.3,
+  deadline: 0.05,
+  negativePhrase: -0.25,
+  negativeMax: -0.75,
+};
+
+const WIN_SUBJECT_PATTERN =
+  /congratulations|you won|you(?:'re| are) a winner|claim your prize|selected as (?:a |the )?winner|you've been selected|prize notification|winner notification|potential winner/i;
+
+/** Language that shows up in genuine winner paperwork. */
+const CLAIM_PHRASES: Array<[string, RegExp]> = [
+  ['potential winner', /potential (?:grand prize |prize )?winner/i],
+  ['affidavit', /affidavit/i],
+  ['release form', /(?:liability|publicity) release|release form/i],
+  ['tax form', /\bw-?9\b|1099|social security number/i],
+  ['eligibility verification', /verif(?:y|ication of) (?:your )?eligibility/i],
+  ['response deadline', /(?:respond|reply|return)[^.]{0,40}(?:by|within)/i],
+  ['prize fulfillment', /prize (?:fulfillment|delivery|will be (?:shipped|sent|awarded))/i],
+  ['official rules reference', /official rules/i],
+];
+
+/** Promotional phrasing that real winner notices do not use. */
+const NEGATIVE_PHRASES: Array<[string, RegExp]> = [
+  ['could be a winner', /could (?:be (?:a |the )?(?:next )?winner|win)/i],
+  ['chance to win', /chances? to win/i],
+  ['enter now', /enter (?:now|today|to win)/i],
+  ['may have won', /(?:may|might) have (?:already )?won/i],
+  ['see if you won', /(?:see|find out|check) if you(?:'ve| have)? won/i],
+  ['shopping', /shop now|buy now|% off|free shipping|limited[- ]time|sale ends/i],
+  ['game mechanic', /spin the wheel|scratch (?:to|and) (?:win|reveal)|play now/i],
+];
+
+/** Free mailbox providers say nothing about who sent the email. */
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com',
+  'aol.com', 'icloud.com', 'proton.me', 'protonmail.com',
+]);
+
+const SPONSOR_STOP_WORDS = new Set([
+  'the', 'inc', 'llc', 'ltd', 'corp', 'co', 'company', 'group', 'and', 'of',
+]);
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Scores how likely an email is a genuine win notification.
+ */
+export function scoreWinEmail(input: WinScoringInput, context: WinScoringContext): WinScore {
+  const signals: WinSignal[] = [];
+  const text = `${input.subject}\n${input.body}`;
+
+  if (WIN_SUBJECT_PATTERN.test(input.subject)) {
+    signals.push({ feature: 'subject', weight: WEIGHTS.subject, detail: input.subject });
+  }
+
+  const senderDomain = domainOf(input.from);
+  const senderMatch = senderDomain ? matchSender(senderDomain, context) : null;
+  if (senderMatch) {
+    signals.push({ feature: 'sender', weight: WEIGHTS.sender, detail: senderMatch });
+  }
+
+  if (context.entryLinked) {
+    signals.push({ feature: 'entry', weight: WEIGHTS.entry, detail: 'References a submitted entry' });
+  }
+
+  let claimWeight = 0;
+  for (const [name, pattern] of CLAIM_PHRASES) {
+    if (claimWeight >= WEIGHTS.claimPhraseMax) break;
+    if (pattern.test(text)) {
+      signals.push({ feature: 'claim_language', weight: WEIGHTS.claimPhrase, detail: name });
+      claimWeight += WEIGHTS.claimPhrase;
+    }
+  }
+
+  if (input.claimDeadline) {
+    signals.push({ feature: 'deadline', weight: WEIGHTS.deadline, detail: input.claimDeadline });
+  }
+
+  let negativeWeight = 0;
+  for (const [name, pattern] of NEGATIVE_PHRASES) {
+    if (negativeWeight <= WEIGHTS.negativeMax) break;
+    if (pattern.test(text)) {
+      signals.push({ feature: 'promotional', weight: WEIGHTS.negativePhrase, detail: name });
+      negativeWeight += WEIGHTS.negativePhrase;
+    }
+  }
+
+  const raw = signals.reduce((sum, s) => sum + s.weight, 0);
+  const score = Math.round(Math.min(1, Math.max(0, raw)) * 100) / 100;
+
+  return { score, band: bandFor(score), signals };
+}
+
+/**
+ * Extracts the lowercased domain from a From header such as
+ * `"Acme Promotions" <winners@promo.acme.com>`.
+ */
+export function domainOf(from: string): string | null {
+  const match = from.match(/@([a-z0-9.-]+\.[a-z]{2,})/i);
+  return match?.[1]?.toLowerCase() ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function bandFor(score: number): WinConfidenceBand {
+  if (score >= LIKELY_WIN_THRESHOLD) return 'likely';
+  if (score >= POSSIBLE_WIN_THRESHOLD) return 'possible';
+  return 'unlikely';
+}
+
+/**
+ * Returns a description of how the sender domain matches the contest, or
+ * null when it does not.
+ */
+function matchSender(senderDomain: string, context: WinScoringContext): string | null {
+  if (FREE_MAIL_DOMAINS.has(senderDomain)) return null;
+
+  const senderRoot = rootDomain(senderDomain);
+
+  if (context.contestUrl) {
+    try {
+      const contestRoot = rootDomain(new URL(context.contestUrl).hostname.toLowerCase());
+      if (contestRoot === senderRoot) {
+        return `Sender domain ${senderDomain} matches contest site`;
+      }
+    } catch {
+      // Unparseable contest URL; fall through to the sponsor check
+    }
+  }
+
+  if (context.sponsor) {
+    const senderLabel = senderRoot.split('.')[0] ?? '';
+    const sponsorTokens = context.sponsor
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length >= 3 && !SPONSOR_STOP_WORDS.has(t));
+    const compactSponsor = sponsorTokens.join('');
+
+    if (
+      senderLabel.length >= 3 &&
+      (compactSponsor === senderLabel || sponsorTokens.includes(senderLabel))
+    ) {
+      return `Sender domain ${senderDomain} matches sponsor ${context.sponsor}`;
+    }
+  }
+
+  return null;
+}
+
+/** Reduces `mail.promo.acme.com` to `acme.com` (ignores multi-part TLDs). */
+export function rootDomain(host: string): string {
+  const parts = host.replace(/^www\./, '').split('.');
+  return parts.slice(-2).join('.');
+}
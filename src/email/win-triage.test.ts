@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { closeDb, getDb } from '../db/index.js';
+import { migrate } from '../db/migrate.js';
+import { contests, entries, profiles } from '../db/schema.js';
+import type { WinEmail } from './email-monitor.js';
+import { WinTriage } from './win-triage.js';
+
+function email(overrides: Partial<WinEmail> = {}): WinEmail {
+  return {
+    emailId: 'email-1',
+    subject: 'An update on the Summer Giveaway',
+    from: 'Acme Promotions <promo@mail.acme.com>',
+    to: 'pat@example.com',
+    body: 'Thanks for taking part.',
+    prizeDetails: '',
+    claimUrl: '',
+    ...overrides,
+  };
+}
+
+describe('WinTriage entry resolution', () => {
+  let triage: WinTriage;
+
+  function enter(contestId: string, submittedAt: string, status: 'submitted' | 'lost' = 'submitted') {
+    getDb()
+      .insert(entries)
+      .values({ id: `entry-${contestId}`, contestId, profileId: 'profile-1', status, submittedAt })
+      .run();
+  }
+
+  function contest(id: string, url: string, sponsor: string) {
+    getDb()
+      .insert(contests)
+      .values({ id, externalId: id, url, title: id, type: 'sweepstakes', entryMethod: 'form', sponsor })
+      .run();
+  }
+
+  /** Contest the possible win recorded for the email was tied to. */
+  async function resolvedContest(message: WinEmail): Promise<string | null> {
+    const result = await triage.process(message);
+    return triage.get(result.possibleWinId!)?.contestId ?? null;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-06-10T12:00:00Z'));
+    closeDb();
+    migrate(':memory:');
+    getDb()
+      .insert(profiles)
+      .values({ id: 'profile-1', firstName: 'Pat', lastName: 'Doe', email: 'pat@example.com' })
+      .run();
+    contest('acme-site', 'https://www.acme.com/summer', 'Summit Brands');
+    contest('acme-sponsor', 'https://sweeps.example/acme', 'Acme Foods Inc');
+    contest('other', 'https://zenith.example/win', 'Zenith Media');
+    triage = new WinTriage(getDb());
+  });
+
+  afterEach(() => {
+    closeDb();
+    vi.useRealTimers();
+  });
+
+  it('ties the email to the one recent entry whose contest matches the sender', async () => {
+    enter('acme-site', '2026-05-01T00:00:00Z');
+    enter('other', '2026-05-01T00:00:00Z');
+
+    expect(await resolvedContest(email())).toBe('acme-site');
+  });
+
+  it('matches the sender against the sponsor name', async () => {
+    enter('acme-sponsor', '2026-05-01T00:00:00Z');
+    enter('other', '2026-05-01T00:00:00Z');
+
+    expect(await resolvedContest(email())).toBe('acme-sponsor');
+  });
+
+  it('ignores entries older than the lookback window or no longer winnable', async () => {
+    enter('acme-site', '2025-05-01T00:00:00Z');
+    enter('acme-sponsor', '2026-05-01T00:00:00Z', 'lost');
+
+    expect(await resolvedContest(email())).toBeNull();
+  });
+
+  it('leaves the contest open when the sender matches more than one', async () => {
+    enter('acme-site', '2026-05-01T00:00:00Z');
+    enter('acme-sponsor', '2026-05-01T00:00:00Z');
+
+    expect(await resolvedContest(email())).toBeNull();
+  });
+});
@@ -0,0 +1,547 @@
+/**
+ * Win email triage.
+ *
+ * Every email that looks like a win notification is scored. Confident
+ * detections tied to one of our entries become win records and trigger
+ * the win notification. Everything else lands in the "possible win" inbox
+ * for a human to confirm or dismiss, so marketing emails never fire
+ * 'win:detected'.
+ */
+
+import { and, eq, desc, gte, inArray, like, or, count as countFn } from 'drizzle-orm';
+import { wins, possibleWins, entries, contests, profiles } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import { getLogger } from '../shared/logger.js';
+import { generateId } from '../shared/crypto.js';
+import { eventBus } from '../shared/events.js';
+import { AppError } from '../shared/errors.js';
+import { getAuditService } from '../analytics/audit-service.js';
+import { NotificationManager } from '../notification/notification-manager.js';
+import { WinNotifier } from '../notification/win-notifier.js';
+import { parseClaimDeadline } from '../notification/claim-workflow.js';
+import type { WinEmail } from './email-monitor.js';
+import { WinDetector, type Win } from './win-detector.js';
+import { domainOf, rootDomain, scoreWinEmail, type WinScoringContext, type WinSignal } from './win-scorer.js';
+
+const log = getLogger('email', { component: 'win-triage' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PossibleWinStatus = typeof possibleWins.$inferSelect['status'];
+
+export interface PossibleWin {
+  id: string;
+  emailId: string;
+  subject: string;
+  fromAddress: string;
+  snippet: string | null;
+  prizeDescription: string | null;
+  prizeValue: number | null;
+  claimUrl: string | null;
+  claimDeadline: string | null;
+  confidence: number;
+  signals: WinSignal[];
+  entryId: string | null;
+  contestId: string | null;
+  contestTitle: string | null;
+  profileId: string | null;
+  status: PossibleWinStatus;
+  winId: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+export interface PossibleWinFilter {
+  status?: PossibleWinStatus;
+  page: number;
+  limit: number;
+}
+
+export type TriageOutcome = 'win' | 'possible' | 'dismissed' | 'duplicate';
+
+export interface TriageResult {
+  outcome: TriageOutcome;
+  confidence: number;
+  winId?: string;
+  possibleWinId?: string;
+}
+
+/** The entry (or at least contest) an email appears to be about. */
+interface ResolvedEntry {
+  entryId: string | null;
+  contestId: string;
+  profileId: string | null;
+  context: WinScoringContext;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Entry statuses that can still turn into a win. */
+const WINNABLE_ENTRY_STATUSES = ['submitted', 'confirmed'] as const;
+
+/** How far back an entry is considered when an email names no entry. */
+const WIN_LOOKBACK_DAYS = 365;
+
+const SNIPPET_LENGTH = 500;
+
+// ---------------------------------------------------------------------------
+// WinTriage
+// ---------------------------------------------------------------------------
+
+export class WinTriage {
+  private readonly db: AppDatabase;
+  private readonly detector = new WinDetector();
+  private notificationManager: NotificationManager | null;
+
+  constructor(db: AppDatabase, notificationManager?: NotificationManager) {
+    this.db = db;
+    this.notificationManager = notificationManager ?? null;
+  }
+
+  /**
+   * Scores a win email and records it as a win, a pending possible win,
+   * or an auto-dismissed possible win. Emails seen before are skipped.
+   */
+  async process(email: WinEmail): Promise<TriageResult> {
+    if (this.alreadySeen(email.emailId)) {
+      return { outcome: 'duplicate', confidence: 0 };
+    }
+
+    const resolved = this.resolveEntry(email);
+    const detected = this.detector.processWinEmail(
+      email,
+      resolved?.context ?? { entryLinked: false },
+    );
+    const { score, band } = detected.confidence;
+
+    if (band === 'likely' && resolved?.entryId && resolved.profileId) {
+      const winId = this.createWin({
+        entryId: resolved.entryId,
+        contestId: resolved.contestId,
+        profileId: resolved.profileId,
+        emailId: email.emailId,
+        prizeDescription: detected.prizeDescription || null,
+        prizeValue: detected.prizeValue || null,
+        claimUrl: detected.claimUrl || null,
+        claimDeadline: detected.claimDeadline,
+      });
+
+      await getAuditService().record({
+        action: 'win.detected',
+        entityType: 'win',
+        entityId: winId,
+        profileId: resolved.profileId,
+        details: { emailId: email.emailId, confidence: score, signals: detected.confidence.signals },
+      });
+
+      await this.notify(winId, resolved.contestId, resolved.profileId);
+      log.info({ winId, emailId: email.emailId, confidence: score }, 'Win recorded from email');
+      return { outcome: 'win', confidence: score, winId };
+    }
+
+    // Unlikely emails are kept (already dismissed) so they are not
+    // re-scored and so false negatives can still be confirmed by hand.
+    const status: PossibleWinStatus = band === 'unlikely' ? 'dismissed' : 'pending';
+    const possibleWinId = this.insertPossibleWin(email, detected, resolved, status);
+
+    if (status === 'pending') {
+      eventBus.emit('win:possible_detected', {
+        possibleWinId,
+        emailId: email.emailId,
+        confidence: score,
+      });
+    }
+
+    log.info(
+      { possibleWinId, emailId: email.emailId, confidence: score, band },
+      status === 'pending' ? 'Possible win queued for confirmation' : 'Win email dismissed as unlikely',
+    );
+    return { outcome: status === 'pending' ? 'possible' : 'dismissed', confidence: score, possibleWinId };
+  }
+
+  /**
+   * Lists possible wins, newest first.
+   */
+  list(filter: PossibleWinFilter): { items: PossibleWin[]; total: number } {
+    const where = filter.status ? eq(possibleWins.status, filter.status) : undefined;
+
+    const rows = this.selectPossibleWins()
+      .where(where)
+      .orderBy(desc(possibleWins.createdAt))
+      .limit(filter.limit)
+      .offset((filter.page - 1) * filter.limit)
+      .all();
+
+    const totalRow = this.db
+      .select({ count: countFn() })
+      .from(possibleWins)
+      .where(where)
+      .get();
+
+    return { items: rows.map(toPossibleWin), total: totalRow?.count ?? 0 };
+  }
+
+  get(id: string): PossibleWin | null {
+    const row = this.selectPossibleWins().where(eq(possibleWins.id, id)).get();
+    return row ? toPossibleWin(row) : null;
+  }
+
+  /**
+   * Confirms a possible win as real: creates the win record against the
+   * given entry (or the one matched during triage) and sends the win
+   * notification. Dismissed emails can still be confirmed.
+   */
+  async confirm(id: string, entryId?: string): Promise<PossibleWin> {
+    const possible = this.requireStatus(id, ['pending', 'dismissed']);
+
+    const targetEntryId = entryId ?? possible.entryId;
+    if (!targetEntryId) {
+      throw new AppError(
+        'An entry is required to confirm this win',
+        'ENTRY_REQUIRED',
+        400,
+      );
+    }
+
+    const entry = this.db
+      .select({ id: entries.id, contestId: entries.contestId, profileId: entries.profileId })
+      .from(entries)
+      .where(eq(entries.id, targetEntryId))
+      .get();
+
+    if (!entry) {
+      throw new AppError(`Entry not found: ${targetEntryId}`, 'NOT_FOUND', 404);
+    }
+
+    const winId = this.createWin({
+      entryId: entry.id,
+      contestId: entry.contestId,
+      profileId: entry.profileId,
+      emailId: possible.emailId,
+      prizeDescription: possible.prizeDescription,
+      prizeValue: possible.prizeValue,
+      claimUrl: possible.claimUrl,
+      claimDeadline: possible.claimDeadline,
+    });
+
+    const now = new Date().toISOString();
+    this.db
+      .update(possibleWins)
+      .set({
+        status: 'confirmed',
+        winId,
+        entryId: entry.id,
+        contestId: entry.contestId,
+        profileId: entry.profileId,
+        decidedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(possibleWins.id, id))
+      .run();
+
+    await getAuditService().record({
+      action: 'win.confirmed',
+      entityType: 'win',
+      entityId: winId,
+      profileId: entry.profileId,
+      details: { possibleWinId: id, emailId: possible.emailId, confidence: possible.confidence },
+    });
+
+    await this.notify(winId, entry.contestId, entry.profileId);
+    log.info({ possibleWinId: id, winId }, 'Possible win confirmed');
+
+    return this.get(id)!;
+  }
+
+  /**
+   * Dismisses a possible win as a false positive.
+   */
+  async dismiss(id: string, reason?: string): Promise<PossibleWin> {
+    const possible = this.requireStatus(id, ['pending']);
+
+    const now = new Date().toISOString();
+    this.db
+      .update(possibleWins)
+      .set({ status: 'dismissed', decidedAt: now, updatedAt: now })
+      .where(eq(possibleWins.id, id))
+      .run();
+
+    await getAuditService().record({
+      action: 'win.dismissed',
+      entityType: 'possible_win',
+      entityId: id,
+      details: {
+        emailId: possible.emailId,
+        from: possible.fromAddress,
+        confidence: possible.confidence,
+        reason: reason ?? null,
+      },
+    });
+
+    log.info({ possibleWinId: id }, 'Possible win dismissed');
+    return this.get(id)!;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private
+  // -------------------------------------------------------------------------
+
+  private alreadySeen(emailId: string): boolean {
+    const win = this.db
+      .select({ id: wins.id })
+      .from(wins)
+      .where(eq(wins.detectionEmailId, emailId))
+      .get();
+    if (win) return true;
+
+    const possible = this.db
+      .select({ id: possibleWins.id })
+      .from(possibleWins)
+      .where(eq(possibleWins.emailId, emailId))
+      .get();
+    return Boolean(possible);
+  }
+
+  /**
+   * Finds the entry an email refers to. A reference number matching one
+   * of our entries is a direct link; otherwise the sender domain is matched
+   * against contests we have entered, which identifies the contest but
+   * only counts as a link to the entry when a single profile entered it
+   * (or the recipient address picks one out). Only recent entries in
+   * contests whose site or sponsor mentions the sender's domain are
+   * loaded and scored.
+   */
+  private resolveEntry(email: WinEmail): ResolvedEntry | null {
+    if (email.entryId) {
+      const linked = this.db
+        .select({
+          entryId: entries.id,
+          contestId: entries.contestId,
+          profileId: entries.profileId,
+          sponsor: contests.sponsor,
+          url: contests.url,
+        })
+        .from(entries)
+        .innerJoin(contests, eq(entries.contestId, contests.id))
+        .where(eq(entries.id, email.entryId))
+        .get();
+
+      if (linked) {
+        return {
+          entryId: linked.entryId,
+          contestId: linked.contestId,
+          profileId: linked.profileId,
+          context: { sponsor: linked.sponsor, contestUrl: linked.url, entryLinked: true },
+        };
+      }
+    }
+
+    const senderDomain = domainOf(email.from);
+    if (!senderDomain) return null;
+
+    // Both sender checks in the scorer need this label in the contest URL
+    // or sponsor name; domain labels hold no LIKE wildcards
+    const senderLabel = rootDomain(senderDomain).split('.')[0] ?? '';
+    const since = new Date(Date.now() - WIN_LOOKBACK_DAYS * 86_400_000).toISOString();
+
+    const candidates = this.db
+      .select({
+        entryId: entries.id,
+        contestId: entries.contestId,
+        profileId: entries.profileId,
+        profileEmail: profiles.email,
+        sponsor: contests.sponsor,
+        url: contests.url,
+      })
+      .from(entries)
+      .innerJoin(contests, eq(entries.contestId, contests.id))
+      .innerJoin(profiles, eq(entries.profileId, profiles.id))
+      .where(
+        and(
+          inArray(entries.status, [...WINNABLE_ENTRY_STATUSES]),
+          gte(entries.submittedAt, since),
+          or(like(contests.url, `%${senderLabel}%`), like(contests.sponsor, `%${senderLabel}%`)),
+        ),
+      )
+      .all();
+
+    const matching = candidates.filter((c) => {
+      const probe = scoreWinEmail(email, { sponsor: c.sponsor, contestUrl: c.url, entryLinked: false });
+      return probe.signals.some((s) => s.feature === 'sender');
+    });
+
+    const contestIds = new Set(matching.map((c) => c.contestId));
+    const first = matching[0];
+    if (!first || contestIds.size !== 1) {
+      return null;
+    }
+
+    const recipient = email.to.toLowerCase();
+    const byRecipient = matching.filter((c) => recipient.includes(c.profileEmail.toLowerCase()));
+    const entry = matching.length === 1 ? first : byRecipient.length === 1 ? byRecipient[0]! : null;
+
+    return {
+      entryId: entry?.entryId ?? null,
+      contestId: first.contestId,
+      profileId: entry?.profileId ?? null,
+      context: { sponsor: first.sponsor, contestUrl: first.url, entryLinked: false },
+    };
+  }
+
+  private createWin(input: {
+    entryId: string;
+    contestId: string;
+    profileId: string;
+    emailId: string;
+    prizeDescription: string | null;
+    prizeValue: number | null;
+    claimUrl: string | null;
+    claimDeadline: string | null;
+  }): string {
+    const winId = generateId();
+    const now = new Date().toISOString();
+    const deadline = parseClaimDeadline(input.claimDeadline);
+
+    this.db
+      .insert(wins)
+      .values({
+        id: winId,
+        entryId: input.entryId,
+        contestId: input.contestId,
+        profileId: input.profileId,
+        prizeDescription: input.prizeDescription,
+        prizeValue: input.prizeValue,
+        detectionSource: 'email',
+        detectionEmailId: input.emailId,
+        claimDeadline: deadline ? deadline.toISOString() : input.claimDeadline,
+        claimUrl: input.claimUrl,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .run();
+
+    this.db
+      .update(entries)
+      .set({ status: 'won', updatedAt: now })
+      .where(eq(entries.id, input.entryId))
+      .run();
+
+    return winId;
+  }
+
+  private insertPossibleWin(
+    email: WinEmail,
+    detected: Win,
+    resolved: ResolvedEntry | null,
+    status: PossibleWinStatus,
+  ): string {
+    const id = generateId();
+    const now = new Date().toISOString();
+
+    this.db
+      .insert(possibleWins)
+      .values({
+        id,
+        emailId: email.emailId,
+        subject: email.subject,
+        fromAddress: email.from,
+        snippet: email.body.replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH) || null,
+        prizeDescription: detected.prizeDescription || null,
+        prizeValue: detected.prizeValue || null,
+        claimUrl: detected.claimUrl || null,
+        claimDeadline: detected.claimDeadline,
+        confidence: detected.confidence.score,
+        signals: JSON.stringify(detected.confidence.signals),
+        entryId: resolved?.entryId ?? null,
+        contestId: resolved?.contestId ?? null,
+        profileId: resolved?.profileId ?? null,
+        status,
+        decidedAt: status === 'dismissed' ? now : null,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoNothing()
+      .run();
+
+    return id;
+  }
+
+  private requireStatus(id: string, allowed: PossibleWinStatus[]): PossibleWin {
+    const possible = this.get(id);
+    if (!possible) {
+      throw new AppError(`Possible win not found: ${id}`, 'NOT_FOUND', 404);
+    }
+    if (!allowed.includes(possible.status)) {
+      throw new AppError(
+        `Possible win has already been ${possible.status}`,
+        'POSSIBLE_WIN_DECIDED',
+        409,
+      );
+    }
+    return possible;
+  }
+
+  private async notify(winId: string, contestId: string, profileId: string): Promise<void> {
+    if (!this.notificationManager) {
+      this.notificationManager = new NotificationManager();
+      this.notificationManager.initialize();
+    }
+
+    try {
+      await new WinNotifier(this.notificationManager).notifyWin(winId, contestId, profileId);
+    } catch (error) {
+      log.error({ err: error, winId }, 'Failed to send win notification');
+    }
+  }
+
+  private selectPossibleWins() {
+    return this.db
+      .select({ possible: possibleWins, contestTitle: contests.title })
+      .from(possibleWins)
+      .leftJoin(contests, eq(possibleWins.contestId, contests.id))
+      .$dynamic();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toPossibleWin(row: {
+  possible: typeof possibleWins.$inferSelect;
+  contestTitle: string | null;
+}): PossibleWin {
+  const p = row.possible;
+  let signals: WinSignal[] = [];
+  try {
+    signals = JSON.parse(p.signals) as WinSignal[];
+  } catch {
+    signals = [];
+  }
+
+  return {
+    id: p.id,
+    emailId: p.emailId,
+    subject: p.subject,
+    fromAddress: p.fromAddress,
+    snippet: p.snippet,
+    prizeDescription: p.prizeDescription,
+    prizeValue: p.prizeValue,
+    claimUrl: p.claimUrl,
+    claimDeadline: p.claimDeadline,
+    confidence: p.confidence,
+    signals,
+    entryId: p.entryId,
+    contestId: p.contestId,
+    contestTitle: row.contestTitle,
+    profileId: p.profileId,
+    status: p.status,
+    winId: p.winId,
+    decidedAt: p.decidedAt,
+    createdAt: p.createdAt,
+  };
+}
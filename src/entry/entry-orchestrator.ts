@@ -18,6 +18,8 @@ import { parseDate } from '../shared/utils.js';
 import { FormAnalyzer } from './form-analyzer.js';
 import { EntryRecorder } from './entry-recorder.js';
 import { selectStrategy } from './strategies/index.js';
+import { getDb } from '../db/index.js';
+import { ContestSnapshotArchive } from '../compliance/snapshot-archive.js';
 import type {
   Contest,
   Profile,
@@ -304,6 +306,14 @@ export class EntryOrchestrator {
     // Wait for page to stabilize
     await sleep(2000);
 
+    // Archive the page as it looked when the contest was first entered
+    if (options.takeScreenshots) {
+      const snapshots = new ContestSnapshotArchive(getDb());
+      if (!snapshots.has(contest.id, 'first_entry')) {
+        await snapshots.capturePage(contest.id, 'first_entry', page, { entryId });
+      }
+    }
+
     // Analyze the page to determine the best strategy
     const analysis = await this.formAnalyzer.analyzeForm(page);
     const isMultiStep = analysis.isMultiStep;
@@ -99,6 +99,11 @@ const envSchema = z.object({
   /** Daily budget cap in USD for captcha + proxy + sms costs */
   DAILY_BUDGET: z.coerce.number().nonnegative().default(50),
 
+  // ---------- Discovery ----------
+  /** Record discovery HTTP responses to fixtures, or replay them offline */
+  HTTP_FIXTURES_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  HTTP_FIXTURES_DIR: z.string().default('./fixtures/http'),
+
   // ---------- Notifications ----------
   DISCORD_WEBHOOK_URL: z.string().url().optional(),
   SLACK_WEBHOOK_URL: z.string().url().optional(),
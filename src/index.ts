@@ -41,6 +41,11 @@ async function main(): Promise<void> {
     const { migrate } = await import('./db/migrate.js');
     migrate(env.DATABASE_PATH);
     logger.info('Database migrations applied');
+
+    // Needs the encryption key, so it runs here rather than in migrate()
+    const { getDb } = await import('./db/index.js');
+    const { backfillHouseholdKeys } = await import('./compliance/household.js');
+    backfillHouseholdKeys(getDb());
   } catch (error) {
     logger.fatal({ err: error }, 'Database initialization failed');
     process.exit(1);
@@ -72,7 +77,7 @@ async function main(): Promise<void> {
     (globalThis as Record<string, unknown>)['__queueManager'] = qm;
 
     if (qm.isFallbackMode) {
-      logger.warn('QueueManager running in FALLBACK mode (no Redis). Jobs stored in-memory.');
+      logger.warn('QueueManager running in FALLBACK mode (no Redis). Jobs stored in the SQLite job store.');
     } else {
       logger.info('QueueManager initialized with Redis and workers');
     }
@@ -81,7 +86,7 @@ async function main(): Promise<void> {
   }
 
   // ---------------------------------------------------------------------------
-  // 4b. Start schedulers (discovery, recurring entries, health checks)
+  // 4b. Start schedulers (discovery, recurring entries, health checks, claim reminders, rules checks)
   // ---------------------------------------------------------------------------
   const schedulerInstances: Array<{ stop: () => void }> = [];
   try {
@@ -89,10 +94,13 @@ async function main(): Promise<void> {
       | import('./queue/queue-manager.js').QueueManager
       | undefined;
 
-    if (qm && !qm.isFallbackMode) {
+    if (qm) {
       const { DiscoveryScheduler } = await import('./queue/schedulers/discovery-scheduler.js');
       const { RecurringEntryScheduler } = await import('./queue/schedulers/recurring-entry-scheduler.js');
       const { HealthCheckScheduler } = await import('./queue/schedulers/health-check-scheduler.js');
+      const { ClaimReminderScheduler } = await import('./queue/schedulers/claim-reminder-scheduler.js');
+      const { RulesCheckScheduler } = await import('./queue/schedulers/rules-check-scheduler.js');
+      const { SnapshotRetentionScheduler } = await import('./queue/schedulers/snapshot-retention-scheduler.js');
 
       const discoveryScheduler = new DiscoveryScheduler(qm);
       discoveryScheduler.start();
@@ -100,6 +108,9 @@ async function main(): Promise<void> {
 
       const entryScheduler = new RecurringEntryScheduler(qm, {
         maxEntriesPerHour: env.MAX_ENTRIES_PER_HOUR,
+        maxEntriesPerDay: env.MAX_ENTRIES_PER_DAY,
+        dailyBudget: env.DAILY_BUDGET,
+        browserInstances: env.MAX_BROWSER_INSTANCES,
       });
       entryScheduler.start();
       schedulerInstances.push(entryScheduler);
@@ -108,12 +119,24 @@ async function main(): Promise<void> {
       healthScheduler.start();
       schedulerInstances.push(healthScheduler);
 
+      const claimScheduler = new ClaimReminderScheduler(qm);
+      claimScheduler.start();
+      schedulerInstances.push(claimScheduler);
+
+      const rulesScheduler = new RulesCheckScheduler(qm);
+      rulesScheduler.start();
+      schedulerInstances.push(rulesScheduler);
+
+      const snapshotScheduler = new SnapshotRetentionScheduler(qm);
+      snapshotScheduler.start();
+      schedulerInstances.push(snapshotScheduler);
+
       logger.info(
         { schedulerCount: schedulerInstances.length },
-        'All schedulers started (discovery, recurring-entry, health-check)',
+        'All schedulers started (discovery, recurring-entry, health-check, claim-reminder, rules-check, snapshot-retention)',
       );
     } else {
-      logger.warn('Schedulers not started: QueueManager not available or in fallback mode');
+      logger.warn('Schedulers not started: QueueManager not available');
     }
   } catch (error) {
     logger.warn({ err: error }, 'Failed to start one or more schedulers');
@@ -3,12 +3,16 @@
  *
  * Compares the current page structure against stored form_mapping selectors
  * to detect when a contest site has changed its layout, breaking existing
- * entry automation.
+ * entry automation. A flagged page is archived as a contest snapshot, and
+ * the prize tiers it lists refresh the contest's page-sourced prize table.
  */
 
 import { eq } from 'drizzle-orm';
 import { getLogger } from '../shared/logger.js';
 import { getDb, schema } from '../db/index.js';
+import { ContestSnapshotArchive } from '../compliance/snapshot-archive.js';
+import { extractContestDetails } from '../discovery/contest-extractor.js';
+import { PrizeTableStore } from './prize-table.js';
 
 const log = getLogger('queue', { component: 'change-detector' });
 
@@ -39,9 +43,10 @@ export class ChangeDetector {
    *
    * @param contestUrl - The URL of the contest to check.
    * @param currentHtml - The current HTML content of the contest page.
+   * @param screenshot - Optional screenshot of the page, archived with a flagged change.
    * @returns A ChangeResult indicating whether selectors are broken.
    */
-  checkForChanges(contestUrl: string, currentHtml: string): ChangeResult {
+  checkForChanges(contestUrl: string, currentHtml: string, screenshot?: Buffer): ChangeResult {
     const storedMapping = this.getStoredMapping(contestUrl);
 
     if (!storedMapping || Object.keys(storedMapping).length === 0) {
@@ -87,8 +92,13 @@ export class ChangeDetector {
         'Contest page layout change detected',
       );
 
-      // Update contest in database to flag the change
-      this.flagContestChanged(contestUrl, brokenSelectors).catch((err) => {
+      // Update contest in database to flag the change and archive the page
+      this.flagContestChanged(contestUrl, brokenSelectors, {
+        html: currentHtml,
+        screenshot,
+        newSelectors,
+        healthPercent,
+      }).catch((err) => {
         log.error({ err, contestUrl }, 'Failed to flag contest as changed');
       });
     } else {
@@ -111,12 +121,12 @@ export class ChangeDetector {
    * Checks multiple contests in batch.
    */
   checkMultiple(
-    contestPages: Array<{ contestUrl: string; currentHtml: string }>,
+    contestPages: Array<{ contestUrl: string; currentHtml: string; screenshot?: Buffer }>,
   ): Map<string, ChangeResult> {
     const results = new Map<string, ChangeResult>();
 
-    for (const { contestUrl, currentHtml } of contestPages) {
-      const result = this.checkForChanges(contestUrl, currentHtml);
+    for (const { contestUrl, currentHtml, screenshot } of contestPages) {
+      const result = this.checkForChanges(contestUrl, currentHtml, screenshot);
       results.set(contestUrl, result);
     }
 
@@ -164,11 +174,13 @@ export class ChangeDetector {
   }
 
   /**
-   * Flags a contest as needing attention due to layout changes.
+   * Flags a contest as needing attention due to layout changes and
+   * archives the changed page.
    */
   private async flagContestChanged(
     contestUrl: string,
     brokenSelectors: string[],
+    page: { html: string; screenshot?: Buffer; newSelectors: string[]; healthPercent: number },
   ): Promise<void> {
     const db = getDb();
 
@@ -201,6 +213,26 @@ export class ChangeDetector {
         updatedAt: new Date().toISOString(),
       })
       .where(eq(schema.contests.id, contest.id));
+
+    new ContestSnapshotArchive(db).capture(contest.id, 'change', {
+      url: contestUrl,
+      html: page.html,
+      screenshot: page.screenshot,
+      details: {
+        brokenSelectors,
+        newSelectors: page.newSelectors,
+        healthPercent: page.healthPercent,
+      },
+    });
+
+    // Manual and rules tables take precedence; replace() keeps those.
+    // The change is already recorded, so a failure here is only logged
+    try {
+      const details = await extractContestDetails(page.html, contestUrl);
+      new PrizeTableStore(db).replace(contest.id, details.prizes, 'page');
+    } catch (error) {
+      log.warn({ err: error, contestId: contest.id, contestUrl }, 'Failed to extract prize table from changed page');
+    }
   }
 }
 
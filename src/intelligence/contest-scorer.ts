@@ -2,7 +2,8 @@
  * Contest scoring engine.
  *
  * Evaluates contests by difficulty (how hard to enter) and ROI
- * (expected value vs time/cost), then produces a recommendation.
+ * (expected value per minute of entry time, from the odds estimator),
+ * then produces a recommendation.
  *
  * When historical data is available (via scoreWithHistory), the engine
  * queries the database for domain-level and type-level success rates
@@ -13,6 +14,7 @@
 import { eq, sql, count } from 'drizzle-orm';
 import { getLogger } from '../shared/logger.js';
 import { extractDomain } from '../shared/utils.js';
+import { estimateOdds, type OddsEstimate, type OddsHistory } from './odds-estimator.js';
 
 const log = getLogger('queue', { component: 'contest-scorer' });
 
@@ -27,6 +29,9 @@ export interface ScorableContest {
   title: string;
   type: string;
   prizeValue: number | null;
+  /** Prize-table aggregates; expected value uses the whole table when set. */
+  prizeCount?: number | null;
+  prizePoolValue?: number | null;
   prizeDescription?: string;
   requiresCaptcha?: boolean | number;
   requiresEmailConfirm?: boolean | number;
@@ -35,12 +40,17 @@ export interface ScorableContest {
   entryMethod: string;
   legitimacyScore: number | null;
   difficultyScore?: number | null;
+  sponsor?: string | null;
+  source?: string | null;
+  description?: string | null;
+  entryFrequency?: string | null;
+  endDate?: string | null;
 }
 
 export interface ContestScore {
   /** Normalized difficulty from 0 (trivial) to 1 (extremely hard). */
   difficulty: number;
-  /** Return on investment: prize_value / estimated_time_cost. */
+  /** Return on investment: expected value (USD) per minute of entry time. */
   roi: number;
   /** Priority score 0-100 for queue ordering. */
   priority: number;
@@ -50,6 +60,8 @@ export interface ContestScore {
   reason: string;
   /** Individual factor breakdowns. */
   factors: DifficultyFactor[];
+  /** Win odds and expected value behind the ROI. */
+  odds: OddsEstimate;
 }
 
 interface DifficultyFactor {
@@ -71,15 +83,6 @@ const DIFFICULTY_WEIGHTS: Record<string, number> = {
   purchaseRequired: 0.5,
 };
 
-/** Estimated time cost per entry in minutes, used for ROI calculation. */
-const ESTIMATED_TIME_COSTS: Record<string, number> = {
-  form: 2,
-  social: 3,
-  email: 1.5,
-  purchase: 10,
-  multi: 5,
-};
-
 // ---------------------------------------------------------------------------
 // ContestScorer
 // ---------------------------------------------------------------------------
@@ -96,6 +99,10 @@ export interface HistoricalData {
   typeEntryCount: number;
   /** Average win value for this domain, null if no wins. */
   domainAvgWinValue: number | null;
+  /** Wins recorded on this domain. */
+  domainWinCount: number;
+  /** Entries on this domain that were actually submitted. */
+  domainSubmittedCount: number;
 }
 
 export class ContestScorer {
@@ -132,7 +139,7 @@ export class ContestScorer {
    * average win values.
    */
   async fetchHistoricalData(
-    contest: ScorableContest,
+    contest: Pick<ScorableContest, 'url' | 'type'>,
   ): Promise<HistoricalData> {
     const { getDb } = await import('../db/index.js');
     const { entries, contests, wins } = await import('../db/schema.js');
@@ -155,7 +162,7 @@ export class ContestScorer {
       .get();
 
     const domainEntryCount = domainResult?.total ?? 0;
-    const domainSuccessful = domainResult?.successful ?? 0;
+    const domainSuccessful = Number(domainResult?.successful ?? 0);
     const domainSuccessRate =
       domainEntryCount > 0 ? domainSuccessful / domainEntryCount : null;
 
@@ -188,8 +195,9 @@ export class ContestScorer {
       )
       .get();
 
+    const domainWinCount = winResult?.cnt ?? 0;
     const domainAvgWinValue =
-      (winResult?.cnt ?? 0) > 0 ? (winResult?.avgValue ?? null) : null;
+      domainWinCount > 0 ? (winResult?.avgValue ?? null) : null;
 
     return {
       domainSuccessRate,
@@ -197,6 +205,8 @@ export class ContestScorer {
       typeSuccessRate,
       typeEntryCount,
       domainAvgWinValue,
+      domainWinCount,
+      domainSubmittedCount: domainSuccessful,
     };
   }
 
@@ -210,7 +220,11 @@ export class ContestScorer {
   ): ContestScore {
     const factors = this.assessDifficultyFactors(contest);
     const difficulty = this.calculateDifficulty(factors);
-    const roi = this.calculateRoi(contest, difficulty, history);
+    const odds = estimateOdds(
+      { ...contest, difficultyScore: difficulty },
+      history ? toOddsHistory(history) : null,
+    );
+    const roi = this.calculateRoi(odds, history);
     const priority = this.calculatePriority(contest, difficulty, roi, history);
     const { recommendation, reason } = this.determineRecommendation(
       difficulty,
@@ -226,13 +240,15 @@ export class ContestScorer {
       recommendation,
       reason,
       factors,
+      odds,
     };
 
     log.debug(
       {
         contestId: contest.id,
         difficulty: Math.round(difficulty * 100) / 100,
-        roi: Math.round(roi * 100) / 100,
+        roi: Math.round(roi * 1000) / 1000,
+        winProbability: odds.winProbability,
         priority,
         recommendation,
         hasHistory: history !== null,
@@ -304,66 +320,31 @@ export class ContestScorer {
   }
 
   /**
-   * Calculates return on investment as prize_value / estimated_time_cost,
-   * weighted by historical success rate when available.
+   * Calculates return on investment as expected value per minute of
+   * entry time. The odds estimate already folds in prize count, entrant
+   * pool, our domain win rate and the entry success rate.
    *
-   * When historical data is present:
-   * - Uses actual domain win values if known
-   * - Applies domain success rate as a probability multiplier (expected value)
-   * - Falls back to type success rate if domain data is insufficient
+   * When the domain has too few entries for its own success rate to be
+   * trusted, the type-level success rate is applied instead.
    */
   private calculateRoi(
-    contest: ScorableContest,
-    difficulty: number,
+    odds: OddsEstimate,
     history?: HistoricalData | null,
   ): number {
-    // Use actual average win value from domain if we have sufficient data
-    let prizeValue = contest.prizeValue ?? 0;
+    let roi = odds.evPerMinute;
+
+    const domainRateUsed =
+      history?.domainSuccessRate != null && history.domainEntryCount >= 10;
     if (
-      history?.domainAvgWinValue != null &&
-      history.domainAvgWinValue > 0 &&
-      prizeValue <= 0
+      history &&
+      !domainRateUsed &&
+      history.typeSuccessRate != null &&
+      history.typeEntryCount >= 10
     ) {
-      prizeValue = history.domainAvgWinValue;
-    }
-
-    if (prizeValue <= 0) {
-      return 0;
-    }
-
-    const baseTimeCost =
-      ESTIMATED_TIME_COSTS[contest.entryMethod] ??
-      ESTIMATED_TIME_COSTS['form'] ??
-      2;
-
-    // Scale time cost by difficulty (harder entries take longer)
-    const adjustedTimeCost = baseTimeCost * (1 + difficulty);
-
-    if (adjustedTimeCost <= 0) {
-      return 0;
-    }
-
-    let rawRoi = prizeValue / adjustedTimeCost;
-
-    // Apply historical success rate as a probability multiplier (expected value).
-    // Only apply if we have meaningful sample size (10+ entries).
-    if (history) {
-      if (
-        history.domainSuccessRate != null &&
-        history.domainEntryCount >= 10
-      ) {
-        // Weight by actual domain success rate
-        rawRoi *= history.domainSuccessRate;
-      } else if (
-        history.typeSuccessRate != null &&
-        history.typeEntryCount >= 10
-      ) {
-        // Fall back to type-level success rate
-        rawRoi *= history.typeSuccessRate;
-      }
+      roi *= history.typeSuccessRate;
     }
 
-    return rawRoi;
+    return roi;
   }
 
   /**
@@ -376,8 +357,9 @@ export class ContestScorer {
     roi: number,
     history?: HistoricalData | null,
   ): number {
-    // Base priority from ROI (log-scale, max 50 points)
-    const roiScore = roi > 0 ? Math.min(50, Math.log10(Math.max(1, roi)) * 20) : 0;
+    // Base priority from expected value per minute (log-scale, max 50 points):
+    // $0.001/min -> 0, $0.01 -> 12.5, $0.1 -> 25, $1 -> 37.5, $10+ -> 50
+    const roiScore = roi > 0 ? Math.min(50, Math.max(0, (Math.log10(roi) + 3) * 12.5)) : 0;
 
     // Ease bonus: easier contests get more points (max 25)
     const easeScore = (1 - difficulty) * 25;
@@ -464,10 +446,10 @@ export class ContestScorer {
 
     // Clear enter conditions
     if (difficulty < 0.7 && legitimacy > 0.5) {
-      if (roi > 10) {
+      if (roi > 0.1) {
         return {
           recommendation: 'enter',
-          reason: 'Good ROI with manageable difficulty and acceptable legitimacy',
+          reason: 'Good expected value per minute with manageable difficulty and acceptable legitimacy',
         };
       }
       return {
@@ -502,6 +484,19 @@ export class ContestScorer {
 // Utilities
 // ---------------------------------------------------------------------------
 
+/**
+ * Maps scorer history onto the odds estimator's domain history.
+ */
+export function toOddsHistory(history: HistoricalData): OddsHistory {
+  return {
+    submittedCount: history.domainSubmittedCount,
+    winCount: history.domainWinCount,
+    successRate: history.domainSuccessRate,
+    attemptCount: history.domainEntryCount,
+    avgWinValue: history.domainAvgWinValue,
+  };
+}
+
 /**
  * Converts a boolean or integer (from SQLite) to a boolean.
  */
@@ -0,0 +1,197 @@
+import type { Job } from 'bullmq';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { closeDb, getDb } from '../db/index.js';
+import { migrate } from '../db/migrate.js';
+import type { QueueManager } from '../queue/queue-manager.js';
+import type { JobListStatus } from '../queue/sqlite-job-store.js';
+import {
+  EntryPlanOptimizer,
+  optimizeEntryPlan,
+  type PlanCandidate,
+  type PlanConstraints,
+  type PlanInputs,
+} from './entry-plan-optimizer.js';
+
+const HOUR_MS = 3_600_000;
+const FROM = new Date('2026-06-10T10:00:00Z');
+const TO = new Date('2026-06-11T00:00:00Z');
+
+const LIMITS: PlanConstraints = {
+  maxEntriesPerDay: 100,
+  maxEntriesPerHour: 20,
+  dailyBudget: 10,
+  browserInstances: 2,
+};
+
+function candidate(id: string, overrides: Partial<PlanCandidate> = {}): PlanCandidate {
+  return {
+    jobId: `job-${id}`,
+    contestId: `contest-${id}`,
+    contestTitle: `Contest ${id}`,
+    profileId: 'profile-1',
+    profileName: 'Pat Doe',
+    opensAt: FROM.toISOString(),
+    deadline: TO.toISOString(),
+    preferredAt: FROM.toISOString(),
+    expectedValue: 1,
+    cost: 0.1,
+    minutes: 2,
+    priority: 50,
+    valued: true,
+    ...overrides,
+  };
+}
+
+function inputs(candidates: PlanCandidate[], overrides: Partial<PlanInputs> = {}): PlanInputs {
+  return {
+    date: '2026-06-10',
+    from: FROM,
+    to: TO,
+    usage: { entries: 0, spent: 0, queued: 0 },
+    entriesPerHour: new Map(),
+    costModel: { captcha: 0, proxy: 0, sms: 0, social: 0, sampleEntries: 0 },
+    candidates,
+    ...overrides,
+  };
+}
+
+const selectedIds = (plan: ReturnType<typeof optimizeEntryPlan>) => plan.selected.map((s) => s.jobId).sort();
+const skippedReasons = (plan: ReturnType<typeof optimizeEntryPlan>) =>
+  Object.fromEntries(plan.skipped.map((s) => [s.jobId, s.reason]));
+
+describe('optimizeEntryPlan', () => {
+  it('leaves out entries that cost more than they are expected to win', () => {
+    const plan = optimizeEntryPlan(
+      inputs([candidate('a'), candidate('b', { expectedValue: 0.05, cost: 0.2 })]),
+      LIMITS,
+    );
+
+    expect(selectedIds(plan)).toEqual(['job-a']);
+    expect(skippedReasons(plan)).toEqual({ 'job-b': 'no_value' });
+  });
+
+  it('keeps the most valuable entries when the daily cap binds', () => {
+    const plan = optimizeEntryPlan(
+      inputs([candidate('low', { expectedValue: 0.5 }), candidate('high', { expectedValue: 5 }), candidate('mid')], {
+        usage: { entries: 98, spent: 0, queued: 0 },
+      }),
+      LIMITS,
+    );
+
+    expect(selectedIds(plan)).toEqual(['job-high', 'job-mid']);
+    expect(skippedReasons(plan)).toEqual({ 'job-low': 'daily_cap' });
+  });
+
+  it('stays within what is left of the daily budget', () => {
+    const plan = optimizeEntryPlan(
+      inputs([candidate('a', { cost: 2, expectedValue: 10 }), candidate('b', { cost: 2, expectedValue: 8 })], {
+        usage: { entries: 0, spent: 7, queued: 0 },
+      }),
+      LIMITS,
+    );
+
+    expect(selectedIds(plan)).toEqual(['job-a']);
+    expect(skippedReasons(plan)).toEqual({ 'job-b': 'budget' });
+    expect(plan.totals.cost).toBe(2);
+  });
+
+  it('counts entries already made or queued in an hour against the hourly cap', () => {
+    const deadline = new Date(FROM.getTime() + HOUR_MS).toISOString();
+    const candidates = ['a', 'b', 'c'].map((id) => candidate(id, { deadline }));
+    const hour = Math.floor(FROM.getTime() / HOUR_MS);
+
+    const fresh = optimizeEntryPlan(inputs(candidates), { ...LIMITS, maxEntriesPerHour: 3 });
+    const seeded = optimizeEntryPlan(
+      inputs(candidates, { entriesPerHour: new Map([[hour, 2]]) }),
+      { ...LIMITS, maxEntriesPerHour: 3 },
+    );
+
+    expect(fresh.selected).toHaveLength(3);
+    expect(seeded.selected).toHaveLength(1);
+    expect(seeded.binding).toEqual({ hourly_cap: 2 });
+  });
+
+  it('moves entries to later hours with room before giving up on them', () => {
+    const plan = optimizeEntryPlan(
+      inputs(['a', 'b'].map((id) => candidate(id))),
+      { ...LIMITS, maxEntriesPerHour: 1 },
+    );
+
+    expect(plan.selected.map((s) => s.startAt)).toEqual(['2026-06-10T10:00:00.000Z', '2026-06-10T11:00:00.000Z']);
+  });
+
+  it('does not run more entries at once than there are browsers', () => {
+    const deadline = new Date(FROM.getTime() + HOUR_MS).toISOString();
+    const plan = optimizeEntryPlan(
+      inputs(['a', 'b', 'c'].map((id) => candidate(id, { minutes: 45, deadline }))),
+      LIMITS,
+    );
+
+    expect(plan.selected.map((s) => s.browser).sort()).toEqual([0, 1]);
+    expect(plan.binding).toEqual({ browser_capacity: 1 });
+  });
+
+  it('skips entries that cannot finish before their deadline', () => {
+    const plan = optimizeEntryPlan(
+      inputs([candidate('a', { minutes: 30, deadline: new Date(FROM.getTime() + 20 * 60_000).toISOString() })]),
+      LIMITS,
+    );
+
+    expect(skippedReasons(plan)).toEqual({ 'job-a': 'deadline' });
+  });
+
+  it('starts entries at their preferred time when it is free', () => {
+    const preferredAt = '2026-06-10T15:30:00.000Z';
+    const plan = optimizeEntryPlan(inputs([candidate('a', { preferredAt })]), LIMITS);
+
+    expect(plan.selected[0]).toMatchObject({ startAt: preferredAt, browser: 0 });
+  });
+});
+
+describe('EntryPlanOptimizer.loadInputs', () => {
+  const job = (id: string, contestId: string, timestamp: number, delay = 0) =>
+    ({ id, data: { contestId, profileId: 'profile-1' }, timestamp, delay }) as unknown as Job;
+
+  function queueWith(jobs: Partial<Record<JobListStatus, Job[]>>): QueueManager {
+    return { listJobs: async (_queue: string, status: JobListStatus) => jobs[status] ?? [] } as unknown as QueueManager;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-06-10T10:15:00Z'));
+    closeDb();
+    migrate(':memory:');
+  });
+
+  afterEach(() => {
+    closeDb();
+    vi.useRealTimers();
+  });
+
+  it('counts waiting and delayed entry jobs against today', async () => {
+    const now = Date.now();
+    const queueManager = queueWith({
+      waiting: [job('manual-1', 'c1', now - 60_000)],
+      delayed: [job('manual-2', 'c2', now, 2 * HOUR_MS), job('recurring-c3-p1-1', 'c3', now, HOUR_MS)],
+    });
+
+    const today = await new EntryPlanOptimizer(getDb()).loadInputs({ queueManager });
+
+    expect(today.usage).toMatchObject({ entries: 2, queued: 2 });
+    expect(today.entriesPerHour.get(Math.floor(now / HOUR_MS))).toBe(1);
+    expect(today.entriesPerHour.get(Math.floor(now / HOUR_MS) + 2)).toBe(1);
+  });
+
+  it('does not charge jobs that run today to a later day', async () => {
+    const now = Date.now();
+    const queueManager = queueWith({
+      waiting: [job('manual-1', 'c1', now - 60_000)],
+      delayed: [job('manual-2', 'c2', now, 2 * HOUR_MS), job('manual-3', 'c3', now, 20 * HOUR_MS)],
+    });
+
+    const tomorrow = await new EntryPlanOptimizer(getDb()).loadInputs({ date: '2026-06-11', queueManager });
+
+    expect(tomorrow.usage).toEqual({ entries: 1, spent: 0, queued: 1 });
+    expect([...tomorrow.entriesPerHour.values()]).toEqual([1]);
+  });
+});
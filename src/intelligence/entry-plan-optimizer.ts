@@ -0,0 +1,571 @@
+/**
+ * Daily entry plan optimizer.
+ *
+ * Picks the day's recurring (contest, profile) entries that maximize
+ * expected value net of cost, subject to:
+ * - the daily and hourly entry caps, counting the entries made and the
+ *   entry jobs already queued
+ * - the daily cost budget, with each entry's cost projected from the
+ *   per-entry averages in the cost log
+ * - browser pool capacity (entries running at once x minutes per entry)
+ * - each entry's window: it must start after the pair becomes eligible
+ *   and finish before the contest resets or ends
+ *
+ * Candidates are taken greedily by net value per unit of the resources
+ * they use, then placed on a minute grid of browser slots, preferring the
+ * spread run time from the entry calendar. Every candidate left out is
+ * returned with the constraint that excluded it, so the plan can be
+ * reviewed and re-run with different limits ("what if the budget were
+ * $20?") without touching the queue.
+ */
+
+import { and, avg, count, gte, inArray, isNotNull } from 'drizzle-orm';
+import { contests, entries } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import { getLogger } from '../shared/logger.js';
+import { QUEUE_NAMES } from '../shared/constants.js';
+import { CostTracker } from '../analytics/cost-tracker.js';
+import type { PerEntryCosts } from '../analytics/types.js';
+import { EntryCalendar, RECURRING_JOB_PREFIX } from '../queue/entry-calendar.js';
+import type { QueueManager } from '../queue/queue-manager.js';
+import type { EntryJobData } from '../queue/workers/entry-worker.js';
+import { calculatePriority } from '../queue/priorities.js';
+import { ContestScorer, toOddsHistory } from './contest-scorer.js';
+import { estimateOdds, ENTRY_COSTS_USD, type OddsEstimate } from './odds-estimator.js';
+
+const log = getLogger('queue', { component: 'entry-plan-optimizer' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ContestRow = typeof contests.$inferSelect;
+
+export interface PlanLoadOptions {
+  date?: string;
+  profileId?: string;
+  /** Counts the entry jobs already queued; without it only made entries count. */
+  queueManager?: QueueManager;
+}
+
+/** An entry job already queued, and when it will run. */
+interface QueuedEntry {
+  jobId: string;
+  contestId: string;
+  runAt: number;
+}
+
+export interface PlanConstraints {
+  maxEntriesPerDay: number;
+  maxEntriesPerHour: number;
+  /** USD available for captcha, proxy, SMS and social costs over the day. */
+  dailyBudget: number;
+  /** Entries that can run at the same time. */
+  browserInstances: number;
+}
+
+/** One entry the plan may include. */
+export interface PlanCandidate {
+  /** Same job ID the recurring entry scheduler queues the entry under. */
+  jobId: string;
+  contestId: string;
+  contestTitle: string;
+  profileId: string;
+  profileName: string;
+  /** Earliest start: when the pair becomes eligible. */
+  opensAt: string;
+  /** Latest finish: the contest's next reset or end, or the end of the day. */
+  deadline: string;
+  /** Start time the entry calendar spread this entry to. */
+  preferredAt: string;
+  /** Expected prize value of the entry, USD; 0 when the prize value is unknown. */
+  expectedValue: number;
+  /** Projected cost of the entry, USD. */
+  cost: number;
+  /** Browser time the entry takes. */
+  minutes: number;
+  /** Composite priority (0-100); orders candidates whose value is unknown. */
+  priority: number;
+  /** False when the contest has no prize value to estimate from. */
+  valued: boolean;
+}
+
+export type PlanSkipReason =
+  | 'no_value'
+  | 'daily_cap'
+  | 'budget'
+  | 'deadline'
+  | 'hourly_cap'
+  | 'browser_capacity';
+
+export interface PlannedSlot extends PlanCandidate {
+  startAt: string;
+  /** 0-based browser the entry runs in. */
+  browser: number;
+}
+
+export interface SkippedCandidate extends PlanCandidate {
+  reason: PlanSkipReason;
+}
+
+export interface PlanTotals {
+  entries: number;
+  expectedValue: number;
+  cost: number;
+  netValue: number;
+  browserMinutes: number;
+}
+
+/** Per-entry cost rates the plan used, by category. */
+export interface PlanCostModel {
+  captcha: number;
+  proxy: number;
+  sms: number;
+  social: number;
+  /** Logged entries the rates were averaged over; 0 means platform defaults. */
+  sampleEntries: number;
+}
+
+export interface DailyEntryPlan {
+  /** UTC day the plan covers, YYYY-MM-DD. */
+  date: string;
+  /** Start of the planned span: the start of the day, or now for today. */
+  from: string;
+  to: string;
+  constraints: PlanConstraints;
+  /**
+   * Entries made and money spent earlier in the day, deducted from the
+   * limits. Includes the entries already queued to run in the span
+   * (`queued`) and their projected cost.
+   */
+  usage: PlanUsage;
+  costModel: PlanCostModel;
+  selected: PlannedSlot[];
+  skipped: SkippedCandidate[];
+  totals: PlanTotals;
+  /** Skipped candidates by reason, showing which constraints bind. */
+  binding: Partial<Record<PlanSkipReason, number>>;
+}
+
+export interface PlanUsage {
+  entries: number;
+  spent: number;
+  queued: number;
+}
+
+/** Candidates for a day, loaded once and reusable across constraint sets. */
+export interface PlanInputs {
+  date: string;
+  from: Date;
+  to: Date;
+  usage: PlanUsage;
+  /**
+   * Entries made or queued in each hour of the span, keyed by hours since
+   * the epoch; they count against the hourly cap.
+   */
+  entriesPerHour: Map<number, number>;
+  costModel: PlanCostModel;
+  candidates: PlanCandidate[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Window of logged costs and entry durations the projections average over. */
+const COST_HISTORY_DAYS = 30;
+
+/** Queued entry jobs read per status when counting what is already queued. */
+const PENDING_JOBS_LIMIT = 1000;
+
+// ---------------------------------------------------------------------------
+// EntryPlanOptimizer
+// ---------------------------------------------------------------------------
+
+export class EntryPlanOptimizer {
+  private readonly db: AppDatabase;
+  private readonly scorer = new ContestScorer();
+  private readonly costTracker = new CostTracker();
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Builds the plan for a UTC day (today when omitted).
+   */
+  async plan(
+    constraints: PlanConstraints,
+    options?: PlanLoadOptions,
+  ): Promise<DailyEntryPlan> {
+    const inputs = await this.loadInputs(options);
+    return optimizeEntryPlan(inputs, constraints);
+  }
+
+  /**
+   * Loads the day's candidates with their value, cost and duration, and
+   * what was already used today. With a queue manager, entry jobs already
+   * queued to run in the span count as used too, except delayed recurring
+   * entries, which are planned again as candidates.
+   */
+  async loadInputs(options?: PlanLoadOptions): Promise<PlanInputs> {
+    const now = new Date();
+    const date = options?.date ?? now.toISOString().slice(0, 10);
+    const dayStart = new Date(`${date}T00:00:00.000Z`);
+    const to = new Date(dayStart.getTime() + DAY_MS);
+    const from = new Date(Math.max(dayStart.getTime(), now.getTime() - (now.getTime() % MINUTE_MS)));
+
+    const historyFrom = new Date(now.getTime() - COST_HISTORY_DAYS * DAY_MS).toISOString();
+    const costModel = toCostModel(
+      await this.costTracker.getPerEntryCosts({ from: historyFrom, to: now.toISOString() }),
+    );
+
+    const usage: PlanUsage = { entries: 0, spent: 0, queued: 0 };
+    const entriesPerHour = new Map<number, number>();
+    if (dayStart.getTime() <= now.getTime()) {
+      usage.entries = this.countEntriesSince(dayStart);
+      usage.spent = await this.costTracker.getTotalCost({
+        from: dayStart.toISOString(),
+        to: now.toISOString(),
+      });
+      const hour = Math.floor(now.getTime() / HOUR_MS);
+      entriesPerHour.set(hour, this.countEntriesSince(new Date(hour * HOUR_MS)));
+    }
+
+    if (from >= to) {
+      return { date, from, to, usage, entriesPerHour, costModel, candidates: [] };
+    }
+
+    const windows = new EntryCalendar(this.db).plan({ from, to, profileId: options?.profileId });
+    const queued = await this.loadQueued(options?.queueManager, from, to, now);
+    const queuedIds = new Set(queued.map((q) => q.jobId));
+    const contestIds = [...new Set([...windows, ...queued].map((w) => w.contestId))];
+    const contestRows = contestIds.length > 0
+      ? this.db.select().from(contests).where(inArray(contests.id, contestIds)).all()
+      : [];
+    const contestsById = new Map(contestRows.map((c) => [c.id, c]));
+    const durations = this.averageDurations(contestIds, historyFrom);
+
+    for (const job of queued) {
+      const contest = contestsById.get(job.contestId);
+      const hour = Math.floor(job.runAt / HOUR_MS);
+      entriesPerHour.set(hour, (entriesPerHour.get(hour) ?? 0) + 1);
+      usage.entries += 1;
+      usage.queued += 1;
+      usage.spent += contest ? projectCost(contest, costModel) : 0;
+    }
+
+    const oddsByContest = new Map<string, OddsEstimate>();
+    const candidates: PlanCandidate[] = [];
+
+    for (const window of windows) {
+      const contest = contestsById.get(window.contestId);
+      if (!contest || queuedIds.has(window.jobId)) continue;
+
+      let odds = oddsByContest.get(contest.id);
+      if (!odds) {
+        odds = await this.estimateOdds(contest);
+        oddsByContest.set(contest.id, odds);
+      }
+
+      const deadline = Math.min(Date.parse(window.closesAt), to.getTime());
+      candidates.push({
+        jobId: window.jobId,
+        contestId: contest.id,
+        contestTitle: contest.title,
+        profileId: window.profileId,
+        profileName: window.profileName,
+        opensAt: window.opensAt,
+        deadline: new Date(deadline).toISOString(),
+        preferredAt: window.runAt,
+        expectedValue: odds.expectedValue,
+        cost: projectCost(contest, costModel),
+        minutes: durations.get(contest.id) ?? odds.minutesPerEntry,
+        priority: calculatePriority({ ...contest, odds }),
+        valued: (contest.prizeValue ?? 0) > 0 || (contest.prizePoolValue ?? 0) > 0,
+      });
+    }
+
+    return { date, from, to, usage, entriesPerHour, costModel, candidates };
+  }
+
+  private countEntriesSince(since: Date): number {
+    return this.db
+      .select({ total: count() })
+      .from(entries)
+      .where(gte(entries.createdAt, since.toISOString()))
+      .get()?.total ?? 0;
+  }
+
+  /**
+   * Entry jobs queued to run between `from` and `to` that the plan must
+   * leave room for: waiting jobs, which run as soon as a worker is free
+   * and so only count when the span starts now, and delayed jobs other
+   * than recurring entries, at their run time. Delayed recurring entries
+   * are candidates again, so a new plan can move or drop them.
+   */
+  private async loadQueued(
+    queueManager: QueueManager | undefined,
+    from: Date,
+    to: Date,
+    now: Date,
+  ): Promise<QueuedEntry[]> {
+    if (!queueManager) return [];
+
+    const startsNow = from.getTime() <= now.getTime();
+    const [waiting, delayed] = await Promise.all([
+      startsNow ? queueManager.listJobs(QUEUE_NAMES.ENTRY, 'waiting', PENDING_JOBS_LIMIT) : [],
+      queueManager.listJobs(QUEUE_NAMES.ENTRY, 'delayed', PENDING_JOBS_LIMIT),
+    ]);
+
+    const queued: QueuedEntry[] = waiting.map((job) => ({
+      jobId: job.id ?? '',
+      contestId: (job.data as EntryJobData).contestId,
+      runAt: from.getTime(),
+    }));
+
+    for (const job of delayed) {
+      if (job.id?.startsWith(RECURRING_JOB_PREFIX)) continue;
+      const runAt = job.timestamp + (job.delay ?? 0);
+      if (runAt < from.getTime() || runAt >= to.getTime()) continue;
+      queued.push({ jobId: job.id ?? '', contestId: (job.data as EntryJobData).contestId, runAt });
+    }
+    return queued;
+  }
+
+  /**
+   * Average minutes per submitted entry for each contest, from recent
+   * entries that recorded a duration.
+   */
+  private averageDurations(contestIds: string[], since: string): Map<string, number> {
+    if (contestIds.length === 0) return new Map();
+
+    const rows = this.db
+      .select({ contestId: entries.contestId, avgMs: avg(entries.durationMs) })
+      .from(entries)
+      .where(
+        and(
+          inArray(entries.contestId, contestIds),
+          isNotNull(entries.durationMs),
+          gte(entries.createdAt, since),
+        ),
+      )
+      .groupBy(entries.contestId)
+      .all();
+
+    const result = new Map<string, number>();
+    for (const row of rows) {
+      const avgMs = Number(row.avgMs);
+      if (avgMs > 0) result.set(row.contestId, avgMs / MINUTE_MS);
+    }
+    return result;
+  }
+
+  private async estimateOdds(contest: ContestRow): Promise<OddsEstimate> {
+    try {
+      const history = await this.scorer.fetchHistoricalData(contest);
+      return estimateOdds(contest, toOddsHistory(history));
+    } catch (err) {
+      log.warn({ err, contestId: contest.id }, 'Failed to fetch historical data for odds');
+      return estimateOdds(contest);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Optimization
+// ---------------------------------------------------------------------------
+
+/**
+ * Chooses and schedules entries from `inputs` under `constraints`.
+ * Deterministic for the same inputs, so plans for different constraint
+ * sets can be compared entry by entry.
+ */
+export function optimizeEntryPlan(inputs: PlanInputs, constraints: PlanConstraints): DailyEntryPlan {
+  const { from, to } = inputs;
+  const remainingEntries = Math.max(0, constraints.maxEntriesPerDay - inputs.usage.entries);
+  const remainingBudget = Math.max(0, constraints.dailyBudget - inputs.usage.spent);
+  const spanMinutes = Math.max(0, Math.floor((to.getTime() - from.getTime()) / MINUTE_MS));
+  const browsers = Math.max(1, constraints.browserInstances);
+
+  const grid = new SlotGrid(from, spanMinutes, browsers, constraints.maxEntriesPerHour, inputs.entriesPerHour);
+  const selected: PlannedSlot[] = [];
+  const skipped: SkippedCandidate[] = [];
+  let budgetLeft = remainingBudget;
+
+  for (const candidate of rankCandidates(inputs.candidates, {
+    budget: remainingBudget,
+    entries: remainingEntries,
+    browserMinutes: spanMinutes * browsers,
+  })) {
+    if (candidate.valued && candidate.expectedValue < candidate.cost) {
+      skipped.push({ ...candidate, reason: 'no_value' });
+    } else if (selected.length >= remainingEntries) {
+      skipped.push({ ...candidate, reason: 'daily_cap' });
+    } else if (candidate.cost > budgetLeft) {
+      skipped.push({ ...candidate, reason: 'budget' });
+    } else {
+      const slot = grid.place(candidate);
+      if ('reason' in slot) {
+        skipped.push({ ...candidate, reason: slot.reason });
+      } else {
+        selected.push({ ...candidate, startAt: slot.startAt.toISOString(), browser: slot.browser });
+        budgetLeft -= candidate.cost;
+      }
+    }
+  }
+
+  selected.sort((a, b) => a.startAt.localeCompare(b.startAt) || a.jobId.localeCompare(b.jobId));
+
+  const expectedValue = selected.reduce((sum, s) => sum + s.expectedValue, 0);
+  const cost = selected.reduce((sum, s) => sum + s.cost, 0);
+  const binding: Partial<Record<PlanSkipReason, number>> = {};
+  for (const { reason } of skipped) {
+    binding[reason] = (binding[reason] ?? 0) + 1;
+  }
+
+  return {
+    date: inputs.date,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    constraints,
+    usage: inputs.usage,
+    costModel: inputs.costModel,
+    selected,
+    skipped,
+    totals: {
+      entries: selected.length,
+      expectedValue,
+      cost,
+      netValue: expectedValue - cost,
+      browserMinutes: selected.reduce((sum, s) => sum + Math.ceil(s.minutes), 0),
+    },
+    binding,
+  };
+}
+
+/**
+ * Orders candidates by net value per unit of scarce resource used. Each
+ * resource's use is taken as a share of what is left of it, so whichever
+ * limit is tightest dominates the ranking. Candidates whose value is
+ * unknown go last, by priority.
+ */
+function rankCandidates(
+  candidates: PlanCandidate[],
+  capacity: { budget: number; entries: number; browserMinutes: number },
+): PlanCandidate[] {
+  const weight = (c: PlanCandidate): number =>
+    (capacity.budget > 0 ? c.cost / capacity.budget : 0) +
+    (capacity.entries > 0 ? 1 / capacity.entries : 0) +
+    (capacity.browserMinutes > 0 ? c.minutes / capacity.browserMinutes : 0);
+  const density = (c: PlanCandidate): number =>
+    (c.expectedValue - c.cost) / Math.max(weight(c), Number.EPSILON);
+
+  return [...candidates].sort((a, b) => {
+    if (a.valued !== b.valued) return a.valued ? -1 : 1;
+    const byValue = a.valued ? density(b) - density(a) : b.priority - a.priority;
+    return byValue || a.deadline.localeCompare(b.deadline) || a.jobId.localeCompare(b.jobId);
+  });
+}
+
+/**
+ * Minute-by-minute occupancy of the browser pool, with per-hour counts
+ * for the hourly entry cap.
+ */
+class SlotGrid {
+  private readonly busy: Uint8Array[];
+  private readonly perHour: Map<number, number>;
+
+  constructor(
+    private readonly from: Date,
+    private readonly minutes: number,
+    browsers: number,
+    private readonly maxPerHour: number,
+    used: Map<number, number>,
+  ) {
+    this.busy = Array.from({ length: browsers }, () => new Uint8Array(minutes));
+    this.perHour = new Map(used);
+  }
+
+  /**
+   * Places a candidate at its preferred time or the nearest later free
+   * slot, falling back to earlier slots in its window.
+   */
+  place(
+    candidate: PlanCandidate,
+  ): { startAt: Date; browser: number } | { reason: PlanSkipReason } {
+    const duration = Math.max(1, Math.ceil(candidate.minutes));
+    const earliest = Math.max(0, this.offsetOf(Date.parse(candidate.opensAt), 'ceil'));
+    const latest = Math.min(this.minutes, this.offsetOf(Date.parse(candidate.deadline), 'floor')) - duration;
+    if (latest < earliest) {
+      return { reason: 'deadline' };
+    }
+
+    const preferred = Math.min(
+      latest,
+      Math.max(earliest, this.offsetOf(Date.parse(candidate.preferredAt), 'ceil')),
+    );
+
+    let hourBlocked = false;
+    for (const [start, end] of [[preferred, latest], [earliest, preferred - 1]] as const) {
+      for (let t = start; t <= end; t++) {
+        const hour = this.hourOf(t);
+        if ((this.perHour.get(hour) ?? 0) >= this.maxPerHour) {
+          hourBlocked = true;
+          continue;
+        }
+
+        const browser = this.busy.findIndex((slots) => isFree(slots, t, duration));
+        if (browser >= 0) {
+          this.busy[browser]!.fill(1, t, t + duration);
+          this.perHour.set(hour, (this.perHour.get(hour) ?? 0) + 1);
+          return { startAt: new Date(this.from.getTime() + t * MINUTE_MS), browser };
+        }
+      }
+    }
+
+    return { reason: hourBlocked ? 'hourly_cap' : 'browser_capacity' };
+  }
+
+  private offsetOf(ms: number, round: 'ceil' | 'floor'): number {
+    return Math[round]((ms - this.from.getTime()) / MINUTE_MS);
+  }
+
+  private hourOf(offset: number): number {
+    return Math.floor((this.from.getTime() + offset * MINUTE_MS) / HOUR_MS);
+  }
+}
+
+function isFree(slots: Uint8Array, start: number, duration: number): boolean {
+  for (let i = start; i < start + duration; i++) {
+    if (slots[i]) return false;
+  }
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Cost projection
+// ---------------------------------------------------------------------------
+
+/** Observed per-entry averages, with platform defaults where nothing was logged. */
+function toCostModel(costs: PerEntryCosts): PlanCostModel {
+  return {
+    captcha: costs.captcha ?? ENTRY_COSTS_USD.captcha,
+    proxy: costs.proxy ?? ENTRY_COSTS_USD.proxy,
+    sms: costs.sms ?? ENTRY_COSTS_USD.sms,
+    social: costs.social ?? ENTRY_COSTS_USD.social,
+    sampleEntries: costs.sampleEntries,
+  };
+}
+
+function projectCost(contest: ContestRow, model: PlanCostModel): number {
+  let cost = model.proxy;
+  if (contest.requiresCaptcha) cost += model.captcha;
+  if (contest.requiresSmsVerify) cost += model.sms;
+  if (contest.requiresSocialAction) cost += model.social;
+  return cost;
+}
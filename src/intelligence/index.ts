@@ -1,16 +1,38 @@
 /**
  * Intelligence module public API.
  *
- * Re-exports the contest scorer, priority engine, pattern learner,
- * and change detector for use by the rest of the application.
+ * Re-exports the contest scorer, odds estimator, prize tables, priority
+ * engine, entry plan optimizer, pattern learner, and change detector for
+ * use by the rest of the application.
  */
 
-export { ContestScorer } from './contest-scorer.js';
+export { ContestScorer, toOddsHistory } from './contest-scorer.js';
 export type { ScorableContest, ContestScore, HistoricalData } from './contest-scorer.js';
 
+export { estimateOdds, classifySponsor, parsePrizeCount } from './odds-estimator.js';
+export type { OddsContest, OddsHistory, OddsEstimate, OddsInput, SponsorReach } from './odds-estimator.js';
+
+export { PrizeTableStore } from './prize-table.js';
+export type { ContestPrize, ContestPrizeTable, PrizeTableSource, ReplacePrizesResult } from './prize-table.js';
+
 export { PriorityEngine } from './priority-engine.js';
 export type { RankedContest } from './priority-engine.js';
 
+export { EntryPlanOptimizer, optimizeEntryPlan } from './entry-plan-optimizer.js';
+export type {
+  PlanConstraints,
+  PlanCandidate,
+  PlanSkipReason,
+  PlannedSlot,
+  SkippedCandidate,
+  PlanTotals,
+  PlanCostModel,
+  DailyEntryPlan,
+  PlanUsage,
+  PlanInputs,
+  PlanLoadOptions,
+} from './entry-plan-optimizer.js';
+
 export { PatternLearner } from './pattern-learner.js';
 
 export { ChangeDetector } from './change-detector.js';
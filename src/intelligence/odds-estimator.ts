@@ -0,0 +1,419 @@
+/**
+ * Odds and expected-value estimation for contests.
+ *
+ * Raw prize value is a poor ranking signal: a $50,000 car listed on
+ * every aggregator draws millions of entries while a local $200
+ * giveaway may draw a few hundred. This module estimates the total
+ * entry pool from the signals we have (prize size, number of prizes,
+ * sponsor reach, where the contest was listed, entry frequency and time
+ * remaining), blends in our own win history for the domain, and turns
+ * the result into expected value per entry, per minute and per dollar.
+ *
+ * When the contest has a prize table, expected value is taken over the
+ * whole table (every tier's ARV x quantity) rather than the grand prize
+ * alone; without one, the prize count is read from the description.
+ *
+ * The model is deliberately simple and every input is returned with the
+ * estimate so the UI can show why a contest ranks where it does.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Contest fields the estimator reads. All but prizeValue are optional. */
+export interface OddsContest {
+  title?: string | null;
+  url?: string | null;
+  sponsor?: string | null;
+  source?: string | null;
+  /** Headline (top single prize) value; drives the entrant estimate. */
+  prizeValue: number | null;
+  /** Total prizes in the prize table, null when there is no table. */
+  prizeCount?: number | null;
+  /** Sum of ARV x quantity over the prize table. */
+  prizePoolValue?: number | null;
+  prizeDescription?: string | null;
+  description?: string | null;
+  entryMethod?: string | null;
+  entryFrequency?: string | null;
+  endDate?: string | Date | null;
+  difficultyScore?: number | null;
+  requiresCaptcha?: boolean | number | null;
+  requiresSmsVerify?: boolean | number | null;
+  requiresSocialAction?: boolean | number | null;
+}
+
+/** Our own track record on the contest's domain. */
+export interface OddsHistory {
+  /** Entries that were actually submitted on this domain. */
+  submittedCount: number;
+  /** Wins recorded for contests on this domain. */
+  winCount: number;
+  /** Share of attempted entries that got submitted (0-1), null if unknown. */
+  successRate: number | null;
+  /** Attempted entries behind successRate. */
+  attemptCount: number;
+  /** Average value of past wins on this domain, null if none. */
+  avgWinValue: number | null;
+}
+
+export type SponsorReach = 'national' | 'regional' | 'local' | 'unknown';
+
+export interface OddsInput {
+  key: string;
+  label: string;
+  value: string;
+  /** How the input moved the estimate, e.g. "x2.5 entrants". */
+  effect: string;
+}
+
+export interface OddsEstimate {
+  /** Probability that one of our entries wins a prize. */
+  winProbability: number;
+  /** Estimated entries in the whole drawing. */
+  estimatedEntries: number;
+  prizeCount: number;
+  /** Headline prize value used for the estimate (may come from history). */
+  prizeValue: number;
+  /** Total value of all prizes the estimate spreads over the drawing. */
+  prizePoolValue: number;
+  /** Expected prize value of a single entry, in USD. */
+  expectedValue: number;
+  minutesPerEntry: number;
+  costPerEntry: number;
+  evPerMinute: number;
+  evPerDollar: number;
+  confidence: 'low' | 'medium' | 'high';
+  inputs: OddsInput[];
+}
+
+// ---------------------------------------------------------------------------
+// Model constants
+// ---------------------------------------------------------------------------
+
+/** Entrants ~= ENTRANTS_SCALE * prizeValue ^ ENTRANTS_EXPONENT before multipliers. */
+const ENTRANTS_SCALE = 120;
+const ENTRANTS_EXPONENT = 0.7;
+const MIN_ENTRANTS = 25;
+
+/** Contest length assumed when the end date is unknown. */
+const DEFAULT_DAYS_REMAINING = 30;
+
+/** Pseudo-entries given to the model when blending in our observed win rate. */
+const HISTORY_PRIOR_WEIGHT = 50;
+
+/** Attempts needed before the domain success rate is trusted. */
+const MIN_ATTEMPTS_FOR_SUCCESS_RATE = 10;
+
+const SPONSOR_MULTIPLIERS: Record<SponsorReach, number> = {
+  national: 2.5,
+  regional: 1,
+  local: 0.35,
+  unknown: 1,
+};
+
+/** Aggregators with large audiences; contests listed there draw more entrants. */
+const HIGH_TRAFFIC_SOURCES = [
+  'sweepstakesadvantage',
+  'onlinesweepstakes',
+  'contestgirl',
+  'sweetiessweeps',
+  'ilovegiveaways',
+  'sweepstakesfanatics',
+];
+
+const SOURCE_MULTIPLIERS = {
+  highTraffic: 1.5,
+  listed: 1,
+  direct: 0.6,
+};
+
+const NATIONAL_SPONSORS = [
+  'amazon', 'walmart', 'target', 'coca-cola', 'coca cola', 'pepsi', 'pepsico',
+  'procter', 'unilever', 'nestle', 'kraft', 'general mills', 'kellogg',
+  'hgtv', 'food network', 'nbc', 'cbs', 'abc', 'espn', 'disney', 'netflix',
+  'ford', 'toyota', 'chevrolet', 'honda', 'nissan', 'samsung', 'apple', 'sony',
+  'microsoft', 'google', 'mcdonald', 'starbucks', 'home depot', "lowe's", 'lowes',
+  'best buy', 'costco', 'kroger', 'publishers clearing house', 'pch', 'nfl', 'nba', 'mlb',
+];
+
+const LOCAL_SPONSOR_PATTERN =
+  /\b(?:local|boutique|bakery|salon|blog|podcast|etsy|shop|studio|cafe|farm|church|chamber of commerce|radio|[A-Z][a-z]+ (?:county|city))\b/i;
+
+const REGIONAL_SPONSOR_PATTERN = /\b(?:inc|corp|corporation|company|brands|group|holdings)\b\.?/i;
+
+/** Estimated time cost per entry in minutes, by entry method. */
+export const ESTIMATED_TIME_COSTS: Record<string, number> = {
+  form: 2,
+  social: 3,
+  email: 1.5,
+  purchase: 10,
+  multi: 5,
+};
+
+/** Marginal USD cost per entry of paid services. */
+export const ENTRY_COSTS_USD = {
+  proxy: 0.002,
+  captcha: 0.003,
+  sms: 0.05,
+  social: 0.01,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, twelve: 12, fifteen: 15, twenty: 20, fifty: 50, hundred: 100,
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Estimates the odds and expected value of one entry into a contest.
+ */
+export function estimateOdds(
+  contest: OddsContest,
+  history: OddsHistory | null = null,
+  now: Date = new Date(),
+): OddsEstimate {
+  const inputs: OddsInput[] = [];
+
+  // ---------- Prize value ----------
+  let prizeValue = contest.prizeValue ?? 0;
+  if (prizeValue <= 0 && history?.avgWinValue) {
+    prizeValue = history.avgWinValue;
+    inputs.push({
+      key: 'prizeValue',
+      label: 'Prize value',
+      value: `$${Math.round(prizeValue)}`,
+      effect: 'Average of past wins on this domain',
+    });
+  } else {
+    inputs.push({
+      key: 'prizeValue',
+      label: 'Prize value',
+      value: prizeValue > 0 ? `$${Math.round(prizeValue)}` : 'unknown',
+      effect: prizeValue > 0 ? 'Bigger prizes draw more entrants' : 'No value, expected value is 0',
+    });
+  }
+
+  // ---------- Entrant pool ----------
+  let entrants = Math.max(MIN_ENTRANTS, ENTRANTS_SCALE * Math.pow(Math.max(prizeValue, 1), ENTRANTS_EXPONENT));
+
+  const reach = classifySponsor(contest.sponsor ?? null);
+  entrants *= SPONSOR_MULTIPLIERS[reach];
+  inputs.push({
+    key: 'sponsor',
+    label: 'Sponsor reach',
+    value: contest.sponsor ? `${contest.sponsor} (${reach})` : 'unknown',
+    effect: `x${SPONSOR_MULTIPLIERS[reach]} entrants`,
+  });
+
+  const sourceMultiplier = sourcePopularity(contest.source ?? null);
+  entrants *= sourceMultiplier;
+  inputs.push({
+    key: 'source',
+    label: 'Listed on',
+    value: contest.source ?? 'direct',
+    effect: `x${sourceMultiplier} entrants`,
+  });
+
+  const daysRemaining = remainingDays(contest.endDate ?? null, now);
+  const days = daysRemaining ?? DEFAULT_DAYS_REMAINING;
+  const durationFactor = clamp(days / DEFAULT_DAYS_REMAINING, 0.25, 3);
+  entrants *= durationFactor;
+  inputs.push({
+    key: 'daysRemaining',
+    label: 'Days remaining',
+    value: daysRemaining === null ? `unknown (assumed ${DEFAULT_DAYS_REMAINING})` : String(Math.round(daysRemaining)),
+    effect: `x${round(durationFactor, 2)} entrants`,
+  });
+
+  const frequency = contest.entryFrequency ?? 'once';
+  const entriesPerEntrant = entriesPerEntrantFor(frequency, days);
+  inputs.push({
+    key: 'entryFrequency',
+    label: 'Entry frequency',
+    value: frequency,
+    effect: `~${round(entriesPerEntrant, 1)} entries per entrant`,
+  });
+
+  const estimatedEntries = Math.round(entrants * entriesPerEntrant);
+
+  // ---------- Win probability ----------
+  const hasPrizeTable = (contest.prizeCount ?? 0) > 0;
+  const { count: prizeCount, parsed: prizeCountParsed } = hasPrizeTable
+    ? { count: contest.prizeCount!, parsed: true }
+    : parsePrizeCount(
+        [contest.prizeDescription, contest.description, contest.title].filter(Boolean).join(' '),
+      );
+  inputs.push({
+    key: 'prizeCount',
+    label: 'Number of prizes',
+    value: String(prizeCount),
+    effect: hasPrizeTable
+      ? `From prize table, x${prizeCount} win chance`
+      : prizeCountParsed ? `x${prizeCount} win chance` : 'Not stated, assumed 1',
+  });
+
+  // Without a table, every prize is assumed to be worth the headline value
+  const prizePoolValue = hasPrizeTable && (contest.prizePoolValue ?? 0) > 0
+    ? contest.prizePoolValue!
+    : prizeValue * prizeCount;
+  const averagePrizeValue = prizeCount > 0 ? prizePoolValue / prizeCount : 0;
+  if (hasPrizeTable && (contest.prizePoolValue ?? 0) > 0) {
+    inputs.push({
+      key: 'prizePool',
+      label: 'Prize pool',
+      value: `$${Math.round(prizePoolValue)} over ${prizeCount} prizes`,
+      effect: `Average prize $${round(averagePrizeValue, 2)}`,
+    });
+  }
+
+  let winProbability = Math.min(1, prizeCount / Math.max(1, estimatedEntries));
+
+  if (history && history.submittedCount > 0) {
+    const observed = history.winCount / history.submittedCount;
+    const weight = history.submittedCount / (history.submittedCount + HISTORY_PRIOR_WEIGHT);
+    winProbability = (1 - weight) * winProbability + weight * observed;
+    inputs.push({
+      key: 'historicalWinRate',
+      label: 'Our win rate on this domain',
+      value: `${history.winCount}/${history.submittedCount}`,
+      effect: `${Math.round(weight * 100)}% weight in the estimate`,
+    });
+  }
+
+  let submitRate = 1;
+  if (history?.successRate != null && history.attemptCount >= MIN_ATTEMPTS_FOR_SUCCESS_RATE) {
+    submitRate = history.successRate;
+    inputs.push({
+      key: 'submitRate',
+      label: 'Entry success rate',
+      value: `${Math.round(submitRate * 100)}%`,
+      effect: `x${round(submitRate, 2)} expected value`,
+    });
+  }
+
+  const expectedValue = averagePrizeValue * winProbability * submitRate;
+
+  // ---------- Cost ----------
+  const difficulty = contest.difficultyScore ?? 0;
+  const baseMinutes = ESTIMATED_TIME_COSTS[contest.entryMethod ?? 'form'] ?? ESTIMATED_TIME_COSTS['form'] ?? 2;
+  const minutesPerEntry = baseMinutes * (1 + difficulty);
+
+  let costPerEntry = ENTRY_COSTS_USD.proxy;
+  if (toBool(contest.requiresCaptcha)) costPerEntry += ENTRY_COSTS_USD.captcha;
+  if (toBool(contest.requiresSmsVerify)) costPerEntry += ENTRY_COSTS_USD.sms;
+  if (toBool(contest.requiresSocialAction)) costPerEntry += ENTRY_COSTS_USD.social;
+
+  const confidence: OddsEstimate['confidence'] =
+    history && history.submittedCount >= HISTORY_PRIOR_WEIGHT
+      ? 'high'
+      : prizeValue > 0 && (prizeCountParsed || reach !== 'unknown')
+        ? 'medium'
+        : 'low';
+
+  return {
+    winProbability,
+    estimatedEntries,
+    prizeCount,
+    prizeValue,
+    prizePoolValue,
+    expectedValue,
+    minutesPerEntry: round(minutesPerEntry, 2),
+    costPerEntry: round(costPerEntry, 4),
+    evPerMinute: expectedValue / minutesPerEntry,
+    evPerDollar: expectedValue / costPerEntry,
+    confidence,
+    inputs,
+  };
+}
+
+/**
+ * Reads the number of prizes from text such as "10 winners" or
+ * "one of fifty prizes". Defaults to 1.
+ */
+export function parsePrizeCount(text: string): { count: number; parsed: boolean } {
+  const number = String.raw`(\d[\d,]*|${Object.keys(NUMBER_WORDS).join('|')})`;
+  const patterns = [
+    new RegExp(String.raw`\b${number}\s+(?:lucky\s+|total\s+|grand\s+|first\s+|\(\d+\)\s+)?(?:winners|prizes|prize packs|prize packages)\b`, 'i'),
+    new RegExp(String.raw`\bone\s+of\s+${number}\b`, 'i'),
+    new RegExp(String.raw`\b${number}\s+\w+\s+(?:will|to)\s+(?:be\s+)?(?:won|awarded|given away)\b`, 'i'),
+  ];
+
+  for (const pattern of patterns) {
+    const raw = text.match(pattern)?.[1];
+    if (!raw) continue;
+    const value = NUMBER_WORDS[raw.toLowerCase()] ?? Number(raw.replace(/,/g, ''));
+    if (Number.isFinite(value) && value >= 1 && value <= 100_000) {
+      return { count: value, parsed: true };
+    }
+  }
+
+  return { count: 1, parsed: false };
+}
+
+/**
+ * Rough reach of a sponsor, from a list of national brands and wording.
+ */
+export function classifySponsor(sponsor: string | null): SponsorReach {
+  if (!sponsor?.trim()) return 'unknown';
+  const lower = sponsor.toLowerCase();
+  if (NATIONAL_SPONSORS.some((name) => lower.includes(name))) return 'national';
+  if (LOCAL_SPONSOR_PATTERN.test(sponsor)) return 'local';
+  if (REGIONAL_SPONSOR_PATTERN.test(sponsor)) return 'regional';
+  return 'unknown';
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sourcePopularity(source: string | null): number {
+  if (!source || source === 'manual') return SOURCE_MULTIPLIERS.direct;
+  const compact = source.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return HIGH_TRAFFIC_SOURCES.some((s) => compact.includes(s))
+    ? SOURCE_MULTIPLIERS.highTraffic
+    : SOURCE_MULTIPLIERS.listed;
+}
+
+/**
+ * Average entries each entrant submits over the rest of the contest.
+ * Recurring entrants do not enter every single period.
+ */
+function entriesPerEntrantFor(frequency: string, days: number): number {
+  switch (frequency) {
+    case 'daily':
+      return Math.max(1, days * 0.3);
+    case 'weekly':
+      return Math.max(1, (days / 7) * 0.5);
+    case 'unlimited':
+      return 10;
+    default:
+      return 1;
+  }
+}
+
+function remainingDays(endDate: string | Date | null, now: Date): number | null {
+  if (!endDate) return null;
+  const endMs = endDate instanceof Date ? endDate.getTime() : new Date(endDate).getTime();
+  if (isNaN(endMs)) return null;
+  return Math.max(0, (endMs - now.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toBool(value: boolean | number | null | undefined): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  return false;
+}
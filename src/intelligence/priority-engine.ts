@@ -10,6 +10,7 @@ import { getLogger } from '../shared/logger.js';
 import { getDb, schema } from '../db/index.js';
 import { calculatePriority } from '../queue/priorities.js';
 import { ContestScorer } from './contest-scorer.js';
+import type { OddsEstimate } from './odds-estimator.js';
 
 const log = getLogger('queue', { component: 'priority-engine' });
 
@@ -35,6 +36,8 @@ export interface RankedContest {
   score: number;
   /** Human-readable reason for this ranking. */
   reason: string;
+  /** Win odds and expected value behind the score. */
+  odds: OddsEstimate;
 }
 
 // ---------------------------------------------------------------------------
@@ -61,6 +64,8 @@ export class PriorityEngine {
       title: string;
       type: string;
       prizeValue: number | null;
+      prizeCount?: number | null;
+      prizePoolValue?: number | null;
       prizeDescription?: string | null;
       entryMethod: string;
       endDate: string | null;
@@ -68,6 +73,9 @@ export class PriorityEngine {
       difficultyScore: number | null;
       legitimacyScore: number | null;
       status: string;
+      sponsor?: string | null;
+      source?: string | null;
+      description?: string | null;
       requiresCaptcha?: number | null;
       requiresEmailConfirm?: number | null;
       requiresSmsVerify?: number | null;
@@ -75,30 +83,38 @@ export class PriorityEngine {
     }>,
   ): RankedContest[] {
     const scored = contests.map((contest) => {
-      // Calculate queue priority
-      const queuePriority = calculatePriority({
-        id: contest.id,
-        prizeValue: contest.prizeValue,
-        endDate: contest.endDate,
-        entryFrequency: contest.entryFrequency,
-        difficultyScore: contest.difficultyScore,
-        legitimacyScore: contest.legitimacyScore,
-        type: contest.type,
-      });
-
-      // Calculate contest score for recommendation
+      // Calculate contest score for recommendation and odds
       const contestScore = this.scorer.score({
         id: contest.id,
         url: contest.url,
         title: contest.title,
         type: contest.type,
         prizeValue: contest.prizeValue,
+        prizeCount: contest.prizeCount,
+        prizePoolValue: contest.prizePoolValue,
         entryMethod: contest.entryMethod,
         legitimacyScore: contest.legitimacyScore,
         requiresCaptcha: contest.requiresCaptcha ?? 0,
         requiresEmailConfirm: contest.requiresEmailConfirm ?? 0,
         requiresSmsVerify: contest.requiresSmsVerify ?? 0,
         requiresSocialAction: contest.requiresSocialAction ?? 0,
+        sponsor: contest.sponsor,
+        source: contest.source,
+        description: contest.description,
+        entryFrequency: contest.entryFrequency,
+        endDate: contest.endDate,
+      });
+
+      // Calculate queue priority from the same odds estimate
+      const queuePriority = calculatePriority({
+        id: contest.id,
+        prizeValue: contest.prizeValue,
+        endDate: contest.endDate,
+        entryFrequency: contest.entryFrequency,
+        difficultyScore: contest.difficultyScore,
+        legitimacyScore: contest.legitimacyScore,
+        type: contest.type,
+        odds: contestScore.odds,
       });
 
       // Combine queue priority and contest score
@@ -121,6 +137,7 @@ export class PriorityEngine {
         score: compositeScore,
         reason: contestScore.reason,
         recommendation: contestScore.recommendation,
+        odds: contestScore.odds,
       };
     });
 
@@ -156,6 +173,7 @@ export class PriorityEngine {
         rank: index + 1,
         score: contest.score,
         reason: contest.reason,
+        odds: contest.odds,
       }));
   }
 
@@ -193,28 +211,37 @@ export class PriorityEngine {
     // rates, then combine with queue priority.
     const scored = await Promise.all(
       contests.map(async (contest) => {
-        const queuePriority = calculatePriority({
-          id: contest.id,
-          prizeValue: contest.prizeValue,
-          endDate: contest.endDate,
-          entryFrequency: contest.entryFrequency,
-          difficultyScore: contest.difficultyScore,
-          legitimacyScore: contest.legitimacyScore,
-          type: contest.type,
-        });
-
         const contestScore = await this.scorer.scoreWithHistory({
           id: contest.id,
           url: contest.url,
           title: contest.title,
           type: contest.type,
           prizeValue: contest.prizeValue,
+          prizeCount: contest.prizeCount,
+          prizePoolValue: contest.prizePoolValue,
           entryMethod: contest.entryMethod,
           legitimacyScore: contest.legitimacyScore,
           requiresCaptcha: contest.requiresCaptcha ?? 0,
           requiresEmailConfirm: contest.requiresEmailConfirm ?? 0,
           requiresSmsVerify: contest.requiresSmsVerify ?? 0,
           requiresSocialAction: contest.requiresSocialAction ?? 0,
+          sponsor: contest.sponsor,
+          source: contest.source,
+          description: contest.description,
+          entryFrequency: contest.entryFrequency,
+          endDate: contest.endDate,
+        });
+
+        // Queue priority reuses the history-aware odds from the scorer
+        const queuePriority = calculatePriority({
+          id: contest.id,
+          prizeValue: contest.prizeValue,
+          endDate: contest.endDate,
+          entryFrequency: contest.entryFrequency,
+          difficultyScore: contest.difficultyScore,
+          legitimacyScore: contest.legitimacyScore,
+          type: contest.type,
+          odds: contestScore.odds,
         });
 
         const compositeScore = Math.round(
@@ -236,6 +263,7 @@ export class PriorityEngine {
           score: compositeScore,
           reason: contestScore.reason,
           recommendation: contestScore.recommendation,
+          odds: contestScore.odds,
         };
       }),
     );
@@ -271,6 +299,7 @@ export class PriorityEngine {
         rank: index + 1,
         score: contest.score,
         reason: contest.reason,
+        odds: contest.odds,
       }));
 
     // Return the top N
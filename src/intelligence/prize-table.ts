@@ -0,0 +1,170 @@
+/**
+ * Per-contest prize tables.
+ *
+ * A contest's prizes are stored as tiers in contest_prizes (grand prize,
+ * first prizes x 10, an instant-win pool, ...). Whenever the table is
+ * replaced, the aggregate columns on the contest row are refreshed:
+ *
+ * - prize_count: total number of prizes
+ * - prize_pool_value: sum of ARV x quantity
+ * - prize_value: the top single prize, kept as the headline value
+ *
+ * The odds estimator, scorer and analytics read the aggregates, so
+ * scoring does not need a join per contest.
+ *
+ * Tables come from three sources. A table only replaces one of equal or
+ * lower precedence (manual > rules > page), so a rules-derived table is
+ * not overwritten by a rough parse of the landing page.
+ */
+
+import { asc, eq } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { generateId } from '../shared/crypto.js';
+import { summarizePrizes, type PrizeTier, type PrizeTableSummary } from '../shared/prizes.js';
+import { contestPrizes, contests } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+
+const logger = getLogger('queue', { component: 'prize-table' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PrizeTableSource = 'page' | 'rules' | 'manual';
+
+export interface ContestPrize extends PrizeTier {
+  id: string;
+  contestId: string;
+  source: PrizeTableSource;
+  createdAt: string;
+}
+
+export interface ContestPrizeTable {
+  contestId: string;
+  prizes: ContestPrize[];
+  summary: PrizeTableSummary;
+}
+
+export interface ReplacePrizesResult {
+  table: ContestPrizeTable;
+  /** False when an existing table of higher precedence was kept. */
+  replaced: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const SOURCE_PRECEDENCE: Record<PrizeTableSource, number> = {
+  page: 0,
+  rules: 1,
+  manual: 2,
+};
+
+// ---------------------------------------------------------------------------
+// PrizeTableStore
+// ---------------------------------------------------------------------------
+
+export class PrizeTableStore {
+  private readonly db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /** Returns a contest's prize table, grand prize first. */
+  get(contestId: string): ContestPrizeTable {
+    const prizes = this.db
+      .select()
+      .from(contestPrizes)
+      .where(eq(contestPrizes.contestId, contestId))
+      .orderBy(asc(contestPrizes.rank))
+      .all()
+      .map(toContestPrize);
+
+    return { contestId, prizes, summary: summarizePrizes(prizes) };
+  }
+
+  /**
+   * Replaces a contest's prize table and refreshes the contest's
+   * aggregate prize columns. An empty extracted table never clears an
+   * existing one; pass `source: 'manual'` to clear deliberately.
+   */
+  replace(contestId: string, tiers: PrizeTier[], source: PrizeTableSource): ReplacePrizesResult {
+    const current = this.get(contestId);
+    const currentSource = current.prizes[0]?.source;
+
+    if (tiers.length === 0 && source !== 'manual') {
+      return { table: current, replaced: false };
+    }
+    if (currentSource && SOURCE_PRECEDENCE[currentSource] > SOURCE_PRECEDENCE[source]) {
+      logger.debug(
+        { contestId, currentSource, source },
+        'Keeping prize table from a higher-precedence source',
+      );
+      return { table: current, replaced: false };
+    }
+
+    const now = new Date().toISOString();
+    const summary = summarizePrizes(tiers);
+    const grandPrize = tiers[0];
+
+    this.db.transaction((tx) => {
+      tx.delete(contestPrizes).where(eq(contestPrizes.contestId, contestId)).run();
+
+      tiers.forEach((tier, index) => {
+        tx.insert(contestPrizes)
+          .values({
+            id: generateId(),
+            contestId,
+            rank: index + 1,
+            tier: tier.tier,
+            description: tier.description || null,
+            arv: tier.arv,
+            quantity: Math.max(1, Math.round(tier.quantity)),
+            category: tier.category,
+            source,
+            createdAt: now,
+          })
+          .run();
+      });
+
+      const update: Partial<typeof contests.$inferInsert> = {
+        prizeCount: tiers.length > 0 ? summary.prizeCount : null,
+        prizePoolValue: summary.poolValue,
+        updatedAt: now,
+      };
+      if (summary.topValue !== null) update.prizeValue = summary.topValue;
+      if (grandPrize?.description) update.prizeDescription = grandPrize.description;
+      if (grandPrize && grandPrize.category !== 'other') update.prizeCategory = grandPrize.category;
+
+      tx.update(contests).set(update).where(eq(contests.id, contestId)).run();
+    });
+
+    logger.info(
+      { contestId, source, tiers: tiers.length, prizeCount: summary.prizeCount, poolValue: summary.poolValue },
+      'Prize table replaced',
+    );
+
+    return { table: this.get(contestId), replaced: true };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toContestPrize(row: typeof contestPrizes.$inferSelect): ContestPrize {
+  return {
+    id: row.id,
+    contestId: row.contestId,
+    rank: row.rank,
+    tier: row.tier,
+    description: row.description ?? '',
+    arv: row.arv,
+    quantity: row.quantity,
+    category: (row.category ?? 'other') as PrizeTier['category'],
+    source: row.source,
+    createdAt: row.createdAt,
+  };
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { closeDb, getDb } from '../db/index.js';
+import { migrate } from '../db/migrate.js';
+import { auditLog, contests, entries, profiles, wins } from '../db/schema.js';
+import { ClaimWorkflow } from './claim-workflow.js';
+import type { NotificationManager } from './notification-manager.js';
+
+const HOUR_MS = 3_600_000;
+
+describe('ClaimWorkflow', () => {
+  let workflow: ClaimWorkflow;
+  let notify: ReturnType<typeof vi.fn>;
+  let notificationManager: NotificationManager;
+
+  function addWin(id: string, hoursLeft: number) {
+    getDb()
+      .insert(entries)
+      .values({ id: `entry-${id}`, contestId: 'contest-1', profileId: 'profile-1', status: 'won' })
+      .run();
+    getDb()
+      .insert(wins)
+      .values({
+        id,
+        entryId: `entry-${id}`,
+        contestId: 'contest-1',
+        profileId: 'profile-1',
+        claimDeadline: new Date(Date.now() + hoursLeft * HOUR_MS).toISOString(),
+      })
+      .run();
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-06-10T12:00:00Z'));
+    closeDb();
+    migrate(':memory:');
+    getDb()
+      .insert(profiles)
+      .values({ id: 'profile-1', firstName: 'Pat', lastName: 'Doe', email: 'pat@example.com' })
+      .run();
+    getDb()
+      .insert(contests)
+      .values({
+        id: 'contest-1',
+        externalId: 'contest-1',
+        url: 'https://sweeps.example/1',
+        title: 'Summer Giveaway',
+        type: 'sweepstakes',
+        entryMethod: 'form',
+      })
+      .run();
+    workflow = new ClaimWorkflow(getDb());
+    notify = vi.fn(async () => undefined);
+    notificationManager = { notify } as unknown as NotificationManager;
+  });
+
+  afterEach(() => {
+    closeDb();
+    vi.useRealTimers();
+  });
+
+  describe('sendDueReminders', () => {
+    it('sends each reminder tier once', async () => {
+      addWin('win-1', 60);
+
+      expect(await workflow.sendDueReminders(notificationManager)).toBe(1);
+      expect(await workflow.sendDueReminders(notificationManager)).toBe(0);
+      expect(workflow.get('win-1')?.remindersSent).toEqual([72]);
+    });
+
+    it('keeps going after a failed reminder and retries it on the next run', async () => {
+      addWin('win-1', 60);
+      addWin('win-2', 60);
+      notify.mockRejectedValueOnce(new Error('SMTP down'));
+
+      expect(await workflow.sendDueReminders(notificationManager)).toBe(1);
+      expect(await workflow.sendDueReminders(notificationManager)).toBe(1);
+      expect(notify).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('setClaimDeadline', () => {
+    it('sends reminders again against the new deadline', async () => {
+      addWin('win-1', 20);
+      await workflow.sendDueReminders(notificationManager);
+      expect(workflow.get('win-1')?.remindersSent).toEqual([72, 24]);
+
+      const win = await workflow.setClaimDeadline('win-1', new Date(Date.now() + 48 * HOUR_MS).toISOString());
+
+      expect(win.remindersSent).toEqual([]);
+      expect(await workflow.sendDueReminders(notificationManager)).toBe(1);
+      expect(notify).toHaveBeenLastCalledWith(expect.objectContaining({ data: expect.objectContaining({ hoursBefore: 72 }) }));
+    });
+
+    it('rejects deadlines it cannot parse and wins that are no longer open', async () => {
+      addWin('win-1', 20);
+
+      await expect(workflow.setClaimDeadline('win-1', 'next Tuesday')).rejects.toMatchObject({ statusCode: 422 });
+      await workflow.transition('win-1', 'forfeited');
+      await expect(workflow.setClaimDeadline('win-1', '2026-07-01')).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('expireOverdue', () => {
+    it('expires open wins past their deadline and audits each one', async () => {
+      addWin('overdue', -1);
+      addWin('open', 1);
+
+      expect(await workflow.expireOverdue()).toEqual(['overdue']);
+      expect(workflow.get('overdue')?.claimStatus).toBe('expired');
+
+      const audited = getDb().select().from(auditLog).where(eq(auditLog.entityId, 'overdue')).all();
+      expect(audited).toEqual([expect.objectContaining({ action: 'win.status_changed' })]);
+      expect(JSON.parse(audited[0]!.details!)).toMatchObject({ from: 'detected', to: 'expired' });
+    });
+  });
+});
@@ -0,0 +1,670 @@
+/**
+ * Win claim workflow.
+ *
+ * Moves a win through `detected → notified → claiming → claimed`, keeps a
+ * paperwork checklist (affidavit, W-9, release form) with uploaded
+ * attachments, and sends escalating reminders as the claim deadline
+ * approaches. Wins still open when their deadline passes are expired.
+ */
+
+import { existsSync, mkdirSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join, resolve, extname } from 'node:path';
+import { eq, and, desc, inArray, isNotNull, count as countFn } from 'drizzle-orm';
+import { wins, winDocuments, contests, profiles } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import { getLogger } from '../shared/logger.js';
+import { generateId } from '../shared/crypto.js';
+import { eventBus } from '../shared/events.js';
+import { AppError, ValidationError } from '../shared/errors.js';
+import { PATHS } from '../shared/constants.js';
+import { getAuditService } from '../analytics/audit-service.js';
+import type { NotificationManager } from './notification-manager.js';
+import type { NotificationPriority } from './types.js';
+
+const log = getLogger('notification', { service: 'claim-workflow' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ClaimStatus = typeof wins.$inferSelect['claimStatus'];
+
+export type ClaimDocumentType = typeof winDocuments.$inferSelect['docType'];
+
+export type ClaimDocumentStatus = typeof winDocuments.$inferSelect['status'];
+
+export interface ClaimDocument {
+  id: string;
+  winId: string;
+  docType: ClaimDocumentType;
+  status: ClaimDocumentStatus;
+  hasFile: boolean;
+  originalName: string | null;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  notes: string | null;
+  uploadedAt: string | null;
+  updatedAt: string;
+}
+
+export interface ClaimWin {
+  id: string;
+  entryId: string;
+  contestId: string;
+  contestTitle: string | null;
+  profileId: string;
+  profileName: string;
+  prizeDescription: string | null;
+  prizeValue: number | null;
+  claimStatus: ClaimStatus;
+  claimDeadline: string | null;
+  claimUrl: string | null;
+  notes: string | null;
+  remindersSent: number[];
+  allowedTransitions: ClaimStatus[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClaimWinDetail extends ClaimWin {
+  documents: ClaimDocument[];
+}
+
+export interface WinListFilter {
+  status?: ClaimStatus;
+  profileId?: string;
+  page: number;
+  limit: number;
+}
+
+export interface DocumentUpload {
+  docType: ClaimDocumentType;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Manual transitions allowed from each status. `expired` is only set by
+ * the cleanup worker once the deadline passes.
+ */
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  detected: ['notified', 'claiming', 'forfeited'],
+  notified: ['claiming', 'forfeited'],
+  claiming: ['claimed', 'forfeited'],
+  claimed: [],
+  expired: [],
+  forfeited: [],
+};
+
+/** Paperwork every claim tracks until it is uploaded, submitted or waived. */
+export const CLAIM_DOCUMENT_TYPES: ClaimDocumentType[] = ['affidavit', 'w9', 'release'];
+
+/** Hours before the claim deadline at which reminders are sent. */
+export const REMINDER_HOURS = [72, 24, 4] as const;
+
+const REMINDER_PRIORITY: Record<(typeof REMINDER_HOURS)[number], NotificationPriority> = {
+  72: 'normal',
+  24: 'high',
+  4: 'urgent',
+};
+
+const OPEN_STATUSES: ClaimStatus[] = ['detected', 'notified', 'claiming'];
+
+const DOCUMENT_LABELS: Record<ClaimDocumentType, string> = {
+  affidavit: 'Affidavit of eligibility',
+  w9: 'W-9',
+  release: 'Liability/publicity release',
+};
+
+/** Maximum size of a single uploaded claim document (10 MB). */
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// ---------------------------------------------------------------------------
+// ClaimWorkflow
+// ---------------------------------------------------------------------------
+
+export class ClaimWorkflow {
+  private readonly db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Lists wins with contest and profile names, newest first.
+   */
+  list(filter: WinListFilter): { items: ClaimWin[]; total: number } {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(wins.claimStatus, filter.status));
+    if (filter.profileId) conditions.push(eq(wins.profileId, filter.profileId));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const rows = this.selectWins()
+      .where(where)
+      .orderBy(desc(wins.createdAt))
+      .limit(filter.limit)
+      .offset((filter.page - 1) * filter.limit)
+      .all();
+
+    const totalRow = this.db
+      .select({ count: countFn() })
+      .from(wins)
+      .where(where)
+      .get();
+
+    return { items: rows.map(toClaimWin), total: totalRow?.count ?? 0 };
+  }
+
+  /**
+   * Returns a win with its document checklist, creating any missing
+   * checklist items.
+   */
+  get(winId: string): ClaimWinDetail | null {
+    const row = this.selectWins().where(eq(wins.id, winId)).get();
+    if (!row) {
+      return null;
+    }
+
+    return { ...toClaimWin(row), documents: this.ensureChecklist(winId) };
+  }
+
+  /**
+   * Moves a win to a new claim status. A win can only be marked claimed
+   * once every checklist document is uploaded, submitted or waived.
+   */
+  async transition(winId: string, to: ClaimStatus, notes?: string): Promise<ClaimWinDetail> {
+    const win = this.get(winId);
+    if (!win) {
+      throw new AppError(`Win not found: ${winId}`, 'WIN_NOT_FOUND', 404);
+    }
+
+    if (!CLAIM_TRANSITIONS[win.claimStatus].includes(to)) {
+      throw new AppError(
+        `Cannot move a win from ${win.claimStatus} to ${to}`,
+        'INVALID_CLAIM_TRANSITION',
+        409,
+      );
+    }
+
+    if (to === 'claimed') {
+      const outstanding = win.documents.filter((d) => d.status === 'required');
+      if (outstanding.length > 0) {
+        throw new AppError(
+          `Outstanding claim documents: ${outstanding.map((d) => DOCUMENT_LABELS[d.docType]).join(', ')}`,
+          'CLAIM_DOCUMENTS_OUTSTANDING',
+          409,
+        );
+      }
+    }
+
+    const now = new Date().toISOString();
+    this.db
+      .update(wins)
+      .set({
+        claimStatus: to,
+        notes: notes ? appendNote(win.notes, now, notes) : win.notes,
+        updatedAt: now,
+      })
+      .where(eq(wins.id, winId))
+      .run();
+
+    log.info({ winId, from: win.claimStatus, to }, 'Win claim status changed');
+    eventBus.emit('win:status_changed', { winId, from: win.claimStatus, to });
+    await getAuditService().record({
+      action: 'win.status_changed',
+      entityType: 'win',
+      entityId: winId,
+      profileId: win.profileId,
+      details: { from: win.claimStatus, to, notes },
+    });
+
+    return this.get(winId)!;
+  }
+
+  /**
+   * Stores an uploaded claim document and marks it as uploaded, replacing
+   * any previous attachment of the same type.
+   */
+  async uploadDocument(winId: string, upload: DocumentUpload): Promise<ClaimDocument> {
+    const win = this.get(winId);
+    if (!win) {
+      throw new AppError(`Win not found: ${winId}`, 'WIN_NOT_FOUND', 404);
+    }
+    if (upload.content.length === 0 || upload.content.length > MAX_DOCUMENT_BYTES) {
+      throw new AppError(
+        `Document must be between 1 byte and ${MAX_DOCUMENT_BYTES} bytes`,
+        'INVALID_DOCUMENT_SIZE',
+        400,
+      );
+    }
+
+    const existing = this.db
+      .select()
+      .from(winDocuments)
+      .where(and(eq(winDocuments.winId, winId), eq(winDocuments.docType, upload.docType)))
+      .get();
+
+    const dir = resolve(PATHS.CLAIM_DOCUMENTS, winId);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const extension = extname(upload.fileName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    const filePath = join(dir, `${upload.docType}-${generateId()}${extension}`);
+    writeFileSync(filePath, upload.content);
+
+    if (existing?.filePath && existing.filePath !== filePath) {
+      removeFile(existing.filePath);
+    }
+
+    const now = new Date().toISOString();
+    this.db
+      .update(winDocuments)
+      .set({
+        status: 'uploaded',
+        filePath,
+        originalName: upload.fileName,
+        mimeType: upload.mimeType,
+        sizeBytes: upload.content.length,
+        uploadedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(winDocuments.winId, winId), eq(winDocuments.docType, upload.docType)))
+      .run();
+
+    await getAuditService().record({
+      action: 'win.document_updated',
+      entityType: 'win',
+      entityId: winId,
+      profileId: win.profileId,
+      details: { docType: upload.docType, status: 'uploaded', sizeBytes: upload.content.length },
+    });
+
+    return this.getDocument(winId, upload.docType)!;
+  }
+
+  /**
+   * Updates a checklist item's status (e.g. submitted to the sponsor, or
+   * waived because the sponsor does not require it) and notes. Setting a
+   * document back to required deletes its uploaded file.
+   */
+  async updateDocument(
+    winId: string,
+    docType: ClaimDocumentType,
+    update: { status?: Exclude<ClaimDocumentStatus, 'uploaded'>; notes?: string | null },
+  ): Promise<ClaimDocument> {
+    const win = this.get(winId);
+    if (!win) {
+      throw new AppError(`Win not found: ${winId}`, 'WIN_NOT_FOUND', 404);
+    }
+
+    // A required document has nothing attached; drop the earlier upload
+    // so it is neither kept on disk nor served as the current file
+    let clearFile = false;
+    if (update.status === 'required') {
+      const existing = this.db
+        .select({ filePath: winDocuments.filePath })
+        .from(winDocuments)
+        .where(and(eq(winDocuments.winId, winId), eq(winDocuments.docType, docType)))
+        .get();
+      if (existing?.filePath) {
+        removeFile(existing.filePath);
+        clearFile = true;
+      }
+    }
+
+    this.db
+      .update(winDocuments)
+      .set({
+        ...(update.status !== undefined ? { status: update.status } : {}),
+        ...(update.notes !== undefined ? { notes: update.notes } : {}),
+        ...(clearFile
+          ? { filePath: null, originalName: null, mimeType: null, sizeBytes: null, uploadedAt: null }
+          : {}),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(and(eq(winDocuments.winId, winId), eq(winDocuments.docType, docType)))
+      .run();
+
+    await getAuditService().record({
+      action: 'win.document_updated',
+      entityType: 'win',
+      entityId: winId,
+      profileId: win.profileId,
+      details: { docType, ...update, ...(clearFile ? { fileRemoved: true } : {}) },
+    });
+
+    return this.getDocument(winId, docType)!;
+  }
+
+  /**
+   * Returns the stored file for a checklist item, or null when nothing
+   * has been uploaded.
+   */
+  getDocumentFile(
+    winId: string,
+    docType: ClaimDocumentType,
+  ): { filePath: string; mimeType: string; originalName: string } | null {
+    const row = this.db
+      .select()
+      .from(winDocuments)
+      .where(and(eq(winDocuments.winId, winId), eq(winDocuments.docType, docType)))
+      .get();
+
+    if (!row?.filePath || !existsSync(row.filePath)) {
+      return null;
+    }
+
+    return {
+      filePath: row.filePath,
+      mimeType: row.mimeType ?? 'application/octet-stream',
+      originalName: row.originalName ?? `${docType}${extname(row.filePath)}`,
+    };
+  }
+
+  /**
+   * Sets or clears an open win's claim deadline. Reminders already sent
+   * were for the old deadline, so they are cleared and the tiers are
+   * sent again against the new one.
+   */
+  async setClaimDeadline(winId: string, claimDeadline: string | null): Promise<ClaimWinDetail> {
+    const win = this.get(winId);
+    if (!win) {
+      throw new AppError(`Win not found: ${winId}`, 'WIN_NOT_FOUND', 404);
+    }
+    if (!OPEN_STATUSES.includes(win.claimStatus)) {
+      throw new AppError(
+        `Cannot change the claim deadline of a ${win.claimStatus} win`,
+        'INVALID_CLAIM_TRANSITION',
+        409,
+      );
+    }
+
+    const deadline = parseClaimDeadline(claimDeadline);
+    if (claimDeadline !== null && !deadline) {
+      throw new ValidationError(`Invalid claim deadline: ${claimDeadline}`, 'claimDeadline', claimDeadline);
+    }
+
+    this.db
+      .update(wins)
+      .set({
+        claimDeadline: deadline ? deadline.toISOString() : null,
+        remindersSent: '[]',
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(wins.id, winId))
+      .run();
+
+    log.info({ winId, from: win.claimDeadline, to: deadline?.toISOString() ?? null }, 'Win claim deadline changed');
+    await getAuditService().record({
+      action: 'win.deadline_changed',
+      entityType: 'win',
+      entityId: winId,
+      profileId: win.profileId,
+      details: { from: win.claimDeadline, to: deadline?.toISOString() ?? null },
+    });
+
+    return this.get(winId)!;
+  }
+
+  /**
+   * Sends the most urgent reminder tier that is due for each open win and
+   * has not been sent yet. Returns the number of reminders sent.
+   */
+  async sendDueReminders(
+    notificationManager: NotificationManager,
+    now: Date = new Date(),
+  ): Promise<number> {
+    const rows = this.selectWins()
+      .where(and(inArray(wins.claimStatus, OPEN_STATUSES), isNotNull(wins.claimDeadline)))
+      .all();
+
+    let sent = 0;
+    for (const row of rows) {
+      const win = toClaimWin(row);
+      const deadline = parseClaimDeadline(win.claimDeadline);
+      if (!deadline) continue;
+
+      const hoursLeft = (deadline.getTime() - now.getTime()) / 3_600_000;
+      if (hoursLeft <= 0) continue;
+
+      const due = REMINDER_HOURS.filter(
+        (h) => hoursLeft <= h && !win.remindersSent.includes(h),
+      );
+      if (due.length === 0) continue;
+
+      // When several tiers are due at once (e.g. the win was detected
+      // late), only the most urgent one is sent.
+      const tier = Math.min(...due) as (typeof REMINDER_HOURS)[number];
+      const outstanding = this.ensureChecklist(win.id)
+        .filter((d) => d.status === 'required')
+        .map((d) => DOCUMENT_LABELS[d.docType]);
+
+      try {
+        await notificationManager.notify({
+          type: 'win',
+          title: `Claim deadline in ${tier}h: ${win.prizeDescription ?? win.contestTitle ?? 'prize'}`,
+          message: [
+            `Contest: ${win.contestTitle ?? win.contestId}`,
+            `Profile: ${win.profileName}`,
+            `Status: ${win.claimStatus}`,
+            `Claim by: ${deadline.toISOString()}`,
+            outstanding.length > 0 ? `Outstanding documents: ${outstanding.join(', ')}` : null,
+            win.claimUrl ? `Claim URL: ${win.claimUrl}` : null,
+          ]
+            .filter(Boolean)
+            .join('\n'),
+          data: {
+            winId: win.id,
+            profileId: win.profileId,
+            claimDeadline: win.claimDeadline,
+            hoursBefore: tier,
+          },
+          priority: REMINDER_PRIORITY[tier],
+          timestamp: now.toISOString(),
+        });
+      } catch (error) {
+        // Not marked as sent, so the next run tries again
+        log.error({ err: error, winId: win.id, hoursBefore: tier }, 'Failed to send claim deadline reminder');
+        continue;
+      }
+
+      const remindersSent = [...new Set([...win.remindersSent, ...due])].sort((a, b) => b - a);
+      this.db
+        .update(wins)
+        .set({ remindersSent: JSON.stringify(remindersSent) })
+        .where(eq(wins.id, win.id))
+        .run();
+
+      eventBus.emit('win:claim_reminder', {
+        winId: win.id,
+        hoursBefore: tier,
+        claimDeadline: deadline.toISOString(),
+      });
+      log.info({ winId: win.id, hoursBefore: tier }, 'Claim deadline reminder sent');
+      sent += 1;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Marks open wins whose claim deadline has passed as expired. Returns
+   * the IDs of the expired wins.
+   */
+  async expireOverdue(now: Date = new Date()): Promise<string[]> {
+    const rows = this.db
+      .select({
+        id: wins.id,
+        profileId: wins.profileId,
+        claimStatus: wins.claimStatus,
+        claimDeadline: wins.claimDeadline,
+      })
+      .from(wins)
+      .where(and(inArray(wins.claimStatus, OPEN_STATUSES), isNotNull(wins.claimDeadline)))
+      .all();
+
+    const expired: string[] = [];
+    const timestamp = now.toISOString();
+
+    for (const row of rows) {
+      const deadline = parseClaimDeadline(row.claimDeadline);
+      if (!deadline || deadline.getTime() > now.getTime()) continue;
+
+      this.db
+        .update(wins)
+        .set({ claimStatus: 'expired', updatedAt: timestamp })
+        .where(eq(wins.id, row.id))
+        .run();
+
+      eventBus.emit('win:status_changed', { winId: row.id, from: row.claimStatus, to: 'expired' });
+      await getAuditService().record({
+        action: 'win.status_changed',
+        entityType: 'win',
+        entityId: row.id,
+        profileId: row.profileId,
+        details: { from: row.claimStatus, to: 'expired', claimDeadline: deadline.toISOString() },
+      });
+      expired.push(row.id);
+    }
+
+    return expired;
+  }
+
+  // -------------------------------------------------------------------------
+  // Helpers
+  // -------------------------------------------------------------------------
+
+  private selectWins() {
+    return this.db
+      .select({
+        win: wins,
+        contestTitle: contests.title,
+        firstName: profiles.firstName,
+        lastName: profiles.lastName,
+      })
+      .from(wins)
+      .leftJoin(contests, eq(wins.contestId, contests.id))
+      .leftJoin(profiles, eq(wins.profileId, profiles.id))
+      .$dynamic();
+  }
+
+  private ensureChecklist(winId: string): ClaimDocument[] {
+    const existing = this.db
+      .select()
+      .from(winDocuments)
+      .where(eq(winDocuments.winId, winId))
+      .all();
+
+    const present = new Set(existing.map((d) => d.docType));
+    const missing = CLAIM_DOCUMENT_TYPES.filter((t) => !present.has(t));
+
+    for (const docType of missing) {
+      this.db
+        .insert(winDocuments)
+        .values({ id: generateId(), winId, docType })
+        .onConflictDoNothing()
+        .run();
+    }
+
+    const rows = missing.length > 0
+      ? this.db.select().from(winDocuments).where(eq(winDocuments.winId, winId)).all()
+      : existing;
+
+    return rows
+      .map(toClaimDocument)
+      .sort((a, b) => CLAIM_DOCUMENT_TYPES.indexOf(a.docType) - CLAIM_DOCUMENT_TYPES.indexOf(b.docType));
+  }
+
+  private getDocument(winId: string, docType: ClaimDocumentType): ClaimDocument | null {
+    const row = this.db
+      .select()
+      .from(winDocuments)
+      .where(and(eq(winDocuments.winId, winId), eq(winDocuments.docType, docType)))
+      .get();
+
+    return row ? toClaimDocument(row) : null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a stored claim deadline. Date-only values are treated as the end
+ * of that day (UTC) since sponsors usually mean "by this date".
+ */
+export function parseClaimDeadline(value: string | null): Date | null {
+  if (!value) return null;
+
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value;
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toClaimWin(row: {
+  win: typeof wins.$inferSelect;
+  contestTitle: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}): ClaimWin {
+  let remindersSent: number[] = [];
+  try {
+    remindersSent = JSON.parse(row.win.remindersSent ?? '[]') as number[];
+  } catch {
+    remindersSent = [];
+  }
+
+  return {
+    id: row.win.id,
+    entryId: row.win.entryId,
+    contestId: row.win.contestId,
+    contestTitle: row.contestTitle,
+    profileId: row.win.profileId,
+    profileName: `${row.firstName ?? ''} ${row.lastName ?? ''}`.trim(),
+    prizeDescription: row.win.prizeDescription,
+    prizeValue: row.win.prizeValue,
+    claimStatus: row.win.claimStatus,
+    claimDeadline: row.win.claimDeadline,
+    claimUrl: row.win.claimUrl,
+    notes: row.win.notes,
+    remindersSent,
+    allowedTransitions: CLAIM_TRANSITIONS[row.win.claimStatus],
+    createdAt: row.win.createdAt,
+    updatedAt: row.win.updatedAt,
+  };
+}
+
+function toClaimDocument(row: typeof winDocuments.$inferSelect): ClaimDocument {
+  return {
+    id: row.id,
+    winId: row.winId,
+    docType: row.docType,
+    status: row.status,
+    hasFile: row.filePath !== null,
+    originalName: row.originalName,
+    mimeType: row.mimeType,
+    sizeBytes: row.sizeBytes,
+    notes: row.notes,
+    uploadedAt: row.uploadedAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function appendNote(existing: string | null, timestamp: string, note: string): string {
+  const line = `[${timestamp.slice(0, 16).replace('T', ' ')}] ${note}`;
+  return existing ? `${existing}\n${line}` : line;
+}
+
+function removeFile(filePath: string): void {
+  try {
+    if (existsSync(filePath)) unlinkSync(filePath);
+  } catch (error) {
+    log.warn({ err: error, filePath }, 'Failed to remove claim document file');
+  }
+}
@@ -5,6 +5,21 @@
 export { NotificationManager } from './notification-manager.js';
 export { WinNotifier } from './win-notifier.js';
 export { DigestBuilder } from './digest-builder.js';
+export {
+  ClaimWorkflow,
+  CLAIM_TRANSITIONS,
+  CLAIM_DOCUMENT_TYPES,
+  REMINDER_HOURS,
+  parseClaimDeadline,
+  type ClaimStatus,
+  type ClaimDocumentType,
+  type ClaimDocumentStatus,
+  type ClaimDocument,
+  type ClaimWin,
+  type ClaimWinDetail,
+  type WinListFilter,
+  type DocumentUpload,
+} from './claim-workflow.js';
 export {
   WebhookChannel,
   EmailAlertChannel,
@@ -8,6 +8,7 @@
 export {
   ProfileManager,
   type Profile,
+  type ProfileAffiliation,
   type ProfileCreateInput,
   type ProfileUpdateInput,
 } from './profile-manager.js';
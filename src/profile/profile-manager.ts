@@ -12,6 +12,7 @@ import { getLogger } from '../shared/logger.js';
 import { ValidationError } from '../shared/errors.js';
 import { encrypt, decrypt, generateId } from '../shared/crypto.js';
 import { profiles } from '../db/schema.js';
+import { householdKeyOf, ADDRESS_FIELDS } from '../compliance/household.js';
 
 const logger = getLogger('profile', { component: 'profile-manager' });
 
@@ -19,6 +20,12 @@ const logger = getLogger('profile', { component: 'profile-manager' });
 // Types
 // ---------------------------------------------------------------------------
 
+/** An organization someone in the profile's household is connected to. */
+export interface ProfileAffiliation {
+  organization: string;
+  relationship: 'spouse' | 'parent' | 'child' | 'sibling' | 'household';
+}
+
 export interface Profile {
   id: string;
   firstName: string;
@@ -36,6 +43,8 @@ export interface Profile {
   dateOfBirth: string | null;
   gender: string | null;
   socialAccounts: Record<string, string>;
+  employer: string | null;
+  affiliations: ProfileAffiliation[];
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -57,6 +66,8 @@ export interface ProfileCreateInput {
   dateOfBirth?: string;
   gender?: string;
   socialAccounts?: Record<string, string>;
+  employer?: string;
+  affiliations?: ProfileAffiliation[];
 }
 
 export interface ProfileUpdateInput {
@@ -75,6 +86,8 @@ export interface ProfileUpdateInput {
   dateOfBirth?: string;
   gender?: string;
   socialAccounts?: Record<string, string>;
+  employer?: string;
+  affiliations?: ProfileAffiliation[];
   isActive?: boolean;
 }
 
@@ -124,12 +137,14 @@ export class ProfileManager {
       dateOfBirth: input.dateOfBirth ?? null,
       gender: input.gender ?? null,
       socialAccounts: JSON.stringify(input.socialAccounts ?? {}),
+      employer: input.employer?.trim() || null,
+      affiliations: JSON.stringify(input.affiliations ?? []),
       isActive: 1,
       createdAt: now,
       updatedAt: now,
     };
 
-    this.db.insert(profiles).values(row).run();
+    this.db.insert(profiles).values({ ...row, householdKey: householdKeyOf(row) }).run();
 
     logger.info({ profileId: id, email: row.email }, 'Profile created');
 
@@ -225,6 +240,12 @@ export class ProfileManager {
     if (input.socialAccounts !== undefined) {
       updates.socialAccounts = JSON.stringify(input.socialAccounts);
     }
+    if (input.employer !== undefined) {
+      updates.employer = input.employer.trim() || null;
+    }
+    if (input.affiliations !== undefined) {
+      updates.affiliations = JSON.stringify(input.affiliations);
+    }
     if (input.isActive !== undefined) {
       updates.isActive = input.isActive ? 1 : 0;
     }
@@ -234,6 +255,14 @@ export class ProfileManager {
       .set(updates)
       .where(eq(profiles.id, id))
       .run();
+    if (ADDRESS_FIELDS.some((field) => input[field] !== undefined)) {
+      const stored = this.db.select().from(profiles).where(eq(profiles.id, id)).get();
+      this.db
+        .update(profiles)
+        .set({ householdKey: stored ? householdKeyOf(stored) : null })
+        .where(eq(profiles.id, id))
+        .run();
+    }
 
     logger.info({ profileId: id }, 'Profile updated');
 
@@ -351,6 +380,15 @@ export class ProfileManager {
       }
     }
 
+    let affiliations: ProfileAffiliation[] = [];
+    if (typeof row.affiliations === 'string') {
+      try {
+        affiliations = JSON.parse(row.affiliations) as ProfileAffiliation[];
+      } catch {
+        affiliations = [];
+      }
+    }
+
     return {
       id: row.id as string,
       firstName: row.firstName as string,
@@ -368,6 +406,8 @@ export class ProfileManager {
       dateOfBirth: (row.dateOfBirth as string | null) ?? null,
       gender: (row.gender as string | null) ?? null,
       socialAccounts,
+      employer: (row.employer as string | null) ?? null,
+      affiliations,
       isActive: row.isActive === 1,
       createdAt: row.createdAt as string,
       updatedAt: row.updatedAt as string,
@@ -314,6 +314,15 @@ export class ProfileRotator {
       }
     }
 
+    let affiliations: Profile['affiliations'] = [];
+    if (typeof row.affiliations === 'string') {
+      try {
+        affiliations = JSON.parse(row.affiliations);
+      } catch {
+        affiliations = [];
+      }
+    }
+
     return {
       id: row.id as string,
       firstName: row.firstName as string,
@@ -331,6 +340,8 @@ export class ProfileRotator {
       dateOfBirth: (row.dateOfBirth as string | null) ?? null,
       gender: (row.gender as string | null) ?? null,
       socialAccounts,
+      employer: (row.employer as string | null) ?? null,
+      affiliations,
       isActive: row.isActive === 1,
       createdAt: row.createdAt as string,
       updatedAt: row.updatedAt as string,
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { closeDb, getDb } from '../db/index.js';
+import { migrate } from '../db/migrate.js';
+import { eventBus, type AppEvents } from '../shared/events.js';
+import { CircuitBreaker, CircuitState } from './circuit-breaker.js';
+import { SqliteCircuitStore, type CircuitStore } from './circuit-store.js';
+
+const DOMAIN = 'sweeps.example';
+const RECOVERY_MS = 60_000;
+
+type StateChange = AppEvents['circuit:state_changed'];
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+  let changes: StateChange[];
+  const onChange = (change: StateChange) => changes.push(change);
+
+  async function failTimes(n: number) {
+    for (let i = 0; i < n; i++) await breaker.recordFailure(DOMAIN);
+  }
+
+  /** Opens the circuit and waits out the recovery timeout. */
+  async function openAndWait() {
+    await failTimes(3);
+    vi.advanceTimersByTime(RECOVERY_MS);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    closeDb();
+    migrate(':memory:');
+    breaker = new CircuitBreaker(new SqliteCircuitStore(getDb()), {
+      failureThreshold: 3,
+      recoveryTimeoutMs: RECOVERY_MS,
+      halfOpenSuccessThreshold: 2,
+    });
+    changes = [];
+    eventBus.on('circuit:state_changed', onChange);
+  });
+
+  afterEach(() => {
+    eventBus.off('circuit:state_changed', onChange);
+    closeDb();
+    vi.useRealTimers();
+  });
+
+  describe('closed', () => {
+    it('treats untracked domains as closed and does not start tracking them on success', async () => {
+      await breaker.recordSuccess(DOMAIN);
+
+      expect(await breaker.canExecute(DOMAIN)).toBe(true);
+      expect(await breaker.getState(DOMAIN)).toBe(CircuitState.CLOSED);
+      expect(await breaker.getAllCircuits()).toEqual([]);
+    });
+
+    it('opens once consecutive failures reach the threshold', async () => {
+      await failTimes(2);
+      expect(await breaker.getState(DOMAIN)).toBe(CircuitState.CLOSED);
+
+      await failTimes(1);
+
+      expect(await breaker.getState(DOMAIN)).toBe(CircuitState.OPEN);
+      expect(await breaker.canExecute(DOMAIN)).toBe(false);
+      expect(changes).toEqual([
+        { domain: DOMAIN, from: 'CLOSED', to: 'OPEN', reason: 'failure_threshold', failureCount: 3 },
+      ]);
+    });
+
+    it('starts counting again after a success', async () => {
+      await failTimes(2);
+      await breaker.recordSuccess(DOMAIN);
+      await failTimes(2);
+
+      expect(await breaker.getState(DOMAIN)).toBe(CircuitState.CLOSED);
+    });
+  });
+
+  describe('recovery', () => {
+    it('rejects requests until the recovery timeout passes, then lets one probe through', async () => {
+      await failTimes(3);
+      vi.advanceTimersByTime(RECOVERY_MS - 1);
+      expect(await breaker.canExecute(DOMAIN)).toBe(false);
+
+      vi.advanceTimersByTime(1);
+
+      expect(await breaker.canExecute(DOMAIN)).toBe(true);
+      expect(await breaker.getState(DOMAIN)).toBe(CircuitState.HALF_OPEN);
+      expect(await breaker.canExecute(DOMAIN)).toBe(false);
+      expect(changes.at(-1)).toMatchObject({ from: 'OPEN', to: 'HALF_OPEN', reason: 'recovery_timeout' });
+    });
+
+    it('reopens the circuit when the probe fails', async () => {
+      await openAndWait();
+      await breaker.canExecute(DOMAIN);
+
+      await breaker.recordFailure(DOMAIN);
+
+      expect(await breaker.getState(DOMAIN)).toBe(CircuitState.OPEN);
+      expect(await breaker.canExecute(DOMAIN)).toBe(false);
+      expect(changes.at(-1)).toMatchObject({ from: 'HALF_OPEN', to: 'OPEN', reason: 'probe_failed' });
+    });
+
+    it('closes after enough successful probes, letting the next probe through after each', async () => {
+      await openAndWait();
+      await breaker.canExecute(DOMAIN);
+
+      await breaker.recordSuccess(DOMAIN);
+      expect(await breaker.getState(DOMAIN)).toBe(CircuitState.HALF_OPEN);
+      expect(await breaker.canExecute(DOMAIN)).toBe(true);
+
+      await breaker.recordSuccess(DOMAIN);
+
+      expect(await breaker.getState(DOMAIN)).toBe(CircuitState.CLOSED);
+      expect(changes.at(-1)).toMatchObject({ from: 'HALF_OPEN', to: 'CLOSED', reason: 'probe_succeeded', failureCount: 0 });
+    });
+
+    it('replaces a probe that never reports back once the recovery timeout passes again', async () => {
+      await openAndWait();
+      await breaker.canExecute(DOMAIN);
+
+      vi.advanceTimersByTime(RECOVERY_MS - 1);
+      expect(await breaker.canExecute(DOMAIN)).toBe(false);
+      vi.advanceTimersByTime(1);
+
+      expect(await breaker.canExecute(DOMAIN)).toBe(true);
+      expect(await breaker.canExecute(DOMAIN)).toBe(false);
+    });
+  });
+
+  describe('manual control', () => {
+    it('opens a domain for the given duration', async () => {
+      const circuit = await breaker.open(DOMAIN, 5_000);
+
+      expect(circuit).toMatchObject({ state: CircuitState.OPEN, reason: 'manual_open', probeAt: Date.now() + 5_000 });
+      expect(await breaker.canExecute(DOMAIN)).toBe(false);
+      vi.advanceTimersByTime(5_000);
+      expect(await breaker.canExecute(DOMAIN)).toBe(true);
+    });
+
+    it('closes an open circuit and clears its counters', async () => {
+      await failTimes(3);
+
+      const circuit = await breaker.close(DOMAIN);
+
+      expect(circuit).toMatchObject({ state: CircuitState.CLOSED, failureCount: 0, probeAt: null });
+      expect(await breaker.canExecute(DOMAIN)).toBe(true);
+      expect(await breaker.close('untracked.example')).toBeNull();
+    });
+
+    it('stops tracking a reset domain and reports it closed', async () => {
+      await failTimes(3);
+
+      const removed = await breaker.reset(DOMAIN);
+
+      expect(removed?.state).toBe(CircuitState.OPEN);
+      expect(await breaker.getAllCircuits()).toEqual([]);
+      expect(changes.at(-1)).toMatchObject({ from: 'OPEN', to: 'CLOSED', reason: 'manual_reset' });
+    });
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const broken: CircuitStore = {
+      list: async () => [],
+      get: async () => null,
+      update: async () => {
+        throw new Error('store unavailable');
+      },
+      delete: async () => null,
+    };
+
+    expect(await new CircuitBreaker(broken).canExecute(DOMAIN)).toBe(true);
+  });
+});
@@ -6,24 +6,46 @@
  *  - CLOSED   : Normal operation, requests flow through.
  *  - OPEN     : Too many failures, requests are rejected immediately.
  *  - HALF_OPEN: Recovery probe in progress, one test request allowed.
+ *
+ * Circuit state lives in a CircuitStore (see circuit-store.ts) shared by
+ * every worker process, so a restart remembers which domains were
+ * tripping and one probe is sent per domain rather than one per worker.
+ * Every state transition is emitted on the eventBus as
+ * `circuit:state_changed`. Circuits can also be opened, closed and reset
+ * by hand from the API.
  */
 
 import { getLogger } from '../shared/logger.js';
+import { eventBus } from '../shared/events.js';
+import { getDb } from '../db/index.js';
+import {
+  CircuitState,
+  RedisCircuitStore,
+  SqliteCircuitStore,
+  type CircuitRecord,
+  type CircuitStore,
+} from './circuit-store.js';
+import { getQueueManager } from './queue-manager.js';
+
+export { CircuitState } from './circuit-store.js';
+export type { CircuitRecord } from './circuit-store.js';
 
 const log = getLogger('queue', { component: 'circuit-breaker' });
 
-export enum CircuitState {
-  CLOSED = 'CLOSED',
-  OPEN = 'OPEN',
-  HALF_OPEN = 'HALF_OPEN',
-}
+/** Why a circuit changed state; kept on the record and sent with the event. */
+export type CircuitChangeReason =
+  | 'failure_threshold'
+  | 'probe_failed'
+  | 'probe_succeeded'
+  | 'recovery_timeout'
+  | 'manual_open'
+  | 'manual_close'
+  | 'manual_reset';
 
-interface CircuitRecord {
-  state: CircuitState;
-  failureCount: number;
-  successCount: number;
-  lastFailureAt: number;
-  lastStateChangeAt: number;
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  recoveryTimeoutMs?: number;
+  halfOpenSuccessThreshold?: number;
 }
 
 const DEFAULTS = {
@@ -36,16 +58,13 @@ const DEFAULTS = {
 } as const;
 
 export class CircuitBreaker {
-  private readonly circuits = new Map<string, CircuitRecord>();
+  private readonly store: CircuitStore;
   private readonly failureThreshold: number;
   private readonly recoveryTimeoutMs: number;
   private readonly halfOpenSuccessThreshold: number;
 
-  constructor(options?: {
-    failureThreshold?: number;
-    recoveryTimeoutMs?: number;
-    halfOpenSuccessThreshold?: number;
-  }) {
+  constructor(store: CircuitStore, options?: CircuitBreakerOptions) {
+    this.store = store;
     this.failureThreshold = options?.failureThreshold ?? DEFAULTS.FAILURE_THRESHOLD;
     this.recoveryTimeoutMs = options?.recoveryTimeoutMs ?? DEFAULTS.RECOVERY_TIMEOUT_MS;
     this.halfOpenSuccessThreshold =
@@ -53,65 +72,85 @@ export class CircuitBreaker {
   }
 
   /**
-   * Returns `true` if the circuit for the given domain is closed or half-open
-   * (i.e., requests are allowed to proceed).
+   * Returns `true` if a request to the domain may proceed: the circuit is
+   * closed, or this request is the recovery probe. Fails open when the
+   * store cannot be reached.
    */
-  canExecute(domain: string): boolean {
-    const circuit = this.getOrCreate(domain);
-
-    switch (circuit.state) {
-      case CircuitState.CLOSED:
-        return true;
-
-      case CircuitState.OPEN: {
-        const elapsed = Date.now() - circuit.lastStateChangeAt;
-        if (elapsed >= this.recoveryTimeoutMs) {
-          // Transition to HALF_OPEN and allow a single test request
-          this.transition(domain, circuit, CircuitState.HALF_OPEN);
-          return true;
+  async canExecute(domain: string): Promise<boolean> {
+    let allowed = true;
+
+    try {
+      await this.mutate(domain, (circuit, now) => {
+        allowed = true;
+        if (!circuit) return null;
+
+        switch (circuit.state) {
+          case CircuitState.CLOSED:
+            return null;
+
+          case CircuitState.OPEN:
+            if (circuit.probeAt !== null && now >= circuit.probeAt) {
+              // Transition to HALF_OPEN and let this request through as the probe
+              return this.transition(circuit, CircuitState.HALF_OPEN, 'recovery_timeout', now);
+            }
+            allowed = false;
+            return null;
+
+          case CircuitState.HALF_OPEN:
+            // One probe at a time; a probe that never reports back (its
+            // worker died) is replaced once the recovery timeout passes
+            if (circuit.probeAt === null || now >= circuit.probeAt) {
+              return { ...circuit, probeAt: now + this.recoveryTimeoutMs };
+            }
+            allowed = false;
+            return null;
+
+          default:
+            return null;
         }
-        log.debug(
-          { domain, timeUntilRecoveryMs: this.recoveryTimeoutMs - elapsed },
-          'Circuit OPEN, rejecting request',
-        );
-        return false;
-      }
-
-      case CircuitState.HALF_OPEN:
-        // In HALF_OPEN state, allow requests through for testing
-        return true;
-
-      default:
-        return true;
+      });
+    } catch (error) {
+      log.error({ err: error, domain }, 'Circuit store error, allowing request as fallback');
+      return true;
+    }
+
+    if (!allowed) {
+      log.debug({ domain }, 'Circuit OPEN, rejecting request');
     }
+    return allowed;
   }
 
   /**
    * Records a successful request for the given domain.
    * In HALF_OPEN state, sufficient successes will close the circuit.
+   * Domains without a recorded failure are not tracked.
    */
-  recordSuccess(domain: string): void {
-    const circuit = this.getOrCreate(domain);
-
-    switch (circuit.state) {
-      case CircuitState.HALF_OPEN:
-        circuit.successCount += 1;
-        if (circuit.successCount >= this.halfOpenSuccessThreshold) {
-          this.transition(domain, circuit, CircuitState.CLOSED);
-          log.info({ domain }, 'Circuit breaker CLOSED after successful recovery');
+  async recordSuccess(domain: string): Promise<void> {
+    try {
+      await this.mutate(domain, (circuit, now) => {
+        if (!circuit) return null;
+
+        switch (circuit.state) {
+          case CircuitState.HALF_OPEN: {
+            const successCount = circuit.successCount + 1;
+            if (successCount >= this.halfOpenSuccessThreshold) {
+              return this.transition(circuit, CircuitState.CLOSED, 'probe_succeeded', now);
+            }
+            // Let the next probe through straight away
+            return { ...circuit, successCount, probeAt: null };
+          }
+
+          case CircuitState.CLOSED:
+            // Reset failure count on success
+            return { ...circuit, failureCount: 0, successCount: circuit.successCount + 1 };
+
+          default:
+            // Unexpected success in OPEN state -- just record it
+            return { ...circuit, successCount: circuit.successCount + 1 };
         }
-        break;
-
-      case CircuitState.CLOSED:
-        // Reset failure count on success
-        circuit.failureCount = 0;
-        circuit.successCount += 1;
-        break;
-
-      default:
-        // Unexpected success in OPEN state -- just record it
-        circuit.successCount += 1;
-        break;
+      });
+    } catch (error) {
+      log.error({ err: error, domain }, 'Failed to record circuit success');
     }
   }
 
@@ -119,35 +158,33 @@ export class CircuitBreaker {
    * Records a failed request for the given domain.
    * Accumulating failures past the threshold will open the circuit.
    */
-  recordFailure(domain: string): void {
-    const circuit = this.getOrCreate(domain);
-
-    circuit.failureCount += 1;
-    circuit.lastFailureAt = Date.now();
-
-    switch (circuit.state) {
-      case CircuitState.CLOSED:
-        if (circuit.failureCount >= this.failureThreshold) {
-          this.transition(domain, circuit, CircuitState.OPEN);
-          log.warn(
-            { domain, failureCount: circuit.failureCount },
-            'Circuit breaker OPENED after consecutive failures',
-          );
+  async recordFailure(domain: string): Promise<void> {
+    try {
+      await this.mutate(domain, (current, now) => {
+        const circuit: CircuitRecord = {
+          ...(current ?? this.untracked(domain, now)),
+          failureCount: (current?.failureCount ?? 0) + 1,
+          lastFailureAt: now,
+        };
+
+        switch (circuit.state) {
+          case CircuitState.CLOSED:
+            if (circuit.failureCount >= this.failureThreshold) {
+              return this.transition(circuit, CircuitState.OPEN, 'failure_threshold', now);
+            }
+            return circuit;
+
+          case CircuitState.HALF_OPEN:
+            // Test request failed -- re-open the circuit
+            return this.transition(circuit, CircuitState.OPEN, 'probe_failed', now);
+
+          default:
+            // Already open, just accumulate stats
+            return circuit;
         }
-        break;
-
-      case CircuitState.HALF_OPEN:
-        // Test request failed -- re-open the circuit
-        this.transition(domain, circuit, CircuitState.OPEN);
-        log.warn(
-          { domain },
-          'Circuit breaker re-OPENED after failed recovery probe',
-        );
-        break;
-
-      case CircuitState.OPEN:
-        // Already open, just accumulate stats
-        break;
+      });
+    } catch (error) {
+      log.error({ err: error, domain }, 'Failed to record circuit failure');
     }
   }
 
@@ -155,77 +192,172 @@ export class CircuitBreaker {
    * Returns the current state of the circuit for a domain.
    * If no circuit exists, returns CLOSED (healthy default).
    */
-  getState(domain: string): CircuitState {
-    const circuit = this.circuits.get(domain);
-    if (!circuit) {
-      return CircuitState.CLOSED;
-    }
+  async getState(domain: string): Promise<CircuitState> {
+    return (await this.store.get(domain))?.state ?? CircuitState.CLOSED;
+  }
 
-    // Check for automatic OPEN -> HALF_OPEN transition
-    if (circuit.state === CircuitState.OPEN) {
-      const elapsed = Date.now() - circuit.lastStateChangeAt;
-      if (elapsed >= this.recoveryTimeoutMs) {
-        this.transition(domain, circuit, CircuitState.HALF_OPEN);
-      }
-    }
+  /**
+   * Opens the circuit for a domain by hand. The recovery probe is let
+   * through after `durationMs`, or after the recovery timeout.
+   */
+  async open(domain: string, durationMs?: number): Promise<CircuitRecord> {
+    const circuit = await this.mutate(domain, (current, now) => ({
+      ...this.transition(current ?? this.untracked(domain, now), CircuitState.OPEN, 'manual_open', now),
+      probeAt: now + (durationMs ?? this.recoveryTimeoutMs),
+    }));
+    log.info({ domain, probeAt: circuit?.probeAt }, 'Circuit breaker manually opened');
+    return circuit!;
+  }
 
-    return circuit.state;
+  /**
+   * Closes the circuit for a domain by hand, clearing its counters.
+   * Returns null if the domain is not tracked.
+   */
+  async close(domain: string): Promise<CircuitRecord | null> {
+    const circuit = await this.mutate(domain, (current, now) =>
+      current ? this.transition(current, CircuitState.CLOSED, 'manual_close', now) : null,
+    );
+    if (circuit) log.info({ domain }, 'Circuit breaker manually closed');
+    return circuit;
   }
 
   /**
-   * Resets the circuit for a domain back to CLOSED with zero counters.
+   * Resets the circuit for a domain back to CLOSED with zero counters by
+   * no longer tracking it. Returns the record removed, or null if none.
    */
-  reset(domain: string): void {
-    this.circuits.delete(domain);
+  async reset(domain: string): Promise<CircuitRecord | null> {
+    const removed = await this.store.delete(domain);
+    if (removed && removed.state !== CircuitState.CLOSED) {
+      this.emitTransition(
+        { ...removed, state: CircuitState.CLOSED, failureCount: 0 },
+        removed.state,
+        'manual_reset',
+      );
+    }
     log.info({ domain }, 'Circuit breaker manually reset');
+    return removed;
   }
 
   /**
-   * Returns a snapshot of all tracked circuits for monitoring.
+   * Returns every tracked circuit for monitoring.
    */
-  getAllCircuits(): ReadonlyMap<string, Readonly<CircuitRecord>> {
-    return this.circuits;
+  async getAllCircuits(): Promise<CircuitRecord[]> {
+    return this.store.list();
   }
 
   // -------------------------------------------------------------------------
   // Private helpers
   // -------------------------------------------------------------------------
 
-  private getOrCreate(domain: string): CircuitRecord {
-    let circuit = this.circuits.get(domain);
-    if (!circuit) {
-      circuit = {
-        state: CircuitState.CLOSED,
-        failureCount: 0,
-        successCount: 0,
-        lastFailureAt: 0,
-        lastStateChangeAt: Date.now(),
-      };
-      this.circuits.set(domain, circuit);
+  /**
+   * Applies a change to the domain's circuit through the store and emits
+   * the state transition, if any, once it is stored.
+   */
+  private async mutate(
+    domain: string,
+    change: (current: CircuitRecord | null, now: number) => CircuitRecord | null,
+  ): Promise<CircuitRecord | null> {
+    const seen: { before: CircuitRecord | null } = { before: null };
+    const stored = await this.store.update(domain, (current) => {
+      seen.before = current;
+      return change(current, Date.now());
+    });
+
+    const from = seen.before?.state ?? CircuitState.CLOSED;
+    if (stored && stored.state !== from) {
+      this.emitTransition(stored, from, stored.reason as CircuitChangeReason);
     }
-    return circuit;
+    return stored;
+  }
+
+  private untracked(domain: string, now: number): CircuitRecord {
+    return {
+      domain,
+      state: CircuitState.CLOSED,
+      failureCount: 0,
+      successCount: 0,
+      lastFailureAt: null,
+      lastStateChangeAt: now,
+      probeAt: null,
+      reason: null,
+    };
   }
 
   private transition(
-    domain: string,
     circuit: CircuitRecord,
     newState: CircuitState,
-  ): void {
-    const oldState = circuit.state;
-    circuit.state = newState;
-    circuit.lastStateChangeAt = Date.now();
+    reason: CircuitChangeReason,
+    now: number,
+  ): CircuitRecord {
+    const next: CircuitRecord = {
+      ...circuit,
+      state: newState,
+      reason,
+      lastStateChangeAt: now,
+    };
 
     // Reset counters on state change
     if (newState === CircuitState.CLOSED) {
-      circuit.failureCount = 0;
-      circuit.successCount = 0;
+      next.failureCount = 0;
+      next.successCount = 0;
+      next.probeAt = null;
     } else if (newState === CircuitState.HALF_OPEN) {
-      circuit.successCount = 0;
+      // The request that moved the circuit to HALF_OPEN is the probe
+      next.successCount = 0;
+      next.probeAt = now + this.recoveryTimeoutMs;
+    } else {
+      next.probeAt = now + this.recoveryTimeoutMs;
     }
 
-    log.debug(
-      { domain, from: oldState, to: newState },
-      'Circuit state transition',
-    );
+    return next;
+  }
+
+  private emitTransition(
+    circuit: CircuitRecord,
+    from: CircuitState,
+    reason: CircuitChangeReason,
+  ): void {
+    const payload = {
+      domain: circuit.domain,
+      from,
+      to: circuit.state,
+      reason,
+      failureCount: circuit.failureCount,
+    };
+
+    if (circuit.state === CircuitState.OPEN) {
+      log.warn(payload, 'Circuit breaker OPENED');
+    } else {
+      log.info(payload, 'Circuit state transition');
+    }
+    eventBus.emit('circuit:state_changed', payload);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared instance
+// ---------------------------------------------------------------------------
+
+/** Settings of the breaker that guards contest domains. */
+const DOMAIN_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  recoveryTimeoutMs: 60_000, // 1 minute
+  halfOpenSuccessThreshold: 2,
+};
+
+let domainBreaker: CircuitBreaker | undefined;
+
+/**
+ * Returns the breaker that guards contest domains, shared by the entry
+ * worker and the API. Its state is kept in Redis when the queues run on
+ * Redis, and in the database otherwise, so call this after the
+ * QueueManager has initialized.
+ */
+export function getCircuitBreaker(): CircuitBreaker {
+  if (!domainBreaker) {
+    const redis = getQueueManager()?.getRedisConnection() ?? null;
+    const store = redis ? new RedisCircuitStore(redis) : new SqliteCircuitStore(getDb());
+    domainBreaker = new CircuitBreaker(store, DOMAIN_BREAKER_OPTIONS);
   }
+  return domainBreaker;
 }
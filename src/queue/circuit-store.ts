@@ -0,0 +1,196 @@
+/**
+ * Shared storage for circuit breaker state.
+ *
+ * Every worker process reads and changes a domain's circuit through a
+ * CircuitStore, so a restart keeps circuits that were tripping and all
+ * workers agree on whether a domain is open. Installs on Redis keep the
+ * circuits in one hash; installs without Redis use the circuit_breakers
+ * table, like the SQLite job store.
+ *
+ * A change is a compare-and-set on the domain's record: a SQLite write
+ * transaction, or a Lua script on Redis that only writes when the record
+ * is still the one the change was computed from.
+ */
+
+import type IORedis from 'ioredis';
+import { eq } from 'drizzle-orm';
+import { circuitBreakers } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export enum CircuitState {
+  CLOSED = 'CLOSED',
+  OPEN = 'OPEN',
+  HALF_OPEN = 'HALF_OPEN',
+}
+
+export interface CircuitRecord {
+  domain: string;
+  state: CircuitState;
+  failureCount: number;
+  successCount: number;
+  /** Epoch ms of the last recorded failure. */
+  lastFailureAt: number | null;
+  lastStateChangeAt: number;
+  /**
+   * Epoch ms from which the next recovery probe may be let through: when
+   * an OPEN circuit goes HALF_OPEN, or when a HALF_OPEN circuit whose
+   * probe never reported back lets another one through. Null while the
+   * circuit is closed, or when a HALF_OPEN circuit may probe right away.
+   */
+  probeAt: number | null;
+  /** Why the circuit last changed state. */
+  reason: string | null;
+}
+
+/**
+ * Computes the new record from the current one (null when the domain is
+ * not tracked yet). Returning null leaves the record as it is. A change
+ * may be run more than once when another worker wrote first, so it must
+ * not have side effects.
+ */
+export type CircuitChange = (current: CircuitRecord | null) => CircuitRecord | null;
+
+export interface CircuitStore {
+  list(): Promise<CircuitRecord[]>;
+  get(domain: string): Promise<CircuitRecord | null>;
+  /** Applies `change` atomically and returns the record as stored afterwards. */
+  update(domain: string, change: CircuitChange): Promise<CircuitRecord | null>;
+  /** Stops tracking a domain; returns the record that was removed. */
+  delete(domain: string): Promise<CircuitRecord | null>;
+}
+
+// ---------------------------------------------------------------------------
+// SQLite
+// ---------------------------------------------------------------------------
+
+type CircuitRow = typeof circuitBreakers.$inferSelect;
+
+function toRecord(row: CircuitRow): CircuitRecord {
+  return { ...row, state: row.state as CircuitState };
+}
+
+export class SqliteCircuitStore implements CircuitStore {
+  constructor(private readonly db: AppDatabase) {}
+
+  async list(): Promise<CircuitRecord[]> {
+    return this.db.select().from(circuitBreakers).all().map(toRecord);
+  }
+
+  async get(domain: string): Promise<CircuitRecord | null> {
+    const row = this.db.select().from(circuitBreakers).where(eq(circuitBreakers.domain, domain)).get();
+    return row ? toRecord(row) : null;
+  }
+
+  async update(domain: string, change: CircuitChange): Promise<CircuitRecord | null> {
+    // IMMEDIATE takes the write lock before the read, so two processes
+    // cannot both change the record they read
+    return this.db.transaction(
+      (tx) => {
+        const row = tx.select().from(circuitBreakers).where(eq(circuitBreakers.domain, domain)).get();
+        const current = row ? toRecord(row) : null;
+        const next = change(current);
+        if (!next) return current;
+
+        tx.insert(circuitBreakers)
+          .values(next)
+          .onConflictDoUpdate({ target: circuitBreakers.domain, set: next })
+          .run();
+        return next;
+      },
+      { behavior: 'immediate' },
+    );
+  }
+
+  async delete(domain: string): Promise<CircuitRecord | null> {
+    const row = this.db
+      .delete(circuitBreakers)
+      .where(eq(circuitBreakers.domain, domain))
+      .returning()
+      .get();
+    return row ? toRecord(row) : null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Redis
+// ---------------------------------------------------------------------------
+
+/**
+ * Writes ARGV[3] to the domain's field only if the field still holds
+ * ARGV[2] ('' for a missing field). Returns 1 if written, 0 otherwise.
+ */
+const COMPARE_AND_SET_SCRIPT = `
+  local current = redis.call('HGET', KEYS[1], ARGV[1])
+  if (current or '') ~= ARGV[2] then
+    return 0
+  end
+  redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+  return 1
+`;
+
+/** Removes the domain's field and returns what it held. */
+const TAKE_SCRIPT = `
+  local current = redis.call('HGET', KEYS[1], ARGV[1])
+  if current then
+    redis.call('HDEL', KEYS[1], ARGV[1])
+  end
+  return current
+`;
+
+/** Compare-and-set attempts before giving up on a heavily contended record. */
+const MAX_UPDATE_ATTEMPTS = 10;
+
+function parseRecord(raw: string | null | undefined): CircuitRecord | null {
+  return raw ? (JSON.parse(raw) as CircuitRecord) : null;
+}
+
+export class RedisCircuitStore implements CircuitStore {
+  private readonly redis: IORedis;
+  private readonly key: string;
+
+  constructor(redis: IORedis, options?: { key?: string }) {
+    this.redis = redis;
+    this.key = options?.key ?? 'sweeps:circuits';
+  }
+
+  async list(): Promise<CircuitRecord[]> {
+    const all = await this.redis.hgetall(this.key);
+    return Object.values(all)
+      .map(parseRecord)
+      .filter((r): r is CircuitRecord => r !== null);
+  }
+
+  async get(domain: string): Promise<CircuitRecord | null> {
+    return parseRecord(await this.redis.hget(this.key, domain));
+  }
+
+  async update(domain: string, change: CircuitChange): Promise<CircuitRecord | null> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const raw = (await this.redis.hget(this.key, domain)) ?? '';
+      const current = parseRecord(raw);
+      const next = change(current);
+      if (!next) return current;
+
+      const written = await this.redis.eval(
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        this.key,
+        domain,
+        raw,
+        JSON.stringify(next),
+      );
+      if (written === 1) return next;
+    }
+
+    throw new Error(`Circuit for ${domain} changed concurrently ${MAX_UPDATE_ATTEMPTS} times, update abandoned`);
+  }
+
+  async delete(domain: string): Promise<CircuitRecord | null> {
+    const raw = (await this.redis.eval(TAKE_SCRIPT, 1, this.key, domain)) as string | null;
+    return parseRecord(raw);
+  }
+}
@@ -0,0 +1,302 @@
+/**
+ * Entry calendar for recurring contests.
+ *
+ * Works out when each daily or weekly contest/profile pair should next be
+ * entered. A pair's window opens at its `entry_limits.nextEligibleAt`
+ * (or now, if it is already eligible) and closes at the contest's next
+ * reset, so an entry made in the window always counts for that period.
+ * Within the window each pair gets a deterministic run time spread across
+ * the period, and runs are pushed into later hours when an hour would
+ * exceed the hourly entry cap.
+ *
+ * The recurring entry scheduler queues the entries whose run time is
+ * near; the API shows the same plan as a calendar.
+ */
+
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { contests, entryLimits, profiles } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import { getLogger } from '../shared/logger.js';
+import { hashForDedup } from '../shared/crypto.js';
+import { DEFAULT_LIMITS } from '../shared/constants.js';
+import { ReviewQueue } from '../compliance/review-queue.js';
+import {
+  computeNextEligible,
+  nextResetAfter,
+  resetAtOrBefore,
+  resetWindowOf,
+  type EntryFrequency,
+} from '../compliance/entry-window.js';
+
+const log = getLogger('queue', { component: 'entry-calendar' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ContestRow = typeof contests.$inferSelect;
+
+/**
+ * - `planned`: will be queued when its run time approaches
+ * - `over_capacity`: every hour of the window is already at the hourly cap
+ */
+export type PlannedEntryStatus = 'planned' | 'over_capacity';
+
+export interface PlannedEntry {
+  contestId: string;
+  contestTitle: string;
+  profileId: string;
+  profileName: string;
+  frequency: 'daily' | 'weekly';
+  /** Earliest time the entry counts for this period. */
+  opensAt: string;
+  /** The contest's next reset (or end date), when the period closes. */
+  closesAt: string;
+  /** When the entry is planned to run. */
+  runAt: string;
+  /** Stable per pair and period, so the same entry is never queued twice. */
+  jobId: string;
+  status: PlannedEntryStatus;
+}
+
+export interface EntryPlanOptions {
+  from: Date;
+  to: Date;
+  profileId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** Leave this long after a reset before entering; sponsor sites lag. */
+const RESET_SETTLE_MS = 5 * MINUTE_MS;
+
+/** Finish this long before the window closes, leaving room for retries. */
+const CLOSE_MARGIN_MS = 30 * MINUTE_MS;
+
+/** Windows projected per pair; bounds the work for a long range. */
+const MAX_WINDOWS_PER_PAIR = 62;
+
+/** Prefix of the job IDs recurring entries are queued under. */
+export const RECURRING_JOB_PREFIX = 'recurring-';
+
+// ---------------------------------------------------------------------------
+// EntryCalendar
+// ---------------------------------------------------------------------------
+
+export class EntryCalendar {
+  private readonly db: AppDatabase;
+  private readonly maxEntriesPerHour: number;
+
+  constructor(db: AppDatabase, options?: { maxEntriesPerHour?: number }) {
+    this.db = db;
+    this.maxEntriesPerHour = options?.maxEntriesPerHour ?? DEFAULT_LIMITS.MAX_ENTRIES_PER_HOUR;
+  }
+
+  /**
+   * Plans the recurring entries whose window opens before `to`, sorted by
+   * run time. Windows already under way at `from` are included.
+   *
+   * Pairs held by compliance review, contests paused after a rules change
+   * and pairs that reached the contest's max entries are left out.
+   */
+  plan(options: EntryPlanOptions): PlannedEntry[] {
+    const { from, to } = options;
+
+    const contestRows = this.db
+      .select()
+      .from(contests)
+      .where(
+        and(
+          inArray(contests.entryFrequency, ['daily', 'weekly']),
+          inArray(contests.status, ['active', 'discovered']),
+          isNull(contests.pausedAt),
+        ),
+      )
+      .orderBy(desc(contests.priorityScore))
+      .all();
+
+    const profileRows = this.db
+      .select({ id: profiles.id, firstName: profiles.firstName, lastName: profiles.lastName })
+      .from(profiles)
+      .where(
+        options.profileId
+          ? and(eq(profiles.isActive, 1), eq(profiles.id, options.profileId))
+          : eq(profiles.isActive, 1),
+      )
+      .all();
+
+    if (contestRows.length === 0 || profileRows.length === 0) {
+      return [];
+    }
+
+    const limitRows = this.db
+      .select()
+      .from(entryLimits)
+      .where(inArray(entryLimits.contestId, contestRows.map((c) => c.id)))
+      .all();
+    const limits = new Map(limitRows.map((row) => [`${row.contestId}:${row.profileId}`, row]));
+
+    const reviewQueue = new ReviewQueue(this.db);
+    const windows: PlannedEntry[] = [];
+
+    for (const contest of contestRows) {
+      for (const profile of profileRows) {
+        const limit = limits.get(`${contest.id}:${profile.id}`);
+        if (contest.maxEntries && limit && limit.entryCount >= contest.maxEntries) continue;
+        if (isHeldByReview(reviewQueue, contest.id, profile.id)) continue;
+
+        const eligibleAt = limit?.nextEligibleAt ? new Date(limit.nextEligibleAt) : from;
+        const remaining = contest.maxEntries
+          ? contest.maxEntries - (limit?.entryCount ?? 0)
+          : MAX_WINDOWS_PER_PAIR;
+        windows.push(
+          ...projectWindows(contest, from, to, eligibleAt).slice(0, remaining).map((window) => ({
+            contestId: contest.id,
+            contestTitle: contest.title,
+            profileId: profile.id,
+            profileName: `${profile.firstName} ${profile.lastName}`,
+            frequency: contest.entryFrequency as 'daily' | 'weekly',
+            opensAt: window.opensAt.toISOString(),
+            closesAt: window.closesAt.toISOString(),
+            runAt: spreadRunAt(contest.id, profile.id, window).toISOString(),
+            jobId: `${RECURRING_JOB_PREFIX}${contest.id}-${profile.id}-${window.periodStart.getTime()}`,
+            status: 'planned' as PlannedEntryStatus,
+          })),
+        );
+      }
+    }
+
+    const planned = this.applyHourlyCap(windows);
+    log.debug(
+      { from: from.toISOString(), to: to.toISOString(), entries: planned.length },
+      'Entry plan computed',
+    );
+    return planned;
+  }
+
+  /**
+   * Moves runs out of hours that exceed the hourly cap into the next hour
+   * with room, staying inside each entry's window. Entries that cannot be
+   * placed are marked `over_capacity` at their original time.
+   */
+  private applyHourlyCap(entries: PlannedEntry[]): PlannedEntry[] {
+    const perHour = new Map<number, number>();
+    const sorted = [...entries].sort((a, b) => a.runAt.localeCompare(b.runAt));
+
+    for (const entry of sorted) {
+      const latest = Date.parse(entry.closesAt) - CLOSE_MARGIN_MS;
+      let runAt = Date.parse(entry.runAt);
+      let hour = Math.floor(runAt / HOUR_MS);
+
+      while ((perHour.get(hour) ?? 0) >= this.maxEntriesPerHour && (hour + 1) * HOUR_MS <= latest) {
+        hour += 1;
+        runAt = hour * HOUR_MS + (runAt % HOUR_MS);
+        if (runAt > latest) runAt = hour * HOUR_MS;
+      }
+
+      if ((perHour.get(hour) ?? 0) >= this.maxEntriesPerHour) {
+        entry.status = 'over_capacity';
+        continue;
+      }
+
+      perHour.set(hour, (perHour.get(hour) ?? 0) + 1);
+      entry.runAt = new Date(runAt).toISOString();
+    }
+
+    return sorted.sort((a, b) => a.runAt.localeCompare(b.runAt));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface EntryWindow {
+  /** The reset that starts the period the window belongs to. */
+  periodStart: Date;
+  opensAt: Date;
+  closesAt: Date;
+}
+
+/**
+ * Lists the entry windows of one pair that open before `to`, starting
+ * with the one the pair is next eligible in. Each later window assumes
+ * the previous entry went in at the start of its window.
+ */
+function projectWindows(contest: ContestRow, from: Date, to: Date, eligibleAt: Date): EntryWindow[] {
+  const frequency = contest.entryFrequency as EntryFrequency;
+  const reset = resetWindowOf(contest);
+  const startsAt = contest.startDate ? new Date(contest.startDate) : null;
+  const endsAt = contest.endDate ? new Date(contest.endDate) : null;
+
+  const windows: EntryWindow[] = [];
+  let opensAt = maxDate(eligibleAt, from, startsAt);
+
+  while (opensAt < to && windows.length < MAX_WINDOWS_PER_PAIR) {
+    if (endsAt && opensAt >= endsAt) break;
+
+    const periodStart = resetAtOrBefore(opensAt, reset);
+    const nextReset = nextResetAfter(opensAt, reset);
+    const closesAt = endsAt && endsAt < nextReset ? endsAt : nextReset;
+    windows.push({ periodStart, opensAt, closesAt });
+
+    const next = computeNextEligible(frequency, reset, opensAt);
+    if (!next) break;
+    opensAt = new Date(next);
+  }
+
+  return windows;
+}
+
+/**
+ * Picks a run time for a pair within its period, from a hash of the pair
+ * and period so it does not move between scheduler runs. Periods already
+ * under way run at a spread point if it is still ahead, otherwise as soon
+ * as the window opens.
+ */
+function spreadRunAt(contestId: string, profileId: string, window: EntryWindow): Date {
+  const earliest = window.periodStart.getTime() + RESET_SETTLE_MS;
+  const latest = window.closesAt.getTime() - CLOSE_MARGIN_MS;
+  const opensAt = window.opensAt.getTime();
+
+  if (latest <= earliest) {
+    return window.opensAt;
+  }
+
+  const hash = hashForDedup(`${contestId}:${profileId}:${window.periodStart.getTime()}`);
+  const fraction = parseInt(hash.slice(0, 8), 16) / 0xffffffff;
+  const target = earliest + Math.floor(fraction * (latest - earliest));
+
+  return new Date(Math.max(target, opensAt));
+}
+
+function maxDate(...dates: Array<Date | null>): Date {
+  return new Date(Math.max(...dates.filter((d): d is Date => d !== null).map((d) => d.getTime())));
+}
+
+/**
+ * Returns true when a pair is awaiting review or was rejected on review.
+ * Approved pairs are scheduled normally; the entry worker re-applies the
+ * remembered decision.
+ */
+function isHeldByReview(
+  reviewQueue: ReviewQueue,
+  contestId: string,
+  profileId: string,
+): boolean {
+  const review = reviewQueue.findByPair(contestId, profileId);
+  if (!review || review.status === 'approved') {
+    return false;
+  }
+
+  log.debug(
+    { contestId, profileId, reviewId: review.id, reviewStatus: review.status },
+    'Pair held by compliance review, skipping',
+  );
+  return true;
+}
@@ -6,8 +6,12 @@
  */
 
 // Queue manager
-export { QueueManager } from './queue-manager.js';
-export type { JobData, QueueStatus, QueueManagerOptions } from './queue-manager.js';
+export { QueueManager, getQueueManager } from './queue-manager.js';
+export type { JobData, QueueStatus, QueueManagerOptions, QueueBackend } from './queue-manager.js';
+
+// SQLite job store (Redis-less backend)
+export { SqliteJobStore, SqliteWorker } from './sqlite-job-store.js';
+export type { JobCounts, JobListStatus, DeadLetter, SqliteWorkerOptions } from './sqlite-job-store.js';
 
 // Workers
 export {
@@ -16,6 +20,7 @@ export {
   createEmailWorker,
   createSmsWorker,
   createCleanupWorker,
+  createQueueWorker,
 } from './workers/index.js';
 export type {
   DiscoveryJobData,
@@ -24,12 +29,25 @@ export type {
   SmsJobData,
   CleanupJobData,
   CleanupJobType,
+  QueueWorker,
+  WorkerConnection,
 } from './workers/index.js';
 
 // Schedulers
 export { RecurringEntryScheduler } from './schedulers/recurring-entry-scheduler.js';
 export { DiscoveryScheduler } from './schedulers/discovery-scheduler.js';
 export { HealthCheckScheduler } from './schedulers/health-check-scheduler.js';
+export { ClaimReminderScheduler } from './schedulers/claim-reminder-scheduler.js';
+export { RulesCheckScheduler } from './schedulers/rules-check-scheduler.js';
+export { SnapshotRetentionScheduler } from './schedulers/snapshot-retention-scheduler.js';
+
+// Job flows (entries with verification stages)
+export { JobFlowStore, isFinalAttempt } from './job-flow.js';
+export type { JobFlow, JobFlowStage, FlowStage, FlowStatus, StageStatus, SubmittedEntry } from './job-flow.js';
+
+// Recurring entry planning
+export { EntryCalendar } from './entry-calendar.js';
+export type { PlannedEntry, PlannedEntryStatus, EntryPlanOptions } from './entry-calendar.js';
 
 // Priority calculation
 export { calculatePriority } from './priorities.js';
@@ -39,7 +57,10 @@ export type { PrioritizableContest } from './priorities.js';
 export { RateLimiter } from './rate-limiter.js';
 
 // Circuit breaker
-export { CircuitBreaker, CircuitState } from './circuit-breaker.js';
+export { CircuitBreaker, CircuitState, getCircuitBreaker } from './circuit-breaker.js';
+export type { CircuitBreakerOptions, CircuitChangeReason, CircuitRecord } from './circuit-breaker.js';
+export { SqliteCircuitStore, RedisCircuitStore } from './circuit-store.js';
+export type { CircuitStore, CircuitChange } from './circuit-store.js';
 
 // Redis connection utilities
 export { getRedis, isRedisAvailable, getRedisAvailability, closeRedis } from './redis.js';
@@ -0,0 +1,639 @@
+/**
+ * Job flows for multi-stage entries.
+ *
+ * An entry that needs email confirmation or SMS verification runs as a
+ * flow: the entry job is the parent, and once it submits, one child job
+ * per verification is queued on the `email-verify` and `sms-verify`
+ * queues. Every job of the flow carries the flow's ID as its
+ * `correlationId`, and each stage's status, attempts and errors are kept
+ * in job_flow_stages, so the flow is tracked the same way on BullMQ and
+ * on the SQLite job store.
+ *
+ * The flow sets the entry's combined status: `submitted` while
+ * verifications are outstanding, `confirmed` once every stage completes,
+ * and `failed` when any stage runs out of attempts. A failed
+ * verification is compensated: the stages still waiting are cancelled
+ * and the entry limit slot is given back, so the entry does not count
+ * against the profile. A failed flow can be retried from the failed
+ * stage without submitting the entry again.
+ */
+
+import type { Job, JobsOptions } from 'bullmq';
+import { and, eq, inArray } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { generateId } from '../shared/crypto.js';
+import { eventBus } from '../shared/events.js';
+import { QUEUE_NAMES } from '../shared/constants.js';
+import { entries, jobFlows, jobFlowStages, profiles, smsNumbers } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+import { EntryLimiter } from '../compliance/entry-limiter.js';
+import type { QueueManager } from './queue-manager.js';
+import type { EntryJobData } from './workers/entry-worker.js';
+import type { EmailJobData } from './workers/email-worker.js';
+import type { SmsJobData } from './workers/sms-worker.js';
+
+const log = getLogger('queue', { component: 'job-flow' });
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type FlowRow = typeof jobFlows.$inferSelect;
+type StageRow = typeof jobFlowStages.$inferSelect;
+
+/** A stage of a flow, named after the queue it runs on. */
+export type FlowStage = StageRow['stage'];
+
+export type FlowStatus = FlowRow['status'];
+
+export type StageStatus = StageRow['status'];
+
+export interface JobFlowStage {
+  stage: FlowStage;
+  parentStage: FlowStage | null;
+  jobId: string | null;
+  status: StageStatus;
+  attempts: number;
+  error: string | null;
+  result: unknown;
+  queuedAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface JobFlow {
+  /** The correlation ID every job of the flow carries. */
+  id: string;
+  rootJobId: string;
+  contestId: string;
+  profileId: string;
+  entryId: string | null;
+  status: FlowStatus;
+  failedStage: FlowStage | null;
+  error: string | null;
+  /** What was undone when the flow failed, in order. */
+  compensations: string[];
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  /** In the order they run. */
+  stages: JobFlowStage[];
+}
+
+/** What the entry stage knows when it hands over to the verification stages. */
+export interface SubmittedEntry {
+  entryId: string;
+  contest: { requiresEmailConfirm: number | null; requiresSmsVerify: number | null };
+  profile: { id: string; email: string };
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STAGE_ORDER: FlowStage[] = ['entry', 'email-verify', 'sms-verify'];
+
+const STAGE_LABELS: Record<FlowStage, string> = {
+  entry: 'Entry submission',
+  'email-verify': 'Email confirmation',
+  'sms-verify': 'SMS verification',
+};
+
+/** Stages that have not run to an end yet. */
+const OPEN_STAGE_STATUSES: StageStatus[] = ['pending', 'queued', 'running'];
+
+// ---------------------------------------------------------------------------
+// JobFlowStore
+// ---------------------------------------------------------------------------
+
+export class JobFlowStore {
+  private readonly db: AppDatabase;
+
+  constructor(db: AppDatabase) {
+    this.db = db;
+  }
+
+  // -------------------------------------------------------------------------
+  // Starting flows
+  // -------------------------------------------------------------------------
+
+  /**
+   * Queues an entry job as the parent of a flow. The flow is keyed by the
+   * job ID, so queueing the same job ID again reuses the flow, as the
+   * queue reuses the job.
+   */
+  async queueEntry(
+    queueManager: QueueManager,
+    data: Omit<EntryJobData, 'correlationId'>,
+    options?: JobsOptions,
+  ): Promise<{ job: Job; flow: JobFlow }> {
+    const rootJobId = options?.jobId ?? generateId();
+    const flowId = this.findOrCreate(rootJobId, data.contestId, data.profileId);
+
+    const job = await queueManager.addJob(
+      QUEUE_NAMES.ENTRY,
+      { ...data, correlationId: flowId },
+      { ...options, jobId: rootJobId },
+    );
+
+    this.db
+      .update(jobFlowStages)
+      .set({ status: 'queued', queuedAt: new Date().toISOString() })
+      .where(
+        and(
+          eq(jobFlowStages.flowId, flowId),
+          eq(jobFlowStages.stage, 'entry'),
+          eq(jobFlowStages.status, 'pending'),
+        ),
+      )
+      .run();
+
+    return { job, flow: this.get(flowId)! };
+  }
+
+  /**
+   * Takes a queued entry job that has not started off the queue again,
+   * leaving its flow pending so it can be queued later. Returns false when
+   * the job already started or is gone.
+   */
+  async unqueueEntry(queueManager: QueueManager, rootJobId: string): Promise<boolean> {
+    if (!(await queueManager.removePendingJob(QUEUE_NAMES.ENTRY, rootJobId))) {
+      return false;
+    }
+
+    const flow = this.db.select().from(jobFlows).where(eq(jobFlows.rootJobId, rootJobId)).get();
+    if (flow) {
+      this.db
+        .update(jobFlowStages)
+        .set({ status: 'pending', queuedAt: null })
+        .where(
+          and(
+            eq(jobFlowStages.flowId, flow.id),
+            eq(jobFlowStages.stage, 'entry'),
+            eq(jobFlowStages.status, 'queued'),
+          ),
+        )
+        .run();
+    }
+    return true;
+  }
+
+  // -------------------------------------------------------------------------
+  // Stage transitions (called by the workers)
+  // -------------------------------------------------------------------------
+
+  /**
+   * Marks a stage as running. Returns false when the flow has already
+   * ended, in which case a verification stage is cancelled and its job
+   * should do nothing. A retried entry stage reopens its flow.
+   */
+  stageStarted(flowId: string, stage: FlowStage, attempt: number): boolean {
+    const flow = this.getRow(flowId);
+    if (!flow) return true;
+
+    const now = new Date().toISOString();
+
+    if (flow.status !== 'running') {
+      if (stage !== 'entry') {
+        this.updateOpenStage(flowId, stage, { status: 'cancelled', finishedAt: now });
+        return false;
+      }
+      this.db
+        .update(jobFlows)
+        .set({ status: 'running', failedStage: null, error: null, finishedAt: null, updatedAt: now })
+        .where(eq(jobFlows.id, flowId))
+        .run();
+    }
+
+    this.db
+      .update(jobFlowStages)
+      .set({ status: 'running', attempts: attempt, startedAt: now, finishedAt: null })
+      .where(and(eq(jobFlowStages.flowId, flowId), eq(jobFlowStages.stage, stage)))
+      .run();
+    return true;
+  }
+
+  /**
+   * The entry of a flow, if an earlier attempt created one. Retries of the
+   * entry stage update that entry rather than adding another.
+   */
+  entryOf(flowId: string): string | null {
+    return this.getRow(flowId)?.entryId ?? null;
+  }
+
+  attachEntry(flowId: string, entryId: string): void {
+    this.db
+      .update(jobFlows)
+      .set({ entryId, updatedAt: new Date().toISOString() })
+      .where(eq(jobFlows.id, flowId))
+      .run();
+  }
+
+  /**
+   * Ends a flow whose entry was not made (blocked by compliance or held
+   * for review).
+   */
+  entrySkipped(flowId: string, outcome: string): void {
+    const now = new Date().toISOString();
+    this.finishStage(flowId, 'entry', 'completed', { result: { status: outcome } });
+    this.db
+      .update(jobFlows)
+      .set({ status: 'cancelled', error: `Entry not made: ${outcome}`, finishedAt: now, updatedAt: now })
+      .where(eq(jobFlows.id, flowId))
+      .run();
+  }
+
+  /**
+   * Completes the entry stage and queues the verification stages the
+   * contest needs. Without any, the flow completes here. Returns the
+   * stages queued.
+   */
+  async entrySubmitted(
+    queueManager: QueueManager | undefined,
+    flowId: string,
+    submitted: SubmittedEntry,
+  ): Promise<FlowStage[]> {
+    this.finishStage(flowId, 'entry', 'completed', { result: { entryId: submitted.entryId } });
+
+    const stages: FlowStage[] = [];
+    if (submitted.contest.requiresEmailConfirm) stages.push('email-verify');
+    if (submitted.contest.requiresSmsVerify) stages.push('sms-verify');
+
+    if (stages.length === 0) {
+      this.completeFlow(flowId);
+      return [];
+    }
+
+    this.db
+      .update(entries)
+      .set({ status: 'submitted', confirmedAt: null, updatedAt: new Date().toISOString() })
+      .where(eq(entries.id, submitted.entryId))
+      .run();
+
+    await this.queueStages(queueManager, flowId, stages, submitted);
+    return stages;
+  }
+
+  /**
+   * Records a completed stage, and completes the flow when it was the
+   * last one. Never throws; it runs from worker event handlers.
+   */
+  stageCompleted(flowId: string, stage: FlowStage, result?: unknown): void {
+    try {
+      this.finishStage(flowId, stage, 'completed', { result, onlyIf: 'running' });
+
+      const flow = this.get(flowId);
+      if (flow?.status === 'running' && flow.stages.every((s) => s.status === 'completed')) {
+        this.completeFlow(flowId);
+      }
+    } catch (err) {
+      log.error({ err, flowId, stage }, 'Failed to record completed flow stage');
+    }
+  }
+
+  /**
+   * Records a failed attempt of a stage. On the final attempt the flow
+   * fails and is compensated. Never throws; it runs from worker event
+   * handlers.
+   */
+  stageFailed(flowId: string, stage: FlowStage, error: string, final: boolean): void {
+    try {
+      if (!final) {
+        this.updateOpenStage(flowId, stage, { status: 'queued', error });
+        return;
+      }
+
+      this.finishStage(flowId, stage, 'failed', { error });
+      const flow = this.getRow(flowId);
+      if (flow?.status === 'running') {
+        this.failFlow(flow, stage, error);
+      }
+    } catch (err) {
+      log.error({ err, flowId, stage }, 'Failed to record failed flow stage');
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Retrying
+  // -------------------------------------------------------------------------
+
+  /**
+   * Re-queues the unfinished verification stages of a failed flow, with
+   * the entry, contest and profile of the original submission. The entry
+   * limit slot given back on failure is taken again. Returns the stages
+   * queued, or null when the flow did not fail after its entry was
+   * submitted.
+   */
+  async retry(queueManager: QueueManager, flowId: string): Promise<FlowStage[] | null> {
+    const flow = this.get(flowId);
+    if (!flow || flow.status !== 'failed' || flow.failedStage === 'entry' || !flow.entryId) {
+      return null;
+    }
+
+    const stages = flow.stages
+      .filter((s) => s.stage !== 'entry' && s.status !== 'completed')
+      .map((s) => s.stage);
+    if (stages.length === 0) return null;
+
+    const now = new Date().toISOString();
+    await new EntryLimiter(this.db).recordEntry(flow.contestId, flow.profileId);
+    this.db
+      .update(jobFlows)
+      .set({ status: 'running', failedStage: null, error: null, compensations: '[]', finishedAt: null, updatedAt: now })
+      .where(eq(jobFlows.id, flowId))
+      .run();
+    this.db
+      .update(entries)
+      .set({ status: 'submitted', errorMessage: null, updatedAt: now })
+      .where(eq(entries.id, flow.entryId))
+      .run();
+
+    await this.queueStages(queueManager, flowId, stages, { retry: true });
+    log.info({ flowId, entryId: flow.entryId, stages }, 'Flow retried from its failed stage');
+    return stages;
+  }
+
+  // -------------------------------------------------------------------------
+  // Reading
+  // -------------------------------------------------------------------------
+
+  get(flowId: string): JobFlow | null {
+    const row = this.getRow(flowId);
+    return row ? this.toFlow(row) : null;
+  }
+
+  /** The flow an entry was made by, or null for entries made outside one. */
+  getByEntry(entryId: string): JobFlow | null {
+    const row = this.db.select().from(jobFlows).where(eq(jobFlows.entryId, entryId)).get();
+    return row ? this.toFlow(row) : null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  private findOrCreate(rootJobId: string, contestId: string, profileId: string): string {
+    this.db
+      .insert(jobFlows)
+      .values({ id: generateId(), rootJobId, contestId, profileId })
+      .onConflictDoNothing({ target: jobFlows.rootJobId })
+      .run();
+
+    const flow = this.db.select().from(jobFlows).where(eq(jobFlows.rootJobId, rootJobId)).get()!;
+    this.db
+      .insert(jobFlowStages)
+      .values({ id: generateId(), flowId: flow.id, stage: 'entry', jobId: rootJobId })
+      .onConflictDoNothing()
+      .run();
+
+    return flow.id;
+  }
+
+  /**
+   * Adds verification jobs for a flow. A stage that cannot be queued fails
+   * the flow straight away, since the entry cannot be verified without it.
+   */
+  private async queueStages(
+    queueManager: QueueManager | undefined,
+    flowId: string,
+    stages: FlowStage[],
+    context: Partial<SubmittedEntry> & { retry?: boolean },
+  ): Promise<void> {
+    const flow = this.getRow(flowId);
+    if (!flow?.entryId) return;
+
+    for (const stage of stages) {
+      const jobId = context.retry ? `${flowId}-${stage}-${Date.now()}` : `${flowId}-${stage}`;
+      const now = new Date().toISOString();
+      this.db
+        .insert(jobFlowStages)
+        .values({ id: generateId(), flowId, stage, parentStage: 'entry', jobId, status: 'queued', queuedAt: now })
+        .onConflictDoUpdate({
+          target: [jobFlowStages.flowId, jobFlowStages.stage],
+          set: { jobId, status: 'queued', attempts: 0, error: null, result: null, queuedAt: now, startedAt: null, finishedAt: null },
+        })
+        .run();
+    }
+
+    for (const stage of stages) {
+      const error = await this.addStageJob(queueManager, flow, stage, context.profile?.email);
+      if (error) {
+        this.stageFailed(flowId, stage, error, true);
+        return;
+      }
+    }
+  }
+
+  /** Adds one verification job; returns why it could not be added. */
+  private async addStageJob(
+    queueManager: QueueManager | undefined,
+    flow: FlowRow,
+    stage: FlowStage,
+    email: string | undefined,
+  ): Promise<string | null> {
+    if (!queueManager) {
+      return 'Queue manager unavailable';
+    }
+
+    const entryId = flow.entryId!;
+    const jobId = this.db
+      .select({ jobId: jobFlowStages.jobId })
+      .from(jobFlowStages)
+      .where(and(eq(jobFlowStages.flowId, flow.id), eq(jobFlowStages.stage, stage)))
+      .get()?.jobId ?? undefined;
+
+    try {
+      if (stage === 'email-verify') {
+        const emailAddress = email ?? this.profileEmail(entryId);
+        if (!emailAddress) return 'Entry has no profile email address';
+
+        const data: EmailJobData = { entryId, emailAddress, confirmationType: 'link', correlationId: flow.id };
+        await queueManager.addJob(QUEUE_NAMES.EMAIL_VERIFY, { ...data }, { jobId });
+      } else if (stage === 'sms-verify') {
+        const number = this.db
+          .select()
+          .from(smsNumbers)
+          .where(and(eq(smsNumbers.profileId, flow.profileId), eq(smsNumbers.isActive, 1)))
+          .get();
+        if (!number) return 'No active SMS number for the profile';
+
+        const data: SmsJobData = {
+          entryId,
+          phoneNumber: number.phoneNumber,
+          provider: number.provider,
+          correlationId: flow.id,
+        };
+        await queueManager.addJob(QUEUE_NAMES.SMS_VERIFY, { ...data }, { jobId });
+      }
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  private profileEmail(entryId: string): string | null {
+    return this.db
+      .select({ email: profiles.email })
+      .from(entries)
+      .innerJoin(profiles, eq(entries.profileId, profiles.id))
+      .where(eq(entries.id, entryId))
+      .get()?.email ?? null;
+  }
+
+  private completeFlow(flowId: string): void {
+    const now = new Date().toISOString();
+    const flow = this.db
+      .update(jobFlows)
+      .set({ status: 'completed', finishedAt: now, updatedAt: now })
+      .where(and(eq(jobFlows.id, flowId), eq(jobFlows.status, 'running')))
+      .returning()
+      .get();
+    if (!flow?.entryId) return;
+
+    const verified = this.db
+      .select({ stage: jobFlowStages.stage })
+      .from(jobFlowStages)
+      .where(and(eq(jobFlowStages.flowId, flowId), inArray(jobFlowStages.stage, ['email-verify', 'sms-verify'])))
+      .all();
+    if (verified.length > 0) {
+      this.db
+        .update(entries)
+        .set({ status: 'confirmed', confirmedAt: now, updatedAt: now })
+        .where(eq(entries.id, flow.entryId))
+        .run();
+      eventBus.emit('entry:confirmed', { entryId: flow.entryId });
+    }
+
+    log.info({ flowId, entryId: flow.entryId }, 'Flow completed');
+  }
+
+  /**
+   * Fails a flow. A failed verification also undoes what the submitted
+   * entry set up: open stages are cancelled, the entry limit slot is
+   * released and the entry is marked failed.
+   */
+  private failFlow(flow: FlowRow, stage: FlowStage, error: string): void {
+    const now = new Date().toISOString();
+    const compensations: string[] = [];
+
+    if (stage !== 'entry' && flow.entryId) {
+      const cancelled = this.db
+        .update(jobFlowStages)
+        .set({ status: 'cancelled', finishedAt: now })
+        .where(and(eq(jobFlowStages.flowId, flow.id), inArray(jobFlowStages.status, ['pending', 'queued'])))
+        .returning({ stage: jobFlowStages.stage })
+        .all();
+      for (const { stage: other } of cancelled) {
+        compensations.push(`Cancelled ${STAGE_LABELS[other].toLowerCase()}`);
+      }
+
+      new EntryLimiter(this.db).releaseEntry(flow.contestId, flow.profileId);
+      compensations.push('Released the entry limit slot');
+
+      const message = `${STAGE_LABELS[stage]} failed: ${error}`;
+      this.db
+        .update(entries)
+        .set({ status: 'failed', errorMessage: message, updatedAt: now })
+        .where(eq(entries.id, flow.entryId))
+        .run();
+      compensations.push('Marked the entry failed');
+      eventBus.emit('entry:failed', { entryId: flow.entryId, error: message });
+    }
+
+    this.db
+      .update(jobFlows)
+      .set({
+        status: 'failed',
+        failedStage: stage,
+        error,
+        compensations: JSON.stringify(compensations),
+        finishedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(jobFlows.id, flow.id))
+      .run();
+
+    log.warn({ flowId: flow.id, entryId: flow.entryId, stage, error, compensations }, 'Flow failed');
+  }
+
+  private finishStage(
+    flowId: string,
+    stage: FlowStage,
+    status: 'completed' | 'failed',
+    details: { result?: unknown; error?: string; onlyIf?: StageStatus },
+  ): void {
+    this.db
+      .update(jobFlowStages)
+      .set({
+        status,
+        error: details.error ?? null,
+        result: details.result === undefined ? null : JSON.stringify(details.result),
+        finishedAt: new Date().toISOString(),
+      })
+      .where(
+        and(
+          eq(jobFlowStages.flowId, flowId),
+          eq(jobFlowStages.stage, stage),
+          details.onlyIf ? eq(jobFlowStages.status, details.onlyIf) : undefined,
+        ),
+      )
+      .run();
+  }
+
+  private updateOpenStage(
+    flowId: string,
+    stage: FlowStage,
+    set: Partial<Pick<StageRow, 'status' | 'error' | 'finishedAt'>>,
+  ): void {
+    this.db
+      .update(jobFlowStages)
+      .set(set)
+      .where(
+        and(
+          eq(jobFlowStages.flowId, flowId),
+          eq(jobFlowStages.stage, stage),
+          inArray(jobFlowStages.status, OPEN_STAGE_STATUSES),
+        ),
+      )
+      .run();
+  }
+
+  private getRow(flowId: string): FlowRow | undefined {
+    return this.db.select().from(jobFlows).where(eq(jobFlows.id, flowId)).get();
+  }
+
+  private toFlow(row: FlowRow): JobFlow {
+    const stages = this.db
+      .select()
+      .from(jobFlowStages)
+      .where(eq(jobFlowStages.flowId, row.id))
+      .all()
+      .sort((a, b) => STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage));
+
+    return {
+      ...row,
+      failedStage: row.failedStage as FlowStage | null,
+      compensations: JSON.parse(row.compensations) as string[],
+      stages: stages.map((s) => ({
+        stage: s.stage,
+        parentStage: s.parentStage as FlowStage | null,
+        jobId: s.jobId,
+        status: s.status,
+        attempts: s.attempts,
+        error: s.error,
+        result: s.result ? (JSON.parse(s.result) as unknown) : null,
+        queuedAt: s.queuedAt,
+        startedAt: s.startedAt,
+        finishedAt: s.finishedAt,
+      })),
+    };
+  }
+}
+
+/**
+ * True when a failed job will not be retried: its attempts are used up,
+ * or the worker no longer has it.
+ */
+export function isFinalAttempt(job: Job | undefined): boolean {
+  return !job || job.attemptsMade >= (job.opts.attempts ?? 1);
+}
@@ -6,11 +6,12 @@
  */
 
 import { getLogger } from '../shared/logger.js';
+import { estimateOdds, type OddsContest, type OddsEstimate } from '../intelligence/odds-estimator.js';
 
 const log = getLogger('queue', { component: 'priorities' });
 
 /** Minimal contest shape needed for priority scoring. */
-export interface PrioritizableContest {
+export interface PrioritizableContest extends OddsContest {
   id: string;
   prizeValue: number | null;
   endDate: string | Date | null;
@@ -18,13 +19,19 @@ export interface PrioritizableContest {
   difficultyScore: number | null;
   legitimacyScore: number | null;
   type: string;
+  /**
+   * Precomputed odds (e.g. with domain history from ContestScorer).
+   * Estimated from the contest fields when omitted.
+   */
+  odds?: OddsEstimate;
 }
 
 /**
  * Calculates a priority score (0-100) for a contest based on multiple weighted factors.
  *
  * Factor breakdown:
- *  - Prize value:       up to +30 (logarithmic scale)
+ *  - EV per minute:     up to +20 (logarithmic scale)
+ *  - EV per dollar:     up to +10 (logarithmic scale)
  *  - Time remaining:    up to +20 (urgency bonus for near-deadline)
  *  - Entry frequency:   up to +10 (daily contests get bonus for recurring value)
  *  - Difficulty:        up to +15 (lower difficulty = higher score)
@@ -34,12 +41,17 @@ export interface PrioritizableContest {
 export function calculatePriority(contest: PrioritizableContest): number {
   let score = 0;
 
-  // ---------- Prize value (max +30, log scale) ----------
-  const prizeValue = contest.prizeValue ?? 0;
-  if (prizeValue > 0) {
-    // log10 scale: $10 -> ~10, $100 -> ~20, $1000 -> ~30
-    const logScore = Math.log10(Math.max(1, prizeValue)) * 10;
-    score += Math.min(30, logScore);
+  // ---------- Expected value (max +30, log scale) ----------
+  // Uses estimated odds rather than raw prize value, so a heavily
+  // entered car ranks below a small giveaway with far better odds.
+  const odds = contest.odds ?? estimateOdds(contest);
+  if (odds.evPerMinute > 0) {
+    // $0.001/min -> 0, $0.01 -> ~7, $0.1 -> ~13, $1+/min -> 20
+    score += Math.min(20, Math.max(0, (Math.log10(odds.evPerMinute) + 3) * (20 / 3)));
+  }
+  if (odds.evPerDollar > 0) {
+    // $1 per $ of cost -> 0, $10 -> 5, $100+ -> 10
+    score += Math.min(10, Math.max(0, Math.log10(odds.evPerDollar) * 5));
   }
 
   // ---------- Time remaining (max +20) ----------
@@ -101,7 +113,8 @@ export function calculatePriority(contest: PrioritizableContest): number {
     {
       contestId: contest.id,
       score: finalScore,
-      prizeValue,
+      expectedValue: odds.expectedValue,
+      evPerMinute: odds.evPerMinute,
       type: contest.type,
       entryFrequency: frequency,
     },
@@ -11,17 +11,20 @@
  *  - captcha        : Solve CAPTCHAs (delegated to provider)
  *  - cleanup        : Archive expired data
  *
- * If Redis is unavailable, the manager operates in "fallback" mode where
- * jobs are recorded directly in the SQLite database and processed
- * synchronously. This ensures the platform never crashes due to a
- * missing Redis instance.
+ * If Redis is unavailable, the manager runs in fallback mode on the
+ * durable SQLite job store (see sqlite-job-store.ts): jobs survive
+ * restarts and keep their delays, priorities, retries and concurrency
+ * limits, and every method below behaves the same on either backend.
  */
 
-import { Queue, Worker, type Job, type JobsOptions, QueueEvents } from 'bullmq';
+import { Queue, type Job, type JobsOptions, QueueEvents } from 'bullmq';
 import IORedis from 'ioredis';
 import { getLogger } from '../shared/logger.js';
 import { QUEUE_NAMES } from '../shared/constants.js';
 import { eventBus } from '../shared/events.js';
+import { getDb } from '../db/index.js';
+import { SqliteJobStore, type JobListStatus } from './sqlite-job-store.js';
+import type { QueueWorker, WorkerConnection } from './workers/queue-worker.js';
 import { createDiscoveryWorker } from './workers/discovery-worker.js';
 import { createEntryWorker } from './workers/entry-worker.js';
 import { createEmailWorker } from './workers/email-worker.js';
@@ -47,6 +50,9 @@ export interface QueueStatus {
   paused: number;
 }
 
+/** Where jobs are kept: BullMQ on Redis, or the SQLite job store. */
+export type QueueBackend = 'redis' | 'sqlite';
+
 export interface QueueManagerOptions {
   /** Max concurrent entry workers. Default: 2. */
   entryConcurrency?: number;
@@ -72,49 +78,40 @@ const DEFAULT_JOB_OPTIONS: JobsOptions = {
   },
 };
 
-// ---------------------------------------------------------------------------
-// In-memory fallback queue (used when Redis is not available)
-// ---------------------------------------------------------------------------
-
-interface FallbackJob {
-  id: string;
-  queue: string;
-  name: string;
-  data: JobData;
-  options: JobsOptions;
-  status: 'waiting' | 'active' | 'completed' | 'failed';
-  createdAt: number;
-  completedAt?: number;
-  error?: string;
-}
-
 // ---------------------------------------------------------------------------
 // QueueManager
 // ---------------------------------------------------------------------------
 
 export class QueueManager {
   private queues = new Map<string, Queue>();
-  private workers = new Map<string, Worker>();
+  private workers = new Map<string, QueueWorker>();
   private queueEvents = new Map<string, QueueEvents>();
   private connection: IORedis | null = null;
+  private store: SqliteJobStore | null = null;
   private initialized = false;
-  private fallbackMode = false;
-  private fallbackJobs: FallbackJob[] = [];
-  private fallbackJobCounter = 0;
 
   /** Returns true if the manager is operating without Redis. */
   get isFallbackMode(): boolean {
-    return this.fallbackMode;
+    return this.store !== null;
+  }
+
+  /** The backend jobs are kept in. */
+  get backend(): QueueBackend {
+    return this.store ? 'sqlite' : 'redis';
+  }
+
+  /** The shared Redis connection, or null on the SQLite backend. */
+  getRedisConnection(): IORedis | null {
+    return this.connection;
   }
 
   /**
    * Initializes all queues and workers with the given Redis connection URL.
    * Must be called before any other method.
    *
-   * If Redis is unreachable, falls back to an in-memory job store so that
-   * the rest of the platform can continue to function (jobs will be logged
-   * to the database and processed when Redis becomes available, or handled
-   * synchronously in degraded mode).
+   * If Redis is unreachable, falls back to the SQLite job store so that
+   * the rest of the platform can continue to function with the same
+   * workers.
    */
   async initialize(
     redisUrl: string,
@@ -130,12 +127,17 @@ export class QueueManager {
     // Attempt to connect to Redis with a timeout
     const redisAvailable = await this.testRedisConnection(redisUrl);
 
+    // Worker concurrency (same on either backend)
+    const entryConcurrency = options?.entryConcurrency ?? 2;
+    const discoveryConcurrency = options?.discoveryConcurrency ?? 3;
+
     if (!redisAvailable) {
       log.warn(
         'Redis is not available. QueueManager entering fallback mode. ' +
-        'Jobs will be stored in-memory and processed when workers are available.',
+        'Jobs will be stored in the SQLite job store.',
       );
-      this.fallbackMode = true;
+      this.store = new SqliteJobStore(getDb());
+      this.createWorkers(entryConcurrency, discoveryConcurrency);
       this.initialized = true;
       return;
     }
@@ -185,9 +187,6 @@ export class QueueManager {
     }
 
     // Create workers
-    const entryConcurrency = options?.entryConcurrency ?? 2;
-    const discoveryConcurrency = options?.discoveryConcurrency ?? 3;
-
     this.createWorkers(entryConcurrency, discoveryConcurrency);
 
     this.initialized = true;
@@ -199,27 +198,21 @@ export class QueueManager {
 
   /**
    * Adds a job to the specified queue.
-   * In fallback mode, stores the job in-memory and returns a stub Job object.
    */
   async addJob(
     queueName: string,
     data: JobData,
     options?: JobsOptions,
   ): Promise<Job> {
-    if (this.fallbackMode) {
-      return this.addFallbackJob(queueName, data, options);
-    }
-
-    const queue = this.getQueue(queueName);
     const jobName = `${queueName}-job`;
+    const jobOptions = { ...DEFAULT_JOB_OPTIONS, ...options };
 
-    const job = await queue.add(jobName, data, {
-      ...DEFAULT_JOB_OPTIONS,
-      ...options,
-    });
+    const job = this.store
+      ? this.store.add(this.assertQueueName(queueName), jobName, data, jobOptions)
+      : await this.getQueue(queueName).add(jobName, data, jobOptions);
 
     log.info(
-      { queueName, jobId: job.id, jobName },
+      { queueName, jobId: job.id, jobName, backend: this.backend },
       'Job added to queue',
     );
 
@@ -230,8 +223,8 @@ export class QueueManager {
    * Returns the count of jobs by status for a single queue.
    */
   async getQueueStatus(queueName: string): Promise<QueueStatus> {
-    if (this.fallbackMode) {
-      return this.getFallbackQueueStatus(queueName);
+    if (this.store) {
+      return { ...this.store.counts(this.assertQueueName(queueName)), paused: 0 };
     }
 
     const queue = this.getQueue(queueName);
@@ -254,10 +247,7 @@ export class QueueManager {
   async getAllQueuesStatus(): Promise<Record<string, QueueStatus>> {
     const result: Record<string, QueueStatus> = {};
 
-    // In fallback mode, iterate over all known queue names from constants
-    const entries = this.fallbackMode
-      ? Object.values(QUEUE_NAMES)
-      : Array.from(this.queues.keys());
+    const entries = this.queueNames();
 
     const statuses = await Promise.all(
       entries.map((name) => this.getQueueStatus(name)),
@@ -274,12 +264,38 @@ export class QueueManager {
     return result;
   }
 
+  /**
+   * Returns jobs of a queue in the given status, newest first except for
+   * waiting and delayed jobs, which are listed in the order they will run.
+   */
+  async listJobs(queueName: string, status: JobListStatus, limit: number): Promise<Job[]> {
+    if (this.store) {
+      return this.store.list(this.assertQueueName(queueName), status, limit);
+    }
+
+    const queue = this.getQueue(queueName);
+    return queue.getJobs([status === 'waiting' ? 'wait' : status], 0, limit - 1);
+  }
+
+  /**
+   * Returns true if processing of the queue is paused.
+   */
+  async isPaused(queueName: string): Promise<boolean> {
+    if (this.store) {
+      return this.store.isPaused(this.assertQueueName(queueName));
+    }
+    return this.getQueue(queueName).isPaused();
+  }
+
   /**
    * Pauses processing for a specific queue.
    */
   async pauseQueue(queueName: string): Promise<void> {
-    const queue = this.getQueue(queueName);
-    await queue.pause();
+    if (this.store) {
+      this.store.setPaused(this.assertQueueName(queueName), true);
+    } else {
+      await this.getQueue(queueName).pause();
+    }
     log.info({ queueName }, 'Queue paused');
   }
 
@@ -287,8 +303,11 @@ export class QueueManager {
    * Resumes processing for a specific queue.
    */
   async resumeQueue(queueName: string): Promise<void> {
-    const queue = this.getQueue(queueName);
-    await queue.resume();
+    if (this.store) {
+      this.store.setPaused(this.assertQueueName(queueName), false);
+    } else {
+      await this.getQueue(queueName).resume();
+    }
     log.info({ queueName }, 'Queue resumed');
   }
 
@@ -296,8 +315,7 @@ export class QueueManager {
    * Pauses all queues.
    */
   async pauseAll(): Promise<void> {
-    const names = Array.from(this.queues.keys());
-    await Promise.all(names.map((name) => this.pauseQueue(name)));
+    await Promise.all(this.queueNames().map((name) => this.pauseQueue(name)));
     log.info('All queues paused');
   }
 
@@ -305,8 +323,7 @@ export class QueueManager {
    * Resumes all queues.
    */
   async resumeAll(): Promise<void> {
-    const names = Array.from(this.queues.keys());
-    await Promise.all(names.map((name) => this.resumeQueue(name)));
+    await Promise.all(this.queueNames().map((name) => this.resumeQueue(name)));
     log.info('All queues resumed');
   }
 
@@ -320,7 +337,6 @@ export class QueueManager {
     grace: number,
     status: string,
   ): Promise<void> {
-    const queue = this.getQueue(queueName);
     const validStatuses = ['completed', 'failed', 'delayed', 'wait', 'active'] as const;
     type CleanStatus = (typeof validStatuses)[number];
 
@@ -330,21 +346,89 @@ export class QueueManager {
       );
     }
 
-    const removed = await queue.clean(grace, 1000, status as CleanStatus);
+    const removedCount = this.store
+      ? this.store.clean(this.assertQueueName(queueName), grace, status === 'wait' ? 'waiting' : (status as JobListStatus), 1000)
+      : (await this.getQueue(queueName).clean(grace, 1000, status as CleanStatus)).length;
+
     log.info(
-      { queueName, status, grace, removedCount: removed.length },
+      { queueName, status, grace, removedCount },
       'Queue cleaned',
     );
   }
 
+  /**
+   * Moves failed jobs of a queue back to waiting with fresh attempts.
+   * Returns the number of jobs retried.
+   */
+  async retryFailedJobs(queueName: string, limit: number = 500): Promise<number> {
+    if (this.store) {
+      return this.store.retryFailed(this.assertQueueName(queueName), limit);
+    }
+
+    let retried = 0;
+    for (const job of await this.getQueue(queueName).getFailed(0, limit - 1)) {
+      try {
+        await job.retry();
+        retried++;
+      } catch {
+        // Job may have been removed or already retried
+      }
+    }
+    return retried;
+  }
+
+  /**
+   * Removes failed jobs of a queue, clearing its dead letters.
+   * Returns the number of jobs removed.
+   */
+  async removeFailedJobs(queueName: string, limit: number = 1000): Promise<number> {
+    if (this.store) {
+      return this.store.removeFailed(this.assertQueueName(queueName), limit);
+    }
+
+    let removed = 0;
+    for (const job of await this.getQueue(queueName).getFailed(0, limit - 1)) {
+      try {
+        await job.remove();
+        removed++;
+      } catch {
+        // Already removed
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Removes a job that has not started yet (waiting or delayed). Returns
+   * false when the job is missing or already running or finished.
+   */
+  async removePendingJob(queueName: string, jobId: string): Promise<boolean> {
+    if (this.store) {
+      return this.store.removePending(this.assertQueueName(queueName), jobId);
+    }
+
+    const job = await this.getQueue(queueName).getJob(jobId);
+    if (!job) return false;
+
+    const state = await job.getState();
+    if (state !== 'waiting' && state !== 'delayed' && state !== 'prioritized') return false;
+    try {
+      await job.remove();
+      return true;
+    } catch {
+      // Picked up by a worker meanwhile
+      return false;
+    }
+  }
+
   /**
    * Returns failed jobs that have exhausted all retry attempts (dead letter jobs).
    */
   async getDeadLetterJobs(limit: number = 100): Promise<Job[]> {
     const deadLetterJobs: Job[] = [];
 
-    for (const [_name, queue] of this.queues) {
-      const failedJobs = await queue.getFailed(0, limit);
+    for (const name of this.queueNames()) {
+      const failedJobs = await this.listJobs(name, 'failed', limit);
       for (const job of failedJobs) {
         const maxAttempts = job.opts.attempts ?? DEFAULT_JOB_OPTIONS.attempts ?? 3;
         if (job.attemptsMade >= maxAttempts) {
@@ -364,9 +448,17 @@ export class QueueManager {
    * Returns the number of jobs retried.
    */
   async retryDeadLetterJobs(): Promise<number> {
-    const deadLetterJobs = await this.getDeadLetterJobs(1000);
     let retriedCount = 0;
 
+    if (this.store) {
+      for (const name of this.queueNames()) {
+        retriedCount += this.store.retryFailed(name, 1000);
+      }
+      log.info({ retriedCount }, 'Dead letter jobs retried');
+      return retriedCount;
+    }
+
+    const deadLetterJobs = await this.getDeadLetterJobs(1000);
     for (const job of deadLetterJobs) {
       try {
         await job.retry();
@@ -416,6 +508,7 @@ export class QueueManager {
       this.connection.disconnect();
       this.connection = null;
     }
+    this.store = null;
 
     this.initialized = false;
     log.info('QueueManager shut down successfully');
@@ -450,6 +543,20 @@ export class QueueManager {
     }
   }
 
+  /** Every managed queue: all of QUEUE_NAMES on either backend. */
+  private queueNames(): string[] {
+    return this.store ? Object.values(QUEUE_NAMES) : Array.from(this.queues.keys());
+  }
+
+  private assertQueueName(queueName: string): string {
+    if (!(Object.values(QUEUE_NAMES) as string[]).includes(queueName)) {
+      throw new Error(
+        `Queue "${queueName}" not found. Available queues: ${Object.values(QUEUE_NAMES).join(', ')}`,
+      );
+    }
+    return queueName;
+  }
+
   private getQueue(queueName: string): Queue {
     const queue = this.queues.get(queueName);
     if (!queue) {
@@ -464,38 +571,56 @@ export class QueueManager {
     entryConcurrency: number,
     discoveryConcurrency: number,
   ): void {
-    if (!this.connection) {
-      throw new Error('Redis connection not established');
-    }
+    // Each BullMQ worker gets its own Redis connection; SQLite workers share the store
+    const store = this.store;
+    const connection = this.connection;
+    const workerConnection = (): WorkerConnection => {
+      if (store) return store;
+      if (!connection) throw new Error('Redis connection not established');
+      return connection.duplicate();
+    };
 
     // Discovery worker
     const discoveryWorker = createDiscoveryWorker(
-      this.connection.duplicate(),
+      workerConnection(),
       discoveryConcurrency,
     );
     this.workers.set(QUEUE_NAMES.DISCOVERY, discoveryWorker);
 
     // Entry worker
     const entryWorker = createEntryWorker(
-      this.connection.duplicate(),
+      workerConnection(),
       entryConcurrency,
     );
     this.workers.set(QUEUE_NAMES.ENTRY, entryWorker);
 
     // Email verification worker
-    const emailWorker = createEmailWorker(this.connection.duplicate());
+    const emailWorker = createEmailWorker(workerConnection());
     this.workers.set(QUEUE_NAMES.EMAIL_VERIFY, emailWorker);
 
     // SMS verification worker
-    const smsWorker = createSmsWorker(this.connection.duplicate());
+    const smsWorker = createSmsWorker(workerConnection());
     this.workers.set(QUEUE_NAMES.SMS_VERIFY, smsWorker);
 
     // Cleanup worker
-    const cleanupWorker = createCleanupWorker(this.connection.duplicate());
+    const cleanupWorker = createCleanupWorker(workerConnection());
     this.workers.set(QUEUE_NAMES.CLEANUP, cleanupWorker);
 
+    // BullMQ reports job outcomes through QueueEvents; the SQLite store through its workers
+    if (store) {
+      for (const [name, worker] of this.workers) {
+        worker.on('completed', (job) => {
+          eventBus.emit('queue:job:completed', { queue: name, jobId: job.id ?? '' });
+        });
+        worker.on('failed', (job, error) => {
+          eventBus.emit('queue:job:failed', { queue: name, jobId: job?.id ?? '', error: error.message });
+        });
+      }
+    }
+
     log.info(
       {
+        backend: this.backend,
         workers: Array.from(this.workers.keys()),
         entryConcurrency,
         discoveryConcurrency,
@@ -503,71 +628,12 @@ export class QueueManager {
       'Workers created',
     );
   }
+}
 
-  // -------------------------------------------------------------------------
-  // Fallback mode helpers (in-memory job store when Redis is unavailable)
-  // -------------------------------------------------------------------------
-
-  private addFallbackJob(
-    queueName: string,
-    data: JobData,
-    _options?: JobsOptions,
-  ): Job {
-    this.fallbackJobCounter += 1;
-    const jobId = `fallback-${this.fallbackJobCounter}`;
-
-    const fallbackJob: FallbackJob = {
-      id: jobId,
-      queue: queueName,
-      name: `${queueName}-job`,
-      data,
-      options: _options ?? DEFAULT_JOB_OPTIONS,
-      status: 'waiting',
-      createdAt: Date.now(),
-    };
-
-    this.fallbackJobs.push(fallbackJob);
-
-    log.info(
-      { queueName, jobId, fallbackMode: true },
-      'Job stored in fallback queue (Redis unavailable)',
-    );
-
-    // Return a stub Job object that satisfies the minimal Job interface
-    // used by callers (they only access .id and occasionally .data)
-    return {
-      id: jobId,
-      name: fallbackJob.name,
-      data,
-      opts: _options ?? {},
-      timestamp: fallbackJob.createdAt,
-      attemptsMade: 0,
-      updateProgress: async () => {},
-    } as unknown as Job;
-  }
-
-  private getFallbackQueueStatus(queueName: string): QueueStatus {
-    const jobs = this.fallbackJobs.filter((j) => j.queue === queueName);
-    return {
-      waiting: jobs.filter((j) => j.status === 'waiting').length,
-      active: jobs.filter((j) => j.status === 'active').length,
-      completed: jobs.filter((j) => j.status === 'completed').length,
-      failed: jobs.filter((j) => j.status === 'failed').length,
-      delayed: 0,
-      paused: 0,
-    };
-  }
-
-  /**
-   * Returns all pending fallback jobs for a given queue.
-   * Useful for draining the fallback store when Redis becomes available.
-   */
-  getFallbackJobs(queueName?: string): FallbackJob[] {
-    if (queueName) {
-      return this.fallbackJobs.filter(
-        (j) => j.queue === queueName && j.status === 'waiting',
-      );
-    }
-    return this.fallbackJobs.filter((j) => j.status === 'waiting');
-  }
+/**
+ * Returns the QueueManager created at startup, or undefined when it was
+ * not created or failed to initialize.
+ */
+export function getQueueManager(): QueueManager | undefined {
+  return (globalThis as Record<string, unknown>)['__queueManager'] as QueueManager | undefined;
 }
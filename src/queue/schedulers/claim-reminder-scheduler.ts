@@ -0,0 +1,87 @@
+/**
+ * Win claim deadline scheduler.
+ *
+ * - Every 15 minutes: send claim reminders that have come due
+ *   (72h, 24h and 4h before each open win's claim deadline)
+ * - Every hour:       enqueue the cleanup job that expires overdue wins
+ */
+
+import cron from 'node-cron';
+import { getLogger } from '../../shared/logger.js';
+import { QUEUE_NAMES } from '../../shared/constants.js';
+import { getDb } from '../../db/index.js';
+import { ClaimWorkflow } from '../../notification/claim-workflow.js';
+import { NotificationManager } from '../../notification/notification-manager.js';
+import type { QueueManager } from '../queue-manager.js';
+import type { CleanupJobData } from '../workers/cleanup-worker.js';
+
+const log = getLogger('queue', { component: 'claim-reminder-scheduler' });
+
+type CronTask = ReturnType<typeof cron.schedule>;
+
+export class ClaimReminderScheduler {
+  private readonly queueManager: QueueManager;
+  private readonly notificationManager: NotificationManager;
+  private cronJobs: CronTask[] = [];
+  private running = false;
+
+  constructor(queueManager: QueueManager, notificationManager?: NotificationManager) {
+    this.queueManager = queueManager;
+    this.notificationManager = notificationManager ?? new NotificationManager();
+  }
+
+  /**
+   * Starts the reminder and expiry cron jobs.
+   */
+  start(): void {
+    if (this.running) {
+      log.warn('ClaimReminderScheduler already running');
+      return;
+    }
+
+    this.notificationManager.initialize();
+
+    const reminderCron = cron.schedule('*/15 * * * *', () => {
+      this.sendReminders().catch((err) => {
+        log.error({ err }, 'Claim reminder run failed');
+      });
+    });
+    this.cronJobs.push(reminderCron);
+
+    const expiryCron = cron.schedule('5 * * * *', () => {
+      this.enqueueExpiry().catch((err) => {
+        log.error({ err }, 'Failed to enqueue win expiry job');
+      });
+    });
+    this.cronJobs.push(expiryCron);
+
+    this.running = true;
+    log.info('ClaimReminderScheduler started');
+  }
+
+  /**
+   * Stops all cron jobs.
+   */
+  stop(): void {
+    for (const job of this.cronJobs) {
+      job.stop();
+    }
+    this.cronJobs = [];
+    this.running = false;
+    log.info('ClaimReminderScheduler stopped');
+  }
+
+  private async sendReminders(): Promise<void> {
+    const sent = await new ClaimWorkflow(getDb()).sendDueReminders(this.notificationManager);
+    if (sent > 0) {
+      log.info({ sent }, 'Claim deadline reminders sent');
+    } else {
+      log.debug('No claim reminders due');
+    }
+  }
+
+  private async enqueueExpiry(): Promise<void> {
+    const data: CleanupJobData = { type: 'expire-wins' };
+    await this.queueManager.addJob(QUEUE_NAMES.CLEANUP, { ...data });
+  }
+}
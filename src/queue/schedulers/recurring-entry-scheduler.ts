@@ -1,21 +1,37 @@
 /**
  * Recurring entry scheduler.
  *
- * Periodically finds contests eligible for re-entry (daily/weekly) and
- * queues entry jobs for eligible profile+contest pairs.
+ * Every 15 minutes, builds the day's entry plan with the
+ * EntryPlanOptimizer and queues the selected entries that start within
+ * the next hour as delayed jobs. The plan picks the daily and weekly
+ * contest/profile pairs worth the most within the daily and hourly entry
+ * caps, the daily budget and the browser pool, and places each inside its
+ * contest's entry window, before the contest's next reset in the
+ * sponsor's time zone.
  *
- * Schedules:
- * - Every 6 hours: daily contests
- * - Every day at midnight: weekly contests
+ * Job IDs are derived from the pair and entry period, so overlapping runs
+ * never queue the same entry twice. Entries made this hour and jobs still
+ * queued count against the caps; delayed entries an earlier run queued
+ * are taken off the queue when the new plan drops them, and queued again
+ * when it moves them. Each entry is queued as the parent of
+ * a job flow, which runs its email and SMS verifications after it submits.
+ * Pairs that are awaiting compliance review, or that a reviewer rejected,
+ * are not queued. Contests paused after a rules change are skipped.
  */
 
 import cron from 'node-cron';
-import { and, eq, sql, desc, inArray } from 'drizzle-orm';
+import { inArray } from 'drizzle-orm';
 import { getLogger } from '../../shared/logger.js';
-import { QUEUE_NAMES } from '../../shared/constants.js';
+import { DEFAULT_LIMITS, QUEUE_NAMES } from '../../shared/constants.js';
 import { eventBus } from '../../shared/events.js';
 import { getDb, schema } from '../../db/index.js';
-import { calculatePriority } from '../priorities.js';
+import {
+  EntryPlanOptimizer,
+  type PlanConstraints,
+  type PlannedSlot,
+} from '../../intelligence/entry-plan-optimizer.js';
+import { RECURRING_JOB_PREFIX } from '../entry-calendar.js';
+import { JobFlowStore } from '../job-flow.js';
 import type { QueueManager } from '../queue-manager.js';
 
 const log = getLogger('queue', { component: 'recurring-entry-scheduler' });
@@ -23,24 +39,36 @@ const log = getLogger('queue', { component: 'recurring-entry-scheduler' });
 /** node-cron ScheduledTask type. */
 type CronTask = ReturnType<typeof cron.schedule>;
 
+/** How far ahead of its run time an entry is queued. */
+const LOOKAHEAD_MS = 60 * 60 * 1000;
+
+/** A queued entry whose planned start moved by less than this keeps its job. */
+const RESCHEDULE_TOLERANCE_MS = 60 * 1000;
+
+/** Delayed entry jobs checked against the new plan per run. */
+const DELAYED_JOBS_LIMIT = 1000;
+
 export class RecurringEntryScheduler {
   private readonly queueManager: QueueManager;
-  private readonly maxEntriesPerHour: number;
+  private readonly constraints: PlanConstraints;
   private cronJobs: CronTask[] = [];
   private running = false;
 
   constructor(
     queueManager: QueueManager,
-    options?: {
-      maxEntriesPerHour?: number;
-    },
+    options?: Partial<PlanConstraints>,
   ) {
     this.queueManager = queueManager;
-    this.maxEntriesPerHour = options?.maxEntriesPerHour ?? 20;
+    this.constraints = {
+      maxEntriesPerHour: options?.maxEntriesPerHour ?? 20,
+      maxEntriesPerDay: options?.maxEntriesPerDay ?? DEFAULT_LIMITS.MAX_ENTRIES_PER_DAY,
+      dailyBudget: options?.dailyBudget ?? DEFAULT_LIMITS.DAILY_BUDGET_USD,
+      browserInstances: options?.browserInstances ?? DEFAULT_LIMITS.MAX_BROWSER_INSTANCES,
+    };
   }
 
   /**
-   * Starts the cron jobs for recurring entry scheduling.
+   * Starts the cron job for recurring entry scheduling.
    */
   start(): void {
     if (this.running) {
@@ -48,27 +76,16 @@ export class RecurringEntryScheduler {
       return;
     }
 
-    // Every 6 hours: check for daily contests
-    const dailyCron = cron.schedule('0 */6 * * *', () => {
-      this.scheduleDailyEntries().catch((err) => {
-        log.error({ err }, 'Failed to schedule daily entries');
-      });
-    });
-    this.cronJobs.push(dailyCron);
-
-    // Every day at midnight: check for weekly contests
-    const weeklyCron = cron.schedule('0 0 * * *', () => {
-      this.scheduleWeeklyEntries().catch((err) => {
-        log.error({ err }, 'Failed to schedule weekly entries');
+    // Every 15 minutes: queue entries whose run time is within the lookahead
+    const entryCron = cron.schedule('*/15 * * * *', () => {
+      this.scheduleDueEntries().catch((err) => {
+        log.error({ err }, 'Failed to schedule recurring entries');
       });
     });
-    this.cronJobs.push(weeklyCron);
+    this.cronJobs.push(entryCron);
 
     this.running = true;
-    log.info(
-      { maxEntriesPerHour: this.maxEntriesPerHour },
-      'RecurringEntryScheduler started',
-    );
+    log.info({ constraints: this.constraints }, 'RecurringEntryScheduler started');
   }
 
   /**
@@ -88,240 +105,107 @@ export class RecurringEntryScheduler {
   // -------------------------------------------------------------------------
 
   /**
-   * Finds daily-entry contests and queues entries for eligible profiles.
+   * Queues the entries the day's plan starts within the lookahead as
+   * delayed jobs.
    */
-  private async scheduleDailyEntries(): Promise<void> {
-    log.info('Checking for daily contest entries...');
-
+  private async scheduleDueEntries(): Promise<void> {
     const db = getDb();
+    const horizon = Date.now() + LOOKAHEAD_MS;
 
-    // Find active contests with daily entry frequency
-    const dailyContests = await db
-      .select()
-      .from(schema.contests)
-      .where(
-        and(
-          eq(schema.contests.entryFrequency, 'daily'),
-          inArray(schema.contests.status, ['active', 'discovered']),
-        ),
-      )
-      .orderBy(desc(schema.contests.priorityScore));
+    const plan = await new EntryPlanOptimizer(db).plan(this.constraints, {
+      queueManager: this.queueManager,
+    });
+    const due = plan.selected.filter((entry) => Date.parse(entry.startAt) < horizon);
+    const flows = new JobFlowStore(db);
+    const unqueuedCount = await this.unqueueReplanned(flows, due);
 
-    if (dailyContests.length === 0) {
-      log.info('No daily contests found');
+    if (due.length === 0) {
+      log.debug({ binding: plan.binding, entriesUnqueued: unqueuedCount }, 'No recurring entries due');
       return;
     }
 
-    // Get all active profiles
-    const activeProfiles = await db
-      .select({ id: schema.profiles.id })
-      .from(schema.profiles)
-      .where(eq(schema.profiles.isActive, 1));
-
-    if (activeProfiles.length === 0) {
-      log.info('No active profiles found');
-      return;
-    }
+    const contestRows = await db
+      .select()
+      .from(schema.contests)
+      .where(inArray(schema.contests.id, [...new Set(due.map((e) => e.contestId))]));
+    const contestsById = new Map(contestRows.map((c) => [c.id, c]));
 
     let queuedCount = 0;
-    const todayStart = new Date();
-    todayStart.setHours(0, 0, 0, 0);
-    const todayStartIso = todayStart.toISOString();
-
-    for (const contest of dailyContests) {
-      // Rate limit check
-      if (queuedCount >= this.maxEntriesPerHour) {
-        log.info(
-          { queuedCount, limit: this.maxEntriesPerHour },
-          'Rate limit reached, stopping daily scheduling',
-        );
-        break;
-      }
-
-      for (const profile of activeProfiles) {
-        if (queuedCount >= this.maxEntriesPerHour) break;
-
-        // Check if this profile has already entered today
-        const recentEntries = await db
-          .select({ id: schema.entryLimits.id })
-          .from(schema.entryLimits)
-          .where(
-            and(
-              eq(schema.entryLimits.contestId, contest.id),
-              eq(schema.entryLimits.profileId, profile.id),
-              sql`${schema.entryLimits.lastEntryAt} >= ${todayStartIso}`,
-            ),
-          )
-          .limit(1);
-
-        if (recentEntries.length > 0) {
-          log.debug(
-            { contestId: contest.id, profileId: profile.id },
-            'Profile already entered today, skipping',
-          );
-          continue;
-        }
 
-        // Calculate priority and queue the entry
-        const priority = calculatePriority({
-          id: contest.id,
-          prizeValue: contest.prizeValue,
-          endDate: contest.endDate,
-          entryFrequency: contest.entryFrequency,
-          difficultyScore: contest.difficultyScore,
-          legitimacyScore: contest.legitimacyScore,
-          type: contest.type,
-        });
+    for (const entry of due) {
+      const contest = contestsById.get(entry.contestId);
+      if (!contest) continue;
 
-        await this.queueManager.addJob(
-          QUEUE_NAMES.ENTRY,
-          {
-            contestId: contest.id,
-            profileId: profile.id,
-            contestUrl: contest.url,
-            entryMethod: contest.entryMethod,
-            priority,
-          },
-          {
-            priority: Math.max(1, 100 - priority), // BullMQ: lower number = higher priority
-            delay: queuedCount * 3000, // Stagger entries by 3 seconds
-          },
-        );
-
-        eventBus.emit('entry:queued', {
+      await flows.queueEntry(
+        this.queueManager,
+        {
           contestId: contest.id,
-          profileId: profile.id,
-          jobId: `daily-${contest.id}-${profile.id}`,
-        });
+          profileId: entry.profileId,
+          contestUrl: contest.url,
+          entryMethod: contest.entryMethod,
+          priority: entry.priority,
+        },
+        {
+          jobId: entry.jobId, // one job per pair and entry period
+          priority: Math.max(1, 100 - entry.priority), // BullMQ: lower number = higher priority
+          delay: Math.max(0, Date.parse(entry.startAt) - Date.now()),
+        },
+      );
+
+      eventBus.emit('entry:queued', {
+        contestId: contest.id,
+        profileId: entry.profileId,
+        jobId: entry.jobId,
+      });
 
-        queuedCount += 1;
-      }
+      queuedCount += 1;
+    }
+
+    if (plan.skipped.length > 0) {
+      log.info(
+        { skipped: plan.skipped.length, binding: plan.binding },
+        'Some recurring entries were left out of today\'s plan',
+      );
     }
 
     log.info(
       {
-        dailyContests: dailyContests.length,
-        activeProfiles: activeProfiles.length,
         entriesQueued: queuedCount,
+        entriesUnqueued: unqueuedCount,
+        plannedToday: plan.totals.entries,
+        expectedValue: plan.totals.expectedValue,
+        projectedCost: plan.totals.cost,
       },
-      'Daily entry scheduling completed',
+      'Recurring entry scheduling completed',
     );
   }
 
   /**
-   * Finds weekly-entry contests and queues entries for eligible profiles.
+   * Takes the delayed recurring entries earlier runs queued off the queue
+   * when the new plan no longer starts them within the lookahead, or starts
+   * them at another time; moved entries are queued again at their new
+   * time. Returns the number taken off.
    */
-  private async scheduleWeeklyEntries(): Promise<void> {
-    log.info('Checking for weekly contest entries...');
-
-    const db = getDb();
-
-    // Find active contests with weekly entry frequency
-    const weeklyContests = await db
-      .select()
-      .from(schema.contests)
-      .where(
-        and(
-          eq(schema.contests.entryFrequency, 'weekly'),
-          inArray(schema.contests.status, ['active', 'discovered']),
-        ),
-      )
-      .orderBy(desc(schema.contests.priorityScore));
-
-    if (weeklyContests.length === 0) {
-      log.info('No weekly contests found');
-      return;
-    }
-
-    // Get all active profiles
-    const activeProfiles = await db
-      .select({ id: schema.profiles.id })
-      .from(schema.profiles)
-      .where(eq(schema.profiles.isActive, 1));
-
-    if (activeProfiles.length === 0) {
-      log.info('No active profiles found');
-      return;
-    }
-
-    let queuedCount = 0;
-    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-
-    for (const contest of weeklyContests) {
-      if (queuedCount >= this.maxEntriesPerHour) {
-        log.info(
-          { queuedCount, limit: this.maxEntriesPerHour },
-          'Rate limit reached, stopping weekly scheduling',
-        );
-        break;
-      }
-
-      for (const profile of activeProfiles) {
-        if (queuedCount >= this.maxEntriesPerHour) break;
-
-        // Check if this profile has entered within the last 7 days
-        const recentEntries = await db
-          .select({ id: schema.entryLimits.id })
-          .from(schema.entryLimits)
-          .where(
-            and(
-              eq(schema.entryLimits.contestId, contest.id),
-              eq(schema.entryLimits.profileId, profile.id),
-              sql`${schema.entryLimits.lastEntryAt} >= ${weekAgo}`,
-            ),
-          )
-          .limit(1);
-
-        if (recentEntries.length > 0) {
-          log.debug(
-            { contestId: contest.id, profileId: profile.id },
-            'Profile already entered this week, skipping',
-          );
-          continue;
-        }
-
-        const priority = calculatePriority({
-          id: contest.id,
-          prizeValue: contest.prizeValue,
-          endDate: contest.endDate,
-          entryFrequency: contest.entryFrequency,
-          difficultyScore: contest.difficultyScore,
-          legitimacyScore: contest.legitimacyScore,
-          type: contest.type,
-        });
-
-        await this.queueManager.addJob(
-          QUEUE_NAMES.ENTRY,
-          {
-            contestId: contest.id,
-            profileId: profile.id,
-            contestUrl: contest.url,
-            entryMethod: contest.entryMethod,
-            priority,
-          },
-          {
-            priority: Math.max(1, 100 - priority),
-            delay: queuedCount * 5000, // Stagger weekly entries by 5 seconds
-          },
+  private async unqueueReplanned(flows: JobFlowStore, due: PlannedSlot[]): Promise<number> {
+    const plannedStart = new Map(due.map((entry) => [entry.jobId, Date.parse(entry.startAt)]));
+    const delayed = await this.queueManager.listJobs(QUEUE_NAMES.ENTRY, 'delayed', DELAYED_JOBS_LIMIT);
+
+    let unqueued = 0;
+    for (const job of delayed) {
+      if (!job.id?.startsWith(RECURRING_JOB_PREFIX)) continue;
+
+      const startAt = plannedStart.get(job.id);
+      const runAt = job.timestamp + (job.delay ?? 0);
+      if (startAt !== undefined && Math.abs(startAt - runAt) < RESCHEDULE_TOLERANCE_MS) continue;
+
+      if (await flows.unqueueEntry(this.queueManager, job.id)) {
+        unqueued += 1;
+        log.debug(
+          { jobId: job.id, plannedAt: startAt !== undefined ? new Date(startAt).toISOString() : null },
+          'Queued entry re-planned',
         );
-
-        eventBus.emit('entry:queued', {
-          contestId: contest.id,
-          profileId: profile.id,
-          jobId: `weekly-${contest.id}-${profile.id}`,
-        });
-
-        queuedCount += 1;
       }
     }
-
-    log.info(
-      {
-        weeklyContests: weeklyContests.length,
-        activeProfiles: activeProfiles.length,
-        entriesQueued: queuedCount,
-      },
-      'Weekly entry scheduling completed',
-    );
+    return unqueued;
   }
 }
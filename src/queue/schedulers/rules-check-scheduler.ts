@@ -0,0 +1,64 @@
+/**
+ * Official-rules change scheduler.
+ *
+ * - Every day at 03:30: enqueue the cleanup job that re-fetches the rules
+ *   of already-parsed contests, records amendments and pauses contests
+ *   whose eligibility changed
+ */
+
+import cron from 'node-cron';
+import { getLogger } from '../../shared/logger.js';
+import { QUEUE_NAMES } from '../../shared/constants.js';
+import type { QueueManager } from '../queue-manager.js';
+import type { CleanupJobData } from '../workers/cleanup-worker.js';
+
+const log = getLogger('queue', { component: 'rules-check-scheduler' });
+
+type CronTask = ReturnType<typeof cron.schedule>;
+
+export class RulesCheckScheduler {
+  private readonly queueManager: QueueManager;
+  private cronJobs: CronTask[] = [];
+  private running = false;
+
+  constructor(queueManager: QueueManager) {
+    this.queueManager = queueManager;
+  }
+
+  /**
+   * Starts the daily rules-check cron job.
+   */
+  start(): void {
+    if (this.running) {
+      log.warn('RulesCheckScheduler already running');
+      return;
+    }
+
+    const rulesCron = cron.schedule('30 3 * * *', () => {
+      this.enqueueRulesCheck().catch((err) => {
+        log.error({ err }, 'Failed to enqueue rules check job');
+      });
+    });
+    this.cronJobs.push(rulesCron);
+
+    this.running = true;
+    log.info('RulesCheckScheduler started');
+  }
+
+  /**
+   * Stops all cron jobs.
+   */
+  stop(): void {
+    for (const job of this.cronJobs) {
+      job.stop();
+    }
+    this.cronJobs = [];
+    this.running = false;
+    log.info('RulesCheckScheduler stopped');
+  }
+
+  private async enqueueRulesCheck(): Promise<void> {
+    const data: CleanupJobData = { type: 'check-rules' };
+    await this.queueManager.addJob(QUEUE_NAMES.CLEANUP, { ...data });
+  }
+}
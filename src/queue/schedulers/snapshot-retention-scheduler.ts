@@ -0,0 +1,63 @@
+/**
+ * Contest snapshot retention scheduler.
+ *
+ * - Every day at 04:15: enqueue the cleanup job that prunes archived
+ *   contest page snapshots past retention, keeping those of won contests
+ */
+
+import cron from 'node-cron';
+import { getLogger } from '../../shared/logger.js';
+import { QUEUE_NAMES } from '../../shared/constants.js';
+import type { QueueManager } from '../queue-manager.js';
+import type { CleanupJobData } from '../workers/cleanup-worker.js';
+
+const log = getLogger('queue', { component: 'snapshot-retention-scheduler' });
+
+type CronTask = ReturnType<typeof cron.schedule>;
+
+export class SnapshotRetentionScheduler {
+  private readonly queueManager: QueueManager;
+  private cronJobs: CronTask[] = [];
+  private running = false;
+
+  constructor(queueManager: QueueManager) {
+    this.queueManager = queueManager;
+  }
+
+  /**
+   * Starts the daily snapshot pruning cron job.
+   */
+  start(): void {
+    if (this.running) {
+      log.warn('SnapshotRetentionScheduler already running');
+      return;
+    }
+
+    const pruneCron = cron.schedule('15 4 * * *', () => {
+      this.enqueuePrune().catch((err) => {
+        log.error({ err }, 'Failed to enqueue snapshot pruning job');
+      });
+    });
+    this.cronJobs.push(pruneCron);
+
+    this.running = true;
+    log.info('SnapshotRetentionScheduler started');
+  }
+
+  /**
+   * Stops all cron jobs.
+   */
+  stop(): void {
+    for (const job of this.cronJobs) {
+      job.stop();
+    }
+    this.cronJobs = [];
+    this.running = false;
+    log.info('SnapshotRetentionScheduler stopped');
+  }
+
+  private async enqueuePrune(): Promise<void> {
+    const data: CleanupJobData = { type: 'prune-snapshots' };
+    await this.queueManager.addJob(QUEUE_NAMES.CLEANUP, { ...data });
+  }
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { closeDb, getDb } from '../db/index.js';
+import { migrate } from '../db/migrate.js';
+import { SqliteJobStore } from './sqlite-job-store.js';
+
+const QUEUE = 'entry';
+const LEASE_MS = 30_000;
+
+describe('SqliteJobStore', () => {
+  let store: SqliteJobStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    closeDb();
+    migrate(':memory:');
+    store = new SqliteJobStore(getDb());
+  });
+
+  afterEach(() => {
+    closeDb();
+    vi.useRealTimers();
+  });
+
+  describe('claim', () => {
+    it('takes due jobs in BullMQ priority order, oldest first', () => {
+      store.add(QUEUE, 'job', {}, { jobId: 'low', priority: 5 });
+      store.add(QUEUE, 'job', {}, { jobId: 'none-1' });
+      store.add(QUEUE, 'job', {}, { jobId: 'high', priority: 1 });
+      vi.advanceTimersByTime(10);
+      store.add(QUEUE, 'job', {}, { jobId: 'none-2' });
+
+      const order = [1, 2, 3, 4].map(() => store.claim(QUEUE, 'worker-a', LEASE_MS)?.id);
+
+      expect(order).toEqual(['none-1', 'none-2', 'high', 'low']);
+      expect(store.claim(QUEUE, 'worker-a', LEASE_MS)).toBeUndefined();
+    });
+
+    it('leaves delayed jobs until they are due', () => {
+      store.add(QUEUE, 'job', {}, { jobId: 'later', delay: 60_000 });
+
+      expect(store.claim(QUEUE, 'worker-a', LEASE_MS)).toBeUndefined();
+      expect(store.counts(QUEUE)).toMatchObject({ delayed: 1, waiting: 0 });
+
+      vi.advanceTimersByTime(60_000);
+      expect(store.claim(QUEUE, 'worker-a', LEASE_MS)?.id).toBe('later');
+    });
+
+    it('never hands the same job to two workers', () => {
+      store.add(QUEUE, 'job', {}, { jobId: 'only' });
+
+      const first = store.claim(QUEUE, 'worker-a', LEASE_MS);
+      const second = store.claim(QUEUE, 'worker-b', LEASE_MS);
+
+      expect(first).toMatchObject({ id: 'only', status: 'active', leaseOwner: 'worker-a' });
+      expect(second).toBeUndefined();
+    });
+
+    it('returns the existing job when a job ID is added again', () => {
+      store.add(QUEUE, 'job', { n: 1 }, { jobId: 'same' });
+      const again = store.add(QUEUE, 'job', { n: 2 }, { jobId: 'same' });
+
+      expect(again.data).toEqual({ n: 1 });
+      expect(store.counts(QUEUE).waiting).toBe(1);
+    });
+  });
+
+  describe('fail', () => {
+    it('retries after the backoff, then dead-letters the job', () => {
+      store.add(QUEUE, 'job', {}, {
+        jobId: 'flaky',
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 1000 },
+      });
+
+      store.claim(QUEUE, 'worker-a', LEASE_MS);
+      const retried = store.fail('flaky', 'boom', 'worker-a');
+      expect(retried).toMatchObject({ status: 'waiting', attemptsMade: 1, runAt: Date.now() + 1000 });
+      expect(store.claim(QUEUE, 'worker-a', LEASE_MS)).toBeUndefined();
+
+      vi.advanceTimersByTime(1000);
+      store.claim(QUEUE, 'worker-a', LEASE_MS);
+      const failed = store.fail('flaky', 'boom again', 'worker-a');
+
+      expect(failed).toMatchObject({ status: 'failed', attemptsMade: 2, failedReason: 'boom again' });
+      expect(store.deadLetters(10)).toEqual([
+        expect.objectContaining({ jobId: 'flaky', attemptsMade: 2, failedReason: 'boom again' }),
+      ]);
+    });
+
+    it('ignores a failure reported by a worker that no longer holds the lease', () => {
+      store.add(QUEUE, 'job', {}, { jobId: 'held' });
+      store.claim(QUEUE, 'worker-a', LEASE_MS);
+
+      expect(store.fail('held', 'late', 'worker-b')).toBeUndefined();
+      expect(store.counts(QUEUE).active).toBe(1);
+    });
+  });
+
+  describe('recoverExpiredLeases', () => {
+    it('fails and reschedules jobs whose lease ran out', () => {
+      store.add(QUEUE, 'job', {}, { jobId: 'stalled', attempts: 3 });
+      store.claim(QUEUE, 'worker-a', LEASE_MS);
+
+      vi.advanceTimersByTime(LEASE_MS - 1);
+      expect(store.recoverExpiredLeases(QUEUE)).toEqual([]);
+
+      vi.advanceTimersByTime(2);
+      const [recovered] = store.recoverExpiredLeases(QUEUE);
+
+      expect(recovered).toMatchObject({ id: 'stalled', status: 'waiting', attemptsMade: 1, leaseOwner: null });
+      expect(recovered?.failedReason).toMatch(/lease expired/);
+    });
+
+    it('keeps jobs whose lease is renewed', () => {
+      store.add(QUEUE, 'job', {}, { jobId: 'busy' });
+      store.claim(QUEUE, 'worker-a', LEASE_MS);
+
+      vi.advanceTimersByTime(LEASE_MS - 1000);
+      expect(store.extendLease('busy', 'worker-a', LEASE_MS)).toBe(true);
+      vi.advanceTimersByTime(LEASE_MS - 1000);
+
+      expect(store.recoverExpiredLeases(QUEUE)).toEqual([]);
+      expect(store.counts(QUEUE).active).toBe(1);
+    });
+
+    it('stops the stalled worker from completing the recovered job', () => {
+      store.add(QUEUE, 'job', {}, { jobId: 'stalled', attempts: 3 });
+      store.claim(QUEUE, 'worker-a', LEASE_MS);
+      vi.advanceTimersByTime(LEASE_MS + 1);
+      store.recoverExpiredLeases(QUEUE);
+      store.claim(QUEUE, 'worker-b', LEASE_MS);
+
+      expect(store.extendLease('stalled', 'worker-a', LEASE_MS)).toBe(false);
+      store.complete('stalled', 'worker-a', { ok: true });
+
+      expect(store.counts(QUEUE)).toMatchObject({ active: 1, completed: 0 });
+    });
+  });
+
+  describe('removePending', () => {
+    it('removes waiting and delayed jobs but not running ones', () => {
+      store.add(QUEUE, 'job', {}, { jobId: 'running' });
+      store.claim(QUEUE, 'worker-a', LEASE_MS);
+      store.add(QUEUE, 'job', {}, { jobId: 'delayed', delay: 60_000 });
+
+      expect(store.removePending(QUEUE, 'running')).toBe(false);
+      expect(store.removePending(QUEUE, 'delayed')).toBe(true);
+      expect(store.removePending(QUEUE, 'delayed')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,619 @@
+/**
+ * Durable SQLite job store for installs without Redis.
+ *
+ * When Redis is unreachable the QueueManager keeps its queues in the
+ * application database instead of BullMQ. The store follows BullMQ's job
+ * model closely enough that the same processors, routes and dashboard
+ * work on either backend:
+ *
+ * - `delay` and retry backoff set a job's run_at; waiting jobs that are
+ *   not yet due are reported as delayed
+ * - due jobs are taken in BullMQ's priority order: jobs without a
+ *   priority first, then 1 (highest) upwards, oldest first within each
+ * - a failed attempt is retried after a fixed or exponential backoff
+ *   until `attempts` is spent; the job then stays failed and a copy goes
+ *   to the dead-letter table
+ * - a claimed job holds a lease that its worker renews while the
+ *   processor runs. A lease that runs out means the process died or
+ *   hung mid-job; the attempt counts as failed and the job is retried
+ *
+ * A claim is a single UPDATE ... RETURNING, so two processes sharing the
+ * database never take the same job.
+ */
+
+import { EventEmitter } from 'node:events';
+import { hostname } from 'node:os';
+import type { Job, JobsOptions } from 'bullmq';
+import { and, asc, count as countFn, desc, eq, gt, inArray, isNotNull, lt, lte, notInArray, sql } from 'drizzle-orm';
+import { getLogger } from '../shared/logger.js';
+import { generateId } from '../shared/crypto.js';
+import { queueDeadLetters, queueJobs, queueState } from '../db/schema.js';
+import type { AppDatabase } from '../db/index.js';
+
+const log = getLogger('queue', { component: 'sqlite-job-store' });
+
+/** How often an idle worker looks for due jobs and expired leases. */
+const POLL_INTERVAL_MS = 1_000;
+
+/** Lease length when a worker sets no lockDuration (BullMQ's default). */
+const DEFAULT_LEASE_MS = 30_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type JobRow = typeof queueJobs.$inferSelect;
+
+/** Statuses jobs are listed and cleaned by; delayed means waiting but not yet due. */
+export type JobListStatus = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed';
+
+export interface JobCounts {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+export interface DeadLetter {
+  jobId: string;
+  queue: string;
+  name: string;
+  data: Record<string, unknown>;
+  attemptsMade: number;
+  failedReason: string;
+  failedAt: string;
+}
+
+/** The BullMQ worker options the SQLite worker honours. */
+export interface SqliteWorkerOptions {
+  concurrency?: number;
+  /** Lease length in ms. */
+  lockDuration?: number;
+  /** How often a running job's lease is renewed, in ms. */
+  lockRenewTime?: number;
+  /** At most `max` jobs started per `duration` ms. */
+  limiter?: { max: number; duration: number };
+}
+
+export type JobProcessor<T> = (job: Job<T>) => Promise<unknown>;
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export class SqliteJobStore {
+  constructor(private readonly db: AppDatabase) {}
+
+  /**
+   * Add a job. A job with a custom `jobId` that already exists is
+   * returned as is, as BullMQ does.
+   */
+  add<T>(queue: string, name: string, data: T, opts: JobsOptions = {}): Job<T> {
+    if (opts.jobId) {
+      const existing = this.db.select().from(queueJobs).where(eq(queueJobs.id, opts.jobId)).get();
+      if (existing) return this.toJob<T>(existing);
+    }
+
+    const now = Date.now();
+    const row = this.db
+      .insert(queueJobs)
+      .values({
+        id: opts.jobId ?? generateId(),
+        queue,
+        name,
+        data: JSON.stringify(data ?? {}),
+        opts: JSON.stringify(opts),
+        priority: opts.priority ?? 0,
+        attempts: Math.max(1, opts.attempts ?? 1),
+        runAt: now + Math.max(0, opts.delay ?? 0),
+        timestamp: now,
+      })
+      .returning()
+      .get();
+
+    return this.toJob<T>(row);
+  }
+
+  /**
+   * Take the next due job of a queue and lease it to `owner`.
+   */
+  claim(queue: string, owner: string, leaseMs: number): JobRow | undefined {
+    const now = Date.now();
+    const next = this.db
+      .select({ id: queueJobs.id })
+      .from(queueJobs)
+      .where(and(eq(queueJobs.queue, queue), eq(queueJobs.status, 'waiting'), lte(queueJobs.runAt, now)))
+      .orderBy(asc(queueJobs.priority), asc(queueJobs.runAt), asc(queueJobs.id))
+      .limit(1);
+
+    return this.db
+      .update(queueJobs)
+      .set({ status: 'active', leaseOwner: owner, leaseExpiresAt: now + leaseMs, processedOn: now })
+      .where(and(inArray(queueJobs.id, next), eq(queueJobs.status, 'waiting')))
+      .returning()
+      .get();
+  }
+
+  /**
+   * Renew a lease. False when the job is no longer held by `owner`.
+   */
+  extendLease(id: string, owner: string, leaseMs: number): boolean {
+    const result = this.db
+      .update(queueJobs)
+      .set({ leaseExpiresAt: Date.now() + leaseMs })
+      .where(and(eq(queueJobs.id, id), eq(queueJobs.status, 'active'), eq(queueJobs.leaseOwner, owner)))
+      .run();
+    return result.changes > 0;
+  }
+
+  /**
+   * Mark a leased job completed and trim the queue to `removeOnComplete`.
+   */
+  complete(id: string, owner: string, returnValue: unknown): void {
+    const row = this.db
+      .update(queueJobs)
+      .set({
+        status: 'completed',
+        progress: 100,
+        returnValue: returnValue === undefined ? null : JSON.stringify(returnValue),
+        finishedOn: Date.now(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      })
+      .where(and(eq(queueJobs.id, id), eq(queueJobs.status, 'active'), eq(queueJobs.leaseOwner, owner)))
+      .returning()
+      .get();
+
+    if (row) this.trim(row.queue, 'completed', parseOpts(row.opts).removeOnComplete);
+  }
+
+  /**
+   * Record a failed attempt. The job is rescheduled after its backoff
+   * while attempts remain; otherwise it is failed and dead-lettered.
+   * Without an `owner` the job is failed whoever held it (lease recovery).
+   * Returns the updated job, or undefined when it was not active.
+   */
+  fail(id: string, reason: string, owner?: string): JobRow | undefined {
+    return this.db.transaction((tx) => {
+      const row = tx
+        .select()
+        .from(queueJobs)
+        .where(
+          and(
+            eq(queueJobs.id, id),
+            eq(queueJobs.status, 'active'),
+            owner === undefined ? undefined : eq(queueJobs.leaseOwner, owner),
+          ),
+        )
+        .get();
+      if (!row) return undefined;
+
+      const now = Date.now();
+      const opts = parseOpts(row.opts);
+      const attemptsMade = row.attemptsMade + 1;
+      const released = { attemptsMade, failedReason: reason, leaseOwner: null, leaseExpiresAt: null };
+
+      if (attemptsMade < row.attempts) {
+        return tx
+          .update(queueJobs)
+          .set({ ...released, status: 'waiting', runAt: now + backoffDelay(opts.backoff, attemptsMade) })
+          .where(eq(queueJobs.id, id))
+          .returning()
+          .get();
+      }
+
+      const failed = tx
+        .update(queueJobs)
+        .set({ ...released, status: 'failed', finishedOn: now })
+        .where(eq(queueJobs.id, id))
+        .returning()
+        .get();
+
+      tx.insert(queueDeadLetters)
+        .values({ jobId: id, queue: row.queue, name: row.name, data: row.data, attemptsMade, failedReason: reason })
+        .onConflictDoUpdate({
+          target: queueDeadLetters.jobId,
+          set: { attemptsMade, failedReason: reason, failedAt: new Date(now).toISOString() },
+        })
+        .run();
+
+      this.trim(row.queue, 'failed', opts.removeOnFail, tx);
+      return failed;
+    });
+  }
+
+  /**
+   * Fail the current attempt of every active job whose lease ran out.
+   * Returns the recovered jobs as they are after the failure.
+   */
+  recoverExpiredLeases(queue: string): JobRow[] {
+    const expired = this.db
+      .select({ id: queueJobs.id })
+      .from(queueJobs)
+      .where(
+        and(
+          eq(queueJobs.status, 'active'),
+          eq(queueJobs.queue, queue),
+          isNotNull(queueJobs.leaseExpiresAt),
+          lt(queueJobs.leaseExpiresAt, Date.now()),
+        ),
+      )
+      .all();
+
+    const recovered: JobRow[] = [];
+    for (const { id } of expired) {
+      const row = this.fail(id, 'Job lease expired; the worker stopped or stalled while processing it');
+      if (row) recovered.push(row);
+    }
+
+    if (recovered.length > 0) {
+      log.warn({ queue, jobIds: recovered.map((row) => row.id) }, 'Recovered jobs with expired leases');
+    }
+    return recovered;
+  }
+
+  updateProgress(id: string, progress: number): void {
+    this.db.update(queueJobs).set({ progress: Math.round(progress) }).where(eq(queueJobs.id, id)).run();
+  }
+
+  // -------------------------------------------------------------------------
+  // Pausing
+  // -------------------------------------------------------------------------
+
+  setPaused(queue: string, paused: boolean): void {
+    const updatedAt = new Date().toISOString();
+    this.db
+      .insert(queueState)
+      .values({ queue, paused: paused ? 1 : 0, updatedAt })
+      .onConflictDoUpdate({ target: queueState.queue, set: { paused: paused ? 1 : 0, updatedAt } })
+      .run();
+  }
+
+  isPaused(queue: string): boolean {
+    const row = this.db.select({ paused: queueState.paused }).from(queueState).where(eq(queueState.queue, queue)).get();
+    return row?.paused === 1;
+  }
+
+  // -------------------------------------------------------------------------
+  // Inspection and maintenance
+  // -------------------------------------------------------------------------
+
+  counts(queue: string): JobCounts {
+    const now = Date.now();
+    const rows = this.db
+      .select({
+        status: queueJobs.status,
+        total: countFn(),
+        notDue: sql<number>`sum(case when ${queueJobs.runAt} > ${now} then 1 else 0 end)`,
+      })
+      .from(queueJobs)
+      .where(eq(queueJobs.queue, queue))
+      .groupBy(queueJobs.status)
+      .all();
+
+    const counts: JobCounts = { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+    for (const row of rows) {
+      if (row.status === 'waiting') {
+        counts.delayed = Number(row.notDue ?? 0);
+        counts.waiting = row.total - counts.delayed;
+      } else {
+        counts[row.status] = row.total;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Jobs of a queue in a status: waiting and delayed in the order they
+   * will run, the others most recent first.
+   */
+  list<T>(queue: string, status: JobListStatus, limit: number): Array<Job<T>> {
+    const rows = this.db
+      .select()
+      .from(queueJobs)
+      .where(and(eq(queueJobs.queue, queue), ...statusFilter(status, Date.now())))
+      .orderBy(...listOrder(status))
+      .limit(limit)
+      .all();
+    return rows.map((row) => this.toJob<T>(row));
+  }
+
+  /**
+   * Remove jobs in a status older than `graceMs`. Returns the number removed.
+   */
+  clean(queue: string, graceMs: number, status: JobListStatus, limit: number): number {
+    const cutoff = Date.now() - graceMs;
+    const age = status === 'completed' || status === 'failed' ? queueJobs.finishedOn : queueJobs.timestamp;
+    const ids = this.db
+      .select({ id: queueJobs.id })
+      .from(queueJobs)
+      .where(and(eq(queueJobs.queue, queue), ...statusFilter(status, Date.now()), lt(age, cutoff)))
+      .limit(limit)
+      .all()
+      .map((row) => row.id);
+
+    return this.remove(ids);
+  }
+
+  /**
+   * Move failed jobs back to waiting with fresh attempts. Returns the
+   * number retried.
+   */
+  retryFailed(queue: string, limit: number): number {
+    const ids = this.failedIds(queue, limit);
+    if (ids.length === 0) return 0;
+
+    this.db.transaction((tx) => {
+      tx.update(queueJobs)
+        .set({ status: 'waiting', attemptsMade: 0, runAt: Date.now(), failedReason: null, finishedOn: null, progress: 0 })
+        .where(inArray(queueJobs.id, ids))
+        .run();
+      tx.delete(queueDeadLetters).where(inArray(queueDeadLetters.jobId, ids)).run();
+    });
+    return ids.length;
+  }
+
+  /**
+   * Delete failed jobs and their dead letters. Returns the number removed.
+   */
+  removeFailed(queue: string, limit: number): number {
+    return this.remove(this.failedIds(queue, limit));
+  }
+
+  /**
+   * Delete a job that has not started yet (waiting or delayed). Returns
+   * false when it is running, finished or missing.
+   */
+  removePending(queue: string, id: string): boolean {
+    const row = this.db
+      .delete(queueJobs)
+      .where(and(eq(queueJobs.queue, queue), eq(queueJobs.id, id), eq(queueJobs.status, 'waiting')))
+      .returning({ id: queueJobs.id })
+      .get();
+    return row !== undefined;
+  }
+
+  /** Dead-lettered jobs across all queues, most recent first. */
+  deadLetters(limit: number): DeadLetter[] {
+    return this.db
+      .select()
+      .from(queueDeadLetters)
+      .orderBy(desc(queueDeadLetters.failedAt))
+      .limit(limit)
+      .all()
+      .map((row) => ({ ...row, data: parseJson(row.data) }));
+  }
+
+  /**
+   * A BullMQ-shaped view of a stored job, enough for the processors and
+   * the queue routes.
+   */
+  toJob<T>(row: JobRow): Job<T> {
+    const job = {
+      id: row.id,
+      name: row.name,
+      queueName: row.queue,
+      data: parseJson(row.data) as T,
+      opts: parseOpts(row.opts),
+      progress: row.progress,
+      timestamp: row.timestamp,
+      delay: Math.max(0, row.runAt - row.timestamp),
+      attemptsMade: row.attemptsMade,
+      processedOn: row.processedOn ?? undefined,
+      finishedOn: row.finishedOn ?? undefined,
+      failedReason: row.failedReason ?? undefined,
+      returnvalue: row.returnValue === null ? null : parseJson(row.returnValue),
+      updateProgress: async (progress: number | object) => {
+        job.progress = typeof progress === 'number' ? progress : 0;
+        if (typeof progress === 'number') this.updateProgress(row.id, progress);
+      },
+    };
+    return job as unknown as Job<T>;
+  }
+
+  private failedIds(queue: string, limit: number): string[] {
+    return this.db
+      .select({ id: queueJobs.id })
+      .from(queueJobs)
+      .where(and(eq(queueJobs.queue, queue), eq(queueJobs.status, 'failed')))
+      .limit(limit)
+      .all()
+      .map((row) => row.id);
+  }
+
+  private remove(ids: string[]): number {
+    if (ids.length === 0) return 0;
+    this.db.transaction((tx) => {
+      tx.delete(queueJobs).where(inArray(queueJobs.id, ids)).run();
+      tx.delete(queueDeadLetters).where(inArray(queueDeadLetters.jobId, ids)).run();
+    });
+    return ids.length;
+  }
+
+  /** Keep the newest finished jobs of a status as removeOnComplete / removeOnFail ask. */
+  private trim(
+    queue: string,
+    status: 'completed' | 'failed',
+    option: JobsOptions['removeOnComplete'],
+    db: Pick<AppDatabase, 'select' | 'delete'> = this.db,
+  ): void {
+    const keep = option === true ? 0 : typeof option === 'number' ? option : option ? option.count : undefined;
+    if (keep === undefined) return;
+
+    const newest = db
+      .select({ id: queueJobs.id })
+      .from(queueJobs)
+      .where(and(eq(queueJobs.queue, queue), eq(queueJobs.status, status)))
+      .orderBy(desc(queueJobs.finishedOn))
+      .limit(keep);
+
+    db.delete(queueJobs)
+      .where(and(eq(queueJobs.queue, queue), eq(queueJobs.status, status), notInArray(queueJobs.id, newest)))
+      .run();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Worker
+// ---------------------------------------------------------------------------
+
+/**
+ * Polls one queue of the store and runs its jobs with a processor,
+ * emitting BullMQ's `completed`, `failed` and `error` worker events.
+ */
+export class SqliteWorker<T = unknown> extends EventEmitter {
+  private readonly owner = `${hostname()}:${process.pid}:${generateId()}`;
+  private readonly running = new Set<Promise<void>>();
+  private readonly startedAt: number[] = [];
+  private readonly timer: NodeJS.Timeout;
+  private closing = false;
+
+  constructor(
+    private readonly store: SqliteJobStore,
+    readonly name: string,
+    private readonly processor: JobProcessor<T>,
+    private readonly options: SqliteWorkerOptions = {},
+  ) {
+    super();
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    setImmediate(() => this.poll());
+  }
+
+  /**
+   * Stop taking jobs and wait for the running ones to finish.
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    clearInterval(this.timer);
+    await Promise.allSettled([...this.running]);
+  }
+
+  private get leaseMs(): number {
+    return this.options.lockDuration ?? DEFAULT_LEASE_MS;
+  }
+
+  private poll(): void {
+    if (this.closing) return;
+
+    try {
+      for (const row of this.store.recoverExpiredLeases(this.name)) {
+        this.emit('failed', this.store.toJob<T>(row), new Error(row.failedReason ?? 'Job lease expired'));
+      }
+
+      if (this.store.isPaused(this.name)) return;
+
+      const concurrency = this.options.concurrency ?? 1;
+      while (this.running.size < concurrency && this.withinRateLimit()) {
+        const row = this.store.claim(this.name, this.owner, this.leaseMs);
+        if (!row) break;
+
+        this.startedAt.push(Date.now());
+        const run: Promise<void> = this.run(row).finally(() => {
+          this.running.delete(run);
+          this.poll();
+        });
+        this.running.add(run);
+      }
+    } catch (error) {
+      this.emit('error', toError(error));
+    }
+  }
+
+  private withinRateLimit(): boolean {
+    const limiter = this.options.limiter;
+    if (!limiter) return true;
+
+    const windowStart = Date.now() - limiter.duration;
+    while (this.startedAt.length > 0 && (this.startedAt[0] ?? 0) <= windowStart) {
+      this.startedAt.shift();
+    }
+    return this.startedAt.length < limiter.max;
+  }
+
+  private async run(row: JobRow): Promise<void> {
+    const job = this.store.toJob<T>(row);
+    const heartbeat = setInterval(() => {
+      try {
+        if (!this.store.extendLease(row.id, this.owner, this.leaseMs)) {
+          log.warn({ queue: this.name, jobId: row.id }, 'Job lease lost while processing');
+        }
+      } catch (error) {
+        this.emit('error', toError(error));
+      }
+    }, this.options.lockRenewTime ?? this.leaseMs / 2);
+
+    try {
+      let result: unknown;
+      try {
+        result = await this.processor(job);
+      } catch (error) {
+        const err = toError(error);
+        const failed = this.store.fail(row.id, err.message, this.owner);
+        if (failed) Object.assign(job, { attemptsMade: failed.attemptsMade, failedReason: err.message });
+        this.emit('failed', job, err);
+        return;
+      } finally {
+        clearInterval(heartbeat);
+      }
+
+      this.store.complete(row.id, this.owner, result);
+      this.emit('completed', job, result);
+    } catch (error) {
+      this.emit('error', toError(error));
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** BullMQ backoff: a number is a fixed delay; exponential doubles per attempt. */
+function backoffDelay(backoff: JobsOptions['backoff'], attemptsMade: number): number {
+  if (backoff === undefined) return 0;
+  if (typeof backoff === 'number') return backoff;
+
+  const delay = backoff.delay ?? 0;
+  return backoff.type === 'exponential' ? delay * 2 ** (attemptsMade - 1) : delay;
+}
+
+function statusFilter(status: JobListStatus, now: number) {
+  switch (status) {
+    case 'waiting':
+      return [eq(queueJobs.status, 'waiting'), lte(queueJobs.runAt, now)];
+    case 'delayed':
+      return [eq(queueJobs.status, 'waiting'), gt(queueJobs.runAt, now)];
+    default:
+      return [eq(queueJobs.status, status)];
+  }
+}
+
+function listOrder(status: JobListStatus) {
+  switch (status) {
+    case 'waiting':
+      return [asc(queueJobs.priority), asc(queueJobs.runAt), asc(queueJobs.id)];
+    case 'delayed':
+      return [asc(queueJobs.runAt)];
+    case 'active':
+      return [desc(queueJobs.processedOn)];
+    default:
+      return [desc(queueJobs.finishedOn)];
+  }
+}
+
+function parseJson(value: string): Record<string, unknown> {
+  try {
+    return JSON.parse(value) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+function parseOpts(value: string): JobsOptions {
+  return parseJson(value) as JobsOptions;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -1,14 +1,17 @@
 /**
- * BullMQ worker for processing cleanup and maintenance jobs.
+ * Worker for processing cleanup and maintenance jobs.
  *
  * Job types:
  * - expire-contests    : Mark contests past end_date as 'expired'
+ * - expire-wins        : Mark unclaimed wins past claim_deadline as 'expired'
+ * - check-rules        : Re-fetch parsed official rules and apply amendments
  * - clean-screenshots  : Remove screenshot files older than 30 days
+ * - prune-snapshots    : Remove archived contest snapshots past retention,
+ *                        keeping those of contests that were won
  * - clean-queue-metrics: Remove stale queue metrics older than 90 days
  */
 
-import { Worker, type Job } from 'bullmq';
-import type IORedis from 'ioredis';
+import type { Job } from 'bullmq';
 import { lt, eq, and, sql } from 'drizzle-orm';
 import { existsSync, readdirSync, statSync, unlinkSync } from 'node:fs';
 import { join, resolve } from 'node:path';
@@ -16,6 +19,10 @@ import { QUEUE_NAMES, PATHS } from '../../shared/constants.js';
 import { getLogger } from '../../shared/logger.js';
 import { eventBus } from '../../shared/events.js';
 import { getDb, schema } from '../../db/index.js';
+import { ClaimWorkflow } from '../../notification/claim-workflow.js';
+import { RulesChangeMonitor } from '../../compliance/rules-monitor.js';
+import { ContestSnapshotArchive } from '../../compliance/snapshot-archive.js';
+import { createQueueWorker, type QueueWorker, type WorkerConnection } from './queue-worker.js';
 
 const log = getLogger('queue', { component: 'cleanup-worker' });
 
@@ -35,7 +42,10 @@ const METRICS_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
 
 export type CleanupJobType =
   | 'expire-contests'
+  | 'expire-wins'
+  | 'check-rules'
   | 'clean-screenshots'
+  | 'prune-snapshots'
   | 'clean-queue-metrics';
 
 export interface CleanupJobData {
@@ -47,16 +57,16 @@ export interface CleanupJobData {
 // ---------------------------------------------------------------------------
 
 /**
- * Creates a BullMQ worker that processes cleanup jobs.
+ * Creates a worker that processes cleanup jobs.
  */
-export function createCleanupWorker(connection: IORedis): Worker {
-  const worker = new Worker<CleanupJobData>(
+export function createCleanupWorker(connection: WorkerConnection): QueueWorker<CleanupJobData> {
+  const worker = createQueueWorker<CleanupJobData>(
     QUEUE_NAMES.CLEANUP,
     async (job: Job<CleanupJobData>) => {
       return processCleanupJob(job);
     },
+    connection,
     {
-      connection,
       concurrency: 1, // Cleanup jobs should run serially
     },
   );
@@ -107,8 +117,14 @@ async function processCleanupJob(
   switch (type) {
     case 'expire-contests':
       return expireContests(job);
+    case 'expire-wins':
+      return expireWins(job);
+    case 'check-rules':
+      return checkRules(job);
     case 'clean-screenshots':
       return cleanScreenshots(job);
+    case 'prune-snapshots':
+      return pruneSnapshots(job);
     case 'clean-queue-metrics':
       return cleanQueueMetrics(job);
     default: {
@@ -178,6 +194,65 @@ async function expireContests(
   return { affected: expiredIds.length };
 }
 
+// ---------------------------------------------------------------------------
+// expire-wins
+// ---------------------------------------------------------------------------
+
+/**
+ * Marks wins that are still detected, notified or claiming after their
+ * claim deadline as 'expired'.
+ */
+async function expireWins(
+  job: Job<CleanupJobData>,
+): Promise<{ affected: number }> {
+  await job.updateProgress(30);
+
+  const expiredIds = await new ClaimWorkflow(getDb()).expireOverdue();
+
+  await job.updateProgress(100);
+
+  if (expiredIds.length > 0) {
+    log.info(
+      { expiredCount: expiredIds.length },
+      'Unclaimed wins marked as expired',
+    );
+  } else {
+    log.info('No wins to expire');
+  }
+
+  return { affected: expiredIds.length };
+}
+
+// ---------------------------------------------------------------------------
+// check-rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-fetches the official rules of every contest that was already parsed.
+ * Contests whose amended rules change a profile's eligibility are paused.
+ */
+async function checkRules(
+  job: Job<CleanupJobData>,
+): Promise<{ affected: number }> {
+  await job.updateProgress(10);
+
+  const summary = await new RulesChangeMonitor(getDb()).checkAll();
+
+  await job.updateProgress(100);
+
+  log.info(
+    {
+      checked: summary.checked,
+      changed: summary.changed,
+      paused: summary.paused,
+      failed: summary.failed,
+    },
+    'Official rules re-checked',
+  );
+
+  return { affected: summary.changed };
+}
+
 // ---------------------------------------------------------------------------
 // clean-screenshots
 // ---------------------------------------------------------------------------
@@ -245,6 +320,31 @@ async function cleanScreenshots(
   return { affected: deletedCount };
 }
 
+// ---------------------------------------------------------------------------
+// prune-snapshots
+// ---------------------------------------------------------------------------
+
+/**
+ * Removes archived contest page snapshots older than the retention
+ * period. Snapshots of contests with a win are kept as claim evidence.
+ */
+async function pruneSnapshots(
+  job: Job<CleanupJobData>,
+): Promise<{ affected: number }> {
+  await job.updateProgress(30);
+
+  const result = new ContestSnapshotArchive(getDb()).prune();
+
+  await job.updateProgress(100);
+
+  log.info(
+    { deleted: result.deleted, keptForWins: result.keptForWins },
+    'Contest snapshot pruning completed',
+  );
+
+  return { affected: result.deleted };
+}
+
 // ---------------------------------------------------------------------------
 // clean-queue-metrics
 // ---------------------------------------------------------------------------
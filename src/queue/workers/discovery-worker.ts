@@ -1,28 +1,41 @@
 /**
- * BullMQ worker for processing discovery jobs.
+ * Worker for processing discovery jobs.
  *
  * Each job crawls a discovery source using the real discovery module
  * (SweepstakesCrawler, RSSFetcher, specialized source handlers),
- * deduplicates results against the database using ContestDeduplicator,
- * scores legitimacy with LegitimacyScorer, and persists newly discovered
- * contests to the SQLite database.
+ * deduplicates results with ContestDeduplicator over the persistent
+ * dedup index, scores legitimacy with LegitimacyScorer, and persists
+ * newly discovered contests to the SQLite database. Listings of a contest already known
+ * are recorded against it through ContestMerger instead of being dropped.
+ * Each new contest's page is archived, and the prize tiers it lists are
+ * saved as the contest's page-sourced prize table.
  */
 
-import { Worker, type Job } from 'bullmq';
-import type IORedis from 'ioredis';
+import { readFileSync } from 'node:fs';
+import type { Job } from 'bullmq';
 import { eq, sql } from 'drizzle-orm';
 import { QUEUE_NAMES } from '../../shared/constants.js';
 import { getLogger } from '../../shared/logger.js';
 import { eventBus } from '../../shared/events.js';
 import { AppError } from '../../shared/errors.js';
 import { generateId } from '../../shared/crypto.js';
-import { normalizeUrl, parseDate } from '../../shared/utils.js';
+import { normalizeUrl } from '../../shared/utils.js';
 import { getDb, schema } from '../../db/index.js';
 
-import { createSourceHandler } from '../../discovery/sources/index.js';
+import { createSourceHandler, ensureSourcePluginsLoaded } from '../../discovery/sources/index.js';
 import { ContestDeduplicator } from '../../discovery/deduplicator.js';
+import { DedupIndex } from '../../discovery/dedup-index.js';
 import { LegitimacyScorer } from '../../discovery/legitimacy-scorer.js';
+import { ReputationStore } from '../../discovery/reputation-store.js';
+import { CanonicalUrlResolver } from '../../discovery/canonical-url.js';
+import { ContestMerger, sourceFieldsFromRaw, sourceTrust } from '../../discovery/contest-merger.js';
+import { SourceHealthMonitor, failedCrawlSample, measureCrawl } from '../../discovery/source-health.js';
+import { CrawlSession } from '../../discovery/crawl-session.js';
+import { extractContestDetails } from '../../discovery/contest-extractor.js';
+import { ContestSnapshotArchive } from '../../compliance/snapshot-archive.js';
+import { PrizeTableStore } from '../../intelligence/prize-table.js';
 import type { DiscoverySource, CrawlResult } from '../../discovery/types.js';
+import { createQueueWorker, type QueueWorker, type WorkerConnection } from './queue-worker.js';
 
 const log = getLogger('queue', { component: 'discovery-worker' });
 
@@ -30,9 +43,9 @@ const log = getLogger('queue', { component: 'discovery-worker' });
 // Shared instances (reused across jobs within the same worker process)
 // ---------------------------------------------------------------------------
 
-const deduplicator = new ContestDeduplicator();
+let deduplicator: ContestDeduplicator | null = null;
 const legitimacyScorer = new LegitimacyScorer();
-let deduplicatorInitialized = false;
+const canonicalResolver = new CanonicalUrlResolver();
 
 // ---------------------------------------------------------------------------
 // Job data shape
@@ -51,19 +64,19 @@ export interface DiscoveryJobData {
 // ---------------------------------------------------------------------------
 
 /**
- * Creates a BullMQ worker that processes discovery queue jobs.
+ * Creates a worker that processes discovery queue jobs.
  */
 export function createDiscoveryWorker(
-  connection: IORedis,
+  connection: WorkerConnection,
   concurrency: number = 3,
-): Worker {
-  const worker = new Worker<DiscoveryJobData>(
+): QueueWorker<DiscoveryJobData> {
+  const worker = createQueueWorker<DiscoveryJobData>(
     QUEUE_NAMES.DISCOVERY,
     async (job: Job<DiscoveryJobData>) => {
       return processDiscoveryJob(job);
     },
+    connection,
     {
-      connection,
       concurrency,
       limiter: {
         max: 5,
@@ -99,11 +112,14 @@ export function createDiscoveryWorker(
       'Discovery job failed',
     );
 
-    // Increment error count for the source
+    // Increment error count for the source and count the failure against its health
     if (job?.data.sourceId) {
       incrementSourceErrorCount(job.data.sourceId).catch((err) => {
         log.error({ err, sourceId: job.data.sourceId }, 'Failed to increment source error count');
       });
+      new SourceHealthMonitor(getDb()).recordCrawl(job.data.sourceId, failedCrawlSample()).catch((err) => {
+        log.error({ err, sourceId: job.data.sourceId }, 'Failed to record source health');
+      });
     }
   });
 
@@ -133,14 +149,27 @@ async function processDiscoveryJob(
 
   await job.updateProgress(5);
 
-  // Initialize deduplicator from DB on first run
-  await initializeDeduplicator();
+  // Catch the dedup index up with contests stored since the last job and
+  // register source plugins on first run
+  const deduplicator = syncDeduplicator();
+  await ensureSourcePluginsLoaded();
 
   await job.updateProgress(10);
 
   // Build a DiscoverySource config from the job data
   const discoverySource = buildDiscoverySource(sourceId, sourceName, sourceUrl, sourceType, sourceConfig);
 
+  const db = getDb();
+  const merger = new ContestMerger(db);
+
+  // Listing pages are fetched conditionally and charged to the source's
+  // daily budget; a page of listings already attached to this source
+  // ends pagination
+  const session = new CrawlSession(db, sourceId, {
+    budget: discoverySource.budget,
+    isKnown: (url) => merger.findListing(sourceName, normalizeUrl(url)) !== null,
+  });
+
   // Use the real discovery module to crawl the source
   let crawlResult: CrawlResult;
   try {
@@ -149,7 +178,7 @@ async function processDiscoveryJob(
       { handler: handler.name, sourceId: discoverySource.id, url: discoverySource.url },
       'Crawling with handler',
     );
-    crawlResult = await handler.crawl(discoverySource);
+    crawlResult = await handler.crawl(discoverySource, session);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     throw new AppError(
@@ -166,46 +195,83 @@ async function processDiscoveryJob(
       source: sourceName,
       contestsFetched: crawlResult.contests.length,
       pagesCrawled: crawlResult.pagesCrawled,
+      pagesUnchanged: crawlResult.pagesUnchanged ?? 0,
+      budgetExhausted: crawlResult.budgetExhausted ?? false,
       errors: crawlResult.errors.length,
     },
     'Crawl phase completed',
   );
 
   // Deduplicate, score legitimacy, and persist new contests
-  const db = getDb();
   let newContestCount = 0;
   let duplicateCount = 0;
   let filteredCount = 0;
 
+  // Pick up allow/deny list edits and scam reports made since the last run
+  legitimacyScorer.setReputation(new ReputationStore(db).snapshot());
+
+  const discovered: Array<{ contestId: string; url: string }> = [];
+
   for (const raw of crawlResult.contests) {
-    // Deduplication using the real ContestDeduplicator
-    const dedupResult = await deduplicator.isDuplicate(raw);
-    if (dedupResult.isDuplicate) {
+    const listingUrl = normalizeUrl(raw.url);
+    const fields = sourceFieldsFromRaw(raw);
+
+    // A listing seen on an earlier run stays with its contest, even
+    // after a manual merge or split
+    const listed = merger.findListing(sourceName, listingUrl);
+    if (listed) {
+      merger.attach(listed.contestId, {
+        source: sourceName,
+        listingUrl,
+        messageId: raw.messageId,
+        trust: listed.trust,
+        fields,
+      });
+      duplicateCount++;
+      continue;
+    }
+
+    // Follow aggregator links to the sponsor's entry page so listings of
+    // the same contest from different sources share one URL
+    const canonical = await canonicalResolver.resolve(raw.url, { sourceUrl });
+    const candidate = { ...raw, url: canonical.url };
+    const listing = {
+      source: sourceName,
+      listingUrl,
+      canonicalMethod: canonical.method,
+      messageId: raw.messageId,
+      trust: sourceTrust(discoverySource, listingUrl, canonical.url),
+      fields,
+    };
+
+    // Deduplication using the real ContestDeduplicator, falling back to
+    // the database in case the deduplicator was not fully warm
+    const dedupResult = await deduplicator.isDuplicate(candidate);
+    const existingId = dedupResult.existingId ?? (await findContestIdByUrl(canonical.url));
+
+    if (existingId) {
+      const attached = merger.attach(existingId, listing);
+      deduplicator.markKnown(attached.contestId, candidate);
       log.debug(
-        { url: raw.url, method: dedupResult.method },
-        'Duplicate contest, skipping',
+        {
+          url: raw.url,
+          method: dedupResult.method ?? 'database',
+          contestId: attached.contestId,
+          changed: attached.changed,
+        },
+        'Duplicate contest, recorded as another listing',
       );
       duplicateCount++;
       continue;
     }
-
-    // Also check database directly in case deduplicator was not fully warm
-    const normalizedUrl = normalizeUrl(raw.url);
-    const existing = await db
-      .select({ id: schema.contests.id })
-      .from(schema.contests)
-      .where(eq(schema.contests.url, normalizedUrl))
-      .limit(1);
-
-    if (existing.length > 0) {
-      log.debug({ url: normalizedUrl }, 'Contest already in DB, skipping');
-      deduplicator.markKnown(existing[0]!.id, raw);
+    if (dedupResult.isDuplicate) {
+      log.debug({ url: raw.url, method: dedupResult.method }, 'Duplicate contest, skipping');
       duplicateCount++;
       continue;
     }
 
     // Legitimacy scoring
-    const legitimacyReport = legitimacyScorer.evaluate(raw);
+    const legitimacyReport = legitimacyScorer.evaluate(candidate);
     if (!legitimacyReport.passed) {
       log.info(
         { url: raw.url, score: legitimacyReport.score, summary: legitimacyReport.summary },
@@ -216,11 +282,7 @@ async function processDiscoveryJob(
     }
 
     // Generate a stable external ID for this contest
-    const externalId = deduplicator.generateExternalId(raw.url, raw.sponsor);
-
-    // Parse the end date string into an ISO date
-    const endDateParsed = raw.endDate ? parseDate(raw.endDate) : null;
-    const endDateStr = endDateParsed ? endDateParsed.toISOString() : null;
+    const externalId = deduplicator.generateExternalId(canonical.url, raw.sponsor);
 
     // Insert the new contest into the database
     const contestId = generateId();
@@ -229,7 +291,7 @@ async function processDiscoveryJob(
       await db.insert(schema.contests).values({
         id: contestId,
         externalId,
-        url: normalizedUrl,
+        url: canonical.url,
         title: raw.title.slice(0, 500),
         sponsor: raw.sponsor || null,
         description: raw.prizeDescription || null,
@@ -238,18 +300,15 @@ async function processDiscoveryJob(
         type: mapContestType(raw.type),
         entryMethod: mapEntryMethod(raw.entryMethod),
         status: 'discovered',
-        endDate: endDateStr,
+        endDate: fields.endDate,
         entryFrequency: mapEntryFrequency(raw.entryMethod, raw.type),
         prizeDescription: raw.prizeDescription || null,
+        termsUrl: raw.termsUrl ?? null,
         legitimacyScore: legitimacyReport.score,
+        legitimacyReport: JSON.stringify(legitimacyReport),
         metadata: JSON.stringify({
           discoveredAt: new Date().toISOString(),
           sourceType,
-          legitimacy: {
-            score: legitimacyReport.score,
-            summary: legitimacyReport.summary,
-            factors: legitimacyReport.factors,
-          },
           rawData: raw,
         }),
       });
@@ -257,25 +316,47 @@ async function processDiscoveryJob(
       // Handle unique constraint violations gracefully (race condition with concurrent workers)
       const msg = insertError instanceof Error ? insertError.message : String(insertError);
       if (msg.includes('UNIQUE constraint') || msg.includes('unique') || msg.includes('duplicate')) {
-        log.debug({ url: normalizedUrl }, 'Contest already exists (unique constraint), skipping');
+        log.debug({ url: canonical.url }, 'Contest already exists (unique constraint), skipping');
         duplicateCount++;
         continue;
       }
       throw insertError;
     }
 
+    merger.attach(contestId, listing, { newContest: true });
+
     // Register in deduplicator for future checks within this session
-    deduplicator.markKnown(contestId, raw);
+    deduplicator.markKnown(contestId, candidate);
 
     eventBus.emit('contest:discovered', {
       contestId,
-      url: normalizedUrl,
+      url: canonical.url,
       source: sourceName,
     });
 
+    discovered.push({ contestId, url: canonical.url });
     newContestCount++;
   }
 
+  await job.updateProgress(80);
+
+  // Archive each new contest's page as first seen, and keep the prize
+  // table it lists; failures are logged and do not fail the job
+  const snapshots = new ContestSnapshotArchive(db);
+  const prizeTables = new PrizeTableStore(db);
+  for (const { contestId, url } of discovered) {
+    const snapshot = await snapshots.captureUrl(contestId, 'discovery', url, { source: sourceName });
+    const htmlFile = snapshot ? snapshots.getFile(snapshot.id, 'html') : null;
+    if (!htmlFile) continue;
+
+    try {
+      const details = await extractContestDetails(readFileSync(htmlFile.filePath, 'utf-8'), snapshot!.url);
+      prizeTables.replace(contestId, details.prizes, 'page');
+    } catch (error) {
+      log.warn({ err: error, contestId, url }, 'Failed to extract prize table from contest page');
+    }
+  }
+
   await job.updateProgress(90);
 
   // Update the source's last_run_at and contests_found
@@ -287,6 +368,24 @@ async function processDiscoveryJob(
     })
     .where(eq(schema.discoverySources.id, sourceId));
 
+  // Score the crawl against the source's history; a source that keeps
+  // degrading is quarantined here. A crawl that parsed nothing because
+  // its pages were unchanged (or the budget was spent) says nothing
+  // about the source's health; one that stopped part way is scored
+  // without its yield (see measureCrawl).
+  const freshPages = crawlResult.pagesCrawled - (crawlResult.pagesUnchanged ?? 0);
+  const skipHealth = freshPages === 0 && crawlResult.contests.length === 0 && crawlResult.errors.length === 0;
+  if (!skipHealth) {
+    try {
+      await new SourceHealthMonitor(db).recordCrawl(
+        sourceId,
+        measureCrawl(crawlResult, { newContests: newContestCount, duplicates: duplicateCount }),
+      );
+    } catch (error) {
+      log.error({ err: error, sourceId }, 'Failed to record source health');
+    }
+  }
+
   await job.updateProgress(100);
 
   const result = {
@@ -310,48 +409,27 @@ async function processDiscoveryJob(
 }
 
 // ---------------------------------------------------------------------------
-// Deduplicator initialization
+// Deduplicator
 // ---------------------------------------------------------------------------
 
 /**
- * Load all existing contests from the database into the deduplicator
- * so it can detect duplicates without repeated DB queries.
+ * The shared deduplicator, backed by the persistent dedup index. Only
+ * contests the index has not seen (stored through the API, split off,
+ * or stored before the index existed) are indexed here; the first run
+ * against an existing database indexes everything once.
  */
-async function initializeDeduplicator(): Promise<void> {
-  if (deduplicatorInitialized) return;
+function syncDeduplicator(): ContestDeduplicator {
+  deduplicator ??= new ContestDeduplicator(new DedupIndex(getDb()));
 
   try {
-    const db = getDb();
-    const existingContests = await db
-      .select({
-        id: schema.contests.id,
-        url: schema.contests.url,
-        title: schema.contests.title,
-        sponsor: schema.contests.sponsor,
-      })
-      .from(schema.contests);
-
-    for (const contest of existingContests) {
-      deduplicator.registerExisting(
-        contest.id,
-        contest.url,
-        contest.title,
-        contest.sponsor ?? '',
-      );
-    }
-
-    deduplicatorInitialized = true;
-    log.info(
-      { existingContests: existingContests.length },
-      'Deduplicator initialized from database',
-    );
+    deduplicator.syncIndex();
   } catch (error) {
     log.warn(
       { err: error instanceof Error ? error.message : String(error) },
-      'Failed to initialize deduplicator from DB, will rely on DB-level dedup',
+      'Failed to sync dedup index, will rely on DB-level dedup',
     );
-    deduplicatorInitialized = true; // Don't retry on every job
   }
+  return deduplicator;
 }
 
 // ---------------------------------------------------------------------------
@@ -366,13 +444,16 @@ function buildDiscoverySource(
   sourceConfig: Record<string, unknown>,
 ): DiscoverySource {
   // Map the DB source type to the discovery module's source type
-  const typeMap: Record<string, 'html' | 'rss' | 'custom'> = {
+  const typeMap: Record<string, DiscoverySource['type']> = {
     crawler: 'html',
     html: 'html',
     rss: 'rss',
     api: 'custom',
     social: 'custom',
     custom: 'custom',
+    sitemap: 'sitemap',
+    'structured-data': 'structured-data',
+    newsletter: 'newsletter',
   };
 
   // Map known source names to their specialized handler IDs
@@ -384,8 +465,10 @@ function buildDiscoverySource(
     onlinesweepstakes: 'online-sweepstakes',
   };
 
+  // An explicit handler ID in the source config selects a registered
+  // manifest or plugin source by ID
   const normalizedName = sourceName.toLowerCase().replace(/[^a-z0-9]/g, '');
-  const handlerId = idMap[normalizedName] ?? sourceId;
+  const handlerId = (sourceConfig['handler'] as string | undefined) ?? idMap[normalizedName] ?? sourceId;
 
   return {
     id: handlerId,
@@ -395,12 +478,26 @@ function buildDiscoverySource(
     enabled: true,
     selectors: sourceConfig['selectors'] as DiscoverySource['selectors'],
     pagination: sourceConfig['pagination'] as DiscoverySource['pagination'],
+    sitemap: sourceConfig['sitemap'] as DiscoverySource['sitemap'],
+    pages: sourceConfig['pages'] as string[] | undefined,
+    newsletter: sourceConfig['newsletter'] as DiscoverySource['newsletter'],
+    budget: sourceConfig['budget'] as DiscoverySource['budget'],
     categories: sourceConfig['categories'] as string[] | undefined,
     maxPages: (sourceConfig['maxPages'] as number) ?? 5,
     rateLimitMs: (sourceConfig['rateLimitMs'] as number) ?? 2500,
+    trust: sourceConfig['trust'] as number | undefined,
   };
 }
 
+async function findContestIdByUrl(url: string): Promise<string | undefined> {
+  const rows = await getDb()
+    .select({ id: schema.contests.id })
+    .from(schema.contests)
+    .where(eq(schema.contests.url, url))
+    .limit(1);
+  return rows[0]?.id;
+}
+
 // ---------------------------------------------------------------------------
 // Type mapping helpers
 // ---------------------------------------------------------------------------
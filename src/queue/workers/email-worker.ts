@@ -1,15 +1,15 @@
 /**
- * BullMQ worker for processing email verification jobs.
+ * Worker for processing email verification jobs.
  *
  * When a contest entry requires email confirmation, this worker:
  * 1. Polls the email inbox for a confirmation message
  * 2. Extracts the confirmation link
  * 3. Visits the confirmation URL
- * 4. Updates the entry status to 'confirmed'
+ * 4. Updates the entry status to 'confirmed'; for entries made by a job
+ *    flow, the flow sets the status once every stage is done
  */
 
-import { Worker, type Job } from 'bullmq';
-import type IORedis from 'ioredis';
+import type { Job } from 'bullmq';
 import { eq } from 'drizzle-orm';
 import { QUEUE_NAMES } from '../../shared/constants.js';
 import { getLogger } from '../../shared/logger.js';
@@ -17,6 +17,8 @@ import { eventBus } from '../../shared/events.js';
 import { EmailError } from '../../shared/errors.js';
 import { getDb, schema } from '../../db/index.js';
 import { sleep } from '../../shared/timing.js';
+import { JobFlowStore, isFinalAttempt } from '../job-flow.js';
+import { createQueueWorker, type QueueWorker, type WorkerConnection } from './queue-worker.js';
 
 const log = getLogger('queue', { component: 'email-worker' });
 
@@ -45,6 +47,8 @@ export interface EmailJobData {
   entryId: string;
   emailAddress: string;
   confirmationType: 'link' | 'code';
+  /** ID of the job flow the verification belongs to. */
+  correlationId?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -52,16 +56,16 @@ export interface EmailJobData {
 // ---------------------------------------------------------------------------
 
 /**
- * Creates a BullMQ worker that processes email verification jobs.
+ * Creates a worker that processes email verification jobs.
  */
-export function createEmailWorker(connection: IORedis): Worker {
-  const worker = new Worker<EmailJobData>(
+export function createEmailWorker(connection: WorkerConnection): QueueWorker<EmailJobData> {
+  const worker = createQueueWorker<EmailJobData>(
     QUEUE_NAMES.EMAIL_VERIFY,
     async (job: Job<EmailJobData>) => {
       return processEmailJob(job);
     },
+    connection,
     {
-      connection,
       concurrency: 5,
       lockDuration: MAX_WAIT_MS + 60_000, // Wait time + buffer
     },
@@ -78,6 +82,10 @@ export function createEmailWorker(connection: IORedis): Worker {
       },
       'Email verification job completed',
     );
+
+    if (job.data.correlationId) {
+      new JobFlowStore(getDb()).stageCompleted(job.data.correlationId, 'email-verify', res);
+    }
   });
 
   worker.on('failed', (job: Job<EmailJobData> | undefined, error: Error) => {
@@ -90,6 +98,15 @@ export function createEmailWorker(connection: IORedis): Worker {
       },
       'Email verification job failed',
     );
+
+    if (job?.data.correlationId) {
+      new JobFlowStore(getDb()).stageFailed(
+        job.data.correlationId,
+        'email-verify',
+        error.message,
+        isFinalAttempt(job),
+      );
+    }
   });
 
   worker.on('error', (error: Error) => {
@@ -107,7 +124,7 @@ export function createEmailWorker(connection: IORedis): Worker {
 async function processEmailJob(
   job: Job<EmailJobData>,
 ): Promise<{ confirmed: boolean; confirmationUrl?: string }> {
-  const { entryId, emailAddress, confirmationType } = job.data;
+  const { entryId, emailAddress, confirmationType, correlationId } = job.data;
 
   log.info(
     {
@@ -119,10 +136,16 @@ async function processEmailJob(
     'Starting email verification',
   );
 
+  // The flow may have failed at another stage since this job was queued
+  const db = getDb();
+  if (correlationId && !new JobFlowStore(db).stageStarted(correlationId, 'email-verify', job.attemptsMade + 1)) {
+    log.info({ jobId: job.id, entryId, correlationId }, 'Flow already ended, skipping email verification');
+    return { confirmed: false };
+  }
+
   await job.updateProgress(10);
 
   // Look up the email account configuration
-  const db = getDb();
   const emailAccounts = await db
     .select()
     .from(schema.emailAccounts)
@@ -181,7 +204,7 @@ async function processEmailJob(
         if (code) {
           log.info({ entryId, codeLength: code.length }, 'Confirmation code found');
           // For code-based verification, return the code in the result
-          await updateEntryConfirmed(db, entryId);
+          await updateEntryConfirmed(db, entryId, !correlationId);
           eventBus.emit('email:confirmed', { entryId, emailId: email.id });
           await job.updateProgress(100);
           return { confirmed: true };
@@ -204,7 +227,7 @@ async function processEmailJob(
   // Click the confirmation link
   if (confirmationUrl) {
     await visitConfirmationLink(confirmationUrl);
-    await updateEntryConfirmed(db, entryId);
+    await updateEntryConfirmed(db, entryId, !correlationId);
 
     eventBus.emit('email:confirmed', {
       entryId,
@@ -277,49 +300,14 @@ async function searchViaGmail(
   _entryId: string,
 ): Promise<EmailMessage | null> {
   try {
-    const { GmailClient } = await import('../../email/gmail-client.js');
-
-    const db = getDb();
-    const accounts = await db
-      .select()
-      .from(schema.emailAccounts)
-      .where(eq(schema.emailAccounts.emailAddress, emailAddress))
-      .limit(1);
-
-    const account = accounts[0];
-    if (!account) {
-      log.warn({ email: maskEmail(emailAddress) }, 'No Gmail account configuration found');
-      return null;
-    }
-
-    // Parse stored credentials and tokens from the oauthTokens column (encrypted JSON)
-    let credentials: { clientId: string; clientSecret: string; redirectUri: string };
-    let tokens: { refreshToken: string };
-
-    try {
-      const oauthData = account.oauthTokens ? JSON.parse(account.oauthTokens) : {};
-      const imapData = account.imapConfig ? JSON.parse(account.imapConfig) : {};
-      credentials = {
-        clientId: oauthData.clientId ?? imapData.clientId ?? process.env['GMAIL_CLIENT_ID'] ?? '',
-        clientSecret: oauthData.clientSecret ?? imapData.clientSecret ?? process.env['GMAIL_CLIENT_SECRET'] ?? '',
-        redirectUri: oauthData.redirectUri ?? 'http://localhost:3000/api/v1/email/oauth/callback',
-      };
-      tokens = {
-        refreshToken: oauthData.refreshToken ?? '',
-      };
-    } catch {
-      log.warn({ email: maskEmail(emailAddress) }, 'Failed to parse Gmail account OAuth tokens');
-      return null;
-    }
+    const { connectGmailAccount } = await import('../../email/gmail-account.js');
 
-    if (!credentials.clientId || !credentials.clientSecret || !tokens.refreshToken) {
-      log.warn({ email: maskEmail(emailAddress) }, 'Gmail credentials incomplete, cannot search');
+    const gmailClient = await connectGmailAccount(emailAddress);
+    if (!gmailClient) {
+      log.warn({ email: maskEmail(emailAddress) }, 'No usable Gmail account configuration found');
       return null;
     }
 
-    const gmailClient = new GmailClient(credentials);
-    await gmailClient.refreshTokens(tokens.refreshToken);
-
     // Search for unread confirmation emails in the last 10 minutes
     const query = 'is:unread newer_than:10m (subject:confirm OR subject:verify OR subject:activate OR subject:entry)';
     const messages = await gmailClient.listMessages(query, 10);
@@ -434,17 +422,23 @@ async function visitConfirmationLink(url: string): Promise<void> {
   }
 }
 
+/**
+ * Records the email confirmation on the entry. Entries made by a job flow
+ * get their combined status from the flow once every stage is done, so
+ * only standalone jobs mark the entry confirmed here.
+ */
 async function updateEntryConfirmed(
   db: ReturnType<typeof getDb>,
   entryId: string,
+  confirmEntry: boolean,
 ): Promise<void> {
+  const now = new Date().toISOString();
   await db
     .update(schema.entries)
     .set({
-      status: 'confirmed',
       emailConfirmed: 1,
-      confirmedAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      updatedAt: now,
+      ...(confirmEntry ? { status: 'confirmed' as const, confirmedAt: now } : {}),
     })
     .where(eq(schema.entries.id, entryId));
 }
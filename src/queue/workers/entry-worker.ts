@@ -1,34 +1,33 @@
 /**
- * BullMQ worker for processing entry submission jobs.
+ * Worker for processing entry submission jobs.
  *
  * Each job loads a contest and profile from the database, orchestrates
  * the entry flow (including form filling, CAPTCHA solving, etc.),
- * and records the result.
+ * and records the result. Jobs queued as part of a job flow carry its
+ * correlation ID; a submitted entry then hands over to the flow's
+ * verification stages (see job-flow.ts).
  */
 
-import { Worker, type Job } from 'bullmq';
-import type IORedis from 'ioredis';
-import { eq, sql } from 'drizzle-orm';
+import type { Job } from 'bullmq';
+import { eq } from 'drizzle-orm';
 import { QUEUE_NAMES, DEFAULT_LIMITS } from '../../shared/constants.js';
 import { getLogger } from '../../shared/logger.js';
 import { eventBus } from '../../shared/events.js';
 import { EntryError } from '../../shared/errors.js';
 import { generateId } from '../../shared/crypto.js';
 import { getDb, schema } from '../../db/index.js';
-import { CircuitBreaker } from '../circuit-breaker.js';
+import { getCircuitBreaker } from '../circuit-breaker.js';
+import { JobFlowStore, isFinalAttempt } from '../job-flow.js';
+import { getQueueManager } from '../queue-manager.js';
+import { ComplianceEngine } from '../../compliance/rules-engine.js';
+import type { Affiliation } from '../../compliance/affiliation-matcher.js';
+import { EntryLimiter } from '../../compliance/entry-limiter.js';
+import { ReviewQueue } from '../../compliance/review-queue.js';
+import { RulesStore } from '../../compliance/rules-store.js';
+import { createQueueWorker, type QueueWorker, type WorkerConnection } from './queue-worker.js';
 
 const log = getLogger('queue', { component: 'entry-worker' });
 
-// ---------------------------------------------------------------------------
-// Circuit breaker (shared across all entry jobs, keyed by contest domain)
-// ---------------------------------------------------------------------------
-
-const circuitBreaker = new CircuitBreaker({
-  failureThreshold: 5,
-  recoveryTimeoutMs: 60_000, // 1 minute
-  halfOpenSuccessThreshold: 2,
-});
-
 // ---------------------------------------------------------------------------
 // Job data shape
 // ---------------------------------------------------------------------------
@@ -39,6 +38,8 @@ export interface EntryJobData {
   contestUrl: string;
   entryMethod: string;
   priority: number;
+  /** ID of the job flow the entry belongs to. */
+  correlationId?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -46,24 +47,24 @@ export interface EntryJobData {
 // ---------------------------------------------------------------------------
 
 /**
- * Creates a BullMQ worker that processes entry submission jobs.
+ * Creates a worker that processes entry submission jobs.
  */
 export function createEntryWorker(
-  connection: IORedis,
+  connection: WorkerConnection,
   concurrency: number = 2,
-): Worker {
+): QueueWorker<EntryJobData> {
   const maxConcurrency = Math.min(
     concurrency,
     DEFAULT_LIMITS.MAX_BROWSER_INSTANCES,
   );
 
-  const worker = new Worker<EntryJobData>(
+  const worker = createQueueWorker<EntryJobData>(
     QUEUE_NAMES.ENTRY,
     async (job: Job<EntryJobData>) => {
       return processEntryJob(job);
     },
+    connection,
     {
-      connection,
       concurrency: maxConcurrency,
       lockDuration: 180_000, // 3 minutes to allow for slow entries
       lockRenewTime: 60_000, // Renew lock every minute
@@ -95,6 +96,15 @@ export function createEntryWorker(
       },
       'Entry job failed',
     );
+
+    if (job?.data.correlationId) {
+      new JobFlowStore(getDb()).stageFailed(
+        job.data.correlationId,
+        'entry',
+        error.message,
+        isFinalAttempt(job),
+      );
+    }
   });
 
   worker.on('error', (error: Error) => {
@@ -112,8 +122,11 @@ export function createEntryWorker(
 async function processEntryJob(
   job: Job<EntryJobData>,
 ): Promise<{ entryId: string; status: string }> {
-  const { contestId, profileId, contestUrl, entryMethod } = job.data;
-  const entryId = generateId();
+  const { contestId, profileId, contestUrl, entryMethod, correlationId } = job.data;
+  const db = getDb();
+  const flows = new JobFlowStore(db);
+  // Retries of a flow's entry job keep working on the entry the first attempt created
+  const entryId = (correlationId && flows.entryOf(correlationId)) || generateId();
   const startTime = Date.now();
 
   log.info(
@@ -128,34 +141,14 @@ async function processEntryJob(
     'Starting entry job',
   );
 
-  // ---------------------------------------------------------------------------
-  // Circuit breaker check (keyed by domain)
-  // ---------------------------------------------------------------------------
-  let domain: string;
-  try {
-    domain = new URL(contestUrl).hostname;
-  } catch {
-    domain = contestUrl;
-  }
-
-  if (!circuitBreaker.canExecute(domain)) {
-    log.warn(
-      { domain, contestId, entryId },
-      'Circuit breaker is open for domain, skipping entry',
-    );
-    throw new EntryError(
-      `Circuit breaker open for domain ${domain}`,
-      'CIRCUIT_BREAKER_OPEN',
-      contestId,
-      entryId,
-    );
+  if (correlationId) {
+    flows.stageStarted(correlationId, 'entry', job.attemptsMade + 1);
   }
 
   eventBus.emit('entry:started', { contestId, profileId, entryId });
   await job.updateProgress(10);
 
   // Load contest from database
-  const db = getDb();
   const contestRows = await db
     .select()
     .from(schema.contests)
@@ -183,6 +176,16 @@ async function processEntryJob(
     );
   }
 
+  // Contests paused after an official-rules change wait for a manual resume
+  if (contest.pausedAt) {
+    throw new EntryError(
+      `Contest is paused: ${contest.pauseReason ?? contestId}`,
+      'CONTEST_PAUSED',
+      contestId,
+      entryId,
+    );
+  }
+
   await job.updateProgress(20);
 
   // Load profile from database
@@ -212,17 +215,116 @@ async function processEntryJob(
     );
   }
 
-  await job.updateProgress(30);
-
-  // Create entry record in pending state
-  await db.insert(schema.entries).values({
-    id: entryId,
+  // ---------------------------------------------------------------------------
+  // Compliance gate: blocked pairs are skipped and inconclusive pairs are
+  // held in the review queue until someone approves them.
+  // ---------------------------------------------------------------------------
+  const compliance = new ReviewQueue(db).resolve(
     contestId,
     profileId,
-    status: 'pending',
-    attemptNumber: job.attemptsMade + 1,
-    entryMethod,
-  });
+    await new ComplianceEngine(new EntryLimiter(db)).checkFullEligibility(
+      {
+        id: contest.id,
+        title: contest.title,
+        ageRequirement: contest.ageRequirement,
+        geoRestrictions: contest.geoRestrictions ?? '{}',
+        entryFrequency: contest.entryFrequency,
+        maxEntries: contest.maxEntries,
+        startDate: contest.startDate,
+        endDate: contest.endDate,
+        termsUrl: contest.termsUrl,
+        sponsor: contest.sponsor,
+        rules: new RulesStore(db).getLatest(contestId)?.rules ?? null,
+      },
+      {
+        id: profile.id,
+        dateOfBirth: profile.dateOfBirth,
+        state: profile.state,
+        country: profile.country,
+        employer: profile.employer,
+        affiliations: JSON.parse(profile.affiliations ?? '[]') as Affiliation[],
+      },
+    ),
+  );
+
+  if (compliance.outcome !== 'eligible') {
+    log.info(
+      {
+        jobId: job.id,
+        contestId,
+        profileId,
+        outcome: compliance.outcome,
+        rules: compliance.violations
+          .filter((v) => v.severity !== 'warn')
+          .map((v) => v.rule),
+      },
+      compliance.outcome === 'needs_review'
+        ? 'Entry held for compliance review'
+        : 'Entry blocked by compliance check',
+    );
+    if (correlationId) {
+      flows.entrySkipped(correlationId, compliance.outcome);
+    }
+    return {
+      entryId,
+      status: compliance.outcome === 'needs_review' ? 'needs_review' : 'skipped',
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Circuit breaker check (keyed by domain). Runs after the contest,
+  // profile and compliance checks so a HALF_OPEN probe, once claimed, is
+  // always reported back by the entry attempt below.
+  // ---------------------------------------------------------------------------
+  let domain: string;
+  try {
+    domain = new URL(contestUrl).hostname;
+  } catch {
+    domain = contestUrl;
+  }
+
+  // Shared across all entry jobs and worker processes, keyed by contest domain
+  const circuitBreaker = getCircuitBreaker();
+  if (!(await circuitBreaker.canExecute(domain))) {
+    log.warn(
+      { domain, contestId, entryId },
+      'Circuit breaker is open for domain, skipping entry',
+    );
+    throw new EntryError(
+      `Circuit breaker open for domain ${domain}`,
+      'CIRCUIT_BREAKER_OPEN',
+      contestId,
+      entryId,
+    );
+  }
+
+  await job.updateProgress(30);
+
+  // Create entry record in pending state (or reset the one an earlier attempt made)
+  await db
+    .insert(schema.entries)
+    .values({
+      id: entryId,
+      contestId,
+      profileId,
+      status: 'pending',
+      attemptNumber: job.attemptsMade + 1,
+      entryMethod,
+      correlationId: correlationId ?? null,
+    })
+    .onConflictDoUpdate({
+      target: schema.entries.id,
+      set: {
+        status: 'pending',
+        attemptNumber: job.attemptsMade + 1,
+        errorMessage: null,
+        updatedAt: new Date().toISOString(),
+      },
+    });
+
+  if (correlationId) {
+    flows.attachEntry(correlationId, entryId);
+  }
 
   let finalStatus: string = 'failed';
   let errorMessage: string | null = null;
@@ -335,8 +437,9 @@ async function processEntryJob(
         })
         .where(eq(schema.entries.id, entryId));
 
-      // Update entry limits tracking
-      await updateEntryLimits(db, contestId, profileId);
+      // Update entry limits tracking (also sets the next eligible time,
+      // which household limit checks rely on)
+      await new EntryLimiter(db).recordEntry(contestId, profileId);
 
       // Update contest status
       await db
@@ -349,9 +452,18 @@ async function processEntryJob(
         .where(eq(schema.contests.id, contestId));
 
       // Record success on the circuit breaker
-      circuitBreaker.recordSuccess(domain);
+      await circuitBreaker.recordSuccess(domain);
 
       eventBus.emit('entry:submitted', { entryId, contestId, profileId });
+
+      // Hand over to the flow's email / SMS verification stages
+      if (correlationId) {
+        await flows.entrySubmitted(getQueueManager(), correlationId, {
+          entryId,
+          contest,
+          profile,
+        });
+      }
     } else {
       // Orchestrator returned a non-success status (failed, skipped)
       finalStatus = 'failed';
@@ -368,7 +480,7 @@ async function processEntryJob(
         })
         .where(eq(schema.entries.id, entryId));
 
-      circuitBreaker.recordFailure(domain);
+      await circuitBreaker.recordFailure(domain);
       eventBus.emit('entry:failed', { entryId, error: errorMessage });
 
       throw new EntryError(errorMessage, 'ENTRY_ORCHESTRATOR_FAILED', contestId, entryId);
@@ -392,7 +504,7 @@ async function processEntryJob(
       error instanceof Error ? error.message : String(error);
 
     // Record failure on the circuit breaker
-    circuitBreaker.recordFailure(domain);
+    await circuitBreaker.recordFailure(domain);
 
     // Save error details
     await db
@@ -414,42 +526,3 @@ async function processEntryJob(
 
   return { entryId, status: finalStatus };
 }
-
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
-
-async function updateEntryLimits(
-  db: ReturnType<typeof getDb>,
-  contestId: string,
-  profileId: string,
-): Promise<void> {
-  const now = new Date().toISOString();
-
-  // Check for existing limit record
-  const existing = await db
-    .select()
-    .from(schema.entryLimits)
-    .where(eq(schema.entryLimits.contestId, contestId))
-    .limit(1);
-
-  const match = existing.find((e) => e.profileId === profileId);
-
-  if (match) {
-    await db
-      .update(schema.entryLimits)
-      .set({
-        lastEntryAt: now,
-        entryCount: sql`${schema.entryLimits.entryCount} + 1`,
-      })
-      .where(eq(schema.entryLimits.id, match.id));
-  } else {
-    await db.insert(schema.entryLimits).values({
-      id: generateId(),
-      contestId,
-      profileId,
-      lastEntryAt: now,
-      entryCount: 1,
-    });
-  }
-}
@@ -3,6 +3,9 @@
  * Re-exports all worker factory functions for centralized access.
  */
 
+export { createQueueWorker } from './queue-worker.js';
+export type { QueueWorker, WorkerConnection } from './queue-worker.js';
+
 export { createDiscoveryWorker } from './discovery-worker.js';
 export type { DiscoveryJobData } from './discovery-worker.js';
 
@@ -0,0 +1,34 @@
+/**
+ * Backend-neutral worker construction.
+ *
+ * Each worker module builds its worker through `createQueueWorker` and
+ * gets a BullMQ worker for a Redis connection or a SqliteWorker for the
+ * SQLite job store, with the same processor and event handlers.
+ */
+
+import { Worker, type Job } from 'bullmq';
+import type IORedis from 'ioredis';
+import { SqliteJobStore, SqliteWorker, type JobProcessor, type SqliteWorkerOptions } from '../sqlite-job-store.js';
+
+/** Where a worker takes its jobs from. */
+export type WorkerConnection = IORedis | SqliteJobStore;
+
+/** The part of a worker the worker modules and the QueueManager use. */
+export interface QueueWorker<T = unknown> {
+  on(event: 'completed', listener: (job: Job<T>, result: unknown) => void): this;
+  on(event: 'failed', listener: (job: Job<T> | undefined, error: Error) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  close(): Promise<void>;
+}
+
+export function createQueueWorker<T>(
+  queueName: string,
+  processor: JobProcessor<T>,
+  connection: WorkerConnection,
+  options: SqliteWorkerOptions = {},
+): QueueWorker<T> {
+  if (connection instanceof SqliteJobStore) {
+    return new SqliteWorker<T>(connection, queueName, processor, options);
+  }
+  return new Worker<T>(queueName, processor, { connection, ...options });
+}
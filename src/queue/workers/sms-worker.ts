@@ -1,5 +1,5 @@
 /**
- * BullMQ worker for processing SMS verification jobs.
+ * Worker for processing SMS verification jobs.
  *
  * When a contest entry requires SMS verification, this worker:
  * 1. Waits for an incoming SMS with a verification code
@@ -8,8 +8,7 @@
  * 4. Updates the entry status
  */
 
-import { Worker, type Job } from 'bullmq';
-import type IORedis from 'ioredis';
+import type { Job } from 'bullmq';
 import { eq } from 'drizzle-orm';
 import { QUEUE_NAMES } from '../../shared/constants.js';
 import { getLogger } from '../../shared/logger.js';
@@ -17,6 +16,8 @@ import { eventBus } from '../../shared/events.js';
 import { SmsError } from '../../shared/errors.js';
 import { getDb, schema } from '../../db/index.js';
 import { sleep } from '../../shared/timing.js';
+import { JobFlowStore, isFinalAttempt } from '../job-flow.js';
+import { createQueueWorker, type QueueWorker, type WorkerConnection } from './queue-worker.js';
 
 const log = getLogger('queue', { component: 'sms-worker' });
 
@@ -43,6 +44,8 @@ export interface SmsJobData {
   entryId: string;
   phoneNumber: string;
   provider: string;
+  /** ID of the job flow the verification belongs to. */
+  correlationId?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -50,16 +53,16 @@ export interface SmsJobData {
 // ---------------------------------------------------------------------------
 
 /**
- * Creates a BullMQ worker that processes SMS verification jobs.
+ * Creates a worker that processes SMS verification jobs.
  */
-export function createSmsWorker(connection: IORedis): Worker {
-  const worker = new Worker<SmsJobData>(
+export function createSmsWorker(connection: WorkerConnection): QueueWorker<SmsJobData> {
+  const worker = createQueueWorker<SmsJobData>(
     QUEUE_NAMES.SMS_VERIFY,
     async (job: Job<SmsJobData>) => {
       return processSmsJob(job);
     },
+    connection,
     {
-      connection,
       concurrency: 3,
       lockDuration: MAX_WAIT_MS + 30_000, // Wait time + buffer
     },
@@ -76,6 +79,12 @@ export function createSmsWorker(connection: IORedis): Worker {
       },
       'SMS verification job completed',
     );
+
+    if (job.data.correlationId) {
+      new JobFlowStore(getDb()).stageCompleted(job.data.correlationId, 'sms-verify', {
+        verified: res?.verified ?? false,
+      });
+    }
   });
 
   worker.on('failed', (job: Job<SmsJobData> | undefined, error: Error) => {
@@ -88,6 +97,15 @@ export function createSmsWorker(connection: IORedis): Worker {
       },
       'SMS verification job failed',
     );
+
+    if (job?.data.correlationId) {
+      new JobFlowStore(getDb()).stageFailed(
+        job.data.correlationId,
+        'sms-verify',
+        error.message,
+        isFinalAttempt(job),
+      );
+    }
   });
 
   worker.on('error', (error: Error) => {
@@ -105,7 +123,7 @@ export function createSmsWorker(connection: IORedis): Worker {
 async function processSmsJob(
   job: Job<SmsJobData>,
 ): Promise<{ verified: boolean; code?: string }> {
-  const { entryId, phoneNumber, provider } = job.data;
+  const { entryId, phoneNumber, provider, correlationId } = job.data;
 
   log.info(
     {
@@ -117,10 +135,16 @@ async function processSmsJob(
     'Starting SMS verification',
   );
 
+  // The flow may have failed at another stage since this job was queued
+  const db = getDb();
+  if (correlationId && !new JobFlowStore(db).stageStarted(correlationId, 'sms-verify', job.attemptsMade + 1)) {
+    log.info({ jobId: job.id, entryId, correlationId }, 'Flow already ended, skipping SMS verification');
+    return { verified: false };
+  }
+
   await job.updateProgress(10);
 
   // Look up the SMS number configuration
-  const db = getDb();
   const smsNumbers = await db
     .select()
     .from(schema.smsNumbers)
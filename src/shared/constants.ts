@@ -90,6 +90,7 @@ export const DEFAULT_LIMITS = {
   SMS_POLL_TIMEOUT_MS: 180_000,
   MAX_ENTRIES_PER_HOUR: 30,
   MAX_ENTRIES_PER_DAY: 200,
+  DAILY_BUDGET_USD: 50,
   DISCOVERY_INTERVAL_MS: 3_600_000, // 1 hour
   CLEANUP_INTERVAL_MS: 86_400_000, // 24 hours
   SCREENSHOT_MAX_AGE_MS: 604_800_000, // 7 days
@@ -105,6 +106,10 @@ export const PATHS = {
   LOGS: './data/logs',
   TEMP: './data/temp',
   PROFILES: './data/profiles',
+  CLAIM_DOCUMENTS: './data/claims',
+  CONTEST_SNAPSHOTS: './data/snapshots',
+  SOURCE_PLUGINS: './plugins/sources',
+  GOLDEN_CASES: './fixtures/golden',
 } as const;
 
 // ---------------------------------------------------------------------------
@@ -2,6 +2,7 @@ import {
   createCipheriv,
   createDecipheriv,
   createHash,
+  createHmac,
   pbkdf2Sync,
   randomBytes,
 } from 'node:crypto';
@@ -111,6 +112,15 @@ export function hashForDedup(input: string): string {
   return createHash('sha256').update(input, 'utf8').digest('hex');
 }
 
+/**
+ * Produces a hex-encoded HMAC-SHA256 keyed with the encryption key.
+ * Lets encrypted values be compared for equality without storing a hash
+ * that could be reversed by guessing likely inputs.
+ */
+export function keyedHash(input: string, key?: string): string {
+  return createHmac('sha256', getKey(key)).update(input, 'utf8').digest('hex');
+}
+
 /**
  * Generates a Universally Unique Lexicographically Sortable Identifier.
  * ULIDs are time-ordered, which makes them ideal for database primary keys.
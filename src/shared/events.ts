@@ -13,6 +13,16 @@ export interface AppEvents {
   'contest:expired': {
     contestId: string;
   };
+  'contest:rules_changed': {
+    contestId: string;
+    version: number;
+    changedFields: string[];
+    eligibilityChanged: boolean;
+  };
+  'contest:paused': {
+    contestId: string;
+    reason: string;
+  };
   'entry:queued': {
     contestId: string;
     profileId: string;
@@ -40,6 +50,21 @@ export interface AppEvents {
     prizeValue: number;
     prizeDescription: string;
   };
+  'win:possible_detected': {
+    possibleWinId: string;
+    emailId: string;
+    confidence: number;
+  };
+  'win:status_changed': {
+    winId: string;
+    from: string;
+    to: string;
+  };
+  'win:claim_reminder': {
+    winId: string;
+    hoursBefore: number;
+    claimDeadline: string;
+  };
   'captcha:solving': {
     type: string;
     provider: string;
@@ -78,6 +103,29 @@ export interface AppEvents {
     source: string;
     contestsFound: number;
   };
+  'discovery:source_quarantined': {
+    sourceId: string;
+    source: string;
+    reason: string;
+  };
+  'compliance:review_required': {
+    reviewId: string;
+    contestId: string;
+    profileId: string;
+  };
+  'compliance:review_decided': {
+    reviewId: string;
+    contestId: string;
+    profileId: string;
+    status: 'approved' | 'rejected';
+  };
+  'circuit:state_changed': {
+    domain: string;
+    from: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+    to: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+    reason: string;
+    failureCount: number;
+  };
   'queue:job:completed': {
     queue: string;
     jobId: string;
@@ -0,0 +1,257 @@
+/**
+ * Prize-table extraction and aggregation.
+ *
+ * Sweepstakes rarely award a single prize: official rules list a grand
+ * prize, first/second prizes with quantities, and instant-win games have
+ * whole prize pools. These helpers read the tiers out of page or rules
+ * text and reduce a prize table to the aggregates the scoring code needs
+ * (total prize count and total pool value).
+ *
+ * All functions are pure.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PrizeCategory =
+  | 'cash'
+  | 'electronics'
+  | 'travel'
+  | 'automotive'
+  | 'gift_card'
+  | 'home'
+  | 'fashion'
+  | 'food'
+  | 'experience'
+  | 'subscription'
+  | 'other';
+
+/** One row of a contest's prize table. */
+export interface PrizeTier {
+  /** 1 for the grand prize, increasing for lesser tiers. */
+  rank: number;
+  /** Display name, e.g. "Grand Prize" or "Instant Win Prize". */
+  tier: string;
+  description: string;
+  /** Approximate retail value of ONE prize in the tier, or null if not stated. */
+  arv: number | null;
+  quantity: number;
+  category: PrizeCategory;
+}
+
+export interface PrizeTableSummary {
+  /** Total number of prizes across all tiers. */
+  prizeCount: number;
+  /** Sum of ARV x quantity over tiers with a known ARV, or null if none. */
+  poolValue: number | null;
+  /** Highest single-prize ARV (normally the grand prize), or null. */
+  topValue: number | null;
+  /** Tiers whose ARV is unknown and so missing from poolValue. */
+  unvaluedTiers: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Tier keywords in rank order; unlisted tiers rank after these. */
+const TIER_ORDER = [
+  'grand', 'first', 'second', 'third', 'fourth', 'fifth', 'runner-up',
+  'bonus', 'early entry', 'monthly', 'weekly', 'daily', 'instant win', 'secondary',
+];
+
+const TIER_ALIASES: Record<string, string> = {
+  '1st': 'first', '2nd': 'second', '3rd': 'third', '4th': 'fourth', '5th': 'fifth',
+  'runner up': 'runner-up', 'instant-win': 'instant win', 'early-entry': 'early entry',
+};
+
+/** A tier heading such as "Grand Prize" or "First Prizes (10)". */
+export const PRIZE_TIER_HEADING =
+  /\b(grand|first|1st|second|2nd|third|3rd|fourth|4th|fifth|5th|runner[- ]up|instant[- ]win|daily|weekly|monthly|bonus|secondary|early[- ]entry)\s+prizes?\b(?:\s*\((\d[\d,]*|[a-z]+)\))?/gi;
+
+/** How far past a tier heading its details are read. */
+const MAX_SEGMENT_LENGTH = 500;
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/** Upper bound on a plausible per-tier quantity (instant-win pools are large). */
+const MAX_QUANTITY = 1_000_000;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, fifteen: 15, twenty: 20, twenty_five: 25,
+  thirty: 30, fifty: 50, hundred: 100,
+};
+
+const ARV_PATTERN =
+  /(total\s+)?(?:ARV|approximate\s+retail\s+value|approximate\s+value|retail\s+value|valued\s+at)[^$\d]{0,40}\$\s*([\d,]+(?:\.\d{1,2})?)/i;
+
+const DOLLAR_PATTERN = /\$\s*([\d,]+(?:\.\d{1,2})?)/;
+
+const CATEGORY_KEYWORDS: Array<[PrizeCategory, RegExp]> = [
+  ['gift_card', /\bgift\s*cards?\b|\bgift\s+certificates?\b|\be-?gift\b/i],
+  ['cash', /\bcash\b|\bcheck\b|\bpaypal\b|\bvisa\s+prepaid\b|\bprepaid\s+card\b|\bmoney\b/i],
+  ['automotive', /\bcar\b|\btruck\b|\bsuv\b|\bvehicle\b|\bmotorcycle\b|\b(?:toyota|ford|honda|chevrolet|jeep|tesla|nissan)\b/i],
+  ['travel', /\btrip\b|\bvacation\b|\bcruise\b|\bairfare\b|\bhotel\b|\bgetaway\b|\bresort\b/i],
+  ['electronics', /\biphone\b|\bipad\b|\blaptop\b|\btv\b|\btelevision\b|\bheadphones?\b|\bconsole\b|\bplaystation\b|\bxbox\b|\bnintendo\b|\bcamera\b|\btablet\b|\bspeaker\b/i],
+  ['subscription', /\bsubscription\b|\bmembership\b|\bpass\b/i],
+  ['experience', /\btickets?\b|\bconcert\b|\bmeet\s+(?:and|&)\s+greet\b|\bexperience\b|\bvip\b/i],
+  ['home', /\bkitchen\b|\bappliance\b|\bfurniture\b|\bmattress\b|\bgrill\b|\bmakeover\b|\bvacuum\b/i],
+  ['fashion', /\bclothing\b|\bapparel\b|\bshoes\b|\bsneakers\b|\bhandbag\b|\bjewelry\b|\bwatch\b/i],
+  ['food', /\bfood\b|\bgrocer(?:y|ies)\b|\bsnacks?\b|\bcoffee\b|\bmeal\b|\brestaurant\b|\bpizza\b/i],
+];
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads prize tiers from page or rules text, e.g.
+ * "Grand Prize (1): A 2026 sedan. ARV: $28,000. First Prizes (10): $100
+ * gift card. ARV: $100 each." Returns tiers sorted by rank, or an empty
+ * list when the text names no tiers.
+ */
+export function extractPrizeTiers(text: string): PrizeTier[] {
+  const headings = [...text.matchAll(PRIZE_TIER_HEADING)];
+  const byTier = new Map<string, PrizeTier & { order: number }>();
+
+  headings.forEach((heading, i) => {
+    const start = (heading.index ?? 0) + heading[0].length;
+    const nextStart = headings[i + 1]?.index ?? text.length;
+    const segment = text.slice(start, Math.min(nextStart, start + MAX_SEGMENT_LENGTH));
+
+    // "The first prize drawing will be held..." is prose, not a tier:
+    // require a label-like heading or a stated value.
+    const labelled = /^\s*[:–—-]/.test(segment) || heading[2] !== undefined;
+    if (!labelled && !DOLLAR_PATTERN.test(segment)) return;
+
+    const key = canonicalTier(heading[1]!);
+    const quantity = parseQuantity(heading[2], segment);
+    const arv = parseArv(segment, quantity);
+    const description = parseDescription(segment);
+
+    const existing = byTier.get(key);
+    if (existing && (existing.arv !== null || arv === null)) return;
+
+    byTier.set(key, {
+      rank: 0,
+      tier: tierLabel(key),
+      description,
+      arv,
+      quantity,
+      category: classifyPrizeCategory(description),
+      order: existing?.order ?? i,
+    });
+  });
+
+  return [...byTier.entries()]
+    .sort(([a, x], [b, y]) => tierRank(a) - tierRank(b) || x.order - y.order)
+    .map(([, { order: _order, ...tier }], index) => ({ ...tier, rank: index + 1 }));
+}
+
+/**
+ * Reduces a prize table to totals. ARVs are per prize, so each tier
+ * contributes ARV x quantity to the pool.
+ */
+export function summarizePrizes(tiers: Array<Pick<PrizeTier, 'arv' | 'quantity'>>): PrizeTableSummary {
+  let prizeCount = 0;
+  let poolValue: number | null = null;
+  let topValue: number | null = null;
+  let unvaluedTiers = 0;
+
+  for (const tier of tiers) {
+    const quantity = Math.max(1, tier.quantity);
+    prizeCount += quantity;
+    if (tier.arv === null || tier.arv <= 0) {
+      unvaluedTiers += 1;
+      continue;
+    }
+    poolValue = (poolValue ?? 0) + tier.arv * quantity;
+    topValue = Math.max(topValue ?? 0, tier.arv);
+  }
+
+  return { prizeCount, poolValue, topValue, unvaluedTiers };
+}
+
+/**
+ * Best-guess prize category from a prize description.
+ */
+export function classifyPrizeCategory(description: string): PrizeCategory {
+  for (const [category, pattern] of CATEGORY_KEYWORDS) {
+    if (pattern.test(description)) return category;
+  }
+  return 'other';
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function canonicalTier(raw: string): string {
+  const lower = raw.toLowerCase();
+  return TIER_ALIASES[lower] ?? lower;
+}
+
+function tierRank(key: string): number {
+  const index = TIER_ORDER.indexOf(key);
+  return index >= 0 ? index : TIER_ORDER.length;
+}
+
+function tierLabel(key: string): string {
+  const words = key.split(/([ -])/).map((w) => (w.length > 1 ? w[0]!.toUpperCase() + w.slice(1) : w));
+  return `${words.join('')} Prize`;
+}
+
+function toNumber(raw: string): number | null {
+  const word = NUMBER_WORDS[raw.toLowerCase().replace(/[\s-]+/g, '_')];
+  const value = word ?? Number(raw.replace(/,/g, ''));
+  return Number.isFinite(value) && value >= 1 && value <= MAX_QUANTITY ? value : null;
+}
+
+function parseQuantity(headingCount: string | undefined, segment: string): number {
+  if (headingCount) {
+    const value = toNumber(headingCount);
+    if (value !== null) return value;
+  }
+
+  // "(10)" right after the heading, or "Ten (10) winners"
+  const lead = segment.slice(0, 60).match(/^\s*[:–—-]?\s*(?:[a-z]+\s+)?\((\d[\d,]*)\)/i);
+  if (lead?.[1]) {
+    const value = toNumber(lead[1]);
+    if (value !== null) return value;
+  }
+
+  const winners = segment.match(/\b(\d[\d,]*|[a-z]+)\s+(?:\(\d[\d,]*\)\s+)?(?:winners?|prizes?|recipients?)\b/i);
+  if (winners?.[1]) {
+    const value = toNumber(winners[1]);
+    if (value !== null) return value;
+  }
+
+  return 1;
+}
+
+function parseArv(segment: string, quantity: number): number | null {
+  const arvMatch = segment.match(ARV_PATTERN);
+  const raw = arvMatch?.[2] ?? segment.match(DOLLAR_PATTERN)?.[1];
+  if (!raw) return null;
+
+  const value = parseFloat(raw.replace(/,/g, ''));
+  if (!Number.isFinite(value) || value <= 0) return null;
+
+  // "Total ARV of all First Prizes: $1,000" is for the whole tier
+  return arvMatch?.[1] && quantity > 1 ? Math.round((value / quantity) * 100) / 100 : value;
+}
+
+function parseDescription(segment: string): string {
+  const description = segment
+    .replace(/^\s*[:–—-]?\s*(?:\(\d[\d,]*\)\s*)?[:–—-]?\s*/, '')
+    .split(/\s*(?:\(?\bARV\b|\bapproximate\s+(?:retail\s+)?value\b|\bretail\s+value\b)/i)[0]!
+    .split(/(?<=[.!?])\s+(?=[A-Z])/)[0]!
+    .replace(/[\s.,;:(]+$/, '')
+    .trim();
+
+  return description.length > MAX_DESCRIPTION_LENGTH
+    ? `${description.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…`
+    : description;
+}
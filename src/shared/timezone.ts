@@ -0,0 +1,156 @@
+/**
+ * Time zone helpers built on Intl.
+ *
+ * Contests reset at a wall-clock time in the sponsor's time zone
+ * ("entries reset at 12:00 AM ET"), so scheduling has to convert between
+ * a local time in an IANA zone and UTC, including across DST changes.
+ */
+
+/** Wall-clock date and time in some time zone. Month is 1-12. */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Zone abbreviations and names seen in official rules, mapped to the
+ * IANA zone they mean. Rules say "ET" year-round and mean whichever of
+ * EST/EDT is in effect, so both resolve to the same zone.
+ */
+const ZONE_ALIASES: Record<string, string> = {
+  et: 'America/New_York',
+  est: 'America/New_York',
+  edt: 'America/New_York',
+  eastern: 'America/New_York',
+  ct: 'America/Chicago',
+  cst: 'America/Chicago',
+  cdt: 'America/Chicago',
+  central: 'America/Chicago',
+  mt: 'America/Denver',
+  mst: 'America/Denver',
+  mdt: 'America/Denver',
+  mountain: 'America/Denver',
+  pt: 'America/Los_Angeles',
+  pst: 'America/Los_Angeles',
+  pdt: 'America/Los_Angeles',
+  pacific: 'America/Los_Angeles',
+  akt: 'America/Anchorage',
+  akst: 'America/Anchorage',
+  akdt: 'America/Anchorage',
+  alaska: 'America/Anchorage',
+  ht: 'Pacific/Honolulu',
+  hst: 'Pacific/Honolulu',
+  hawaii: 'Pacific/Honolulu',
+  utc: 'UTC',
+  gmt: 'UTC',
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns true if `timeZone` is an IANA zone name this runtime knows.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a zone abbreviation ("ET", "Pacific") or IANA name to an IANA
+ * zone name. Returns null when the label is not recognized.
+ */
+export function resolveTimeZone(label: string): string | null {
+  const trimmed = label.trim().replace(/\.$/, '');
+  const alias = ZONE_ALIASES[trimmed.toLowerCase().replace(/\s+time$/, '')];
+  if (alias) return alias;
+  return isValidTimeZone(trimmed) ? trimmed : null;
+}
+
+/**
+ * Returns the wall-clock date and time of `date` in `timeZone`.
+ */
+export function toZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts['year'] ?? 1970,
+    month: parts['month'] ?? 1,
+    day: parts['day'] ?? 1,
+    hour: parts['hour'] ?? 0,
+    minute: parts['minute'] ?? 0,
+  };
+}
+
+/**
+ * Offset of `timeZone` from UTC at the instant `date`, in milliseconds
+ * (negative west of Greenwich).
+ */
+export function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const zoned = toZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  const truncated = date.getTime() - (date.getTime() % 60_000);
+  return asUtc - truncated;
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to the UTC instant. Repeated
+ * times in a fall-back hour resolve to the earlier instant; times inside
+ * a spring-forward gap resolve to an instant next to the gap.
+ */
+export function zonedTimeToUtc(local: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+  // The offset at the naive guess can differ from the offset at the real
+  // instant when a DST change falls between the two; one correction pass
+  // settles it.
+  const firstOffset = timeZoneOffsetMs(new Date(asUtc), timeZone);
+  let instant = asUtc - firstOffset;
+  const secondOffset = timeZoneOffsetMs(new Date(instant), timeZone);
+  if (secondOffset !== firstOffset) {
+    instant = asUtc - secondOffset;
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Adds whole calendar days to a wall-clock date, carrying into the
+ * month and year.
+ */
+export function addLocalDays(local: ZonedDateTime, days: number): ZonedDateTime {
+  const shifted = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return {
+    ...local,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
@@ -34,6 +34,8 @@ export type EntryFrequency =
   | "weekly"
   | "unlimited";
 
+export type ResetSource = "rules" | "manual";
+
 export type PrizeCategory =
   | "cash"
   | "electronics"
@@ -67,9 +69,19 @@ export interface Contest {
   endDate: string | null;
   entryFrequency: EntryFrequency | null;
   maxEntries: number | null;
+  /** "HH:MM" at which a new entry period starts, in resetTimezone. Null means midnight UTC. */
+  resetTime: string | null;
+  /** IANA time zone of resetTime. */
+  resetTimezone: string | null;
+  /** Whether the reset time was read from the official rules or set by hand. */
+  resetSource: ResetSource | null;
   prizeDescription: string | null;
   prizeValue: number | null;
   prizeCategory: PrizeCategory | null;
+  /** Total prizes in the prize table, null when the contest has none. */
+  prizeCount: number | null;
+  /** Sum of ARV x quantity over the prize table. */
+  prizePoolValue: number | null;
   ageRequirement: number;
   geoRestrictions: GeoRestrictions;
   requiresCaptcha: boolean;
@@ -80,11 +92,24 @@ export interface Contest {
   termsUrl: string | null;
   difficultyScore: number | null;
   legitimacyScore: number | null;
+  /** Factor-by-factor explanation of legitimacyScore. */
+  legitimacyReport: ContestLegitimacyReport | null;
   priorityScore: number | null;
   formMapping: Record<string, string>;
   screenshotPath: string | null;
   lastCheckedAt: string | null;
+  /** Set when an official-rules change altered eligibility. */
+  pausedAt: string | null;
+  pauseReason: string | null;
   metadata: Record<string, unknown>;
+  /** Set when this contest was merged into another; the other contest holds its listings. */
+  mergedIntoId: string | null;
+  /** Win odds and expected value, added by the API. */
+  odds?: ContestOdds;
+  /** Prize table, grand prize first (contest detail only). */
+  prizes?: ContestPrize[];
+  /** Every source that listed the contest, most trusted first (contest detail only). */
+  sources?: ContestSource[];
   createdAt: string;
   updatedAt: string;
 }
@@ -100,6 +125,84 @@ export interface GeoRestrictions {
   excludedStates?: string[];
 }
 
+/** One tier of a contest's prize table. */
+export interface ContestPrize {
+  id: string;
+  contestId: string;
+  rank: number;
+  tier: string;
+  description: string;
+  /** Approximate retail value of one prize in the tier. */
+  arv: number | null;
+  quantity: number;
+  category: PrizeCategory;
+  source: "page" | "rules" | "manual";
+  createdAt: string;
+}
+
+/** Field values as one source listed them. */
+export interface ContestSourceFields {
+  title: string | null;
+  sponsor: string | null;
+  endDate: string | null;
+  prizeDescription: string | null;
+  termsUrl: string | null;
+}
+
+/** One source's listing of a contest. Contest fields come from the most trusted listing with a value. */
+export interface ContestSource {
+  id: string;
+  contestId: string;
+  source: string;
+  listingUrl: string;
+  /** How the listing URL was resolved to the contest URL. */
+  canonicalMethod: string | null;
+  /** Email message the listing came from, for newsletter sources. */
+  messageId: string | null;
+  trust: number;
+  fields: ContestSourceFields;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/** One heuristic behind a legitimacy score and how much it added or removed. */
+export interface ContestLegitimacyFactor {
+  name: string;
+  score: number;
+  reason: string;
+}
+
+export interface ContestLegitimacyReport {
+  score: number;
+  factors: ContestLegitimacyFactor[];
+  passed: boolean;
+  summary: string;
+}
+
+/** One signal behind an odds estimate and how it moved the result. */
+export interface ContestOddsInput {
+  key: string;
+  label: string;
+  value: string;
+  effect: string;
+}
+
+export interface ContestOdds {
+  winProbability: number;
+  estimatedEntries: number;
+  prizeCount: number;
+  prizeValue: number;
+  prizePoolValue: number;
+  /** Expected prize value of one entry, in USD. */
+  expectedValue: number;
+  minutesPerEntry: number;
+  costPerEntry: number;
+  evPerMinute: number;
+  evPerDollar: number;
+  confidence: "low" | "medium" | "high";
+  inputs: ContestOddsInput[];
+}
+
 export interface SocialAction {
   platform: string;
   actionType: "follow" | "like" | "retweet" | "share" | "comment" | "subscribe" | "tag";
@@ -148,6 +251,9 @@ export interface ContestUpdateInput {
   endDate?: string;
   entryFrequency?: EntryFrequency;
   maxEntries?: number;
+  /** Setting these marks the reset time as manual; null clears both. */
+  resetTime?: string | null;
+  resetTimezone?: string | null;
   prizeDescription?: string;
   prizeValue?: number;
   prizeCategory?: PrizeCategory;
@@ -295,6 +401,8 @@ export const contestUpdateSchema = z.object({
   endDate: z.string().datetime().optional(),
   entryFrequency: entryFrequencySchema.optional(),
   maxEntries: z.number().int().positive().optional(),
+  resetTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).nullable().optional(),
+  resetTimezone: z.string().min(1).max(64).nullable().optional(),
   prizeDescription: z.string().max(2000).optional(),
   prizeValue: z.number().nonnegative().optional(),
   prizeCategory: prizeCategorySchema.optional(),
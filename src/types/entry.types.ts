@@ -38,6 +38,7 @@ export interface Entry {
   errorMessage: string | null;
   errorScreenshot: string | null;
   durationMs: number | null;
+  correlationId: string | null;
   submittedAt: string | null;
   confirmedAt: string | null;
   createdAt: string;
@@ -12,6 +12,13 @@ export type {
   PrizeCategory,
   GeoRestrictions,
   SocialAction,
+  ContestOdds,
+  ContestOddsInput,
+  ContestPrize,
+  ContestSource,
+  ContestSourceFields,
+  ContestLegitimacyFactor,
+  ContestLegitimacyReport,
   ContestCreateInput,
   ContestUpdateInput,
   ContestFilter,
@@ -55,11 +62,14 @@ export type {
   ProfileUpdateInput,
   SocialAccounts,
   Address,
+  ProfileAffiliation,
+  AffiliationRelationship,
 } from "./profile.types.js";
 
 export {
   addressSchema,
   socialAccountsSchema,
+  profileAffiliationSchema,
   profileCreateSchema,
   profileUpdateSchema,
 } from "./profile.types.js";
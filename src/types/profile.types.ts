@@ -24,6 +24,19 @@ export interface SocialAccounts {
   [platform: string]: string | undefined;
 }
 
+export type AffiliationRelationship =
+  | "spouse"
+  | "parent"
+  | "child"
+  | "sibling"
+  | "household";
+
+/** An organization someone in the profile's household is connected to. */
+export interface ProfileAffiliation {
+  organization: string;
+  relationship: AffiliationRelationship;
+}
+
 export interface Profile {
   id: string;
   firstName: string;
@@ -36,6 +49,8 @@ export interface Profile {
   dateOfBirth: string | null;
   gender: string | null;
   socialAccounts: SocialAccounts;
+  employer: string | null;
+  affiliations: ProfileAffiliation[];
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -61,6 +76,8 @@ export interface ProfileCreateInput {
   dateOfBirth?: string;
   gender?: string;
   socialAccounts?: SocialAccounts;
+  employer?: string;
+  affiliations?: ProfileAffiliation[];
 }
 
 export interface ProfileUpdateInput {
@@ -79,6 +96,8 @@ export interface ProfileUpdateInput {
   dateOfBirth?: string;
   gender?: string;
   socialAccounts?: SocialAccounts;
+  employer?: string;
+  affiliations?: ProfileAffiliation[];
   isActive?: boolean;
 }
 
@@ -100,6 +119,11 @@ export const socialAccountsSchema = z.record(
   z.string().optional(),
 );
 
+export const profileAffiliationSchema = z.object({
+  organization: z.string().min(1).max(200),
+  relationship: z.enum(["spouse", "parent", "child", "sibling", "household"]),
+});
+
 export const profileCreateSchema = z.object({
   firstName: z.string().min(1).max(100),
   lastName: z.string().min(1).max(100),
@@ -122,6 +146,8 @@ export const profileCreateSchema = z.object({
     .optional(),
   gender: z.string().max(20).optional(),
   socialAccounts: socialAccountsSchema.optional(),
+  employer: z.string().max(200).optional(),
+  affiliations: z.array(profileAffiliationSchema).max(20).optional(),
 });
 
 export const profileUpdateSchema = z.object({
@@ -146,5 +172,7 @@ export const profileUpdateSchema = z.object({
     .optional(),
   gender: z.string().max(20).optional(),
   socialAccounts: socialAccountsSchema.optional(),
+  employer: z.string().max(200).optional(),
+  affiliations: z.array(profileAffiliationSchema).max(20).optional(),
   isActive: z.boolean().optional(),
 });
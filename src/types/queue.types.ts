@@ -38,7 +38,7 @@ export interface DiscoveryJobData {
   queue: "discovery";
   sourceId: string;
   sourceName: string;
-  sourceType: "crawler" | "rss" | "api" | "social";
+  sourceType: "crawler" | "rss" | "api" | "social" | "sitemap" | "structured-data" | "newsletter";
   url: string;
   config: Record<string, unknown>;
 }
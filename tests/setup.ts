@@ -0,0 +1,7 @@
+/**
+ * Vitest setup, run before every test file.
+ */
+
+// Contest dates are parsed in local time; pin it so results match on every machine
+process.env.TZ = 'UTC';
+process.env.LOG_LEVEL ??= 'error';